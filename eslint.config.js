@@ -34,7 +34,9 @@ export default [
         fetch: 'readonly',
         AbortSignal: 'readonly',
         Response: 'readonly',
+        Headers: 'readonly',
         URL: 'readonly',
+        structuredClone: 'readonly',
       },
     },
     plugins: {
@@ -26,6 +26,16 @@ import {
   logPerformance,
   warn,
 } from '../utils/logger.js';
+import {
+  createRateLimitError,
+  parseRateLimitHeaders,
+  withStatusCode,
+} from './rate-limit.js';
+import {
+  requestWithStructuredOutput,
+  STRUCTURED_OUTPUT_NAME,
+  toNativeJsonSchema,
+} from './structured-output.js';
 
 /**
  * Configuration options for Anthropic SDK adapter
@@ -53,7 +63,7 @@ export interface AnthropicSDKAdapterConfig {
  * Provides integration with Anthropic's Claude API using the official SDK, supporting:
  * - Stateless LLM interactions (following Anthropic's design patterns)
  * - Streaming responses via the Anthropic SDK
- * - Tool use and structured output capabilities
+ * - Native structured output via forced tool use
  * - Comprehensive error handling and Anthropic-specific error messages
  * - Health monitoring and API availability checks
  *
@@ -303,25 +313,54 @@ export class AnthropicSDKAdapter implements ProviderAdapter {
         },
       });
 
-      // Execute the API call
-      const message = await this.anthropic.messages.create(messageParams);
+      // Execute the API call, forcing a tool call whose input follows the
+      // schema when one was passed
+      const nativeSchema = toNativeJsonSchema(options.schema, true);
+      const { response: message, mode } = await requestWithStructuredOutput(
+        this.name,
+        nativeSchema &&
+          (() =>
+            this.anthropic.messages.create({
+              ...messageParams,
+              tools: [
+                {
+                  name: STRUCTURED_OUTPUT_NAME,
+                  description: 'Return the response as structured output',
+                  input_schema:
+                    nativeSchema as Anthropic.Messages.Tool.InputSchema,
+                },
+              ],
+              tool_choice: { type: 'tool', name: STRUCTURED_OUTPUT_NAME },
+            })),
+        () => this.anthropic.messages.create(messageParams)
+      );
       const apiDuration = Date.now() - startTime;
 
-      // Extract token usage information
+      // Extract token usage information, counting cached input like the CLI does
+      const inputTokens =
+        message.usage.input_tokens +
+        (message.usage.cache_creation_input_tokens ?? 0) +
+        (message.usage.cache_read_input_tokens ?? 0);
       const tokenUsage: TokenUsage = {
-        inputTokens: message.usage.input_tokens,
+        inputTokens,
         outputTokens: message.usage.output_tokens,
-        totalTokens: message.usage.input_tokens + message.usage.output_tokens,
+        totalTokens: inputTokens + message.usage.output_tokens,
       };
 
-      // Extract content (assuming text content)
-      const content = message.content
-        .filter(
-          (content): content is Anthropic.Messages.TextBlock =>
-            content.type === 'text'
-        )
-        .map(block => block.text)
-        .join('');
+      // Extract content: the structured output tool's input, or the text
+      const toolUse = message.content.find(
+        (content): content is Anthropic.Messages.ToolUseBlock =>
+          content.type === 'tool_use' && content.name === STRUCTURED_OUTPUT_NAME
+      );
+      const content = toolUse
+        ? JSON.stringify(toolUse.input)
+        : message.content
+            .filter(
+              (content): content is Anthropic.Messages.TextBlock =>
+                content.type === 'text'
+            )
+            .map(block => block.text)
+            .join('');
 
       // Log the successful response with full details
       llmResponse({
@@ -357,6 +396,7 @@ export class AnthropicSDKAdapter implements ProviderAdapter {
       return {
         content,
         tokenUsage,
+        model,
         metadata: {
           model,
           temperature: options.temperature,
@@ -368,6 +408,7 @@ export class AnthropicSDKAdapter implements ProviderAdapter {
         },
         truncated: message.stop_reason === 'max_tokens',
         stopReason: this.mapStopReason(message.stop_reason),
+        ...(options.schema && { structuredOutput: mode }),
       };
     } catch (error) {
       const errorDuration = Date.now() - startTime;
@@ -393,7 +434,10 @@ export class AnthropicSDKAdapter implements ProviderAdapter {
         model,
       });
 
-      throw this.enhanceError(error, 'Failed to send prompt to Anthropic SDK');
+      throw withStatusCode(
+        this.enhanceError(error, 'Failed to send prompt to Anthropic SDK'),
+        error
+      );
     }
   }
 
@@ -497,8 +541,9 @@ export class AnthropicSDKAdapter implements ProviderAdapter {
             `${context}: Anthropic API endpoint not found. The model "${this.defaultModel}" may not exist.`
           );
         case 429:
-          return new Error(
-            `${context}: Anthropic API rate limit exceeded. Please wait and try again.`
+          return createRateLimitError(
+            `${context}: Anthropic API rate limit exceeded. Please wait and try again.`,
+            parseRateLimitHeaders(error.headers)
           );
         case 500:
         case 502:
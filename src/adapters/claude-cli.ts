@@ -30,6 +30,7 @@ import type {
   ProviderPromptOptions,
   ProviderResponse,
   ProviderSessionOptions,
+  TokenUsage,
 } from '../types/index.js';
 import {
   debug,
@@ -565,7 +566,13 @@ export class ClaudeCLIAdapter implements ProviderAdapter {
       }
 
       const content = extractContentFromResponse(claudeResponse);
-      const tokenUsage = getTokenUsage(claudeResponse);
+      // The CLI reports what the request actually cost
+      const tokenUsage: TokenUsage = {
+        ...getTokenUsage(claudeResponse),
+        ...(claudeResponse.total_cost_usd !== undefined && {
+          estimatedCost: claudeResponse.total_cost_usd,
+        }),
+      };
       const totalDuration = Date.now() - startTime;
 
       // Log the successful response with full details
@@ -622,6 +629,7 @@ export class ClaudeCLIAdapter implements ProviderAdapter {
       return {
         content,
         tokenUsage,
+        model: options.model || DEFAULT_MODEL,
         metadata: {
           sessionId: claudeResponse.session_id,
           model: options.model || DEFAULT_MODEL,
@@ -0,0 +1,427 @@
+/**
+ * Fallback Provider Adapter
+ *
+ * Composite adapter that sends each prompt to the first available adapter of
+ * an ordered chain and fails over to the next one when a provider error is
+ * retryable (rate limits, timeouts, server errors, network failures). Each
+ * adapter has its own circuit breaker: after a number of consecutive
+ * failures the circuit opens and the adapter is skipped until a cooldown
+ * has passed, after which it is probed through `getHealth()` (or a single
+ * trial request) before taking traffic again. Only one probe per adapter
+ * is in flight at a time; concurrent requests fail over until it settles.
+ */
+
+import { isRetryableHttpStatus } from '../shared/constants/index.js';
+import type {
+  ProviderAdapter,
+  ProviderHealth,
+  ProviderPromptOptions,
+  ProviderResponse,
+  ProviderSessionOptions,
+  TokenUsage,
+} from '../types/index.js';
+import { isProviderError } from '../types/index.js';
+import { debug, info, warn } from '../utils/logger.js';
+import { getRateLimitDetails } from './rate-limit.js';
+
+/** Consecutive failures that open a circuit by default */
+const DEFAULT_FAILURE_THRESHOLD = 3;
+
+/** Time an open circuit waits before probing its adapter by default */
+const DEFAULT_RESET_TIMEOUT_MS = 30_000;
+
+/**
+ * Configuration options for the fallback adapter
+ */
+export interface FallbackAdapterConfig {
+  /** Adapters in order of preference */
+  readonly adapters: readonly ProviderAdapter[];
+
+  /** Consecutive failures after which an adapter's circuit opens (default: 3) */
+  readonly failureThreshold?: number;
+
+  /** Milliseconds an open circuit waits before probing its adapter again (default: 30000) */
+  readonly resetTimeoutMs?: number;
+}
+
+/**
+ * State of an adapter's circuit breaker
+ *
+ * - `closed`: the adapter takes requests
+ * - `open`: the adapter is skipped until the reset timeout has passed
+ * - `half_open`: the adapter is being probed by a single request; a success
+ *   closes the circuit and a failure opens it again
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Circuit breaker status of one adapter in the chain
+ */
+export interface ProviderCircuit {
+  /** Name of the adapter */
+  readonly provider: string;
+
+  /** Current circuit state */
+  readonly state: CircuitState;
+
+  /** Failures since the adapter last succeeded */
+  readonly consecutiveFailures: number;
+
+  /** When the circuit last opened */
+  readonly openedAt?: Date;
+}
+
+/**
+ * Mutable circuit of one adapter
+ */
+interface Circuit {
+  readonly adapter: ProviderAdapter;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  // Whether a half-open probe is in flight
+  probing: boolean;
+}
+
+/**
+ * Provider adapter failing over across an ordered chain of adapters
+ *
+ * Responses carry the name of the adapter that served them in `provider`,
+ * which `persuade()` records per attempt in `metadata.attemptProviders`.
+ * Sessions are created with the first available adapter that supports
+ * them; prompts that fail over to another adapter are sent without the
+ * session.
+ */
+export class FallbackAdapter implements ProviderAdapter {
+  readonly name = 'fallback';
+  readonly version = '1.0.0';
+  readonly supportsSession: boolean;
+  readonly supportedModels: readonly string[];
+
+  private readonly circuits: Circuit[];
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  // Index of the adapter that created each session
+  private readonly sessionOwners = new Map<string, number>();
+
+  constructor(config: FallbackAdapterConfig) {
+    if (config.adapters.length === 0) {
+      throw new Error('Fallback adapter requires at least one adapter');
+    }
+
+    this.circuits = config.adapters.map(adapter => ({
+      adapter,
+      state: 'closed',
+      consecutiveFailures: 0,
+      probing: false,
+    }));
+    this.failureThreshold =
+      config.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.resetTimeoutMs = config.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS;
+    this.supportsSession = config.adapters.some(
+      adapter => adapter.supportsSession
+    );
+    this.supportedModels = [
+      ...new Set(
+        config.adapters.flatMap(adapter => adapter.supportedModels ?? [])
+      ),
+    ];
+  }
+
+  /**
+   * Create a session with the first available adapter that supports sessions
+   */
+  async createSession(
+    context: string,
+    options?: ProviderSessionOptions
+  ): Promise<string> {
+    let lastError: unknown;
+
+    for (const [index, circuit] of this.circuits.entries()) {
+      const { adapter } = circuit;
+      if (
+        !adapter.supportsSession ||
+        !adapter.createSession ||
+        !(await this.isAvailable(circuit))
+      ) {
+        continue;
+      }
+
+      try {
+        const sessionId = await adapter.createSession(context, options);
+        this.recordSuccess(circuit);
+        this.sessionOwners.set(sessionId, index);
+        return sessionId;
+      } catch (error) {
+        lastError = error;
+        if (!this.handleFailure(circuit, error)) {
+          throw error;
+        }
+      }
+    }
+
+    throw lastError ?? this.createUnavailableError();
+  }
+
+  /**
+   * Send the prompt to the first available adapter, failing over on
+   * retryable errors
+   *
+   * @throws The last adapter's error when every adapter failed, or the
+   *         error of an adapter that failed with a non-retryable error
+   */
+  async sendPrompt(
+    sessionId: string | null,
+    prompt: string,
+    options: ProviderPromptOptions
+  ): Promise<ProviderResponse> {
+    const owner =
+      sessionId === null ? undefined : this.getSessionOwner(sessionId);
+    let lastError: unknown;
+
+    for (const [index, circuit] of this.circuits.entries()) {
+      const { adapter } = circuit;
+      if (!(await this.isAvailable(circuit))) {
+        debug(`Skipping ${adapter.name}: circuit is open`, {
+          provider: adapter.name,
+          openedAt: circuit.openedAt,
+        });
+        continue;
+      }
+
+      try {
+        const response = await adapter.sendPrompt(
+          index === owner ? sessionId : null,
+          prompt,
+          options
+        );
+        this.recordSuccess(circuit);
+        if (lastError !== undefined) {
+          info(`Request served by fallback provider ${adapter.name}`, {
+            provider: adapter.name,
+            position: index + 1,
+          });
+        }
+        return { ...response, provider: adapter.name };
+      } catch (error) {
+        lastError = error;
+        if (!this.handleFailure(circuit, error)) {
+          throw error;
+        }
+        warn(`Provider ${adapter.name} failed; failing over`, {
+          provider: adapter.name,
+          error: error instanceof Error ? error.message : String(error),
+          consecutiveFailures: circuit.consecutiveFailures,
+          circuit: circuit.state,
+        });
+      }
+    }
+
+    throw lastError ?? this.createUnavailableError();
+  }
+
+  /**
+   * Destroy a session with the adapter that created it
+   */
+  async destroySession(sessionId: string): Promise<void> {
+    const owner = this.circuits[this.getSessionOwner(sessionId) ?? -1];
+    this.sessionOwners.delete(sessionId);
+    await owner?.adapter.destroySession?.(sessionId);
+  }
+
+  /**
+   * Send success feedback to the adapter that created the session
+   */
+  async sendSuccessFeedback(
+    sessionId: string,
+    successMessage: string,
+    metadata?: {
+      readonly attemptNumber?: number;
+      readonly validatedOutput?: unknown;
+      readonly timestamp?: Date;
+      readonly tokenUsage?: TokenUsage;
+      readonly executionTimeMs?: number;
+    }
+  ): Promise<void> {
+    const owner = this.circuits[this.getSessionOwner(sessionId) ?? -1];
+    await owner?.adapter.sendSuccessFeedback?.(
+      sessionId,
+      successMessage,
+      metadata
+    );
+  }
+
+  /**
+   * Healthy while at least one adapter's circuit lets requests through
+   */
+  async getHealth(): Promise<ProviderHealth> {
+    const circuits = this.getCircuits();
+    const available = circuits.filter(circuit => circuit.state !== 'open');
+
+    return {
+      healthy: available.length > 0,
+      checkedAt: new Date(),
+      ...(available.length === 0 && {
+        error: 'All providers in the fallback chain have open circuits',
+      }),
+      details: { circuits },
+    };
+  }
+
+  /**
+   * Circuit breaker status of every adapter, in chain order
+   */
+  getCircuits(): readonly ProviderCircuit[] {
+    return this.circuits.map(circuit => ({
+      provider: circuit.adapter.name,
+      state: circuit.state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      ...(circuit.openedAt !== undefined && {
+        openedAt: new Date(circuit.openedAt),
+      }),
+    }));
+  }
+
+  /**
+   * Whether an adapter may take a request, moving an open circuit whose
+   * reset timeout has passed to half-open and probing its adapter's health
+   *
+   * A half-open circuit lets only the probing request through until it
+   * succeeds or fails.
+   */
+  private async isAvailable(circuit: Circuit): Promise<boolean> {
+    if (circuit.state === 'half_open') {
+      return !circuit.probing;
+    }
+    if (circuit.state !== 'open') {
+      return true;
+    }
+    if (Date.now() - (circuit.openedAt ?? 0) < this.resetTimeoutMs) {
+      return false;
+    }
+
+    circuit.state = 'half_open';
+    circuit.probing = true;
+    if (!circuit.adapter.getHealth) {
+      // Without a health check the next request is the probe
+      return true;
+    }
+
+    const healthy = await circuit.adapter.getHealth().then(
+      health => health.healthy,
+      () => false
+    );
+    debug(`Probed ${circuit.adapter.name} for a half-open circuit`, {
+      provider: circuit.adapter.name,
+      healthy,
+    });
+    if (!healthy) {
+      this.openCircuit(circuit);
+    }
+    return healthy;
+  }
+
+  private recordSuccess(circuit: Circuit): void {
+    if (circuit.state !== 'closed') {
+      info(`Circuit for ${circuit.adapter.name} closed`, {
+        provider: circuit.adapter.name,
+      });
+    }
+    circuit.state = 'closed';
+    circuit.consecutiveFailures = 0;
+    circuit.probing = false;
+    delete circuit.openedAt;
+  }
+
+  /**
+   * Count a failed call against the adapter's circuit
+   *
+   * @returns Whether the error allows failing over to the next adapter
+   */
+  private handleFailure(circuit: Circuit, error: unknown): boolean {
+    circuit.probing = false;
+    if (!isFailoverError(error)) {
+      return false;
+    }
+
+    circuit.consecutiveFailures++;
+    if (
+      circuit.state === 'half_open' ||
+      circuit.consecutiveFailures >= this.failureThreshold
+    ) {
+      this.openCircuit(circuit);
+    }
+    return true;
+  }
+
+  private openCircuit(circuit: Circuit): void {
+    circuit.state = 'open';
+    circuit.openedAt = Date.now();
+    warn(`Circuit for ${circuit.adapter.name} opened`, {
+      provider: circuit.adapter.name,
+      consecutiveFailures: circuit.consecutiveFailures,
+      resetTimeoutMs: this.resetTimeoutMs,
+    });
+  }
+
+  /**
+   * Adapter index a session belongs to; sessions this adapter didn't create
+   * belong to the first adapter supporting sessions
+   */
+  private getSessionOwner(sessionId: string): number | undefined {
+    const owner =
+      this.sessionOwners.get(sessionId) ??
+      this.circuits.findIndex(circuit => circuit.adapter.supportsSession);
+    return owner === -1 ? undefined : owner;
+  }
+
+  private createUnavailableError(): Error {
+    return new Error(
+      `All providers in the fallback chain are unavailable: ${this.circuits
+        .map(circuit => `${circuit.adapter.name} (${circuit.state})`)
+        .join(', ')}`
+    );
+  }
+}
+
+/**
+ * Whether a provider failure warrants trying the next adapter
+ *
+ * Provider errors fail over when they are retryable, errors carrying an
+ * HTTP status when the status is retryable (408, 429, 5xx), and errors
+ * without a status, such as network failures, always.
+ */
+export function isFailoverError(error: unknown): boolean {
+  if (isProviderError(error)) {
+    return error.retryable;
+  }
+  const { statusCode } = getRateLimitDetails(error);
+  return statusCode === undefined || isRetryableHttpStatus(statusCode);
+}
+
+/**
+ * Factory function to create a fallback adapter
+ *
+ * @example
+ * ```typescript
+ * const provider = createFallbackAdapter({
+ *   adapters: [createAnthropicSDKAdapter(), createOpenAIAdapter()],
+ *   failureThreshold: 3,
+ *   resetTimeoutMs: 60_000,
+ * });
+ * ```
+ */
+export function createFallbackAdapter(
+  config: FallbackAdapterConfig
+): FallbackAdapter {
+  return new FallbackAdapter(config);
+}
+
+/**
+ * Type guard to check if an adapter is a fallback adapter
+ */
+export function isFallbackAdapter(
+  adapter: ProviderAdapter
+): adapter is FallbackAdapter {
+  return adapter instanceof FallbackAdapter;
+}
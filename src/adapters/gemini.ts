@@ -27,6 +27,16 @@ import {
   logPerformance,
   warn,
 } from '../utils/logger.js';
+import {
+  createRateLimitError,
+  parseGoogleRetryInfo,
+  withStatusCode,
+} from './rate-limit.js';
+import {
+  requestWithStructuredOutput,
+  toGeminiResponseSchema,
+  toNativeJsonSchema,
+} from './structured-output.js';
 
 /**
  * Configuration options for Gemini adapter
@@ -78,7 +88,7 @@ interface SimulatedSession {
  * Provides integration with Google's Gemini API using the official SDK, supporting:
  * - Simulated sessions through conversation history management
  * - Retry loop continuity by maintaining context across attempts
- * - Structured output via generationConfig when available
+ * - Native structured output via responseSchema
  * - Comprehensive error handling and Gemini-specific error messages
  * - Health monitoring and API availability checks
  */
@@ -352,20 +362,36 @@ export class GeminiAdapter implements ProviderAdapter {
         generationConfig,
       });
 
-      // Execute the generation
-      const result = await this.genAI.models.generateContent({
+      // Execute the generation, with a responseSchema when a schema was passed
+      const request = {
         model,
         contents,
         ...(session?.context && { systemInstruction: session.context }),
-      });
+      };
+      const responseSchema = toGeminiResponseSchema(
+        toNativeJsonSchema(options.schema)
+      );
+      const { response: result, mode } = await requestWithStructuredOutput(
+        this.name,
+        responseSchema &&
+          (() =>
+            this.genAI.models.generateContent({
+              ...request,
+              config: { responseMimeType: 'application/json', responseSchema },
+            })),
+        () => this.genAI.models.generateContent(request)
+      );
 
       const apiDuration = Date.now() - startTime;
 
       // Extract token usage information
+      const inputTokens = result.usageMetadata?.promptTokenCount || 0;
+      const outputTokens = result.usageMetadata?.candidatesTokenCount || 0;
       const tokenUsage: TokenUsage = {
-        inputTokens: result.usageMetadata?.promptTokenCount || 0,
-        outputTokens: result.usageMetadata?.candidatesTokenCount || 0,
-        totalTokens: result.usageMetadata?.totalTokenCount || 0,
+        inputTokens,
+        outputTokens,
+        totalTokens:
+          result.usageMetadata?.totalTokenCount || inputTokens + outputTokens,
       };
 
       // Update session with the conversation if using sessions
@@ -409,6 +435,7 @@ export class GeminiAdapter implements ProviderAdapter {
       return {
         content,
         tokenUsage,
+        model,
         metadata: {
           sessionId: sessionId,
           model,
@@ -419,6 +446,7 @@ export class GeminiAdapter implements ProviderAdapter {
         },
         truncated: false, // Simplified for now
         stopReason: 'end_turn',
+        ...(options.schema && { structuredOutput: mode }),
       };
     } catch (error) {
       const errorDuration = Date.now() - startTime;
@@ -446,7 +474,10 @@ export class GeminiAdapter implements ProviderAdapter {
         apiVersion: this.apiVersion,
       });
 
-      throw this.enhanceError(error, 'Failed to send prompt to Gemini');
+      throw withStatusCode(
+        this.enhanceError(error, 'Failed to send prompt to Gemini'),
+        error
+      );
     }
   }
 
@@ -605,8 +636,9 @@ export class GeminiAdapter implements ProviderAdapter {
     }
 
     if (originalMessage.includes('quota') || originalMessage.includes('429')) {
-      return new Error(
-        `${context}: Gemini API quota exceeded or rate limit hit. Please check your usage limits and try again.`
+      return createRateLimitError(
+        `${context}: Gemini API quota exceeded or rate limit hit. Please check your usage limits and try again.`,
+        parseGoogleRetryInfo(originalMessage)
       );
     }
 
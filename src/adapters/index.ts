@@ -44,6 +44,16 @@ export {
   createClaudeCLIAdapter,
   isClaudeCLIAdapter,
 } from './claude-cli.js';
+// Fallback Adapter - Fails over across an ordered chain of adapters
+export {
+  type CircuitState,
+  createFallbackAdapter,
+  FallbackAdapter,
+  type FallbackAdapterConfig,
+  isFailoverError,
+  isFallbackAdapter,
+  type ProviderCircuit,
+} from './fallback.js';
 // Gemini Adapter - Provider adapter for Google Gemini API
 export {
   createGeminiAdapter,
@@ -62,6 +72,24 @@ export {
   isOpenAIAdapter,
   type OpenAIAdapterConfig,
 } from './openai.js';
+// Rate limit parsing shared by the HTTP-based adapters
+export {
+  createRateLimitError,
+  getRateLimitDetails,
+  type HeadersLike,
+  parseGoogleRetryInfo,
+  parseRateLimitHeaders,
+  type RateLimitedError,
+  withStatusCode,
+} from './rate-limit.js';
+// Native structured output shared by the API-based adapters
+export {
+  isStructuredOutputRejection,
+  requestWithStructuredOutput,
+  STRUCTURED_OUTPUT_NAME,
+  toGeminiResponseSchema,
+  toNativeJsonSchema,
+} from './structured-output.js';
 // Vercel AI SDK Adapter - Provider adapter for multiple LLM providers via Vercel AI SDK
 export {
   createVercelAISDKAdapter,
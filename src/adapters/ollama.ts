@@ -8,6 +8,7 @@
  */
 
 import { randomUUID } from 'node:crypto';
+import { HTTP_TOO_MANY_REQUESTS } from '../shared/constants/index.js';
 import type {
   ProviderAdapter,
   ProviderHealth,
@@ -26,6 +27,16 @@ import {
   logPerformance,
   warn,
 } from '../utils/logger.js';
+import {
+  createRateLimitError,
+  getRateLimitDetails,
+  parseRateLimitHeaders,
+  withStatusCode,
+} from './rate-limit.js';
+import {
+  requestWithStructuredOutput,
+  toNativeJsonSchema,
+} from './structured-output.js';
 
 /**
  * Configuration options for Ollama adapter
@@ -97,6 +108,7 @@ interface OllamaChatRequest {
     content: string;
   }>;
   stream?: boolean;
+  format?: Record<string, unknown>;
   options?: {
     temperature?: number;
     top_p?: number;
@@ -133,6 +145,7 @@ interface OllamaModelsResponse {
  * - Simulated sessions through conversation history management
  * - Retry loop continuity by maintaining context across attempts
  * - Dynamic model discovery from local Ollama instance
+ * - Native structured output via the format schema
  * - Comprehensive error handling and Ollama-specific error messages
  * - Health monitoring and connectivity checks
  */
@@ -398,23 +411,13 @@ export class OllamaAdapter implements ProviderAdapter {
         hasOptions: Boolean(requestPayload.options),
       });
 
-      // Execute the API call
-      const response = await fetch(`${this.baseUrl}/api/chat`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestPayload),
-        signal: AbortSignal.timeout(this.timeout),
-      });
-
-      if (!response.ok) {
-        throw new Error(
-          `Ollama API error: ${response.status} ${response.statusText}`
-        );
-      }
-
-      const result = (await response.json()) as OllamaChatResponse;
+      // Execute the API call, with a format schema when a schema was passed
+      const format = toNativeJsonSchema(options.schema);
+      const { response: result, mode } = await requestWithStructuredOutput(
+        this.name,
+        format && (() => this.postChat({ ...requestPayload, format })),
+        () => this.postChat(requestPayload)
+      );
       const apiDuration = Date.now() - startTime;
 
       // Extract token usage information (Ollama provides these metrics)
@@ -469,6 +472,7 @@ export class OllamaAdapter implements ProviderAdapter {
       return {
         content,
         tokenUsage,
+        model,
         metadata: {
           sessionId: sessionId,
           model,
@@ -484,6 +488,7 @@ export class OllamaAdapter implements ProviderAdapter {
         },
         truncated: false, // Ollama doesn't indicate truncation directly
         stopReason: result.done ? 'end_turn' : 'other',
+        ...(options.schema && { structuredOutput: mode }),
       };
     } catch (error) {
       const errorDuration = Date.now() - startTime;
@@ -511,10 +516,45 @@ export class OllamaAdapter implements ProviderAdapter {
         model,
       });
 
-      throw this.enhanceError(error, 'Failed to send prompt to Ollama');
+      throw withStatusCode(
+        this.enhanceError(error, 'Failed to send prompt to Ollama'),
+        error
+      );
     }
   }
 
+  /**
+   * Post a chat request to the Ollama API
+   */
+  private async postChat(
+    requestPayload: OllamaChatRequest
+  ): Promise<OllamaChatResponse> {
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestPayload),
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    if (response.status === HTTP_TOO_MANY_REQUESTS) {
+      throw createRateLimitError(
+        `Ollama API error: ${response.status} ${response.statusText}`,
+        parseRateLimitHeaders(response.headers)
+      );
+    }
+
+    if (!response.ok) {
+      throw Object.assign(
+        new Error(`Ollama API error: ${response.status} ${response.statusText}`),
+        { statusCode: response.status }
+      );
+    }
+
+    return (await response.json()) as OllamaChatResponse;
+  }
+
   /**
    * Destroy a simulated session to clean up memory
    */
@@ -669,6 +709,15 @@ export class OllamaAdapter implements ProviderAdapter {
     const originalMessage =
       error instanceof Error ? error.message : String(error);
 
+    // Rate limits only come from a hosted Ollama or a proxy in front of it
+    const { statusCode, rateLimitInfo } = getRateLimitDetails(error);
+    if (statusCode === HTTP_TOO_MANY_REQUESTS) {
+      return createRateLimitError(
+        `${context}: Ollama rate limit exceeded at ${this.baseUrl}. Please wait and try again.`,
+        rateLimitInfo
+      );
+    }
+
     // Check for specific error patterns and provide helpful messages
     if (
       originalMessage.includes('ECONNREFUSED') ||
@@ -9,7 +9,14 @@
 
 import { randomUUID } from 'node:crypto';
 import { createOpenAI } from '@ai-sdk/openai';
-import { generateText } from 'ai';
+import {
+  APICallError,
+  generateText,
+  jsonSchema,
+  Output,
+  RetryError,
+} from 'ai';
+import { HTTP_TOO_MANY_REQUESTS } from '../shared/constants/index.js';
 import type {
   ProviderAdapter,
   ProviderHealth,
@@ -28,6 +35,15 @@ import {
   logPerformance,
   warn,
 } from '../utils/logger.js';
+import {
+  createRateLimitError,
+  parseRateLimitHeaders,
+  withStatusCode,
+} from './rate-limit.js';
+import {
+  requestWithStructuredOutput,
+  toNativeJsonSchema,
+} from './structured-output.js';
 
 /**
  * Configuration options for OpenAI adapter
@@ -85,7 +101,7 @@ interface SimulatedSession {
  * Provides integration with OpenAI's LLM API using the Vercel AI SDK, supporting:
  * - Simulated sessions through conversation history management
  * - Retry loop continuity by maintaining context across attempts
- * - Structured output via JSON mode when available
+ * - Native structured output via the json_schema response format
  * - Comprehensive error handling and OpenAI-specific error messages
  * - Health monitoring and API availability checks
  */
@@ -344,16 +360,36 @@ export class OpenAIAdapter implements ProviderAdapter {
         temperature: options.temperature,
       });
 
-      // Execute the LLM call
-      const result = await generateText(generateOptions);
+      // Execute the LLM call, with the json_schema response format when a
+      // schema was passed
+      const nativeSchema = toNativeJsonSchema(options.schema, true);
+      const { response: result, mode } = await requestWithStructuredOutput<
+        Pick<
+          Awaited<ReturnType<typeof generateText>>,
+          'text' | 'usage' | 'finishReason'
+        >
+      >(
+        this.name,
+        nativeSchema &&
+          (() =>
+            generateText({
+              ...generateOptions,
+              experimental_output: Output.object({
+                schema: jsonSchema(nativeSchema),
+              }),
+            })),
+        () => generateText(generateOptions)
+      );
 
       const apiDuration = Date.now() - startTime;
 
       // Extract token usage information
+      const inputTokens = result.usage?.inputTokens || 0;
+      const outputTokens = result.usage?.outputTokens || 0;
       const tokenUsage: TokenUsage = {
-        inputTokens: result.usage?.inputTokens || 0,
-        outputTokens: result.usage?.outputTokens || 0,
-        totalTokens: result.usage?.totalTokens || 0,
+        inputTokens,
+        outputTokens,
+        totalTokens: result.usage?.totalTokens || inputTokens + outputTokens,
       };
 
       // Update session with the conversation if using sessions
@@ -396,6 +432,7 @@ export class OpenAIAdapter implements ProviderAdapter {
       return {
         content,
         tokenUsage,
+        model: options.model || this.defaultModel,
         metadata: {
           sessionId: sessionId,
           model: options.model || this.defaultModel,
@@ -406,6 +443,7 @@ export class OpenAIAdapter implements ProviderAdapter {
         },
         truncated: result.finishReason === 'length',
         stopReason: this.mapFinishReason(result.finishReason) || 'end_turn',
+        ...(options.schema && { structuredOutput: mode }),
       };
     } catch (error) {
       const errorDuration = Date.now() - startTime;
@@ -431,7 +469,10 @@ export class OpenAIAdapter implements ProviderAdapter {
         sessionId: sessionId || undefined,
       });
 
-      throw this.enhanceError(error, 'Failed to send prompt to OpenAI');
+      throw withStatusCode(
+        this.enhanceError(error, 'Failed to send prompt to OpenAI'),
+        error
+      );
     }
   }
 
@@ -615,12 +656,21 @@ export class OpenAIAdapter implements ProviderAdapter {
       );
     }
 
+    // The AI SDK wraps the failed call in a RetryError once its own retries are used up
+    const apiCallError = APICallError.isInstance(error)
+      ? error
+      : RetryError.isInstance(error) && APICallError.isInstance(error.lastError)
+        ? error.lastError
+        : undefined;
+
     if (
+      apiCallError?.statusCode === HTTP_TOO_MANY_REQUESTS ||
       originalMessage.includes('rate limit') ||
       originalMessage.includes('429')
     ) {
-      return new Error(
-        `${context}: OpenAI API rate limit exceeded. Please wait and try again.`
+      return createRateLimitError(
+        `${context}: OpenAI API rate limit exceeded. Please wait and try again.`,
+        parseRateLimitHeaders(apiCallError?.responseHeaders)
       );
     }
 
@@ -0,0 +1,312 @@
+/**
+ * Rate Limit Parsing for Provider Adapters
+ *
+ * Reads the rate-limit state that providers report with a throttled request
+ * (`retry-after`, OpenAI's `x-ratelimit-*`, Anthropic's
+ * `anthropic-ratelimit-*` and Google's `RetryInfo` error detail) into a
+ * `RateLimitInfo`, and attaches it to the errors adapters throw so the retry
+ * loop can wait exactly as long as the provider asked.
+ */
+
+import { HTTP_TOO_MANY_REQUESTS } from '../shared/constants/index.js';
+import type { RateLimitInfo } from '../types/errors.js';
+
+/**
+ * Response headers as exposed by fetch and the provider SDKs
+ */
+export type HeadersLike =
+  | Headers
+  | Readonly<Record<string, string | readonly string[] | undefined>>;
+
+/**
+ * Error thrown by an adapter when the provider rejected a request with 429
+ */
+export interface RateLimitedError extends Error {
+  readonly statusCode: typeof HTTP_TOO_MANY_REQUESTS;
+  readonly rateLimitInfo?: RateLimitInfo;
+}
+
+/**
+ * Header names of the per-bucket limits, in the order buckets are checked
+ */
+const BUCKET_HEADER_PATTERNS: readonly ((
+  field: 'limit' | 'remaining' | 'reset'
+) => string)[] = [
+  field => `x-ratelimit-${field}-requests`,
+  field => `x-ratelimit-${field}-tokens`,
+  field => `anthropic-ratelimit-requests-${field}`,
+  field => `anthropic-ratelimit-tokens-${field}`,
+  field => `anthropic-ratelimit-input-tokens-${field}`,
+  field => `anthropic-ratelimit-output-tokens-${field}`,
+  field => `x-ratelimit-${field}`,
+];
+
+const DURATION_PART = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+const DURATION_PATTERN = /^(?:\d+(?:\.\d+)?(?:ms|h|m|s))+$/;
+
+/** Numeric resets above this are Unix timestamps rather than seconds */
+const EPOCH_SECONDS_THRESHOLD = 1e9;
+
+/**
+ * Parse rate-limit headers into `RateLimitInfo`
+ *
+ * `retry-after-ms` takes precedence over `retry-after`, which may be given
+ * in seconds or as an HTTP date. Of the reported limit buckets (requests,
+ * tokens, ...) the first exhausted one is used, since that is the limit the
+ * request ran into; without an exhausted bucket the first reported one is.
+ *
+ * @param headers - Response headers of the throttled request
+ * @param now - Current time in milliseconds, for date-based values
+ * @returns Rate limit information, or undefined if no header was present
+ */
+export function parseRateLimitHeaders(
+  headers: HeadersLike | undefined,
+  now: number = Date.now()
+): RateLimitInfo | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  const read = (name: string) => readHeader(headers, name);
+
+  const retryAfterMs = parseNumber(read('retry-after-ms'));
+  const retryAfter =
+    retryAfterMs !== undefined
+      ? retryAfterMs / 1000
+      : parseRetryAfter(read('retry-after'), now);
+
+  const buckets = BUCKET_HEADER_PATTERNS.map(header => ({
+    limit: parseNumber(read(header('limit'))),
+    remaining: parseNumber(read(header('remaining'))),
+    resetIn: parseResetValue(read(header('reset')), now),
+  })).filter(
+    bucket =>
+      bucket.limit !== undefined ||
+      bucket.remaining !== undefined ||
+      bucket.resetIn !== undefined
+  );
+  const bucket =
+    buckets.find(candidate => candidate.remaining === 0) ?? buckets[0];
+
+  if (retryAfter === undefined && !bucket) {
+    return undefined;
+  }
+
+  return {
+    ...(bucket?.limit !== undefined && { limit: bucket.limit }),
+    ...(bucket?.remaining !== undefined && { remaining: bucket.remaining }),
+    ...(bucket?.resetIn !== undefined && { resetIn: bucket.resetIn }),
+    ...(retryAfter !== undefined && { retryAfter }),
+  };
+}
+
+/**
+ * Parse Google's `RetryInfo` error detail into `RateLimitInfo`
+ *
+ * Gemini reports the wait in the error body rather than in headers, as a
+ * `type.googleapis.com/google.rpc.RetryInfo` entry of `error.details` with a
+ * duration like `"33s"`. The body may be given as an object or as the JSON
+ * text the SDK embeds in its error message.
+ *
+ * @param body - Error body, or a message containing it
+ * @returns Rate limit information, or undefined if the body has no RetryInfo
+ */
+export function parseGoogleRetryInfo(body: unknown): RateLimitInfo | undefined {
+  const parsed = typeof body === 'string' ? parseEmbeddedJson(body) : body;
+  const details = (parsed as { error?: { details?: unknown } } | undefined)
+    ?.error?.details;
+  if (!Array.isArray(details)) {
+    return undefined;
+  }
+
+  const retryInfo = details.find(
+    (detail): detail is { retryDelay: string } =>
+      typeof detail === 'object' &&
+      detail !== null &&
+      String((detail as Record<string, unknown>)['@type']).endsWith(
+        'google.rpc.RetryInfo'
+      ) &&
+      typeof (detail as Record<string, unknown>).retryDelay === 'string'
+  );
+  const retryAfter = retryInfo
+    ? parseDuration(retryInfo.retryDelay)
+    : undefined;
+
+  return retryAfter === undefined ? undefined : { retryAfter };
+}
+
+/**
+ * Create the error an adapter throws for a rate-limited request
+ *
+ * @param message - Error message
+ * @param rateLimitInfo - Rate limit state reported by the provider
+ * @returns Error carrying the 429 status and the rate limit information
+ */
+export function createRateLimitError(
+  message: string,
+  rateLimitInfo: RateLimitInfo | undefined
+): RateLimitedError {
+  return Object.assign(new Error(message), {
+    statusCode: HTTP_TOO_MANY_REQUESTS,
+    ...(rateLimitInfo && { rateLimitInfo }),
+  });
+}
+
+/**
+ * Keep the HTTP status of a failed request on the error an adapter throws
+ * in its place
+ *
+ * Adapters replace SDK errors with friendlier messages; the status carried
+ * over lets failover and retries tell a rejected request (400, 401, 403,
+ * 404) from a transient failure.
+ *
+ * @param enhanced - Error the adapter throws
+ * @param original - Error the SDK or fetch call failed with
+ * @returns The enhanced error, with the original status as `statusCode`
+ */
+export function withStatusCode<T extends Error>(
+  enhanced: T,
+  original: unknown
+): T {
+  const statusCode = getHttpStatus(original);
+  return statusCode === undefined ||
+    getRateLimitDetails(enhanced).statusCode !== undefined
+    ? enhanced
+    : Object.assign(enhanced, { statusCode });
+}
+
+/**
+ * Read the status code and rate limit information an adapter attached to
+ * an error
+ *
+ * @param error - Error thrown by an adapter
+ * @returns The attached values, or an empty object
+ */
+export function getRateLimitDetails(error: unknown): {
+  statusCode?: number;
+  rateLimitInfo?: RateLimitInfo;
+} {
+  if (typeof error !== 'object' || error === null) {
+    return {};
+  }
+  const { statusCode, rateLimitInfo } = error as {
+    statusCode?: unknown;
+    rateLimitInfo?: unknown;
+  };
+
+  return {
+    ...(typeof statusCode === 'number' && { statusCode }),
+    ...(typeof rateLimitInfo === 'object' &&
+      rateLimitInfo !== null && {
+        rateLimitInfo: rateLimitInfo as RateLimitInfo,
+      }),
+  };
+}
+
+/**
+ * HTTP status of an SDK error: `statusCode` of the AI SDK and our own
+ * errors, `status` of the Anthropic and Google SDKs, and the last attempt of
+ * an AI SDK `RetryError`
+ */
+function getHttpStatus(error: unknown): number | undefined {
+  if (typeof error !== 'object' || error === null) {
+    return undefined;
+  }
+  const { statusCode, status, lastError } = error as {
+    statusCode?: unknown;
+    status?: unknown;
+    lastError?: unknown;
+  };
+  const code = typeof statusCode === 'number' ? statusCode : status;
+  if (typeof code === 'number' && code >= 100 && code <= 599) {
+    return code;
+  }
+  return lastError === undefined ? undefined : getHttpStatus(lastError);
+}
+
+function readHeader(headers: HeadersLike, name: string): string | undefined {
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+
+  const records = headers as Readonly<
+    Record<string, string | readonly string[] | undefined>
+  >;
+  const key = Object.keys(records).find(
+    candidate => candidate.toLowerCase() === name
+  );
+  const value = key === undefined ? undefined : records[key];
+  return typeof value === 'string' ? value : value?.[0];
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * `retry-after` is either delta seconds or an HTTP date
+ */
+function parseRetryAfter(
+  value: string | undefined,
+  now: number
+): number | undefined {
+  const seconds = parseNumber(value);
+  if (seconds !== undefined) {
+    return Math.max(seconds, 0);
+  }
+  return parseDate(value, now);
+}
+
+/**
+ * Reset values are seconds, Unix timestamps, durations like `6m0s`
+ * (OpenAI) or RFC 3339 timestamps (Anthropic)
+ */
+function parseResetValue(
+  value: string | undefined,
+  now: number
+): number | undefined {
+  const seconds = parseNumber(value);
+  if (seconds !== undefined) {
+    return seconds > EPOCH_SECONDS_THRESHOLD
+      ? Math.max(seconds - now / 1000, 0)
+      : Math.max(seconds, 0);
+  }
+  return parseDuration(value) ?? parseDate(value, now);
+}
+
+function parseDuration(value: string | undefined): number | undefined {
+  const text = value?.trim();
+  if (!text || !DURATION_PATTERN.test(text)) {
+    return undefined;
+  }
+
+  const unitSeconds = { ms: 0.001, s: 1, m: 60, h: 3600 } as const;
+  let seconds = 0;
+  for (const [, amount, unit] of text.matchAll(DURATION_PART)) {
+    seconds += Number(amount) * unitSeconds[unit as keyof typeof unitSeconds];
+  }
+  return seconds;
+}
+
+function parseDate(value: string | undefined, now: number): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : Math.max((time - now) / 1000, 0);
+}
+
+function parseEmbeddedJson(text: string): unknown {
+  const start = text.indexOf('{');
+  if (start === -1) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text.slice(start));
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Native Structured Output for Provider Adapters
+ *
+ * Most provider APIs can constrain generation to a JSON Schema: OpenAI's
+ * `json_schema` response format, Anthropic's forced tool use, Gemini's
+ * `responseSchema` and Ollama's `format`. This module derives the schema
+ * each API accepts from the Zod schema in the prompt options and sends the
+ * native request with the prompt-only request as fallback, for schemas that
+ * can't be expressed natively or that the provider rejects.
+ */
+
+import { z } from 'zod';
+import type { StructuredOutputMode } from '../types/provider.js';
+import { debug, warn } from '../utils/logger.js';
+
+/**
+ * Name of the tool or schema the structured output is requested under
+ */
+export const STRUCTURED_OUTPUT_NAME = 'structured_output';
+
+/**
+ * Status codes with which providers reject a request they can't serve,
+ * such as a schema using unsupported keywords
+ */
+const REJECTION_STATUS_CODES: readonly number[] = [400, 422];
+
+/**
+ * Keywords of the OpenAPI schema subset Gemini's `responseSchema` accepts
+ */
+const GEMINI_SCHEMA_KEYWORDS: readonly string[] = [
+  'description',
+  'enum',
+  'format',
+  'maximum',
+  'maxItems',
+  'maxLength',
+  'minimum',
+  'minItems',
+  'minLength',
+  'pattern',
+  'required',
+];
+
+/**
+ * Derive the JSON Schema of a native structured-output request
+ *
+ * @param schema - Zod schema from the prompt options
+ * @param requireObject - Whether the provider only accepts object roots
+ * @returns JSON Schema, or undefined if the schema can't be sent natively
+ */
+export function toNativeJsonSchema(
+  schema: z.ZodType | undefined,
+  requireObject = false
+): Record<string, unknown> | undefined {
+  if (!schema) {
+    return undefined;
+  }
+
+  let jsonSchema: Record<string, unknown>;
+  try {
+    const { $schema: _dialect, ...rest } = z.toJSONSchema(schema, {
+      target: 'draft-2020-12',
+    }) as Record<string, unknown>;
+    jsonSchema = rest;
+  } catch (schemaError) {
+    debug('Schema has no JSON Schema representation; using prompt output', {
+      error:
+        schemaError instanceof Error ? schemaError.message : 'Unknown error',
+    });
+    return undefined;
+  }
+
+  if (requireObject && jsonSchema.type !== 'object') {
+    debug('Native structured output requires an object schema', {
+      schemaType: jsonSchema.type,
+    });
+    return undefined;
+  }
+  return jsonSchema;
+}
+
+/**
+ * Convert a JSON Schema to Gemini's `responseSchema` format
+ *
+ * Gemini accepts an OpenAPI subset with upper-case type names and a
+ * `nullable` flag instead of `null` types. References, tuples and other
+ * keywords outside the subset can't be converted.
+ *
+ * @param jsonSchema - JSON Schema from `toNativeJsonSchema`
+ * @returns Gemini schema, or undefined if the schema uses unsupported keywords
+ */
+export function toGeminiResponseSchema(
+  jsonSchema: Record<string, unknown> | undefined
+): Record<string, unknown> | undefined {
+  if (!jsonSchema) {
+    return undefined;
+  }
+  if (
+    '$ref' in jsonSchema ||
+    '$defs' in jsonSchema ||
+    'prefixItems' in jsonSchema
+  ) {
+    return undefined;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const keyword of GEMINI_SCHEMA_KEYWORDS) {
+    if (jsonSchema[keyword] !== undefined) {
+      result[keyword] = jsonSchema[keyword];
+    }
+  }
+
+  const types = Array.isArray(jsonSchema.type)
+    ? (jsonSchema.type as unknown[])
+    : jsonSchema.type === undefined
+      ? []
+      : [jsonSchema.type];
+  const nonNullTypes = types.filter(type => type !== 'null');
+  if (nonNullTypes.length > 1) {
+    return undefined;
+  }
+  if (nonNullTypes.length === 1) {
+    result.type = String(nonNullTypes[0]).toUpperCase();
+  }
+  if (nonNullTypes.length < types.length) {
+    result.nullable = true;
+  }
+  if (jsonSchema.const !== undefined) {
+    result.enum = [jsonSchema.const];
+  }
+
+  if (isSchemaObject(jsonSchema.properties)) {
+    const properties: Record<string, unknown> = {};
+    for (const [name, property] of Object.entries(jsonSchema.properties)) {
+      const converted = isSchemaObject(property)
+        ? toGeminiResponseSchema(property)
+        : undefined;
+      if (!converted) {
+        return undefined;
+      }
+      properties[name] = converted;
+    }
+    result.properties = properties;
+    result.propertyOrdering = Object.keys(properties);
+  }
+
+  if (jsonSchema.items !== undefined) {
+    const items = isSchemaObject(jsonSchema.items)
+      ? toGeminiResponseSchema(jsonSchema.items)
+      : undefined;
+    if (!items) {
+      return undefined;
+    }
+    result.items = items;
+  }
+
+  if (jsonSchema.anyOf !== undefined) {
+    if (!Array.isArray(jsonSchema.anyOf)) {
+      return undefined;
+    }
+    const anyOf = jsonSchema.anyOf.map(option =>
+      isSchemaObject(option) ? toGeminiResponseSchema(option) : undefined
+    );
+    if (anyOf.some(option => option === undefined)) {
+      return undefined;
+    }
+    result.anyOf = anyOf;
+  }
+
+  return result;
+}
+
+/**
+ * Check whether a provider rejected a native structured-output request
+ *
+ * @param error - Error thrown by the provider SDK or HTTP call
+ * @returns True for 400 and 422 responses
+ */
+export function isStructuredOutputRejection(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+  const { status, statusCode } = error as {
+    status?: unknown;
+    statusCode?: unknown;
+  };
+  const code = typeof statusCode === 'number' ? statusCode : status;
+
+  return typeof code === 'number' && REJECTION_STATUS_CODES.includes(code);
+}
+
+/**
+ * Send a request with native structured output, falling back to the
+ * prompt-only request
+ *
+ * The native request is used when one could be built. If the provider
+ * rejects it, the prompt-only request is sent instead; other errors are
+ * thrown as usual.
+ *
+ * @param provider - Adapter name, for logging
+ * @param native - Native request, or undefined when the schema can't be sent natively
+ * @param prompt - Prompt-only request
+ * @returns Response and the output mode it was generated with
+ */
+export async function requestWithStructuredOutput<TResponse>(
+  provider: string,
+  native: (() => Promise<TResponse>) | undefined,
+  prompt: () => Promise<TResponse>
+): Promise<{ response: TResponse; mode: StructuredOutputMode }> {
+  if (!native) {
+    return { response: await prompt(), mode: 'prompt' };
+  }
+
+  try {
+    return { response: await native(), mode: 'native' };
+  } catch (nativeError) {
+    if (!isStructuredOutputRejection(nativeError)) {
+      throw nativeError;
+    }
+    warn('Provider rejected native structured output; using prompt output', {
+      provider,
+      error:
+        nativeError instanceof Error ? nativeError.message : 'Unknown error',
+    });
+    return { response: await prompt(), mode: 'prompt' };
+  }
+}
+
+function isSchemaObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
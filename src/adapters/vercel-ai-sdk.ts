@@ -26,6 +26,7 @@ import {
   logPerformance,
   warn,
 } from '../utils/logger.js';
+import { withStatusCode } from './rate-limit.js';
 
 /**
  * Configuration options for Vercel AI SDK adapter
@@ -306,7 +307,10 @@ export class VercelAISDKAdapter implements ProviderAdapter {
         tokenUsage = {
           inputTokens: result.usage?.inputTokens ?? 0,
           outputTokens: result.usage?.outputTokens ?? 0,
-          totalTokens: result.usage?.totalTokens ?? 0,
+          totalTokens:
+            result.usage?.totalTokens ??
+            (result.usage?.inputTokens ?? 0) +
+              (result.usage?.outputTokens ?? 0),
         };
       } else {
         // Use generateText for regular text generation
@@ -340,7 +344,10 @@ export class VercelAISDKAdapter implements ProviderAdapter {
         tokenUsage = {
           inputTokens: result.usage?.inputTokens ?? 0,
           outputTokens: result.usage?.outputTokens ?? 0,
-          totalTokens: result.usage?.totalTokens ?? 0,
+          totalTokens:
+            result.usage?.totalTokens ??
+            (result.usage?.inputTokens ?? 0) +
+              (result.usage?.outputTokens ?? 0),
         };
       }
 
@@ -405,6 +412,7 @@ export class VercelAISDKAdapter implements ProviderAdapter {
       return {
         content,
         tokenUsage,
+        model: this.modelId,
         metadata: {
           sessionId,
           model: this.modelId,
@@ -416,6 +424,7 @@ export class VercelAISDKAdapter implements ProviderAdapter {
         },
         truncated: finishReason === 'length',
         stopReason: this.mapFinishReason(finishReason) || 'end_turn',
+        ...(useObjectGeneration && { structuredOutput: 'native' as const }),
       };
     } catch (error) {
       const errorDuration = Date.now() - startTime;
@@ -458,7 +467,10 @@ export class VercelAISDKAdapter implements ProviderAdapter {
         useObjectGeneration,
       });
 
-      throw this.enhanceError(error, 'Failed to send prompt to Vercel AI SDK');
+      throw withStatusCode(
+        this.enhanceError(error, 'Failed to send prompt to Vercel AI SDK'),
+        error
+      );
     }
   }
 
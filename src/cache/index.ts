@@ -0,0 +1,26 @@
+/**
+ * Cache Module
+ *
+ * Exports the response cache and its storage backends.
+ */
+
+export type {
+  CachedResponse,
+  ResponseCacheOptions,
+  ResponseCacheStats,
+  ResponseCacheStore,
+} from '../types/cache.js';
+export {
+  createResponseCache,
+  createResponseCacheKey,
+  fingerprintSchema,
+  ResponseCache,
+  type ResponseCacheRequest,
+} from './response-cache.js';
+export {
+  createFileResponseCacheStore,
+  createMemoryResponseCacheStore,
+  FileResponseCacheStore,
+  type FileResponseCacheStoreOptions,
+  MemoryResponseCacheStore,
+} from './stores.js';
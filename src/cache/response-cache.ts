@@ -0,0 +1,222 @@
+/**
+ * Response Cache
+ *
+ * Content-addressed cache of provider responses. A response is stored under
+ * a hash of everything that shapes it: the prompt as sent, a fingerprint of
+ * the output schema, the provider, the model and the generation options. Re-running the
+ * same inputs then replays the responses, failed attempts included, without
+ * calling the provider again. Responses served from the cache are validated
+ * like fresh ones and carry no token usage, as they cost nothing.
+ */
+
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import { DEFAULT_CACHE_TTL_MS } from '../shared/constants/index.js';
+import type {
+  CachedResponse,
+  ResponseCacheOptions,
+  ResponseCacheStats,
+  ResponseCacheStore,
+} from '../types/cache.js';
+import type { ProviderResponse } from '../types/provider.js';
+import { debug, warn } from '../utils/logger.js';
+import { FileResponseCacheStore } from './stores.js';
+
+/** Bumped when the key derivation changes, orphaning older entries */
+const CACHE_KEY_VERSION = 1;
+
+/**
+ * Request a cache key is derived from
+ */
+export interface ResponseCacheRequest {
+  /** Prompt as sent to the provider */
+  readonly prompt: string;
+
+  /** Schema the response is validated against */
+  readonly schema: z.ZodType;
+
+  /** Adapter the call is sent to */
+  readonly provider: string;
+
+  /** Model the call uses */
+  readonly model: string | undefined;
+
+  /** Generation options the call is made with */
+  readonly options: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Response cache of one run
+ *
+ * Counts the hits and misses of its lookups for the run's metadata. Store
+ * failures are logged and treated as misses; they never fail a run.
+ */
+export class ResponseCache {
+  private readonly store: ResponseCacheStore;
+  private readonly ttlMs: number;
+  private readonly refresh: boolean;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.store = options.store ?? new FileResponseCacheStore();
+    this.ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.refresh = options.refresh ?? false;
+  }
+
+  /**
+   * Look up the cached response of a request
+   *
+   * @returns The cached response, or undefined when there is none, it has
+   *          expired, or the cache is being refreshed
+   */
+  async lookup(key: string): Promise<CachedResponse | undefined> {
+    const entry = this.refresh ? undefined : await this.read(key);
+    if (entry) {
+      this.hits++;
+      debug('Serving provider response from cache', {
+        key,
+        createdAt: entry.createdAt,
+      });
+    } else {
+      this.misses++;
+    }
+    return entry;
+  }
+
+  /**
+   * Store the response of a request
+   */
+  async save(key: string, response: ProviderResponse): Promise<void> {
+    const now = Date.now();
+    const entry: CachedResponse = {
+      key,
+      content: response.content,
+      ...(response.structuredOutput && {
+        structuredOutput: response.structuredOutput,
+      }),
+      ...(response.provider && { provider: response.provider }),
+      ...(response.model && { model: response.model }),
+      ...(response.tokenUsage && { tokenUsage: response.tokenUsage }),
+      createdAt: new Date(now).toISOString(),
+      ...(Number.isFinite(this.ttlMs) && {
+        expiresAt: new Date(now + this.ttlMs).toISOString(),
+      }),
+    };
+
+    try {
+      await this.store.set(entry);
+    } catch (error) {
+      warn('Failed to store provider response in cache', {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Hits and misses of the lookups so far
+   */
+  getStats(): ResponseCacheStats {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  private async read(key: string): Promise<CachedResponse | undefined> {
+    try {
+      const entry = await this.store.get(key);
+      if (entry?.expiresAt && Date.parse(entry.expiresAt) <= Date.now()) {
+        debug('Cached provider response expired', {
+          key,
+          expiresAt: entry.expiresAt,
+        });
+        await this.store.delete(key);
+        return undefined;
+      }
+      return entry;
+    } catch (error) {
+      warn('Failed to read provider response from cache', {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Create the response cache of a run
+ *
+ * @param options `true` for the defaults, or the cache options
+ */
+export function createResponseCache(
+  options: boolean | ResponseCacheOptions
+): ResponseCache {
+  return new ResponseCache(options === true ? {} : options || {});
+}
+
+/**
+ * Derive the cache key of a request
+ *
+ * @returns Hex SHA-256 hash of the request, or undefined when the schema
+ *          can't be fingerprinted and the request must not be cached
+ */
+export function createResponseCacheKey(
+  request: ResponseCacheRequest
+): string | undefined {
+  const schema = fingerprintSchema(request.schema);
+  if (schema === undefined) {
+    return undefined;
+  }
+  return hash(
+    stableStringify([
+      CACHE_KEY_VERSION,
+      request.prompt,
+      schema,
+      request.provider,
+      request.model ?? null,
+      request.options,
+    ])
+  );
+}
+
+/**
+ * Fingerprint a schema by its JSON Schema representation
+ *
+ * Refinements and transforms have no JSON Schema representation and don't
+ * change the fingerprint, which is fine since cached responses are
+ * validated against the schema again.
+ *
+ * @returns Hex SHA-256 hash, or undefined if the schema can't be converted
+ */
+export function fingerprintSchema(schema: z.ZodType): string | undefined {
+  try {
+    return hash(
+      stableStringify(
+        z.toJSONSchema(schema, {
+          target: 'draft-2020-12',
+          unrepresentable: 'any',
+          cycles: 'ref',
+        })
+      )
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * JSON with object keys sorted, so equal values always serialize alike
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.entries(nested).sort(([a], [b]) => (a < b ? -1 : 1))
+        )
+      : nested
+  );
+}
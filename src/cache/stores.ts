@@ -0,0 +1,134 @@
+/**
+ * Response Cache Stores
+ *
+ * Storage backends for the response cache: a file store keeping one JSON
+ * file per response, shared by every process using the same directory, and
+ * an in-memory store for tests and short-lived processes.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  CACHE_FILE_EXT,
+  DEFAULT_CACHE_DIR,
+} from '../shared/constants/index.js';
+import type { CachedResponse, ResponseCacheStore } from '../types/cache.js';
+
+/**
+ * Options for the file-backed response cache store
+ */
+export interface FileResponseCacheStoreOptions {
+  /** Directory holding one JSON file per response (default ~/.persuader/cache) */
+  readonly directory?: string;
+}
+
+/**
+ * File-based response cache store
+ *
+ * Entries are written atomically, so processes sharing the directory never
+ * read a partially written response.
+ */
+export class FileResponseCacheStore implements ResponseCacheStore {
+  readonly directory: string;
+
+  constructor(options: FileResponseCacheStoreOptions = {}) {
+    this.directory = resolveStorageDir(options.directory ?? DEFAULT_CACHE_DIR);
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    try {
+      const content = await fs.readFile(this.getEntryFilePath(key), 'utf-8');
+      return JSON.parse(content) as CachedResponse;
+    } catch (error) {
+      if (isMissingFile(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(entry: CachedResponse): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const filePath = this.getEntryFilePath(entry.key);
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entry), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.getEntryFilePath(key));
+    } catch (error) {
+      if (!isMissingFile(error)) {
+        throw error;
+      }
+    }
+  }
+
+  private getEntryFilePath(key: string): string {
+    if (!/^[\w-]+$/.test(key)) {
+      throw new Error(`Invalid cache key "${key}"`);
+    }
+    return path.join(this.directory, `${key}${CACHE_FILE_EXT}`);
+  }
+}
+
+/**
+ * In-memory response cache store
+ *
+ * Entries live as long as the store instance.
+ */
+export class MemoryResponseCacheStore implements ResponseCacheStore {
+  private readonly entries: Map<string, CachedResponse> = new Map();
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(entry: CachedResponse): Promise<void> {
+    this.entries.set(entry.key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /** Number of stored entries */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Create a file-backed response cache store
+ *
+ * @param options Directory of the cached responses
+ * @returns Store to pass as the `store` of the `cache` option
+ */
+export function createFileResponseCacheStore(
+  options: FileResponseCacheStoreOptions = {}
+): FileResponseCacheStore {
+  return new FileResponseCacheStore(options);
+}
+
+/**
+ * Create an in-memory response cache store
+ *
+ * @returns Store to pass as the `store` of the `cache` option
+ */
+export function createMemoryResponseCacheStore(): MemoryResponseCacheStore {
+  return new MemoryResponseCacheStore();
+}
+
+function resolveStorageDir(dir: string): string {
+  if (dir.startsWith('~')) {
+    return path.join(os.homedir(), dir.slice(1));
+  }
+  return path.resolve(dir);
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | undefined)?.code === 'ENOENT';
+}
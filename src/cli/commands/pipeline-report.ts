@@ -0,0 +1,171 @@
+/**
+ * Pipeline report command implementation
+ *
+ * Prints a critical-path and bottleneck report for a saved multi-stage
+ * pipeline result (the object returned by runPipeline(), written as JSON).
+ */
+
+import chalk from 'chalk';
+import { promises as fs } from 'fs';
+import { analyzeCriticalPath } from '../../core/multi-stage/critical-path-analysis.js';
+import type { CriticalPathAnalysis } from '../../types/flow.js';
+import type { PipelineResult, StageResult } from '../../types/multi-stage.js';
+
+/**
+ * Options for the pipeline report command
+ */
+export interface PipelineReportOptions {
+  readonly json?: boolean;
+  readonly top: string;
+}
+
+/**
+ * Pipeline report implementation
+ */
+export async function showPipelineReport(
+  resultFile: string,
+  options: PipelineReportOptions
+): Promise<void> {
+  try {
+    const result = await loadPipelineResult(resultFile);
+    const analysis = getCriticalPathAnalysis(result);
+    const top = Math.max(1, parseInt(options.top, 10) || 5);
+
+    if (options.json) {
+      console.log(JSON.stringify(analysis, null, 2));
+      return;
+    }
+
+    printReport(result, analysis, top);
+  } catch (error) {
+    console.error(chalk.red('Error generating pipeline report:'), error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Reads a pipeline result saved with JSON.stringify()
+ *
+ * @param resultFile Path to the saved result
+ * @returns Parsed pipeline result
+ */
+export async function loadPipelineResult(
+  resultFile: string
+): Promise<PipelineResult> {
+  const parsed: unknown = JSON.parse(await fs.readFile(resultFile, 'utf-8'));
+
+  if (
+    typeof parsed !== 'object' ||
+    parsed === null ||
+    typeof (parsed as { stageResults?: unknown }).stageResults !== 'object'
+  ) {
+    throw new Error(
+      `${resultFile} does not contain a pipeline result. Save the object returned by runPipeline() with JSON.stringify(result).`
+    );
+  }
+
+  return parsed as PipelineResult;
+}
+
+/**
+ * Uses the analysis recorded on the result, computing it for older results
+ */
+function getCriticalPathAnalysis(result: PipelineResult): CriticalPathAnalysis {
+  return (
+    result.metadata?.criticalPath ?? analyzeCriticalPath(result.stageResults)
+  );
+}
+
+/**
+ * Prints the human-readable report
+ */
+function printReport(
+  result: PipelineResult,
+  analysis: CriticalPathAnalysis,
+  top: number
+): void {
+  const stages = Object.values(result.stageResults).sort(
+    (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+  );
+  const onPath = new Set(analysis.criticalPathStages);
+
+  console.log(chalk.cyan.bold('Pipeline Run Report\n'));
+  console.log(
+    `Status: ${result.success ? chalk.green('succeeded') : chalk.red('failed')}`
+  );
+  if (result.metadata?.executionTimeMs !== undefined) {
+    console.log(`Total time: ${formatMs(result.metadata.executionTimeMs)}`);
+  }
+  if (result.skippedStages && result.skippedStages.length > 0) {
+    console.log(`Skipped stages: ${result.skippedStages.join(', ')}`);
+  }
+
+  console.log(chalk.yellow('\nCritical path:'));
+  console.log(
+    `  ${analysis.criticalPathStages.join(' → ') || '(no executed stages)'}`
+  );
+  console.log(`  Time: ${formatMs(analysis.criticalPathTimeMs)}`);
+  if (analysis.potentialTimeSavingsMs > 0) {
+    console.log(
+      `  Potential savings: ${formatMs(analysis.potentialTimeSavingsMs)}`
+    );
+  }
+
+  console.log(chalk.yellow('\nStages:'));
+  for (const stage of stages) {
+    console.log(formatStageLine(stage, onPath.has(stage.stageId)));
+  }
+
+  if (analysis.bottleneckStages.length > 0) {
+    console.log(chalk.yellow('\nBottlenecks:'));
+    for (const bottleneck of analysis.bottleneckStages.slice(0, top)) {
+      console.log(
+        `  ${chalk.bold(bottleneck.stageId)} (${bottleneck.bottleneckReason}, ${formatMs(bottleneck.criticalPathImpactMs)})`
+      );
+      for (const suggestion of bottleneck.optimizationSuggestions) {
+        console.log(chalk.gray(`    - ${suggestion}`));
+      }
+    }
+  }
+
+  if (analysis.parallelizationOpportunities.length > 0) {
+    console.log(chalk.yellow('\nParallelization opportunities:'));
+    for (const opportunity of analysis.parallelizationOpportunities.slice(
+      0,
+      top
+    )) {
+      console.log(
+        `  ${opportunity.stageIds.join(', ')}: ${opportunity.currentMode} → ${opportunity.suggestedMode}, saves up to ${formatMs(opportunity.potentialTimeSavingsMs)}`
+      );
+      for (const prerequisite of opportunity.prerequisites) {
+        console.log(chalk.gray(`    - ${prerequisite}`));
+      }
+    }
+  }
+}
+
+/**
+ * Formats one stage row: marker, status, time, retries and tokens
+ */
+function formatStageLine(stage: StageResult, critical: boolean): string {
+  const marker = critical ? chalk.magenta('★') : ' ';
+  const status = stage.recovery?.recovered
+    ? chalk.yellow(`recovered (${stage.recovery.source})`)
+    : stage.success
+      ? chalk.green('ok')
+      : chalk.red('failed');
+  const retries = stage.metadata.stageMetrics.retryAttempts;
+  const tokens = stage.metadata.tokenUsage?.totalTokens;
+
+  return [
+    `  ${marker} ${stage.stageId}`,
+    status,
+    formatMs(stage.metadata.executionTimeMs),
+    `${retries} retr${retries === 1 ? 'y' : 'ies'}`,
+    ...(tokens !== undefined ? [`${tokens} tokens`] : []),
+  ].join('  ');
+}
+
+function formatMs(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+}
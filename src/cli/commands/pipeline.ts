@@ -0,0 +1,47 @@
+/**
+ * Multi-Stage Pipeline CLI Commands
+ *
+ * Main entry point for pipeline command setup
+ */
+
+import { Command } from 'commander';
+import { showPipelineReport } from './pipeline-report.js';
+
+/**
+ * Create the pipeline command with subcommands
+ */
+export function createPipelineCommand(): Command {
+  const pipeline = new Command('pipeline').description(
+    'Inspect multi-stage pipeline runs'
+  );
+
+  // Critical path report
+  pipeline
+    .command('report <resultFile>')
+    .description(
+      'Show critical path, bottlenecks and parallelization opportunities for a saved pipeline result'
+    )
+    .option(
+      '--top <number>',
+      'Number of bottlenecks and opportunities to show',
+      '5'
+    )
+    .option('--json', 'Output the analysis as JSON')
+    .addHelpText(
+      'after',
+      `
+The result file is the object returned by runPipeline(), saved as JSON:
+  await fs.writeFile('run.json', JSON.stringify(await runPipeline(pipeline, input)));
+
+Examples:
+  $ persuader pipeline report ./run.json
+  $ persuader pipeline report ./run.json --top 3
+  $ persuader pipeline report ./run.json --json
+  `
+    )
+    .action(async (resultFile, options) => {
+      await showPipelineReport(resultFile, options);
+    });
+
+  return pipeline;
+}
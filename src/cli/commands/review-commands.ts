@@ -0,0 +1,556 @@
+/**
+ * Review command implementations
+ *
+ * Works through the file-backed review queue written by FileReviewManager.
+ * Reviews are decided here while the pipeline that requested them waits in
+ * another process; edits are validated against the JSON Schema stored with the
+ * review before they are submitted.
+ */
+
+import chalk from 'chalk';
+import { spawnSync } from 'node:child_process';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createInterface } from 'node:readline/promises';
+import {
+  createFileReviewManager,
+  type FileReviewManager,
+  OPEN_REVIEW_STATUSES,
+} from '../../review/manager.js';
+import { validateAgainstStoredSchema } from '../../review/modifications.js';
+import { startReviewServer } from '../../review/server.js';
+import { DEFAULT_REVIEW_DIR } from '../../shared/constants/index.js';
+import type {
+  APIReviewSettings,
+  CLIReviewSettings,
+  ReviewInterfaceSettings,
+  ReviewStatus,
+  StoredReview,
+  WebhookConfiguration,
+  WebReviewSettings,
+} from '../../types/review.js';
+
+/**
+ * Options shared by every review subcommand
+ */
+export interface ReviewStoreOptions {
+  readonly dir?: string;
+}
+
+/**
+ * Options for the review list command
+ */
+export interface ListReviewsOptions extends ReviewStoreOptions {
+  readonly all?: boolean;
+  readonly status?: string;
+  readonly pipeline?: string;
+  readonly json?: boolean;
+}
+
+/**
+ * Options for the review show command
+ */
+export interface ShowReviewOptions extends ReviewStoreOptions {
+  readonly json?: boolean;
+  readonly details?: boolean;
+  readonly maxLines: string;
+  readonly color?: boolean;
+}
+
+/**
+ * Options for the review approve, reject and edit commands
+ */
+export interface DecideReviewOptions extends ReviewStoreOptions {
+  readonly comment?: string;
+  readonly reviewer?: string;
+}
+
+/**
+ * Options for the review serve command
+ */
+export interface ServeReviewsOptions extends ReviewStoreOptions {
+  readonly config?: string;
+  readonly host?: string;
+  readonly port?: string;
+  readonly theme?: WebReviewSettings['theme'];
+  readonly live?: boolean;
+  readonly collaborative?: boolean;
+  readonly token?: string;
+  readonly rateLimit?: string;
+  readonly webhook: string[];
+}
+
+const WEBHOOK_EVENTS: WebhookConfiguration['events'] = [
+  'review_requested',
+  'review_completed',
+  'review_expired',
+  'review_escalated',
+];
+
+/**
+ * List reviews implementation
+ */
+export async function listReviews(options: ListReviewsOptions): Promise<void> {
+  try {
+    const manager = createManager(options);
+    const reviews = await manager.listReviews({
+      ...(!options.all && {
+        status: options.status
+          ? (options.status.split(',') as ReviewStatus[])
+          : OPEN_REVIEW_STATUSES,
+      }),
+      ...(options.pipeline && { pipelineId: options.pipeline }),
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(reviews, null, 2));
+      return;
+    }
+
+    if (reviews.length === 0) {
+      console.log(chalk.yellow('No reviews found'));
+      return;
+    }
+
+    console.log(chalk.cyan.bold(`Reviews (${reviews.length})\n`));
+    for (const review of reviews) {
+      console.log(
+        [
+          chalk.bold(review.id.slice(0, 8)),
+          formatStatus(review.status),
+          formatPriority(review),
+          `${review.pipelineId}/${review.stageId}`,
+          chalk.gray(formatAge(review.createdAt)),
+        ].join('  ')
+      );
+      console.log(chalk.gray(`    ${review.reasons.join('; ')}`));
+    }
+  } catch (error) {
+    console.error(chalk.red('Error listing reviews:'), error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Show review implementation
+ *
+ * Prints the raw LLM output next to the validated value and the stage schema.
+ */
+export async function showReview(
+  reviewId: string,
+  options: ShowReviewOptions
+): Promise<void> {
+  try {
+    const review = await resolveReview(createManager(options), reviewId);
+
+    if (options.json) {
+      console.log(JSON.stringify(review, null, 2));
+      return;
+    }
+
+    printReview(review, {
+      colorized: options.color !== false,
+      showDetails: options.details ?? false,
+      maxDisplayLines: Math.max(1, parseInt(options.maxLines, 10) || 40),
+      autoExpand: options.details
+        ? ['input', 'output', 'metadata', 'errors']
+        : ['output', 'errors'],
+    });
+  } catch (error) {
+    console.error(chalk.red('Error showing review:'), error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Approve review implementation
+ */
+export async function approveReview(
+  reviewId: string,
+  options: DecideReviewOptions
+): Promise<void> {
+  try {
+    const manager = createManager(options);
+    const review = await resolveReview(manager, reviewId);
+    await manager.submitReview(review.id, {
+      decision: 'approved',
+      ...(options.comment && { comments: options.comment }),
+      metadata: { reviewedBy: getReviewer(options) },
+    });
+    console.log(chalk.green(`✓ Approved review ${review.id}`));
+  } catch (error) {
+    console.error(chalk.red('Error approving review:'), error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Reject review implementation
+ */
+export async function rejectReview(
+  reviewId: string,
+  options: DecideReviewOptions
+): Promise<void> {
+  try {
+    const manager = createManager(options);
+    const review = await resolveReview(manager, reviewId);
+    await manager.submitReview(review.id, {
+      decision: 'rejected',
+      ...(options.comment && { comments: options.comment }),
+      metadata: { reviewedBy: getReviewer(options) },
+    });
+    console.log(chalk.yellow(`✗ Rejected review ${review.id}`));
+  } catch (error) {
+    console.error(chalk.red('Error rejecting review:'), error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Edit review implementation
+ *
+ * Opens the validated value in $VISUAL/$EDITOR and submits the saved JSON as a
+ * modification once it matches the stage schema. Invalid edits can be
+ * re-opened in the editor when running in a terminal.
+ */
+export async function editReview(
+  reviewId: string,
+  options: DecideReviewOptions
+): Promise<void> {
+  try {
+    const manager = createManager(options);
+    const review = await resolveReview(manager, reviewId);
+    const edited = await editUntilValid(review);
+
+    if (JSON.stringify(edited) === JSON.stringify(review.value)) {
+      console.log(chalk.yellow('No changes made; review left unchanged'));
+      return;
+    }
+
+    await manager.submitReview(review.id, {
+      decision: 'requires_modification',
+      ...(options.comment && { comments: options.comment }),
+      modifications: [
+        {
+          path: '$',
+          currentValue: review.value,
+          suggestedValue: edited,
+          reason: options.comment ?? 'Edited by reviewer',
+          confidence: 1,
+          priority: 'high',
+          required: true,
+        },
+      ],
+      metadata: { reviewedBy: getReviewer(options) },
+    });
+    console.log(
+      chalk.green(`✓ Submitted edited output for review ${review.id}`)
+    );
+  } catch (error) {
+    console.error(chalk.red('Error editing review:'), error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Serve reviews implementation
+ *
+ * Starts the web UI and JSON API until interrupted. Settings come from the
+ * optional `--config` file (`{ "web": {...}, "api": {...} }`), with command
+ * line flags taking precedence; `--webhook` URLs subscribe to every event.
+ */
+export async function serveReviews(
+  options: ServeReviewsOptions
+): Promise<void> {
+  try {
+    const settings: ReviewInterfaceSettings = options.config
+      ? JSON.parse(await fs.readFile(options.config, 'utf-8'))
+      : {};
+    const token = options.token ?? process.env.PERSUADER_REVIEW_TOKEN;
+    const requestsPerMinute = options.rateLimit
+      ? parseInt(options.rateLimit, 10)
+      : undefined;
+
+    const web: WebReviewSettings = {
+      ...settings.web,
+      ...(options.port !== undefined && { port: parseInt(options.port, 10) }),
+      ...(options.theme && { theme: options.theme }),
+      ...(options.live === false && { realTimeUpdates: false }),
+      ...(options.collaborative && { collaborative: true }),
+    };
+    const api: APIReviewSettings = {
+      ...settings.api,
+      ...(token && { requireAuth: true }),
+      ...(requestsPerMinute && {
+        rateLimit: { ...settings.api?.rateLimit, requestsPerMinute },
+      }),
+      ...(options.webhook.length > 0 && {
+        webhooks: [
+          ...(settings.api?.webhooks ?? []),
+          ...options.webhook.map(url => ({ url, events: WEBHOOK_EVENTS })),
+        ],
+      }),
+    };
+
+    const manager = createFileReviewManager({
+      storageDir: options.dir ?? DEFAULT_REVIEW_DIR,
+      config: { interface: { ...settings, web, api } },
+    });
+    const server = await startReviewServer({
+      manager,
+      web,
+      api,
+      ...(options.host && { host: options.host }),
+      ...(token && { authToken: token }),
+    });
+
+    console.log(chalk.green(`✓ Review server running at ${server.url}`));
+    if (api.webhooks?.length) {
+      console.log(
+        chalk.dim(
+          `  Webhooks: ${api.webhooks.map(hook => hook.url).join(', ')}`
+        )
+      );
+    }
+    if (!api.requireAuth && options.host && options.host !== '127.0.0.1') {
+      console.log(
+        chalk.yellow(
+          '  Warning: listening beyond localhost without --token; anyone who can reach it can decide reviews'
+        )
+      );
+    }
+    console.log(chalk.dim('Press Ctrl+C to stop'));
+
+    await new Promise<void>(resolve => {
+      process.once('SIGINT', resolve);
+      process.once('SIGTERM', resolve);
+    });
+    await server.close();
+  } catch (error) {
+    console.error(chalk.red('Error starting review server:'), error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Finds a review by full ID or unique ID prefix
+ */
+async function resolveReview(
+  manager: FileReviewManager,
+  reviewId: string
+): Promise<StoredReview> {
+  const exact = await manager.getStoredReview(reviewId).catch(() => null);
+  if (exact) {
+    return exact;
+  }
+
+  const matches = (await manager.listReviews()).filter(review =>
+    review.id.startsWith(reviewId)
+  );
+  if (matches.length === 1) {
+    return matches[0] as StoredReview;
+  }
+  throw new Error(
+    matches.length === 0
+      ? `No review matches "${reviewId}"`
+      : `"${reviewId}" matches ${matches.length} reviews; use a longer ID`
+  );
+}
+
+/**
+ * Opens the editor until the saved JSON parses and matches the schema
+ *
+ * @returns Edited value; throws when the reviewer declines to fix it
+ */
+async function editUntilValid(review: StoredReview): Promise<unknown> {
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+  const filePath = path.join(os.tmpdir(), `persuader-review-${review.id}.json`);
+  await fs.writeFile(filePath, `${JSON.stringify(review.value, null, 2)}\n`);
+
+  try {
+    for (;;) {
+      const status = spawnSync(`${editor} ${JSON.stringify(filePath)}`, {
+        stdio: 'inherit',
+        shell: true,
+      }).status;
+      if (status !== 0) {
+        throw new Error(`Editor "${editor}" exited with status ${status}`);
+      }
+
+      const content = await fs.readFile(filePath, 'utf-8');
+      let edited: unknown;
+      let errors: string[];
+      try {
+        edited = JSON.parse(content);
+        errors = validateAgainstStoredSchema(review, edited);
+      } catch (parseError) {
+        errors = [
+          `Invalid JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
+        ];
+      }
+
+      if (errors.length === 0) {
+        return edited;
+      }
+
+      console.error(
+        chalk.red(
+          `Edited output does not match the schema of ${review.stageId}:`
+        )
+      );
+      for (const error of errors) {
+        console.error(chalk.red(`  - ${error}`));
+      }
+
+      if (!process.stdin.isTTY || !(await confirm('Re-open the editor?'))) {
+        throw new Error('Edited output failed schema validation');
+      }
+    }
+  } finally {
+    await fs.rm(filePath, { force: true });
+  }
+}
+
+async function confirm(question: string): Promise<boolean> {
+  const readline = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  try {
+    const answer = await readline.question(`${question} [Y/n] `);
+    return !/^n/i.test(answer.trim());
+  } finally {
+    readline.close();
+  }
+}
+
+/**
+ * Prints a review using the CLI review display settings
+ */
+function printReview(review: StoredReview, settings: CLIReviewSettings): void {
+  if (!settings.colorized) {
+    chalk.level = 0;
+  }
+  const expanded = new Set(settings.autoExpand ?? []);
+  const maxLines = settings.maxDisplayLines ?? 40;
+
+  console.log(chalk.cyan.bold(`Review ${review.id}\n`));
+  console.log(`Pipeline: ${review.pipelineName} (${review.pipelineId})`);
+  console.log(`Stage: ${review.stageName} (${review.stageId})`);
+  console.log(`Status: ${formatStatus(review.status)}`);
+  console.log(`Priority: ${formatPriority(review)}`);
+  console.log(`Created: ${review.createdAt} (${formatAge(review.createdAt)})`);
+  if (review.expiresAt) {
+    console.log(`Expires: ${review.expiresAt}`);
+  }
+  if (review.confidence !== undefined) {
+    console.log(`Confidence: ${review.confidence.toFixed(2)}`);
+  }
+
+  console.log(chalk.yellow('\nWhy review:'));
+  for (const reason of review.reasons) {
+    console.log(`  - ${reason}`);
+  }
+  if (review.reviewPrompt) {
+    console.log(chalk.yellow('\nReview prompt:'));
+    console.log(`  ${review.reviewPrompt}`);
+  }
+
+  if (expanded.has('errors') && review.validationErrors?.length) {
+    console.log(chalk.red('\nPrevious edit rejected by the stage schema:'));
+    for (const error of review.validationErrors) {
+      console.log(chalk.red(`  - ${error}`));
+    }
+  }
+
+  if (expanded.has('input') && review.input !== undefined) {
+    printSection('Stage input', formatJson(review.input), maxLines);
+  }
+  if (expanded.has('output')) {
+    printSection(
+      'Raw LLM output',
+      review.rawOutput ?? chalk.gray('(not recorded)'),
+      maxLines
+    );
+    printSection('Validated value', formatJson(review.value), maxLines);
+    printSection(
+      'Stage schema',
+      review.schema === undefined
+        ? chalk.gray('(not recorded)')
+        : formatJson(review.schema),
+      maxLines
+    );
+  }
+  if (expanded.has('metadata') || settings.showDetails) {
+    const { stageMetadata } = review;
+    console.log(chalk.yellow('\nExecution:'));
+    console.log(
+      `  ${stageMetadata.provider}${stageMetadata.model ? ` (${stageMetadata.model})` : ''}, ${stageMetadata.attempts} attempt(s), ${stageMetadata.executionTimeMs}ms${stageMetadata.totalTokens !== undefined ? `, ${stageMetadata.totalTokens} tokens` : ''}`
+    );
+  }
+
+  if (review.submission) {
+    console.log(chalk.yellow('\nDecision:'));
+    console.log(
+      `  ${review.submission.decision}${review.submission.reviewedBy ? ` by ${review.submission.reviewedBy}` : ''} at ${review.submission.submittedAt}`
+    );
+    if (review.submission.comments) {
+      console.log(`  ${review.submission.comments}`);
+    }
+  }
+}
+
+function printSection(title: string, content: string, maxLines: number): void {
+  const lines = content.split('\n');
+  console.log(chalk.yellow(`\n${title}:`));
+  for (const line of lines.slice(0, maxLines)) {
+    console.log(`  ${line}`);
+  }
+  if (lines.length > maxLines) {
+    console.log(
+      chalk.gray(
+        `  … ${lines.length - maxLines} more lines (use --max-lines or --json)`
+      )
+    );
+  }
+}
+
+function createManager(options: ReviewStoreOptions): FileReviewManager {
+  return createFileReviewManager({
+    storageDir: options.dir ?? DEFAULT_REVIEW_DIR,
+  });
+}
+
+function getReviewer(options: DecideReviewOptions): string {
+  return options.reviewer ?? process.env.USER ?? 'cli';
+}
+
+function formatJson(value: unknown): string {
+  return JSON.stringify(value, null, 2) ?? 'undefined';
+}
+
+function formatStatus(status: ReviewStatus): string {
+  if (status === 'completed') return chalk.green(status);
+  if (status === 'cancelled' || status === 'expired') return chalk.gray(status);
+  return chalk.yellow(status);
+}
+
+function formatPriority(review: StoredReview): string {
+  const label = review.criticality
+    ? `${review.priority} (${review.criticality})`
+    : review.priority;
+  return review.priority === 'critical' || review.priority === 'urgent'
+    ? chalk.red(label)
+    : review.priority === 'high'
+      ? chalk.magenta(label)
+      : label;
+}
+
+function formatAge(isoDate: string): string {
+  const minutes = Math.floor((Date.now() - Date.parse(isoDate)) / 60_000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`;
+}
@@ -0,0 +1,142 @@
+/**
+ * Review CLI Commands
+ *
+ * Main entry point for review command setup
+ */
+
+import { Command } from 'commander';
+import {
+  DEFAULT_REVIEW_DIR,
+  DEFAULT_REVIEW_SERVER_HOST,
+} from '../../shared/constants/index.js';
+import {
+  approveReview,
+  editReview,
+  listReviews,
+  rejectReview,
+  serveReviews,
+  showReview,
+} from './review-commands.js';
+
+/**
+ * Create the review command with subcommands
+ */
+export function createReviewCommand(): Command {
+  const review = new Command('review')
+    .description('Work through stage results waiting for human review')
+    .addHelpText(
+      'after',
+      `
+Reviews are stored by FileReviewManager; pass the same directory the pipeline
+uses with --dir. Review IDs may be shortened to any unique prefix.
+
+Examples:
+  $ persuader review list
+  $ persuader review show 3f2a9c1e
+  $ persuader review approve 3f2a -m "Checked against source"
+  $ EDITOR=nano persuader review edit 3f2a
+  $ persuader review reject 3f2a -m "Wrong customer"
+  $ persuader review serve --port 4800 --webhook http://localhost:9000/hooks
+  `
+    );
+
+  // List reviews
+  review
+    .command('list')
+    .description('List reviews waiting for a decision')
+    .option('--dir <path>', 'Review store directory', DEFAULT_REVIEW_DIR)
+    .option(
+      '--status <statuses>',
+      'Comma-separated statuses to include (default: open reviews)'
+    )
+    .option('--all', 'Include decided, cancelled and expired reviews')
+    .option('--pipeline <id>', 'Filter by pipeline ID')
+    .option('--json', 'Output as JSON')
+    .action(async options => {
+      await listReviews(options);
+    });
+
+  // Show a review
+  review
+    .command('show <reviewId>')
+    .description(
+      'Show the raw LLM output, validated value and stage schema of a review'
+    )
+    .option('--dir <path>', 'Review store directory', DEFAULT_REVIEW_DIR)
+    .option('--details', 'Also show the stage input and execution details')
+    .option('--max-lines <number>', 'Maximum lines per section', '40')
+    .option('--json', 'Output the stored review as JSON')
+    .option('--no-color', 'Disable colored output')
+    .action(async (reviewId, options) => {
+      await showReview(reviewId, options);
+    });
+
+  // Approve a review
+  review
+    .command('approve <reviewId>')
+    .description('Approve the stage output and let the pipeline continue')
+    .option('--dir <path>', 'Review store directory', DEFAULT_REVIEW_DIR)
+    .option('-m, --comment <text>', 'Comment recorded with the decision')
+    .option('--reviewer <name>', 'Reviewer name (default: $USER)')
+    .action(async (reviewId, options) => {
+      await approveReview(reviewId, options);
+    });
+
+  // Reject a review
+  review
+    .command('reject <reviewId>')
+    .description('Reject the stage output and fail the stage')
+    .option('--dir <path>', 'Review store directory', DEFAULT_REVIEW_DIR)
+    .option('-m, --comment <text>', 'Reason recorded with the decision')
+    .option('--reviewer <name>', 'Reviewer name (default: $USER)')
+    .action(async (reviewId, options) => {
+      await rejectReview(reviewId, options);
+    });
+
+  // Edit a review
+  review
+    .command('edit <reviewId>')
+    .description(
+      'Edit the stage output in $EDITOR and submit it once it matches the schema'
+    )
+    .option('--dir <path>', 'Review store directory', DEFAULT_REVIEW_DIR)
+    .option('-m, --comment <text>', 'Comment recorded with the modification')
+    .option('--reviewer <name>', 'Reviewer name (default: $USER)')
+    .action(async (reviewId, options) => {
+      await editReview(reviewId, options);
+    });
+
+  // Serve the web UI and HTTP API
+  review
+    .command('serve')
+    .description('Start a local web UI and JSON API for reviews')
+    .option('--dir <path>', 'Review store directory', DEFAULT_REVIEW_DIR)
+    .option(
+      '--config <file>',
+      'JSON file with { "web": WebReviewSettings, "api": APIReviewSettings }'
+    )
+    .option('--host <address>', 'Address to bind', DEFAULT_REVIEW_SERVER_HOST)
+    .option('-p, --port <number>', 'Port to listen on (default: 4800)')
+    .option('--theme <theme>', 'UI theme: light, dark or auto')
+    .option('--no-live', 'Disable automatic refresh of the review list')
+    .option('--collaborative', 'Require reviewers to enter their name')
+    .option(
+      '--token <token>',
+      'Require this bearer token for the API (or set PERSUADER_REVIEW_TOKEN)'
+    )
+    .option(
+      '--rate-limit <number>',
+      'Maximum API requests per minute per client'
+    )
+    .option(
+      '--webhook <url>',
+      'Webhook notified of every review event (repeatable)',
+      (url: string, previous: string[]) => [...previous, url],
+      []
+    )
+    .action(async options => {
+      await serveReviews(options);
+    });
+
+  return review;
+}
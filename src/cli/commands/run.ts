@@ -28,9 +28,15 @@ export interface RunOptions {
   sessionId?: string;
   context?: string;
   lens?: string;
+  promptTemplates?: string;
   successMessage?: string;
   retries: string;
   model?: string;
+  budgetTokens?: string;
+  budgetUsd?: string;
+  fallbackModel?: string;
+  cache?: boolean;
+  refreshCache?: boolean;
   dryRun?: boolean;
   verbose?: boolean;
   debug?: boolean;
@@ -13,6 +13,8 @@ import { consola } from 'consola';
 import packageJson from '../../package.json' with { type: 'json' };
 import { runCommand } from './commands/run.js';
 import { createLogsCommand } from './commands/logs.js';
+import { createPipelineCommand } from './commands/pipeline.js';
+import { createReviewCommand } from './commands/review.js';
 
 /**
  * Configure consola options
@@ -65,6 +67,10 @@ For more information, visit: https://github.com/conorluddy/Persuader
     )
     .option('--context <text>', 'Global context to provide to the LLM')
     .option('--lens <text>', 'Per-batch focusing hint for the LLM')
+    .option(
+      '--prompt-templates <name-or-file>',
+      'Prompt template set (default, terse, verbose, spanish) or JSON overrides file'
+    )
     .option(
       '--success-message <text>',
       'Success feedback message sent after validation (for session-based learning)'
@@ -78,6 +84,30 @@ For more information, visit: https://github.com/conorluddy/Persuader
       '--model <name>',
       'LLM model to use (defaults to claude-3-5-haiku-20241022 for faster processing)'
     )
+    .option(
+      '--budget-tokens <n>',
+      'Stop the run before it uses more than this many tokens'
+    )
+    .option(
+      '--budget-usd <amount>',
+      'Stop the run before its estimated cost exceeds this many US dollars'
+    )
+    .option(
+      '--fallback-model <name>',
+      'Cheaper model to switch to when the next attempt would exceed a budget'
+    )
+    .option(
+      '--cache',
+      'Reuse and store cached responses for calls made outside a provider session'
+    )
+    .option(
+      '--no-cache',
+      'Call the provider without reading or writing the response cache'
+    )
+    .option(
+      '--refresh-cache',
+      'Call the provider even for cached responses and replace them'
+    )
     .option('--dry-run', 'Validate inputs without calling LLM')
     .option('-v, --verbose', 'Enable verbose output with detailed logging')
     .option('-d, --debug', 'Enable debug mode with full prompt/response visibility')
@@ -97,12 +127,24 @@ Run Command Examples:
   $ persuader run -s ./schema.ts -i ./data.json --lens "Focus on pricing"
     Add specific focusing hint for this batch
 
+  $ persuader run -s ./schema.ts -i ./data.json --prompt-templates terse
+    Use the terse built-in prompt phrasing
+
   $ persuader run -s ./schema.ts -i ./data.json --session-id my-session --success-message "Perfect! Continue this approach."
     Use success feedback for session-based learning
 
   $ persuader run -s ./schema.ts -i ./data.json --retries 3 --verbose
     Use custom retry count with detailed logging
 
+  $ persuader run -s ./schema.ts -i ./data.json --budget-usd 0.50 --fallback-model claude-3-5-haiku-20241022
+    Cap the estimated cost, switching to a cheaper model before stopping
+
+  $ persuader run -s ./schema.ts -i ./data.json --cache
+    Replay cached responses when re-running the same inputs
+
+  $ persuader run -s ./schema.ts -i ./data.json --refresh-cache
+    Re-run without reusing cached responses, caching the new ones
+
   $ persuader run -s ./schema.ts -i ./data.json --debug
     Enable debug mode for full prompt/response visibility
 
@@ -118,6 +160,12 @@ Run Command Examples:
   // Add logs command
   program.addCommand(createLogsCommand());
 
+  // Add pipeline command
+  program.addCommand(createPipelineCommand());
+
+  // Add review command
+  program.addCommand(createReviewCommand());
+
   // Error handling for unknown commands
   program.on('command:*', (operands: string[]) => {
     consola.error(chalk.red(`Unknown command: ${operands[0]}`));
@@ -7,10 +7,17 @@
  * @module cli/utilities/config-validator
  */
 
+import { readFile } from 'node:fs/promises';
 import type { z } from 'zod';
 import { validateRunnerOptions } from '../../core/runner.js';
 import { DEFAULT_RETRIES } from '../../shared/constants/index.js';
+import type { BudgetOptions } from '../../types/budget.js';
+import type { ResponseCacheOptions } from '../../types/cache.js';
 import type { Options } from '../../types/pipeline.js';
+import type {
+  PromptTemplateOption,
+  PromptTemplateOverrides,
+} from '../../types/prompt.js';
 import type { ReadInputsResult } from '../../utils/file-io.js';
 import { readInputs } from '../../utils/file-io.js';
 import { loadSchema } from '../../utils/schema-loader.js';
@@ -165,6 +172,26 @@ export async function validatePipelineConfig(
       (pipelineOptions as { model?: string }).model =
         rawOptions.model as string;
     }
+    if (rawOptions.promptTemplates) {
+      (
+        pipelineOptions as { promptTemplates?: PromptTemplateOption }
+      ).promptTemplates = await loadPromptTemplateOption(
+        rawOptions.promptTemplates as string
+      );
+    }
+    const budget = parseBudgetOptions(rawOptions);
+    if (budget) {
+      (pipelineOptions as { budget?: BudgetOptions }).budget = budget;
+    }
+    // Responses are cached only when asked to; refreshing implies caching,
+    // and --no-cache turns the cache off even where it would be enabled
+    if (rawOptions.cache === false) {
+      (pipelineOptions as { cache?: boolean | ResponseCacheOptions }).cache =
+        false;
+    } else if (rawOptions.cache || rawOptions.refreshCache) {
+      (pipelineOptions as { cache?: boolean | ResponseCacheOptions }).cache =
+        rawOptions.refreshCache ? { refresh: true } : true;
+    }
 
     // Use the existing validateRunnerOptions function
     const validation = validateRunnerOptions(pipelineOptions);
@@ -208,6 +235,52 @@ export async function validatePipelineConfig(
   }
 }
 
+/**
+ * Read the `--prompt-templates` option
+ *
+ * Paths ending in `.json` are read as template overrides; other values name
+ * a built-in or registered template set.
+ *
+ * @param value - Template set name or path to a JSON overrides file
+ * @returns Prompt template selection for the pipeline options
+ */
+async function loadPromptTemplateOption(
+  value: string
+): Promise<PromptTemplateOption> {
+  if (!value.endsWith('.json')) {
+    return value;
+  }
+
+  const content = await readFile(value, 'utf-8');
+  return JSON.parse(content) as PromptTemplateOverrides;
+}
+
+/**
+ * Read the `--budget-tokens`, `--budget-usd` and `--fallback-model` options
+ *
+ * The limits apply to the whole run. Values that aren't numbers are passed
+ * on as NaN for the runner's option validation to report.
+ *
+ * @param rawOptions - Raw CLI options from commander
+ * @returns Budget for the pipeline options, or undefined without limits
+ */
+function parseBudgetOptions(
+  rawOptions: Record<string, unknown>
+): BudgetOptions | undefined {
+  const { budgetTokens, budgetUsd, fallbackModel } = rawOptions;
+  if (budgetTokens === undefined && budgetUsd === undefined) {
+    return undefined;
+  }
+
+  return {
+    perCall: {
+      ...(budgetTokens !== undefined && { maxTokens: Number(budgetTokens) }),
+      ...(budgetUsd !== undefined && { maxCostUsd: Number(budgetUsd) }),
+    },
+    ...(typeof fallbackModel === 'string' && { fallbackModel }),
+  };
+}
+
 /**
  * Validate individual CLI option values
  *
@@ -10,6 +10,7 @@
 import chalk from 'chalk';
 import { consola } from 'consola';
 import ora, { type Ora } from 'ora';
+import type { PromptTokenEstimate } from '../../types/tokenizer.js';
 
 /**
  * Progress step configuration
@@ -250,6 +251,7 @@ export function reportExecutionMetrics(
  * @param config - Configuration that would be used
  * @param inputStats - Statistics about input files
  * @param outputPath - Where results would be saved
+ * @param promptEstimate - Estimated size of the prompt that would be sent
  */
 export function reportDryRunSummary(
   config: {
@@ -263,7 +265,8 @@ export function reportDryRunSummary(
     readonly fileCount: number;
     readonly itemCount: number;
   },
-  outputPath: string
+  outputPath: string,
+  promptEstimate?: PromptTokenEstimate
 ): void {
   consola.success(chalk.green('✅ Dry run completed successfully'));
   consola.info(chalk.blue('Would process:'));
@@ -278,6 +281,24 @@ export function reportDryRunSummary(
   if (config.sessionId) {
     consola.info(chalk.blue(`  • Session: ${config.sessionId}`));
   }
+  if (promptEstimate) {
+    const contextWindow =
+      promptEstimate.contextWindow !== undefined
+        ? ` of a ${promptEstimate.contextWindow}-token context window`
+        : '';
+    consola.info(
+      chalk.blue(
+        `  • Estimated prompt: ~${promptEstimate.tokens} tokens${contextWindow} (${promptEstimate.tokenizer})`
+      )
+    );
+    if (promptEstimate.exceedsContextWindow) {
+      consola.warn(
+        chalk.yellow(
+          "⚠️  The prompt is estimated to exceed the model's context window"
+        )
+      );
+    }
+  }
 }
 
 /**
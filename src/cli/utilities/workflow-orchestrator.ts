@@ -9,6 +9,7 @@
 
 import type { Options, Result } from '../../types/pipeline.js';
 import type { ProviderAdapter } from '../../types/provider.js';
+import type { PromptTokenEstimate } from '../../types/tokenizer.js';
 import type {
   ConfigValidationResult,
   SchemaLoadResult,
@@ -500,6 +501,19 @@ export class WorkflowOrchestrator {
         );
       }
 
+      // Estimate the prompt the pipeline would send for the input items
+      const configResult = this._stepResults['config-validation']?.data as
+        | ConfigValidationResult
+        | undefined;
+      const promptEstimate =
+        configResult?.config &&
+        (await estimateDryRunPrompt(configResult.config, inputResult.data));
+      if (promptEstimate?.exceedsContextWindow) {
+        warnings.push(
+          `Prompt is estimated at ${promptEstimate.tokens} tokens, exceeding the model's context window of ${promptEstimate.contextWindow} tokens`
+        );
+      }
+
       const dryRunConfig = {
         schemaName: schemaResult.schemaName,
         schemaPath: schemaResult.filePath,
@@ -520,7 +534,8 @@ export class WorkflowOrchestrator {
           fileCount: inputResult.fileCount,
           itemCount: inputResult.data.length,
         },
-        options.output as string
+        options.output as string,
+        promptEstimate
       );
 
       const executionTime = Date.now() - stepStart;
@@ -594,6 +609,45 @@ export class WorkflowOrchestrator {
   }
 }
 
+/**
+ * Estimate the size of the prompt a run would send
+ *
+ * Builds the prompt the way the pipeline does and counts it with the
+ * tokenizer of the model the Claude CLI provider would be called with.
+ *
+ * @param config - Validated pipeline options
+ * @param input - Input items of the run
+ * @returns Estimated prompt tokens and the model's context window
+ */
+async function estimateDryRunPrompt(
+  config: Options<unknown>,
+  input: unknown
+): Promise<PromptTokenEstimate> {
+  const { buildPrompt, combinePromptParts } = await import(
+    '../../core/prompt.js'
+  );
+  const { resolvePromptTemplates } = await import(
+    '../../core/prompt-templates.js'
+  );
+  const { estimatePromptTokens } = await import('../../core/tokenizer.js');
+  const { DEFAULT_MODEL } = await import('../../shared/constants/index.js');
+
+  const prompt = combinePromptParts(
+    buildPrompt({
+      schema: config.schema,
+      input,
+      ...(config.context && { context: config.context }),
+      ...(config.lens && { lens: config.lens }),
+      templates: resolvePromptTemplates(config.promptTemplates),
+    })
+  );
+  return estimatePromptTokens(
+    prompt,
+    'claude-cli',
+    config.model ?? DEFAULT_MODEL
+  );
+}
+
 /**
  * Execute complete run command workflow
  *
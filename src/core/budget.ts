@@ -0,0 +1,211 @@
+/**
+ * Budget Enforcement
+ *
+ * Decides whether a provider call fits the run's token and cost budgets
+ * before it is made. Spend of every provider call is recorded process-wide
+ * for `perProcess` budgets, while `perCall` and `perSession` spend is kept
+ * by a budget tracker for each run.
+ */
+
+import type {
+  BudgetLimits,
+  BudgetOptions,
+  BudgetScope,
+  BudgetSpend,
+} from '../types/budget.js';
+import type { BudgetError } from '../types/errors.js';
+import type { TokenUsage } from '../types/pipeline.js';
+import { estimatePromptTokens } from './tokenizer.js';
+
+const NO_SPEND: BudgetSpend = { tokens: 0, costUsd: 0 };
+
+/** Budget options of each scope, in the order they are checked */
+const SCOPE_LIMITS = [
+  ['call', 'perCall'],
+  ['session', 'perSession'],
+  ['process', 'perProcess'],
+] as const satisfies readonly (readonly [BudgetScope, keyof BudgetOptions])[];
+
+let processSpend: BudgetSpend = NO_SPEND;
+
+/**
+ * Spend tracker of one run
+ */
+export interface BudgetTracker {
+  /** Add the usage of a provider call made for the run */
+  record(usage: TokenUsage | undefined): void;
+
+  /**
+   * Check whether a call with the projected usage fits every budget
+   *
+   * @returns The error of the first budget it would exceed
+   */
+  check(projected: TokenUsage): BudgetError | undefined;
+}
+
+/**
+ * Add the usage of a provider call to the process-wide spend
+ */
+export function recordProcessSpend(usage: TokenUsage | undefined): void {
+  processSpend = addSpend(processSpend, usage);
+}
+
+/**
+ * Tokens and cost spent by every provider call of this process
+ */
+export function getProcessSpend(): BudgetSpend {
+  return processSpend;
+}
+
+/**
+ * Reset the process-wide spend, starting a new `perProcess` budget period
+ */
+export function resetProcessSpend(): void {
+  processSpend = NO_SPEND;
+}
+
+/**
+ * Create the spend tracker of a run
+ *
+ * @param budget - Budgets of the run
+ * @param sessionSpent - Spend recorded on the session before the run
+ */
+export function createBudgetTracker(
+  budget: BudgetOptions,
+  sessionSpent: BudgetSpend = NO_SPEND
+): BudgetTracker {
+  let callSpent = NO_SPEND;
+
+  return {
+    record(usage) {
+      callSpent = addSpend(callSpent, usage);
+    },
+    check(projected) {
+      return checkBudget(
+        budget,
+        {
+          call: callSpent,
+          session: {
+            tokens: sessionSpent.tokens + callSpent.tokens,
+            costUsd: sessionSpent.costUsd + callSpent.costUsd,
+          },
+          process: processSpend,
+        },
+        projected
+      );
+    },
+  };
+}
+
+/**
+ * Check whether a call with the projected usage fits the budgets
+ *
+ * @param budget - Budgets to check
+ * @param spent - Spend of each scope so far
+ * @param projected - Projected usage of the call, priced when possible
+ * @returns The error of the first budget the call would exceed
+ */
+export function checkBudget(
+  budget: BudgetOptions,
+  spent: Readonly<Record<BudgetScope, BudgetSpend>>,
+  projected: TokenUsage
+): BudgetError | undefined {
+  for (const [scope, key] of SCOPE_LIMITS) {
+    const limits = budget[key];
+    const error = limits && checkLimits(scope, limits, spent[scope], projected);
+    if (error) {
+      return error;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Estimate the usage of a call from its prompt alone
+ *
+ * Counts the prompt with the tokenizer of the model the call uses. Only
+ * counts input tokens; the output of the first call is unknown.
+ *
+ * @param prompt - Prompt as sent to the provider
+ * @param provider - Name of the provider adapter
+ * @param model - Model id the call uses
+ */
+export function estimatePromptUsage(
+  prompt: string,
+  provider: string,
+  model: string | undefined
+): TokenUsage {
+  const inputTokens = estimatePromptTokens(prompt, provider, model).tokens;
+  return { inputTokens, outputTokens: 0, totalTokens: inputTokens };
+}
+
+function checkLimits(
+  scope: BudgetScope,
+  limits: BudgetLimits,
+  spent: BudgetSpend,
+  projected: TokenUsage
+): BudgetError | undefined {
+  if (
+    limits.maxTokens !== undefined &&
+    spent.tokens + projected.totalTokens > limits.maxTokens
+  ) {
+    return createBudgetError(
+      scope,
+      'tokens',
+      limits.maxTokens,
+      spent.tokens,
+      projected.totalTokens
+    );
+  }
+
+  const projectedCost = projected.estimatedCost ?? 0;
+  if (
+    limits.maxCostUsd !== undefined &&
+    spent.costUsd + projectedCost > limits.maxCostUsd
+  ) {
+    return createBudgetError(
+      scope,
+      'cost',
+      limits.maxCostUsd,
+      spent.costUsd,
+      projectedCost
+    );
+  }
+  return undefined;
+}
+
+function createBudgetError(
+  scope: BudgetScope,
+  limit: BudgetError['limit'],
+  maximum: number,
+  spent: number,
+  projected: number
+): BudgetError {
+  const format = (value: number) =>
+    limit === 'cost' ? `$${value.toFixed(4)}` : `${value} tokens`;
+
+  return {
+    type: 'budget',
+    code: 'budget_exceeded',
+    message: `The next request (~${format(projected)}) would exceed the ${scope} budget of ${format(maximum)} (${format(spent)} spent)`,
+    timestamp: new Date(),
+    retryable: false,
+    scope,
+    limit,
+    maximum,
+    spent,
+    projected,
+  };
+}
+
+function addSpend(
+  spend: BudgetSpend,
+  usage: TokenUsage | undefined
+): BudgetSpend {
+  return usage
+    ? {
+        tokens: spend.tokens + usage.totalTokens,
+        costUsd: spend.costUsd + (usage.estimatedCost ?? 0),
+      }
+    : spend;
+}
@@ -15,20 +15,134 @@ import { validateJson } from './validation/index.js';
 
 // Core pipeline types
 export type {
+  ArrayChunkingConfig,
+  AttemptProvider,
+  ChunkingResult,
+  ConfidenceConfiguration,
+  ConfidenceEstimator,
+  ConfidenceSignals,
   ExecutionMetadata,
   InitSessionOptions,
   InitSessionResult,
+  JsonExtractionMode,
+  JsonRepair,
+  JudgeValidator,
   Options,
+  PartialSalvageConfig,
   PreloadOptions,
   PreloadResult,
   Result,
+  SemanticCheckResult,
+  SemanticIssue,
+  SemanticValidator,
+  SemanticValidatorFunction,
 } from '../types/pipeline.js';
+// Session priming and retry strategy types
+export type {
+  EnhancedRetryAttempt,
+  PrimingResult,
+  RetryStrategyConfig,
+  SessionPrimingConfig,
+  SessionPrimingStage,
+} from '../types/retry.js';
+// Multi-stage pipeline types
+export type {
+  BottleneckReason,
+  BottleneckStage,
+  BranchEvaluation,
+  CircularDependency,
+  CriticalPathAnalysis,
+  DAGValidationError,
+  DAGValidationResult,
+  DependencyGraph,
+  ParallelizationOpportunity,
+} from '../types/flow.js';
+export type {
+  ConditionalBranch,
+  Pipeline,
+  PipelineConfig,
+  PipelineError,
+  PipelineErrorHandling,
+  PipelineExecutionContext,
+  PipelineExecutionMetadata,
+  PipelineFlow,
+  PipelineRecoveryAttempt,
+  PipelineRecoveryResult,
+  PipelineRecoveryStrategy,
+  PipelineResult,
+  PipelineStage,
+  StageErrorRecovery,
+  StageRecoveryInfo,
+  StageResult,
+} from '../types/multi-stage.js';
+// Multi-stage pipeline execution
+export {
+  analyzeCriticalPath,
+  type CriticalPathAnalysisOptions,
+  type RunPipelineOptions,
+  runPipeline,
+  validateDAG,
+  validatePipelineDefinition,
+} from './multi-stage/index.js';
+// Token and cost budgets
+export type {
+  BudgetLimits,
+  BudgetOptions,
+  BudgetScope,
+  BudgetSkippedChecks,
+  BudgetSpend,
+} from '../types/budget.js';
+export { getProcessSpend, resetProcessSpend } from './budget.js';
+// Model pricing
+export type { ModelPricing, PricingTable } from '../types/pricing.js';
+export {
+  BUILT_IN_MODEL_PRICING,
+  estimateCost,
+  priceTokenUsage,
+  resolveModelPricing,
+  setModelPricing,
+} from './pricing.js';
+// Token estimation
+export type {
+  ContextWindowTable,
+  PromptTokenEstimate,
+  Tokenizer,
+  TokenizerTable,
+} from '../types/tokenizer.js';
+export {
+  BUILT_IN_CONTEXT_WINDOWS,
+  BUILT_IN_TOKENIZERS,
+  CL100K_TOKENIZER,
+  createCharacterTokenizer,
+  estimatePromptTokens,
+  O200K_TOKENIZER,
+  resolveContextWindow,
+  resolveTokenizer,
+  setContextWindows,
+  setTokenizers,
+} from './tokenizer.js';
+// Prompt template types
+export type {
+  BuiltInPromptTemplateName,
+  PromptTemplate,
+  PromptTemplateOption,
+  PromptTemplateOverrides,
+  PromptTemplates,
+  PromptTemplateVariables,
+} from '../types/prompt.js';
 // Prompt building utilities
 export {
   buildPrompt,
   type PromptBuildOptions,
   type PromptParts,
 } from './prompt.js';
+export {
+  BUILT_IN_PROMPT_TEMPLATES,
+  registerPromptTemplates,
+  renderPromptTemplate,
+  resolvePromptTemplates,
+  setDefaultPromptTemplates,
+} from './prompt-templates.js';
 // Retry utilities - high-level API only
 export {
   type RetryResult,
@@ -42,6 +156,7 @@ export {
 export {
   type ConfigurationValidation,
   createMockProvider,
+  estimateConfidence,
   formatResultMetadata,
   getExecutionStats,
   getSessionMetrics,
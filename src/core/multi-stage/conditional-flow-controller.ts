@@ -0,0 +1,463 @@
+/**
+ * Conditional Flow Controller for Multi-Stage Pipelines
+ *
+ * Runs stages in definition order while `PipelineFlow.branches` decide which
+ * branch-controlled stages execute. Each branch is evaluated once, right
+ * before the first stage it controls, so its condition can inspect the stages
+ * that have already completed (e.g. route documents by a classification).
+ */
+
+import type {
+  ActiveBranch,
+  BranchEvaluation,
+  ConditionalFlowController,
+  FlowError,
+  FlowExecutionMetadata,
+  FlowExecutionResult,
+  FlowPhase,
+  FlowState,
+  StageExecutionOrder,
+} from '../../types/flow.js';
+import type {
+  ConditionalBranch,
+  PipelineExecutionContext,
+  PipelineStage,
+  StageResult,
+} from '../../types/multi-stage.js';
+import { debug, warn } from '../../utils/logger.js';
+import { haltsAfterRecovery, isSkippedByRecovery } from './error-recovery.js';
+import type { RunnerExecutionContext } from './execution-context.js';
+import { executeAndRecordStage } from './stage-executor.js';
+
+/**
+ * Run-level settings for the conditional controller
+ */
+export interface ConditionalFlowSettings {
+  /** Validated pipeline input, handed to the first stage */
+  readonly input: unknown;
+  /** Session shared by all stages in this run (if any) */
+  readonly sessionId?: string;
+}
+
+/**
+ * Returns the name used to identify a branch in logs and evaluations
+ *
+ * @param branch Branch definition
+ * @param index Position of the branch in `flow.branches`
+ * @returns Branch name, or a positional name when none is set
+ */
+export function getBranchName(
+  branch: ConditionalBranch,
+  index: number
+): string {
+  return branch.name ?? `branches[${index}]`;
+}
+
+/**
+ * Creates a conditional flow controller for a pipeline run
+ *
+ * Stages listed in a branch's `ifTrue` or `ifFalse` only run when a branch
+ * that references them selects them; all other stages always run. Branch
+ * conditions receive the current stage output and the execution context, whose
+ * `state.completedStages` holds every stage result so far. Stage outputs are
+ * threaded exactly as in sequential mode, so a stage that is not selected
+ * passes the previous output through to the next stage.
+ *
+ * @param runner Execution context and writable state for the run
+ * @param settings Pipeline input and shared session
+ * @returns Conditional flow controller
+ */
+export function createConditionalFlowController(
+  runner: RunnerExecutionContext,
+  settings: ConditionalFlowSettings
+): ConditionalFlowController {
+  const { context, state } = runner;
+  const { pipeline } = context;
+  const branches = pipeline.flow.branches ?? [];
+  const stopOnFirstError = pipeline.config.stopOnFirstError ?? true;
+  const stageResults: Record<string, StageResult> = {};
+  const skippedStages: string[] = [];
+  const executionOrder: StageExecutionOrder[] = [];
+  const flowErrors: FlowError[] = [];
+  const branchHistory: BranchEvaluation[] = [];
+  const activeBranches = new Map<number, ActiveBranch>();
+  const forcedBranches = new Map<string, boolean>();
+  const selectedStages = new Set<string>();
+
+  let phase: FlowPhase = 'initializing';
+  let flowStartTime = new Date();
+  let currentInput = settings.input;
+  let nextIndex = 0;
+  let failed = false;
+
+  const branchesControlling = (stageId: string): number[] =>
+    branches
+      .map((branch, index) => ({ branch, index }))
+      .filter(
+        ({ branch }) =>
+          branch.ifTrue.includes(stageId) ||
+          (branch.ifFalse ?? []).includes(stageId)
+      )
+      .map(({ index }) => index);
+
+  const updateBranchStatus = (
+    stageId: string,
+    status: ActiveBranch['status']
+  ) => {
+    for (const [index, active] of activeBranches) {
+      if (active.selectedStages.includes(stageId)) {
+        activeBranches.set(index, { ...active, status });
+      }
+    }
+  };
+
+  /**
+   * Evaluates every not-yet-evaluated branch that controls the stage
+   */
+  const evaluateBranchesFor = async (stage: PipelineStage): Promise<void> => {
+    for (const index of branchesControlling(stage.id)) {
+      if (activeBranches.has(index)) {
+        continue;
+      }
+      const branch = branches[index] as ConditionalBranch;
+      const branchName = getBranchName(branch, index);
+      const forced = forcedBranches.get(branchName);
+      const startedAt = Date.now();
+
+      const result =
+        forced ??
+        (await controller.evaluateCondition(branch.condition, context));
+      const selected = result ? branch.ifTrue : (branch.ifFalse ?? []);
+      const evaluatedAt = new Date();
+
+      for (const stageId of selected) {
+        selectedStages.add(stageId);
+      }
+      activeBranches.set(index, {
+        branch,
+        evaluationResult: result,
+        selectedStages: selected,
+        evaluatedAt,
+        status: 'pending',
+      });
+      branchHistory.push({
+        branchName,
+        result,
+        timestamp: evaluatedAt,
+        context: {
+          evaluatedBeforeStage: stage.id,
+          completedStages: Object.keys(state.completedStages),
+          selectedStages: selected,
+          ...(forced !== undefined && { forced: true }),
+        },
+        durationMs: evaluatedAt.getTime() - startedAt,
+      });
+
+      debug('Evaluated pipeline branch', {
+        pipelineId: pipeline.id,
+        branchName,
+        result,
+        selectedStages: selected,
+      });
+    }
+  };
+
+  const checkTimeout = (): boolean => {
+    const maxExecutionTimeMs = pipeline.config.maxExecutionTimeMs;
+    if (maxExecutionTimeMs === undefined) {
+      return false;
+    }
+    const elapsedMs = Date.now() - state.startTime.getTime();
+    if (elapsedMs <= maxExecutionTimeMs) {
+      return false;
+    }
+    flowErrors.push({
+      type: 'timeout_error',
+      code: 'pipeline_timeout',
+      message: `Pipeline "${pipeline.id}" exceeded its maximum execution time of ${maxExecutionTimeMs}ms (elapsed ${elapsedMs}ms)`,
+      timestamp: new Date(),
+      recoverable: false,
+      context: { elapsedMs, maxExecutionTimeMs },
+    });
+    return true;
+  };
+
+  const skip = (stageId: string, reason: string): void => {
+    skippedStages.push(stageId);
+    state.waitingStages.delete(stageId);
+    debug('Skipping conditional stage', {
+      pipelineId: pipeline.id,
+      stageId,
+      reason,
+    });
+  };
+
+  /**
+   * Runs one stage, returning false when the flow must stop
+   */
+  const runNextStage = async (stage: PipelineStage): Promise<boolean> => {
+    state.waitingStages.delete(stage.id);
+
+    if (checkTimeout()) {
+      skip(stage.id, 'pipeline timed out');
+      return false;
+    }
+
+    try {
+      await evaluateBranchesFor(stage);
+    } catch (conditionError) {
+      flowErrors.push({
+        type: 'condition_error',
+        code: 'branch_condition_failed',
+        message: `Branch condition before stage "${stage.id}" threw: ${conditionError instanceof Error ? conditionError.message : 'Unknown error'}`,
+        timestamp: new Date(),
+        affectedStages: [stage.id],
+        recoverable: false,
+        originalError: conditionError,
+      });
+      skip(stage.id, 'branch condition failed');
+      return false;
+    }
+
+    if (
+      branchesControlling(stage.id).length > 0 &&
+      !selectedStages.has(stage.id)
+    ) {
+      skip(stage.id, 'not selected by any branch');
+      return true;
+    }
+
+    if (stage.condition && !(await stage.condition(currentInput, context))) {
+      skip(stage.id, 'condition not met');
+      return true;
+    }
+
+    updateBranchStatus(stage.id, 'executing');
+    const startTime = new Date();
+    const result = await executeAndRecordStage(
+      runner,
+      stage,
+      currentInput,
+      settings.sessionId !== undefined ? { sessionId: settings.sessionId } : {}
+    );
+    executionOrder.push({
+      stageId: stage.id,
+      stageName: stage.name,
+      startTime,
+      endTime: result.endTime,
+      resolvedDependencies: [],
+    });
+
+    if (result.success) {
+      await controller.markStageCompleted(stage.id, result);
+      return !haltsAfterRecovery(result);
+    }
+
+    if (isSkippedByRecovery(result)) {
+      stageResults[stage.id] = result;
+      skip(stage.id, 'recovered by skipping');
+      return !haltsAfterRecovery(result);
+    }
+
+    await controller.markStageFailed(stage.id, result.error);
+    stageResults[stage.id] = result;
+    return !stopOnFirstError;
+  };
+
+  const buildMetadata = (): FlowExecutionMetadata => {
+    const endTime = new Date();
+    return {
+      startTime: flowStartTime,
+      endTime,
+      executionTimeMs: endTime.getTime() - flowStartTime.getTime(),
+      executionMode: 'conditional',
+      maxConcurrency: executionOrder.length > 0 ? 1 : 0,
+      avgConcurrency: executionOrder.length > 0 ? 1 : 0,
+      dependencyResolutionTimeMs: 0,
+      executionOrder: [...executionOrder],
+    };
+  };
+
+  const findFinalOutput = (): unknown => {
+    for (let index = pipeline.stages.length - 1; index >= 0; index--) {
+      const result = stageResults[pipeline.stages[index]?.id ?? ''];
+      if (result?.success) {
+        return result.value;
+      }
+    }
+    return undefined;
+  };
+
+  const controller: ConditionalFlowController = {
+    async initialize(_context: PipelineExecutionContext): Promise<void> {
+      phase = 'dependency_analysis';
+      const stageIds = new Set(pipeline.stages.map(stage => stage.id));
+      branches.forEach((branch, index) => {
+        const unknown = [...branch.ifTrue, ...(branch.ifFalse ?? [])].filter(
+          stageId => !stageIds.has(stageId)
+        );
+        if (unknown.length > 0) {
+          phase = 'failed';
+          throw new Error(
+            `Branch "${getBranchName(branch, index)}" references unknown stage(s): ${unknown.join(', ')}`
+          );
+        }
+      });
+    },
+
+    async execute(): Promise<FlowExecutionResult> {
+      if (phase === 'initializing') {
+        await controller.initialize(context);
+      }
+
+      phase = 'executing';
+      flowStartTime = new Date();
+
+      while (nextIndex < pipeline.stages.length) {
+        const stage = pipeline.stages[nextIndex++] as PipelineStage;
+        if (!(await runNextStage(stage))) {
+          break;
+        }
+      }
+
+      // Stages after a halt never ran
+      for (const stage of pipeline.stages.slice(nextIndex)) {
+        skip(stage.id, 'pipeline halted');
+      }
+      nextIndex = pipeline.stages.length;
+
+      const success = !failed && flowErrors.length === 0;
+      phase = success ? 'completed' : 'failed';
+      const finalOutput = findFinalOutput();
+
+      return {
+        success,
+        stageResults: { ...stageResults },
+        skippedStages: [...skippedStages],
+        metadata: buildMetadata(),
+        ...(finalOutput !== undefined && { finalOutput }),
+        ...(flowErrors.length > 0 && { errors: [...flowErrors] }),
+      };
+    },
+
+    async getNextStages(): Promise<ReadonlyArray<string>> {
+      const stage = pipeline.stages[nextIndex];
+      return stage ? [stage.id] : [];
+    },
+
+    async markStageCompleted(
+      stageId: string,
+      result: StageResult
+    ): Promise<void> {
+      stageResults[stageId] = result;
+      currentInput = result.value;
+      updateBranchStatus(stageId, 'completed');
+    },
+
+    async markStageFailed(stageId: string, error: unknown): Promise<void> {
+      failed = true;
+      updateBranchStatus(stageId, 'failed');
+      warn('Conditional stage failed', {
+        pipelineId: pipeline.id,
+        stageId,
+        error:
+          error instanceof Error
+            ? error.message
+            : (error as { message?: string })?.message,
+        haltingPipeline: stopOnFirstError,
+      });
+    },
+
+    async isComplete(): Promise<boolean> {
+      return nextIndex >= pipeline.stages.length;
+    },
+
+    async canContinue(): Promise<boolean> {
+      return flowErrors.length === 0 && !(stopOnFirstError && failed);
+    },
+
+    async getFlowState(): Promise<FlowState> {
+      const completed = Object.values(stageResults)
+        .filter(result => result.success)
+        .map(result => result.stageId);
+      const failedStages = Object.values(stageResults)
+        .filter(result => !result.success)
+        .map(result => result.stageId);
+      const remaining = pipeline.stages
+        .slice(nextIndex)
+        .map(stage => stage.id);
+
+      return {
+        phase,
+        readyStages: remaining.slice(0, 1),
+        executingStages: [...state.executingStages],
+        completedStages: completed,
+        failedStages,
+        skippedStages: [...skippedStages],
+        waitingStages: remaining.slice(1),
+        dependencyState: {
+          totalDependencies: 0,
+          resolvedDependencies: 0,
+          unresolvedDependencies: 0,
+          blockedStages: {},
+          resolutionOrder: pipeline.stages.map(stage => stage.id),
+          orphanedStages: [],
+        },
+        activeParallelGroups: [],
+        executionStats: {
+          totalStages: pipeline.stages.length,
+          currentlyExecuting: state.executingStages.size,
+          completedStages: completed.length,
+          failedStages: failedStages.length,
+          skippedStages: skippedStages.length,
+          efficiency:
+            completed.length + failedStages.length > 0
+              ? completed.length / (completed.length + failedStages.length)
+              : 1,
+          healthScore:
+            pipeline.stages.length > 0
+              ? 1 - failedStages.length / pipeline.stages.length
+              : 1,
+        },
+      };
+    },
+
+    async finalize(): Promise<void> {
+      phase = !failed && flowErrors.length === 0 ? 'completed' : 'failed';
+    },
+
+    async evaluateCondition(
+      condition: ConditionalBranch['condition'],
+      evaluationContext: PipelineExecutionContext
+    ): Promise<boolean> {
+      return Boolean(await condition(currentInput, evaluationContext));
+    },
+
+    async getActiveBranches(): Promise<ReadonlyArray<ActiveBranch>> {
+      return [...activeBranches.values()];
+    },
+
+    async getBranchHistory(): Promise<ReadonlyArray<BranchEvaluation>> {
+      return [...branchHistory];
+    },
+
+    async forceBranch(
+      branchName: string,
+      direction: 'true' | 'false'
+    ): Promise<void> {
+      const exists = branches.some(
+        (branch, index) => getBranchName(branch, index) === branchName
+      );
+      if (!exists) {
+        throw new Error(
+          `Cannot force unknown branch "${branchName}". Available branches: ${branches
+            .map((branch, index) => getBranchName(branch, index))
+            .join(', ')}`
+        );
+      }
+      forcedBranches.set(branchName, direction === 'true');
+    },
+  };
+
+  return controller;
+}
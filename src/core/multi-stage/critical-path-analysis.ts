@@ -0,0 +1,356 @@
+/**
+ * Critical Path Analysis for Pipeline Runs
+ *
+ * Computes a CriticalPathAnalysis from the stage results of a finished run:
+ * the heaviest chain of dependent stages by real execution time, the stages on
+ * that chain that slow it down (long runs, retries, token-heavy prompts, fan-out
+ * points) and groups of stages that ran one after another but could overlap.
+ */
+
+import type {
+  BottleneckReason,
+  BottleneckStage,
+  CriticalPathAnalysis,
+  ParallelizationOpportunity,
+} from '../../types/flow.js';
+import type { StageResult } from '../../types/multi-stage.js';
+import { createDependencyGraph, findLongestPath } from './dependency-graph.js';
+
+/**
+ * How the analysed stages depended on each other during the run
+ */
+export interface CriticalPathAnalysisOptions {
+  /** Stage IDs in definition order (defaults to order of start time) */
+  readonly stageOrder?: ReadonlyArray<string>;
+  /**
+   * Declared DAG dependencies. When omitted, each executed stage is treated as
+   * depending on the stage executed before it, as in sequential flows.
+   */
+  readonly dependencies?: Readonly<Record<string, ReadonlyArray<string>>>;
+}
+
+/** A stage is "long" once it takes this many times the average of the others */
+const LONG_EXECUTION_FACTOR = 2;
+
+/** A stage is "token heavy" once it sends this many times the average input */
+const TOKEN_HEAVY_FACTOR = 2;
+
+/** Stages with at least this many dependents are flagged as blocking others */
+const BLOCKING_DEPENDENTS_THRESHOLD = 2;
+
+/** Stages with at least this many dependencies are flagged as fan-in points */
+const MANY_DEPENDENCIES_THRESHOLD = 3;
+
+/**
+ * Analyses the critical path of a pipeline run from its stage results
+ *
+ * Only stages that actually executed are considered; skipped stages carry no
+ * timing data. Sequential and conditional runs form a single chain, so every
+ * executed stage lies on the critical path; DAG runs use the declared
+ * dependencies.
+ *
+ * @param stageResults Stage results from a pipeline run
+ * @param options Stage order and dependencies used during the run
+ * @returns Critical path, bottlenecks and parallelization opportunities
+ */
+export function analyzeCriticalPath(
+  stageResults: Readonly<Record<string, StageResult>>,
+  options: CriticalPathAnalysisOptions = {}
+): CriticalPathAnalysis {
+  const executed = orderExecutedStages(stageResults, options.stageOrder);
+  const dependencies = options.dependencies ?? chainDependencies(executed);
+  const graph = createDependencyGraph(
+    executed.map(result => ({ id: result.stageId, name: result.stageId })),
+    dependencies
+  );
+  const timeOf = (stageId: string): number =>
+    stageResults[stageId]?.metadata.executionTimeMs ?? 0;
+
+  const { path, totalWeight } = findLongestPath(graph, timeOf);
+
+  const bottleneckStages = path
+    .map(stageId =>
+      describeBottleneck(
+        stageId,
+        stageResults,
+        executed,
+        graph.nodes[stageId]?.dependents.length ?? 0,
+        graph.nodes[stageId]?.dependencies.length ?? 0
+      )
+    )
+    .filter((stage): stage is BottleneckStage => stage !== undefined)
+    .sort((a, b) => b.criticalPathImpactMs - a.criticalPathImpactMs);
+
+  const parallelizationOpportunities = options.dependencies
+    ? findUnderlappingLevels(executed, graph.nodes)
+    : findIndependentSequentialStages(executed);
+
+  const onPath = new Set(path);
+  const potentialTimeSavingsMs = Math.min(
+    totalWeight,
+    parallelizationOpportunities
+      .filter(opportunity =>
+        opportunity.stageIds.some(id => onPath.has(id))
+      )
+      .reduce(
+        (total, opportunity) => total + opportunity.potentialTimeSavingsMs,
+        0
+      )
+  );
+
+  return {
+    criticalPathStages: path,
+    criticalPathTimeMs: totalWeight,
+    potentialTimeSavingsMs,
+    bottleneckStages,
+    parallelizationOpportunities,
+  };
+}
+
+/**
+ * Returns executed stage results in definition order, or by start time
+ */
+function orderExecutedStages(
+  stageResults: Readonly<Record<string, StageResult>>,
+  stageOrder: ReadonlyArray<string> | undefined
+): StageResult[] {
+  const results = Object.values(stageResults);
+  if (!stageOrder) {
+    return results.sort((a, b) => toTime(a.startTime) - toTime(b.startTime));
+  }
+  return stageOrder
+    .map(stageId => stageResults[stageId])
+    .filter((result): result is StageResult => result !== undefined);
+}
+
+/**
+ * Treats each executed stage as depending on the one executed before it
+ */
+function chainDependencies(
+  executed: ReadonlyArray<StageResult>
+): Record<string, ReadonlyArray<string>> {
+  const dependencies: Record<string, ReadonlyArray<string>> = {};
+  executed.forEach((result, index) => {
+    const previous = executed[index - 1];
+    if (previous) {
+      dependencies[result.stageId] = [previous.stageId];
+    }
+  });
+  return dependencies;
+}
+
+/**
+ * Explains why a critical-path stage slows the run down, if it does
+ */
+function describeBottleneck(
+  stageId: string,
+  stageResults: Readonly<Record<string, StageResult>>,
+  executed: ReadonlyArray<StageResult>,
+  dependentCount: number,
+  dependencyCount: number
+): BottleneckStage | undefined {
+  const result = stageResults[stageId];
+  if (!result) {
+    return undefined;
+  }
+
+  const others = executed.filter(other => other.stageId !== stageId);
+  const executionTimeMs = result.metadata.executionTimeMs;
+  const retryAttempts = result.metadata.stageMetrics.retryAttempts;
+  const inputTokens = result.metadata.tokenUsage?.inputTokens;
+  const averageTime = average(
+    others.map(other => other.metadata.executionTimeMs)
+  );
+  const averageInputTokens = average(
+    others
+      .map(other => other.metadata.tokenUsage?.inputTokens)
+      .filter((tokens): tokens is number => tokens !== undefined)
+  );
+
+  const reasons: BottleneckReason[] = [];
+  const suggestions: string[] = [];
+
+  if (!result.success || retryAttempts > 0) {
+    reasons.push('high_failure_rate');
+    suggestions.push(
+      result.success
+        ? `Needed ${retryAttempts} retr${retryAttempts === 1 ? 'y' : 'ies'} to pass validation; add exampleOutput or tighten the stage context to reduce failed attempts.`
+        : 'Failed after all retries; review the stage schema and prompt before re-running.'
+    );
+  }
+
+  if (
+    averageTime !== undefined &&
+    averageTime > 0 &&
+    executionTimeMs >= averageTime * LONG_EXECUTION_FACTOR
+  ) {
+    reasons.push('long_execution');
+    suggestions.push(
+      `Takes ${(executionTimeMs / averageTime).toFixed(1)}x the average stage time; consider a faster model via providerOptions.model or splitting the stage.`
+    );
+  }
+
+  if (
+    inputTokens !== undefined &&
+    averageInputTokens !== undefined &&
+    averageInputTokens > 0 &&
+    inputTokens >= averageInputTokens * TOKEN_HEAVY_FACTOR
+  ) {
+    suggestions.push(
+      `Sends ${inputTokens} input tokens (${(inputTokens / averageInputTokens).toFixed(1)}x the average); trim the stage context or the output of transformInput.`
+    );
+    if (!reasons.includes('long_execution')) {
+      reasons.push('long_execution');
+    }
+  }
+
+  if (dependentCount >= BLOCKING_DEPENDENTS_THRESHOLD) {
+    reasons.push('blocking_others');
+    suggestions.push(
+      `${dependentCount} stages wait for this stage; speeding it up shortens every downstream branch.`
+    );
+  }
+
+  if (dependencyCount >= MANY_DEPENDENCIES_THRESHOLD) {
+    reasons.push('many_dependencies');
+    suggestions.push(
+      `Waits for ${dependencyCount} stages; check whether all of them are really needed.`
+    );
+  }
+
+  const [primaryReason] = reasons;
+  if (!primaryReason) {
+    return undefined;
+  }
+
+  return {
+    stageId,
+    criticalPathImpactMs: executionTimeMs,
+    bottleneckReason: primaryReason,
+    optimizationSuggestions: suggestions,
+  };
+}
+
+/**
+ * Finds runs of consecutive sequential stages that received identical input
+ *
+ * A stage given exactly the same input as its predecessor did not consume the
+ * predecessor's output, so the two could run side by side in a DAG.
+ */
+function findIndependentSequentialStages(
+  executed: ReadonlyArray<StageResult>
+): ParallelizationOpportunity[] {
+  const opportunities: ParallelizationOpportunity[] = [];
+  let group: StageResult[] = [];
+
+  const flush = (): void => {
+    if (group.length > 1) {
+      const times = group.map(result => result.metadata.executionTimeMs);
+      opportunities.push({
+        stageIds: group.map(result => result.stageId),
+        potentialTimeSavingsMs: sum(times) - Math.max(...times),
+        currentMode: 'sequential',
+        suggestedMode: 'parallel',
+        prerequisites: [
+          "Confirm none of these stages reads another's result through context.state.",
+          "Switch to flow.mode 'dag' and give these stages the same dependencies.",
+        ],
+      });
+    }
+    group = [];
+  };
+
+  for (const result of executed) {
+    const previous = group[group.length - 1];
+    if (
+      previous &&
+      result.input !== undefined &&
+      serialize(result.input) === serialize(previous.input)
+    ) {
+      group.push(result);
+      continue;
+    }
+    flush();
+    group = [result];
+  }
+  flush();
+
+  return opportunities;
+}
+
+/**
+ * Finds DAG levels whose independent stages did not fully overlap in time
+ */
+function findUnderlappingLevels(
+  executed: ReadonlyArray<StageResult>,
+  nodes: Readonly<
+    Record<string, { readonly dependencies: ReadonlyArray<string> }>
+  >
+): ParallelizationOpportunity[] {
+  const levelOf = new Map<string, number>();
+  const levels = new Map<number, StageResult[]>();
+
+  for (const result of [...executed].sort(
+    (a, b) => toTime(a.startTime) - toTime(b.startTime)
+  )) {
+    const level = Math.max(
+      0,
+      ...(nodes[result.stageId]?.dependencies ?? []).map(
+        dependencyId => (levelOf.get(dependencyId) ?? 0) + 1
+      )
+    );
+    levelOf.set(result.stageId, level);
+    levels.set(level, [...(levels.get(level) ?? []), result]);
+  }
+
+  const opportunities: ParallelizationOpportunity[] = [];
+  for (const group of levels.values()) {
+    if (group.length < 2) {
+      continue;
+    }
+    const spanMs =
+      Math.max(...group.map(result => toTime(result.endTime))) -
+      Math.min(...group.map(result => toTime(result.startTime)));
+    const longestMs = Math.max(
+      ...group.map(result => result.metadata.executionTimeMs)
+    );
+    const savingsMs = spanMs - longestMs;
+    if (savingsMs <= 0) {
+      continue;
+    }
+    opportunities.push({
+      stageIds: group.map(result => result.stageId),
+      potentialTimeSavingsMs: savingsMs,
+      currentMode: 'partially_parallel',
+      suggestedMode: 'parallel',
+      prerequisites: [
+        `Raise flow.maxConcurrency to at least ${group.length} if provider rate limits allow it.`,
+      ],
+    });
+  }
+
+  return opportunities;
+}
+
+function average(values: ReadonlyArray<number>): number | undefined {
+  return values.length > 0 ? sum(values) / values.length : undefined;
+}
+
+function sum(values: ReadonlyArray<number>): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/**
+ * Accepts Date objects and ISO strings (results loaded from JSON files)
+ */
+function toTime(value: Date | string): number {
+  return new Date(value).getTime();
+}
+
+function serialize(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? '';
+  } catch {
+    return '';
+  }
+}
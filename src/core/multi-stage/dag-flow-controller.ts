@@ -0,0 +1,584 @@
+/**
+ * DAG Flow Controller for Multi-Stage Pipelines
+ *
+ * Schedules stages from `PipelineFlow.dependencies`: a stage starts as soon as
+ * all of its dependencies have produced output, and independent stages run
+ * concurrently up to `PipelineFlow.maxConcurrency`. This enables fan-out
+ * (one stage feeding several) and fan-in (several stages feeding one).
+ */
+
+import type {
+  DAGFlowController,
+  DAGOptimization,
+  DAGValidationResult,
+  DependencyGraph,
+  DependencyGraphNode,
+  FlowError,
+  FlowExecutionMetadata,
+  FlowExecutionResult,
+  FlowPhase,
+  FlowState,
+  StageExecutionOrder,
+} from '../../types/flow.js';
+import type {
+  PipelineExecutionContext,
+  PipelineStage,
+  StageResult,
+} from '../../types/multi-stage.js';
+import { debug, warn } from '../../utils/logger.js';
+import {
+  buildDependencyGraph,
+  findCircularDependencies,
+  findLongestPath,
+  findRedundantDependencies,
+  getTopologicalOrder,
+  validateDAG,
+} from './dependency-graph.js';
+import { haltsAfterRecovery, isSkippedByRecovery } from './error-recovery.js';
+import type { RunnerExecutionContext } from './execution-context.js';
+import { executeAndRecordStage } from './stage-executor.js';
+
+/**
+ * Run-level settings for the DAG controller
+ */
+export interface DAGFlowSettings {
+  /** Validated pipeline input, handed to stages without dependencies */
+  readonly input: unknown;
+  /** Session shared by all stages in this run (if any) */
+  readonly sessionId?: string;
+}
+
+type NodeStatus = DependencyGraphNode['status'];
+
+/**
+ * Creates a DAG flow controller for a pipeline run
+ *
+ * Stage input is resolved from dependencies: stages without dependencies get
+ * the pipeline input, a stage with one dependency gets that stage's output,
+ * and a stage with several dependencies gets an object keyed by dependency
+ * stage ID. A stage skipped by its `condition`, or recovered with the `skip`
+ * strategy, passes its input through to its dependents; dependents of a
+ * failed stage are skipped. With
+ * `config.stopOnFirstError` (the default) no new stage starts after a failure,
+ * though stages already running are allowed to finish.
+ *
+ * Stages sharing a session while running concurrently send interleaved
+ * prompts to the same conversation, so prefer separate sessions for wide DAGs.
+ *
+ * @param runner Execution context and writable state for the run
+ * @param settings Pipeline input and shared session
+ * @returns DAG flow controller
+ */
+export function createDAGFlowController(
+  runner: RunnerExecutionContext,
+  settings: DAGFlowSettings
+): DAGFlowController {
+  const { context, state } = runner;
+  const { pipeline } = context;
+  const stagesById = new Map(pipeline.stages.map(stage => [stage.id, stage]));
+  const statuses = new Map<string, NodeStatus>();
+  const outputs = new Map<string, unknown>();
+  const stageResults: Record<string, StageResult> = {};
+  const skippedStages: string[] = [];
+  const executionOrder: StageExecutionOrder[] = [];
+  const flowErrors: FlowError[] = [];
+  const running = new Map<string, Promise<void>>();
+  const stopOnFirstError = pipeline.config.stopOnFirstError ?? true;
+  const maxConcurrency = Math.max(
+    1,
+    pipeline.flow.maxConcurrency ?? pipeline.stages.length
+  );
+
+  let graph: DependencyGraph = buildDependencyGraph(pipeline);
+  let phase: FlowPhase = 'initializing';
+  let flowStartTime = new Date();
+  let dependencyResolutionTimeMs = 0;
+  let peakConcurrency = 0;
+  let timedOut = false;
+  let haltedByRecovery = false;
+
+  const countStatus = (status: NodeStatus): number =>
+    [...statuses.values()].filter(value => value === status).length;
+
+  const hasOutput = (stageId: string): boolean =>
+    statuses.get(stageId) === 'completed' ||
+    (statuses.get(stageId) === 'skipped' && outputs.has(stageId));
+
+  const isWaiting = (stageId: string): boolean => {
+    const status = statuses.get(stageId);
+    return status === 'pending' || status === 'ready';
+  };
+
+  const dependenciesOf = (stageId: string): ReadonlyArray<string> =>
+    graph.nodes[stageId]?.dependencies ?? [];
+
+  const markSkipped = (stageId: string, reason: string): void => {
+    statuses.set(stageId, 'skipped');
+    skippedStages.push(stageId);
+    state.waitingStages.delete(stageId);
+    debug('Skipping DAG stage', { pipelineId: pipeline.id, stageId, reason });
+  };
+
+  /**
+   * Skips waiting stages whose dependencies can no longer produce output
+   */
+  const skipBlockedStages = (): void => {
+    for (const stageId of getTopologicalOrder(graph)) {
+      if (!isWaiting(stageId)) {
+        continue;
+      }
+      const blockedBy = dependenciesOf(stageId).filter(dependencyId => {
+        const status = statuses.get(dependencyId);
+        return (
+          status === 'failed' ||
+          (status === 'skipped' && !outputs.has(dependencyId))
+        );
+      });
+      if (blockedBy.length > 0) {
+        markSkipped(stageId, `blocked by ${blockedBy.join(', ')}`);
+      }
+    }
+  };
+
+  const resolveStageInput = (stageId: string): unknown => {
+    const dependencies = dependenciesOf(stageId);
+    if (dependencies.length === 0) {
+      return settings.input;
+    }
+    if (dependencies.length === 1) {
+      return outputs.get(dependencies[0] as string);
+    }
+    return Object.fromEntries(
+      dependencies.map(dependencyId => [
+        dependencyId,
+        outputs.get(dependencyId),
+      ])
+    );
+  };
+
+  const checkTimeout = (): void => {
+    const maxExecutionTimeMs = pipeline.config.maxExecutionTimeMs;
+    if (timedOut || maxExecutionTimeMs === undefined) {
+      return;
+    }
+    const elapsedMs = Date.now() - state.startTime.getTime();
+    if (elapsedMs > maxExecutionTimeMs) {
+      timedOut = true;
+      flowErrors.push({
+        type: 'timeout_error',
+        code: 'pipeline_timeout',
+        message: `Pipeline "${pipeline.id}" exceeded its maximum execution time of ${maxExecutionTimeMs}ms (elapsed ${elapsedMs}ms)`,
+        timestamp: new Date(),
+        recoverable: false,
+        context: { elapsedMs, maxExecutionTimeMs },
+      });
+    }
+  };
+
+  const runStage = async (stage: PipelineStage): Promise<void> => {
+    const stageInput = resolveStageInput(stage.id);
+
+    try {
+      if (stage.condition && !(await stage.condition(stageInput, context))) {
+        outputs.set(stage.id, stageInput);
+        markSkipped(stage.id, 'condition not met');
+        return;
+      }
+    } catch (conditionError) {
+      statuses.set(stage.id, 'failed');
+      flowErrors.push({
+        type: 'condition_error',
+        code: 'stage_condition_failed',
+        message: `Condition for stage "${stage.id}" threw: ${conditionError instanceof Error ? conditionError.message : 'Unknown error'}`,
+        timestamp: new Date(),
+        affectedStages: [stage.id],
+        recoverable: false,
+        originalError: conditionError,
+      });
+      return;
+    }
+
+    const orderIndex =
+      executionOrder.push({
+        stageId: stage.id,
+        stageName: stage.name,
+        startTime: new Date(),
+        resolvedDependencies: dependenciesOf(stage.id),
+      }) - 1;
+
+    const result = await executeAndRecordStage(
+      runner,
+      stage,
+      stageInput,
+      settings.sessionId !== undefined ? { sessionId: settings.sessionId } : {}
+    );
+
+    executionOrder[orderIndex] = {
+      ...(executionOrder[orderIndex] as StageExecutionOrder),
+      endTime: result.endTime,
+    };
+
+    if (haltsAfterRecovery(result)) {
+      haltedByRecovery = true;
+    }
+    if (result.success) {
+      await controller.markStageCompleted(stage.id, result);
+    } else if (isSkippedByRecovery(result)) {
+      stageResults[stage.id] = result;
+      outputs.set(stage.id, stageInput);
+      markSkipped(stage.id, 'recovered by skipping');
+    } else {
+      stageResults[stage.id] = result;
+      await controller.markStageFailed(stage.id, result.error);
+    }
+  };
+
+  const launchStage = (stageId: string): void => {
+    const stage = stagesById.get(stageId);
+    if (!stage) {
+      return;
+    }
+    statuses.set(stageId, 'executing');
+    state.waitingStages.delete(stageId);
+    running.set(
+      stageId,
+      runStage(stage).finally(() => running.delete(stageId))
+    );
+    peakConcurrency = Math.max(peakConcurrency, running.size);
+  };
+
+  const buildMetadata = (): FlowExecutionMetadata => {
+    const endTime = new Date();
+    const executionTimeMs = endTime.getTime() - flowStartTime.getTime();
+    const totalStageTimeMs = Object.values(stageResults).reduce(
+      (total, result) => total + result.metadata.executionTimeMs,
+      0
+    );
+    const avgConcurrency =
+      executionTimeMs > 0
+        ? totalStageTimeMs / executionTimeMs
+        : peakConcurrency;
+    const concurrencyLimit = Math.min(maxConcurrency, pipeline.stages.length);
+
+    return {
+      startTime: flowStartTime,
+      endTime,
+      executionTimeMs,
+      executionMode: 'dag',
+      maxConcurrency: peakConcurrency,
+      avgConcurrency,
+      parallelizationEfficiency:
+        concurrencyLimit > 0
+          ? Math.min(1, avgConcurrency / concurrencyLimit)
+          : 0,
+      dependencyResolutionTimeMs,
+      executionOrder: [...executionOrder],
+    };
+  };
+
+  const findFinalOutput = (): unknown => {
+    const sinks = Object.values(graph.nodes)
+      .filter(
+        node =>
+          node.dependents.length === 0 &&
+          statuses.get(node.stageId) === 'completed'
+      )
+      .map(node => node.stageId);
+
+    if (sinks.length <= 1) {
+      return sinks[0] === undefined ? undefined : outputs.get(sinks[0]);
+    }
+    return Object.fromEntries(
+      sinks.map(stageId => [stageId, outputs.get(stageId)])
+    );
+  };
+
+  const controller: DAGFlowController = {
+    async initialize(_context: PipelineExecutionContext): Promise<void> {
+      phase = 'dependency_analysis';
+      const startedAt = Date.now();
+
+      const validation = validateDAG(pipeline);
+      if (!validation.valid) {
+        phase = 'failed';
+        throw new Error(
+          `Pipeline "${pipeline.id}" has an invalid dependency graph: ${validation.errors
+            .map(validationError => validationError.message)
+            .join(' ')}`
+        );
+      }
+
+      graph = buildDependencyGraph(pipeline);
+      for (const node of Object.values(graph.nodes)) {
+        statuses.set(node.stageId, node.status);
+      }
+      dependencyResolutionTimeMs = Date.now() - startedAt;
+    },
+
+    async execute(): Promise<FlowExecutionResult> {
+      if (phase === 'initializing') {
+        await controller.initialize(context);
+      }
+
+      phase = 'executing';
+      flowStartTime = new Date();
+
+      for (;;) {
+        skipBlockedStages();
+        checkTimeout();
+
+        if (await controller.canContinue()) {
+          for (const stageId of await controller.getNextStages()) {
+            if (running.size >= maxConcurrency) {
+              break;
+            }
+            launchStage(stageId);
+          }
+        }
+
+        if (running.size === 0) {
+          break;
+        }
+        await Promise.race(running.values());
+      }
+
+      for (const stage of pipeline.stages) {
+        if (isWaiting(stage.id)) {
+          markSkipped(stage.id, 'pipeline halted');
+        }
+      }
+
+      const success = countStatus('failed') === 0 && flowErrors.length === 0;
+      phase = success ? 'completed' : 'failed';
+      const finalOutput = findFinalOutput();
+
+      return {
+        success,
+        stageResults: { ...stageResults },
+        skippedStages: [...skippedStages],
+        metadata: buildMetadata(),
+        ...(finalOutput !== undefined && { finalOutput }),
+        ...(flowErrors.length > 0 && { errors: [...flowErrors] }),
+      };
+    },
+
+    async getNextStages(): Promise<ReadonlyArray<string>> {
+      const ready = pipeline.stages
+        .map(stage => stage.id)
+        .filter(
+          stageId =>
+            isWaiting(stageId) && dependenciesOf(stageId).every(hasOutput)
+        );
+      for (const stageId of ready) {
+        statuses.set(stageId, 'ready');
+      }
+      return ready;
+    },
+
+    async markStageCompleted(
+      stageId: string,
+      result: StageResult
+    ): Promise<void> {
+      stageResults[stageId] = result;
+      outputs.set(stageId, result.value);
+      statuses.set(stageId, 'completed');
+    },
+
+    async markStageFailed(stageId: string, error: unknown): Promise<void> {
+      statuses.set(stageId, 'failed');
+      warn('DAG stage failed', {
+        pipelineId: pipeline.id,
+        stageId,
+        error:
+          error instanceof Error
+            ? error.message
+            : (error as { message?: string })?.message,
+        haltingNewStages: stopOnFirstError,
+      });
+    },
+
+    async isComplete(): Promise<boolean> {
+      return [...statuses.values()].every(
+        status =>
+          status === 'completed' || status === 'failed' || status === 'skipped'
+      );
+    },
+
+    async canContinue(): Promise<boolean> {
+      if (timedOut || haltedByRecovery || flowErrors.length > 0) {
+        return false;
+      }
+      return !(stopOnFirstError && countStatus('failed') > 0);
+    },
+
+    async getFlowState(): Promise<FlowState> {
+      const stageIds = pipeline.stages.map(stage => stage.id);
+      const completed = stageIds.filter(
+        id => statuses.get(id) === 'completed'
+      );
+      const failed = stageIds.filter(id => statuses.get(id) === 'failed');
+      const blockedStages: Record<string, ReadonlyArray<string>> = {};
+      for (const stageId of stageIds.filter(isWaiting)) {
+        const unresolved = dependenciesOf(stageId).filter(
+          id => !hasOutput(id)
+        );
+        if (unresolved.length > 0) {
+          blockedStages[stageId] = unresolved;
+        }
+      }
+      const resolvedDependencies = graph.edges.filter(edge =>
+        hasOutput(edge.from)
+      ).length;
+      const executionTimes = Object.values(stageResults).map(
+        result => result.metadata.executionTimeMs
+      );
+      const finished = completed.length + failed.length;
+      const circularDependencies = findCircularDependencies(graph);
+
+      return {
+        phase,
+        readyStages: stageIds.filter(id => statuses.get(id) === 'ready'),
+        executingStages: [...running.keys()],
+        completedStages: completed,
+        failedStages: failed,
+        skippedStages: [...skippedStages],
+        waitingStages: stageIds.filter(id => statuses.get(id) === 'pending'),
+        dependencyState: {
+          totalDependencies: graph.edges.length,
+          resolvedDependencies,
+          unresolvedDependencies: graph.edges.length - resolvedDependencies,
+          blockedStages,
+          ...(circularDependencies.length > 0 && { circularDependencies }),
+          resolutionOrder: getTopologicalOrder(graph),
+          orphanedStages: Object.values(graph.nodes)
+            .filter(
+              node =>
+                node.dependencies.length === 0 && node.dependents.length === 0
+            )
+            .map(node => node.stageId),
+        },
+        activeParallelGroups: [],
+        executionStats: {
+          totalStages: stageIds.length,
+          currentlyExecuting: running.size,
+          completedStages: completed.length,
+          failedStages: failed.length,
+          skippedStages: skippedStages.length,
+          ...(executionTimes.length > 0 && {
+            avgStageExecutionTimeMs:
+              executionTimes.reduce((total, time) => total + time, 0) /
+              executionTimes.length,
+          }),
+          efficiency: finished > 0 ? completed.length / finished : 1,
+          healthScore:
+            stageIds.length > 0 ? 1 - failed.length / stageIds.length : 1,
+        },
+      };
+    },
+
+    async finalize(): Promise<void> {
+      phase = 'finalizing';
+      await Promise.allSettled(running.values());
+      phase =
+        countStatus('failed') === 0 && flowErrors.length === 0
+          ? 'completed'
+          : 'failed';
+    },
+
+    async getDependencyGraph(): Promise<DependencyGraph> {
+      return buildDependencyGraph(pipeline, Object.fromEntries(statuses));
+    },
+
+    async getTopologicalOrder(): Promise<ReadonlyArray<string>> {
+      return getTopologicalOrder(graph);
+    },
+
+    async findCriticalPath(): Promise<ReadonlyArray<string>> {
+      // Before execution every stage counts equally; afterwards use real timings
+      const executed = Object.keys(stageResults).length > 0;
+      return findLongestPath(graph, stageId =>
+        executed ? (stageResults[stageId]?.metadata.executionTimeMs ?? 0) : 1
+      ).path;
+    },
+
+    async getLeafNodes(): Promise<ReadonlyArray<string>> {
+      return Object.values(graph.nodes)
+        .filter(node => node.dependencies.length === 0)
+        .map(node => node.stageId);
+    },
+
+    async getRootNodes(): Promise<ReadonlyArray<string>> {
+      return Object.values(graph.nodes)
+        .filter(node => node.dependents.length === 0)
+        .map(node => node.stageId);
+    },
+
+    async validateDAG(): Promise<DAGValidationResult> {
+      return validateDAG(pipeline);
+    },
+
+    async getOptimizationSuggestions(): Promise<
+      ReadonlyArray<DAGOptimization>
+    > {
+      const suggestions: DAGOptimization[] = [];
+
+      const widestLevel = findWidestLevel(graph);
+      if (widestLevel.length > maxConcurrency) {
+        suggestions.push({
+          type: 'resource_optimization',
+          description: `${widestLevel.length} stages can run at once but maxConcurrency is ${maxConcurrency}.`,
+          benefit: 1 - maxConcurrency / widestLevel.length,
+          complexity: 0.1,
+          affectedStages: widestLevel,
+          implementationSteps: [
+            `Raise flow.maxConcurrency to ${widestLevel.length} if the provider's rate limits allow it.`,
+          ],
+        });
+      }
+
+      for (const edge of findRedundantDependencies(graph)) {
+        suggestions.push({
+          type: 'dependency_reduction',
+          description: `"${edge.to}" already depends on "${edge.from}" through other stages.`,
+          benefit: 0.1,
+          complexity: 0.1,
+          affectedStages: [edge.from, edge.to],
+          implementationSteps: [
+            `Remove "${edge.from}" from flow.dependencies["${edge.to}"].`,
+          ],
+        });
+      }
+
+      return suggestions;
+    },
+  };
+
+  return controller;
+}
+
+/**
+ * Finds the largest set of stages that share the same dependency depth
+ */
+function findWidestLevel(graph: DependencyGraph): string[] {
+  const depth = new Map<string, number>();
+  const levels = new Map<number, string[]>();
+
+  for (const stageId of getTopologicalOrder(graph)) {
+    const level = Math.max(
+      0,
+      ...(graph.nodes[stageId]?.dependencies ?? []).map(
+        dependencyId => (depth.get(dependencyId) ?? 0) + 1
+      )
+    );
+    depth.set(stageId, level);
+    levels.set(level, [...(levels.get(level) ?? []), stageId]);
+  }
+
+  let widest: string[] = [];
+  for (const stageIds of levels.values()) {
+    if (stageIds.length > widest.length) {
+      widest = stageIds;
+    }
+  }
+  return widest;
+}
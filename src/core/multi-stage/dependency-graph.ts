@@ -0,0 +1,420 @@
+/**
+ * Dependency Graph Utilities for DAG Pipelines
+ *
+ * Builds a DependencyGraph from `PipelineFlow.dependencies`, validates it for
+ * missing stages and cycles, and provides graph queries (topological order,
+ * longest weighted path, redundant edges) used by the DAG flow controller.
+ */
+
+import type {
+  CircularDependency,
+  DAGValidationError,
+  DAGValidationResult,
+  DAGValidationWarning,
+  DependencyGraph,
+  DependencyGraphEdge,
+  DependencyGraphNode,
+} from '../../types/flow.js';
+import type { Pipeline } from '../../types/multi-stage.js';
+
+/**
+ * Node status lookup used when snapshotting a graph mid-execution
+ */
+export type DependencyNodeStatuses = Readonly<
+  Record<string, DependencyGraphNode['status']>
+>;
+
+/**
+ * Builds the dependency graph for a pipeline
+ *
+ * Edges point from a dependency to the stage that depends on it. References
+ * to unknown stages are left out of the graph; validateDAG() reports them.
+ *
+ * @param pipeline Pipeline whose `flow.dependencies` describe the graph
+ * @param statuses Optional node statuses (defaults to ready/pending)
+ * @returns Dependency graph with node, edge and shape metadata
+ */
+export function buildDependencyGraph(
+  pipeline: Pipeline,
+  statuses: DependencyNodeStatuses = {}
+): DependencyGraph {
+  return createDependencyGraph(
+    pipeline.stages,
+    pipeline.flow.dependencies ?? {},
+    statuses
+  );
+}
+
+/**
+ * Builds a dependency graph from stage identities and a dependency map
+ *
+ * @param stages Stages in definition order
+ * @param stageDependencies Map of stage ID to the stage IDs it depends on
+ * @param statuses Optional node statuses (defaults to ready/pending)
+ * @returns Dependency graph with node, edge and shape metadata
+ */
+export function createDependencyGraph(
+  stages: ReadonlyArray<{ readonly id: string; readonly name: string }>,
+  stageDependencies: Readonly<Record<string, ReadonlyArray<string>>>,
+  statuses: DependencyNodeStatuses = {}
+): DependencyGraph {
+  const stageIds = new Set(stages.map(stage => stage.id));
+  const dependencies = new Map<string, string[]>();
+  const dependents = new Map<string, string[]>();
+  const edges: DependencyGraphEdge[] = [];
+
+  for (const stage of stages) {
+    dependencies.set(stage.id, []);
+    dependents.set(stage.id, []);
+  }
+
+  for (const stage of stages) {
+    for (const dependencyId of new Set(stageDependencies[stage.id] ?? [])) {
+      if (!stageIds.has(dependencyId)) {
+        continue;
+      }
+      dependencies.get(stage.id)?.push(dependencyId);
+      dependents.get(dependencyId)?.push(stage.id);
+      edges.push({ from: dependencyId, to: stage.id, type: 'data_dependency' });
+    }
+  }
+
+  const nodes: Record<string, DependencyGraphNode> = {};
+  for (const stage of stages) {
+    const nodeDependencies = dependencies.get(stage.id) ?? [];
+    nodes[stage.id] = {
+      stageId: stage.id,
+      stageName: stage.name,
+      dependencies: nodeDependencies,
+      dependents: dependents.get(stage.id) ?? [],
+      status:
+        statuses[stage.id] ??
+        (nodeDependencies.length === 0 ? 'ready' : 'pending'),
+      metadata: {},
+    };
+  }
+
+  const nodeCount = stages.length;
+  const graph: DependencyGraph = {
+    nodes,
+    edges,
+    metadata: {
+      nodeCount,
+      edgeCount: edges.length,
+      complexity: nodeCount === 0 ? 0 : edges.length / nodeCount,
+      maxDepth: 0,
+      density: nodeCount > 1 ? edges.length / (nodeCount * (nodeCount - 1)) : 0,
+    },
+  };
+
+  // Depth is only meaningful for acyclic graphs
+  const hasCycles = findCircularDependencies(graph).length > 0;
+  return hasCycles
+    ? graph
+    : {
+        ...graph,
+        metadata: {
+          ...graph.metadata,
+          maxDepth: findLongestPath(graph, () => 1).path.length,
+        },
+      };
+}
+
+/**
+ * Validates a pipeline's dependency declarations as a DAG
+ *
+ * Reports dependencies on unknown stages and every distinct cycle as errors.
+ * Orphaned stages and dependencies already implied transitively are reported
+ * as warnings because they do not prevent execution.
+ *
+ * @param pipeline Pipeline to validate
+ * @returns DAG validation result with errors, warnings and suggested fixes
+ */
+export function validateDAG(pipeline: Pipeline): DAGValidationResult {
+  const errors: DAGValidationError[] = [];
+  const warnings: DAGValidationWarning[] = [];
+  const suggestedFixes: string[] = [];
+  const stageIds = new Set(pipeline.stages.map(stage => stage.id));
+
+  for (const [stageId, stageDependencies] of Object.entries(
+    pipeline.flow.dependencies ?? {}
+  )) {
+    if (!stageIds.has(stageId)) {
+      errors.push({
+        type: 'missing_stage',
+        message: `Dependencies are declared for unknown stage "${stageId}".`,
+        affectedStages: [stageId],
+        severity: 'error',
+      });
+      suggestedFixes.push(
+        `Add a stage with id "${stageId}" or remove its entry from flow.dependencies.`
+      );
+      continue;
+    }
+
+    for (const dependencyId of stageDependencies) {
+      if (!stageIds.has(dependencyId)) {
+        errors.push({
+          type: 'missing_stage',
+          message: `Stage "${stageId}" depends on unknown stage "${dependencyId}".`,
+          affectedStages: [stageId, dependencyId],
+          severity: 'error',
+        });
+        suggestedFixes.push(
+          `Add a stage with id "${dependencyId}" or remove it from the dependencies of "${stageId}".`
+        );
+      }
+    }
+  }
+
+  const graph = buildDependencyGraph(pipeline);
+
+  for (const cycle of findCircularDependencies(graph)) {
+    errors.push({
+      type: 'circular_dependency',
+      message: `Circular dependency detected: ${formatCycle(cycle)}.`,
+      affectedStages: cycle.involvedStages,
+      severity: 'error',
+    });
+    suggestedFixes.push(...cycle.resolutionStrategies);
+  }
+
+  if (pipeline.stages.length > 1) {
+    for (const node of Object.values(graph.nodes)) {
+      if (node.dependencies.length === 0 && node.dependents.length === 0) {
+        warnings.push({
+          type: 'orphaned_stage',
+          message: `Stage "${node.stageId}" has no dependencies and no dependents.`,
+          affectedStages: [node.stageId],
+          suggestedAction:
+            'Confirm the stage is meant to run independently of the rest of the pipeline.',
+        });
+      }
+    }
+  }
+
+  if (errors.length === 0) {
+    for (const edge of findRedundantDependencies(graph)) {
+      warnings.push({
+        type: 'redundant_dependency',
+        message: `Stage "${edge.to}" depends on "${edge.from}" both directly and through other stages.`,
+        affectedStages: [edge.from, edge.to],
+        suggestedAction: `Remove "${edge.from}" from the dependencies of "${edge.to}".`,
+      });
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    suggestedFixes,
+  };
+}
+
+/**
+ * Finds every distinct dependency cycle in the graph
+ *
+ * @param graph Dependency graph to inspect
+ * @returns Circular dependencies, each listing the stages and links involved
+ */
+export function findCircularDependencies(
+  graph: DependencyGraph
+): CircularDependency[] {
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const path: string[] = [];
+  const seenCycles = new Set<string>();
+  const cycles: CircularDependency[] = [];
+
+  const visit = (stageId: string): void => {
+    visiting.add(stageId);
+    path.push(stageId);
+
+    for (const dependentId of graph.nodes[stageId]?.dependents ?? []) {
+      if (visiting.has(dependentId)) {
+        const involvedStages = path.slice(path.indexOf(dependentId));
+        const key = [...involvedStages].sort().join('|');
+        if (!seenCycles.has(key)) {
+          seenCycles.add(key);
+          cycles.push(createCircularDependency(involvedStages));
+        }
+      } else if (!visited.has(dependentId)) {
+        visit(dependentId);
+      }
+    }
+
+    path.pop();
+    visiting.delete(stageId);
+    visited.add(stageId);
+  };
+
+  for (const stageId of Object.keys(graph.nodes)) {
+    if (!visited.has(stageId)) {
+      visit(stageId);
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Orders stages so every stage comes after all of its dependencies
+ *
+ * Ties are broken by definition order so the result is deterministic. Stages
+ * on a cycle never become ready and are omitted from the result.
+ *
+ * @param graph Dependency graph to sort
+ * @returns Stage IDs in topological order
+ */
+export function getTopologicalOrder(graph: DependencyGraph): string[] {
+  const remaining = new Map(
+    Object.values(graph.nodes).map(node => [
+      node.stageId,
+      node.dependencies.length,
+    ])
+  );
+  const order: string[] = [];
+
+  let ready = [...remaining]
+    .filter(([, count]) => count === 0)
+    .map(([id]) => id);
+  while (ready.length > 0) {
+    const next: string[] = [];
+    for (const stageId of ready) {
+      order.push(stageId);
+      for (const dependentId of graph.nodes[stageId]?.dependents ?? []) {
+        const count = (remaining.get(dependentId) ?? 0) - 1;
+        remaining.set(dependentId, count);
+        if (count === 0) {
+          next.push(dependentId);
+        }
+      }
+    }
+    ready = next;
+  }
+
+  return order;
+}
+
+/**
+ * Finds the heaviest dependency chain through an acyclic graph
+ *
+ * @param graph Acyclic dependency graph
+ * @param weight Weight of each stage (e.g. 1 for depth, execution time for duration)
+ * @returns Stages on the heaviest path in execution order and its total weight
+ */
+export function findLongestPath(
+  graph: DependencyGraph,
+  weight: (stageId: string) => number
+): { readonly path: string[]; readonly totalWeight: number } {
+  const best = new Map<string, { total: number; previous?: string }>();
+
+  for (const stageId of getTopologicalOrder(graph)) {
+    let previous: string | undefined;
+    let previousTotal = 0;
+    for (const dependencyId of graph.nodes[stageId]?.dependencies ?? []) {
+      const dependencyTotal = best.get(dependencyId)?.total ?? 0;
+      if (previous === undefined || dependencyTotal > previousTotal) {
+        previous = dependencyId;
+        previousTotal = dependencyTotal;
+      }
+    }
+    best.set(stageId, {
+      total: previousTotal + weight(stageId),
+      ...(previous !== undefined && { previous }),
+    });
+  }
+
+  let end: string | undefined;
+  let totalWeight = 0;
+  for (const [stageId, entry] of best) {
+    if (end === undefined || entry.total > totalWeight) {
+      end = stageId;
+      totalWeight = entry.total;
+    }
+  }
+
+  const path: string[] = [];
+  for (
+    let current = end;
+    current !== undefined;
+    current = best.get(current)?.previous
+  ) {
+    path.unshift(current);
+  }
+
+  return { path, totalWeight };
+}
+
+/**
+ * Finds dependency edges already implied by a longer dependency chain
+ *
+ * @param graph Acyclic dependency graph
+ * @returns Edges that can be removed without changing execution order
+ */
+export function findRedundantDependencies(
+  graph: DependencyGraph
+): DependencyGraphEdge[] {
+  return graph.edges.filter(edge =>
+    (graph.nodes[edge.to]?.dependencies ?? []).some(
+      otherId => otherId !== edge.from && dependsOn(graph, otherId, edge.from)
+    )
+  );
+}
+
+/**
+ * Checks whether a stage transitively depends on another stage
+ */
+function dependsOn(
+  graph: DependencyGraph,
+  stageId: string,
+  targetId: string
+): boolean {
+  const stack = [stageId];
+  const seen = new Set<string>();
+
+  while (stack.length > 0) {
+    const current = stack.pop() as string;
+    for (const dependencyId of graph.nodes[current]?.dependencies ?? []) {
+      if (dependencyId === targetId) {
+        return true;
+      }
+      if (!seen.has(dependencyId)) {
+        seen.add(dependencyId);
+        stack.push(dependencyId);
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Describes a cycle found during graph traversal
+ */
+function createCircularDependency(
+  involvedStages: ReadonlyArray<string>
+): CircularDependency {
+  const dependencyChain = involvedStages.map((from, index) => ({
+    from,
+    to: involvedStages[(index + 1) % involvedStages.length] as string,
+    type: 'data_dependency' as const,
+  }));
+
+  return {
+    involvedStages,
+    dependencyChain,
+    resolutionStrategies: dependencyChain.map(
+      link =>
+        `Remove "${link.from}" from the dependencies of "${link.to}" to break the cycle.`
+    ),
+  };
+}
+
+/**
+ * Formats a cycle as "a -> b -> a"
+ */
+function formatCycle(cycle: CircularDependency): string {
+  return [...cycle.involvedStages, cycle.involvedStages[0]].join(' -> ');
+}
@@ -0,0 +1,561 @@
+/**
+ * Error Recovery for Multi-Stage Pipelines
+ *
+ * Applies a stage's `errorRecovery` configuration after it fails (skip, fall
+ * back to a schema-checked value, re-run then fall back, or a custom recovery
+ * function), and the pipeline-level `errorHandling.recoveryStrategies` after a
+ * run fails, so one flaky stage does not have to sink the whole run.
+ */
+
+import type {
+  BudgetError,
+  ProviderError,
+  ValidationError,
+} from '../../types/errors.js';
+import type {
+  Pipeline,
+  PipelineError,
+  PipelineExecutionContext,
+  PipelineRecoveryAttempt,
+  PipelineRecoveryStrategy,
+  PipelineResult,
+  PipelineStage,
+  StageErrorRecovery,
+  StageRecoveryInfo,
+  StageResult,
+} from '../../types/multi-stage.js';
+import type { TokenUsage } from '../../types/pipeline.js';
+import { debug, info, warn } from '../../utils/logger.js';
+import { addTokenUsage } from '../runner/execution-engine.js';
+import type { RunnerExecutionContext } from './execution-context.js';
+
+type StageError = ValidationError | ProviderError | BudgetError;
+
+/**
+ * Applies a stage's errorRecovery configuration to a failed stage result
+ *
+ * - `skip`: the stage stays unsuccessful but is skipped, so its input flows on
+ *   to the next stage instead of failing the pipeline.
+ * - `fallback`: the stage succeeds with `fallbackValue`, which must match the
+ *   stage schema.
+ * - `retry_with_fallback`: the stage is re-executed up to
+ *   `maxRecoveryAttempts` times (default 1), then falls back to
+ *   `fallbackValue`.
+ * - `custom`: `customRecovery` is called up to `maxRecoveryAttempts` times
+ *   until it returns a value matching the stage schema; `null` means it could
+ *   not recover.
+ *
+ * Recovery only applies when `errorHandling.recoverableErrors` is unset
+ * or lists the error's code or type. The returned result carries a `recovery`
+ * record describing what happened.
+ *
+ * @param stage Stage that failed
+ * @param failed Failed stage result
+ * @param previousOutput Value the stage received before transformInput
+ * @param context Shared pipeline execution context
+ * @param rerun Re-executes the stage with the same input
+ * @returns Recovered result, or the failed result annotated with the attempt
+ */
+export async function recoverStage(
+  stage: PipelineStage,
+  failed: StageResult,
+  previousOutput: unknown,
+  context: PipelineExecutionContext,
+  rerun: () => Promise<StageResult>
+): Promise<StageResult> {
+  const recovery = stage.errorRecovery as
+    | StageErrorRecovery<unknown, unknown>
+    | undefined;
+  const originalError = failed.error;
+  if (
+    failed.success ||
+    !recovery ||
+    !originalError ||
+    !isRecoverable(originalError, context.pipeline)
+  ) {
+    return failed;
+  }
+
+  debug('Recovering failed pipeline stage', {
+    pipelineId: context.pipeline.id,
+    stageId: stage.id,
+    strategy: recovery.strategy,
+    errorCode: originalError.code,
+  });
+
+  const maxAttempts = Math.max(1, recovery.maxRecoveryAttempts ?? 1);
+  const continuePipeline = recovery.continueOnRecovery ?? true;
+  const base = {
+    strategy: recovery.strategy,
+    originalError,
+    continuePipeline,
+  };
+  let latest = failed;
+  let attempts = 0;
+  let outcome: StageResult;
+
+  switch (recovery.strategy) {
+    case 'skip':
+      outcome = {
+        ...failed,
+        recovery: { ...base, recovered: true, source: 'skip', attempts },
+      };
+      break;
+
+    case 'fallback':
+      outcome = applyFallback(stage, recovery, failed, latest, base, attempts);
+      break;
+
+    case 'retry_with_fallback': {
+      const history: StageResult[] = [failed];
+      while (attempts < maxAttempts) {
+        attempts++;
+        latest = await rerun();
+        history.push(latest);
+        if (latest.success) {
+          break;
+        }
+      }
+      if (latest.success) {
+        outcome = {
+          ...mergeAttempts(history, latest),
+          recovery: { ...base, recovered: true, source: 'retry', attempts },
+        };
+        break;
+      }
+      outcome = applyFallback(
+        stage,
+        recovery,
+        mergeAttempts(history, latest),
+        latest,
+        base,
+        attempts
+      );
+      break;
+    }
+
+    case 'custom':
+      outcome = await applyCustomRecovery(
+        stage,
+        recovery,
+        failed,
+        previousOutput,
+        context,
+        base,
+        maxAttempts
+      );
+      break;
+
+    default:
+      outcome = {
+        ...failed,
+        recovery: {
+          ...base,
+          recovered: false,
+          attempts,
+          failureReason: `Unknown recovery strategy "${String(recovery.strategy)}"`,
+        },
+      };
+  }
+
+  if (outcome.recovery?.recovered) {
+    info('Recovered failed pipeline stage', {
+      pipelineId: context.pipeline.id,
+      stageId: stage.id,
+      strategy: recovery.strategy,
+      source: outcome.recovery.source,
+      attempts: outcome.recovery.attempts,
+      continuePipeline,
+    });
+  } else {
+    warn('Pipeline stage recovery failed', {
+      pipelineId: context.pipeline.id,
+      stageId: stage.id,
+      strategy: recovery.strategy,
+      reason: outcome.recovery?.failureReason,
+    });
+  }
+
+  return outcome;
+}
+
+/**
+ * Returns true when a stage result was recovered by skipping the stage
+ *
+ * @param result Stage result returned by executeAndRecordStage()
+ * @returns Whether the stage should be treated as skipped
+ */
+export function isSkippedByRecovery(result: StageResult): boolean {
+  return !result.success && result.recovery?.recovered === true;
+}
+
+/**
+ * Returns true when a recovered stage asked the pipeline to stop after it
+ *
+ * @param result Stage result returned by executeAndRecordStage()
+ * @returns Whether no further stages should start
+ */
+export function haltsAfterRecovery(result: StageResult): boolean {
+  return (
+    result.recovery?.recovered === true && !result.recovery.continuePipeline
+  );
+}
+
+/**
+ * Checks a stage's errorRecovery configuration before the run starts
+ *
+ * @param stage Stage to check
+ * @returns Actionable error messages (empty when the configuration is valid)
+ */
+export function validateStageRecovery(stage: PipelineStage): string[] {
+  const recovery = stage.errorRecovery;
+  if (!recovery) {
+    return [];
+  }
+
+  const errors: string[] = [];
+  const needsFallback =
+    recovery.strategy === 'fallback' ||
+    recovery.strategy === 'retry_with_fallback';
+
+  if (needsFallback && recovery.fallbackValue === undefined) {
+    errors.push(
+      `Stage "${stage.id}" uses the "${recovery.strategy}" recovery strategy but has no errorRecovery.fallbackValue.`
+    );
+  }
+  if (
+    recovery.fallbackValue !== undefined &&
+    typeof stage.schema?.safeParse === 'function'
+  ) {
+    const parsed = stage.schema.safeParse(recovery.fallbackValue);
+    if (!parsed.success) {
+      errors.push(
+        `Stage "${stage.id}" errorRecovery.fallbackValue does not match the stage schema: ${formatIssues(parsed.error.issues)}`
+      );
+    }
+  }
+  if (recovery.strategy === 'custom' && !recovery.customRecovery) {
+    errors.push(
+      `Stage "${stage.id}" uses the "custom" recovery strategy but has no errorRecovery.customRecovery function.`
+    );
+  }
+  const maxAttempts = recovery.maxRecoveryAttempts;
+  if (
+    maxAttempts !== undefined &&
+    (!Number.isInteger(maxAttempts) || maxAttempts < 1)
+  ) {
+    errors.push(
+      `Stage "${stage.id}" errorRecovery.maxRecoveryAttempts must be a positive integer (received ${maxAttempts}).`
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Applies pipeline-level recovery strategies to a failed pipeline result
+ *
+ * Strategies from the pipeline's `errorHandling.recoveryStrategies` are tried from
+ * highest to lowest `priority` (definition order breaks ties) while the run is
+ * still failing. A strategy applies when its `condition` returns true; a
+ * successful recovery clears the stages listed in `recoveredStages` (all
+ * failed stages when omitted). When it returns a `modifiedPipeline`, that
+ * pipeline is executed through `rerun` and its result replaces the current
+ * one if it succeeds. Throwing strategies are logged and treated as
+ * unsuccessful. Set `errorHandling.enablePipelineRecovery` to false to turn
+ * pipeline-level recovery off.
+ *
+ * @param result Result of the failed run
+ * @param runner Execution context and writable state for the run
+ * @param rerun Executes a modified pipeline with the original input
+ * @returns The result after recovery, with the strategies tried recorded in `recoveryAttempts`
+ */
+export async function applyPipelineRecovery(
+  result: PipelineResult,
+  runner: RunnerExecutionContext,
+  rerun: (pipeline: Pipeline) => Promise<PipelineResult>
+): Promise<PipelineResult> {
+  const { context, state } = runner;
+  const errorHandling = context.pipeline.errorHandling;
+  if (
+    result.success ||
+    !result.error ||
+    errorHandling?.enablePipelineRecovery === false
+  ) {
+    return result;
+  }
+
+  const strategies = sortByPriority(errorHandling?.recoveryStrategies ?? []);
+  const recoveryAttempts: PipelineRecoveryAttempt[] = [];
+  let error: PipelineError = result.error;
+
+  for (const strategy of strategies) {
+    let attempt: PipelineRecoveryAttempt;
+    try {
+      if (!(await strategy.condition(error, context))) {
+        continue;
+      }
+      const recovery = await strategy.recover(error, context);
+
+      if (recovery.success && recovery.modifiedPipeline) {
+        const rerunResult = await rerun(recovery.modifiedPipeline);
+        recoveryAttempts.push({
+          strategy: strategy.name,
+          success: rerunResult.success,
+          recoveredStages: rerunResult.success ? error.failedStages : [],
+          reran: true,
+          ...(rerunResult.error && { error: rerunResult.error }),
+        });
+        if (rerunResult.success) {
+          info('Pipeline recovered by re-running a modified pipeline', {
+            pipelineId: context.pipeline.id,
+            strategy: strategy.name,
+          });
+          return { ...rerunResult, recoveryAttempts };
+        }
+        continue;
+      }
+
+      const recoveredStages = recovery.success
+        ? (recovery.recoveredStages ?? error.failedStages)
+        : [];
+      attempt = {
+        strategy: strategy.name,
+        success: recovery.success,
+        recoveredStages,
+        reran: false,
+        ...(recovery.error && { error: recovery.error }),
+      };
+    } catch (strategyError) {
+      warn('Pipeline recovery strategy threw', {
+        pipelineId: context.pipeline.id,
+        strategy: strategy.name,
+        error:
+          strategyError instanceof Error
+            ? strategyError.message
+            : String(strategyError),
+      });
+      attempt = {
+        strategy: strategy.name,
+        success: false,
+        recoveredStages: [],
+        reran: false,
+      };
+    }
+
+    recoveryAttempts.push(attempt);
+    if (!attempt.success) {
+      continue;
+    }
+
+    const remaining = error.failedStages.filter(
+      stageId => !attempt.recoveredStages.includes(stageId)
+    );
+    if (remaining.length === 0) {
+      info('Pipeline recovered', {
+        pipelineId: context.pipeline.id,
+        strategy: strategy.name,
+        recoveredStages: attempt.recoveredStages,
+      });
+      state.status = 'completed';
+      state.phase = 'completing';
+      const { error: _recovered, ...recoveredResult } = result;
+      return { ...recoveredResult, success: true, recoveryAttempts };
+    }
+    error = { ...error, failedStages: remaining };
+  }
+
+  if (recoveryAttempts.length === 0) {
+    return result;
+  }
+  return { ...result, error, recoveryAttempts };
+}
+
+/**
+ * Uses the stage's fallbackValue if it matches the stage schema
+ */
+function applyFallback(
+  stage: PipelineStage,
+  recovery: StageErrorRecovery<unknown, unknown>,
+  merged: StageResult,
+  latest: StageResult,
+  base: Pick<
+    StageRecoveryInfo,
+    'strategy' | 'originalError' | 'continuePipeline'
+  >,
+  attempts: number
+): StageResult {
+  const failure = (failureReason: string): StageResult => ({
+    ...merged,
+    success: false,
+    ...(latest.error && { error: latest.error }),
+    recovery: { ...base, recovered: false, attempts, failureReason },
+  });
+
+  if (recovery.fallbackValue === undefined) {
+    return failure('No errorRecovery.fallbackValue is configured');
+  }
+  const parsed = stage.schema.safeParse(recovery.fallbackValue);
+  if (!parsed.success) {
+    return failure(
+      `fallbackValue does not match the stage schema: ${formatIssues(parsed.error.issues)}`
+    );
+  }
+
+  return toRecoveredResult(merged, parsed.data, {
+    ...base,
+    recovered: true,
+    source: 'fallback',
+    attempts,
+  });
+}
+
+/**
+ * Calls customRecovery until it returns a value matching the stage schema
+ */
+async function applyCustomRecovery(
+  stage: PipelineStage,
+  recovery: StageErrorRecovery<unknown, unknown>,
+  failed: StageResult,
+  previousOutput: unknown,
+  context: PipelineExecutionContext,
+  base: Pick<
+    StageRecoveryInfo,
+    'strategy' | 'originalError' | 'continuePipeline'
+  >,
+  maxAttempts: number
+): Promise<StageResult> {
+  const error = base.originalError;
+  let failureReason = 'No errorRecovery.customRecovery function is configured';
+  let attempts = 0;
+
+  if (recovery.customRecovery) {
+    while (attempts < maxAttempts) {
+      attempts++;
+      try {
+        const value = await recovery.customRecovery(
+          error,
+          previousOutput,
+          context
+        );
+        if (value === null) {
+          failureReason = 'customRecovery returned null';
+          continue;
+        }
+        const parsed = stage.schema.safeParse(value);
+        if (!parsed.success) {
+          failureReason = `customRecovery value does not match the stage schema: ${formatIssues(parsed.error.issues)}`;
+          continue;
+        }
+        return toRecoveredResult(failed, parsed.data, {
+          ...base,
+          recovered: true,
+          source: 'custom',
+          attempts,
+        });
+      } catch (recoveryError) {
+        failureReason = `customRecovery threw: ${recoveryError instanceof Error ? recoveryError.message : 'Unknown error'}`;
+      }
+    }
+  }
+
+  return {
+    ...failed,
+    recovery: { ...base, recovered: false, attempts, failureReason },
+  };
+}
+
+/**
+ * Turns a failed result into a successful one carrying a recovered value
+ */
+function toRecoveredResult(
+  failed: StageResult,
+  value: unknown,
+  recovery: StageRecoveryInfo
+): StageResult {
+  const { error: _error, ...rest } = failed;
+  return { ...rest, success: true, value, recovery };
+}
+
+/**
+ * Combines the original failure and its re-executions into one stage result
+ *
+ * Timing spans every attempt and token usage is summed, so the run metadata
+ * reflects the real cost of recovering the stage.
+ */
+function mergeAttempts(
+  history: ReadonlyArray<StageResult>,
+  latest: StageResult
+): StageResult {
+  const first = history[0] ?? latest;
+  const executionTimeMs = latest.endTime.getTime() - first.startTime.getTime();
+  const validationAttempts = history.reduce(
+    (total, result) => total + result.metadata.stageMetrics.validationAttempts,
+    0
+  );
+  let tokenUsage: TokenUsage | undefined;
+  for (const result of history) {
+    tokenUsage = addTokenUsage(tokenUsage, result.metadata.tokenUsage);
+  }
+
+  return {
+    ...latest,
+    startTime: first.startTime,
+    metadata: {
+      ...latest.metadata,
+      executionTimeMs,
+      startedAt: first.startTime,
+      ...(tokenUsage && { tokenUsage }),
+      stageMetrics: {
+        ...latest.metadata.stageMetrics,
+        executionTimeMs,
+        retryAttempts: Math.max(0, validationAttempts - 1),
+        validationAttempts,
+      },
+    },
+  };
+}
+
+/**
+ * Checks the error against the pipeline's errorHandling.recoverableErrors
+ */
+function isRecoverable(error: StageError, pipeline: Pipeline): boolean {
+  const recoverableErrors = pipeline.errorHandling?.recoverableErrors;
+  if (!recoverableErrors) {
+    return true;
+  }
+  return (
+    recoverableErrors.includes(error.code) ||
+    recoverableErrors.includes(error.type)
+  );
+}
+
+/**
+ * Sorts strategies by descending priority, keeping definition order for ties
+ */
+function sortByPriority(
+  strategies: ReadonlyArray<PipelineRecoveryStrategy>
+): PipelineRecoveryStrategy[] {
+  return strategies
+    .map((strategy, index) => ({ strategy, index }))
+    .sort(
+      (a, b) =>
+        (b.strategy.priority ?? 0) - (a.strategy.priority ?? 0) ||
+        a.index - b.index
+    )
+    .map(({ strategy }) => strategy);
+}
+
+function formatIssues(
+  issues: ReadonlyArray<{
+    readonly path: ReadonlyArray<PropertyKey>;
+    readonly message: string;
+  }>
+): string {
+  return issues
+    .map(
+      issue =>
+        `${issue.path.map(String).join('.') || '(root)'}: ${issue.message}`
+    )
+    .join('; ');
+}
@@ -0,0 +1,245 @@
+/**
+ * Execution Context for Multi-Stage Pipelines
+ *
+ * Builds the shared PipelineExecutionContext handed to stage callbacks
+ * (transformInput, condition, recovery). The context exposes live execution
+ * state so later stages can read the outputs of stages that already ran.
+ */
+
+import {
+  attachTerminalDisplay,
+  createProgressTracker,
+} from '../../progress/index.js';
+import { createFileReviewManager } from '../../review/manager.js';
+import type {
+  Logger,
+  Pipeline,
+  PipelineExecutionContext,
+  PipelineExecutionMetadata,
+  PipelineExecutionOptions,
+  PipelineExecutionState,
+  PipelineSessionManager,
+  ProgressTracker,
+  ReviewManager,
+} from '../../types/multi-stage.js';
+import type { ProviderAdapter } from '../../types/provider.js';
+import { debug, info, error as logError, warn } from '../../utils/logger.js';
+
+/**
+ * Mutable view of the execution state used internally by the runner
+ *
+ * Stage callbacks receive the readonly PipelineExecutionState; the runner
+ * keeps the writable reference and updates it in place as stages finish.
+ */
+export type MutablePipelineExecutionState = {
+  -readonly [K in keyof PipelineExecutionState]: PipelineExecutionState[K];
+};
+
+/**
+ * Mutable view of the pipeline metadata accumulator
+ */
+export type MutablePipelineExecutionMetadata = {
+  -readonly [K in keyof PipelineExecutionMetadata]: PipelineExecutionMetadata[K];
+};
+
+/**
+ * Services that can be swapped in when creating an execution context
+ */
+export interface ExecutionContextServices {
+  readonly sessionManager?: PipelineSessionManager;
+  readonly progressTracker?: ProgressTracker;
+  readonly reviewManager?: ReviewManager;
+  readonly logger?: Logger;
+}
+
+/**
+ * Execution context plus the writable handles the runner needs
+ */
+export interface RunnerExecutionContext {
+  readonly context: PipelineExecutionContext;
+  readonly state: MutablePipelineExecutionState;
+  readonly metadata: MutablePipelineExecutionMetadata;
+}
+
+/**
+ * Creates the execution context for a pipeline run
+ *
+ * @param pipeline Pipeline being executed
+ * @param input Pipeline input data
+ * @param provider Provider adapter used for every stage
+ * @param options Execution options for this run
+ * @param services Optional service overrides (defaults are in-memory, except
+ *                 reviews, which are kept in ~/.persuader/reviews)
+ * @returns Context shared with stage callbacks and its writable handles
+ */
+export function createExecutionContext(
+  pipeline: Pipeline,
+  input: unknown,
+  provider: ProviderAdapter,
+  options: PipelineExecutionOptions,
+  services: ExecutionContextServices = {}
+): RunnerExecutionContext {
+  const startTime = new Date();
+
+  const state: MutablePipelineExecutionState = {
+    completedStages: {},
+    failedStages: {},
+    waitingStages: new Set(pipeline.stages.map(stage => stage.id)),
+    executingStages: new Set(),
+    status: 'pending',
+    startTime,
+    phase: 'initializing',
+    input,
+  };
+
+  const metadata: MutablePipelineExecutionMetadata = {
+    executionTimeMs: 0,
+    startedAt: startTime,
+    completedAt: startTime,
+    provider: provider.name,
+    stageCount: pipeline.stages.length,
+    completedStages: 0,
+    failedStages: 0,
+  };
+
+  const context: PipelineExecutionContext = {
+    pipeline,
+    state,
+    provider,
+    sessionManager:
+      services.sessionManager ?? createPipelineSessionManager(provider),
+    metadata,
+    progressTracker:
+      services.progressTracker ??
+      createDefaultProgressTracker(pipeline, options),
+    // Stages requiring review wait for a decision in the default review store
+    reviewManager: services.reviewManager ?? createFileReviewManager(),
+    logger: services.logger ?? createPipelineLogger(pipeline.id),
+    input,
+    options,
+  };
+
+  return { context, state, metadata };
+}
+
+/**
+ * Creates an in-memory session manager backed by the provider's sessions
+ *
+ * Sessions are created through the provider when it supports them, so stages
+ * that share a session also share the provider-side conversation. Providers
+ * without session support get locally generated IDs that only track context.
+ *
+ * @param provider Provider adapter used to create and destroy sessions
+ * @returns Pipeline session manager
+ */
+export function createPipelineSessionManager(
+  provider: ProviderAdapter
+): PipelineSessionManager {
+  const contexts = new Map<string, string>();
+  const providerSessions = new Set<string>();
+
+  return {
+    async createSession(context: string): Promise<string> {
+      if (provider.supportsSession && provider.createSession) {
+        const sessionId = await provider.createSession(context);
+        providerSessions.add(sessionId);
+        contexts.set(sessionId, context);
+        return sessionId;
+      }
+
+      const sessionId = `pipeline-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+      contexts.set(sessionId, context);
+      return sessionId;
+    },
+
+    async getSession(sessionId: string): Promise<string | null> {
+      return contexts.get(sessionId) ?? null;
+    },
+
+    async updateSession(sessionId: string, newContext: string): Promise<void> {
+      if (!contexts.has(sessionId)) {
+        throw new Error(
+          `Pipeline session "${sessionId}" does not exist. Create it with createSession() before updating its context.`
+        );
+      }
+      contexts.set(sessionId, newContext);
+    },
+
+    async cleanup(): Promise<void> {
+      if (provider.destroySession) {
+        for (const sessionId of providerSessions) {
+          try {
+            await provider.destroySession(sessionId);
+          } catch (cleanupError) {
+            warn('Failed to destroy pipeline session', {
+              sessionId,
+              provider: provider.name,
+              error:
+                cleanupError instanceof Error
+                  ? cleanupError.message
+                  : 'Unknown error',
+            });
+          }
+        }
+      }
+      providerSessions.clear();
+      contexts.clear();
+    },
+  };
+}
+
+/**
+ * Creates the progress tracker used when none is supplied
+ *
+ * Runs that ask for progress through `progressMode` or the pipeline's
+ * `progressConfig.showProgress` get a live tracker rendered to stderr in the
+ * requested display mode; all other runs use a no-op tracker.
+ */
+function createDefaultProgressTracker(
+  pipeline: Pipeline,
+  options: PipelineExecutionOptions
+): ProgressTracker {
+  const progressConfig = pipeline.config.progressConfig;
+  const mode =
+    options.progressMode ??
+    (progressConfig?.showProgress ? progressConfig.displayMode : 'silent') ??
+    'basic';
+  if (mode === 'silent') {
+    return createNoopProgressTracker();
+  }
+
+  const tracker = createProgressTracker();
+  attachTerminalDisplay(tracker, {
+    mode,
+    ...(progressConfig?.updateIntervalMs !== undefined && {
+      intervalMs: progressConfig.updateIntervalMs,
+    }),
+  });
+  return tracker;
+}
+
+/**
+ * Progress tracker that ignores all updates
+ */
+function createNoopProgressTracker(): ProgressTracker {
+  return {
+    async initialize() {},
+    async updateProgress() {},
+    async finalize() {},
+  };
+}
+
+/**
+ * Adapts the global Persuader logger to the pipeline Logger interface
+ *
+ * @param pipelineId Pipeline identifier attached to every log entry
+ * @returns Logger that tags entries with the pipeline ID
+ */
+function createPipelineLogger(pipelineId: string): Logger {
+  return {
+    debug: (message, meta) => debug(message, { pipelineId, ...meta }),
+    info: (message, meta) => info(message, { pipelineId, ...meta }),
+    warn: (message, meta) => warn(message, { pipelineId, ...meta }),
+    error: (message, meta) => logError(message, { pipelineId, ...meta }),
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Multi-Stage Pipeline Module
+ *
+ * Executes Pipeline definitions made of multiple validated stages, with each
+ * stage's output feeding the next.
+ *
+ * @module core/multi-stage
+ */
+
+export {
+  type ConditionalFlowSettings,
+  createConditionalFlowController,
+  getBranchName,
+} from './conditional-flow-controller.js';
+export {
+  analyzeCriticalPath,
+  type CriticalPathAnalysisOptions,
+} from './critical-path-analysis.js';
+export {
+  createDAGFlowController,
+  type DAGFlowSettings,
+} from './dag-flow-controller.js';
+export {
+  buildDependencyGraph,
+  createDependencyGraph,
+  findCircularDependencies,
+  findLongestPath,
+  getTopologicalOrder,
+  validateDAG,
+} from './dependency-graph.js';
+export {
+  applyPipelineRecovery,
+  haltsAfterRecovery,
+  isSkippedByRecovery,
+  recoverStage,
+  validateStageRecovery,
+} from './error-recovery.js';
+export {
+  createExecutionContext,
+  createPipelineSessionManager,
+  type ExecutionContextServices,
+  type RunnerExecutionContext,
+} from './execution-context.js';
+export {
+  type RunPipelineOptions,
+  runPipeline,
+  validatePipelineDefinition,
+} from './pipeline-runner.js';
+export {
+  buildStageOptions,
+  executeAndRecordStage,
+  executeStage,
+  type StageExecutionSettings,
+} from './stage-executor.js';
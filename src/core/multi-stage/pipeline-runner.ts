@@ -0,0 +1,691 @@
+/**
+ * Pipeline Runner for Multi-Stage Pipelines
+ *
+ * Executes a Pipeline definition stage by stage. Each stage runs through the
+ * same retry engine as persuade(), and its validated output becomes the input
+ * of the next stage (via that stage's transformInput, if any).
+ */
+
+import { createClaudeCLIAdapter } from '../../adapters/claude-cli.js';
+import type { BranchEvaluation, FlowError } from '../../types/flow.js';
+import type {
+  Pipeline,
+  PipelineError,
+  PipelineExecutionMetadata,
+  PipelineExecutionOptions,
+  PipelineResult,
+  StageResult,
+} from '../../types/multi-stage.js';
+import type { TokenUsage } from '../../types/pipeline.js';
+import type { ProviderAdapter } from '../../types/provider.js';
+import { debug, info, setGlobalLogLevel, warn } from '../../utils/logger.js';
+import type { ConfigurationValidation } from '../runner/configuration-manager.js';
+import { addTokenUsage } from '../runner/execution-engine.js';
+import {
+  createConditionalFlowController,
+  getBranchName,
+} from './conditional-flow-controller.js';
+import { analyzeCriticalPath } from './critical-path-analysis.js';
+import { createDAGFlowController } from './dag-flow-controller.js';
+import { validateDAG } from './dependency-graph.js';
+import {
+  applyPipelineRecovery,
+  haltsAfterRecovery,
+  isSkippedByRecovery,
+  validateStageRecovery,
+} from './error-recovery.js';
+import {
+  createExecutionContext,
+  type ExecutionContextServices,
+  type RunnerExecutionContext,
+} from './execution-context.js';
+import { executeAndRecordStage } from './stage-executor.js';
+
+/**
+ * Optional settings for a pipeline run
+ */
+export interface RunPipelineOptions
+  extends Omit<PipelineExecutionOptions, 'pipeline' | 'input' | 'provider'> {
+  /** Service overrides for the execution context (session, progress, review, logger) */
+  readonly services?: ExecutionContextServices;
+}
+
+/**
+ * Flow modes the runner can currently execute
+ */
+const SUPPORTED_FLOW_MODES: ReadonlyArray<Pipeline['flow']['mode']> = [
+  'sequential',
+  'dag',
+  'conditional',
+];
+
+/**
+ * Executes a multi-stage pipeline
+ *
+ * Validates the pipeline definition and input, then runs the stages according
+ * to `flow.mode`. In sequential mode each stage runs in order; a stage whose
+ * `condition` returns false is skipped and the previous output flows on to the
+ * next stage unchanged. In DAG mode stages are scheduled from
+ * `flow.dependencies` (see createDAGFlowController) and dependency cycles are
+ * rejected before any LLM call. In conditional mode `flow.branches` select
+ * which branch-controlled stages run (see createConditionalFlowController) and
+ * the decisions are returned as `branchEvaluations`. By default the run stops at the first failed
+ * stage; with `config.stopOnFirstError: false` later stages receive the most
+ * recent successful output instead. A failed stage with `errorRecovery` is
+ * recovered before it counts as a failure, and a failed run is handed to
+ * `errorHandling.recoveryStrategies` (see applyPipelineRecovery).
+ * Never throws: all failures are reported through the returned PipelineResult.
+ *
+ * @template TInput Pipeline input type
+ * @param pipeline Pipeline definition to execute
+ * @param input Input for the first stage
+ * @param provider LLM provider adapter used by every stage (defaults to Claude CLI)
+ * @param options Optional run settings
+ * @returns Pipeline result with the final output and per-stage results
+ *
+ * @example
+ * ```typescript
+ * const result = await runPipeline({
+ *   id: 'doc-processing',
+ *   name: 'Document processing',
+ *   flow: { mode: 'sequential' },
+ *   config: {},
+ *   stages: [
+ *     { id: 'extract', name: 'Extract', schema: ExtractionSchema },
+ *     {
+ *       id: 'summarise',
+ *       name: 'Summarise',
+ *       schema: SummarySchema,
+ *       transformInput: extraction => `Summarise: ${JSON.stringify(extraction)}`,
+ *     },
+ *   ],
+ * }, rawDocument);
+ *
+ * if (result.success) {
+ *   console.log(result.stageResults.extract?.value, result.value);
+ * }
+ * ```
+ */
+export async function runPipeline<TInput = unknown>(
+  pipeline: Pipeline<TInput>,
+  input: TInput,
+  provider: ProviderAdapter = createClaudeCLIAdapter(),
+  options: RunPipelineOptions = {}
+): Promise<PipelineResult> {
+  if (options.logLevel) {
+    setGlobalLogLevel(options.logLevel);
+  }
+
+  const { services, ...executionOptions } = options;
+  const runner = createExecutionContext(
+    pipeline as Pipeline,
+    input,
+    provider,
+    { ...executionOptions, pipeline: pipeline as Pipeline, input, provider },
+    services
+  );
+  const { context, state } = runner;
+
+  debug('Starting multi-stage pipeline', {
+    pipelineId: pipeline.id,
+    stageCount: pipeline.stages.length,
+    flowMode: pipeline.flow.mode,
+    provider: provider.name,
+    dryRun: Boolean(options.dryRun),
+  });
+
+  // Step 1: Reject invalid pipeline definitions before any LLM call
+  const validation = validatePipelineDefinition(pipeline);
+  if (!validation.valid) {
+    return finishRun(runner, {}, [], {
+      error: createPipelineError(
+        'invalid_pipeline',
+        `Pipeline "${pipeline.id}" is invalid: ${validation.errors.join(' | ')}`,
+        []
+      ),
+    });
+  }
+
+  if (pipeline.flow.mode === 'dag') {
+    const dagValidation = validateDAG(pipeline as Pipeline);
+    if (!dagValidation.valid) {
+      return finishRun(runner, {}, [], {
+        error: createPipelineError(
+          'invalid_dag',
+          `Pipeline "${pipeline.id}" has an invalid dependency graph: ${dagValidation.errors
+            .map(dagError => dagError.message)
+            .join(' ')}`,
+          [],
+          {
+            validationErrors: dagValidation.errors,
+            suggestedFixes: dagValidation.suggestedFixes,
+          }
+        ),
+      });
+    }
+    for (const dagWarning of dagValidation.warnings) {
+      debug('DAG validation warning', {
+        pipelineId: pipeline.id,
+        type: dagWarning.type,
+        message: dagWarning.message,
+      });
+    }
+  }
+
+  // Step 2: Validate the pipeline input against the optional input schema
+  let pipelineInput: unknown = input;
+  if (pipeline.inputSchema) {
+    const parsed = pipeline.inputSchema.safeParse(input);
+    if (!parsed.success) {
+      return finishRun(runner, {}, [], {
+        error: createPipelineError(
+          'invalid_pipeline_input',
+          `Pipeline input does not match the input schema: ${parsed.error.issues
+            .map(
+              issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+            )
+            .join('; ')}`,
+          [],
+          { issues: parsed.error.issues }
+        ),
+      });
+    }
+    pipelineInput = parsed.data;
+  }
+
+  if (options.dryRun) {
+    info('Dry run: pipeline definition and input are valid', {
+      pipelineId: pipeline.id,
+      stageCount: pipeline.stages.length,
+    });
+    return finishRun(runner, {}, [], {});
+  }
+
+  // Step 3: Execute stages
+  await context.progressTracker.initialize(context);
+  state.status = 'running';
+  state.phase = 'executing';
+
+  try {
+    const sessionId = await resolveSharedSession(runner, options);
+    let result: PipelineResult;
+    switch (pipeline.flow.mode) {
+      case 'dag':
+        result = await runDAGFlow(runner, pipelineInput, sessionId);
+        break;
+      case 'conditional':
+        result = await runConditionalFlow(runner, pipelineInput, sessionId);
+        break;
+      default:
+        result = await runSequentialFlow(runner, pipelineInput, sessionId);
+    }
+
+    // Step 4: Give pipeline-level recovery strategies a chance to rescue the run
+    return await applyPipelineRecovery(result, runner, modifiedPipeline =>
+      runPipeline(
+        withoutPipelineRecovery(modifiedPipeline),
+        input,
+        provider,
+        options
+      )
+    );
+  } catch (runError) {
+    return finishRun(runner, state.completedStages, [], {
+      error: createPipelineError(
+        'pipeline_execution_failed',
+        `Pipeline "${pipeline.id}" failed unexpectedly: ${runError instanceof Error ? runError.message : 'Unknown error'}`,
+        Object.keys(state.failedStages),
+        { originalError: runError }
+      ),
+    });
+  } finally {
+    await context.progressTracker.finalize();
+    await context.sessionManager.cleanup();
+  }
+}
+
+/**
+ * Validates a pipeline definition before execution
+ *
+ * @param pipeline Pipeline to validate
+ * @returns Validation result with actionable error messages
+ */
+export function validatePipelineDefinition(
+  pipeline: Pipeline<unknown>
+): ConfigurationValidation {
+  const errors: string[] = [];
+
+  if (!pipeline.stages || pipeline.stages.length === 0) {
+    errors.push('Pipeline must define at least one stage.');
+  }
+
+  const seen = new Set<string>();
+  for (const stage of pipeline.stages ?? []) {
+    if (!stage.id || typeof stage.id !== 'string') {
+      errors.push(
+        `Stage "${stage.name ?? '(unnamed)'}" must have a non-empty string id.`
+      );
+      continue;
+    }
+    if (seen.has(stage.id)) {
+      errors.push(
+        `Stage id "${stage.id}" is used more than once. Stage ids must be unique.`
+      );
+    }
+    seen.add(stage.id);
+    if (!stage.schema || typeof stage.schema.safeParse !== 'function') {
+      errors.push(`Stage "${stage.id}" must provide a Zod schema.`);
+    }
+    errors.push(...validateStageRecovery(stage));
+  }
+
+  if (!SUPPORTED_FLOW_MODES.includes(pipeline.flow?.mode)) {
+    errors.push(
+      `Flow mode "${pipeline.flow?.mode}" is not supported. Supported modes: ${SUPPORTED_FLOW_MODES.join(', ')}.`
+    );
+  }
+
+  if (pipeline.flow?.mode === 'conditional') {
+    const branches = pipeline.flow.branches ?? [];
+    if (branches.length === 0) {
+      errors.push(
+        'Conditional flows must define at least one entry in flow.branches.'
+      );
+    }
+    branches.forEach((branch, index) => {
+      for (const stageId of [...branch.ifTrue, ...(branch.ifFalse ?? [])]) {
+        if (!seen.has(stageId)) {
+          errors.push(
+            `Branch "${getBranchName(branch, index)}" references unknown stage "${stageId}".`
+          );
+        }
+      }
+    });
+  }
+
+  const maxConcurrency = pipeline.flow?.maxConcurrency;
+  if (
+    maxConcurrency !== undefined &&
+    (!Number.isInteger(maxConcurrency) || maxConcurrency < 1)
+  ) {
+    errors.push(
+      `flow.maxConcurrency must be a positive integer (received ${maxConcurrency}).`
+    );
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Runs stages one after another, threading each output into the next stage
+ */
+async function runSequentialFlow(
+  runner: RunnerExecutionContext,
+  pipelineInput: unknown,
+  sessionId: string | undefined
+): Promise<PipelineResult> {
+  const { context, state } = runner;
+  const { pipeline } = context;
+  const stageResults: Record<string, StageResult> = {};
+  const skippedStages: string[] = [];
+  const stopOnFirstError = pipeline.config.stopOnFirstError ?? true;
+  let currentInput = pipelineInput;
+
+  for (const stage of pipeline.stages) {
+    state.waitingStages.delete(stage.id);
+
+    const timeoutError = checkPipelineTimeout(runner);
+    if (timeoutError) {
+      return finishRun(runner, stageResults, skippedStages, {
+        error: timeoutError,
+      });
+    }
+
+    if (stage.condition && !(await stage.condition(currentInput, context))) {
+      debug('Skipping stage - condition not met', {
+        pipelineId: pipeline.id,
+        stageId: stage.id,
+      });
+      skippedStages.push(stage.id);
+      continue;
+    }
+
+    const result = await executeAndRecordStage(
+      runner,
+      stage,
+      currentInput,
+      sessionId !== undefined ? { sessionId } : {}
+    );
+    stageResults[stage.id] = result;
+
+    if (result.success || isSkippedByRecovery(result)) {
+      if (result.success) {
+        currentInput = result.value;
+      } else {
+        // Recovered by skipping: the previous output flows on unchanged
+        skippedStages.push(stage.id);
+      }
+      if (haltsAfterRecovery(result)) {
+        skipRemainingStages(runner, skippedStages);
+        break;
+      }
+      continue;
+    }
+
+    if (stopOnFirstError) {
+      skipRemainingStages(runner, skippedStages);
+      break;
+    }
+  }
+
+  return finishRun(runner, stageResults, skippedStages, {});
+}
+
+/**
+ * Marks every stage that has not run yet as skipped
+ */
+function skipRemainingStages(
+  runner: RunnerExecutionContext,
+  skippedStages: string[]
+): void {
+  for (const remaining of runner.context.pipeline.stages) {
+    if (runner.state.waitingStages.delete(remaining.id)) {
+      skippedStages.push(remaining.id);
+    }
+  }
+}
+
+/**
+ * Runs stages as a dependency graph, executing independent stages concurrently
+ */
+async function runDAGFlow(
+  runner: RunnerExecutionContext,
+  pipelineInput: unknown,
+  sessionId: string | undefined
+): Promise<PipelineResult> {
+  const controller = createDAGFlowController(runner, {
+    input: pipelineInput,
+    ...(sessionId !== undefined && { sessionId }),
+  });
+
+  await controller.initialize(runner.context);
+  const flow = await controller.execute();
+  await controller.finalize();
+
+  const flowError = flow.errors?.[0];
+  return finishRun(runner, flow.stageResults, flow.skippedStages, {
+    finalOutput: flow.finalOutput,
+    ...(flowError && { error: createFlowPipelineError(runner, flowError) }),
+  });
+}
+
+/**
+ * Runs stages in order, letting conditional branches select which stages run
+ */
+async function runConditionalFlow(
+  runner: RunnerExecutionContext,
+  pipelineInput: unknown,
+  sessionId: string | undefined
+): Promise<PipelineResult> {
+  const controller = createConditionalFlowController(runner, {
+    input: pipelineInput,
+    ...(sessionId !== undefined && { sessionId }),
+  });
+
+  await controller.initialize(runner.context);
+  const flow = await controller.execute();
+  await controller.finalize();
+
+  const flowError = flow.errors?.[0];
+  return finishRun(runner, flow.stageResults, flow.skippedStages, {
+    finalOutput: flow.finalOutput,
+    branchEvaluations: await controller.getBranchHistory(),
+    ...(flowError && { error: createFlowPipelineError(runner, flowError) }),
+  });
+}
+
+/**
+ * Creates a session shared by all stages when requested
+ *
+ * An explicit `sessionId` option always wins. Otherwise a pipeline-scoped
+ * session is created when `sessionConfig.reuseSession` is set and the
+ * provider supports sessions.
+ */
+async function resolveSharedSession(
+  runner: RunnerExecutionContext,
+  options: RunPipelineOptions
+): Promise<string | undefined> {
+  const { context } = runner;
+
+  if (options.sessionId) {
+    return options.sessionId;
+  }
+
+  if (
+    context.pipeline.config.sessionConfig?.reuseSession &&
+    context.provider.supportsSession
+  ) {
+    const sessionId = await context.sessionManager.createSession(
+      context.pipeline.globalContext ?? ''
+    );
+    debug('Created shared pipeline session', {
+      pipelineId: context.pipeline.id,
+      sessionId,
+    });
+    return sessionId;
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns a timeout error once the pipeline has exceeded maxExecutionTimeMs
+ */
+function checkPipelineTimeout(
+  runner: RunnerExecutionContext
+): PipelineError | undefined {
+  const { pipeline } = runner.context;
+  const maxExecutionTimeMs = pipeline.config.maxExecutionTimeMs;
+  if (maxExecutionTimeMs === undefined) {
+    return undefined;
+  }
+
+  const elapsedMs = Date.now() - runner.state.startTime.getTime();
+  if (elapsedMs <= maxExecutionTimeMs) {
+    return undefined;
+  }
+
+  return createPipelineError(
+    'pipeline_timeout',
+    `Pipeline "${pipeline.id}" exceeded its maximum execution time of ${maxExecutionTimeMs}ms (elapsed ${elapsedMs}ms)`,
+    Object.keys(runner.state.failedStages),
+    { elapsedMs, maxExecutionTimeMs }
+  );
+}
+
+/**
+ * Finalizes state and builds the pipeline result
+ */
+function finishRun(
+  runner: RunnerExecutionContext,
+  stageResults: Record<string, StageResult>,
+  skippedStages: ReadonlyArray<string>,
+  outcome: {
+    readonly error?: PipelineError;
+    readonly finalOutput?: unknown;
+    readonly branchEvaluations?: ReadonlyArray<BranchEvaluation>;
+  }
+): PipelineResult {
+  const { context, state } = runner;
+  const failedStageIds = Object.keys(state.failedStages);
+  const haltingStage = Object.values(stageResults).find(haltsAfterRecovery);
+  const error =
+    outcome.error ??
+    (failedStageIds.length > 0
+      ? createPipelineError(
+          'stage_failed',
+          `Pipeline "${context.pipeline.id}" failed at stage(s) ${failedStageIds.join(', ')}: ${failedStageIds
+            .map(id => state.failedStages[id]?.error.message)
+            .join(' | ')}`,
+          failedStageIds
+        )
+      : haltingStage
+        ? createPipelineError(
+            'stopped_after_recovery',
+            `Pipeline "${context.pipeline.id}" stopped after recovering stage "${haltingStage.stageId}" (errorRecovery.continueOnRecovery is false)`,
+            [],
+            { recoveredStage: haltingStage.stageId }
+          )
+        : undefined);
+
+  delete state.currentStage;
+  state.status = error ? 'failed' : 'completed';
+  state.phase = error ? 'failed' : 'completing';
+
+  const metadata = buildPipelineMetadata(runner, stageResults);
+  const finalOutput =
+    'finalOutput' in outcome
+      ? outcome.finalOutput
+      : findFinalOutput(context.pipeline, stageResults);
+
+  if (error) {
+    warn('Multi-stage pipeline failed', {
+      pipelineId: context.pipeline.id,
+      errorCode: error.code,
+      failedStages: error.failedStages,
+      executionTimeMs: metadata.executionTimeMs,
+    });
+  } else {
+    info('Multi-stage pipeline completed', {
+      pipelineId: context.pipeline.id,
+      completedStages: metadata.completedStages,
+      skippedStages: skippedStages.length,
+      executionTimeMs: metadata.executionTimeMs,
+    });
+  }
+
+  return {
+    success: !error,
+    ...(finalOutput !== undefined && { value: finalOutput }),
+    ...(error && { error }),
+    metadata,
+    stageResults,
+    skippedStages,
+    ...(outcome.branchEvaluations && {
+      branchEvaluations: outcome.branchEvaluations,
+    }),
+  };
+}
+
+/**
+ * Builds final pipeline metadata from the accumulated stage results
+ */
+function buildPipelineMetadata(
+  runner: RunnerExecutionContext,
+  stageResults: Record<string, StageResult>
+): PipelineExecutionMetadata {
+  const { metadata } = runner;
+  const completedAt = new Date();
+  const results = Object.values(stageResults);
+
+  let totalTokenUsage: TokenUsage | undefined;
+  let totalStageTimeMs = 0;
+  for (const result of results) {
+    totalTokenUsage = addTokenUsage(
+      totalTokenUsage,
+      result.metadata.tokenUsage
+    );
+    totalStageTimeMs += result.metadata.executionTimeMs;
+  }
+
+  metadata.completedAt = completedAt;
+  metadata.executionTimeMs =
+    completedAt.getTime() - metadata.startedAt.getTime();
+  if (totalTokenUsage) {
+    metadata.totalTokenUsage = totalTokenUsage;
+  }
+  if (results.length > 0) {
+    const { pipeline } = runner.context;
+    metadata.averageStageTime = totalStageTimeMs / results.length;
+    metadata.criticalPath = analyzeCriticalPath(stageResults, {
+      stageOrder: pipeline.stages.map(stage => stage.id),
+      ...(pipeline.flow.mode === 'dag' && {
+        dependencies: pipeline.flow.dependencies ?? {},
+      }),
+    });
+  }
+
+  return { ...metadata };
+}
+
+/**
+ * Finds the output of the last successful stage in definition order
+ */
+function findFinalOutput(
+  pipeline: Pipeline,
+  stageResults: Record<string, StageResult>
+): unknown {
+  for (let index = pipeline.stages.length - 1; index >= 0; index--) {
+    const stage = pipeline.stages[index];
+    const result = stage ? stageResults[stage.id] : undefined;
+    if (result?.success) {
+      return result.value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Disables pipeline-level recovery so a re-run pipeline cannot recover itself
+ */
+function withoutPipelineRecovery<TInput>(
+  pipeline: Pipeline<TInput>
+): Pipeline<TInput> {
+  return {
+    ...pipeline,
+    errorHandling: {
+      strategy: 'fail_fast',
+      ...pipeline.errorHandling,
+      enablePipelineRecovery: false,
+    },
+  };
+}
+
+/**
+ * Creates a pipeline-level error
+ */
+function createPipelineError(
+  code: string,
+  message: string,
+  failedStages: ReadonlyArray<string>,
+  context?: Record<string, unknown>
+): PipelineError {
+  return {
+    type: 'pipeline_error',
+    code,
+    message,
+    timestamp: new Date(),
+    failedStages,
+    ...(context && { context }),
+  };
+}
+
+/**
+ * Converts a flow controller error into a pipeline-level error
+ */
+function createFlowPipelineError(
+  runner: RunnerExecutionContext,
+  flowError: FlowError
+): PipelineError {
+  return createPipelineError(
+    flowError.code,
+    flowError.message,
+    [
+      ...new Set([
+        ...Object.keys(runner.state.failedStages),
+        ...(flowError.affectedStages ?? []),
+      ]),
+    ],
+    { flowError }
+  );
+}
@@ -0,0 +1,655 @@
+/**
+ * Stage Executor for Multi-Stage Pipelines
+ *
+ * Runs a single PipelineStage through the same configuration, session
+ * coordination and retry engine used by persuade(), and packages the outcome
+ * as a StageResult with stage-level timing and token metrics.
+ */
+
+import { validateReviewedValue } from '../../review/modifications.js';
+import { defaultSessionManager } from '../../session/manager.js';
+import {
+  isProviderError,
+  type ProviderError,
+  type ValidationError,
+} from '../../types/errors.js';
+import type {
+  Pipeline,
+  PipelineExecutionContext,
+  PipelineStage,
+  StageExecutionMetadata,
+  StageResult,
+} from '../../types/multi-stage.js';
+import type {
+  ConfidenceSignals,
+  Options,
+  TokenUsage,
+} from '../../types/pipeline.js';
+import type { ReviewResult } from '../../types/review.js';
+import { debug, info, warn } from '../../utils/logger.js';
+import { processConfiguration } from '../runner/configuration-manager.js';
+import { executeWithRetry } from '../runner/execution-engine.js';
+import { coordinateSession } from '../runner/session-coordinator.js';
+import { createValidationError } from '../validation/error-factory.js';
+import { isSkippedByRecovery, recoverStage } from './error-recovery.js';
+import type { RunnerExecutionContext } from './execution-context.js';
+
+/**
+ * Per-run settings the runner passes to each stage execution
+ */
+export interface StageExecutionSettings {
+  /** Session shared by all stages in this run (if any) */
+  readonly sessionId?: string;
+}
+
+/**
+ * Executes a stage against the output of its predecessor
+ *
+ * Applies the stage's transformInput, resolves context/lens/retry/provider
+ * settings against pipeline defaults, and runs the stage through
+ * executeWithRetry. Never throws: configuration, transform and provider
+ * failures are all reported through the returned StageResult.
+ *
+ * @param stage Stage to execute
+ * @param previousOutput Output of the preceding stage (or the pipeline input)
+ * @param context Shared pipeline execution context
+ * @param settings Run-level settings such as a shared session
+ * @returns Stage result with value or error and execution metadata
+ */
+export async function executeStage(
+  stage: PipelineStage,
+  previousOutput: unknown,
+  context: PipelineExecutionContext,
+  settings: StageExecutionSettings = {}
+): Promise<StageResult> {
+  const startTime = new Date();
+  const { provider } = context;
+
+  debug('Executing pipeline stage', {
+    pipelineId: context.pipeline.id,
+    stageId: stage.id,
+    stageName: stage.name,
+    hasTransform: Boolean(stage.transformInput),
+    sharedSession: Boolean(settings.sessionId),
+  });
+
+  // Step 1: Transform the incoming value into this stage's input
+  let stageInput: unknown;
+  try {
+    stageInput = stage.transformInput
+      ? await stage.transformInput(previousOutput, context)
+      : previousOutput;
+  } catch (transformError) {
+    return createFailedStageResult(
+      stage,
+      createStageProviderError(
+        provider.name,
+        'stage_input_transform_failed',
+        `Input transform for stage "${stage.id}" threw: ${transformError instanceof Error ? transformError.message : 'Unknown error'}`,
+        transformError
+      ),
+      startTime,
+      provider.name,
+      { input: previousOutput }
+    );
+  }
+  const inputProcessingTimeMs = Date.now() - startTime.getTime();
+
+  try {
+    // Step 2: Resolve the stage configuration against pipeline defaults
+    const config = processConfiguration(
+      buildStageOptions(stage, stageInput, context.pipeline, settings)
+    );
+
+    // Step 3: Coordinate the session exactly as persuade() does
+    const sessionResult = await coordinateSession(config, provider);
+    if (!sessionResult.success) {
+      return createFailedStageResult(
+        stage,
+        sessionResult.error ??
+          createStageProviderError(
+            provider.name,
+            'session_coordination_failed',
+            `Session coordination failed for stage "${stage.id}"`
+          ),
+        startTime,
+        provider.name,
+        { input: stageInput, inputProcessingTimeMs }
+      );
+    }
+
+    // Step 4: Run the shared retry engine, bounded by the stage timeout
+    const providerStartTime = Date.now();
+    const execution = await withStageTimeout(
+      executeWithRetry(
+        config,
+        provider,
+        sessionResult.sessionId,
+        defaultSessionManager
+      ),
+      stage,
+      provider.name
+    );
+    const providerTimeMs = Date.now() - providerStartTime;
+
+    const endTime = new Date();
+    const metadata = createStageMetadata(startTime, endTime, {
+      provider: provider.name,
+      model: config.model,
+      attempts: execution.attempts,
+      inputProcessingTimeMs,
+      providerTimeMs,
+      tokenUsage: execution.tokenUsage,
+      confidence: execution.confidence,
+      confidenceSignals: execution.confidenceSignals,
+    });
+
+    if (execution.success) {
+      info('Pipeline stage completed', {
+        pipelineId: context.pipeline.id,
+        stageId: stage.id,
+        attempts: execution.attempts,
+        executionTimeMs: metadata.executionTimeMs,
+      });
+
+      return {
+        stageId: stage.id,
+        success: true,
+        value: execution.value,
+        ...(execution.rawResponse !== undefined && {
+          rawOutput: execution.rawResponse,
+        }),
+        metadata,
+        startTime,
+        endTime,
+        input: stageInput,
+      };
+    }
+
+    warn('Pipeline stage failed', {
+      pipelineId: context.pipeline.id,
+      stageId: stage.id,
+      attempts: execution.attempts,
+      errorCode: execution.error?.code,
+      errorMessage: execution.error?.message,
+    });
+
+    return {
+      stageId: stage.id,
+      success: false,
+      error:
+        execution.error ??
+        createStageProviderError(
+          provider.name,
+          'stage_failed',
+          `Stage "${stage.id}" failed without a specific error`
+        ),
+      metadata,
+      startTime,
+      endTime,
+      input: stageInput,
+    };
+  } catch (stageError) {
+    if (isProviderError(stageError)) {
+      return createFailedStageResult(
+        stage,
+        stageError,
+        startTime,
+        provider.name,
+        {
+          input: stageInput,
+          inputProcessingTimeMs,
+        }
+      );
+    }
+
+    return createFailedStageResult(
+      stage,
+      createStageProviderError(
+        provider.name,
+        'stage_configuration_failed',
+        `Stage "${stage.id}" could not be configured: ${stageError instanceof Error ? stageError.message : 'Unknown error'}`,
+        stageError
+      ),
+      startTime,
+      provider.name,
+      { input: stageInput, inputProcessingTimeMs }
+    );
+  }
+}
+
+/**
+ * Executes a stage and records its outcome on the shared run state
+ *
+ * Wraps executeStage() with the bookkeeping every flow mode needs: executing
+ * and completed/failed stage tracking, metadata counters and progress updates.
+ * A failed stage with `errorRecovery` is recovered first (see recoverStage);
+ * stages recovered by skipping are recorded as neither completed nor failed.
+ * Successful results that need human review wait for the review manager's
+ * decision before they are recorded (see reviewStageResult).
+ *
+ * @param runner Execution context and writable state for the run
+ * @param stage Stage to execute
+ * @param stageInput Value handed to the stage's transformInput
+ * @param settings Run-level settings such as a shared session
+ * @returns Stage result
+ */
+export async function executeAndRecordStage(
+  runner: RunnerExecutionContext,
+  stage: PipelineStage,
+  stageInput: unknown,
+  settings: StageExecutionSettings = {}
+): Promise<StageResult> {
+  const { context, state, metadata } = runner;
+
+  state.currentStage = stage.id;
+  state.executingStages.add(stage.id);
+  await context.progressTracker.updateProgress(stage.id, 0);
+  const maxAttempts =
+    stage.retryConfig?.maxAttempts ??
+    context.pipeline.config.defaultRetryConfig?.maxAttempts;
+  await context.progressTracker.updateStageProgress?.(stage.id, {
+    stageId: stage.id,
+    status: 'executing',
+    progress: 0,
+    phase: 'calling_provider',
+    startTime: new Date(),
+    ...(maxAttempts !== undefined && { maxAttempts }),
+  });
+
+  let result = await executeStage(stage, stageInput, context, settings);
+  if (!result.success && stage.errorRecovery) {
+    result = await recoverStage(stage, result, stageInput, context, () =>
+      executeStage(stage, stageInput, context, settings)
+    );
+  }
+  if (result.success) {
+    result = await reviewStageResult(runner, stage, result);
+  }
+
+  state.executingStages.delete(stage.id);
+  if (result.success) {
+    state.completedStages[stage.id] = result;
+    metadata.completedStages++;
+  } else if (result.error && !isSkippedByRecovery(result)) {
+    state.failedStages[stage.id] = {
+      stageId: stage.id,
+      error: result.error,
+      retryAttempts: result.metadata.stageMetrics.retryAttempts,
+      ...(result.recovery && {
+        recoveryAttempts: result.recovery.attempts,
+        context: {
+          recoveryStrategy: result.recovery.strategy,
+          recoveryFailureReason: result.recovery.failureReason,
+        },
+      }),
+      timestamp: result.endTime,
+      recoverable: result.error.retryable,
+    };
+    metadata.failedStages++;
+  }
+  await context.progressTracker.updateProgress(stage.id, 1);
+  await reportStageOutcome(context, stage, result);
+
+  return result;
+}
+
+/**
+ * Reports how a recorded stage ended to the progress tracker
+ *
+ * Stages skipped by error recovery are reported as skipped rather than
+ * failed, matching how they are recorded in the execution state.
+ */
+async function reportStageOutcome(
+  context: PipelineExecutionContext,
+  stage: PipelineStage,
+  result: StageResult
+): Promise<void> {
+  const tracker = context.progressTracker;
+  if (result.success) {
+    await tracker.recordStageCompletion?.(stage.id, result);
+  } else if (isSkippedByRecovery(result)) {
+    await tracker.updateStageProgress?.(stage.id, {
+      stageId: stage.id,
+      status: 'skipped',
+      progress: 1,
+      phase: 'recovering',
+      startTime: result.startTime,
+      currentActivity: 'Skipped by error recovery',
+    });
+  } else {
+    await tracker.recordStageFailure?.(stage.id, result.error);
+  }
+}
+
+/**
+ * Sends a successful stage result through human review when required
+ *
+ * Approved results continue unchanged. Reviewer modifications are applied and
+ * re-validated against the stage schema; a rejected, timed-out or invalidly
+ * modified result fails the stage. Timeouts continue with the original value
+ * when the stage sets `reviewConfig.autoApproveOnTimeout`.
+ *
+ * @param runner Execution context and writable state for the run
+ * @param stage Stage that produced the result
+ * @param result Successful stage result
+ * @returns Reviewed stage result with `reviewResult` attached
+ */
+async function reviewStageResult(
+  runner: RunnerExecutionContext,
+  stage: PipelineStage,
+  result: StageResult
+): Promise<StageResult> {
+  const { context, state } = runner;
+  const { reviewManager } = context;
+
+  if (!(await reviewManager.isReviewRequired(stage, result, context))) {
+    return result;
+  }
+
+  state.status = 'review_required';
+  state.phase = 'reviewing';
+  await context.progressTracker.updateStageProgress?.(stage.id, {
+    stageId: stage.id,
+    status: 'reviewing',
+    progress: 1,
+    phase: 'reviewing',
+    startTime: result.startTime,
+    currentActivity: 'Waiting for review',
+  });
+  let review: ReviewResult;
+  try {
+    review = await reviewManager.requestReview(stage, result, context);
+  } catch (reviewError) {
+    return failReviewedResult(
+      result,
+      createStageProviderError(
+        result.metadata.provider,
+        'review_failed',
+        `Review of stage "${stage.id}" failed: ${
+          reviewError instanceof Error ? reviewError.message : String(reviewError)
+        }`,
+        reviewError
+      )
+    );
+  } finally {
+    if (state.status === 'review_required') {
+      state.status = 'running';
+      state.phase = 'executing';
+    }
+  }
+
+  debug('Stage review decided', {
+    stageId: stage.id,
+    reviewId: review.reviewId,
+    decision: review.decision,
+  });
+
+  switch (review.decision) {
+    case 'approved':
+    case 'conditional_approval':
+    case 'requires_modification': {
+      if (!review.modifications?.length) {
+        if (review.decision === 'requires_modification') {
+          return failReviewedResult(
+            result,
+            createStageProviderError(
+              result.metadata.provider,
+              'review_requires_modification',
+              `Review of stage "${stage.id}" requires modifications but none were provided`
+            ),
+            review
+          );
+        }
+        return { ...result, reviewResult: review };
+      }
+
+      const reviewed = validateReviewedValue(
+        stage.schema,
+        result.value,
+        review.modifications
+      );
+      if (!reviewed.success) {
+        return failReviewedResult(
+          result,
+          createValidationError(
+            'review_modification_invalid',
+            `Reviewed output for stage "${stage.id}" does not match the stage schema`,
+            reviewed.issues,
+            reviewed.value
+          ),
+          review
+        );
+      }
+      return { ...result, value: reviewed.value, reviewResult: review };
+    }
+    case 'timeout':
+      if (stage.reviewConfig?.autoApproveOnTimeout) {
+        warn('Review timed out, auto-approving stage result', {
+          stageId: stage.id,
+          reviewId: review.reviewId,
+        });
+        return { ...result, reviewResult: review };
+      }
+      return failReviewedResult(
+        result,
+        createStageProviderError(
+          result.metadata.provider,
+          'review_timeout',
+          `Review of stage "${stage.id}" timed out`
+        ),
+        review
+      );
+    default:
+      return failReviewedResult(
+        result,
+        createStageProviderError(
+          result.metadata.provider,
+          'review_rejected',
+          `Review of stage "${stage.id}" ended with "${review.decision}"${
+            review.comments ? `: ${review.comments}` : ''
+          }`
+        ),
+        review
+      );
+  }
+}
+
+/**
+ * Turns a reviewed stage result into a failure, dropping its value
+ */
+function failReviewedResult(
+  result: StageResult,
+  error: ValidationError | ProviderError,
+  review?: ReviewResult
+): StageResult {
+  const { value: _rejected, ...rest } = result;
+  return {
+    ...rest,
+    success: false,
+    error,
+    ...(review && { reviewResult: review }),
+  };
+}
+
+/**
+ * Builds persuade() options for a stage, applying pipeline-level defaults
+ *
+ * Stage context, lens and prompt templates override the pipeline globals;
+ * provider options are merged with stage values taking precedence. A string
+ * `model` inside the merged provider options selects the model for the
+ * stage. Only `maxAttempts` from the retry configuration is honoured; retry
+ * delays use engine defaults.
+ *
+ * @param stage Stage being executed
+ * @param input Transformed stage input
+ * @param pipeline Pipeline supplying defaults
+ * @param settings Run-level settings
+ * @returns Options ready for configuration processing
+ */
+export function buildStageOptions(
+  stage: PipelineStage,
+  input: unknown,
+  pipeline: Pipeline,
+  settings: StageExecutionSettings = {}
+): Options<unknown> {
+  const providerOptions: Record<string, unknown> = {
+    ...pipeline.config.globalProviderOptions,
+    ...stage.providerOptions,
+  };
+  const model =
+    typeof providerOptions.model === 'string'
+      ? providerOptions.model
+      : undefined;
+  const maxAttempts =
+    stage.retryConfig?.maxAttempts ??
+    pipeline.config.defaultRetryConfig?.maxAttempts;
+  const context = stage.context ?? pipeline.globalContext;
+  const lens = stage.lens ?? pipeline.globalLens;
+  const promptTemplates =
+    stage.promptTemplates ?? pipeline.globalPromptTemplates;
+
+  return {
+    schema: stage.schema,
+    input,
+    ...(context !== undefined && { context }),
+    ...(lens !== undefined && { lens }),
+    ...(promptTemplates !== undefined && { promptTemplates }),
+    ...(settings.sessionId !== undefined && { sessionId: settings.sessionId }),
+    ...(maxAttempts !== undefined && { retries: Math.max(0, maxAttempts - 1) }),
+    ...(model !== undefined && { model }),
+    ...(stage.exampleOutput !== undefined && {
+      exampleOutput: stage.exampleOutput,
+    }),
+    ...(stage.confidence !== undefined && { confidence: stage.confidence }),
+    ...(Object.keys(providerOptions).length > 0 && { providerOptions }),
+  };
+}
+
+/**
+ * Races stage execution against the stage's timeout, if one is configured
+ *
+ * The underlying provider call is not cancelled; the stage is simply reported
+ * as failed once the deadline passes.
+ */
+async function withStageTimeout<T>(
+  execution: Promise<T>,
+  stage: PipelineStage,
+  providerName: string
+): Promise<T> {
+  if (stage.timeoutMs === undefined) {
+    return execution;
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(
+        createStageProviderError(
+          providerName,
+          'stage_timeout',
+          `Stage "${stage.id}" exceeded its timeout of ${stage.timeoutMs}ms`
+        )
+      );
+    }, stage.timeoutMs);
+  });
+
+  try {
+    return await Promise.race([execution, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Creates stage execution metadata from timing and engine results
+ */
+function createStageMetadata(
+  startTime: Date,
+  endTime: Date,
+  details: {
+    readonly provider: string;
+    readonly model?: string;
+    readonly attempts: number;
+    readonly inputProcessingTimeMs?: number;
+    readonly providerTimeMs?: number;
+    readonly tokenUsage?: TokenUsage | undefined;
+    readonly confidence?: number | undefined;
+    readonly confidenceSignals?: ConfidenceSignals | undefined;
+  }
+): StageExecutionMetadata {
+  const executionTimeMs = endTime.getTime() - startTime.getTime();
+
+  return {
+    executionTimeMs,
+    startedAt: startTime,
+    completedAt: endTime,
+    provider: details.provider,
+    ...(details.model !== undefined && { model: details.model }),
+    ...(details.tokenUsage && { tokenUsage: details.tokenUsage }),
+    ...(details.confidence !== undefined && { confidence: details.confidence }),
+    ...(details.confidenceSignals && {
+      confidenceSignals: details.confidenceSignals,
+    }),
+    stageMetrics: {
+      executionTimeMs,
+      retryAttempts: Math.max(0, details.attempts - 1),
+      validationAttempts: details.attempts,
+      ...(details.inputProcessingTimeMs !== undefined && {
+        inputProcessingTimeMs: details.inputProcessingTimeMs,
+      }),
+      ...(details.providerTimeMs !== undefined && {
+        providerTimeMs: details.providerTimeMs,
+      }),
+    },
+  };
+}
+
+/**
+ * Creates a failed stage result for errors raised before or around execution
+ */
+function createFailedStageResult(
+  stage: PipelineStage,
+  error: ValidationError | ProviderError,
+  startTime: Date,
+  providerName: string,
+  details: { readonly input?: unknown; readonly inputProcessingTimeMs?: number }
+): StageResult {
+  const endTime = new Date();
+
+  return {
+    stageId: stage.id,
+    success: false,
+    error,
+    metadata: createStageMetadata(startTime, endTime, {
+      provider: providerName,
+      attempts: 0,
+      ...(details.inputProcessingTimeMs !== undefined && {
+        inputProcessingTimeMs: details.inputProcessingTimeMs,
+      }),
+    }),
+    startTime,
+    endTime,
+    ...(details.input !== undefined && { input: details.input }),
+  };
+}
+
+/**
+ * Creates a provider error describing a stage-level failure
+ */
+function createStageProviderError(
+  providerName: string,
+  code: string,
+  message: string,
+  originalError?: unknown
+): ProviderError {
+  return {
+    type: 'provider',
+    code,
+    message,
+    provider: providerName,
+    timestamp: new Date(),
+    retryable: false,
+    details: originalError === undefined ? {} : { originalError },
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Model Pricing
+ *
+ * Estimates what provider calls cost from their token usage. Prices come
+ * from a built-in table of published list prices, which applications can
+ * override process-wide and individual calls can override through their
+ * `pricing` option. Costs reported by a provider itself (the Claude CLI
+ * reports `total_cost_usd`) are kept as they are.
+ */
+
+import type { ModelPricing, PricingTable } from '../types/pricing.js';
+import type { TokenUsage } from '../types/pipeline.js';
+
+const TOKENS_PER_MILLION = 1_000_000;
+
+/** Costs are kept to a millionth of a dollar to avoid float noise */
+const COST_PRECISION = 1_000_000;
+
+/**
+ * Published list prices in USD per million tokens
+ *
+ * Prices change; override them with `setModelPricing()` or the `pricing`
+ * option rather than relying on these for billing.
+ */
+export const BUILT_IN_MODEL_PRICING: PricingTable = {
+  // Anthropic
+  'claude-opus-4-5': { inputPerMillionTokens: 5, outputPerMillionTokens: 25 },
+  'claude-opus-4': { inputPerMillionTokens: 15, outputPerMillionTokens: 75 },
+  'claude-sonnet-4': { inputPerMillionTokens: 3, outputPerMillionTokens: 15 },
+  'claude-haiku-4-5': { inputPerMillionTokens: 1, outputPerMillionTokens: 5 },
+  'claude-3-7-sonnet': { inputPerMillionTokens: 3, outputPerMillionTokens: 15 },
+  'claude-3-5-sonnet': { inputPerMillionTokens: 3, outputPerMillionTokens: 15 },
+  'claude-3-5-haiku': { inputPerMillionTokens: 0.8, outputPerMillionTokens: 4 },
+  'claude-3-opus': { inputPerMillionTokens: 15, outputPerMillionTokens: 75 },
+  'claude-3-haiku': {
+    inputPerMillionTokens: 0.25,
+    outputPerMillionTokens: 1.25,
+  },
+  // Model aliases accepted by the Claude CLI
+  'claude-cli/opus': { inputPerMillionTokens: 15, outputPerMillionTokens: 75 },
+  'claude-cli/sonnet': { inputPerMillionTokens: 3, outputPerMillionTokens: 15 },
+  'claude-cli/haiku': { inputPerMillionTokens: 1, outputPerMillionTokens: 5 },
+  // OpenAI
+  'gpt-5': { inputPerMillionTokens: 1.25, outputPerMillionTokens: 10 },
+  'gpt-5-mini': { inputPerMillionTokens: 0.25, outputPerMillionTokens: 2 },
+  'gpt-5-nano': { inputPerMillionTokens: 0.05, outputPerMillionTokens: 0.4 },
+  'gpt-4.1': { inputPerMillionTokens: 2, outputPerMillionTokens: 8 },
+  'gpt-4.1-mini': { inputPerMillionTokens: 0.4, outputPerMillionTokens: 1.6 },
+  'gpt-4.1-nano': { inputPerMillionTokens: 0.1, outputPerMillionTokens: 0.4 },
+  'gpt-4o': { inputPerMillionTokens: 2.5, outputPerMillionTokens: 10 },
+  'gpt-4o-mini': { inputPerMillionTokens: 0.15, outputPerMillionTokens: 0.6 },
+  'gpt-4-turbo': { inputPerMillionTokens: 10, outputPerMillionTokens: 30 },
+  'gpt-3.5-turbo': { inputPerMillionTokens: 0.5, outputPerMillionTokens: 1.5 },
+  o3: { inputPerMillionTokens: 2, outputPerMillionTokens: 8 },
+  'o3-mini': { inputPerMillionTokens: 1.1, outputPerMillionTokens: 4.4 },
+  'o4-mini': { inputPerMillionTokens: 1.1, outputPerMillionTokens: 4.4 },
+  // Google
+  'gemini-2.5-pro': { inputPerMillionTokens: 1.25, outputPerMillionTokens: 10 },
+  'gemini-2.5-flash': {
+    inputPerMillionTokens: 0.3,
+    outputPerMillionTokens: 2.5,
+  },
+  'gemini-2.5-flash-lite': {
+    inputPerMillionTokens: 0.1,
+    outputPerMillionTokens: 0.4,
+  },
+  'gemini-2.0-flash': {
+    inputPerMillionTokens: 0.1,
+    outputPerMillionTokens: 0.4,
+  },
+  'gemini-1.5-pro': { inputPerMillionTokens: 1.25, outputPerMillionTokens: 5 },
+  'gemini-1.5-flash': {
+    inputPerMillionTokens: 0.075,
+    outputPerMillionTokens: 0.3,
+  },
+  // Local models cost nothing per token
+  'ollama/*': { inputPerMillionTokens: 0, outputPerMillionTokens: 0 },
+};
+
+let customPricing: PricingTable = {};
+
+/**
+ * Set prices that override the built-in table process-wide
+ *
+ * @param pricing - Prices by model or `provider/model` key; undefined
+ * restores the built-in table
+ */
+export function setModelPricing(pricing: PricingTable | undefined): void {
+  customPricing = pricing ?? {};
+}
+
+/**
+ * Find the price of a provider's model
+ *
+ * Call overrides take precedence over process-wide prices, which take
+ * precedence over the built-in table. Within them the longest matching key
+ * wins, so `gpt-4o-mini` prices `gpt-4o-mini-2024-07-18` even though
+ * `gpt-4o` matches it too.
+ *
+ * @param provider - Name of the provider adapter
+ * @param model - Model id the call used
+ * @param overrides - Prices of the call's `pricing` option
+ * @returns The model's price, or undefined if no key matches
+ */
+export function resolveModelPricing(
+  provider: string,
+  model: string | undefined,
+  overrides?: PricingTable
+): ModelPricing | undefined {
+  if (!model) {
+    return undefined;
+  }
+
+  for (const table of [overrides, customPricing, BUILT_IN_MODEL_PRICING]) {
+    const key = table && findModelKey(table, provider, model);
+    if (table && key) {
+      return table[key];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Estimate the cost of token usage at a price
+ *
+ * @param usage - Tokens consumed
+ * @param pricing - Price of the model
+ * @returns Cost in USD
+ */
+export function estimateCost(usage: TokenUsage, pricing: ModelPricing): number {
+  const cost =
+    (usage.inputTokens * pricing.inputPerMillionTokens +
+      usage.outputTokens * pricing.outputPerMillionTokens) /
+    TOKENS_PER_MILLION;
+  return Math.round(cost * COST_PRECISION) / COST_PRECISION;
+}
+
+/**
+ * Add the estimated cost to a provider call's token usage
+ *
+ * Usage that already carries a cost reported by the provider is returned
+ * unchanged, as is usage of models without a known price.
+ *
+ * @param usage - Token usage of the call
+ * @param provider - Name of the provider adapter
+ * @param model - Model id the call used
+ * @param overrides - Prices of the call's `pricing` option
+ * @returns Token usage with `estimatedCost` when it could be determined
+ */
+export function priceTokenUsage(
+  usage: TokenUsage,
+  provider: string,
+  model: string | undefined,
+  overrides?: PricingTable
+): TokenUsage {
+  if (usage.estimatedCost !== undefined) {
+    return usage;
+  }
+  const pricing = resolveModelPricing(provider, model, overrides);
+  return pricing
+    ? { ...usage, estimatedCost: estimateCost(usage, pricing) }
+    : usage;
+}
+
+/**
+ * Find the key of a model table that matches a provider's model
+ *
+ * Keys are matched as described for `PricingTable`: provider-qualified keys
+ * outrank plain ones, and among those the longest matching prefix wins.
+ *
+ * @param table - Table keyed by model or `provider/model`
+ * @param provider - Name of the provider adapter
+ * @param model - Model id
+ * @returns The matching key, or undefined if none matches
+ */
+export function findModelKey(
+  table: Readonly<Record<string, unknown>>,
+  provider: string,
+  model: string
+): string | undefined {
+  const qualified = `${provider}/${model}`;
+  let match: { key: string; qualified: boolean; length: number } | undefined;
+
+  for (const key of Object.keys(table)) {
+    const prefix = key.endsWith('*') ? key.slice(0, -1) : key;
+    const isQualified = key.includes('/');
+    if (!(isQualified ? qualified : model).startsWith(prefix)) {
+      continue;
+    }
+    // Provider-qualified keys outrank plain ones, then longer keys win
+    if (
+      !match ||
+      (isQualified && !match.qualified) ||
+      (isQualified === match.qualified && prefix.length > match.length)
+    ) {
+      match = { key, qualified: isQualified, length: prefix.length };
+    }
+  }
+  return match?.key;
+}
@@ -0,0 +1,402 @@
+/**
+ * Prompt Templates
+ *
+ * Prompts are rendered from named template sets so their phrasing can be
+ * tuned per model without forking the prompt builder. The `default` set
+ * produces the original prompts; `terse`, `verbose` and `spanish` are
+ * built-in variants. A call or pipeline stage selects a set by name or
+ * overrides part of one, and applications can register their own sets and
+ * change the process-wide default.
+ */
+
+import type {
+  BuiltInPromptTemplateName,
+  PromptTemplate,
+  PromptTemplateOption,
+  PromptTemplates,
+  PromptTemplateVariables,
+} from '../types/prompt.js';
+
+/**
+ * Placeholders available to prompt templates
+ */
+export const PROMPT_TEMPLATE_VARIABLES: readonly (keyof PromptTemplateVariables)[] =
+  [
+    'schema',
+    'context',
+    'lens',
+    'input',
+    'example',
+    'attempt',
+    'urgency',
+    'feedback',
+  ];
+
+/**
+ * Template fields of a set, as opposed to its lists
+ */
+export const PROMPT_TEMPLATE_FIELDS: readonly (
+  | 'system'
+  | 'user'
+  | 'example'
+  | 'retry'
+)[] = ['system', 'user', 'example', 'retry'];
+
+const SECTION_PATTERN = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+
+/**
+ * System prompt of the default set, with its attempt-based requirements
+ */
+function defaultSystemTemplate({
+  schema,
+  context,
+  lens,
+  example,
+  attempt,
+}: PromptTemplateVariables): string {
+  // Progressive instruction intensity based on attempt number
+  const urgencyLevel =
+    attempt >= 3 ? 'CRITICAL' : attempt >= 2 ? 'IMPORTANT' : 'STANDARD';
+  const urgencyEmoji = attempt >= 3 ? '🚨 ' : attempt >= 2 ? '⚠️ ' : '';
+
+  // More explicit JSON requirements for later attempts
+  const jsonInstructions =
+    attempt >= 3
+      ? `
+      We need to retry again due to the previous responses not meeting validation requirements. 
+      Please respond with pure and valid JSON. 
+      It must START with "{" and END with "}". 
+      No text before or after the JSON object. 
+      Think hard about how to match these requirements so that we don't get another rejection.
+      `
+      : attempt >= 2
+        ? `
+        We need to retry due to the previous response not meeting validation requirements. 
+        Please respond with pure and valid JSON. Output MUST be valid JSON that parses correctly. 
+        No explanatory text, only the JSON response.
+        `
+        : `
+        Please respond with pure and valid JSON adhering exactly to the provided Schema.
+        Output MUST be valid JSON that parses correctly and is wrapped in curly braces.
+        `;
+
+  // Build different instructions based on whether schema is provided
+  const baseInstructions = schema
+    ? `Your task is to process all input data and return a valid JSON response. 
+       The JSON response needs to match the specified schema.
+       Any response not in JSON and not matching the schema will be rejected.
+
+${urgencyEmoji}${urgencyLevel} IMPORTANT REQUIREMENTS:
+1. ${jsonInstructions}
+2. Output MUST conform exactly to the provided schema
+3. All required fields MUST be present
+4. Field types MUST match exactly (string, number, boolean, etc.)
+5. ${attempt >= 2 ? 'Do not include any explanatory text, only the JSON response' : 'Ensure proper JSON escaping for special characters'}
+6. ${attempt >= 3 ? 'This is your final attempt - follow the schema exactly' : 'Ensure proper JSON escaping for special characters'}
+
+SCHEMA REQUIREMENTS:
+${schema}
+`
+    : `You are a helpful assistant. Process the provided input data and provide a suitable response in JSON format only. 
+
+${urgencyEmoji}${urgencyLevel} REQUIREMENTS:
+1. Provide a clear and helpful response
+2. Be informative and accurate
+3. Focus on understanding and processing the input data
+4. ${attempt >= 2 ? 'Be concise and direct in your response' : 'Provide detailed information as needed'}`;
+
+  const contextSection = context ? `\n\nCONTEXT:\n${context}` : '';
+
+  const lensSection = lens
+    ? `\n\nPERSPECTIVE:\nProcess and think about the input from this perspective: ${lens}`
+    : '';
+
+  // Add concrete example to demonstrate exact output format
+  const exampleSection = example
+    ? `\n\nEXAMPLE OUTPUT FORMAT:\nHere is an example of the exact JSON format expected:\n${example}\n\nYour response must follow this exact structure and formatting.`
+    : '';
+
+  return baseInstructions + contextSection + lensSection + exampleSection;
+}
+
+/**
+ * Built-in template sets
+ */
+export const BUILT_IN_PROMPT_TEMPLATES: Readonly<
+  Record<BuiltInPromptTemplateName, PromptTemplates>
+> = {
+  default: {
+    system: defaultSystemTemplate,
+    user: `Process the following input and return a JSON response matching the schema requirements:
+
+INPUT DATA:
+{{input}}
+
+Remember: Return only valid JSON that matches the schema. No explanatory text.`,
+    example: 'EXAMPLE OUTPUT FORMAT:\n{{example}}',
+    retry:
+      'PREVIOUS ATTEMPT FAILED VALIDATION:\n{{feedback}}\n\nPlease correct these issues and provide valid JSON matching the schema.',
+    defaultExamples: [
+      'Example: {"field": "value", "number": 42, "flag": true}',
+      'Example: {"items": [{"name": "item1"}, {"name": "item2"}]}',
+    ],
+    urgency: ['', '⚠️ IMPORTANT: ', '🚨 CRITICAL: '],
+  },
+  terse: {
+    system: `{{urgency}}Reply with valid JSON only.{{#schema}} It must match this schema:
+{{schema}}{{/schema}}{{#context}}
+
+Context: {{context}}{{/context}}{{#lens}}
+
+Perspective: {{lens}}{{/lens}}{{#example}}
+
+Example:
+{{example}}{{/example}}`,
+    user: 'Input:\n{{input}}',
+    example: 'Example:\n{{example}}',
+    retry: 'Previous reply was invalid:\n{{feedback}}\n\nFix it. JSON only.',
+    defaultExamples: [],
+    urgency: ['', 'IMPORTANT: ', 'FINAL ATTEMPT: '],
+  },
+  verbose: {
+    system: `You are a careful data extraction assistant. Read all of the input data, work out the values it contains and return them as a single JSON document.{{#attempt}}
+
+{{urgency}}This is attempt {{attempt}}. The previous response was rejected, so pay particular attention to the requirements below.{{/attempt}}
+
+REQUIREMENTS:
+1. Respond with valid JSON only: no explanations, no markdown fences, no text before or after the JSON.
+2. Escape special characters in strings so the JSON parses correctly.
+3. Do not invent values that are not supported by the input.{{#schema}}
+4. Include every required field and use exactly the types the schema specifies.
+5. Respect the enums, formats and length limits of the schema.
+
+SCHEMA REQUIREMENTS:
+{{schema}}{{/schema}}{{#context}}
+
+CONTEXT:
+Keep the following background in mind throughout the task:
+{{context}}{{/context}}{{#lens}}
+
+PERSPECTIVE:
+Process and think about the input from this perspective: {{lens}}{{/lens}}{{#example}}
+
+EXAMPLE OUTPUT FORMAT:
+The following example shows the exact structure and formatting expected. Use it for the shape of your response, not for its values:
+{{example}}{{/example}}`,
+    user: `Process the following input step by step. Check each value against the schema requirements before including it in your response.
+
+INPUT DATA:
+{{input}}
+
+When you are done, return only the JSON document.`,
+    example: 'EXAMPLE OUTPUT FORMAT:\n{{example}}',
+    retry: `PREVIOUS ATTEMPT FAILED VALIDATION:
+{{feedback}}
+
+Review each issue above, correct the affected fields and return the complete JSON document again. Keep the values that were already valid.`,
+    defaultExamples: [
+      'Example: {"field": "value", "number": 42, "flag": true}',
+      'Example: {"items": [{"name": "item1"}, {"name": "item2"}]}',
+    ],
+    urgency: ['', '⚠️ IMPORTANT: ', '🚨 CRITICAL: '],
+  },
+  spanish: {
+    system: `Tu tarea es procesar todos los datos de entrada y devolver una respuesta JSON válida.{{#attempt}}
+
+{{urgency}}Este es el intento {{attempt}}. La respuesta anterior fue rechazada.{{/attempt}}
+
+REQUISITOS:
+1. Responde solo con JSON válido, sin texto antes ni después.
+2. Escapa correctamente los caracteres especiales.{{#schema}}
+3. Incluye todos los campos obligatorios con exactamente los tipos indicados.
+
+REQUISITOS DEL ESQUEMA:
+{{schema}}{{/schema}}{{#context}}
+
+CONTEXTO:
+{{context}}{{/context}}{{#lens}}
+
+PERSPECTIVA:
+Procesa y analiza la entrada desde esta perspectiva: {{lens}}{{/lens}}{{#example}}
+
+FORMATO DE SALIDA DE EJEMPLO:
+{{example}}
+
+Tu respuesta debe seguir exactamente esta estructura.{{/example}}`,
+    user: `Procesa la siguiente entrada y devuelve una respuesta JSON que cumpla los requisitos del esquema:
+
+DATOS DE ENTRADA:
+{{input}}
+
+Recuerda: devuelve solo JSON válido que cumpla el esquema, sin texto explicativo.`,
+    example: 'FORMATO DE SALIDA DE EJEMPLO:\n{{example}}',
+    retry:
+      'EL INTENTO ANTERIOR NO PASÓ LA VALIDACIÓN:\n{{feedback}}\n\nCorrige estos problemas y devuelve JSON válido que cumpla el esquema.',
+    defaultExamples: [
+      'Ejemplo: {"campo": "valor", "numero": 42, "activo": true}',
+    ],
+    urgency: ['', '⚠️ IMPORTANTE: ', '🚨 CRÍTICO: '],
+  },
+};
+
+const registeredTemplates = new Map<string, PromptTemplates>();
+let defaultTemplates: PromptTemplates = BUILT_IN_PROMPT_TEMPLATES.default;
+
+/**
+ * Check whether a name refers to a built-in or registered template set
+ *
+ * @param name - Template set name
+ * @returns True if the name can be resolved
+ */
+export function isPromptTemplateName(name: string): boolean {
+  return name in BUILT_IN_PROMPT_TEMPLATES || registeredTemplates.has(name);
+}
+
+/**
+ * Resolve a template selection to a complete set
+ *
+ * Names resolve to built-in or registered sets. Overrides replace the
+ * fields they define in the set they extend, or in the process-wide
+ * default when they extend none.
+ *
+ * @param option - Template set name or overrides; the default set when omitted
+ * @returns Complete template set
+ * @throws Error if the name, or the set the overrides extend, is unknown
+ */
+export function resolvePromptTemplates(
+  option?: PromptTemplateOption
+): PromptTemplates {
+  if (option === undefined) {
+    return defaultTemplates;
+  }
+  if (typeof option === 'string') {
+    const templates =
+      registeredTemplates.get(option) ??
+      BUILT_IN_PROMPT_TEMPLATES[option as BuiltInPromptTemplateName];
+    if (!templates) {
+      throw new Error(`Unknown prompt template set: ${option}`);
+    }
+    return templates;
+  }
+
+  const { extends: base, ...overrides } = option;
+  return { ...resolvePromptTemplates(base), ...overrides };
+}
+
+/**
+ * Register a named template set
+ *
+ * The set can then be selected by name from options, pipeline stages and
+ * the CLI. Registering an existing name replaces the earlier set.
+ *
+ * @param name - Name of the set
+ * @param option - Overrides of another set, or the name of one to alias
+ * @throws Error for built-in names or an unknown base set
+ */
+export function registerPromptTemplates(
+  name: string,
+  option: PromptTemplateOption
+): void {
+  if (name in BUILT_IN_PROMPT_TEMPLATES) {
+    throw new Error(`Cannot replace built-in prompt template set: ${name}`);
+  }
+  registeredTemplates.set(name, resolvePromptTemplates(option));
+}
+
+/**
+ * Set the template set used when a call selects none
+ *
+ * @param option - Template set name or overrides; undefined restores the
+ * built-in `default` set
+ * @throws Error if the name, or the set the overrides extend, is unknown
+ */
+export function setDefaultPromptTemplates(
+  option: PromptTemplateOption | undefined
+): void {
+  defaultTemplates =
+    option === undefined
+      ? BUILT_IN_PROMPT_TEMPLATES.default
+      : resolvePromptTemplates(
+          typeof option === 'string'
+            ? option
+            : { extends: 'default', ...option }
+        );
+}
+
+/**
+ * Render a template with the given variables
+ *
+ * Sections are resolved before placeholders, and placeholders are replaced
+ * in a single pass, so template syntax inside variable values such as the
+ * input is left as it is. Unknown placeholders are kept verbatim.
+ *
+ * @param template - Template string or function
+ * @param variables - Values of the placeholders
+ * @returns Rendered text
+ */
+export function renderPromptTemplate(
+  template: PromptTemplate,
+  variables: PromptTemplateVariables
+): string {
+  if (typeof template === 'function') {
+    return template(variables);
+  }
+
+  const values = variables as unknown as Record<string, unknown>;
+  const renderSections = (text: string): string =>
+    text.replace(
+      SECTION_PATTERN,
+      (_section, kind: string, name: string, content: string) => {
+        const value = values[name];
+        const isSet = typeof value === 'number' ? value > 1 : Boolean(value);
+        return isSet === (kind === '#') ? renderSections(content) : '';
+      }
+    );
+
+  return renderSections(template).replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder, name: string) =>
+      name in values ? String(values[name]) : placeholder
+  );
+}
+
+/**
+ * Urgency prefix of an attempt
+ *
+ * @param templates - Template set providing the prefixes
+ * @param attemptNumber - Current attempt number, starting at 1
+ * @returns Prefix for the attempt; the last one for attempts beyond the list
+ */
+export function getUrgencyPrefix(
+  templates: PromptTemplates,
+  attemptNumber: number
+): string {
+  const { urgency } = templates;
+  return (
+    urgency[Math.min(Math.max(attemptNumber, 1), urgency.length) - 1] ?? ''
+  );
+}
+
+/**
+ * Find placeholders in a template string that no variable provides
+ *
+ * @param template - Template to check; functions have no placeholders
+ * @returns Names of the unknown placeholders and sections
+ */
+export function findUnknownPlaceholders(template: PromptTemplate): string[] {
+  if (typeof template === 'function') {
+    return [];
+  }
+
+  const unknown = new Set<string>();
+  for (const [, name] of template.matchAll(/\{\{[#^/]?(\w+)\}\}/g)) {
+    if (
+      name &&
+      !(PROMPT_TEMPLATE_VARIABLES as readonly string[]).includes(name)
+    ) {
+      unknown.add(name);
+    }
+  }
+  return [...unknown];
+}
@@ -7,7 +7,16 @@
  */
 
 import { z } from 'zod';
+import type {
+  PromptTemplates,
+  PromptTemplateVariables,
+} from '../types/prompt.js';
 import { debug } from '../utils/logger.js';
+import {
+  getUrgencyPrefix,
+  renderPromptTemplate,
+  resolvePromptTemplates,
+} from './prompt-templates.js';
 
 /**
  * Structured prompt parts for LLM processing
@@ -27,6 +36,10 @@ export interface PromptParts {
 
   /** Additional context or instructions */
   readonly additionalContext: string | undefined;
+
+  /** Template set and variables the parts were rendered with */
+  readonly templates?: PromptTemplates;
+  readonly variables?: PromptTemplateVariables;
 }
 
 /**
@@ -53,6 +66,9 @@ export interface PromptBuildOptions {
 
   /** Concrete example of valid output (user-provided or auto-generated) */
   readonly exampleOutput?: unknown;
+
+  /** Template set to render the prompt with (default: the process-wide default set) */
+  readonly templates?: PromptTemplates;
 }
 
 /**
@@ -70,40 +86,44 @@ export function buildPrompt(options: PromptBuildOptions): PromptParts {
     examples,
     attemptNumber = 1,
     exampleOutput,
+    templates = resolvePromptTemplates(),
   } = options;
 
   // Use user-provided example output only (no automatic generation)
   const concreteExample = exampleOutput;
 
-  // Generate schema description from Zod schema (only if schema provided)
-  const schemaDescription = schema
-    ? generateSchemaDescription(schema)
-    : undefined;
+  const variables: PromptTemplateVariables = {
+    // Generate schema description from Zod schema (only if schema provided)
+    schema: schema ? generateSchemaDescription(schema) : '',
+    context: context ?? '',
+    lens: lens ?? '',
+    input: typeof input === 'string' ? input : JSON.stringify(input, null, 2),
+    example: concreteExample ? JSON.stringify(concreteExample, null, 2) : '',
+    attempt: attemptNumber,
+    urgency: getUrgencyPrefix(templates, attemptNumber),
+    feedback: '',
+  };
 
-  // Build system prompt with schema instructions and attempt-based urgency
-  const systemPrompt = buildSystemPrompt(
-    schemaDescription,
-    context,
-    lens,
-    attemptNumber,
-    concreteExample
-  );
+  // Render system prompt with schema instructions and attempt-based urgency
+  const systemPrompt = renderPromptTemplate(templates.system, variables);
 
-  // Build user prompt with input data
-  const userPrompt = buildUserPrompt(input);
+  // Render user prompt with input data
+  const userPrompt = renderPromptTemplate(templates.user, variables);
 
   // Generate concrete examples for the examples array
   const concreteExamples =
     examples ||
     (concreteExample
-      ? [`EXAMPLE OUTPUT FORMAT:\n${JSON.stringify(concreteExample, null, 2)}`]
-      : getDefaultExamples());
+      ? [renderPromptTemplate(templates.example, variables)]
+      : [...templates.defaultExamples]);
 
   return {
     systemPrompt,
     userPrompt,
     examples: concreteExamples,
     additionalContext: context ?? undefined,
+    templates,
+    variables,
   };
 }
 
@@ -214,111 +234,6 @@ function generateBasicSchemaDescription(schema: z.ZodSchema<unknown>): string {
   return `A valid JSON value matching the ${schemaName} schema`;
 }
 
-/**
- * Build system prompt with schema instructions
- */
-function buildSystemPrompt(
-  schemaDescription: string | undefined,
-  context?: string,
-  lens?: string,
-  attemptNumber: number = 1,
-  concreteExample?: unknown
-): string {
-  // Progressive instruction intensity based on attempt number
-  const urgencyLevel =
-    attemptNumber >= 3
-      ? 'CRITICAL'
-      : attemptNumber >= 2
-        ? 'IMPORTANT'
-        : 'STANDARD';
-  const urgencyEmoji =
-    attemptNumber >= 3 ? '🚨 ' : attemptNumber >= 2 ? '⚠️ ' : '';
-
-  // More explicit JSON requirements for later attempts
-  const jsonInstructions =
-    attemptNumber >= 3
-      ? `
-      We need to retry again due to the previous responses not meeting validation requirements. 
-      Please respond with pure and valid JSON. 
-      It must START with "{" and END with "}". 
-      No text before or after the JSON object. 
-      Think hard about how to match these requirements so that we don't get another rejection.
-      `
-      : attemptNumber >= 2
-        ? `
-        We need to retry due to the previous response not meeting validation requirements. 
-        Please respond with pure and valid JSON. Output MUST be valid JSON that parses correctly. 
-        No explanatory text, only the JSON response.
-        `
-        : `
-        Please respond with pure and valid JSON adhering exactly to the provided Schema.
-        Output MUST be valid JSON that parses correctly and is wrapped in curly braces.
-        `;
-
-  // Build different instructions based on whether schema is provided
-  const baseInstructions = schemaDescription
-    ? `Your task is to process all input data and return a valid JSON response. 
-       The JSON response needs to match the specified schema.
-       Any response not in JSON and not matching the schema will be rejected.
-
-${urgencyEmoji}${urgencyLevel} IMPORTANT REQUIREMENTS:
-1. ${jsonInstructions}
-2. Output MUST conform exactly to the provided schema
-3. All required fields MUST be present
-4. Field types MUST match exactly (string, number, boolean, etc.)
-5. ${attemptNumber >= 2 ? 'Do not include any explanatory text, only the JSON response' : 'Ensure proper JSON escaping for special characters'}
-6. ${attemptNumber >= 3 ? 'This is your final attempt - follow the schema exactly' : 'Ensure proper JSON escaping for special characters'}
-
-SCHEMA REQUIREMENTS:
-${schemaDescription}
-`
-    : `You are a helpful assistant. Process the provided input data and provide a suitable response in JSON format only. 
-
-${urgencyEmoji}${urgencyLevel} REQUIREMENTS:
-1. Provide a clear and helpful response
-2. Be informative and accurate
-3. Focus on understanding and processing the input data
-4. ${attemptNumber >= 2 ? 'Be concise and direct in your response' : 'Provide detailed information as needed'}`;
-
-  const contextSection = context ? `\n\nCONTEXT:\n${context}` : '';
-
-  const lensSection = lens
-    ? `\n\nPERSPECTIVE:\nProcess and think about the input from this perspective: ${lens}`
-    : '';
-
-  // Add concrete example to demonstrate exact output format
-  const exampleSection = concreteExample
-    ? `\n\nEXAMPLE OUTPUT FORMAT:\nHere is an example of the exact JSON format expected:\n${JSON.stringify(concreteExample, null, 2)}\n\nYour response must follow this exact structure and formatting.`
-    : '';
-
-  return baseInstructions + contextSection + lensSection + exampleSection;
-}
-
-/**
- * Build user prompt with input data
- */
-function buildUserPrompt(input: unknown): string {
-  const inputString =
-    typeof input === 'string' ? input : JSON.stringify(input, null, 2);
-
-  return `Process the following input and return a JSON response matching the schema requirements:
-
-INPUT DATA:
-${inputString}
-
-Remember: Return only valid JSON that matches the schema. No explanatory text.`;
-}
-
-/**
- * Get default examples for common patterns
- */
-function getDefaultExamples(): string[] {
-  return [
-    'Example: {"field": "value", "number": 42, "flag": true}',
-    'Example: {"items": [{"name": "item1"}, {"name": "item2"}]}',
-  ];
-}
-
 /**
  * Build minimal prompt parts optimized for preload/context loading operations
  *
@@ -400,6 +315,9 @@ export function combinePromptParts(parts: PromptParts): string {
 /**
  * Augment existing prompt parts with error feedback
  *
+ * The feedback is rendered with the retry template of the set the parts
+ * were built with.
+ *
  * @param parts - Original prompt parts
  * @param errorFeedback - Error feedback to include
  * @returns Augmented prompt parts
@@ -408,9 +326,22 @@ export function augmentPromptWithErrors(
   parts: PromptParts,
   errorFeedback: string
 ): PromptParts {
+  const templates = parts.templates ?? resolvePromptTemplates();
+  const retrySection = renderPromptTemplate(templates.retry, {
+    schema: '',
+    context: '',
+    lens: '',
+    input: '',
+    example: '',
+    attempt: 1,
+    urgency: '',
+    ...parts.variables,
+    feedback: errorFeedback,
+  });
+
   return {
     ...parts,
     errorContext: errorFeedback,
-    userPrompt: `${parts.userPrompt}\n\nPREVIOUS ATTEMPT FAILED VALIDATION:\n${errorFeedback}\n\nPlease correct these issues and provide valid JSON matching the schema.`,
+    userPrompt: `${parts.userPrompt}\n\n${retrySection}`,
   };
 }
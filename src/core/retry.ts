@@ -8,10 +8,18 @@
 import {
   BASE_RETRY_DELAY_MS,
   isRetryableHttpStatus,
+  MAX_RATE_LIMIT_DELAY_MS,
   MAX_RETRY_DELAY_MS,
+  RATE_LIMIT_JITTER_MS,
   RETRY_DELAY_MULTIPLIER,
 } from '../shared/constants/index.js';
-import type { ProviderError, ValidationError } from '../types/errors.js';
+import type {
+  BudgetError,
+  ProviderError,
+  RetryStrategy,
+  ValidationError,
+} from '../types/errors.js';
+import type { EnhancedRetryAttempt } from '../types/retry.js';
 
 /**
  * Configuration for retry operations
@@ -44,16 +52,19 @@ export interface RetryResult<T> {
   readonly value?: T;
 
   /** The final error if operation failed */
-  readonly error?: ValidationError | ProviderError;
+  readonly error?: ValidationError | ProviderError | BudgetError;
 
   /** Number of attempts made */
   readonly attempts: number;
 
   /** All errors encountered during retry attempts */
-  readonly allErrors: Array<ValidationError | ProviderError>;
+  readonly allErrors: Array<ValidationError | ProviderError | BudgetError>;
 
   /** Total time spent retrying in milliseconds */
   readonly totalRetryTime: number;
+
+  /** Retries made and their strategies (only when a strategy selector was given) */
+  readonly retryHistory?: readonly EnhancedRetryAttempt[];
 }
 
 /**
@@ -66,10 +77,24 @@ export interface RetryWithFeedbackOptions {
   /** Base delay configuration */
   readonly baseDelay?: number;
 
-  /** Operation to retry - receives attempt number and previous error */
+  /**
+   * Selects the strategy for the next retry from the error that triggered it
+   * and the retries made so far. Without a selector, retries only carry the
+   * previous error.
+   */
+  readonly selectStrategy?: (
+    error: ValidationError | ProviderError,
+    history: readonly EnhancedRetryAttempt[]
+  ) => RetryStrategy;
+
+  /**
+   * Operation to retry - receives attempt number, previous error and the selected strategy.
+   * Returning a budget error ends the run without counting the attempt.
+   */
   readonly operation: (
     attemptNumber: number,
-    previousError?: ValidationError | ProviderError | undefined
+    previousError?: ValidationError | ProviderError | undefined,
+    strategy?: RetryStrategy
   ) => Promise<
     | {
         success: true;
@@ -79,7 +104,7 @@ export interface RetryWithFeedbackOptions {
     | {
         success: false;
         value?: never;
-        error: ValidationError | ProviderError;
+        error: ValidationError | ProviderError | BudgetError;
       }
   >;
 }
@@ -87,6 +112,15 @@ export interface RetryWithFeedbackOptions {
 /**
  * Execute an operation with intelligent retry and feedback
  *
+ * When a strategy selector is configured, each retry is given the strategy
+ * it selects and is recorded in the result's `retryHistory`.
+ *
+ * The wait before a retry depends on the failure: validation failures retry
+ * immediately, rate-limited provider errors wait the `retryAfter` (or
+ * `resetIn`) the provider reported plus a small jitter, and other provider
+ * errors back off exponentially from `baseDelay`. A rate limit that asks for
+ * a longer wait than `MAX_RATE_LIMIT_DELAY_MS` ends the run instead.
+ *
  * @template T - The expected return type of the operation
  * @param options - Retry configuration and operation
  * @returns Promise resolving to retry result
@@ -94,15 +128,40 @@ export interface RetryWithFeedbackOptions {
 export async function retryWithFeedback<T>(
   options: RetryWithFeedbackOptions
 ): Promise<RetryResult<T>> {
-  const { maxAttempts, baseDelay = BASE_RETRY_DELAY_MS, operation } = options;
+  const {
+    maxAttempts,
+    baseDelay = BASE_RETRY_DELAY_MS,
+    operation,
+    selectStrategy,
+  } = options;
   const startTime = Date.now();
-  const allErrors: Array<ValidationError | ProviderError> = [];
+  const allErrors: Array<ValidationError | ProviderError | BudgetError> = [];
+  const retryHistory: EnhancedRetryAttempt[] = [];
+  const withHistory = () => (selectStrategy ? { retryHistory } : {});
 
   let lastError: ValidationError | ProviderError | undefined;
+  let lastDelay = 0;
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     try {
-      const result = await operation(attempt, lastError);
+      let strategy: RetryStrategy | undefined;
+      if (selectStrategy && lastError) {
+        strategy = selectStrategy(lastError, retryHistory);
+        retryHistory.push(
+          createRetryAttempt(
+            attempt,
+            lastError,
+            strategy,
+            lastDelay,
+            attempt === maxAttempts,
+            retryHistory.at(-1)
+          )
+        );
+      }
+
+      const result = strategy
+        ? await operation(attempt, lastError, strategy)
+        : await operation(attempt, lastError);
 
       if (result.success) {
         return {
@@ -111,6 +170,20 @@ export async function retryWithFeedback<T>(
           attempts: attempt,
           allErrors,
           totalRetryTime: Date.now() - startTime,
+          ...withHistory(),
+        };
+      }
+
+      // The attempt was not made because it would exceed a budget
+      if (result.error?.type === 'budget') {
+        allErrors.push(result.error);
+        return {
+          success: false,
+          error: result.error,
+          attempts: attempt - 1,
+          allErrors,
+          totalRetryTime: Date.now() - startTime,
+          ...withHistory(),
         };
       }
 
@@ -119,21 +192,26 @@ export async function retryWithFeedback<T>(
         lastError = result.error;
         allErrors.push(result.error);
 
+        lastDelay = calculateAttemptDelay(result.error, attempt, baseDelay);
+
         // Check if error is retryable
-        if (!isErrorRetryable(result.error) || attempt === maxAttempts) {
+        if (
+          !isErrorRetryable(result.error) ||
+          attempt === maxAttempts ||
+          lastDelay > MAX_RATE_LIMIT_DELAY_MS
+        ) {
           return {
             success: false,
             error: result.error,
             attempts: attempt,
             allErrors,
             totalRetryTime: Date.now() - startTime,
+            ...withHistory(),
           };
         }
 
-        // Wait before next retry (except on last attempt)
-        if (attempt < maxAttempts) {
-          const delay = calculateRetryDelay(attempt - 1, baseDelay);
-          await sleep(delay);
+        if (lastDelay > 0) {
+          await sleep(lastDelay);
         }
       }
     } catch (error) {
@@ -156,6 +234,7 @@ export async function retryWithFeedback<T>(
         attempts: attempt,
         allErrors,
         totalRetryTime: Date.now() - startTime,
+        ...withHistory(),
       };
     }
   }
@@ -249,6 +328,100 @@ export async function retryOperation<T>(
   };
 }
 
+/**
+ * Record a strategy-driven retry with the feedback it carries
+ */
+function createRetryAttempt(
+  attemptNumber: number,
+  error: ValidationError | ProviderError,
+  strategy: RetryStrategy,
+  delayMs: number,
+  finalAttempt: boolean,
+  previous: EnhancedRetryAttempt | undefined
+): EnhancedRetryAttempt {
+  const feedback =
+    error.type === 'validation' ? error.structuredFeedback : undefined;
+  const previousFailureMode =
+    error.type === 'validation' ? error.failureMode : undefined;
+
+  return {
+    attemptNumber,
+    error,
+    delayMs,
+    attemptedAt: new Date(),
+    finalAttempt,
+    strategy,
+    ...(previousFailureMode && { previousFailureMode }),
+    feedbackProvided: {
+      summary: feedback?.problemSummary ?? error.message,
+      specificInstructions: feedback?.correctionInstructions ?? [],
+      ...(feedback?.exampleCorrection && {
+        exampleCorrection: feedback.exampleCorrection,
+      }),
+    },
+    attemptAnalysis: {
+      strategyChange: previous !== undefined && previous.strategy !== strategy,
+      feedbackStrength: getFeedbackStrength(strategy),
+      contextEnhancement:
+        strategy === 'reinforce_context' || strategy === 'session_reset',
+      schemaReinforcement:
+        strategy === 'fix_structure' ||
+        strategy === 'provide_field_guidance' ||
+        strategy === 'clarify_constraints' ||
+        strategy === 'add_examples',
+    },
+  };
+}
+
+/**
+ * Rate how strongly a strategy departs from plain validation feedback
+ */
+function getFeedbackStrength(
+  strategy: RetryStrategy
+): 'light' | 'moderate' | 'aggressive' {
+  switch (strategy) {
+    case 'provide_field_guidance':
+    case 'clarify_constraints':
+    case 'demand_json_format':
+      return 'light';
+    case 'fix_structure':
+    case 'add_examples':
+    case 'reinforce_context':
+      return 'moderate';
+    case 'progressive_refinement':
+    case 'simplify_request':
+    case 'session_reset':
+      return 'aggressive';
+  }
+}
+
+/**
+ * Calculate the wait before retrying a failed attempt
+ *
+ * Validation failures need no wait, since the provider is fine and only the
+ * response has to change. Rate limits are waited out as reported, with
+ * jitter; everything else backs off exponentially.
+ */
+function calculateAttemptDelay(
+  error: ValidationError | ProviderError,
+  attemptNumber: number,
+  baseDelay: number
+): number {
+  if (error.type === 'validation') {
+    return 0;
+  }
+
+  const waitSeconds =
+    error.rateLimitInfo?.retryAfter ?? error.rateLimitInfo?.resetIn;
+  if (waitSeconds !== undefined) {
+    return Math.round(
+      waitSeconds * 1000 + Math.random() * RATE_LIMIT_JITTER_MS
+    );
+  }
+
+  return calculateRetryDelay(attemptNumber - 1, baseDelay);
+}
+
 /**
  * Calculate retry delay with exponential backoff
  */
@@ -0,0 +1,358 @@
+/**
+ * Chunked Array Generation
+ *
+ * Long lists are where models give up: a schema demanding a hundred items
+ * tends to produce a truncated response and an `incomplete_response`
+ * failure. Chunking requests the items in batches within the run's session,
+ * drops items an earlier batch already returned and validates the assembled
+ * array against the original schema.
+ */
+
+import { z } from 'zod';
+import type {
+  ArrayChunkingConfig,
+  AttemptProvider,
+  ChunkingResult,
+  ProviderAdapter,
+  SessionManager,
+  StructuredOutputMode,
+  TokenUsage,
+} from '../../types/index.js';
+import { info, warn } from '../../utils/logger.js';
+import { extractSchemaInfo } from '../../utils/schema-analyzer.js';
+import { type BudgetTracker, createBudgetTracker } from '../budget.js';
+import { validateJson } from '../validation.js';
+import type { ProcessedConfiguration } from './configuration-manager.js';
+import {
+  addTokenUsage,
+  type ExecutionResult,
+  executeWithRetry,
+  runSemanticValidators,
+} from './execution-engine.js';
+import { getSessionSpend } from './session-coordinator.js';
+
+/**
+ * Top-level array schema that can be generated in batches
+ */
+export interface ChunkableArray {
+  /** Schema of the array items */
+  readonly element: z.ZodType;
+
+  /** Minimum length required by the schema */
+  readonly minItems?: number;
+
+  /** Maximum length allowed by the schema */
+  readonly maxItems?: number;
+}
+
+/**
+ * Detect a top-level array schema and its length bounds
+ *
+ * @param schema - Schema of the pipeline run
+ * @returns Item schema and length bounds, or undefined for non-array schemas
+ */
+export function detectChunkableArray(
+  schema: z.ZodType
+): ChunkableArray | undefined {
+  const schemaInfo = extractSchemaInfo(schema);
+  if (schemaInfo.type !== 'array' || !(schema instanceof z.ZodArray)) {
+    return undefined;
+  }
+
+  const { minItems, maxItems } = schemaInfo.jsonSchema ?? {};
+  return {
+    element: (schema as z.ZodArray<z.ZodTypeAny>).element,
+    ...(typeof minItems === 'number' && { minItems }),
+    ...(typeof maxItems === 'number' && { maxItems }),
+  };
+}
+
+/**
+ * Identity of an item for de-duplication across batches
+ *
+ * @param item - Array item
+ * @param dedupeKey - Item field or key function; the whole item when omitted
+ * @returns String identifying the item
+ */
+export function getItemKey(
+  item: unknown,
+  dedupeKey?: ArrayChunkingConfig['dedupeKey']
+): string {
+  const key =
+    typeof dedupeKey === 'function'
+      ? dedupeKey(item)
+      : typeof dedupeKey === 'string' && typeof item === 'object' && item
+        ? (item as Record<string, unknown>)[dedupeKey]
+        : item;
+
+  return typeof key === 'string' ? key : (JSON.stringify(key) ?? String(key));
+}
+
+/**
+ * Build the input of one batch
+ *
+ * The original input is followed by the batch request and, from the second
+ * batch on, the keys of the items already collected so providers without
+ * session memory avoid repeating them too.
+ *
+ * @param input - Original pipeline input
+ * @param chunkNumber - Number of this batch, starting at 1
+ * @param requested - Items requested in this batch
+ * @param collectedKeys - Keys of the items collected so far
+ * @returns Input text for the batch
+ */
+export function buildChunkInput(
+  input: unknown,
+  chunkNumber: number,
+  requested: number,
+  collectedKeys: readonly string[]
+): string {
+  const inputText =
+    typeof input === 'string' ? input : JSON.stringify(input, null, 2);
+  const request = `BATCH ${chunkNumber}: Return the next ${requested} items of the list as a JSON array.`;
+  if (collectedKeys.length === 0) {
+    return `${inputText}\n\n${request}`;
+  }
+
+  return `${inputText}\n\n${request} ${collectedKeys.length} items were returned in earlier batches; do not repeat any of them:\n${collectedKeys.join(', ')}`;
+}
+
+/**
+ * Execute the pipeline as a series of array batches
+ *
+ * Batches are requested until the target number of items is collected, a
+ * batch adds no new items or `maxChunks` is reached. Each batch runs with
+ * the usual retry loop against a schema for its items; enhancement rounds
+ * apply to whole results and are skipped, and semantic validators check the
+ * assembled array once. Schemas that are not top-level arrays are executed
+ * normally.
+ *
+ * @template T The expected output type
+ * @param config Processed pipeline configuration with chunking enabled
+ * @param provider Provider adapter for LLM calls
+ * @param sessionId Optional session shared by all batches
+ * @param sessionManager Optional session manager for attempt metrics
+ * @param budgetTracker Spend tracker shared with the session priming of the same call
+ * @returns Execution result with the assembled array or the failure
+ */
+export async function executeChunked<T>(
+  config: ProcessedConfiguration<T>,
+  provider: ProviderAdapter,
+  sessionId?: string,
+  sessionManager?: SessionManager,
+  budgetTracker?: BudgetTracker
+): Promise<ExecutionResult<T>> {
+  const array = detectChunkableArray(config.schema);
+  if (!array || !config.chunking) {
+    warn('Chunking requires a top-level array schema; generating normally', {
+      schemaType: extractSchemaInfo(config.schema).type,
+    });
+    return executeWithRetry(
+      config,
+      provider,
+      sessionId,
+      sessionManager,
+      budgetTracker
+    );
+  }
+
+  const chunking = config.chunking;
+  const maxItems = array.maxItems ?? Number.POSITIVE_INFINITY;
+  const target = Math.min(
+    chunking.targetItems ?? array.minItems ?? chunking.chunkSize,
+    maxItems
+  );
+
+  const items: unknown[] = [];
+  const collectedKeys: string[] = [];
+  const seen = new Set<string>();
+  const confidences: number[] = [];
+  let attempts = 0;
+  let tokenUsage: TokenUsage | undefined;
+  let structuredOutput: StructuredOutputMode | undefined;
+  const attemptProviders: AttemptProvider[] = [];
+  let chunks = 0;
+  let duplicatesRemoved = 0;
+  let activeSessionId = sessionId;
+  // Budgets span every batch, and a model switch carries over to later ones
+  const budget =
+    budgetTracker ??
+    (config.budget &&
+      createBudgetTracker(
+        config.budget,
+        await getSessionSpend(sessionManager, config.sessionId ?? sessionId)
+      ));
+  let model: string | undefined;
+  let selfAssessmentSkipped = false;
+
+  const summary = (): ChunkingResult => ({
+    chunks,
+    items: items.length,
+    duplicatesRemoved,
+  });
+  const runDetails = () => ({
+    ...(tokenUsage && { tokenUsage }),
+    ...(activeSessionId !== sessionId && { sessionId: activeSessionId }),
+    ...(attemptProviders.length > 0 && { attemptProviders }),
+    ...(model && { model }),
+    ...(config.cache && { cache: config.cache.getStats() }),
+    chunking: summary(),
+  });
+
+  info('Starting chunked array generation', {
+    targetItems: target,
+    chunkSize: chunking.chunkSize,
+    maxChunks: chunking.maxChunks,
+    dedupeKey:
+      typeof chunking.dedupeKey === 'function'
+        ? 'function'
+        : chunking.dedupeKey,
+  });
+
+  while (items.length < target && chunks < chunking.maxChunks) {
+    chunks++;
+    const requested = Math.min(chunking.chunkSize, target - items.length);
+    const batch = await executeWithRetry(
+      createChunkConfig(
+        model ? { ...config, model } : config,
+        array,
+        buildChunkInput(config.input, chunks, requested, collectedKeys)
+      ),
+      provider,
+      activeSessionId,
+      sessionManager,
+      budget
+    );
+    // Attempts are numbered across batches
+    for (const entry of batch.attemptProviders ?? []) {
+      attemptProviders.push({ ...entry, attempt: attempts + entry.attempt });
+    }
+    attempts += batch.attempts;
+    tokenUsage = addTokenUsage(tokenUsage, batch.tokenUsage);
+    activeSessionId = batch.sessionId ?? activeSessionId;
+    model = batch.model ?? model;
+
+    if (!batch.success || !batch.value) {
+      return {
+        success: false,
+        error: batch.error,
+        attempts,
+        ...runDetails(),
+      };
+    }
+
+    let added = 0;
+    for (const item of batch.value) {
+      if (items.length >= maxItems) {
+        break;
+      }
+      const key = getItemKey(item, chunking.dedupeKey);
+      if (seen.has(key)) {
+        duplicatesRemoved++;
+        continue;
+      }
+      seen.add(key);
+      collectedKeys.push(key);
+      items.push(item);
+      added++;
+    }
+    if (batch.confidence !== undefined) {
+      confidences.push(batch.confidence);
+    }
+    selfAssessmentSkipped ||= batch.budgetSkipped?.selfAssessment === true;
+    structuredOutput = batch.structuredOutput ?? structuredOutput;
+
+    info(`Chunk ${chunks} added ${added} items`, {
+      chunk: chunks,
+      returned: batch.value.length,
+      added,
+      collected: items.length,
+      targetItems: target,
+    });
+
+    if (added === 0) {
+      warn('Chunk returned no new items; stopping chunked generation', {
+        chunk: chunks,
+        collected: items.length,
+      });
+      break;
+    }
+  }
+
+  // The assembled array must satisfy the original schema, length included
+  const validation = validateJson(
+    config.schema,
+    JSON.stringify(items),
+    'strict'
+  );
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error,
+      attempts,
+      ...runDetails(),
+    };
+  }
+
+  let skippedJudges: readonly string[] | undefined;
+  if (config.validators) {
+    const semantic = await runSemanticValidators(
+      config,
+      provider,
+      validation.value,
+      budget
+    );
+    tokenUsage = addTokenUsage(tokenUsage, semantic.tokenUsage);
+    budget?.record(semantic.tokenUsage);
+    if (semantic.error) {
+      return {
+        success: false,
+        error: semantic.error,
+        attempts,
+        ...runDetails(),
+      };
+    }
+    skippedJudges = semantic.skippedJudges;
+  }
+
+  return {
+    success: true,
+    value: validation.value,
+    attempts,
+    // A list is only as reliable as its weakest batch
+    ...(confidences.length > 0 && { confidence: Math.min(...confidences) }),
+    ...(structuredOutput && { structuredOutput }),
+    ...runDetails(),
+    ...((skippedJudges || selfAssessmentSkipped) && {
+      budgetSkipped: {
+        ...(skippedJudges && { judges: skippedJudges }),
+        ...(selfAssessmentSkipped && { selfAssessment: true }),
+      },
+    }),
+  };
+}
+
+/**
+ * Configuration of one batch: the item array schema and the batch input,
+ * without whole-result enhancement rounds and semantic validators
+ */
+function createChunkConfig<T>(
+  config: ProcessedConfiguration<T>,
+  array: ChunkableArray,
+  input: string
+): ProcessedConfiguration<unknown[]> {
+  const {
+    chunking: _chunking,
+    enhancement: _enhancement,
+    validators: _validators,
+    exampleOutput,
+    ...base
+  } = config;
+
+  return {
+    ...base,
+    schema: z.array(array.element).min(1),
+    input,
+    ...(Array.isArray(exampleOutput) && { exampleOutput }),
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * Confidence Estimator for Runner Pipeline
+ *
+ * Turns the signals the execution engine collects while producing a valid
+ * result (attempts needed, failure modes of failed attempts, enhancement
+ * stability and an optional self-assessment by the model) into a confidence
+ * score between 0 and 1. A custom estimator can replace the heuristic.
+ */
+
+import { DEFAULT_SELF_ASSESSMENT_WEIGHT } from '../../shared/constants/index.js';
+import type { ErrorFailureMode } from '../../types/errors.js';
+import type {
+  ConfidenceConfiguration,
+  ConfidenceSignals,
+} from '../../types/index.js';
+import { debug, warn } from '../../utils/logger.js';
+
+/**
+ * Share of the score lost when every allowed attempt was needed
+ */
+const RETRY_PENALTY = 0.3;
+
+/**
+ * Share of the score lost when every enhancement round failed validation
+ */
+const UNSTABLE_ENHANCEMENT_PENALTY = 0.1;
+
+/**
+ * Penalty per distinct failure mode seen before the valid result
+ *
+ * Formatting slips say little about the content that eventually validated;
+ * misunderstanding the task or the structure says more.
+ */
+const FAILURE_MODE_PENALTIES: Readonly<Record<ErrorFailureMode, number>> = {
+  json_parse_failure: 0.05,
+  wrong_format: 0.05,
+  extra_unknown_fields: 0.05,
+  schema_validation: 0.05,
+  field_type_mismatch: 0.05,
+  nested_validation: 0.05,
+  missing_required_fields: 0.1,
+  constraint_violation: 0.1,
+  incomplete_response: 0.1,
+  hallucinated_structure: 0.2,
+  provider_refusal: 0.2,
+  context_confusion: 0.2,
+  semantic_inconsistency: 0.2,
+};
+
+const DEFAULT_SELF_ASSESSMENT_INSTRUCTION =
+  'Rate how confident you are that the output above is correct and complete for the input. ' +
+  'Respond with only a JSON object of the form {"confidence": <number between 0 and 1>}.';
+
+/**
+ * Built-in confidence heuristic
+ *
+ * Starts from 1 and subtracts a penalty for retries (scaled by how much of
+ * the retry budget was used), one penalty per distinct failure mode and a
+ * penalty for enhancement rounds that failed validation. A self-assessment,
+ * when present, is blended in with the given weight.
+ *
+ * @param signals Signals collected during execution
+ * @param selfAssessmentWeight Weight of the self-assessment (0-1)
+ * @returns Confidence score between 0 and 1
+ */
+export function estimateConfidence(
+  signals: ConfidenceSignals,
+  selfAssessmentWeight: number = DEFAULT_SELF_ASSESSMENT_WEIGHT
+): number {
+  let score = 1;
+
+  if (signals.attempts > 1) {
+    score -=
+      (RETRY_PENALTY * (signals.attempts - 1)) /
+      Math.max(1, signals.maxAttempts - 1);
+  }
+
+  for (const mode of new Set(signals.failureModes)) {
+    score -= FAILURE_MODE_PENALTIES[mode] ?? 0;
+  }
+
+  const { enhancement } = signals;
+  if (enhancement && enhancement.rounds > 0) {
+    score -=
+      (UNSTABLE_ENHANCEMENT_PENALTY *
+        (enhancement.rounds - enhancement.validRounds)) /
+      enhancement.rounds;
+  }
+
+  score = clampScore(score);
+  if (signals.selfAssessment !== undefined) {
+    score =
+      score * (1 - selfAssessmentWeight) +
+      signals.selfAssessment * selfAssessmentWeight;
+  }
+
+  return roundScore(score);
+}
+
+/**
+ * Scores a validated value with the configured estimator
+ *
+ * Falls back to the built-in heuristic when a custom estimator throws or
+ * returns something other than a finite number, so a faulty estimator never
+ * fails an otherwise valid result.
+ *
+ * @param signals Signals collected during execution
+ * @param value The validated value
+ * @param config Confidence configuration from the options
+ * @returns Confidence score between 0 and 1
+ */
+export function scoreConfidence(
+  signals: ConfidenceSignals,
+  value: unknown,
+  config?: ConfidenceConfiguration
+): number {
+  const weight = config?.selfAssessmentWeight ?? DEFAULT_SELF_ASSESSMENT_WEIGHT;
+
+  if (config?.estimator) {
+    try {
+      const custom = config.estimator(signals, value);
+      if (Number.isFinite(custom)) {
+        return roundScore(clampScore(custom));
+      }
+      warn('Custom confidence estimator returned a non-numeric score', {
+        score: custom,
+      });
+    } catch (estimatorError) {
+      warn('Custom confidence estimator failed, using built-in heuristic', {
+        error:
+          estimatorError instanceof Error
+            ? estimatorError.message
+            : 'Unknown error',
+      });
+    }
+  }
+
+  const score = estimateConfidence(signals, weight);
+  debug('Confidence estimated', { score, signals });
+  return score;
+}
+
+/**
+ * Builds the prompt asking the model to rate its own output
+ *
+ * @param input Original pipeline input
+ * @param value The validated value
+ * @param instruction Custom rating instruction (optional)
+ * @returns Self-assessment prompt
+ */
+export function buildSelfAssessmentPrompt(
+  input: unknown,
+  value: unknown,
+  instruction?: string
+): string {
+  const renderedInput =
+    typeof input === 'string' ? input : JSON.stringify(input, null, 2);
+
+  return [
+    `[INPUT]\n${renderedInput}`,
+    `[OUTPUT]\n${JSON.stringify(value, null, 2)}`,
+    `[TASK]\n${instruction ?? DEFAULT_SELF_ASSESSMENT_INSTRUCTION}`,
+  ].join('\n\n');
+}
+
+/**
+ * Reads a confidence rating from a self-assessment response
+ *
+ * Accepts `{"confidence": 0.8}` or a bare number; values between 1 and 100
+ * are read as percentages.
+ *
+ * @param response Raw provider response
+ * @returns Rating between 0 and 1, or undefined if none could be read
+ */
+export function parseSelfAssessment(response: string): number | undefined {
+  const match =
+    response.match(/"confidence"\s*:\s*(\d+(?:\.\d+)?)/) ??
+    response.match(/(\d+(?:\.\d+)?)/);
+  if (!match?.[1]) {
+    return undefined;
+  }
+
+  const rating = Number(match[1]);
+  if (rating > 100) {
+    return undefined;
+  }
+  return rating > 1 ? rating / 100 : rating;
+}
+
+function clampScore(score: number): number {
+  return Math.min(1, Math.max(0, score));
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
@@ -7,16 +7,23 @@
  */
 
 import { z } from 'zod';
+import { createResponseCache, type ResponseCache } from '../../cache/index.js';
 import {
+  DEFAULT_CHUNK_SIZE,
+  DEFAULT_MAX_CHUNKS,
+  DEFAULT_MAX_PRIMING_TOKENS,
   DEFAULT_MAX_TOKENS,
+  DEFAULT_MIN_ATTEMPTS_BEFORE_ESCALATION,
   DEFAULT_MODEL,
   DEFAULT_RETRIES,
+  DEFAULT_SALVAGE_MAX_INVALID_FIELD_RATIO,
   DEFAULT_TEMPERATURE,
 } from '../../shared/constants/index.js';
-import type { Options, PreloadOptions, ProviderAdapter, EnhancementConfiguration } from '../../types/index.js';
+import type { ArrayChunkingConfig, ConfidenceConfiguration, Options, PreloadOptions, ProviderAdapter, EnhancementConfiguration, JsonExtractionMode, PartialSalvageConfig, RetryStrategyConfig, SemanticValidator, SessionPrimingConfig, SessionPrimingStage, StructuredOutputMode, PromptTemplateOption, PromptTemplates, PricingTable, BudgetOptions, ResponseCacheOptions } from '../../types/index.js';
 import type { LogLevel } from '../../utils/logger.js';
 import { debug, info, warn } from '../../utils/logger.js';
 import { extractSchemaInfo } from '../../utils/schema-analyzer.js';
+import { findUnknownPlaceholders, isPromptTemplateName, PROMPT_TEMPLATE_FIELDS, resolvePromptTemplates } from '../prompt-templates.js';
 
 /**
  * Processed enhancement configuration with defaults applied
@@ -44,6 +51,18 @@ export interface ProcessedConfiguration<T> {
   readonly exampleOutput?: T;
   readonly successMessage?: string;
   readonly enhancement?: ProcessedEnhancementConfiguration;
+  readonly confidence?: ConfidenceConfiguration;
+  readonly sessionPriming?: SessionPrimingConfig;
+  readonly retryStrategies?: RetryStrategyConfig;
+  readonly jsonExtraction?: JsonExtractionMode;
+  readonly partialSalvage?: PartialSalvageConfig;
+  readonly chunking?: ArrayChunkingConfig;
+  readonly validators?: readonly SemanticValidator<T>[];
+  readonly structuredOutput?: StructuredOutputMode;
+  readonly promptTemplates?: PromptTemplates;
+  readonly pricing?: PricingTable;
+  readonly budget?: BudgetOptions;
+  readonly cache?: ResponseCache;
   readonly logLevel?: LogLevel;
   readonly providerOptions: {
     readonly maxTokens: number;
@@ -66,6 +85,18 @@ export interface NormalizedOptions<T> {
   readonly exampleOutput?: T;
   readonly successMessage?: string;
   readonly enhancement?: number | EnhancementConfiguration;
+  readonly confidence?: ConfidenceConfiguration;
+  readonly sessionPriming?: boolean | Partial<SessionPrimingConfig>;
+  readonly retryStrategies?: boolean | Partial<RetryStrategyConfig>;
+  readonly jsonExtraction?: JsonExtractionMode;
+  readonly partialSalvage?: boolean | Partial<PartialSalvageConfig>;
+  readonly chunking?: Options<T>['chunking'];
+  readonly validators?: readonly SemanticValidator<T>[];
+  readonly structuredOutput?: StructuredOutputMode;
+  readonly promptTemplates?: PromptTemplateOption;
+  readonly pricing?: PricingTable;
+  readonly budget?: BudgetOptions;
+  readonly cache?: boolean | ResponseCacheOptions;
   readonly logLevel?: LogLevel;
   readonly providerOptions?: Record<string, unknown>;
 }
@@ -126,6 +157,18 @@ export function validateAndNormalizeOptions<T>(
     }),
     ...(options.successMessage !== undefined && { successMessage: options.successMessage }),
     ...(options.enhancement !== undefined && { enhancement: options.enhancement }),
+    ...(options.confidence !== undefined && { confidence: options.confidence }),
+    ...(options.sessionPriming !== undefined && { sessionPriming: options.sessionPriming }),
+    ...(options.retryStrategies !== undefined && { retryStrategies: options.retryStrategies }),
+    ...(options.jsonExtraction !== undefined && { jsonExtraction: options.jsonExtraction }),
+    ...(options.partialSalvage !== undefined && { partialSalvage: options.partialSalvage }),
+    ...(options.chunking !== undefined && { chunking: options.chunking }),
+    ...(options.validators !== undefined && { validators: options.validators }),
+    ...(options.structuredOutput !== undefined && { structuredOutput: options.structuredOutput }),
+    ...(options.promptTemplates !== undefined && { promptTemplates: options.promptTemplates }),
+    ...(options.pricing !== undefined && { pricing: options.pricing }),
+    ...(options.budget !== undefined && { budget: options.budget }),
+    ...(options.cache !== undefined && { cache: options.cache }),
     ...(options.logLevel !== undefined && { logLevel: options.logLevel }),
     ...(options.providerOptions !== undefined && {
       providerOptions: options.providerOptions,
@@ -166,6 +209,10 @@ export function processRunnerConfiguration<T>(
   if (normalizedOptions.enhancement !== undefined) {
     processedEnhancement = processEnhancementConfiguration(normalizedOptions.enhancement);
   }
+  const sessionPriming = processSessionPrimingConfiguration(normalizedOptions.sessionPriming);
+  const retryStrategies = processRetryStrategyConfiguration(normalizedOptions.retryStrategies);
+  const partialSalvage = processPartialSalvageConfiguration(normalizedOptions.partialSalvage);
+  const chunking = processChunkingConfiguration(normalizedOptions.chunking);
 
   // Apply default configuration values
   const processedConfig: ProcessedConfiguration<T> = {
@@ -189,6 +236,18 @@ export function processRunnerConfiguration<T>(
     }),
     ...(normalizedOptions.successMessage && { successMessage: normalizedOptions.successMessage }),
     ...(processedEnhancement && { enhancement: processedEnhancement }),
+    ...(normalizedOptions.confidence && { confidence: normalizedOptions.confidence }),
+    ...(sessionPriming && { sessionPriming }),
+    ...(retryStrategies && { retryStrategies }),
+    ...(normalizedOptions.jsonExtraction && { jsonExtraction: normalizedOptions.jsonExtraction }),
+    ...(partialSalvage && { partialSalvage }),
+    ...(chunking && { chunking }),
+    ...(normalizedOptions.validators?.length && { validators: normalizedOptions.validators }),
+    ...(normalizedOptions.structuredOutput && { structuredOutput: normalizedOptions.structuredOutput }),
+    ...(normalizedOptions.promptTemplates !== undefined && { promptTemplates: resolvePromptTemplates(normalizedOptions.promptTemplates) }),
+    ...(normalizedOptions.pricing && { pricing: normalizedOptions.pricing }),
+    ...(normalizedOptions.budget && { budget: normalizedOptions.budget }),
+    ...(normalizedOptions.cache && { cache: createResponseCache(normalizedOptions.cache) }),
     ...(normalizedOptions.logLevel && { logLevel: normalizedOptions.logLevel }),
   };
 
@@ -204,6 +263,18 @@ export function processRunnerConfiguration<T>(
     hasEnhancement: Boolean(processedConfig.enhancement),
     enhancementRounds: processedConfig.enhancement?.rounds,
     enhancementStrategy: processedConfig.enhancement?.strategy,
+    selfAssessment: processedConfig.confidence?.selfAssessment ?? false,
+    sessionPriming: Boolean(processedConfig.sessionPriming),
+    retryStrategies: Boolean(processedConfig.retryStrategies),
+    jsonExtraction: processedConfig.jsonExtraction,
+    partialSalvage: Boolean(processedConfig.partialSalvage),
+    chunking: Boolean(processedConfig.chunking),
+    validators: processedConfig.validators?.length ?? 0,
+    structuredOutput: processedConfig.structuredOutput ?? 'prompt',
+    promptTemplates: typeof normalizedOptions.promptTemplates === 'string' ? normalizedOptions.promptTemplates : normalizedOptions.promptTemplates ? 'custom' : 'default',
+    pricingOverrides: Object.keys(processedConfig.pricing ?? {}).length,
+    budget: processedConfig.budget,
+    cache: Boolean(processedConfig.cache),
   });
 
   return processedConfig;
@@ -380,6 +451,72 @@ export function validateRunnerOptions<T>(
     }
   }
 
+  // Validate confidence configuration if provided
+  if (options.confidence !== undefined) {
+    errors.push(...validateConfidenceConfiguration(options.confidence));
+  }
+
+  // Validate session priming configuration if provided
+  if (options.sessionPriming !== undefined) {
+    errors.push(...validateSessionPrimingConfiguration(options.sessionPriming));
+  }
+
+  // Validate retry strategy configuration if provided
+  if (options.retryStrategies !== undefined) {
+    errors.push(...validateRetryStrategyConfiguration(options.retryStrategies));
+  }
+
+  // Validate JSON extraction mode if provided
+  if (options.jsonExtraction !== undefined) {
+    const validModes: readonly JsonExtractionMode[] = ['strict', 'tolerant', 'lenient'];
+    if (!validModes.includes(options.jsonExtraction)) {
+      errors.push(`Options configuration error: jsonExtraction must be one of: ${validModes.join(', ')}`);
+    }
+  }
+
+  // Validate partial salvage configuration if provided
+  if (options.partialSalvage !== undefined) {
+    errors.push(...validatePartialSalvageConfiguration(options.partialSalvage));
+  }
+
+  // Validate chunking configuration if provided
+  if (options.chunking !== undefined) {
+    errors.push(...validateChunkingConfiguration(options.chunking));
+  }
+
+  // Validate semantic validators if provided
+  if (options.validators !== undefined) {
+    errors.push(...validateSemanticValidators(options.validators));
+  }
+
+  // Validate structured output mode if provided
+  if (options.structuredOutput !== undefined) {
+    const validModes: readonly StructuredOutputMode[] = ['native', 'prompt'];
+    if (!validModes.includes(options.structuredOutput)) {
+      errors.push(`Options configuration error: structuredOutput must be one of: ${validModes.join(', ')}`);
+    }
+  }
+
+  // Validate prompt templates if provided
+  if (options.promptTemplates !== undefined) {
+    errors.push(...validatePromptTemplates(options.promptTemplates));
+  }
+
+  // Validate pricing overrides if provided
+  if (options.pricing !== undefined) {
+    errors.push(...validatePricing(options.pricing, 'Options'));
+  }
+
+  // Validate budgets if provided
+  if (options.budget !== undefined) {
+    errors.push(...validateBudget(options.budget));
+  }
+
+  // Validate response cache options if provided
+  if (options.cache !== undefined) {
+    errors.push(...validateCache(options.cache));
+  }
+
   // Validate exampleOutput matches schema type if both provided
   if (options.exampleOutput !== undefined && options.schema) {
     try {
@@ -513,6 +650,102 @@ function processEnhancementConfiguration(
   };
 }
 
+/**
+ * Process session priming configuration with defaults
+ *
+ * @param sessionPriming Raw session priming option (boolean or partial configuration)
+ * @returns Complete priming configuration, or undefined when priming is disabled
+ */
+function processSessionPrimingConfiguration(
+  sessionPriming: boolean | Partial<SessionPrimingConfig> | undefined
+): SessionPrimingConfig | undefined {
+  if (!sessionPriming) {
+    return undefined;
+  }
+
+  const overrides = sessionPriming === true ? {} : sessionPriming;
+  if (overrides.enabled === false) {
+    return undefined;
+  }
+
+  return {
+    enabled: true,
+    usePrimingConversation: overrides.usePrimingConversation ?? true,
+    includeDomainContext: overrides.includeDomainContext ?? true,
+    includeExamples: overrides.includeExamples ?? true,
+    maxPrimingTokens: overrides.maxPrimingTokens ?? DEFAULT_MAX_PRIMING_TOKENS,
+    ...(overrides.stages && { stages: overrides.stages }),
+  };
+}
+
+/**
+ * Process retry strategy configuration with defaults
+ *
+ * Strategy selection is opt-in; `true` enables it with default settings.
+ *
+ * @param retryStrategies Raw retry strategy option (boolean or partial configuration)
+ * @returns Complete strategy configuration, or undefined when strategies are disabled
+ */
+function processRetryStrategyConfiguration(
+  retryStrategies: boolean | Partial<RetryStrategyConfig> | undefined
+): RetryStrategyConfig | undefined {
+  if (!retryStrategies) {
+    return undefined;
+  }
+
+  const overrides = retryStrategies === true ? {} : retryStrategies;
+  return {
+    enableProgressiveRefinement: overrides.enableProgressiveRefinement ?? true,
+    minAttemptsBeforeEscalation:
+      overrides.minAttemptsBeforeEscalation ?? DEFAULT_MIN_ATTEMPTS_BEFORE_ESCALATION,
+  };
+}
+
+/**
+ * Process partial salvage configuration with defaults
+ *
+ * Salvage is opt-in; `true` enables it with default settings.
+ *
+ * @param partialSalvage Raw partial salvage option (boolean or partial configuration)
+ * @returns Complete salvage configuration, or undefined when salvage is disabled
+ */
+function processPartialSalvageConfiguration(
+  partialSalvage: boolean | Partial<PartialSalvageConfig> | undefined
+): PartialSalvageConfig | undefined {
+  if (!partialSalvage) {
+    return undefined;
+  }
+
+  const overrides = partialSalvage === true ? {} : partialSalvage;
+  return {
+    maxInvalidFieldRatio: overrides.maxInvalidFieldRatio ?? DEFAULT_SALVAGE_MAX_INVALID_FIELD_RATIO,
+  };
+}
+
+/**
+ * Process chunking configuration with defaults
+ *
+ * Chunking is opt-in; `true` enables it with default settings.
+ *
+ * @param chunking Raw chunking option (boolean or partial configuration)
+ * @returns Complete chunking configuration, or undefined when chunking is disabled
+ */
+function processChunkingConfiguration<T>(
+  chunking: Options<T>['chunking']
+): ArrayChunkingConfig | undefined {
+  if (!chunking) {
+    return undefined;
+  }
+
+  const overrides = chunking === true ? {} : chunking;
+  return {
+    chunkSize: overrides.chunkSize ?? DEFAULT_CHUNK_SIZE,
+    maxChunks: overrides.maxChunks ?? DEFAULT_MAX_CHUNKS,
+    ...(overrides.targetItems !== undefined && { targetItems: overrides.targetItems }),
+    ...(overrides.dedupeKey !== undefined && { dedupeKey: overrides.dedupeKey as NonNullable<ArrayChunkingConfig['dedupeKey']> }),
+  };
+}
+
 /**
  * Validate enhancement configuration
  *
@@ -589,6 +822,45 @@ function validateEnhancementConfiguration(
   return errors;
 }
 
+/**
+ * Validate confidence configuration
+ *
+ * @param confidence Confidence configuration to validate
+ * @returns Array of validation error messages
+ */
+function validateConfidenceConfiguration(
+  confidence: ConfidenceConfiguration
+): string[] {
+  const errors: string[] = [];
+
+  if (typeof confidence !== 'object' || confidence === null) {
+    errors.push('Options configuration error: confidence must be a configuration object');
+    return errors;
+  }
+
+  if (confidence.estimator !== undefined && typeof confidence.estimator !== 'function') {
+    errors.push('Options configuration error: confidence.estimator must be a function');
+  }
+
+  if (confidence.selfAssessment !== undefined && typeof confidence.selfAssessment !== 'boolean') {
+    errors.push('Options configuration error: confidence.selfAssessment must be a boolean');
+  }
+
+  if (confidence.selfAssessmentPrompt !== undefined && typeof confidence.selfAssessmentPrompt !== 'string') {
+    errors.push('Options configuration error: confidence.selfAssessmentPrompt must be a string');
+  }
+
+  if (confidence.selfAssessmentWeight !== undefined) {
+    if (typeof confidence.selfAssessmentWeight !== 'number') {
+      errors.push('Options configuration error: confidence.selfAssessmentWeight must be a number');
+    } else if (confidence.selfAssessmentWeight < 0 || confidence.selfAssessmentWeight > 1) {
+      errors.push('Options configuration error: confidence.selfAssessmentWeight must be between 0 and 1');
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Validate that a user-provided example matches the schema
  *
@@ -661,6 +933,7 @@ export interface ProcessedPreloadConfiguration {
   readonly model: string;
   readonly validateInput: z.ZodSchema<unknown> | undefined;
   readonly logLevel: LogLevel | undefined;
+  readonly pricing: PricingTable | undefined;
   readonly providerOptions: {
     readonly maxTokens: number;
     readonly temperature: number;
@@ -708,6 +981,7 @@ export function processPreloadConfiguration(
     model: options.model || DEFAULT_MODEL,
     validateInput: options.validateInput,
     logLevel: options.logLevel,
+    pricing: options.pricing,
     providerOptions: {
       maxTokens: DEFAULT_MAX_TOKENS,
       temperature: DEFAULT_TEMPERATURE,
@@ -791,6 +1065,11 @@ export function validatePreloadOptions(
     }
   }
 
+  // Validate pricing overrides if provided
+  if (options.pricing !== undefined) {
+    errors.push(...validatePricing(options.pricing, 'Preload'));
+  }
+
   // Validate input validation schema if provided
   if (options.validateInput !== undefined) {
     try {
@@ -815,3 +1094,338 @@ export function validatePreloadOptions(
     errors,
   };
 }
+
+/**
+ * Validate session priming configuration
+ *
+ * @param sessionPriming Session priming option to validate
+ * @returns Array of validation error messages
+ */
+function validateSessionPrimingConfiguration(
+  sessionPriming: boolean | Partial<SessionPrimingConfig>
+): string[] {
+  const errors: string[] = [];
+
+  if (typeof sessionPriming === 'boolean') {
+    return errors;
+  }
+
+  if (typeof sessionPriming !== 'object' || sessionPriming === null) {
+    errors.push('Options configuration error: sessionPriming must be a boolean or configuration object');
+    return errors;
+  }
+
+  for (const flag of ['enabled', 'usePrimingConversation', 'includeDomainContext', 'includeExamples'] as const) {
+    if (sessionPriming[flag] !== undefined && typeof sessionPriming[flag] !== 'boolean') {
+      errors.push(`Options configuration error: sessionPriming.${flag} must be a boolean`);
+    }
+  }
+
+  if (sessionPriming.maxPrimingTokens !== undefined) {
+    if (typeof sessionPriming.maxPrimingTokens !== 'number' || !Number.isInteger(sessionPriming.maxPrimingTokens)) {
+      errors.push('Options configuration error: sessionPriming.maxPrimingTokens must be an integer');
+    } else if (sessionPriming.maxPrimingTokens <= 0) {
+      errors.push('Options configuration error: sessionPriming.maxPrimingTokens must be positive');
+    }
+  }
+
+  if (sessionPriming.stages !== undefined) {
+    const validStages: readonly SessionPrimingStage[] = [
+      'schema_introduction',
+      'domain_context',
+      'format_demonstration',
+      'constraint_explanation',
+      'edge_case_handling',
+    ];
+    if (!Array.isArray(sessionPriming.stages)) {
+      errors.push('Options configuration error: sessionPriming.stages must be an array');
+    } else {
+      const invalid = sessionPriming.stages.filter(stage => !validStages.includes(stage));
+      if (invalid.length > 0) {
+        errors.push(`Options configuration error: sessionPriming.stages contains unknown stage(s) ${invalid.join(', ')}; valid stages are: ${validStages.join(', ')}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate retry strategy configuration
+ *
+ * @param retryStrategies Retry strategy option to validate
+ * @returns Array of validation error messages
+ */
+function validateRetryStrategyConfiguration(
+  retryStrategies: boolean | Partial<RetryStrategyConfig>
+): string[] {
+  const errors: string[] = [];
+
+  if (typeof retryStrategies === 'boolean') {
+    return errors;
+  }
+
+  if (typeof retryStrategies !== 'object' || retryStrategies === null) {
+    errors.push('Options configuration error: retryStrategies must be a boolean or configuration object');
+    return errors;
+  }
+
+  if (
+    retryStrategies.enableProgressiveRefinement !== undefined &&
+    typeof retryStrategies.enableProgressiveRefinement !== 'boolean'
+  ) {
+    errors.push('Options configuration error: retryStrategies.enableProgressiveRefinement must be a boolean');
+  }
+
+  if (retryStrategies.minAttemptsBeforeEscalation !== undefined) {
+    if (
+      typeof retryStrategies.minAttemptsBeforeEscalation !== 'number' ||
+      !Number.isInteger(retryStrategies.minAttemptsBeforeEscalation)
+    ) {
+      errors.push('Options configuration error: retryStrategies.minAttemptsBeforeEscalation must be an integer');
+    } else if (retryStrategies.minAttemptsBeforeEscalation < 1) {
+      errors.push('Options configuration error: retryStrategies.minAttemptsBeforeEscalation must be at least 1');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate partial salvage configuration
+ *
+ * @param partialSalvage Partial salvage option to validate
+ * @returns Array of validation error messages
+ */
+function validatePartialSalvageConfiguration(
+  partialSalvage: boolean | Partial<PartialSalvageConfig>
+): string[] {
+  const errors: string[] = [];
+
+  if (typeof partialSalvage === 'boolean') {
+    return errors;
+  }
+
+  if (typeof partialSalvage !== 'object' || partialSalvage === null) {
+    errors.push('Options configuration error: partialSalvage must be a boolean or configuration object');
+    return errors;
+  }
+
+  if (partialSalvage.maxInvalidFieldRatio !== undefined) {
+    const ratio = partialSalvage.maxInvalidFieldRatio;
+    if (typeof ratio !== 'number' || Number.isNaN(ratio) || ratio <= 0 || ratio > 1) {
+      errors.push('Options configuration error: partialSalvage.maxInvalidFieldRatio must be greater than 0 and at most 1');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate chunking configuration
+ *
+ * @param chunking Chunking option to validate
+ * @returns Array of validation error messages
+ */
+function validateChunkingConfiguration<T>(
+  chunking: NonNullable<Options<T>['chunking']>
+): string[] {
+  const errors: string[] = [];
+
+  if (typeof chunking === 'boolean') {
+    return errors;
+  }
+
+  if (typeof chunking !== 'object' || chunking === null) {
+    errors.push('Options configuration error: chunking must be a boolean or configuration object');
+    return errors;
+  }
+
+  for (const field of ['chunkSize', 'maxChunks', 'targetItems'] as const) {
+    const value = chunking[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 1)) {
+      errors.push(`Options configuration error: chunking.${field} must be a positive integer`);
+    }
+  }
+
+  if (chunking.dedupeKey !== undefined && typeof chunking.dedupeKey !== 'string' && typeof chunking.dedupeKey !== 'function') {
+    errors.push('Options configuration error: chunking.dedupeKey must be a field name or function');
+  }
+
+  return errors;
+}
+
+/**
+ * Validate semantic validators
+ *
+ * @param validators Semantic validators option to validate
+ * @returns Array of validation error messages
+ */
+function validateSemanticValidators<T>(
+  validators: readonly SemanticValidator<T>[]
+): string[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(validators)) {
+    errors.push('Options configuration error: validators must be an array');
+    return errors;
+  }
+
+  validators.forEach((validator, index) => {
+    if (typeof validator === 'function') {
+      return;
+    }
+    if (typeof validator !== 'object' || validator === null || typeof validator.judge !== 'string' || validator.judge.trim() === '') {
+      errors.push(`Options configuration error: validators[${index}] must be a function or an object with a non-empty judge criterion`);
+    } else if (validator.name !== undefined && typeof validator.name !== 'string') {
+      errors.push(`Options configuration error: validators[${index}].name must be a string`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate a prompt template selection
+ *
+ * @param promptTemplates Template set name or overrides to validate
+ * @returns Array of validation error messages
+ */
+function validatePromptTemplates(
+  promptTemplates: PromptTemplateOption
+): string[] {
+  const errors: string[] = [];
+
+  if (typeof promptTemplates === 'string') {
+    if (!isPromptTemplateName(promptTemplates)) {
+      errors.push(`Options configuration error: promptTemplates "${promptTemplates}" is not a built-in or registered template set`);
+    }
+    return errors;
+  }
+
+  if (typeof promptTemplates !== 'object' || promptTemplates === null) {
+    errors.push('Options configuration error: promptTemplates must be a template set name or an overrides object');
+    return errors;
+  }
+
+  if (promptTemplates.extends !== undefined && (typeof promptTemplates.extends !== 'string' || !isPromptTemplateName(promptTemplates.extends))) {
+    errors.push('Options configuration error: promptTemplates.extends must name a built-in or registered template set');
+  }
+
+  for (const field of PROMPT_TEMPLATE_FIELDS) {
+    const template = promptTemplates[field];
+    if (template === undefined) {
+      continue;
+    }
+    if (typeof template !== 'string' && typeof template !== 'function') {
+      errors.push(`Options configuration error: promptTemplates.${field} must be a string or function`);
+      continue;
+    }
+    const unknown = findUnknownPlaceholders(template);
+    if (unknown.length > 0) {
+      errors.push(`Options configuration error: promptTemplates.${field} uses unknown placeholders: ${unknown.join(', ')}`);
+    }
+  }
+
+  for (const field of ['defaultExamples', 'urgency'] as const) {
+    const list = promptTemplates[field];
+    if (list !== undefined && (!Array.isArray(list) || list.some(entry => typeof entry !== 'string'))) {
+      errors.push(`Options configuration error: promptTemplates.${field} must be an array of strings`);
+    }
+  }
+  if (Array.isArray(promptTemplates.urgency) && promptTemplates.urgency.length === 0) {
+    errors.push('Options configuration error: promptTemplates.urgency must not be empty');
+  }
+
+  return errors;
+}
+
+/**
+ * Validate model pricing overrides
+ *
+ * @param pricing Prices by model or provider/model key to validate
+ * @param label Prefix of the error messages ('Options' or 'Preload')
+ * @returns Array of validation error messages
+ */
+function validatePricing(
+  pricing: PricingTable,
+  label: 'Options' | 'Preload'
+): string[] {
+  if (typeof pricing !== 'object' || pricing === null || Array.isArray(pricing)) {
+    return [`${label} configuration error: pricing must be an object of model prices`];
+  }
+
+  const errors: string[] = [];
+  for (const [key, price] of Object.entries(pricing)) {
+    for (const field of ['inputPerMillionTokens', 'outputPerMillionTokens'] as const) {
+      const value = (price as Partial<Record<typeof field, unknown>> | null)?.[field];
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        errors.push(`${label} configuration error: pricing["${key}"].${field} must be a non-negative number`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validate token and cost budgets
+ *
+ * @param budget Budget options to validate
+ * @returns Array of validation error messages
+ */
+function validateBudget(budget: BudgetOptions): string[] {
+  if (typeof budget !== 'object' || budget === null || Array.isArray(budget)) {
+    return ['Options configuration error: budget must be an object'];
+  }
+
+  const errors: string[] = [];
+  for (const scope of ['perCall', 'perSession', 'perProcess'] as const) {
+    const limits = budget[scope];
+    if (limits === undefined) {
+      continue;
+    }
+    if (typeof limits !== 'object' || limits === null) {
+      errors.push(`Options configuration error: budget.${scope} must be an object`);
+      continue;
+    }
+    for (const field of ['maxTokens', 'maxCostUsd'] as const) {
+      const value = limits[field];
+      if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+        errors.push(`Options configuration error: budget.${scope}.${field} must be a non-negative number`);
+      }
+    }
+  }
+
+  if (budget.fallbackModel !== undefined && (typeof budget.fallbackModel !== 'string' || budget.fallbackModel.trim() === '')) {
+    errors.push('Options configuration error: budget.fallbackModel must be a non-empty string');
+  }
+  return errors;
+}
+
+/**
+ * Validate response cache options
+ *
+ * @param cache Cache flag or options to validate
+ * @returns Array of validation error messages
+ */
+function validateCache(cache: boolean | ResponseCacheOptions): string[] {
+  if (typeof cache === 'boolean') {
+    return [];
+  }
+  if (typeof cache !== 'object' || cache === null || Array.isArray(cache)) {
+    return ['Options configuration error: cache must be a boolean or an object. Example: cache: { ttlMs: 86400000 }'];
+  }
+
+  const errors: string[] = [];
+  if (cache.ttlMs !== undefined && (typeof cache.ttlMs !== 'number' || Number.isNaN(cache.ttlMs) || cache.ttlMs <= 0)) {
+    errors.push('Options configuration error: cache.ttlMs must be a positive number of milliseconds');
+  }
+  if (cache.refresh !== undefined && typeof cache.refresh !== 'boolean') {
+    errors.push('Options configuration error: cache.refresh must be a boolean');
+  }
+  const store = cache.store;
+  if (store !== undefined && (typeof store !== 'object' || store === null || typeof store.get !== 'function' || typeof store.set !== 'function' || typeof store.delete !== 'function')) {
+    errors.push('Options configuration error: cache.store must implement get, set and delete');
+  }
+  return errors;
+}
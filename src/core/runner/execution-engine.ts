@@ -6,14 +6,40 @@
  * refinement through retry loops. Manages the core LLM interaction cycle.
  */
 
+import type { z } from 'zod';
+import { getRateLimitDetails } from '../../adapters/rate-limit.js';
+import { createResponseCacheKey } from '../../cache/index.js';
+import { DEFAULT_MODEL } from '../../shared/constants/index.js';
+import type { ErrorFailureMode, RetryStrategy } from '../../types/errors.js';
 import type {
+  AttemptProvider,
+  ChunkingResult,
+  JsonRepair,
+} from '../../types/pipeline.js';
+import type { EnhancedRetryAttempt } from '../../types/retry.js';
+import type {
+  BudgetError,
+  BudgetSkippedChecks,
+  ConfidenceSignals,
   ProviderAdapter,
   ProviderError,
+  ProviderResponse,
+  ResponseCacheStats,
   ValidationError,
   SessionSuccessFeedback,
   SessionMetrics,
   SessionManager,
+  StructuredOutputMode,
+  TokenUsage,
 } from '../../types/index.js';
+import {
+  type BudgetTracker,
+  createBudgetTracker,
+  estimatePromptUsage,
+  recordProcessSpend,
+} from '../budget.js';
+import { priceTokenUsage } from '../pricing.js';
+import { estimatePromptTokens } from '../tokenizer.js';
 import { 
   debug, 
   info, 
@@ -37,7 +63,32 @@ import {
 import { retryWithFeedback } from '../retry.js';
 import { formatValidationErrorFeedback, validateJson } from '../validation.js';
 import type { ProcessedConfiguration } from './configuration-manager.js';
+import {
+  buildSelfAssessmentPrompt,
+  parseSelfAssessment,
+  scoreConfidence,
+} from './confidence-estimator.js';
 import { buildEnhancementPrompt, evaluateImprovement } from './enhancement-utilities.js';
+import {
+  buildSalvagePrompt,
+  mergeSalvagedResponse,
+  planSalvage,
+} from './partial-salvage.js';
+import {
+  buildJudgePrompt,
+  createSemanticValidationError,
+  getValidatorName,
+  isJudgeValidator,
+  normalizeCheckResult,
+  parseJudgeVerdict,
+  type SemanticFailure,
+} from './semantic-validator.js';
+import {
+  buildStrategyInstructions,
+  canResetSession,
+  selectRetryStrategy,
+} from './retry-strategy.js';
+import { getSessionSpend, resetSession } from './session-coordinator.js';
 
 /**
  * Execution result from the retry engine
@@ -45,8 +96,36 @@ import { buildEnhancementPrompt, evaluateImprovement } from './enhancement-utili
 export interface ExecutionResult<T> {
   readonly success: boolean;
   readonly value?: T | undefined;
-  readonly error?: ValidationError | ProviderError | undefined;
+  readonly error?: ValidationError | ProviderError | BudgetError | undefined;
   readonly attempts: number;
+  /** Token usage accumulated across all attempts and enhancement rounds */
+  readonly tokenUsage?: TokenUsage | undefined;
+  /** Raw provider response that passed validation (before enhancement rounds) */
+  readonly rawResponse?: string | undefined;
+  /** Confidence in the validated value (0-1), present on success */
+  readonly confidence?: number | undefined;
+  /** Signals the confidence score was derived from */
+  readonly confidenceSignals?: ConfidenceSignals | undefined;
+  /** Retries made and their strategies, when retry strategies are enabled */
+  readonly retryHistory?: readonly EnhancedRetryAttempt[] | undefined;
+  /** Session the run ended in, when a `session_reset` retry replaced the original */
+  readonly sessionId?: string | undefined;
+  /** Repairs JSON extraction applied to the accepted response, when any were needed */
+  readonly jsonRepairs?: readonly JsonRepair[] | undefined;
+  /** Retries that asked only for the invalid fields, when partial salvage was enabled */
+  readonly salvagedAttempts?: number | undefined;
+  /** Batches and items of a chunked array generation */
+  readonly chunking?: ChunkingResult | undefined;
+  /** Output mode of the accepted response, when native structured output was requested */
+  readonly structuredOutput?: StructuredOutputMode | undefined;
+  /** Provider that served each attempt, when the adapter reports it */
+  readonly attemptProviders?: readonly AttemptProvider[] | undefined;
+  /** Model the run switched to, when a budget required a cheaper one */
+  readonly model?: string | undefined;
+  /** Provider calls served from and missing the response cache, when caching is enabled */
+  readonly cache?: ResponseCacheStats | undefined;
+  /** Judge validators and self-assessment skipped to stay within budget */
+  readonly budgetSkipped?: BudgetSkippedChecks | undefined;
 }
 
 /**
@@ -55,19 +134,28 @@ export interface ExecutionResult<T> {
  * This function coordinates the core execution flow: prompt building,
  * provider calls, validation, and progressive refinement through retries.
  * It maintains state across retry attempts and provides detailed logging
- * for debugging complex interaction patterns.
+ * for debugging complex interaction patterns. With retry strategies enabled,
+ * each retry's prompt follows the strategy selected for the previous
+ * failure, and a `session_reset` strategy continues in a fresh session.
+ * With partial salvage enabled, a retry after a mostly valid object asks
+ * only for the invalid fields instead. With budgets configured, each attempt
+ * and enhancement round is checked against them before it is sent. With a
+ * response cache configured, every provider call is looked up in it first.
  *
  * @template T The expected output type
  * @param config Processed pipeline configuration
  * @param provider Provider adapter for LLM calls
  * @param sessionId Optional session ID for context reuse
+ * @param sessionManager Session manager for success feedback and session budgets
+ * @param budgetTracker Spend tracker shared with priming and earlier batches of the same call
  * @returns Execution result with validated data or error information
  */
 export async function executeWithRetry<T>(
   config: ProcessedConfiguration<T>,
   provider: ProviderAdapter,
   sessionId?: string,
-  sessionManager?: SessionManager
+  sessionManager?: SessionManager,
+  budgetTracker?: BudgetTracker
 ): Promise<ExecutionResult<T>> {
   // Build initial prompt from configuration
   const initialPromptParts = await buildInitialPrompt(config);
@@ -79,10 +167,58 @@ export async function executeWithRetry<T>(
     hasExampleOutput: Boolean(config.exampleOutput),
   });
 
+  const initialPrompt = combinePromptParts(initialPromptParts);
+  const estimationModel = getEstimationModel(config.model);
+  const promptEstimate = estimatePromptTokens(
+    initialPrompt,
+    provider.name,
+    estimationModel
+  );
+  if (promptEstimate.exceedsContextWindow) {
+    warn(`Prompt is estimated to exceed the context window of ${estimationModel ?? provider.name}`, {
+      estimatedTokens: promptEstimate.tokens,
+      contextWindow: promptEstimate.contextWindow,
+      tokenizer: promptEstimate.tokenizer,
+    });
+  } else {
+    debug('Estimated prompt size', { ...promptEstimate });
+  }
+
+  // Token usage is accumulated across every provider call made for this run
+  let tokenUsage: TokenUsage | undefined;
+  let rawResponse: string | undefined;
+  let jsonRepairs: readonly JsonRepair[] | undefined;
+  let structuredOutput: StructuredOutputMode | undefined;
+  let skippedJudges: readonly string[] | undefined;
+  let salvagedAttempts = 0;
+  const attemptProviders: AttemptProvider[] = [];
+  // Failure modes of failed validation attempts feed the confidence score
+  const failureModes: ErrorFailureMode[] = [];
+  // A session_reset retry replaces the session for the rest of the run
+  let activeSessionId = sessionId;
+  const strategyConfig = config.retryStrategies;
+  // A budget may switch the rest of the run to a cheaper model
+  let activeConfig = config;
+  let previousAttemptUsage: TokenUsage | undefined;
+  const budget =
+    budgetTracker ??
+    (config.budget &&
+      createBudgetTracker(
+        config.budget,
+        await getSessionSpend(sessionManager, config.sessionId ?? sessionId)
+      ));
+
   // Execute with retry logic
   const retryResult = await retryWithFeedback<T>({
     maxAttempts: config.retries + 1,
-    operation: async (attemptNumber, previousError) => {
+    ...(strategyConfig && {
+      selectStrategy: (error, history) =>
+        selectRetryStrategy(error, history, {
+          config: strategyConfig,
+          canResetSession: canResetSession(provider),
+        }),
+    }),
+    operation: async (attemptNumber, previousError, strategy) => {
       debug(
         `Starting execution attempt ${attemptNumber}/${config.retries + 1}`,
         {
@@ -90,25 +226,80 @@ export async function executeWithRetry<T>(
           maxAttempts: config.retries + 1,
           hasPreviousError: Boolean(previousError),
           previousErrorType: previousError?.type,
+          strategy,
         }
       );
 
+      if (strategy === 'session_reset') {
+        activeSessionId = await resetSessionForRetry(
+          config,
+          provider,
+          activeSessionId
+        );
+      }
+
+      if (budget) {
+        // The previous attempt is the best guide to what the next one uses
+        const plan = planBudgetedAttempt(
+          activeConfig,
+          provider,
+          budget,
+          previousAttemptUsage ??
+            estimatePromptUsage(
+              initialPrompt,
+              provider.name,
+              getEstimationModel(activeConfig.model)
+            )
+        );
+        if (plan.error) {
+          return {
+            success: false,
+            error: {
+              ...plan.error,
+              ...(previousError && { details: { previousError } }),
+            },
+          };
+        }
+        activeConfig = plan.config;
+      }
+
       const attemptResult = await executeAttempt(
-        config,
+        activeConfig,
         provider,
-        sessionId,
+        activeSessionId,
         initialPromptParts,
         attemptNumber,
         previousError,
-        sessionManager
+        sessionManager,
+        strategy,
+        budget
       );
+      tokenUsage = addTokenUsage(tokenUsage, attemptResult.tokenUsage);
+      budget?.record(attemptResult.tokenUsage);
+      previousAttemptUsage = attemptResult.tokenUsage;
+      if (attemptResult.salvaged) {
+        salvagedAttempts++;
+      }
+      if (attemptResult.provider) {
+        attemptProviders.push({
+          attempt: attemptNumber,
+          provider: attemptResult.provider,
+        });
+      }
 
       if (attemptResult.success) {
+        rawResponse = attemptResult.rawResponse;
+        jsonRepairs = attemptResult.repairs;
+        structuredOutput = attemptResult.structuredOutput;
+        skippedJudges = attemptResult.skippedJudges;
         return {
           success: true,
           value: attemptResult.value as T,
         };
       } else {
+        if (attemptResult.error?.type === 'validation') {
+          failureModes.push(attemptResult.error.failureMode);
+        }
         return {
           success: false,
           error: attemptResult.error || {
@@ -133,29 +324,469 @@ export async function executeWithRetry<T>(
     },
   });
 
+  const retryDetails = {
+    ...(retryResult.retryHistory && {
+      retryHistory: retryResult.retryHistory,
+    }),
+    ...(activeSessionId !== sessionId && { sessionId: activeSessionId }),
+    ...(config.partialSalvage && { salvagedAttempts }),
+    ...(attemptProviders.length > 0 && { attemptProviders }),
+    ...(activeConfig.model !== config.model && { model: activeConfig.model }),
+  };
+
+  if (!retryResult.success) {
+    return {
+      success: false,
+      value: retryResult.value,
+      error: retryResult.error,
+      attempts: retryResult.attempts,
+      ...(tokenUsage && { tokenUsage }),
+      ...retryDetails,
+      ...(config.cache && { cache: config.cache.getStats() }),
+    };
+  }
+
+  let value = retryResult.value as T;
+  let attempts = retryResult.attempts;
+  let enhancement: ConfidenceSignals['enhancement'];
+
   // Apply enhancement rounds if configured and initial execution succeeded
-  if (retryResult.success && config.enhancement && config.enhancement.rounds > 0) {
+  if (config.enhancement && config.enhancement.rounds > 0) {
     const enhancedResult = await applyEnhancementRounds(
-      config,
+      activeConfig,
+      provider,
+      activeSessionId,
+      value,
+      sessionManager,
+      budget
+    );
+    tokenUsage = addTokenUsage(tokenUsage, enhancedResult.tokenUsage);
+    value = enhancedResult.value;
+    attempts += enhancedResult.enhancementAttempts;
+    enhancement = enhancedResult.evaluation;
+  }
+
+  // Score the final value from the signals gathered along the way
+  let selfAssessment: number | undefined;
+  let selfAssessmentSkipped = false;
+  if (config.confidence?.selfAssessment) {
+    const assessment = await requestSelfAssessment(
+      activeConfig,
+      provider,
+      activeSessionId,
+      value,
+      budget
+    );
+    tokenUsage = addTokenUsage(tokenUsage, assessment.tokenUsage);
+    budget?.record(assessment.tokenUsage);
+    selfAssessment = assessment.rating;
+    selfAssessmentSkipped = assessment.skipped === true;
+  }
+
+  const confidenceSignals: ConfidenceSignals = {
+    attempts: retryResult.attempts,
+    maxAttempts: config.retries + 1,
+    failureModes,
+    ...(enhancement && { enhancement }),
+    ...(selfAssessment !== undefined && { selfAssessment }),
+  };
+  const confidence = scoreConfidence(
+    confidenceSignals,
+    value,
+    config.confidence
+  );
+
+  info('Result confidence estimated', {
+    confidence,
+    attempts: confidenceSignals.attempts,
+    failureModes: confidenceSignals.failureModes,
+    selfAssessment,
+  });
+
+  return {
+    success: true,
+    value,
+    error: undefined,
+    attempts,
+    ...(tokenUsage && { tokenUsage }),
+    ...(rawResponse !== undefined && { rawResponse }),
+    ...(jsonRepairs && { jsonRepairs }),
+    ...(config.structuredOutput === 'native' && {
+      structuredOutput: structuredOutput ?? 'prompt',
+    }),
+    confidence,
+    confidenceSignals,
+    ...retryDetails,
+    ...(config.cache && { cache: config.cache.getStats() }),
+    ...((skippedJudges || selfAssessmentSkipped) && {
+      budgetSkipped: {
+        ...(skippedJudges && { judges: skippedJudges }),
+        ...(selfAssessmentSkipped && { selfAssessment: true }),
+      },
+    }),
+  };
+}
+
+/**
+ * Creates a fresh session for a `session_reset` retry
+ *
+ * If the new session can't be created, the retry continues in the current
+ * one rather than failing the run.
+ *
+ * @template T The expected output type
+ * @param config Processed pipeline configuration
+ * @param provider Provider adapter with session support
+ * @param currentSessionId Session the failed attempts ran in
+ * @returns Session ID to use for the remaining attempts
+ */
+async function resetSessionForRetry<T>(
+  config: ProcessedConfiguration<T>,
+  provider: ProviderAdapter,
+  currentSessionId: string | undefined
+): Promise<string | undefined> {
+  const reset = await resetSession(config, provider, currentSessionId);
+  if (reset.success && reset.sessionId) {
+    return reset.sessionId;
+  }
+
+  warn('Session reset failed, retrying in the current session', {
+    provider: provider.name,
+    sessionId: currentSessionId || null,
+    error: reset.error?.message,
+  });
+  return currentSessionId;
+}
+
+/**
+ * Checks the next attempt against the run's budgets
+ *
+ * When the attempt would exceed a budget at the configured model and the
+ * budget names a fallback model it fits at, the run switches to that model
+ * instead of stopping.
+ *
+ * @template T The expected output type
+ * @param config Configuration of the attempt
+ * @param provider Provider adapter the attempt goes to
+ * @param budget Spend tracker of the run
+ * @param projected Projected token usage of the attempt
+ * @returns Configuration to run the attempt with, or the budget error that stops the run
+ */
+function planBudgetedAttempt<T>(
+  config: ProcessedConfiguration<T>,
+  provider: ProviderAdapter,
+  budget: BudgetTracker,
+  projected: TokenUsage
+): { config: ProcessedConfiguration<T>; error?: BudgetError } {
+  const error = budget.check(priceProjectedUsage(projected, provider, config));
+  if (!error) {
+    return { config };
+  }
+
+  const fallbackModel = config.budget?.fallbackModel;
+  if (fallbackModel && fallbackModel !== config.model) {
+    const fallbackConfig = { ...config, model: fallbackModel };
+    if (!budget.check(priceProjectedUsage(projected, provider, fallbackConfig))) {
+      warn(`Switching to ${fallbackModel} to stay within the ${error.scope} budget`, {
+        previousModel: config.model,
+        fallbackModel,
+        limit: error.limit,
+        maximum: error.maximum,
+        spent: error.spent,
+      });
+      return { config: fallbackConfig };
+    }
+  }
+
+  warn('Stopping the run: the next attempt would exceed its budget', {
+    scope: error.scope,
+    limit: error.limit,
+    maximum: error.maximum,
+    spent: error.spent,
+    projected: error.projected,
+  });
+  return { config, error };
+}
+
+/**
+ * Prices projected token usage at the model a call would use
+ *
+ * @template T The expected output type
+ * @param usage Projected token usage, priced or not
+ * @param provider Provider adapter the call goes to
+ * @param config Configuration of the call
+ * @returns Usage with its estimated cost at the call's model
+ */
+function priceProjectedUsage<T>(
+  usage: TokenUsage,
+  provider: ProviderAdapter,
+  config: ProcessedConfiguration<T>
+): TokenUsage {
+  return priceTokenUsage(
+    {
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      totalTokens: usage.totalTokens,
+    },
+    provider.name,
+    config.model,
+    config.pricing
+  );
+}
+
+/**
+ * Checks a judge or self-assessment request against the run's budgets
+ *
+ * @template T The expected output type
+ * @param budget Spend tracker of the run
+ * @param prompt Prompt of the request
+ * @param provider Provider adapter the request goes to
+ * @param config Configuration of the request
+ * @param unrecordedUsage Usage of calls made for the current attempt that the tracker hasn't recorded yet
+ * @returns The error of the first budget the request would exceed
+ */
+function checkSecondaryCallBudget<T>(
+  budget: BudgetTracker,
+  prompt: string,
+  provider: ProviderAdapter,
+  config: ProcessedConfiguration<T>,
+  unrecordedUsage?: TokenUsage
+): BudgetError | undefined {
+  const estimated = estimatePromptUsage(
+    prompt,
+    provider.name,
+    getEstimationModel(config.model)
+  );
+  const projected = addTokenUsage(unrecordedUsage, estimated) ?? estimated;
+  return budget.check(priceProjectedUsage(projected, provider, config));
+}
+
+/**
+ * Asks the model to rate its own validated output
+ *
+ * Failures are logged and yield no rating; they never fail the result.
+ * The request is skipped, and reported as such, when it would exceed a
+ * budget of the run.
+ *
+ * @template T The expected output type
+ * @param config Processed pipeline configuration
+ * @param provider Provider adapter for LLM calls
+ * @param sessionId Optional session ID for context reuse
+ * @param value The validated value to rate
+ * @param budget Spend tracker of the run
+ * @returns Rating (if one could be read), the call's token usage and whether it was skipped
+ */
+async function requestSelfAssessment<T>(
+  config: ProcessedConfiguration<T>,
+  provider: ProviderAdapter,
+  sessionId: string | undefined,
+  value: T,
+  budget?: BudgetTracker
+): Promise<{ rating?: number; tokenUsage?: TokenUsage; skipped?: boolean }> {
+  const prompt = buildSelfAssessmentPrompt(
+    config.input,
+    value,
+    config.confidence?.selfAssessmentPrompt
+  );
+  const budgetError =
+    budget && checkSecondaryCallBudget(budget, prompt, provider, config);
+  if (budgetError) {
+    warn('Skipping self-assessment to stay within budget', {
+      scope: budgetError.scope,
+      limit: budgetError.limit,
+      maximum: budgetError.maximum,
+      spent: budgetError.spent,
+    });
+    return { skipped: true };
+  }
+
+  try {
+    const providerResponse = await callProvider(
       provider,
       sessionId,
-      retryResult.value as T,
-      sessionManager
+      prompt,
+      config,
+      200 // Use distinct attempt number to separate from retries and enhancement
     );
-    
+    const rating = parseSelfAssessment(providerResponse.content || '');
+    if (rating === undefined) {
+      warn('Self-assessment response did not contain a rating', {
+        responseLength: providerResponse.content?.length || 0,
+      });
+    }
+
     return {
-      success: true,
-      value: enhancedResult.value,
-      error: undefined,
-      attempts: retryResult.attempts + enhancedResult.enhancementAttempts,
+      ...(rating !== undefined && { rating }),
+      ...(providerResponse.tokenUsage && {
+        tokenUsage: providerResponse.tokenUsage,
+      }),
     };
+  } catch (assessmentError) {
+    warn('Self-assessment request failed', {
+      error:
+        assessmentError instanceof Error
+          ? assessmentError.message
+          : 'Unknown error',
+    });
+    return {};
+  }
+}
+
+/**
+ * Runs the configured semantic validators on a schema-valid value
+ *
+ * Function validators receive the value and the pipeline input; judge
+ * validators are asked in a separate request outside the run's session, so
+ * the judgement doesn't leak into the generation context. A judge that
+ * can't be reached or gives no verdict is skipped rather than failing a
+ * possibly valid output, while a function validator that throws rejects
+ * the value with the thrown message. Judges whose request would exceed a
+ * budget of the run are skipped too, and reported in `skippedJudges` since
+ * the value was not checked by them.
+ *
+ * @template T The expected output type
+ * @param config Processed pipeline configuration with validators
+ * @param provider Provider adapter for judge requests
+ * @param value Schema-valid value to check
+ * @param budget Spend tracker of the run
+ * @param unrecordedUsage Usage of the attempt's calls the tracker hasn't recorded yet
+ * @returns Semantic validation error if any check failed, the judges' token usage and the judges skipped for budget
+ */
+export async function runSemanticValidators<T>(
+  config: ProcessedConfiguration<T>,
+  provider: ProviderAdapter,
+  value: T,
+  budget?: BudgetTracker,
+  unrecordedUsage?: TokenUsage
+): Promise<{
+  error?: ValidationError;
+  tokenUsage?: TokenUsage;
+  skippedJudges?: readonly string[];
+}> {
+  const failures: SemanticFailure[] = [];
+  const skippedJudges: string[] = [];
+  let tokenUsage: TokenUsage | undefined;
+
+  for (const [index, validator] of (config.validators ?? []).entries()) {
+    const name = getValidatorName(validator, index);
+
+    if (isJudgeValidator(validator)) {
+      const prompt = buildJudgePrompt(validator.judge, config.input, value);
+      const budgetError =
+        budget &&
+        checkSecondaryCallBudget(
+          budget,
+          prompt,
+          provider,
+          config,
+          addTokenUsage(unrecordedUsage, tokenUsage)
+        );
+      if (budgetError) {
+        warn('Skipping judge to stay within budget', {
+          validator: name,
+          scope: budgetError.scope,
+          limit: budgetError.limit,
+          maximum: budgetError.maximum,
+          spent: budgetError.spent,
+        });
+        skippedJudges.push(name);
+        continue;
+      }
+
+      try {
+        const providerResponse = await callProvider(
+          provider,
+          undefined,
+          prompt,
+          config,
+          300 + index // Distinct attempt number for judge requests
+        );
+        tokenUsage = addTokenUsage(tokenUsage, providerResponse.tokenUsage);
+
+        const issues = parseJudgeVerdict(
+          providerResponse.content || '',
+          validator.judge
+        );
+        if (issues === undefined) {
+          warn('Judge response did not contain a verdict', {
+            validator: name,
+            responseLength: providerResponse.content?.length || 0,
+          });
+        } else if (issues.length > 0) {
+          failures.push({ validator: name, issues });
+        }
+      } catch (judgeError) {
+        warn('Judge request failed', {
+          validator: name,
+          error:
+            judgeError instanceof Error ? judgeError.message : 'Unknown error',
+        });
+      }
+      continue;
+    }
+
+    try {
+      const issues = normalizeCheckResult(
+        await validator(value, config.input),
+        name
+      );
+      if (issues.length > 0) {
+        failures.push({ validator: name, issues });
+      }
+    } catch (validatorError) {
+      failures.push({
+        validator: name,
+        issues: [
+          {
+            message: `Validator threw: ${validatorError instanceof Error ? validatorError.message : String(validatorError)}`,
+          },
+        ],
+      });
+    }
   }
 
+  debug('Semantic validators completed', {
+    validators: config.validators?.length ?? 0,
+    failed: failures.map(failure => failure.validator),
+    skippedJudges,
+  });
+
   return {
-    success: retryResult.success,
-    value: retryResult.value,
-    error: retryResult.error,
-    attempts: retryResult.attempts,
+    ...(failures.length > 0 && {
+      error: createSemanticValidationError(value, failures),
+    }),
+    ...(tokenUsage && { tokenUsage }),
+    ...(skippedJudges.length > 0 && { skippedJudges }),
+  };
+}
+
+/**
+ * Adds provider-reported token usage onto a running total
+ *
+ * @param total Running total (undefined until the first report)
+ * @param usage Usage reported by the latest provider call
+ * @returns Combined token usage, or undefined if nothing has been reported
+ */
+export function addTokenUsage(
+  total: TokenUsage | undefined,
+  usage: TokenUsage | undefined
+): TokenUsage | undefined {
+  if (!usage) {
+    return total;
+  }
+  if (!total) {
+    return usage;
+  }
+
+  const estimatedCost =
+    total.estimatedCost !== undefined || usage.estimatedCost !== undefined
+      ? (total.estimatedCost ?? 0) + (usage.estimatedCost ?? 0)
+      : undefined;
+
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+    ...(estimatedCost !== undefined && { estimatedCost }),
   };
 }
 
@@ -184,6 +815,7 @@ async function buildInitialPrompt<T>(
       ...(config.context && { context: config.context }),
       ...(config.lens && { lens: config.lens }),
       ...(config.exampleOutput && { exampleOutput: config.exampleOutput }),
+      ...(config.promptTemplates && { templates: config.promptTemplates }),
     });
 
     info('Initial prompt built successfully', {
@@ -214,6 +846,8 @@ async function buildInitialPrompt<T>(
  * @param initialPromptParts Base prompt parts
  * @param attemptNumber Current attempt number (1-indexed)
  * @param previousError Error from previous attempt (if any)
+ * @param strategy Retry strategy selected for this attempt (if any)
+ * @param budget Spend tracker of the run, for the attempt's judge requests
  * @returns Promise resolving to attempt result
  */
 async function executeAttempt<T>(
@@ -223,21 +857,45 @@ async function executeAttempt<T>(
   initialPromptParts: PromptParts,
   attemptNumber: number,
   previousError?: ValidationError | ProviderError,
-  sessionManager?: SessionManager
+  sessionManager?: SessionManager,
+  strategy?: RetryStrategy,
+  budget?: BudgetTracker
 ): Promise<{
   success: boolean;
   value?: T;
   error?: ValidationError | ProviderError;
+  tokenUsage?: TokenUsage;
+  rawResponse?: string;
+  repairs?: readonly JsonRepair[];
+  salvaged?: boolean;
+  structuredOutput?: StructuredOutputMode;
+  provider?: string;
+  skippedJudges?: readonly string[];
 }> {
   const attemptStartTime = Date.now();
   try {
+    // Ask only for the invalid fields when the previous object is salvageable
+    const salvagePlan = config.partialSalvage
+      ? planSalvage(config.schema, previousError, config.partialSalvage)
+      : undefined;
+    if (salvagePlan) {
+      info(`Attempt ${attemptNumber} re-asks only for invalid fields`, {
+        attemptNumber,
+        invalidFields: salvagePlan.invalidFields,
+        keptFieldCount: Object.keys(salvagePlan.keptFields).length,
+      });
+    }
+
     // Build progressive prompt with attempt-specific enhancements
-    const finalPromptParts = buildProgressivePrompt(
-      config,
-      initialPromptParts,
-      attemptNumber,
-      previousError
-    );
+    const finalPromptParts = salvagePlan
+      ? buildSalvagePrompt(config, salvagePlan, attemptNumber)
+      : buildProgressivePrompt(
+          config,
+          initialPromptParts,
+          attemptNumber,
+          previousError,
+          strategy
+        );
 
     // Combine prompt parts into final prompt
     const finalPrompt = combinePromptParts(finalPromptParts);
@@ -254,24 +912,37 @@ async function executeAttempt<T>(
       sessionId,
       finalPrompt,
       config,
-      attemptNumber
+      attemptNumber,
+      salvagePlan?.partialSchema ?? config.schema
     );
 
     debug('Received provider response', {
       responseLength: providerResponse.content?.length || 0,
       hasTokenUsage: Boolean(providerResponse.tokenUsage),
       tokenUsage: providerResponse.tokenUsage,
+      structuredOutput: providerResponse.structuredOutput,
       attemptNumber,
     });
 
+    // Merge salvaged fields back before validating the whole object
+    const responseContent = salvagePlan
+      ? mergeSalvagedResponse(
+          salvagePlan,
+          providerResponse.content || '',
+          config.jsonExtraction
+        )
+      : providerResponse.content || '';
+
     // Validate response against schema
     const validationResult = await validateProviderResponse(
       config,
-      providerResponse.content || '',
+      responseContent,
       attemptNumber,
       sessionId,
       provider,
-      sessionManager
+      sessionManager,
+      budget,
+      providerResponse.tokenUsage
     );
 
     // Record attempt metrics for session tracking
@@ -287,7 +958,25 @@ async function executeAttempt<T>(
       );
     }
 
-    return validationResult;
+    const { tokenUsage: validatorTokenUsage, ...validationOutcome } =
+      validationResult;
+    const attemptTokenUsage = addTokenUsage(
+      providerResponse.tokenUsage,
+      validatorTokenUsage
+    );
+
+    return {
+      ...validationOutcome,
+      ...(attemptTokenUsage && { tokenUsage: attemptTokenUsage }),
+      rawResponse: responseContent,
+      ...(salvagePlan && { salvaged: true }),
+      ...(providerResponse.structuredOutput && {
+        structuredOutput: providerResponse.structuredOutput,
+      }),
+      ...(providerResponse.provider && {
+        provider: providerResponse.provider,
+      }),
+    };
   } catch (attemptError) {
     // Record failed attempt metrics for session tracking
     if (sessionId && sessionManager) {
@@ -313,7 +1002,8 @@ async function executeAttempt<T>(
       provider: provider.name,
     });
 
-    // Convert to provider error
+    // Convert to provider error, keeping any rate limit the adapter reported
+    const { statusCode, rateLimitInfo } = getRateLimitDetails(attemptError);
     const providerError: ProviderError = {
       type: 'provider',
       code: 'provider_call_failed',
@@ -321,6 +1011,8 @@ async function executeAttempt<T>(
       provider: provider.name,
       timestamp: new Date(),
       retryable: true,
+      ...(statusCode !== undefined && { statusCode }),
+      ...(rateLimitInfo && { rateLimitInfo }),
       details: {
         originalError: attemptError,
         attemptNumber,
@@ -342,13 +1034,15 @@ async function executeAttempt<T>(
  * @param initialPromptParts Base prompt parts
  * @param attemptNumber Current attempt number
  * @param previousError Error from previous attempt
+ * @param strategy Retry strategy whose instructions follow the error feedback
  * @returns Enhanced prompt parts
  */
 function buildProgressivePrompt<T>(
   config: ProcessedConfiguration<T>,
   initialPromptParts: PromptParts,
   attemptNumber: number,
-  previousError?: ValidationError | ProviderError
+  previousError?: ValidationError | ProviderError,
+  strategy?: RetryStrategy
 ): PromptParts {
   let finalPromptParts = initialPromptParts;
 
@@ -360,17 +1054,33 @@ function buildProgressivePrompt<T>(
       ...(config.context && { context: config.context }),
       ...(config.lens && { lens: config.lens }),
       ...(config.exampleOutput && { exampleOutput: config.exampleOutput }),
+      ...(config.promptTemplates && { templates: config.promptTemplates }),
       attemptNumber,
     });
 
-    // Add error feedback if retrying
+    // Add error feedback if retrying, followed by the strategy's instructions
+    const strategyInstructions =
+      previousError && strategy
+        ? buildStrategyInstructions(strategy, previousError, config)
+        : '';
+    // Urgency prefixes in the feedback follow the configured template set
+    const errorFeedback =
+      previousError &&
+      formatValidationErrorFeedback(
+        previousError as ValidationError,
+        attemptNumber,
+        undefined,
+        config.promptTemplates
+      );
     finalPromptParts = previousError
       ? augmentPromptWithErrors(
           progressivePromptParts,
-          formatValidationErrorFeedback(
-            previousError as ValidationError,
-            attemptNumber
-          )
+          [
+            errorFeedback,
+            strategyInstructions,
+          ]
+            .filter(Boolean)
+            .join('\n\n')
         )
       : progressivePromptParts;
 
@@ -379,21 +1089,39 @@ function buildProgressivePrompt<T>(
       errorType: previousError?.type,
       errorCode: previousError?.code,
       hasErrorFeedback: Boolean(previousError),
+      strategy,
     });
   }
 
   return finalPromptParts;
 }
 
+/**
+ * Model to resolve tokenizers and context windows for
+ *
+ * Runs without a configured model carry the default Claude model, which
+ * says nothing about other providers' tokenizers; those resolve from the
+ * provider name instead.
+ */
+function getEstimationModel(model: string): string | undefined {
+  return model === DEFAULT_MODEL ? undefined : model;
+}
+
 /**
  * Calls the provider with comprehensive error handling
  *
+ * With a response cache configured, a cached response to the same prompt,
+ * schema, provider, model and generation options is returned instead, and
+ * fresh responses are added to the cache. Calls in a session bypass the
+ * cache, as the session would never see a replayed exchange.
+ *
  * @template T The expected output type
  * @param provider Provider adapter
  * @param sessionId Optional session ID
  * @param prompt Final prompt to send
  * @param config Pipeline configuration
  * @param attemptNumber Current attempt number
+ * @param schema Schema of the expected output, sent for native structured output
  * @returns Provider response
  */
 async function callProvider<T>(
@@ -401,8 +1129,35 @@ async function callProvider<T>(
   sessionId: string | undefined,
   prompt: string,
   config: ProcessedConfiguration<T>,
-  attemptNumber: number
-) {
+  attemptNumber: number,
+  schema?: z.ZodType
+): Promise<ProviderResponse> {
+  const cacheKey =
+    config.cache &&
+    !sessionId &&
+    createResponseCacheKey({
+      prompt,
+      schema: schema ?? config.schema,
+      provider: provider.name,
+      model: config.model,
+      options: {
+        ...config.providerOptions,
+        structuredOutput: config.structuredOutput ?? 'prompt',
+      },
+    });
+  const cached = cacheKey && (await config.cache?.lookup(cacheKey));
+  if (cached) {
+    return {
+      content: cached.content,
+      ...(cached.structuredOutput && {
+        structuredOutput: cached.structuredOutput,
+      }),
+      ...(cached.provider && { provider: cached.provider }),
+      ...(cached.model && { model: cached.model }),
+      metadata: { cached: true, cachedAt: cached.createdAt },
+    };
+  }
+
   debug('Calling provider with final prompt', {
     provider: provider.name,
     model: config.model,
@@ -425,13 +1180,28 @@ async function callProvider<T>(
     requestId: `${provider.name}-${Date.now()}-${attemptNumber}`,
   });
 
-  const providerResponse = await provider.sendPrompt(sessionId || null, prompt, {
+  const rawResponse = await provider.sendPrompt(sessionId || null, prompt, {
     ...config.providerOptions,
     model: config.model,
     maxTokens: config.providerOptions.maxTokens,
     temperature: config.providerOptions.temperature,
+    ...(schema && config.structuredOutput === 'native' && { schema }),
   });
 
+  // Price the usage with the provider and model that actually served the call
+  const providerResponse = rawResponse.tokenUsage
+    ? {
+        ...rawResponse,
+        tokenUsage: priceTokenUsage(
+          rawResponse.tokenUsage,
+          rawResponse.provider ?? provider.name,
+          rawResponse.model ?? config.model,
+          config.pricing
+        ),
+      }
+    : rawResponse;
+  recordProcessSpend(providerResponse.tokenUsage);
+
   // Enhanced debug logging: Log the raw response for debugging
   const responseData: Parameters<typeof llmResponse>[0] = {
     provider: provider.name,
@@ -460,19 +1230,24 @@ async function callProvider<T>(
 
   llmResponse(responseData);
 
+  if (cacheKey) {
+    await config.cache?.save(cacheKey, providerResponse);
+  }
   return providerResponse;
 }
 
 /**
- * Validates provider response against schema
+ * Validates provider response against schema and semantic validators
  *
  * @template T The expected output type
  * @param config Pipeline configuration
  * @param responseContent Provider response content
  * @param attemptNumber Current attempt number
  * @param sessionId Optional session ID for success feedback
- * @param provider Optional provider adapter for sending feedback
- * @returns Validation result
+ * @param provider Optional provider adapter for sending feedback and judging
+ * @param budget Spend tracker of the run, for judge requests
+ * @param responseUsage Usage of the response, not yet recorded by the tracker
+ * @returns Validation result, with the token usage of judge validators
  */
 async function validateProviderResponse<T>(
   config: ProcessedConfiguration<T>,
@@ -480,14 +1255,52 @@ async function validateProviderResponse<T>(
   attemptNumber: number,
   sessionId?: string,
   provider?: ProviderAdapter,
-  sessionManager?: SessionManager
-): Promise<{ success: boolean; value?: T; error?: ValidationError }> {
+  sessionManager?: SessionManager,
+  budget?: BudgetTracker,
+  responseUsage?: TokenUsage
+): Promise<{
+  success: boolean;
+  value?: T;
+  error?: ValidationError;
+  repairs?: readonly JsonRepair[];
+  tokenUsage?: TokenUsage;
+  skippedJudges?: readonly string[];
+}> {
   debug('Validating response against schema', {
     contentLength: responseContent.length,
     attemptNumber,
   });
 
-  const validationResult = validateJson(config.schema, responseContent);
+  const validationResult = validateJson(
+    config.schema,
+    responseContent,
+    config.jsonExtraction
+  );
+
+  // Schema-valid output must also pass the semantic validators
+  const semantic =
+    validationResult.success && config.validators && provider
+      ? await runSemanticValidators(
+          config,
+          provider,
+          validationResult.value,
+          budget,
+          responseUsage
+        )
+      : undefined;
+  if (semantic?.error) {
+    warn(`Attempt ${attemptNumber} failed semantic validation`, {
+      attemptNumber,
+      errorMessage: semantic.error.message,
+      issues: semantic.error.structuredFeedback.specificIssues,
+    });
+
+    return {
+      success: false,
+      error: semantic.error,
+      ...(semantic.tokenUsage && { tokenUsage: semantic.tokenUsage }),
+    };
+  }
 
   if (validationResult.success) {
     info(`Attempt ${attemptNumber} succeeded - validation passed`, {
@@ -526,6 +1339,11 @@ async function validateProviderResponse<T>(
     return {
       success: true,
       value: validationResult.value,
+      ...(validationResult.repairs && { repairs: validationResult.repairs }),
+      ...(semantic?.tokenUsage && { tokenUsage: semantic.tokenUsage }),
+      ...(semantic?.skippedJudges && {
+        skippedJudges: semantic.skippedJudges,
+      }),
     };
   } else {
     warn(`Attempt ${attemptNumber} failed validation`, {
@@ -662,17 +1480,27 @@ async function sendSuccessFeedback<T>(
  * @param sessionId Optional session ID for context reuse
  * @param baseline The initial valid result to improve
  * @param sessionManager Optional session manager for metrics
- * @returns Enhanced result with attempt count
+ * @returns Enhanced result with attempt count and round outcomes
  */
 async function applyEnhancementRounds<T>(
   config: ProcessedConfiguration<T>,
   provider: ProviderAdapter,
   sessionId: string | undefined,
   baseline: T,
-  sessionManager?: SessionManager
-): Promise<{ value: T; enhancementAttempts: number }> {
+  sessionManager?: SessionManager,
+  budget?: BudgetTracker
+): Promise<{
+  value: T;
+  enhancementAttempts: number;
+  evaluation: NonNullable<ConfidenceSignals['enhancement']>;
+  tokenUsage?: TokenUsage;
+}> {
   if (!config.enhancement) {
-    return { value: baseline, enhancementAttempts: 0 };
+    return {
+      value: baseline,
+      enhancementAttempts: 0,
+      evaluation: { rounds: 0, validRounds: 0, acceptedRounds: 0 },
+    };
   }
 
   info('Starting enhancement rounds', {
@@ -684,6 +1512,11 @@ async function applyEnhancementRounds<T>(
 
   let currentBest = baseline;
   let enhancementAttempts = 0;
+  let validRounds = 0;
+  let acceptedRounds = 0;
+  let bestImprovement: number | undefined;
+  let tokenUsage: TokenUsage | undefined;
+  let previousRoundUsage: TokenUsage | undefined;
 
   for (let round = 1; round <= config.enhancement.rounds; round++) {
     try {
@@ -707,6 +1540,30 @@ async function applyEnhancementRounds<T>(
         currentBest
       );
 
+      const budgetError = budget?.check(
+        priceProjectedUsage(
+          previousRoundUsage ??
+            estimatePromptUsage(
+              fullPrompt,
+              provider.name,
+              getEstimationModel(config.model)
+            ),
+          provider,
+          config
+        )
+      );
+      if (budgetError) {
+        warn('Skipping remaining enhancement rounds to stay within budget', {
+          round,
+          totalRounds: config.enhancement.rounds,
+          scope: budgetError.scope,
+          limit: budgetError.limit,
+          maximum: budgetError.maximum,
+          spent: budgetError.spent,
+        });
+        break;
+      }
+
       // Call provider for enhancement
       const enhancementStartTime = Date.now();
       const providerResponse = await callProvider(
@@ -714,21 +1571,42 @@ async function applyEnhancementRounds<T>(
         sessionId,
         fullPrompt,
         config,
-        round + 100  // Use high attempt number to distinguish from retries
+        round + 100,  // Use high attempt number to distinguish from retries
+        config.schema
       );
 
       enhancementAttempts++;
-
-      // Validate enhanced response
-      const validationResult = validateJson(config.schema, providerResponse.content || '');
-
-      if (validationResult.success) {
+      tokenUsage = addTokenUsage(tokenUsage, providerResponse.tokenUsage);
+      budget?.record(providerResponse.tokenUsage);
+      previousRoundUsage = providerResponse.tokenUsage;
+
+      // Validate enhanced response, semantic validators included
+      const validationResult = validateJson(config.schema, providerResponse.content || '', config.jsonExtraction);
+      const semantic =
+        validationResult.success && config.validators
+          ? await runSemanticValidators(config, provider, validationResult.value, budget)
+          : undefined;
+      tokenUsage = addTokenUsage(tokenUsage, semantic?.tokenUsage);
+      budget?.record(semantic?.tokenUsage);
+
+      if (validationResult.success && !semantic?.error && semantic?.skippedJudges) {
+        // A value the judges didn't check can't replace one they did
+        warn(`Enhancement round ${round} discarded: judges were skipped to stay within budget`, {
+          round,
+          skippedJudges: semantic.skippedJudges,
+        });
+      } else if (validationResult.success && !semantic?.error) {
         // Evaluate improvement
         const improvementScore = evaluateImprovement(
           config.enhancement,
           currentBest,
           validationResult.value
         );
+        validRounds++;
+        bestImprovement =
+          bestImprovement === undefined
+            ? improvementScore
+            : Math.max(bestImprovement, improvementScore);
 
         info(`Enhancement round ${round} completed`, {
           round,
@@ -745,6 +1623,7 @@ async function applyEnhancementRounds<T>(
             threshold: config.enhancement.minImprovement,
           });
           currentBest = validationResult.value;
+          acceptedRounds++;
 
           // Record enhancement success in session metrics
           if (sessionId && sessionManager) {
@@ -766,10 +1645,11 @@ async function applyEnhancementRounds<T>(
           });
         }
       } else {
+        const roundError = semantic?.error ?? (validationResult.success ? undefined : validationResult.error);
         warn(`Enhancement round ${round} failed validation`, {
           round,
-          errorCode: validationResult.error.code,
-          errorMessage: validationResult.error.message,
+          errorCode: roundError?.code,
+          errorMessage: roundError?.message,
         });
       }
     } catch (error) {
@@ -790,6 +1670,13 @@ async function applyEnhancementRounds<T>(
   return {
     value: currentBest,
     enhancementAttempts,
+    evaluation: {
+      rounds: config.enhancement.rounds,
+      validRounds,
+      acceptedRounds,
+      ...(bestImprovement !== undefined && { bestImprovement }),
+    },
+    ...(tokenUsage && { tokenUsage }),
   };
 }
 
@@ -8,11 +8,14 @@
 
 import { createClaudeCLIAdapter } from '../../adapters/claude-cli.js';
 import { TOKEN_ESTIMATION_DIVISOR } from '../../shared/constants/index.js';
-import type { Options, PreloadOptions, PreloadResult, ProviderAdapter, Result, SessionMetrics } from '../../types/index.js';
+import type { Options, PreloadOptions, PreloadResult, ProviderAdapter, ProviderResponse, Result, SessionMetrics, TokenUsage } from '../../types/index.js';
+import { recordProcessSpend } from '../budget.js';
+import { priceTokenUsage } from '../pricing.js';
 import { orchestratePipeline } from './pipeline-orchestrator.js';
 import { orchestratePreload } from './preload-orchestrator.js';
 // Configuration validation functions are re-exported below
 import { getExecutionStats } from './result-processor.js';
+import { recordSessionUsage } from './session-coordinator.js';
 import { defaultSessionManager } from '../../session/manager.js';
 
 /**
@@ -98,6 +101,8 @@ export async function initSession(
         options.initialPrompt,
         promptOptions
       );
+      const tokenUsage = accountInitSessionUsage(response, provider, options);
+      await recordSessionUsage(defaultSessionManager, options.sessionId, tokenUsage);
 
       return {
         sessionId: options.sessionId,
@@ -106,6 +111,7 @@ export async function initSession(
           ...metadata,
           executionTimeMs: Date.now() - startTime,
           completedAt: new Date(),
+          ...(tokenUsage && { tokenUsage }),
         },
       };
     } catch (error) {
@@ -154,6 +160,8 @@ export async function initSession(
         options.initialPrompt,
         promptOptions
       );
+      const tokenUsage = accountInitSessionUsage(response, provider, options);
+      await recordSessionUsage(defaultSessionManager, sessionId, tokenUsage);
 
       return {
         sessionId,
@@ -162,6 +170,7 @@ export async function initSession(
           ...metadata,
           executionTimeMs: Date.now() - startTime,
           completedAt: new Date(),
+          ...(tokenUsage && { tokenUsage }),
         },
       };
     } catch (error) {
@@ -192,6 +201,7 @@ export async function initSession(
     };
 
     const response = await provider.sendPrompt(null, fullPrompt, promptOptions);
+    const tokenUsage = accountInitSessionUsage(response, provider, options);
 
     const metadata = {
       executionTimeMs: Date.now() - startTime,
@@ -199,6 +209,7 @@ export async function initSession(
       completedAt: new Date(),
       provider: provider.name,
       ...(options.model && { model: options.model }),
+      ...(tokenUsage && { tokenUsage }),
     };
 
     // Generate a unique identifier for this stateless interaction
@@ -218,6 +229,30 @@ export async function initSession(
   }
 }
 
+/**
+ * Prices the token usage of an initSession() prompt and adds it to the
+ * process-wide spend
+ *
+ * @param response Provider response to the initial prompt
+ * @param provider Provider adapter that was called
+ * @param options Session initialization options with the model and pricing
+ * @returns Token usage with its estimated cost, or undefined if not reported
+ */
+function accountInitSessionUsage(
+  response: ProviderResponse,
+  provider: ProviderAdapter,
+  options: import('../../types/pipeline.js').InitSessionOptions
+): TokenUsage | undefined {
+  const tokenUsage = response.tokenUsage && priceTokenUsage(
+    response.tokenUsage,
+    response.provider ?? provider.name,
+    response.model ?? options.model,
+    options.pricing
+  );
+  recordProcessSpend(tokenUsage);
+  return tokenUsage;
+}
+
 /**
  * Preload data into an existing session without output validation
  *
@@ -360,8 +395,51 @@ export {
   logErrorRecoveryAnalysis,
 } from './error-recovery.js';
 export type { ExecutionResult } from './execution-engine.js';
+export {
+  buildSelfAssessmentPrompt,
+  estimateConfidence,
+  parseSelfAssessment,
+  scoreConfidence,
+} from './confidence-estimator.js';
 
 // Re-export utility functions that may be useful externally
 export { formatResultMetadata } from './result-processor.js';
 export type { SessionCoordinationResult } from './session-coordinator.js';
-export { logSessionInfo, validateSessionState } from './session-coordinator.js';
+export {
+  logSessionInfo,
+  resetSession,
+  validateSessionState,
+} from './session-coordinator.js';
+export type { PrimingMessage } from './session-primer.js';
+export {
+  buildPrimingMessages,
+  buildSchemaExample,
+  primeSession,
+  SESSION_PRIMING_STAGES,
+} from './session-primer.js';
+export type { StrategySelectionContext } from './retry-strategy.js';
+export {
+  buildStrategyInstructions,
+  canResetSession,
+  selectRetryStrategy,
+  STRATEGY_ESCALATION_LADDER,
+} from './retry-strategy.js';
+export type { SalvagePlan } from './partial-salvage.js';
+export {
+  buildSalvagePrompt,
+  mergeSalvagedResponse,
+  planSalvage,
+} from './partial-salvage.js';
+export type { ChunkableArray } from './array-chunker.js';
+export {
+  buildChunkInput,
+  detectChunkableArray,
+  executeChunked,
+  getItemKey,
+} from './array-chunker.js';
+export type { SemanticFailure } from './semantic-validator.js';
+export {
+  buildJudgePrompt,
+  createSemanticValidationError,
+  parseJudgeVerdict,
+} from './semantic-validator.js';
@@ -0,0 +1,204 @@
+/**
+ * Partial-Result Salvage for Object Schemas
+ *
+ * When a response fails validation on only a few of its top-level fields,
+ * regenerating the whole object wastes most of the output tokens. Salvage
+ * keeps the fields that pass their sub-schemas, asks the model for the
+ * invalid fields alone and merges the answer back, so the full schema can be
+ * validated again on the combined object.
+ */
+
+import { z } from 'zod';
+import type {
+  JsonExtractionMode,
+  PartialSalvageConfig,
+  ProviderError,
+  ValidationError,
+} from '../../types/index.js';
+import { buildPrompt, type PromptParts } from '../prompt.js';
+import { extractFieldErrors, extractJson } from '../validation/index.js';
+import type { ProcessedConfiguration } from './configuration-manager.js';
+
+/**
+ * What a salvage retry keeps and what it asks for again
+ */
+export interface SalvagePlan {
+  /** Fields of the previous response that passed their sub-schemas */
+  readonly keptFields: Readonly<Record<string, unknown>>;
+
+  /** Top-level fields to ask the model for again */
+  readonly invalidFields: readonly string[];
+
+  /** Object schema restricted to the invalid fields */
+  readonly partialSchema: z.ZodObject;
+
+  /** Field-level errors of the previous response */
+  readonly fieldErrors: ReturnType<typeof extractFieldErrors>;
+}
+
+/**
+ * Plan a salvage retry for the previous attempt's failure
+ *
+ * Salvage applies to schema validation failures of object schemas whose
+ * response was an object. Issues about the object as a whole (other than
+ * unrecognized keys, which merging drops anyway) require a full
+ * regeneration, as does a share of invalid fields above
+ * `maxInvalidFieldRatio`.
+ *
+ * @param schema - Schema of the pipeline run
+ * @param previousError - Error of the previous attempt
+ * @param config - Salvage configuration
+ * @returns Salvage plan, or undefined when the output should be regenerated
+ */
+export function planSalvage(
+  schema: z.ZodType,
+  previousError: ValidationError | ProviderError | undefined,
+  config: PartialSalvageConfig
+): SalvagePlan | undefined {
+  if (
+    !(schema instanceof z.ZodObject) ||
+    previousError?.type !== 'validation' ||
+    previousError.code !== 'schema_validation' ||
+    !isPlainObject(previousError.rawValue)
+  ) {
+    return undefined;
+  }
+
+  const shape: Record<string, z.ZodType> = schema.shape;
+  const fieldNames = Object.keys(shape);
+  const invalid = new Set<string>();
+
+  for (const issue of previousError.issues) {
+    const [field] = issue.path;
+    if (field === undefined) {
+      if (issue.code === 'unrecognized_keys') {
+        continue;
+      }
+      return undefined;
+    }
+    if (typeof field !== 'string' || !(field in shape)) {
+      return undefined;
+    }
+    invalid.add(field);
+  }
+
+  const response = previousError.rawValue;
+  const keptFields: Record<string, unknown> = {};
+  for (const field of fieldNames) {
+    if (invalid.has(field) || !(field in response)) {
+      continue;
+    }
+    if (shape[field]?.safeParse(response[field]).success) {
+      keptFields[field] = response[field];
+    } else {
+      invalid.add(field);
+    }
+  }
+
+  if (
+    invalid.size === 0 ||
+    invalid.size / fieldNames.length > config.maxInvalidFieldRatio
+  ) {
+    return undefined;
+  }
+
+  const invalidFields = fieldNames.filter(field => invalid.has(field));
+  return {
+    keptFields,
+    invalidFields,
+    partialSchema: schema.pick(
+      Object.fromEntries(invalidFields.map(field => [field, true] as const))
+    ),
+    fieldErrors: extractFieldErrors(previousError),
+  };
+}
+
+/**
+ * Build the prompt of a salvage retry
+ *
+ * The prompt describes only the invalid fields, lists their errors and asks
+ * for a JSON object containing just those fields.
+ *
+ * @param config - Processed pipeline configuration
+ * @param plan - Salvage plan of this attempt
+ * @param attemptNumber - Current attempt number
+ * @returns Prompt parts asking for the invalid fields
+ */
+export function buildSalvagePrompt<T>(
+  config: ProcessedConfiguration<T>,
+  plan: SalvagePlan,
+  attemptNumber: number
+): PromptParts {
+  const exampleOutput = isPlainObject(config.exampleOutput)
+    ? pickFields(config.exampleOutput, plan.invalidFields)
+    : undefined;
+
+  const parts = buildPrompt({
+    schema: plan.partialSchema,
+    input: config.input,
+    ...(config.context && { context: config.context }),
+    ...(config.lens && { lens: config.lens }),
+    ...(exampleOutput && { exampleOutput }),
+    ...(config.promptTemplates && { templates: config.promptTemplates }),
+    attemptNumber,
+  });
+
+  const errorContext = plan.fieldErrors
+    .map(fieldError => `- ${fieldError.path}: ${fieldError.message}`)
+    .join('\n');
+  const fieldList = plan.invalidFields.join(', ');
+
+  return {
+    ...parts,
+    errorContext,
+    userPrompt: `${parts.userPrompt}\n\nYOUR PREVIOUS RESPONSE WAS VALID EXCEPT FOR THESE FIELDS: ${fieldList}\n${errorContext}\n\nReply with a JSON object containing only the corrected fields ${fieldList}. The other fields are kept from your previous response.`,
+  };
+}
+
+/**
+ * Merge the answer of a salvage retry into the kept fields
+ *
+ * Only the requested fields are taken from the answer. If it contains no
+ * JSON object, the raw answer is returned so validation reports the parse
+ * failure and the next attempt regenerates the whole output.
+ *
+ * @param plan - Salvage plan of this attempt
+ * @param responseContent - Raw provider response to the salvage prompt
+ * @param extractionMode - JSON extraction mode of the run
+ * @returns JSON text of the merged object, or the raw answer
+ */
+export function mergeSalvagedResponse(
+  plan: SalvagePlan,
+  responseContent: string,
+  extractionMode?: JsonExtractionMode
+): string {
+  let answer: unknown;
+  try {
+    answer = extractJson(responseContent, extractionMode).value;
+  } catch {
+    return responseContent;
+  }
+  if (!isPlainObject(answer)) {
+    return responseContent;
+  }
+
+  return JSON.stringify({
+    ...plan.keptFields,
+    ...pickFields(answer, plan.invalidFields),
+  });
+}
+
+function pickFields(
+  value: Record<string, unknown>,
+  fields: readonly string[]
+): Record<string, unknown> {
+  return Object.fromEntries(
+    fields
+      .filter(field => field in value)
+      .map(field => [field, value[field]])
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -24,10 +24,17 @@ import {
   setGlobalLogger,
   setGlobalLogLevel,
 } from '../../utils/logger.js';
+import { createBudgetTracker } from '../budget.js';
+import { executeChunked } from './array-chunker.js';
 import { processConfiguration } from './configuration-manager.js';
-import { executeWithRetry } from './execution-engine.js';
+import { addTokenUsage, executeWithRetry } from './execution-engine.js';
 import { processResult } from './result-processor.js';
-import { coordinateSession } from './session-coordinator.js';
+import {
+  coordinateSession,
+  getSessionSpend,
+  recordSessionUsage,
+} from './session-coordinator.js';
+import { getPrimingTokenUsage, primeSession } from './session-primer.js';
 
 /**
  * Main orchestration function for the Persuader pipeline
@@ -81,26 +88,68 @@ export async function orchestratePipeline<T>(
       return createErrorResult<T>(error, 0, startTime, provider);
     }
 
-    // Step 3: Execute pipeline with retry logic
+    // Budgets cover the priming conversation as well as the attempts
+    const budget =
+      config.budget &&
+      createBudgetTracker(
+        config.budget,
+        await getSessionSpend(
+          defaultSessionManager,
+          config.sessionId ?? sessionResult.sessionId
+        )
+      );
+
+    // Step 3: Prime the session before the first real request (opt-in)
+    const priming = config.sessionPriming
+      ? await primeSession(config, provider, sessionResult.sessionId, budget)
+      : undefined;
+
+    // Step 4: Execute pipeline with retry logic, in batches when chunking
     info('Starting pipeline execution with retry logic', {
       maxAttempts: config.retries + 1,
       sessionId: sessionResult.sessionId,
       provider: provider.name,
+      chunking: Boolean(config.chunking),
     });
 
-    const executionResult = await executeWithRetry(
-      config,
-      provider,
-      sessionResult.sessionId,
-      defaultSessionManager
+    const execution = config.chunking
+      ? await executeChunked(
+          config,
+          provider,
+          sessionResult.sessionId,
+          defaultSessionManager,
+          budget
+        )
+      : await executeWithRetry(
+          config,
+          provider,
+          sessionResult.sessionId,
+          defaultSessionManager,
+          budget
+        );
+
+    // Priming messages count towards the run's usage and cost
+    const tokenUsage = addTokenUsage(
+      priming && getPrimingTokenUsage(priming),
+      execution.tokenUsage
+    );
+    const executionResult = tokenUsage
+      ? { ...execution, tokenUsage }
+      : execution;
+
+    await recordSessionUsage(
+      defaultSessionManager,
+      config.sessionId ?? sessionResult.sessionId,
+      executionResult.tokenUsage
     );
 
-    // Step 4: Process and format final result
+    // Step 5: Process and format final result
     const result = processResult(
       executionResult,
       sessionResult.sessionId,
       startTime,
-      provider
+      provider,
+      priming
     );
 
     info('Pipeline orchestration completed', {
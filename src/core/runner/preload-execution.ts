@@ -19,6 +19,8 @@ import {
   combinePromptParts,
   type PromptParts,
 } from '../prompt.js';
+import { recordProcessSpend } from '../budget.js';
+import { priceTokenUsage } from '../pricing.js';
 import type { ProcessedPreloadConfiguration } from './configuration-manager.js';
 
 /**
@@ -225,11 +227,25 @@ async function callProviderForPreload(
     requestId: `preload-${provider.name}-${Date.now()}`,
   });
 
-  const providerResponse = await provider.sendPrompt(sessionId, prompt, {
+  const rawResponse = await provider.sendPrompt(sessionId, prompt, {
     ...config.providerOptions,
     model: config.model,
   });
 
+  // Price the usage with the provider and model that actually served the call
+  const providerResponse = rawResponse.tokenUsage
+    ? {
+        ...rawResponse,
+        tokenUsage: priceTokenUsage(
+          rawResponse.tokenUsage,
+          rawResponse.provider ?? provider.name,
+          rawResponse.model ?? config.model,
+          config.pricing
+        ),
+      }
+    : rawResponse;
+  recordProcessSpend(providerResponse.tokenUsage);
+
   // Enhanced debug logging: Log the raw response for debugging
   const responseData: Parameters<typeof llmResponse>[0] = {
     provider: provider.name,
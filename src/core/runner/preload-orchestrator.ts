@@ -7,6 +7,7 @@
  */
 
 import { createClaudeCLIAdapter } from '../../adapters/claude-cli.js';
+import { defaultSessionManager } from '../../session/manager.js';
 import type {
   PreloadOptions,
   PreloadResult,
@@ -24,6 +25,7 @@ import {
 import { validateJson } from '../validation/index.js';
 import { processPreloadConfiguration } from './configuration-manager.js';
 import { executePreload } from './preload-execution.js';
+import { recordSessionUsage } from './session-coordinator.js';
 
 /**
  * Main orchestration function for preload operations
@@ -97,6 +99,11 @@ export async function orchestratePreload(
     });
 
     const result = await executePreload(config, provider, startTime);
+    await recordSessionUsage(
+      defaultSessionManager,
+      config.sessionId,
+      result.metadata.tokenUsage
+    );
 
     info('Preload orchestration completed', {
       success: result.ok,
@@ -7,7 +7,9 @@
  */
 
 import type {
+  BudgetError,
   ExecutionMetadata,
+  PrimingResult,
   ProviderAdapter,
   ProviderError,
   Result,
@@ -28,25 +30,39 @@ import type { ExecutionResult } from './execution-engine.js';
  * @param sessionId Session ID used during execution
  * @param startTime Pipeline start timestamp
  * @param provider Provider adapter used for execution
+ * @param priming Session priming outcome, when priming was enabled
  * @returns Formatted pipeline result with metadata
  */
 export function processResult<T>(
   executionResult: ExecutionResult<T>,
   sessionId: string | undefined,
   startTime: number,
-  provider: ProviderAdapter
+  provider: ProviderAdapter,
+  priming?: PrimingResult
 ): Result<T> {
   const endTime = Date.now();
+  // A session_reset retry may have moved the run to a new session
+  const activeSessionId = executionResult.sessionId ?? sessionId;
   const executionMetadata = createExecutionMetadata(
     startTime,
     endTime,
-    provider
+    provider,
+    executionResult,
+    priming
   );
 
   if (executionResult.success && executionResult.value !== undefined) {
-    return processSuccessResult(executionResult, sessionId, executionMetadata);
+    return processSuccessResult(
+      executionResult,
+      activeSessionId,
+      executionMetadata
+    );
   } else {
-    return processErrorResult(executionResult, sessionId, executionMetadata);
+    return processErrorResult(
+      executionResult,
+      activeSessionId,
+      executionMetadata
+    );
   }
 }
 
@@ -69,6 +85,7 @@ function processSuccessResult<T>(
     executionTimeMs: metadata.executionTimeMs,
     provider: metadata.provider,
     model: metadata.model,
+    confidence: metadata.confidence,
     sessionId,
   });
 
@@ -98,7 +115,7 @@ function processErrorResult<T>(
   metadata: ExecutionMetadata
 ): Result<T> {
   // Ensure we have an error when the result is not successful
-  const error: ValidationError | ProviderError =
+  const error: ValidationError | ProviderError | BudgetError =
     executionResult.error || createFallbackError();
 
   logError('Pipeline execution failed after all retry attempts', {
@@ -126,18 +143,53 @@ function processErrorResult<T>(
  * @param startTime Pipeline start timestamp
  * @param endTime Pipeline end timestamp
  * @param provider Provider adapter used
+ * @param executionResult Execution result carrying token usage and confidence
+ * @param priming Session priming outcome (optional)
  * @returns Execution metadata object
  */
-function createExecutionMetadata(
+function createExecutionMetadata<T>(
   startTime: number,
   endTime: number,
-  provider: ProviderAdapter
+  provider: ProviderAdapter,
+  executionResult: ExecutionResult<T>,
+  priming?: PrimingResult
 ): ExecutionMetadata {
   return {
     executionTimeMs: endTime - startTime,
     startedAt: new Date(startTime),
     completedAt: new Date(endTime),
     provider: provider.name,
+    ...(executionResult.model && { model: executionResult.model }),
+    ...(executionResult.tokenUsage && {
+      tokenUsage: executionResult.tokenUsage,
+    }),
+    ...(executionResult.confidence !== undefined && {
+      confidence: executionResult.confidence,
+    }),
+    ...(executionResult.confidenceSignals && {
+      confidenceSignals: executionResult.confidenceSignals,
+    }),
+    ...(priming && { priming }),
+    ...(executionResult.retryHistory && {
+      retryStrategyHistory: executionResult.retryHistory,
+    }),
+    ...(executionResult.jsonRepairs && {
+      jsonRepairs: executionResult.jsonRepairs,
+    }),
+    ...(executionResult.salvagedAttempts !== undefined && {
+      salvagedAttempts: executionResult.salvagedAttempts,
+    }),
+    ...(executionResult.chunking && { chunking: executionResult.chunking }),
+    ...(executionResult.cache && { cache: executionResult.cache }),
+    ...(executionResult.structuredOutput && {
+      structuredOutput: executionResult.structuredOutput,
+    }),
+    ...(executionResult.attemptProviders && {
+      attemptProviders: executionResult.attemptProviders,
+    }),
+    ...(executionResult.budgetSkipped && {
+      budgetSkipped: executionResult.budgetSkipped,
+    }),
   };
 }
 
@@ -0,0 +1,288 @@
+/**
+ * Retry Strategy Selection for Runner Pipeline
+ *
+ * Picks the strategy for each retry from the failure mode of the previous
+ * attempt and escalates when a failure persists: targeted feedback first,
+ * then concrete examples, step-by-step refinement, a simplified request and
+ * finally a fresh provider session. Also turns the selected strategy into
+ * the extra instructions that are added to the retry prompt.
+ */
+
+import type {
+  ProviderAdapter,
+  ProviderError,
+  RetryStrategy,
+  RetryStrategyConfig,
+  ValidationError,
+} from '../../types/index.js';
+import type { EnhancedRetryAttempt } from '../../types/retry.js';
+import { debug } from '../../utils/logger.js';
+import { extractFieldErrors } from '../validation/field-analyzer.js';
+import type { ProcessedConfiguration } from './configuration-manager.js';
+import { buildSchemaExample } from './session-primer.js';
+
+/**
+ * Strategies a persistent failure escalates through, mildest first
+ */
+export const STRATEGY_ESCALATION_LADDER: readonly RetryStrategy[] = [
+  'add_examples',
+  'progressive_refinement',
+  'simplify_request',
+  'session_reset',
+];
+
+/**
+ * Inputs for strategy selection besides the error and the retry history
+ */
+export interface StrategySelectionContext {
+  readonly config: RetryStrategyConfig;
+  /** Whether the provider can create a fresh session */
+  readonly canResetSession: boolean;
+}
+
+const CONSTRAINT_ISSUE_CODES: ReadonlySet<string> = new Set([
+  'too_small',
+  'too_big',
+  'invalid_format',
+  'invalid_string',
+  'invalid_enum_value',
+  'invalid_literal',
+  'invalid_value',
+  'not_multiple_of',
+  'custom',
+]);
+
+/**
+ * Selects the strategy for the next retry
+ *
+ * A new failure mode gets the strategy recommended for it. When the
+ * previous retry's strategy did not change the failure mode and it has been
+ * used `minAttemptsBeforeEscalation` times in a row, the next rung of the
+ * escalation ladder is used instead. Progressive refinement is skipped when
+ * disabled, and a session is reset at most once per run and only when the
+ * provider can create sessions. Provider errors never escalate; a
+ * session-related one resets the session, otherwise the previous strategy
+ * is kept.
+ *
+ * @param error Error of the attempt that just failed
+ * @param history Retries made so far, oldest first
+ * @param context Strategy configuration and provider capabilities
+ * @returns Strategy for the next attempt
+ */
+export function selectRetryStrategy(
+  error: ValidationError | ProviderError,
+  history: readonly EnhancedRetryAttempt[],
+  context: StrategySelectionContext
+): RetryStrategy {
+  const previous = history.at(-1);
+
+  if (error.type === 'provider') {
+    const sessionProblem = /session/i.test(`${error.code} ${error.message}`);
+    return sessionProblem && isAvailable('session_reset', history, context)
+      ? 'session_reset'
+      : (previous?.strategy ?? 'reinforce_context');
+  }
+
+  if (!previous || previous.previousFailureMode !== error.failureMode) {
+    return fallbackFor(error.retryStrategy, history, context);
+  }
+
+  let streak = 0;
+  for (let index = history.length - 1; index >= 0; index--) {
+    if (history[index]?.strategy !== previous.strategy) {
+      break;
+    }
+    streak++;
+  }
+
+  if (streak < context.config.minAttemptsBeforeEscalation) {
+    return fallbackFor(previous.strategy, history, context);
+  }
+
+  const rank = STRATEGY_ESCALATION_LADDER.indexOf(previous.strategy);
+  const available = STRATEGY_ESCALATION_LADDER.filter(strategy =>
+    isAvailable(strategy, history, context)
+  );
+  const escalated =
+    available.find(
+      strategy => STRATEGY_ESCALATION_LADDER.indexOf(strategy) > rank
+    ) ??
+    available.at(-1) ??
+    previous.strategy;
+
+  debug('Escalating retry strategy after persistent failure', {
+    failureMode: error.failureMode,
+    from: previous.strategy,
+    to: escalated,
+    streak,
+  });
+  return escalated;
+}
+
+/**
+ * Builds the prompt instructions for a retry strategy
+ *
+ * The instructions are added to the validation feedback of the retry
+ * prompt. Strategies that have nothing to add for the given error (e.g.
+ * field guidance without field issues) return an empty string.
+ *
+ * @param strategy Strategy selected for the retry
+ * @param error Error of the previous attempt
+ * @param config Processed pipeline configuration
+ * @returns Instructions to add to the retry prompt
+ */
+export function buildStrategyInstructions<T>(
+  strategy: RetryStrategy,
+  error: ValidationError | ProviderError,
+  config: ProcessedConfiguration<T>
+): string {
+  const issues = error.type === 'validation' ? (error.issues ?? []) : [];
+
+  switch (strategy) {
+    case 'demand_json_format':
+      return [
+        'RESPONSE FORMAT:',
+        'Reply with a single raw JSON value and nothing else.',
+        'Start with { or [ and end with } or ]. No prose, no explanations, no markdown code fences.',
+      ].join('\n');
+
+    case 'provide_field_guidance': {
+      if (error.type !== 'validation' || issues.length === 0) {
+        return '';
+      }
+      return [
+        'FIELD GUIDANCE:',
+        ...extractFieldErrors(error).map(
+          field =>
+            `- ${field.path}: expected ${field.expected}, received ${field.received}`
+        ),
+      ].join('\n');
+    }
+
+    case 'fix_structure': {
+      const shape = buildSchemaExample(config.schema);
+      return shape === undefined
+        ? ''
+        : [
+            'EXPECTED STRUCTURE:',
+            'Use exactly these field names and this nesting. Do not add, rename or move fields:',
+            JSON.stringify(shape, null, 2),
+          ].join('\n');
+    }
+
+    case 'clarify_constraints': {
+      const constraints = issues.filter(issue =>
+        CONSTRAINT_ISSUE_CODES.has(issue.code)
+      );
+      return constraints.length === 0
+        ? ''
+        : [
+            'CONSTRAINTS TO RESPECT:',
+            ...constraints.map(
+              issue => `- ${formatIssuePath(issue.path)}: ${issue.message}`
+            ),
+            'Keep every other field as it was and change only the values listed above.',
+          ].join('\n');
+    }
+
+    case 'add_examples': {
+      const example = config.exampleOutput ?? buildSchemaExample(config.schema);
+      return example === undefined
+        ? ''
+        : [
+            'EXAMPLE OF A VALID RESPONSE:',
+            JSON.stringify(example, null, 2),
+            'Follow this structure exactly, with values taken from the input.',
+          ].join('\n');
+    }
+
+    case 'reinforce_context':
+      return [
+        'TASK REMINDER:',
+        'Your only task is to produce JSON that matches the schema for the input above. Do not answer, summarise or discuss anything else.',
+        ...(config.context ? [`Context: ${config.context}`] : []),
+        ...(config.lens ? [`Perspective: ${config.lens}`] : []),
+      ].join('\n');
+
+    case 'progressive_refinement':
+      return [
+        'STEP-BY-STEP CORRECTION:',
+        '1. Start from your previous response and keep everything that was valid.',
+        '2. Fix the structure: field names and nesting.',
+        '3. Add every missing required field.',
+        '4. Correct the type of each field.',
+        '5. Adjust values that break a constraint.',
+        ...(issues.length > 0
+          ? [
+              'Issues to work through:',
+              ...issues.map(
+                issue => `- ${formatIssuePath(issue.path)}: ${issue.message}`
+              ),
+            ]
+          : []),
+      ].join('\n');
+
+    case 'simplify_request':
+      return [
+        'SIMPLIFIED REQUEST:',
+        'Concentrate on the required fields. Leave out optional fields unless the input states them directly.',
+        'Keep strings short and arrays limited to the items the input clearly supports, so the response stays complete.',
+      ].join('\n');
+
+    case 'session_reset':
+      return [
+        'FRESH START:',
+        'This is a new conversation. Earlier attempts at this task failed validation for the reasons above.',
+        'Read the schema again and follow it exactly.',
+      ].join('\n');
+  }
+}
+
+/**
+ * Whether a provider can replace its session for a `session_reset` retry
+ *
+ * @param provider Provider adapter in use
+ * @returns True if the provider supports and can create sessions
+ */
+export function canResetSession(provider: ProviderAdapter): boolean {
+  return (
+    provider.supportsSession && typeof provider.createSession === 'function'
+  );
+}
+
+function isAvailable(
+  strategy: RetryStrategy,
+  history: readonly EnhancedRetryAttempt[],
+  context: StrategySelectionContext
+): boolean {
+  if (strategy === 'progressive_refinement') {
+    return context.config.enableProgressiveRefinement;
+  }
+  if (strategy === 'session_reset') {
+    return (
+      context.canResetSession &&
+      !history.some(attempt => attempt.strategy === 'session_reset')
+    );
+  }
+  return true;
+}
+
+/**
+ * Replaces a strategy that is disabled or used up with the closest one
+ */
+function fallbackFor(
+  strategy: RetryStrategy,
+  history: readonly EnhancedRetryAttempt[],
+  context: StrategySelectionContext
+): RetryStrategy {
+  if (isAvailable(strategy, history, context)) {
+    return strategy;
+  }
+  return strategy === 'session_reset'
+    ? 'simplify_request'
+    : 'provide_field_guidance';
+}
+
+function formatIssuePath(path: readonly PropertyKey[]): string {
+  return path.length > 0 ? path.map(String).join('.') : 'root';
+}
@@ -0,0 +1,213 @@
+/**
+ * Semantic Validators for Runner Pipeline
+ *
+ * Zod catches structural problems only; semantic validators check the
+ * content of a schema-valid output, with user functions or with an LLM
+ * judge. This module builds the judge prompt, reads verdicts and check
+ * results, and turns failures into `semantic_validation` errors that the
+ * retry loop handles like schema errors.
+ */
+
+import { z } from 'zod';
+import type {
+  JudgeValidator,
+  SemanticCheckResult,
+  SemanticIssue,
+  SemanticValidator,
+  ValidationError,
+} from '../../types/index.js';
+import { createValidationError } from '../validation/error-factory.js';
+import { extractJson } from '../validation/json-extractor.js';
+
+/**
+ * Issues reported by one validator
+ */
+export interface SemanticFailure {
+  /** Name of the validator */
+  readonly validator: string;
+
+  /** Problems it found */
+  readonly issues: readonly SemanticIssue[];
+}
+
+const JudgeVerdictSchema = z.object({
+  pass: z.boolean(),
+  issues: z
+    .array(
+      z.object({
+        path: z.string().optional(),
+        message: z.string(),
+      })
+    )
+    .optional(),
+});
+
+/**
+ * Check whether a validator is an LLM judge
+ *
+ * @param validator Semantic validator
+ * @returns True for judge validators, false for functions
+ */
+export function isJudgeValidator<T>(
+  validator: SemanticValidator<T>
+): validator is JudgeValidator {
+  return typeof validator === 'object' && validator !== null;
+}
+
+/**
+ * Name a validator is reported under
+ *
+ * @param validator Semantic validator
+ * @param index Position of the validator in the `validators` option
+ * @returns Configured or function name, or a positional fallback
+ */
+export function getValidatorName<T>(
+  validator: SemanticValidator<T>,
+  index: number
+): string {
+  if (isJudgeValidator(validator)) {
+    return validator.name ?? `judge ${index + 1}`;
+  }
+  return validator.name || `validator ${index + 1}`;
+}
+
+/**
+ * Reads the issues from a function validator's result
+ *
+ * @param result Value returned by the validator
+ * @param validator Name of the validator, for the message of a bare `false`
+ * @returns Issues found; empty when the check passed
+ */
+export function normalizeCheckResult(
+  result: SemanticCheckResult,
+  validator: string
+): readonly SemanticIssue[] {
+  if (result === true) {
+    return [];
+  }
+  if (result === false) {
+    return [{ message: `Output rejected by ${validator}` }];
+  }
+  if (typeof result === 'string') {
+    return [{ message: result }];
+  }
+  return result;
+}
+
+/**
+ * Builds the prompt asking a judge whether the output meets its criterion
+ *
+ * @param criterion Criterion of the judge validator
+ * @param input Original pipeline input
+ * @param value The schema-valid output
+ * @returns Judge prompt
+ */
+export function buildJudgePrompt(
+  criterion: string,
+  input: unknown,
+  value: unknown
+): string {
+  const renderedInput =
+    typeof input === 'string' ? input : JSON.stringify(input, null, 2);
+
+  return [
+    `[INPUT]\n${renderedInput}`,
+    `[OUTPUT]\n${JSON.stringify(value, null, 2)}`,
+    `[CRITERION]\n${criterion}`,
+    '[TASK]\nJudge whether the output above meets the criterion, using only the input as the source of truth. ' +
+      'Respond with only a JSON object of the form ' +
+      '{"pass": <boolean>, "issues": [{"path": "<dot.separated.field, omitted for the whole output>", "message": "<what is wrong>"}]}.',
+  ].join('\n\n');
+}
+
+/**
+ * Reads a judge's verdict
+ *
+ * A failing verdict without issues is reported as a single issue naming
+ * the criterion.
+ *
+ * @param response Raw provider response
+ * @param criterion Criterion of the judge validator
+ * @returns Issues found (empty when the output passed), or undefined if the
+ * response held no verdict
+ */
+export function parseJudgeVerdict(
+  response: string,
+  criterion: string
+): readonly SemanticIssue[] | undefined {
+  let verdict: z.infer<typeof JudgeVerdictSchema>;
+  try {
+    const parsed = JudgeVerdictSchema.safeParse(extractJson(response).value);
+    if (!parsed.success) {
+      return undefined;
+    }
+    verdict = parsed.data;
+  } catch {
+    return undefined;
+  }
+
+  if (verdict.pass) {
+    return [];
+  }
+  if (!verdict.issues?.length) {
+    return [{ message: `Output does not meet the criterion: ${criterion}` }];
+  }
+
+  return verdict.issues.map(issue => ({
+    message: issue.message,
+    ...(issue.path && {
+      path: issue.path
+        .split('.')
+        .map(segment => (/^\d+$/.test(segment) ? Number(segment) : segment)),
+    }),
+  }));
+}
+
+/**
+ * Creates the validation error for failed semantic checks
+ *
+ * Every issue becomes a custom Zod issue tagged with its validator, and the
+ * structured feedback asks for corrections grounded in the input.
+ *
+ * @param value The schema-valid output that failed the checks
+ * @param failures Issues of each failed validator
+ * @returns Validation error with code `semantic_validation`
+ */
+export function createSemanticValidationError(
+  value: unknown,
+  failures: readonly SemanticFailure[]
+): ValidationError {
+  const issues = failures.flatMap(failure =>
+    failure.issues.map(issue => ({
+      code: 'custom' as const,
+      path: [...(issue.path ?? [])],
+      message: `${issue.message} (${failure.validator})`,
+      input: value,
+    }))
+  );
+  const specificIssues = issues.map(
+    issue =>
+      `${issue.path.length > 0 ? issue.path.join('.') : 'output'}: ${issue.message}`
+  );
+  const validators = failures.map(failure => failure.validator);
+  const message = `Semantic validation failed: ${validators.join(', ')}`;
+
+  const error = createValidationError(
+    'semantic_validation',
+    message,
+    issues,
+    value
+  );
+
+  return {
+    ...error,
+    structuredFeedback: {
+      problemSummary: `The output matches the schema but failed ${failures.length} semantic check${failures.length === 1 ? '' : 's'}`,
+      specificIssues,
+      correctionInstructions: [
+        'Correct each listed problem using only information from the input',
+        'Keep the parts of the output that were not reported unchanged',
+      ],
+    },
+  };
+}
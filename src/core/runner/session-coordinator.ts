@@ -7,8 +7,14 @@
  */
 
 import { createSessionManager } from '../../session/manager.js';
-import type { ProviderAdapter, ProviderError } from '../../types/index.js';
-import { debug, info, error as logError } from '../../utils/logger.js';
+import type { BudgetSpend } from '../../types/budget.js';
+import type {
+  ProviderAdapter,
+  ProviderError,
+  SessionManager,
+  TokenUsage,
+} from '../../types/index.js';
+import { debug, info, error as logError, warn } from '../../utils/logger.js';
 import type { ProcessedConfiguration } from './configuration-manager.js';
 
 /**
@@ -97,6 +103,49 @@ export async function coordinateSession<T>(
   return await createProviderSession(config, provider);
 }
 
+/**
+ * Replaces the current provider session with a fresh one
+ *
+ * Used by the `session_reset` retry strategy to drop conversation history
+ * that keeps steering the model towards invalid output. Once the new
+ * session exists the previous one is destroyed; failing to destroy it is
+ * logged and never fails the retry. Priming done in it does not carry over.
+ *
+ * @template T The expected output type
+ * @param config Processed pipeline configuration
+ * @param provider Provider adapter with session support
+ * @param previousSessionId Session being replaced (if any)
+ * @returns Session creation result with the new session ID or error
+ */
+export async function resetSession<T>(
+  config: ProcessedConfiguration<T>,
+  provider: ProviderAdapter,
+  previousSessionId: string | undefined
+): Promise<SessionCoordinationResult> {
+  info('Resetting provider session for retry', {
+    provider: provider.name,
+    previousSessionId: previousSessionId || null,
+  });
+
+  const result = await createProviderSession(config, provider);
+  if (result.success && previousSessionId && provider.destroySession) {
+    try {
+      await provider.destroySession(previousSessionId);
+    } catch (cleanupError) {
+      warn('Failed to destroy the replaced provider session', {
+        sessionId: previousSessionId,
+        provider: provider.name,
+        error:
+          cleanupError instanceof Error
+            ? cleanupError.message
+            : 'Unknown error',
+      });
+    }
+  }
+
+  return result;
+}
+
 /**
  * Creates a new provider session with error handling
  *
@@ -238,6 +287,85 @@ export function logSessionInfo<T>(
   });
 }
 
+/**
+ * Adds the token usage and cost of a call to its session record
+ *
+ * Accumulates `totalTokens` and `totalCost` on the SessionManager record so
+ * the cost of everything run in a session can be read back from it. IDs
+ * without a record (direct provider sessions) are skipped, and failures to
+ * update the record are logged rather than failing the call.
+ *
+ * @param sessionManager Session manager holding the record
+ * @param sessionId SessionManager ID of the session (can be undefined)
+ * @param tokenUsage Token usage of the call (can be undefined)
+ */
+export async function recordSessionUsage(
+  sessionManager: SessionManager,
+  sessionId: string | undefined,
+  tokenUsage: TokenUsage | undefined
+): Promise<void> {
+  if (!sessionId || !tokenUsage) {
+    return;
+  }
+
+  try {
+    const session = await sessionManager.getSession(sessionId);
+    if (!session) {
+      debug('No session record to add usage to', { sessionId });
+      return;
+    }
+
+    const { totalCost } = session.metadata;
+    await sessionManager.updateSession(sessionId, {
+      metadata: {
+        ...session.metadata,
+        totalTokens: session.metadata.totalTokens + tokenUsage.totalTokens,
+        ...(tokenUsage.estimatedCost !== undefined && {
+          totalCost: (totalCost ?? 0) + tokenUsage.estimatedCost,
+        }),
+        lastActivity: new Date(),
+      },
+    });
+  } catch (error) {
+    warn('Failed to record token usage on session', {
+      sessionId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Reads the tokens and cost recorded on a session for `perSession` budgets
+ *
+ * @param sessionManager Session manager holding the record (can be undefined)
+ * @param sessionId SessionManager ID of the session (can be undefined)
+ * @returns Spend recorded on the session, or undefined without a record
+ */
+export async function getSessionSpend(
+  sessionManager: SessionManager | undefined,
+  sessionId: string | undefined
+): Promise<BudgetSpend | undefined> {
+  if (!sessionManager || !sessionId) {
+    return undefined;
+  }
+
+  try {
+    const session = await sessionManager.getSession(sessionId);
+    return session
+      ? {
+          tokens: session.metadata.totalTokens,
+          costUsd: session.metadata.totalCost ?? 0,
+        }
+      : undefined;
+  } catch (error) {
+    warn('Failed to read session spend', {
+      sessionId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return undefined;
+  }
+}
+
 /**
  * Translates a SessionManager ID to a provider session ID if applicable
  *
@@ -0,0 +1,621 @@
+/**
+ * Session Primer for Runner Pipeline
+ *
+ * Prepares a provider session before the first real request by walking the
+ * model through what it will be asked to produce: the schema, the domain
+ * context, an example of the expected format, the schema's constraints and
+ * common edge cases. Every priming message asks for a short acknowledgement
+ * only, and the conversation stops once the configured token budget would be
+ * exceeded.
+ */
+
+import { z } from 'zod';
+import type {
+  BudgetError,
+  ConfigurationError,
+  PrimingResult,
+  ProviderAdapter,
+  ProviderError,
+  SessionPrimingConfig,
+  SessionPrimingStage,
+  TokenUsage,
+} from '../../types/index.js';
+import { debug, info, warn } from '../../utils/logger.js';
+import { getSchemaDescription } from '../../utils/schema-analyzer.js';
+import { type BudgetTracker, recordProcessSpend } from '../budget.js';
+import { priceTokenUsage } from '../pricing.js';
+import { estimatePromptTokens } from '../tokenizer.js';
+import type { ProcessedConfiguration } from './configuration-manager.js';
+
+/**
+ * Priming stages in the order they are run
+ */
+export const SESSION_PRIMING_STAGES: readonly SessionPrimingStage[] = [
+  'schema_introduction',
+  'domain_context',
+  'format_demonstration',
+  'constraint_explanation',
+  'edge_case_handling',
+];
+
+/**
+ * A single priming message and the stages it covers
+ */
+export interface PrimingMessage {
+  readonly stages: readonly SessionPrimingStage[];
+  readonly prompt: string;
+}
+
+/** Upper bound on the acknowledgement the model is allowed to generate */
+const PRIMING_RESPONSE_MAX_TOKENS = 256;
+
+const ACKNOWLEDGEMENT_INSTRUCTION =
+  'Do not produce any output data yet. Reply with a one-sentence acknowledgement only.';
+
+type JsonSchemaNode = Record<string, unknown>;
+
+/**
+ * Builds the priming messages for a configuration
+ *
+ * Stages that have nothing to say are left out unless they were requested
+ * explicitly: domain context needs `context` or `lens`, the format
+ * demonstration needs `includeExamples`, and the constraint explanation
+ * needs a schema with constraints. With `usePrimingConversation` disabled,
+ * all stages are combined into a single message.
+ *
+ * @param config Processed pipeline configuration
+ * @param priming Session priming configuration
+ * @returns Messages to send, in order
+ */
+export function buildPrimingMessages<T>(
+  config: ProcessedConfiguration<T>,
+  priming: SessionPrimingConfig
+): PrimingMessage[] {
+  const jsonSchema = toJsonSchema(config.schema);
+  const sections: Array<{ stage: SessionPrimingStage; text: string }> = [];
+
+  for (const stage of priming.stages ?? SESSION_PRIMING_STAGES) {
+    const text = buildStageText(stage, config, priming, jsonSchema);
+    if (text) {
+      sections.push({ stage, text });
+    }
+  }
+
+  if (sections.length === 0) {
+    return [];
+  }
+
+  if (!priming.usePrimingConversation) {
+    return [
+      {
+        stages: sections.map(section => section.stage),
+        prompt: `${sections.map(section => section.text).join('\n\n')}\n\n${ACKNOWLEDGEMENT_INSTRUCTION}`,
+      },
+    ];
+  }
+
+  return sections.map(section => ({
+    stages: [section.stage],
+    prompt: `${section.text}\n\n${ACKNOWLEDGEMENT_INSTRUCTION}`,
+  }));
+}
+
+/**
+ * Runs the priming conversation in a provider session
+ *
+ * Priming needs a session so the primed context carries over to the real
+ * request; without one it is skipped. Each message is only sent when its
+ * estimated size still fits the remaining `maxPrimingTokens` budget and,
+ * with a spend tracker, the run's budgets; a message that would exceed a
+ * budget stops the conversation with the budget error. A provider failure
+ * stops it too. Failures are reported in the
+ * result, never thrown, so the run continues with whatever priming was
+ * completed. Each message's usage is priced like a regular call and counted
+ * towards the process spend.
+ *
+ * @param config Processed pipeline configuration with `sessionPriming` set
+ * @param provider Provider adapter to prime
+ * @param sessionId Provider session to prime (if any)
+ * @param budget Spend tracker of the run, shared with its attempts
+ * @returns Priming outcome with completed stages and token usage
+ */
+export async function primeSession<T>(
+  config: ProcessedConfiguration<T>,
+  provider: ProviderAdapter,
+  sessionId: string | undefined,
+  budget?: BudgetTracker
+): Promise<PrimingResult> {
+  const startTime = Date.now();
+  const priming = config.sessionPriming;
+  const tokenUsage: {
+    input: number;
+    output: number;
+    total: number;
+    estimatedCost?: number;
+  } = { input: 0, output: 0, total: 0 };
+  const completedStages: SessionPrimingStage[] = [];
+
+  const finish = (
+    plannedStages: number,
+    error?: ConfigurationError | ProviderError | BudgetError
+  ): PrimingResult => {
+    const sessionState =
+      completedStages.length > 0 && completedStages.length === plannedStages
+        ? 'primed'
+        : completedStages.length > 0
+          ? 'partially_primed'
+          : 'failed';
+    const result: PrimingResult = {
+      success: sessionState === 'primed',
+      completedStages,
+      tokenUsage,
+      primingTimeMs: Date.now() - startTime,
+      sessionState,
+      ...(error && { error }),
+    };
+
+    info('Session priming finished', {
+      provider: provider.name,
+      sessionId: sessionId ?? null,
+      sessionState,
+      completedStages,
+      totalTokens: tokenUsage.total,
+      ...(error && { errorCode: error.code }),
+    });
+    return result;
+  };
+
+  if (!priming) {
+    return finish(0);
+  }
+
+  if (!sessionId) {
+    warn('Session priming skipped: provider has no session to prime', {
+      provider: provider.name,
+      supportsSession: provider.supportsSession,
+    });
+    return finish(
+      0,
+      createPrimingConfigurationError(
+        'priming_requires_session',
+        `Session priming needs a session-capable provider, but ${provider.name} has no session`,
+        'sessionPriming'
+      )
+    );
+  }
+
+  const messages = buildPrimingMessages(config, priming);
+  const plannedStages = messages.reduce(
+    (count, message) => count + message.stages.length,
+    0
+  );
+
+  for (const message of messages) {
+    const estimatedInput = estimatePromptTokens(
+      message.prompt,
+      provider.name,
+      config.model
+    ).tokens;
+    if (
+      tokenUsage.total + estimatedInput + PRIMING_RESPONSE_MAX_TOKENS >
+      priming.maxPrimingTokens
+    ) {
+      debug('Session priming budget reached', {
+        usedTokens: tokenUsage.total,
+        nextMessageTokens: estimatedInput,
+        maxPrimingTokens: priming.maxPrimingTokens,
+        remainingStages: plannedStages - completedStages.length,
+      });
+      return finish(
+        plannedStages,
+        createPrimingConfigurationError(
+          'priming_budget_exceeded',
+          `Session priming stopped before ${message.stages.join(', ')}: the next message (~${estimatedInput} tokens) would exceed maxPrimingTokens (${priming.maxPrimingTokens}, ${tokenUsage.total} used)`,
+          'sessionPriming.maxPrimingTokens'
+        )
+      );
+    }
+
+    const budgetError = budget?.check(
+      priceTokenUsage(
+        {
+          inputTokens: estimatedInput,
+          outputTokens: PRIMING_RESPONSE_MAX_TOKENS,
+          totalTokens: estimatedInput + PRIMING_RESPONSE_MAX_TOKENS,
+        },
+        provider.name,
+        config.model,
+        config.pricing
+      )
+    );
+    if (budgetError) {
+      warn('Session priming stopped to stay within budget', {
+        stages: message.stages,
+        scope: budgetError.scope,
+        limit: budgetError.limit,
+        maximum: budgetError.maximum,
+        spent: budgetError.spent,
+      });
+      return finish(plannedStages, budgetError);
+    }
+
+    try {
+      const response = await provider.sendPrompt(sessionId, message.prompt, {
+        ...config.providerOptions,
+        model: config.model,
+        maxTokens: Math.min(
+          config.providerOptions.maxTokens,
+          PRIMING_RESPONSE_MAX_TOKENS
+        ),
+        temperature: config.providerOptions.temperature,
+      });
+
+      const input = response.tokenUsage?.inputTokens ?? estimatedInput;
+      const output =
+        response.tokenUsage?.outputTokens ??
+        estimatePromptTokens(response.content, provider.name, config.model)
+          .tokens;
+      const usage = priceTokenUsage(
+        response.tokenUsage ?? {
+          inputTokens: input,
+          outputTokens: output,
+          totalTokens: input + output,
+        },
+        response.provider ?? provider.name,
+        response.model ?? config.model,
+        config.pricing
+      );
+      recordProcessSpend(usage);
+      budget?.record(usage);
+      tokenUsage.input += input;
+      tokenUsage.output += output;
+      tokenUsage.total += usage.totalTokens;
+      if (usage.estimatedCost !== undefined) {
+        tokenUsage.estimatedCost =
+          (tokenUsage.estimatedCost ?? 0) + usage.estimatedCost;
+      }
+      completedStages.push(...message.stages);
+
+      debug('Session priming stage completed', {
+        stages: message.stages,
+        sessionId,
+        totalTokens: tokenUsage.total,
+      });
+    } catch (primingError) {
+      warn('Session priming stage failed', {
+        stages: message.stages,
+        provider: provider.name,
+        error:
+          primingError instanceof Error
+            ? primingError.message
+            : 'Unknown error',
+      });
+      return finish(plannedStages, {
+        type: 'provider',
+        code: 'priming_failed',
+        message: `Session priming failed at ${message.stages.join(', ')}: ${primingError instanceof Error ? primingError.message : 'Unknown error'}`,
+        provider: provider.name,
+        timestamp: new Date(),
+        retryable: true,
+        details: { originalError: primingError, stages: message.stages },
+      });
+    }
+  }
+
+  return finish(plannedStages);
+}
+
+/**
+ * Converts the usage of a priming conversation to regular token usage
+ *
+ * @param priming Priming outcome
+ * @returns Token usage of the priming messages, or undefined if none were sent
+ */
+export function getPrimingTokenUsage(
+  priming: PrimingResult
+): TokenUsage | undefined {
+  const { input, output, total, estimatedCost } = priming.tokenUsage;
+  if (total === 0) {
+    return undefined;
+  }
+  return {
+    inputTokens: input,
+    outputTokens: output,
+    totalTokens: total,
+    ...(estimatedCost !== undefined && { estimatedCost }),
+  };
+}
+
+/**
+ * Builds a placeholder value with the shape of a schema
+ *
+ * Strings become `<string>` (or `<format>`), numbers 0, booleans false and
+ * enums their first option.
+ *
+ * @param schema Zod schema to describe
+ * @returns Placeholder value, or undefined if the schema can't be converted
+ */
+export function buildSchemaExample(
+  schema: z.ZodSchema<unknown>
+): unknown | undefined {
+  const jsonSchema = toJsonSchema(schema);
+  return jsonSchema ? buildSchemaSkeleton(jsonSchema, jsonSchema) : undefined;
+}
+
+function buildStageText<T>(
+  stage: SessionPrimingStage,
+  config: ProcessedConfiguration<T>,
+  priming: SessionPrimingConfig,
+  jsonSchema: JsonSchemaNode | undefined
+): string | undefined {
+  const explicit = priming.stages?.includes(stage) ?? false;
+
+  switch (stage) {
+    case 'schema_introduction':
+      return [
+        '[SCHEMA INTRODUCTION]',
+        'In this session you will produce JSON that must validate against the schema below.',
+        `Overview: ${getSchemaDescription(config.schema)}`,
+        ...(jsonSchema
+          ? [`JSON Schema:\n${JSON.stringify(jsonSchema, null, 2)}`]
+          : []),
+      ].join('\n');
+
+    case 'domain_context':
+      if (!priming.includeDomainContext || (!config.context && !config.lens)) {
+        return undefined;
+      }
+      return [
+        '[DOMAIN CONTEXT]',
+        ...(config.context ? [`Background:\n${config.context}`] : []),
+        ...(config.lens
+          ? [
+              `Approach the upcoming input from this perspective: ${config.lens}`,
+            ]
+          : []),
+      ].join('\n');
+
+    case 'format_demonstration': {
+      if (!priming.includeExamples && !explicit) {
+        return undefined;
+      }
+      const example =
+        config.exampleOutput ??
+        (jsonSchema ? buildSchemaSkeleton(jsonSchema, jsonSchema) : undefined);
+      if (example === undefined) {
+        return undefined;
+      }
+      return [
+        '[FORMAT DEMONSTRATION]',
+        config.exampleOutput !== undefined
+          ? 'This is an example of a valid response:'
+          : 'Valid responses have this shape (placeholders show the expected types):',
+        JSON.stringify(example, null, 2),
+        'Responses must be raw JSON like this, with no markdown fences or commentary.',
+      ].join('\n');
+    }
+
+    case 'constraint_explanation': {
+      const constraints = jsonSchema
+        ? collectConstraints(jsonSchema, jsonSchema, '$')
+        : [];
+      if (constraints.length === 0 && !explicit) {
+        return undefined;
+      }
+      return [
+        '[CONSTRAINTS]',
+        'Responses are rejected unless every one of these rules holds:',
+        ...constraints.map(constraint => `- ${constraint}`),
+      ].join('\n');
+    }
+
+    case 'edge_case_handling':
+      return [
+        '[EDGE CASES]',
+        '- If the input lacks information for an optional field, omit the field instead of inventing a value.',
+        '- Required fields must always be present, even when the input is sparse; choose the most reasonable value the schema allows.',
+        '- Do not add fields the schema does not define.',
+        '- Keep numbers as JSON numbers and booleans as true/false, never as strings.',
+        '- Arrays may be empty only when the schema allows it.',
+      ].join('\n');
+  }
+}
+
+function toJsonSchema(
+  schema: z.ZodSchema<unknown>
+): JsonSchemaNode | undefined {
+  try {
+    return z.toJSONSchema(schema, {
+      target: 'draft-2020-12',
+      unrepresentable: 'any',
+      cycles: 'ref',
+    }) as JsonSchemaNode;
+  } catch (schemaError) {
+    debug('Could not convert schema for session priming', {
+      error:
+        schemaError instanceof Error ? schemaError.message : 'Unknown error',
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Builds a placeholder value with the shape of a JSON Schema
+ */
+function buildSchemaSkeleton(
+  node: JsonSchemaNode,
+  root: JsonSchemaNode,
+  depth = 0
+): unknown {
+  const resolved = resolveRef(node, root);
+  if (depth > 6) {
+    return '...';
+  }
+  if (Array.isArray(resolved.enum) && resolved.enum.length > 0) {
+    return resolved.enum[0];
+  }
+  if (resolved.const !== undefined) {
+    return resolved.const;
+  }
+
+  const variants = (resolved.anyOf ?? resolved.oneOf) as
+    | JsonSchemaNode[]
+    | undefined;
+  if (Array.isArray(variants) && variants[0]) {
+    return buildSchemaSkeleton(variants[0], root, depth + 1);
+  }
+
+  const type = Array.isArray(resolved.type) ? resolved.type[0] : resolved.type;
+  switch (type) {
+    case 'object': {
+      const properties = (resolved.properties ?? {}) as Record<
+        string,
+        JsonSchemaNode
+      >;
+      return Object.fromEntries(
+        Object.entries(properties).map(([key, property]) => [
+          key,
+          buildSchemaSkeleton(property, root, depth + 1),
+        ])
+      );
+    }
+    case 'array':
+      return resolved.items
+        ? [
+            buildSchemaSkeleton(
+              resolved.items as JsonSchemaNode,
+              root,
+              depth + 1
+            ),
+          ]
+        : [];
+    case 'string':
+      return typeof resolved.format === 'string'
+        ? `<${resolved.format}>`
+        : '<string>';
+    case 'integer':
+    case 'number':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default:
+      return '<value>';
+  }
+}
+
+/**
+ * Lists the validation rules of a JSON Schema as readable sentences
+ */
+function collectConstraints(
+  node: JsonSchemaNode,
+  root: JsonSchemaNode,
+  path: string,
+  depth = 0
+): string[] {
+  const resolved = resolveRef(node, root);
+  if (depth > 6) {
+    return [];
+  }
+
+  const rules: string[] = [];
+  const describe = (rule: string): void => {
+    rules.push(`${path} ${rule}`);
+  };
+
+  if (Array.isArray(resolved.enum)) {
+    describe(
+      `must be one of: ${resolved.enum.map(value => JSON.stringify(value)).join(', ')}`
+    );
+  }
+  if (resolved.const !== undefined) {
+    describe(`must be exactly ${JSON.stringify(resolved.const)}`);
+  }
+  if (typeof resolved.minLength === 'number') {
+    describe(`must be at least ${resolved.minLength} characters long`);
+  }
+  if (typeof resolved.maxLength === 'number') {
+    describe(`must be at most ${resolved.maxLength} characters long`);
+  }
+  if (typeof resolved.pattern === 'string') {
+    describe(`must match the pattern ${resolved.pattern}`);
+  }
+  if (typeof resolved.format === 'string') {
+    describe(`must be a valid ${resolved.format}`);
+  }
+  if (typeof resolved.minimum === 'number') {
+    describe(`must be >= ${resolved.minimum}`);
+  }
+  if (typeof resolved.exclusiveMinimum === 'number') {
+    describe(`must be > ${resolved.exclusiveMinimum}`);
+  }
+  if (typeof resolved.maximum === 'number') {
+    describe(`must be <= ${resolved.maximum}`);
+  }
+  if (typeof resolved.exclusiveMaximum === 'number') {
+    describe(`must be < ${resolved.exclusiveMaximum}`);
+  }
+  if (typeof resolved.minItems === 'number') {
+    describe(`must contain at least ${resolved.minItems} item(s)`);
+  }
+  if (typeof resolved.maxItems === 'number') {
+    describe(`must contain at most ${resolved.maxItems} item(s)`);
+  }
+  if (Array.isArray(resolved.required) && resolved.required.length > 0) {
+    describe(`requires the fields: ${resolved.required.join(', ')}`);
+  }
+  if (resolved.additionalProperties === false) {
+    describe('must not contain any other fields');
+  }
+
+  const properties = resolved.properties as
+    | Record<string, JsonSchemaNode>
+    | undefined;
+  for (const [key, property] of Object.entries(properties ?? {})) {
+    rules.push(
+      ...collectConstraints(property, root, `${path}.${key}`, depth + 1)
+    );
+  }
+  if (resolved.items && typeof resolved.items === 'object') {
+    rules.push(
+      ...collectConstraints(
+        resolved.items as JsonSchemaNode,
+        root,
+        `${path}[]`,
+        depth + 1
+      )
+    );
+  }
+
+  return rules;
+}
+
+function resolveRef(
+  node: JsonSchemaNode,
+  root: JsonSchemaNode
+): JsonSchemaNode {
+  if (typeof node.$ref !== 'string' || !node.$ref.startsWith('#')) {
+    return node;
+  }
+  let target: unknown = root;
+  for (const segment of node.$ref.slice(1).split('/').filter(Boolean)) {
+    target = (target as JsonSchemaNode | undefined)?.[segment];
+  }
+  return (target as JsonSchemaNode | undefined) ?? node;
+}
+
+function createPrimingConfigurationError(
+  code: string,
+  message: string,
+  field: string
+): ConfigurationError {
+  return {
+    type: 'configuration',
+    code,
+    message,
+    field,
+    timestamp: new Date(),
+    retryable: false,
+  };
+}
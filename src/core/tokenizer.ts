@@ -0,0 +1,242 @@
+/**
+ * Token Estimation
+ *
+ * Estimates how many tokens a prompt takes up for the model it is sent to,
+ * without calling the provider. OpenAI-family models are counted exactly with
+ * their cl100k and o200k BPE encodings; other models get per-character
+ * approximations tuned to their tokenizers. Applications needing exact
+ * counts for those can register real encoders, and context windows,
+ * process-wide.
+ */
+
+import { createRequire } from 'node:module';
+import { TOKEN_ESTIMATION_DIVISOR } from '../shared/constants/index.js';
+import type {
+  ContextWindowTable,
+  PromptTokenEstimate,
+  Tokenizer,
+  TokenizerTable,
+} from '../types/tokenizer.js';
+import { findModelKey } from './pricing.js';
+
+/** BPE encodings of OpenAI models */
+type OpenAIEncoding = 'cl100k_base' | 'o200k_base';
+
+interface BpeEncoder {
+  countTokens(
+    text: string,
+    options: { disallowedSpecial: ReadonlySet<string> }
+  ): number;
+}
+
+const requireEncoder = createRequire(import.meta.url);
+const encoders = new Map<OpenAIEncoding, BpeEncoder>();
+
+/** Special tokens like `<|endoftext|>` in prompts are counted as plain text */
+const PLAIN_TEXT = { disallowedSpecial: new Set<string>() };
+
+/**
+ * Create a tokenizer estimating a fixed number of characters per token
+ *
+ * @param name - Name of the tokenizer
+ * @param charactersPerToken - Average characters per token of the model
+ */
+export function createCharacterTokenizer(
+  name: string,
+  charactersPerToken: number
+): Tokenizer {
+  return {
+    name,
+    countTokens: text => Math.ceil(text.length / charactersPerToken),
+  };
+}
+
+/**
+ * Create a tokenizer counting with one of OpenAI's BPE encodings
+ *
+ * The encoding's rank table takes a few megabytes, so it is only loaded
+ * when the first text is counted.
+ *
+ * @param encoding - Name of the encoding
+ */
+function createBpeTokenizer(encoding: OpenAIEncoding): Tokenizer {
+  return {
+    name: encoding,
+    countTokens: text => loadEncoder(encoding).countTokens(text, PLAIN_TEXT),
+  };
+}
+
+/** Tokenizer of GPT-4o, GPT-4.1, GPT-5 and the o-series reasoning models */
+export const O200K_TOKENIZER = createBpeTokenizer('o200k_base');
+
+/** Tokenizer of GPT-4, GPT-4 Turbo and GPT-3.5 Turbo */
+export const CL100K_TOKENIZER = createBpeTokenizer('cl100k_base');
+
+/** Approximation of the tokenizer of Claude models */
+export const CLAUDE_TOKENIZER = createCharacterTokenizer('claude-approx', 3.5);
+
+/** Approximation of the tokenizer of Gemini models */
+export const GEMINI_TOKENIZER = createCharacterTokenizer('gemini-approx', 4);
+
+/** Fallback for models without a known tokenizer */
+export const DEFAULT_TOKENIZER = createCharacterTokenizer(
+  'characters',
+  TOKEN_ESTIMATION_DIVISOR
+);
+
+/**
+ * Tokenizers of the model families Persuader has adapters for
+ */
+export const BUILT_IN_TOKENIZERS: TokenizerTable = {
+  'openai/*': O200K_TOKENIZER,
+  // Provider-qualified keys outrank plain ones, so the older models the
+  // wildcard would otherwise cover are listed for OpenAI too
+  'openai/gpt-4': CL100K_TOKENIZER,
+  'openai/gpt-4o': O200K_TOKENIZER,
+  'openai/gpt-4.1': O200K_TOKENIZER,
+  'openai/gpt-4.5': O200K_TOKENIZER,
+  'openai/gpt-3.5': CL100K_TOKENIZER,
+  'gpt-': O200K_TOKENIZER,
+  'gpt-4': CL100K_TOKENIZER,
+  'gpt-4o': O200K_TOKENIZER,
+  'gpt-4.1': O200K_TOKENIZER,
+  'gpt-4.5': O200K_TOKENIZER,
+  'gpt-3.5': CL100K_TOKENIZER,
+  o1: O200K_TOKENIZER,
+  o3: O200K_TOKENIZER,
+  o4: O200K_TOKENIZER,
+  'anthropic-sdk/*': CLAUDE_TOKENIZER,
+  'claude-cli/*': CLAUDE_TOKENIZER,
+  'claude-': CLAUDE_TOKENIZER,
+  'gemini/*': GEMINI_TOKENIZER,
+  'gemini-': GEMINI_TOKENIZER,
+};
+
+/**
+ * Published context window sizes in tokens
+ */
+export const BUILT_IN_CONTEXT_WINDOWS: ContextWindowTable = {
+  // Anthropic
+  'claude-': 200_000,
+  'anthropic-sdk/*': 200_000,
+  'claude-cli/*': 200_000,
+  // OpenAI
+  'gpt-5': 400_000,
+  'gpt-4.1': 1_047_576,
+  'gpt-4o': 128_000,
+  'gpt-4-turbo': 128_000,
+  'gpt-4': 8_192,
+  'gpt-3.5-turbo': 16_385,
+  o1: 200_000,
+  o3: 200_000,
+  'o4-mini': 200_000,
+  // Google
+  'gemini-': 1_048_576,
+  'gemini-1.5-pro': 2_097_152,
+};
+
+let customTokenizers: TokenizerTable = {};
+let customContextWindows: ContextWindowTable = {};
+
+/**
+ * Set tokenizers that override the built-in ones process-wide
+ *
+ * @param tokenizers - Tokenizers by model or `provider/model` key; undefined
+ * restores the built-in tokenizers
+ */
+export function setTokenizers(tokenizers: TokenizerTable | undefined): void {
+  customTokenizers = tokenizers ?? {};
+}
+
+/**
+ * Set context windows that override the built-in ones process-wide
+ *
+ * @param contextWindows - Sizes in tokens by model or `provider/model` key;
+ * undefined restores the built-in sizes
+ */
+export function setContextWindows(
+  contextWindows: ContextWindowTable | undefined
+): void {
+  customContextWindows = contextWindows ?? {};
+}
+
+/**
+ * Find the tokenizer of a provider's model
+ *
+ * @param provider - Name of the provider adapter
+ * @param model - Model id the call uses
+ * @returns The model's tokenizer, or the per-character fallback
+ */
+export function resolveTokenizer(
+  provider: string,
+  model: string | undefined
+): Tokenizer {
+  return (
+    lookUp(customTokenizers, provider, model) ??
+    lookUp(BUILT_IN_TOKENIZERS, provider, model) ??
+    DEFAULT_TOKENIZER
+  );
+}
+
+/**
+ * Find the context window of a provider's model
+ *
+ * @param provider - Name of the provider adapter
+ * @param model - Model id the call uses
+ * @returns The context window in tokens, or undefined if unknown
+ */
+export function resolveContextWindow(
+  provider: string,
+  model: string | undefined
+): number | undefined {
+  return (
+    lookUp(customContextWindows, provider, model) ??
+    lookUp(BUILT_IN_CONTEXT_WINDOWS, provider, model)
+  );
+}
+
+/**
+ * Estimate the size of a prompt for the model it is sent to
+ *
+ * @param prompt - Prompt as sent to the provider
+ * @param provider - Name of the provider adapter
+ * @param model - Model id the call uses
+ * @returns Estimated tokens and how they compare to the context window
+ */
+export function estimatePromptTokens(
+  prompt: string,
+  provider: string,
+  model: string | undefined
+): PromptTokenEstimate {
+  const tokenizer = resolveTokenizer(provider, model);
+  const tokens = tokenizer.countTokens(prompt);
+  const contextWindow = resolveContextWindow(provider, model);
+
+  return {
+    tokens,
+    tokenizer: tokenizer.name,
+    ...(contextWindow !== undefined && { contextWindow }),
+    exceedsContextWindow: contextWindow !== undefined && tokens > contextWindow,
+  };
+}
+
+function lookUp<V>(
+  table: Readonly<Record<string, V>>,
+  provider: string,
+  model: string | undefined
+): V | undefined {
+  // Without a model only provider-qualified wildcards can match
+  const key = findModelKey(table, provider, model ?? '');
+  return key === undefined ? undefined : table[key];
+}
+
+function loadEncoder(encoding: OpenAIEncoding): BpeEncoder {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = requireEncoder(
+      `gpt-tokenizer/encoding/${encoding}`
+    ) as BpeEncoder;
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
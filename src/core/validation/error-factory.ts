@@ -10,6 +10,10 @@
 
 import { z, type ZodIssue, type ZodSchema } from 'zod';
 import type { ValidationError } from '../../types/errors.js';
+import {
+  classifyFailureMode,
+  recommendRetryStrategy,
+} from './failure-classifier.js';
 
 /**
  * Type guard for Zod issues with size constraints (too_small)
@@ -71,7 +75,8 @@ export function hasOptions(issue: ZodIssue): issue is ZodIssue & {
  * Create a structured validation error with comprehensive metadata
  *
  * Constructs a ValidationError with all required fields for intelligent retry logic.
- * Includes structured feedback for LLM consumption and detailed error analysis.
+ * Includes structured feedback for LLM consumption and detailed error analysis,
+ * and classifies the failure mode the retry loop selects its strategy from.
  *
  * @param code - Error classification code for programmatic handling
  * @param message - Human-readable error description
@@ -89,6 +94,7 @@ export function createValidationError(
   schemaDescription?: string,
   suggestions?: string[]
 ): ValidationError {
+  const failureMode = classifyFailureMode(code, issues, rawValue);
   const error: ValidationError = {
     type: 'validation',
     code,
@@ -97,8 +103,8 @@ export function createValidationError(
     rawValue,
     timestamp: new Date(),
     retryable: true,
-    failureMode: 'schema_validation',
-    retryStrategy: 'provide_field_guidance',
+    failureMode,
+    retryStrategy: recommendRetryStrategy(failureMode),
     structuredFeedback: {
       problemSummary: message,
       specificIssues: suggestions || [],
@@ -0,0 +1,156 @@
+/**
+ * Failure Classification Module
+ *
+ * Classifies validation failures into failure modes and maps each mode to
+ * the retry strategy most likely to fix it. The classification only looks
+ * at the error code, the Zod issues and the raw value, so it can run while
+ * the validation error is being created.
+ */
+
+import type { ZodIssue } from 'zod';
+import type { ErrorFailureMode, RetryStrategy } from '../../types/errors.js';
+
+/**
+ * Recommended retry strategy for each failure mode
+ */
+export const RETRY_STRATEGY_BY_FAILURE_MODE: Readonly<
+  Record<ErrorFailureMode, RetryStrategy>
+> = {
+  json_parse_failure: 'demand_json_format',
+  wrong_format: 'demand_json_format',
+  incomplete_response: 'simplify_request',
+  hallucinated_structure: 'fix_structure',
+  extra_unknown_fields: 'fix_structure',
+  field_type_mismatch: 'provide_field_guidance',
+  missing_required_fields: 'provide_field_guidance',
+  schema_validation: 'provide_field_guidance',
+  constraint_violation: 'clarify_constraints',
+  nested_validation: 'progressive_refinement',
+  provider_refusal: 'reinforce_context',
+  context_confusion: 'session_reset',
+  semantic_inconsistency: 'reinforce_context',
+};
+
+const REFUSAL_PATTERN =
+  /\b(I can(?:'|no)t|I cannot|I'm (?:unable|not able)|I am (?:unable|not able)|I won't|I will not|unable to (?:help|comply|assist))\b/i;
+
+const CONSTRAINT_ISSUE_CODES: ReadonlySet<string> = new Set([
+  'too_small',
+  'too_big',
+  'invalid_format',
+  'invalid_string',
+  'invalid_enum_value',
+  'invalid_literal',
+  'invalid_value',
+  'not_multiple_of',
+  'custom',
+]);
+
+type IssueCategory = 'missing' | 'type' | 'constraint' | 'extra' | 'other';
+
+/**
+ * Classify a validation failure into a failure mode
+ *
+ * JSON parse failures are split into truncated output, refusals, plain text
+ * and malformed JSON. Schema failures are classified by the kind of issues
+ * they contain: a root type mismatch means the structure was made up, and
+ * mixed issues below the top level are reported as nested validation.
+ * Rejections by semantic validators are semantic inconsistencies.
+ *
+ * @param code - Validation error code
+ * @param issues - Zod issues of the failure
+ * @param rawValue - Raw response (parse failures) or parsed value
+ * @returns Failure mode of the validation error
+ */
+export function classifyFailureMode(
+  code: string,
+  issues: readonly ZodIssue[],
+  rawValue: unknown
+): ErrorFailureMode {
+  if (code === 'json_parse') {
+    return classifyParseFailure(typeof rawValue === 'string' ? rawValue : '');
+  }
+
+  if (code === 'semantic_validation') {
+    return 'semantic_inconsistency';
+  }
+
+  if (issues.length === 0) {
+    return 'schema_validation';
+  }
+
+  if (
+    issues.some(
+      issue => issue.path.length === 0 && issue.code === 'invalid_type'
+    )
+  ) {
+    return 'hallucinated_structure';
+  }
+
+  const categories = new Set(issues.map(categorizeIssue));
+  if (categories.size === 1) {
+    const [category] = categories;
+    switch (category) {
+      case 'missing':
+        return 'missing_required_fields';
+      case 'type':
+        return 'field_type_mismatch';
+      case 'constraint':
+        return 'constraint_violation';
+      case 'extra':
+        return 'extra_unknown_fields';
+    }
+  }
+
+  if (issues.some(issue => issue.path.length > 1)) {
+    return 'nested_validation';
+  }
+
+  return 'schema_validation';
+}
+
+/**
+ * Get the recommended retry strategy for a failure mode
+ *
+ * @param failureMode - Failure mode to look up
+ * @returns Retry strategy that targets the failure mode
+ */
+export function recommendRetryStrategy(
+  failureMode: ErrorFailureMode
+): RetryStrategy {
+  return RETRY_STRATEGY_BY_FAILURE_MODE[failureMode];
+}
+
+function classifyParseFailure(rawInput: string): ErrorFailureMode {
+  const text = rawInput.trim();
+  const jsonStart = text.search(/[{[]/);
+
+  if (jsonStart === -1) {
+    return REFUSAL_PATTERN.test(text) ? 'provider_refusal' : 'wrong_format';
+  }
+
+  const json = text.slice(jsonStart);
+  const opened = (json.match(/[{[]/g) ?? []).length;
+  const closed = (json.match(/[}\]]/g) ?? []).length;
+  return opened > closed ? 'incomplete_response' : 'json_parse_failure';
+}
+
+function categorizeIssue(issue: ZodIssue): IssueCategory {
+  if (issue.code === 'invalid_type') {
+    const received =
+      'input' in issue
+        ? (issue as { input?: unknown }).input
+        : 'received' in issue
+          ? (issue as { received?: unknown }).received
+          : null;
+    return received === undefined ||
+      received === 'undefined' ||
+      /received undefined/.test(issue.message)
+      ? 'missing'
+      : 'type';
+  }
+  if (issue.code === 'unrecognized_keys') {
+    return 'extra';
+  }
+  return CONSTRAINT_ISSUE_CODES.has(issue.code) ? 'constraint' : 'other';
+}
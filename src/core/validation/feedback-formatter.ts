@@ -7,8 +7,10 @@
 
 import type { z } from 'zod';
 import type { ValidationError } from '../../types/errors.js';
+import type { PromptTemplates } from '../../types/prompt.js';
 import { debug, getGlobalLogger } from '../../utils/logger.js';
 import { logValidationFailure } from '../../utils/validation-logger.js';
+import { getUrgencyPrefix, resolvePromptTemplates } from '../prompt-templates.js';
 import { generateFieldCorrections } from './suggestion-generator.js';
 
 /**
@@ -19,12 +21,15 @@ import { generateFieldCorrections } from './suggestion-generator.js';
  *
  * @param error - Validation error to format
  * @param attemptNumber - Current attempt number for progressive urgency
+ * @param rawContent - Raw response content, logged in debug mode
+ * @param templates - Template set providing the urgency prefixes
  * @returns Formatted error feedback string for LLM retry
  */
 export function formatValidationErrorFeedback(
   error: ValidationError,
   attemptNumber: number = 1,
-  rawContent?: string
+  rawContent?: string,
+  templates?: PromptTemplates
 ): string {
   // Log enhanced validation failure details if available and in debug mode
   const logger = getGlobalLogger();
@@ -40,7 +45,7 @@ export function formatValidationErrorFeedback(
 
   // Enhanced JSON parse error handling with progressive urgency
   if (error.code === 'json_parse') {
-    return formatJsonParseErrorFeedback(error, attemptNumber);
+    return formatJsonParseErrorFeedback(error, attemptNumber, templates);
   }
 
   // Enhanced schema validation error handling with field-specific guidance
@@ -48,6 +53,11 @@ export function formatValidationErrorFeedback(
     return formatSchemaValidationErrorFeedback(error, attemptNumber);
   }
 
+  // Semantic validator failures on otherwise schema-valid output
+  if (error.code === 'semantic_validation') {
+    return formatSemanticValidationErrorFeedback(error, attemptNumber, templates);
+  }
+
   // Generic error handling
   return `Validation Error: ${error.message}`;
 }
@@ -60,13 +70,15 @@ export function formatValidationErrorFeedback(
  *
  * @param error - JSON parsing validation error
  * @param attemptNumber - Current attempt number
+ * @param templates - Template set providing the urgency prefixes
  * @returns Formatted JSON parsing error feedback
  */
 export function formatJsonParseErrorFeedback(
   error: ValidationError,
-  attemptNumber: number
+  attemptNumber: number,
+  templates?: PromptTemplates
 ): string {
-  const urgency = generateUrgencyPrefix(attemptNumber);
+  const urgency = generateUrgencyPrefix(attemptNumber, templates);
   const instruction = generateAttemptSpecificInstructions(
     attemptNumber,
     'json_parse'
@@ -125,23 +137,51 @@ export function formatSchemaValidationErrorFeedback(
   return `Schema Validation Failed (Attempt ${attemptNumber}):${visualSeparator}\n${issueLines}${correctionLines}${suggestionLines}${structuredGuidance}${urgencyNote}`;
 }
 
+/**
+ * Format semantic validation error with the failed checks
+ *
+ * Specialized formatter for outputs that matched the schema but were
+ * rejected by semantic validators. The structured feedback is always
+ * included, since it is the only guidance about the content.
+ *
+ * @param error - Semantic validation error
+ * @param attemptNumber - Current attempt number
+ * @param templates - Template set providing the urgency prefixes
+ * @returns Formatted semantic validation error feedback
+ */
+export function formatSemanticValidationErrorFeedback(
+  error: ValidationError,
+  attemptNumber: number,
+  templates?: PromptTemplates
+): string {
+  const urgency = generateUrgencyPrefix(attemptNumber, templates);
+  const urgencyNote = generateFinalAttemptWarning(attemptNumber, 3);
+
+  debug('Formatting semantic validation error feedback', {
+    attemptNumber,
+    issueCount: error.issues?.length || 0,
+  });
+
+  return `${urgency}Semantic Validation Failed (Attempt ${attemptNumber}):
+${formatValidationIssues(error.issues || [])}${formatStructuredGuidance(error.structuredFeedback)}${urgencyNote}`;
+}
+
 /**
  * Generate urgency prefix based on attempt number
  *
  * Creates progressively urgent prefixes for error messages to emphasize
- * the criticality of following corrections as attempts increase.
+ * the criticality of following corrections as attempts increase. The
+ * prefixes come from the template set's `urgency` list.
  *
  * @param attemptNumber - Current attempt number
+ * @param templates - Template set providing the prefixes (default: the process-wide default set)
  * @returns Urgency prefix string (may be empty for early attempts)
  */
-export function generateUrgencyPrefix(attemptNumber: number): string {
-  if (attemptNumber >= 3) {
-    return '🚨 CRITICAL: ';
-  }
-  if (attemptNumber >= 2) {
-    return '⚠️ IMPORTANT: ';
-  }
-  return '';
+export function generateUrgencyPrefix(
+  attemptNumber: number,
+  templates: PromptTemplates = resolvePromptTemplates()
+): string {
+  return getUrgencyPrefix(templates, attemptNumber);
 }
 
 /**
@@ -286,12 +326,14 @@ export function formatStructuredGuidance(
  *
  * @param error - Generic validation error
  * @param attemptNumber - Current attempt number
+ * @param templates - Template set providing the urgency prefixes
  * @returns Formatted generic error feedback
  */
 export function formatGenericErrorFeedback(
   error: ValidationError,
-  attemptNumber: number
+  attemptNumber: number,
+  templates?: PromptTemplates
 ): string {
-  const urgencyPrefix = generateUrgencyPrefix(attemptNumber);
+  const urgencyPrefix = generateUrgencyPrefix(attemptNumber, templates);
   return `${urgencyPrefix}Validation Error (Attempt ${attemptNumber}): ${error.message}`;
 }
@@ -15,12 +15,19 @@ export {
   isTooBigIssue,
   isTooSmallIssue,
 } from './error-factory.js';
+// Failure classification
+export {
+  classifyFailureMode,
+  RETRY_STRATEGY_BY_FAILURE_MODE,
+  recommendRetryStrategy,
+} from './failure-classifier.js';
 // Feedback formatting utilities
 export {
   formatFieldCorrections,
   formatGenericErrorFeedback,
   formatJsonParseErrorFeedback,
   formatSchemaValidationErrorFeedback,
+  formatSemanticValidationErrorFeedback,
   formatSuggestionsList,
   formatValidationErrorFeedback,
   formatValidationIssues,
@@ -30,6 +37,8 @@ export {
 } from './feedback-formatter.js';
 // Field analysis utilities
 export { extractFieldErrors } from './field-analyzer.js';
+// Tolerant JSON extraction
+export { extractJson, type JsonExtraction } from './json-extractor.js';
 // Core validation functions and types
 export {
   parseJsonWithEnhancedErrors,
@@ -0,0 +1,271 @@
+/**
+ * JSON Extraction Module
+ *
+ * Recovers the JSON value from chatty provider output before validation:
+ * markdown code fences, prose around the value and small syntax slips that
+ * would otherwise cost a full retry. Every repair that was needed is
+ * reported, so callers can record how often extraction saved an attempt.
+ */
+
+import { DEFAULT_JSON_EXTRACTION_MODE } from '../../shared/constants/index.js';
+import type { JsonExtractionMode, JsonRepair } from '../../types/pipeline.js';
+
+/**
+ * JSON value recovered from a provider response
+ */
+export interface JsonExtraction {
+  /** Parsed value */
+  readonly value: unknown;
+
+  /** Repairs applied to obtain it, in order; empty for clean JSON */
+  readonly repairs: readonly JsonRepair[];
+}
+
+const CODE_FENCE = /```[a-zA-Z0-9_-]*[ \t]*\r?\n([\s\S]*?)```/g;
+
+/**
+ * Extract a JSON value from a provider response
+ *
+ * In `strict` mode the trimmed response must be valid JSON. In `tolerant`
+ * mode (the default) the content of markdown code fences and the first
+ * balanced object or array in the text are tried as well, and trailing
+ * commas and single-quoted strings are repaired. `lenient` mode also
+ * accepts JSON5-style comments and unquoted keys.
+ *
+ * @param rawInput - Raw response text
+ * @param mode - How much repair to attempt
+ * @returns Parsed value and the repairs it needed
+ * @throws Error with the `JSON.parse` message of the untouched response when
+ * no candidate could be parsed
+ */
+export function extractJson(
+  rawInput: string,
+  mode: JsonExtractionMode = DEFAULT_JSON_EXTRACTION_MODE
+): JsonExtraction {
+  const text = rawInput.trim();
+
+  try {
+    return { value: JSON.parse(text), repairs: [] };
+  } catch (parseError) {
+    if (mode === 'strict') {
+      throw parseError;
+    }
+
+    for (const candidate of findCandidates(text)) {
+      const extraction = parseWithRepairs(candidate.text, mode);
+      if (extraction) {
+        return {
+          value: extraction.value,
+          repairs: [...candidate.repairs, ...extraction.repairs],
+        };
+      }
+    }
+
+    throw parseError;
+  }
+}
+
+/**
+ * Text fragments that may hold the JSON value, most specific first
+ */
+function* findCandidates(
+  text: string
+): Generator<{ text: string; repairs: readonly JsonRepair[] }> {
+  // Syntax slips in an otherwise bare value
+  yield { text, repairs: [] };
+
+  for (const match of text.matchAll(CODE_FENCE)) {
+    const content = match[1]?.trim();
+    if (content) {
+      yield { text: content, repairs: ['code_fence'] };
+    }
+  }
+
+  for (
+    let start = text.search(/[{[]/);
+    start !== -1;
+    start = nextOpening(text, start + 1)
+  ) {
+    const end = findBalancedEnd(text, start);
+    if (end === text.length) {
+      // A value that never closes was cut off; the values nested in it are
+      // fragments, not the response
+      return;
+    }
+    if (end !== -1) {
+      yield { text: text.slice(start, end + 1), repairs: ['balanced_scan'] };
+    }
+  }
+}
+
+/**
+ * Parse a candidate, applying one syntax repair after another until it
+ * parses
+ */
+function parseWithRepairs(
+  candidate: string,
+  mode: JsonExtractionMode
+): JsonExtraction | undefined {
+  const steps: Array<[JsonRepair, (text: string) => string]> = [
+    ['single_quotes', convertSingleQuotes],
+  ];
+  if (mode === 'lenient') {
+    steps.push(['json5_syntax', normalizeJson5Syntax]);
+  }
+  steps.push(['trailing_commas', removeTrailingCommas]);
+
+  const repairs: JsonRepair[] = [];
+  let text = candidate;
+  let value = tryParse(text);
+
+  for (const [repair, apply] of steps) {
+    if (value.ok) {
+      break;
+    }
+    const repaired = apply(text);
+    if (repaired !== text) {
+      text = repaired;
+      repairs.push(repair);
+      value = tryParse(text);
+    }
+  }
+
+  return value.ok ? { value: value.value, repairs } : undefined;
+}
+
+function tryParse(text: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+function nextOpening(text: string, from: number): number {
+  const offset = text.slice(from).search(/[{[]/);
+  return offset === -1 ? -1 : from + offset;
+}
+
+/**
+ * Index of the bracket closing the one at `start`, ignoring brackets in
+ * strings; -1 on a mismatched bracket and `text.length` if the value is
+ * never closed
+ */
+function findBalancedEnd(text: string, start: number): number {
+  const stack: string[] = [];
+  let quote: string | undefined;
+
+  for (let index = start; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if (char === '\\') {
+        index++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) {
+        return -1;
+      }
+      if (stack.length === 0) {
+        return index;
+      }
+    }
+  }
+
+  return text.length;
+}
+
+/**
+ * Visit a JSON-ish text, handing every segment outside double-quoted
+ * strings to `transform` while copying strings unchanged
+ */
+function mapOutsideStrings(
+  text: string,
+  transform: (segment: string) => string
+): string {
+  let result = '';
+  let segmentStart = 0;
+
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] !== '"') {
+      continue;
+    }
+    result += transform(text.slice(segmentStart, index));
+
+    let end = index + 1;
+    while (end < text.length && text[end] !== '"') {
+      end += text[end] === '\\' ? 2 : 1;
+    }
+    result += text.slice(index, end + 1);
+    segmentStart = end + 1;
+    index = end;
+  }
+
+  return result + transform(text.slice(segmentStart));
+}
+
+function removeTrailingCommas(text: string): string {
+  return mapOutsideStrings(text, segment =>
+    segment.replace(/,(\s*[}\]])/g, '$1')
+  );
+}
+
+/**
+ * Rewrite single-quoted strings as double-quoted ones, leaving apostrophes
+ * inside double-quoted strings alone
+ */
+function convertSingleQuotes(text: string): string {
+  let result = '';
+  let quote: string | undefined;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index] as string;
+
+    if (quote === '"') {
+      result += char;
+      if (char === '\\') {
+        result += text[++index] ?? '';
+      } else if (char === '"') {
+        quote = undefined;
+      }
+    } else if (quote === "'") {
+      if (char === '\\' && text[index + 1] === "'") {
+        result += "'";
+        index++;
+      } else if (char === '\\') {
+        result += char + (text[++index] ?? '');
+      } else if (char === "'") {
+        result += '"';
+        quote = undefined;
+      } else {
+        result += char === '"' ? '\\"' : char;
+      }
+    } else if (char === '"' || char === "'") {
+      result += '"';
+      quote = char;
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Drop comments and quote bare object keys
+ */
+function normalizeJson5Syntax(text: string): string {
+  return mapOutsideStrings(text, segment =>
+    segment
+      .replace(/\/\/[^\n]*|\/\*[\s\S]*?\*\//g, '')
+      .replace(/([{,]\s*)([A-Za-z_$][\w$]*)(\s*:)/g, '$1"$2"$3')
+  );
+}
@@ -7,6 +7,7 @@
 
 import type { z } from 'zod';
 import type { ValidationError } from '../../types/errors.js';
+import type { JsonExtractionMode, JsonRepair } from '../../types/pipeline.js';
 import { debug, logValidation } from '../../utils/logger.js';
 import {
   extractSchemaInfo,
@@ -16,6 +17,7 @@ import {
   createValidationError,
   generateSchemaDescription,
 } from './error-factory.js';
+import { extractJson } from './json-extractor.js';
 import { generateValidationSuggestions } from './suggestion-generator.js';
 
 /**
@@ -29,6 +31,8 @@ export type ValidationResult<T> =
       readonly value: T;
       /** Validation error details (only present if success is false) */
       readonly error?: never;
+      /** Repairs JSON extraction applied to the response, when any were needed */
+      readonly repairs?: readonly JsonRepair[];
     }
   | {
       /** Whether validation succeeded */
@@ -37,22 +41,29 @@ export type ValidationResult<T> =
       readonly value?: never;
       /** Validation error details (only present if success is false) */
       readonly error: ValidationError;
+      /** Repairs JSON extraction applied to the response, when any were needed */
+      readonly repairs?: readonly JsonRepair[];
     };
 
 /**
  * Validate JSON string against Zod schema
  *
  * Main entry point for validation that handles both JSON parsing and schema
- * validation with comprehensive error reporting and debugging support.
+ * validation with comprehensive error reporting and debugging support. The
+ * JSON is extracted from the raw input according to `extractionMode` (see
+ * `extractJson`), and any repairs that were needed are returned with the
+ * result.
  *
  * @template T - The expected output type from the schema
  * @param schema - Zod schema to validate against
  * @param rawInput - Raw string input from LLM
+ * @param extractionMode - How much repair JSON extraction may attempt
  * @returns Validation result with typed value or error details
  */
 export function validateJson<T>(
   schema: z.ZodSchema<T>,
-  rawInput: string
+  rawInput: string,
+  extractionMode?: JsonExtractionMode
 ): ValidationResult<T> {
   // Log schema information for debugging
   try {
@@ -82,10 +93,11 @@ export function validateJson<T>(
   }
 
   try {
-    // First, try to parse the JSON
+    // First, extract and parse the JSON
     let parsedValue: unknown;
+    let repairs: readonly JsonRepair[];
     try {
-      parsedValue = parseJsonWithEnhancedErrors(rawInput.trim());
+      ({ value: parsedValue, repairs } = extractJson(rawInput, extractionMode));
     } catch (parseError) {
       return {
         success: false,
@@ -102,8 +114,16 @@ export function validateJson<T>(
       };
     }
 
+    if (repairs.length > 0) {
+      debug('Repaired provider response into parseable JSON', {
+        repairs,
+        inputLength: rawInput.length,
+      });
+    }
+
     // Then validate against the schema
-    return validateParsedJson(schema, parsedValue);
+    const result = validateParsedJson(schema, parsedValue);
+    return repairs.length > 0 ? { ...result, repairs } : result;
   } catch (error) {
     return {
       success: false,
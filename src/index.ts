@@ -9,45 +9,176 @@ import { z } from 'zod';
 
 // Provider adapters
 export {
+  type CircuitState,
   type ClaudeCLIAdapterConfig,
   createClaudeCLIAdapter,
+  createFallbackAdapter,
   createOpenAIAdapter,
   createProviderAdapter,
+  FallbackAdapter,
+  type FallbackAdapterConfig,
   getAvailableProviders,
   isProviderTypeSupported,
   type OpenAIAdapterConfig,
+  type ProviderCircuit,
   type ProviderAdapter,
   type ProviderResponse,
   type ProviderType,
 } from './adapters/index.js';
+// Response caching
+export {
+  type CachedResponse,
+  createFileResponseCacheStore,
+  createMemoryResponseCacheStore,
+  FileResponseCacheStore,
+  type FileResponseCacheStoreOptions,
+  MemoryResponseCacheStore,
+  type ResponseCacheOptions,
+  type ResponseCacheStats,
+  type ResponseCacheStore,
+} from './cache/index.js';
 // Constants and shared values
 export * from './constants.js';
 // Core pipeline API - Main entry point
 export {
+  analyzeCriticalPath,
+  type ArrayChunkingConfig,
+  type AttemptProvider,
+  type BottleneckReason,
+  type BottleneckStage,
+  type BranchEvaluation,
+  type BudgetLimits,
+  type BudgetOptions,
+  type BudgetScope,
+  type BudgetSkippedChecks,
+  type BudgetSpend,
+  BUILT_IN_CONTEXT_WINDOWS,
+  BUILT_IN_MODEL_PRICING,
+  BUILT_IN_PROMPT_TEMPLATES,
+  BUILT_IN_TOKENIZERS,
+  type BuiltInPromptTemplateName,
   buildPrompt,
+  type ChunkingResult,
+  type CircularDependency,
+  CL100K_TOKENIZER,
+  type ConditionalBranch,
+  type ConfidenceConfiguration,
+  type ConfidenceEstimator,
+  type ConfidenceSignals,
+  type ContextWindowTable,
+  createCharacterTokenizer,
   createMockProvider,
+  type CriticalPathAnalysis,
+  type CriticalPathAnalysisOptions,
+  type DAGValidationError,
+  type DAGValidationResult,
+  type DependencyGraph,
+  type EnhancedRetryAttempt,
+  estimateConfidence,
+  estimateCost,
+  estimatePromptTokens,
   type ExecutionMetadata,
   formatResultMetadata,
   getExecutionStats,
+  getProcessSpend,
   getSessionMetrics,
   initSession,
   type InitSessionOptions,
   type InitSessionResult,
   isCoreModuleReady,
+  type JsonExtractionMode,
+  type JsonRepair,
+  type JudgeValidator,
+  type ModelPricing,
+  O200K_TOKENIZER,
   type Options,
+  type ParallelizationOpportunity,
+  type PartialSalvageConfig,
+  type Pipeline,
+  type PipelineConfig,
+  type PipelineError,
+  type PipelineErrorHandling,
+  type PipelineExecutionContext,
+  type PipelineExecutionMetadata,
+  type PipelineFlow,
+  type PipelineRecoveryAttempt,
+  type PipelineRecoveryResult,
+  type PipelineRecoveryStrategy,
+  type PipelineResult,
+  type PipelineStage,
   persuade,
+  type PricingTable,
   preload,
   type PreloadOptions,
   type PreloadResult,
+  type PrimingResult,
+  priceTokenUsage,
   type PromptBuildOptions,
   type PromptParts,
+  type PromptTemplate,
+  type PromptTemplateOption,
+  type PromptTemplateOverrides,
+  type PromptTemplates,
+  type PromptTemplateVariables,
+  type PromptTokenEstimate,
   type Result,
   type RetryResult,
+  type RetryStrategyConfig,
   type RetryWithFeedbackOptions,
+  type RunPipelineOptions,
+  registerPromptTemplates,
+  renderPromptTemplate,
+  resolveModelPricing,
+  resolveContextWindow,
+  resolvePromptTemplates,
+  resolveTokenizer,
+  resetProcessSpend,
   retryWithFeedback,
+  runPipeline,
+  type SemanticCheckResult,
+  type SemanticIssue,
+  type SemanticValidator,
+  type SemanticValidatorFunction,
+  type SessionPrimingConfig,
+  setContextWindows,
+  setDefaultPromptTemplates,
+  setModelPricing,
+  setTokenizers,
+  type StageErrorRecovery,
+  type StageRecoveryInfo,
+  type StageResult,
+  type Tokenizer,
+  type TokenizerTable,
   type ValidationResult,
+  validateDAG,
   validateJson,
+  validatePipelineDefinition,
 } from './core/index.js';
+// Live pipeline progress tracking and terminal display
+export {
+  attachTerminalDisplay,
+  createProgressTracker,
+  PipelineProgressTracker,
+  type PipelineProgressTrackerOptions,
+  type ProgressDisplayMode,
+  type ProgressSnapshot,
+  renderProgress,
+  renderProgressDashboard,
+  type TerminalProgressDisplayOptions,
+} from './progress/index.js';
+// Human review of pipeline stage results
+export {
+  applyReviewModifications,
+  createFileReviewManager,
+  FileReviewManager,
+  type FileReviewManagerOptions,
+  type ReviewListFilter,
+  type ReviewServer,
+  type ReviewServerOptions,
+  startReviewServer,
+  type StoredReview,
+  validateReviewedValue,
+} from './review/index.js';
 // Schemas for validation
 export * from './schemas/claude-cli-response.js';
 // Session management
@@ -61,10 +192,12 @@ export {
 } from './session/index.js';
 // Essential types (focused on public API)
 export type {
+  BudgetError,
   ProviderError as CoreProviderError,
   ProviderPromptOptions,
   SessionConfig,
   SessionMetrics,
+  StructuredOutputMode,
   ValidationError,
 } from './types/index.js';
 // Utilities (selective exports)
@@ -0,0 +1,502 @@
+/**
+ * Terminal Progress Display
+ *
+ * Renders progress snapshots from a ProgressTracker for the terminal. The
+ * render functions are pure and return lines; attachTerminalDisplay() keeps a
+ * display in sync with a tracker, redrawing in place on a TTY and printing
+ * plain lines when output is piped or logged.
+ */
+
+import { Chalk, type ChalkInstance } from 'chalk';
+import { DEFAULT_PROGRESS_UPDATE_INTERVAL_MS } from '../shared/constants/index.js';
+import type { ProgressConfig } from '../types/multi-stage.js';
+import type {
+  ProgressActivity,
+  ProgressSnapshot,
+  ProgressTracker,
+  ProgressUpdateCallback,
+  StageProgress,
+  StageStatus,
+} from '../types/progress.js';
+
+/**
+ * How much detail the display shows
+ *
+ * - minimal: progress bar and stage count
+ * - basic: adds failures, ETA and token burn
+ * - detailed: adds running stages and warnings
+ * - dashboard: multi-line view with every stage, token totals, warnings and
+ *   recent activity
+ */
+export type ProgressDisplayMode = NonNullable<ProgressConfig['displayMode']>;
+
+/**
+ * Options for rendering progress snapshots
+ */
+export interface ProgressRenderOptions {
+  /** Whether to colour the output with ANSI codes (default false) */
+  readonly color?: boolean;
+
+  /** Maximum line width; longer lines are truncated (default 80) */
+  readonly width?: number;
+
+  /** Number of recent activities shown on the dashboard (default 5) */
+  readonly recentActivityCount?: number;
+}
+
+/**
+ * Stream the terminal display writes to
+ */
+export interface ProgressDisplayStream {
+  write(chunk: string): unknown;
+  readonly isTTY?: boolean;
+  readonly columns?: number;
+}
+
+/**
+ * Options for a terminal display attached to a tracker
+ */
+export interface TerminalProgressDisplayOptions {
+  /** Display mode (default 'basic') */
+  readonly mode?: ProgressDisplayMode;
+
+  /** Output stream (default process.stderr) */
+  readonly stream?: ProgressDisplayStream;
+
+  /** Redraw interval on a TTY, so elapsed time and ETA keep moving */
+  readonly intervalMs?: number;
+
+  /** Whether to colour the output (default: when the stream is a TTY) */
+  readonly color?: boolean;
+}
+
+/**
+ * Handle for a terminal display attached to a tracker
+ */
+export interface TerminalProgressDisplay {
+  /** Detach from the tracker and stop redrawing */
+  stop(): void;
+}
+
+const STATUS_SYMBOLS: Record<StageStatus, string> = {
+  pending: '○',
+  preparing: '◌',
+  executing: '▶',
+  validating: '▶',
+  retrying: '↻',
+  reviewing: '◆',
+  completed: '✔',
+  failed: '✖',
+  skipped: '–',
+  cancelled: '–',
+};
+
+const BAR_WIDTH = 24;
+const DEFAULT_WIDTH = 80;
+const DEFAULT_RECENT_ACTIVITY_COUNT = 5;
+
+/**
+ * Renders a snapshot in the given display mode
+ *
+ * @param snapshot Progress snapshot from a tracker
+ * @param mode Display mode
+ * @param options Render options
+ * @returns Lines to print, without trailing newlines
+ */
+export function renderProgress(
+  snapshot: ProgressSnapshot,
+  mode: ProgressDisplayMode,
+  options: ProgressRenderOptions = {}
+): string[] {
+  switch (mode) {
+    case 'dashboard':
+      return renderProgressDashboard(snapshot, options);
+    case 'detailed':
+      return renderDetailedProgress(snapshot, options);
+    case 'minimal':
+      return [renderMinimalLine(snapshot, options)];
+    default:
+      return [renderProgressLine(snapshot, options)];
+  }
+}
+
+/**
+ * Renders a one-line summary: bar, stage counts, ETA and token burn
+ *
+ * @param snapshot Progress snapshot from a tracker
+ * @param options Render options
+ * @returns Summary line
+ */
+export function renderProgressLine(
+  snapshot: ProgressSnapshot,
+  options: ProgressRenderOptions = {}
+): string {
+  const { pipelineProgress: pipeline } = snapshot;
+  const parts = [stageCounts(snapshot)];
+
+  if (pipeline.estimatedTimeRemainingMs !== undefined) {
+    parts.push(`ETA ${formatDuration(pipeline.estimatedTimeRemainingMs)}`);
+  }
+  const tokens = pipeline.metrics.totalTokenUsage?.totalTokens;
+  if (tokens !== undefined) {
+    const burn = tokenBurnPerMinute(snapshot);
+    parts.push(
+      `${formatNumber(tokens)} tokens${burn !== undefined ? ` (${formatNumber(burn)}/min)` : ''}`
+    );
+  }
+
+  return fit(
+    `${progressBar(pipeline.progress)} ${parts.join(' · ')}`,
+    options.width ?? DEFAULT_WIDTH
+  );
+}
+
+/**
+ * Renders the multi-line dashboard
+ *
+ * Shows the pipeline header with elapsed time and ETA, the overall progress
+ * bar, token totals and burn rate, one row per stage, warnings and the most
+ * recent activity.
+ *
+ * @param snapshot Progress snapshot from a tracker
+ * @param options Render options
+ * @returns Dashboard lines
+ */
+export function renderProgressDashboard(
+  snapshot: ProgressSnapshot,
+  options: ProgressRenderOptions = {}
+): string[] {
+  const chalk = createChalk(options);
+  const width = options.width ?? DEFAULT_WIDTH;
+  const { pipelineProgress: pipeline } = snapshot;
+  const usage = pipeline.metrics.totalTokenUsage;
+  const elapsedMs = snapshot.timestamp.getTime() - pipeline.startTime.getTime();
+
+  const header = [
+    `Pipeline ${pipeline.pipelineId}`,
+    pipeline.status,
+    `${formatDuration(elapsedMs)} elapsed`,
+    ...(pipeline.estimatedTimeRemainingMs !== undefined
+      ? [`ETA ${formatDuration(pipeline.estimatedTimeRemainingMs)}`]
+      : []),
+  ].join(' · ');
+
+  const burn = tokenBurnPerMinute(snapshot);
+  const tokenLine = usage
+    ? [
+        `Tokens ${formatNumber(usage.totalTokens)} (in ${formatNumber(usage.inputTokens)} / out ${formatNumber(usage.outputTokens)})`,
+        ...(burn !== undefined ? [`${formatNumber(burn)} tokens/min`] : []),
+        `retries ${pipeline.metrics.totalRetryAttempts}`,
+      ].join(' · ')
+    : `Tokens - · retries ${pipeline.metrics.totalRetryAttempts}`;
+
+  const lines = [
+    chalk.bold(fit(header, width)),
+    fit(
+      `${progressBar(pipeline.progress)} ${formatPercent(pipeline.progress)}  ${stageCounts(snapshot)}`,
+      width
+    ),
+    fit(tokenLine, width),
+    '',
+    chalk.dim(
+      fit(stageRow('Stage', 'Status', 'Time', 'Tokens', 'Attempts'), width)
+    ),
+    ...Object.values(snapshot.stageProgress).map(stage =>
+      colorForStatus(
+        chalk,
+        stage.status
+      )(fit(renderStageRow(stage, snapshot.timestamp), width))
+    ),
+  ];
+
+  if (snapshot.warnings.length > 0) {
+    lines.push('', chalk.bold('Warnings'));
+    for (const warning of snapshot.warnings) {
+      lines.push(chalk.yellow(fit(`! ${warning.message}`, width)));
+    }
+  }
+
+  const recent = snapshot.recentActivity.slice(
+    -(options.recentActivityCount ?? DEFAULT_RECENT_ACTIVITY_COUNT)
+  );
+  if (recent.length > 0) {
+    lines.push('', chalk.bold('Recent activity'));
+    for (const activity of recent) {
+      lines.push(chalk.dim(fit(renderActivity(activity), width)));
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Keeps a terminal display in sync with a tracker
+ *
+ * On a TTY the display is redrawn in place after every update and on a timer
+ * while the pipeline runs. Other streams get a line per activity in detailed
+ * and dashboard mode, or a summary line whenever the stage counts change in
+ * basic and minimal mode.
+ *
+ * @param tracker Tracker to follow
+ * @param options Display options
+ * @returns Handle to stop the display
+ */
+export function attachTerminalDisplay(
+  tracker: Pick<ProgressTracker, 'onProgressUpdate' | 'offProgressUpdate'>,
+  options: TerminalProgressDisplayOptions = {}
+): TerminalProgressDisplay {
+  const stream = options.stream ?? process.stderr;
+  const mode = options.mode ?? 'basic';
+  const interactive = Boolean(stream.isTTY);
+  const renderOptions: ProgressRenderOptions = {
+    color: options.color ?? interactive,
+    width: stream.columns ?? DEFAULT_WIDTH,
+  };
+
+  let latest: ProgressSnapshot | undefined;
+  let linesDrawn = 0;
+  let lastSummary = '';
+  let printedActivity: ProgressActivity | undefined;
+  let timer: NodeJS.Timeout | undefined;
+
+  const redraw = (): void => {
+    if (!latest) {
+      return;
+    }
+    const lines = renderProgress(
+      { ...latest, timestamp: new Date() },
+      mode,
+      renderOptions
+    );
+    const clear = linesDrawn > 0 ? `\x1b[${linesDrawn}F\x1b[0J` : '';
+    stream.write(`${clear}${lines.join('\n')}\n`);
+    linesDrawn = lines.length;
+  };
+
+  const printChanges = (snapshot: ProgressSnapshot): void => {
+    if (mode === 'detailed' || mode === 'dashboard') {
+      const start = printedActivity
+        ? snapshot.recentActivity.indexOf(printedActivity) + 1
+        : 0;
+      for (const activity of snapshot.recentActivity.slice(start)) {
+        stream.write(`${renderActivity(activity)}\n`);
+      }
+      printedActivity = snapshot.recentActivity.at(-1) ?? printedActivity;
+      return;
+    }
+
+    const summary = renderProgress(snapshot, mode, renderOptions)[0] ?? '';
+    const counts = stageCounts(snapshot);
+    if (counts !== lastSummary) {
+      stream.write(`${summary}\n`);
+      lastSummary = counts;
+    }
+  };
+
+  const stopTimer = (): void => {
+    if (timer) {
+      clearInterval(timer);
+      timer = undefined;
+    }
+  };
+
+  const listener: ProgressUpdateCallback = snapshot => {
+    latest = snapshot;
+    const lastActivity = snapshot.recentActivity.at(-1)?.type;
+    const finished =
+      lastActivity === 'pipeline_completed' ||
+      lastActivity === 'pipeline_failed';
+
+    if (lastActivity === 'pipeline_started') {
+      linesDrawn = 0;
+      lastSummary = '';
+      printedActivity = undefined;
+    }
+
+    if (!interactive) {
+      printChanges(snapshot);
+      return;
+    }
+
+    redraw();
+    if (finished) {
+      stopTimer();
+    } else if (!timer) {
+      timer = setInterval(
+        redraw,
+        options.intervalMs ?? DEFAULT_PROGRESS_UPDATE_INTERVAL_MS
+      );
+      timer.unref();
+    }
+  };
+
+  tracker.onProgressUpdate(listener);
+
+  return {
+    stop() {
+      stopTimer();
+      tracker.offProgressUpdate(listener);
+    },
+  };
+}
+
+function renderMinimalLine(
+  snapshot: ProgressSnapshot,
+  options: ProgressRenderOptions
+): string {
+  const { pipelineProgress: pipeline } = snapshot;
+  return fit(
+    `${progressBar(pipeline.progress)} ${pipeline.completedStages + pipeline.failedStages}/${pipeline.totalStages}`,
+    options.width ?? DEFAULT_WIDTH
+  );
+}
+
+function renderDetailedProgress(
+  snapshot: ProgressSnapshot,
+  options: ProgressRenderOptions
+): string[] {
+  const chalk = createChalk(options);
+  const width = options.width ?? DEFAULT_WIDTH;
+
+  return [
+    renderProgressLine(snapshot, options),
+    ...snapshot.pipelineProgress.executingStages.flatMap(stageId => {
+      const stage = snapshot.stageProgress[stageId];
+      return stage
+        ? [
+            colorForStatus(
+              chalk,
+              stage.status
+            )(fit(`  ${renderStageRow(stage, snapshot.timestamp)}`, width)),
+          ]
+        : [];
+    }),
+    ...snapshot.warnings.map(warning =>
+      chalk.yellow(fit(`  ! ${warning.message}`, width))
+    ),
+  ];
+}
+
+function renderStageRow(stage: StageProgress, now: Date): string {
+  const finished = stage.metrics?.executionTimeMs;
+  const runningMs = stage.startTime
+    ? now.getTime() - stage.startTime.getTime()
+    : undefined;
+  const timeMs =
+    finished ??
+    (stage.status === 'pending' || stage.status === 'skipped'
+      ? undefined
+      : runningMs);
+  const tokens = stage.metrics?.tokenUsage?.totalTokens;
+  const attempts =
+    stage.currentAttempt !== undefined || stage.maxAttempts !== undefined
+      ? `${stage.currentAttempt ?? '-'}/${stage.maxAttempts ?? '-'}`
+      : '';
+
+  return stageRow(
+    `${STATUS_SYMBOLS[stage.status]} ${stage.stageId}`,
+    stage.status,
+    timeMs !== undefined ? formatDuration(timeMs) : '',
+    tokens !== undefined ? formatNumber(tokens) : '',
+    attempts
+  );
+}
+
+function stageRow(
+  name: string,
+  status: string,
+  time: string,
+  tokens: string,
+  attempts: string
+): string {
+  return [
+    name.padEnd(24),
+    status.padEnd(11),
+    time.padEnd(9),
+    tokens.padEnd(9),
+    attempts,
+  ]
+    .join(' ')
+    .trimEnd();
+}
+
+function renderActivity(activity: ProgressActivity): string {
+  return `${activity.timestamp.toISOString().slice(11, 19)} ${activity.description}`;
+}
+
+function stageCounts(snapshot: ProgressSnapshot): string {
+  const { pipelineProgress: pipeline } = snapshot;
+  const parts = [`${pipeline.completedStages}/${pipeline.totalStages} stages`];
+  if (pipeline.failedStages > 0) {
+    parts.push(`${pipeline.failedStages} failed`);
+  }
+  if (pipeline.executingStages.length > 0) {
+    parts.push(`${pipeline.executingStages.length} running`);
+  }
+  return parts.join(' · ');
+}
+
+function tokenBurnPerMinute(snapshot: ProgressSnapshot): number | undefined {
+  const tokens = snapshot.pipelineProgress.metrics.totalTokenUsage?.totalTokens;
+  const elapsedMs =
+    snapshot.timestamp.getTime() -
+    snapshot.pipelineProgress.startTime.getTime();
+  if (tokens === undefined || elapsedMs < 1000) {
+    return undefined;
+  }
+  return Math.round((tokens * 60000) / elapsedMs);
+}
+
+function progressBar(progress: number): string {
+  const filled = Math.round(Math.min(1, Math.max(0, progress)) * BAR_WIDTH);
+  return `[${'█'.repeat(filled)}${'░'.repeat(BAR_WIDTH - filled)}]`;
+}
+
+function formatPercent(progress: number): string {
+  return `${Math.round(progress * 100)}%`.padStart(4);
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${Math.round(ms)}ms`;
+  }
+  if (ms < 60000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.round((ms % 60000) / 1000);
+  return `${minutes}m ${seconds}s`;
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('en-US');
+}
+
+function fit(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text;
+}
+
+function createChalk(options: ProgressRenderOptions): ChalkInstance {
+  return new Chalk({ level: options.color ? 1 : 0 });
+}
+
+function colorForStatus(
+  chalk: ChalkInstance,
+  status: StageStatus
+): (text: string) => string {
+  switch (status) {
+    case 'completed':
+      return chalk.green;
+    case 'failed':
+      return chalk.red;
+    case 'reviewing':
+    case 'retrying':
+      return chalk.yellow;
+    case 'executing':
+    case 'preparing':
+    case 'validating':
+      return chalk.cyan;
+    default:
+      return chalk.dim;
+  }
+}
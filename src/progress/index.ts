@@ -0,0 +1,31 @@
+/**
+ * Progress Module
+ *
+ * Exports the live pipeline progress tracker and its terminal display.
+ */
+
+export type {
+  PipelineProgress,
+  ProgressMetrics,
+  ProgressSnapshot,
+  ProgressTracker as ProgressTrackerInterface,
+  ProgressUpdateCallback,
+  ProgressWarning,
+  StageProgress,
+} from '../types/progress.js';
+export {
+  attachTerminalDisplay,
+  type ProgressDisplayMode,
+  type ProgressDisplayStream,
+  type ProgressRenderOptions,
+  renderProgress,
+  renderProgressDashboard,
+  renderProgressLine,
+  type TerminalProgressDisplay,
+  type TerminalProgressDisplayOptions,
+} from './display.js';
+export {
+  createProgressTracker,
+  PipelineProgressTracker,
+  type PipelineProgressTrackerOptions,
+} from './tracker.js';
@@ -0,0 +1,795 @@
+/**
+ * Pipeline Progress Tracker
+ *
+ * Live implementation of the ProgressTracker contract from types/progress.ts.
+ * The pipeline runner feeds it stage start, review, completion and failure
+ * events; pipeline-level figures (status, executing and waiting stages) are
+ * read from the live execution state handed to initialize(). Listeners
+ * registered with onProgressUpdate receive a snapshot after every event,
+ * which is what the terminal display renders.
+ */
+
+import {
+  DEFAULT_REVIEW_CONFIDENCE_THRESHOLD,
+  PROGRESS_BOTTLENECK_RATIO,
+} from '../shared/constants/index.js';
+import type {
+  PipelineExecutionContext,
+  ProgressTracker as PipelineRunnerProgressTracker,
+  StageResult,
+} from '../types/multi-stage.js';
+import type { TokenUsage } from '../types/pipeline.js';
+import type {
+  BottleneckAnalysis,
+  PipelineProgress,
+  PipelineProgressMetrics,
+  ProgressActivity,
+  ProgressActivityType,
+  ProgressMetrics,
+  ProgressPerformanceIndicators,
+  ProgressSnapshot,
+  ProgressTracker,
+  ProgressUpdateCallback,
+  ProgressWarning,
+  StageProgress,
+  StageProgressMetrics,
+  StageStatus,
+} from '../types/progress.js';
+import { debug, warn } from '../utils/logger.js';
+
+/**
+ * Options for the pipeline progress tracker
+ */
+export interface PipelineProgressTrackerOptions {
+  /** Number of recent activities kept in snapshots (default 20) */
+  readonly maxActivities?: number;
+
+  /** Confidence below which a low_confidence warning is raised */
+  readonly lowConfidenceThreshold?: number;
+}
+
+/** Statuses of stages that are running or waiting on a reviewer */
+const ACTIVE_STATUSES: ReadonlySet<StageStatus> = new Set([
+  'preparing',
+  'executing',
+  'validating',
+  'retrying',
+  'reviewing',
+]);
+
+/** Statuses of stages that will not run again in this pipeline run */
+const FINISHED_STATUSES: ReadonlySet<StageStatus> = new Set([
+  'completed',
+  'failed',
+  'skipped',
+  'cancelled',
+]);
+
+const ACTIVITY_FOR_STATUS: Partial<Record<StageStatus, ProgressActivityType>> =
+  {
+    executing: 'stage_started',
+    retrying: 'stage_retrying',
+    reviewing: 'stage_reviewing',
+    skipped: 'stage_skipped',
+  };
+
+const DEFAULT_MAX_ACTIVITIES = 20;
+
+/**
+ * Progress tracker fed by pipeline execution events
+ *
+ * Besides the full ProgressTracker interface it implements the runner's
+ * updateProgress(), so it can be passed directly as the `progressTracker`
+ * service of runPipeline(). Stages that never started by the time the run
+ * finalizes are reported as skipped.
+ *
+ * The ETA multiplies the average time of finished stages by the stages still
+ * to run, minus the time executing stages have already spent, divided by the
+ * number of stages currently executing in parallel. It is undefined until the
+ * first stage finishes.
+ */
+export class PipelineProgressTracker
+  implements ProgressTracker, PipelineRunnerProgressTracker
+{
+  private readonly maxActivities: number;
+  private readonly lowConfidenceThreshold: number;
+  private readonly listeners: Set<ProgressUpdateCallback> = new Set();
+  private readonly stages: Map<string, StageProgress> = new Map();
+  private activities: ProgressActivity[] = [];
+  private warnings: ProgressWarning[] = [];
+  private context: PipelineExecutionContext | undefined;
+  private reportedPipelineProgress: PipelineProgress | undefined;
+  private startTime: Date = new Date();
+  private endTime: Date | undefined;
+
+  constructor(options: PipelineProgressTrackerOptions = {}) {
+    this.maxActivities = options.maxActivities ?? DEFAULT_MAX_ACTIVITIES;
+    this.lowConfidenceThreshold =
+      options.lowConfidenceThreshold ?? DEFAULT_REVIEW_CONFIDENCE_THRESHOLD;
+  }
+
+  /**
+   * Start tracking a pipeline run
+   *
+   * Resets any previous run, so one tracker can follow consecutive runs
+   * (including the re-run started by pipeline-level recovery).
+   */
+  async initialize(context?: PipelineExecutionContext): Promise<void> {
+    this.context = context;
+    this.startTime = context?.state.startTime ?? new Date();
+    this.endTime = undefined;
+    this.reportedPipelineProgress = undefined;
+    this.stages.clear();
+    this.activities = [];
+    this.warnings = [];
+
+    for (const stage of context?.pipeline.stages ?? []) {
+      this.stages.set(stage.id, {
+        stageId: stage.id,
+        status: 'pending',
+        progress: 0,
+        phase: 'initializing',
+      });
+    }
+
+    this.addActivity(
+      'pipeline_started',
+      `Pipeline ${context?.pipeline.name ?? 'run'} started`
+    );
+    await this.notify();
+  }
+
+  /**
+   * Update a stage's completion fraction (0-1)
+   *
+   * A pending stage reported at 0 is marked as executing.
+   */
+  async updateProgress(stageId: string, progress: number): Promise<void> {
+    const current = this.getStage(stageId);
+    if (current.status === 'pending' && progress === 0) {
+      await this.updateStageProgress(stageId, {
+        ...current,
+        status: 'executing',
+        startTime: new Date(),
+      });
+      return;
+    }
+    if (!FINISHED_STATUSES.has(current.status)) {
+      this.stages.set(stageId, { ...current, progress });
+    }
+  }
+
+  /**
+   * Replace the progress of a stage
+   */
+  async updateStageProgress(
+    stageId: string,
+    progress: StageProgress
+  ): Promise<void> {
+    const previous = this.getStage(stageId);
+    this.stages.set(stageId, { ...previous, ...progress });
+
+    const activityType = ACTIVITY_FOR_STATUS[progress.status];
+    if (activityType && progress.status !== previous.status) {
+      this.addActivity(
+        activityType,
+        progress.currentActivity ?? describeStatus(stageId, progress.status),
+        stageId
+      );
+    }
+
+    if (
+      progress.status === 'retrying' &&
+      progress.currentAttempt !== undefined &&
+      progress.maxAttempts !== undefined &&
+      progress.currentAttempt >= progress.maxAttempts
+    ) {
+      this.addWarning({
+        type: 'retry_limit_approaching',
+        severity: 'medium',
+        stageId,
+        message: `Stage ${stageId} is on its last attempt (${progress.currentAttempt}/${progress.maxAttempts})`,
+      });
+    }
+
+    await this.notify();
+  }
+
+  /**
+   * Report pipeline-level progress computed by the caller
+   *
+   * Snapshots use the reported figures instead of the ones derived from the
+   * execution state until the next initialize().
+   */
+  async updatePipelineProgress(progress: PipelineProgress): Promise<void> {
+    this.reportedPipelineProgress = progress;
+    await this.notify();
+  }
+
+  /**
+   * Record a stage that produced its final result
+   */
+  async recordStageCompletion(
+    stageId: string,
+    result: StageResult
+  ): Promise<void> {
+    const { metadata } = result;
+    const attempts = metadata.stageMetrics.retryAttempts + 1;
+    const metrics: StageProgressMetrics = {
+      executionTimeMs: metadata.stageMetrics.executionTimeMs,
+      retryCount: metadata.stageMetrics.retryAttempts,
+      validationAttempts: metadata.stageMetrics.validationAttempts,
+      providerCalls: attempts,
+      ...(metadata.tokenUsage && { tokenUsage: metadata.tokenUsage }),
+      ...(metadata.confidence !== undefined && {
+        confidence: metadata.confidence,
+      }),
+    };
+
+    this.stages.set(stageId, {
+      ...this.getStage(stageId),
+      status: 'completed',
+      progress: 1,
+      phase: 'finalizing',
+      startTime: result.startTime,
+      currentAttempt: attempts,
+      metrics,
+    });
+    this.addActivity(
+      'stage_completed',
+      `Stage ${stageId} completed in ${metrics.executionTimeMs}ms`,
+      stageId,
+      'info',
+      {
+        attempts,
+        ...(metadata.tokenUsage && {
+          totalTokens: metadata.tokenUsage.totalTokens,
+        }),
+      }
+    );
+
+    if (
+      metadata.confidence !== undefined &&
+      metadata.confidence < this.lowConfidenceThreshold
+    ) {
+      this.addWarning({
+        type: 'low_confidence',
+        severity: 'medium',
+        stageId,
+        message: `Stage ${stageId} completed with confidence ${metadata.confidence.toFixed(2)}`,
+      });
+    }
+
+    await this.notify();
+  }
+
+  /**
+   * Record a stage that failed without recovery
+   */
+  async recordStageFailure(stageId: string, error: unknown): Promise<void> {
+    const current = this.getStage(stageId);
+    const message = describeError(error);
+
+    this.stages.set(stageId, {
+      ...current,
+      status: 'failed',
+      progress: 1,
+      phase: 'error_handling',
+      currentActivity: message,
+      metrics: {
+        ...current.metrics,
+        ...(current.startTime && {
+          executionTimeMs: Date.now() - current.startTime.getTime(),
+        }),
+      },
+    });
+    this.addActivity(
+      'stage_failed',
+      `Stage ${stageId} failed: ${message}`,
+      stageId,
+      'error'
+    );
+
+    await this.notify();
+  }
+
+  /**
+   * Current progress of the pipeline and every stage
+   */
+  async getCurrentProgress(): Promise<ProgressSnapshot> {
+    const pipelineMetrics = this.buildPipelineMetrics();
+
+    return {
+      timestamp: new Date(),
+      pipelineProgress:
+        this.reportedPipelineProgress ??
+        this.buildPipelineProgress(pipelineMetrics),
+      stageProgress: Object.fromEntries(this.stages),
+      recentActivity: [...this.activities],
+      warnings: [...this.warnings],
+      performance: buildPerformanceIndicators(
+        pipelineMetrics,
+        this.finishedStages()
+      ),
+    };
+  }
+
+  /**
+   * Finish tracking the run
+   *
+   * Stages that never started are marked as skipped.
+   */
+  async finalize(): Promise<void> {
+    this.endTime = new Date();
+
+    for (const stage of this.stages.values()) {
+      if (stage.status === 'pending') {
+        this.stages.set(stage.stageId, {
+          ...stage,
+          status: 'skipped',
+          progress: 1,
+        });
+        this.addActivity(
+          'stage_skipped',
+          describeStatus(stage.stageId, 'skipped'),
+          stage.stageId
+        );
+      }
+    }
+
+    const failed = this.context?.state.status === 'failed';
+    this.addActivity(
+      failed ? 'pipeline_failed' : 'pipeline_completed',
+      `Pipeline ${failed ? 'failed' : 'completed'} after ${this.elapsedMs()}ms`,
+      undefined,
+      failed ? 'error' : 'info'
+    );
+
+    debug('Progress tracking finalized', {
+      pipelineId: this.context?.pipeline.id,
+      elapsedMs: this.elapsedMs(),
+      warnings: this.warnings.length,
+    });
+    await this.notify();
+  }
+
+  /**
+   * Metrics and performance analysis for the run so far
+   *
+   * A single run has no history to compare against, so trends are reported
+   * as stable.
+   */
+  async getMetrics(): Promise<ProgressMetrics> {
+    const pipeline = this.buildPipelineMetrics();
+    const finished = this.finishedStages();
+    const counts = this.countStages();
+    const remainingMs = this.estimateRemainingMs();
+
+    const stages: Record<string, StageProgressMetrics> = {};
+    for (const stage of finished) {
+      if (stage.metrics?.executionTimeMs !== undefined) {
+        stages[stage.stageId] = toStageMetrics(stage);
+      }
+    }
+
+    const successful = finished.filter(stage => stage.status === 'completed');
+    const totalTime = sumOf(finished, stageTime);
+    const totalTokens = sumOf(finished, stageTokens);
+    const timeEfficiency =
+      totalTime > 0 ? sumOf(successful, stageTime) / totalTime : 1;
+    const tokenEfficiency =
+      totalTokens > 0 ? sumOf(successful, stageTokens) / totalTokens : 1;
+
+    return {
+      basic: {
+        totalStages: this.stages.size,
+        completedStages: counts.completed,
+        failedStages: counts.failed,
+        skippedStages: counts.skipped,
+        progressPercentage: Math.round(this.progressFraction() * 100),
+        elapsedTimeMs: this.elapsedMs(),
+        ...(remainingMs !== undefined && {
+          estimatedTimeRemainingMs: remainingMs,
+        }),
+      },
+      stages,
+      pipeline,
+      performance: {
+        bottlenecks: findBottlenecks(
+          finished,
+          pipeline.avgStageExecutionTimeMs
+        ),
+        optimizationOpportunities:
+          pipeline.totalRetryAttempts > 0
+            ? [
+                {
+                  type: 'retry_reduction',
+                  potentialImprovement:
+                    pipeline.totalRetryAttempts /
+                    (pipeline.totalRetryAttempts + finished.length),
+                  difficulty: 0.5,
+                  description: `${pipeline.totalRetryAttempts} retries were needed; clearer schema descriptions or examples usually reduce them`,
+                },
+              ]
+            : [],
+        trends: {
+          executionTimeTrend: 'stable',
+          successRateTrend: 'stable',
+          qualityTrend: 'stable',
+          efficiencyTrend: 'stable',
+        },
+        efficiency: {
+          timeEfficiency,
+          tokenEfficiency,
+          resourceEfficiency: pipeline.efficiency,
+          overallEfficiency:
+            (timeEfficiency + tokenEfficiency + pipeline.efficiency) / 3,
+        },
+      },
+    };
+  }
+
+  /**
+   * Subscribe to progress snapshots
+   */
+  onProgressUpdate(callback: ProgressUpdateCallback): void {
+    this.listeners.add(callback);
+  }
+
+  /**
+   * Unsubscribe from progress snapshots
+   */
+  offProgressUpdate(callback: ProgressUpdateCallback): void {
+    this.listeners.delete(callback);
+  }
+
+  private getStage(stageId: string): StageProgress {
+    return (
+      this.stages.get(stageId) ?? {
+        stageId,
+        status: 'pending',
+        progress: 0,
+        phase: 'initializing',
+      }
+    );
+  }
+
+  private finishedStages(): StageProgress[] {
+    return [...this.stages.values()].filter(
+      stage => stage.status === 'completed' || stage.status === 'failed'
+    );
+  }
+
+  private countStages(): Record<
+    'completed' | 'failed' | 'skipped' | 'active' | 'pending',
+    number
+  > {
+    const counts = {
+      completed: 0,
+      failed: 0,
+      skipped: 0,
+      active: 0,
+      pending: 0,
+    };
+    for (const { status } of this.stages.values()) {
+      if (status === 'completed' || status === 'failed') {
+        counts[status]++;
+      } else if (status === 'skipped' || status === 'cancelled') {
+        counts.skipped++;
+      } else if (ACTIVE_STATUSES.has(status)) {
+        counts.active++;
+      } else {
+        counts.pending++;
+      }
+    }
+    return counts;
+  }
+
+  private elapsedMs(): number {
+    return (this.endTime ?? new Date()).getTime() - this.startTime.getTime();
+  }
+
+  private progressFraction(): number {
+    if (this.stages.size === 0) {
+      return this.endTime ? 1 : 0;
+    }
+    let done = 0;
+    for (const stage of this.stages.values()) {
+      done += FINISHED_STATUSES.has(stage.status) ? 1 : stage.progress;
+    }
+    return done / this.stages.size;
+  }
+
+  private estimateRemainingMs(): number | undefined {
+    if (this.endTime) {
+      return 0;
+    }
+    const finished = this.finishedStages();
+    if (finished.length === 0) {
+      return undefined;
+    }
+
+    const avgStageTimeMs = sumOf(finished, stageTime) / finished.length;
+    const now = Date.now();
+    const active = [...this.stages.values()].filter(stage =>
+      ACTIVE_STATUSES.has(stage.status)
+    );
+    const pending = this.countStages().pending;
+    const activeRemainingMs = sumOf(active, stage =>
+      Math.max(0, avgStageTimeMs - (now - (stage.startTime?.getTime() ?? now)))
+    );
+
+    return Math.round(
+      (avgStageTimeMs * pending + activeRemainingMs) /
+        Math.max(1, active.length)
+    );
+  }
+
+  private buildPipelineMetrics(): PipelineProgressMetrics {
+    const finished = this.finishedStages();
+    const elapsedMs = this.elapsedMs();
+    const totalRetryAttempts = sumOf(
+      finished,
+      stage => stage.metrics?.retryCount ?? 0
+    );
+    const providerCalls = sumOf(
+      finished,
+      stage => stage.metrics?.providerCalls ?? 1
+    );
+    const completed = finished.filter(
+      stage => stage.status === 'completed'
+    ).length;
+    const totalTokenUsage = sumTokenUsage(finished);
+
+    return {
+      totalExecutionTimeMs: elapsedMs,
+      avgStageExecutionTimeMs:
+        finished.length > 0
+          ? Math.round(sumOf(finished, stageTime) / finished.length)
+          : 0,
+      totalRetryAttempts,
+      avgRetriesPerStage:
+        finished.length > 0 ? totalRetryAttempts / finished.length : 0,
+      successRate: finished.length > 0 ? completed / finished.length : 1,
+      efficiency: providerCalls > 0 ? completed / providerCalls : 1,
+      ...(totalTokenUsage && {
+        totalTokenUsage,
+        avgTokenUsagePerStage: Math.round(
+          totalTokenUsage.totalTokens / Math.max(1, finished.length)
+        ),
+      }),
+      ...(elapsedMs > 0 && {
+        throughputPerHour: (finished.length * 3600000) / elapsedMs,
+      }),
+    };
+  }
+
+  private buildPipelineProgress(
+    metrics: PipelineProgressMetrics
+  ): PipelineProgress {
+    const counts = this.countStages();
+    const state = this.context?.state;
+    const remainingMs = this.estimateRemainingMs();
+    const now = new Date();
+
+    return {
+      pipelineId: this.context?.pipeline.id ?? 'pipeline',
+      status: state?.status ?? (this.endTime ? 'completed' : 'running'),
+      progress: this.progressFraction(),
+      startTime: this.startTime,
+      currentTime: now,
+      ...(remainingMs !== undefined && {
+        estimatedCompletionTime: new Date(now.getTime() + remainingMs),
+        estimatedTimeRemainingMs: remainingMs,
+      }),
+      completedStages: counts.completed,
+      failedStages: counts.failed,
+      totalStages: this.stages.size,
+      executingStages: [...this.stages.values()]
+        .filter(stage => ACTIVE_STATUSES.has(stage.status))
+        .map(stage => stage.stageId),
+      waitingStages: [...this.stages.values()]
+        .filter(stage => stage.status === 'pending')
+        .map(stage => stage.stageId),
+      phase: toPipelinePhase(state?.phase, counts.failed > 0),
+      metrics,
+      efficiency: metrics.efficiency,
+    };
+  }
+
+  private addActivity(
+    type: ProgressActivityType,
+    description: string,
+    stageId?: string,
+    severity: ProgressActivity['severity'] = 'info',
+    metadata?: Record<string, unknown>
+  ): void {
+    this.activities.push({
+      timestamp: new Date(),
+      type,
+      description,
+      severity,
+      ...(stageId !== undefined && { stageId }),
+      ...(metadata && { metadata }),
+    });
+    if (this.activities.length > this.maxActivities) {
+      this.activities.splice(0, this.activities.length - this.maxActivities);
+    }
+  }
+
+  private addWarning(warning: Omit<ProgressWarning, 'id' | 'timestamp'>): void {
+    this.warnings.push({
+      ...warning,
+      id: `${warning.type}-${this.warnings.length + 1}`,
+      timestamp: new Date(),
+    });
+    this.addActivity(
+      'warning_issued',
+      warning.message,
+      warning.stageId,
+      'warning'
+    );
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.size === 0) {
+      return;
+    }
+    const snapshot = await this.getCurrentProgress();
+    for (const listener of this.listeners) {
+      try {
+        await listener(snapshot);
+      } catch (listenerError) {
+        warn('Progress listener failed', {
+          error:
+            listenerError instanceof Error
+              ? listenerError.message
+              : 'Unknown error',
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Creates a pipeline progress tracker
+ *
+ * @param options Tracker options
+ * @returns Tracker to pass as the `progressTracker` service of runPipeline()
+ */
+export function createProgressTracker(
+  options: PipelineProgressTrackerOptions = {}
+): PipelineProgressTracker {
+  return new PipelineProgressTracker(options);
+}
+
+function buildPerformanceIndicators(
+  metrics: PipelineProgressMetrics,
+  finished: ReadonlyArray<StageProgress>
+): ProgressPerformanceIndicators {
+  const totalTokens = metrics.totalTokenUsage?.totalTokens ?? 0;
+  const successfulTokens = sumOf(
+    finished.filter(stage => stage.status === 'completed'),
+    stageTokens
+  );
+
+  return {
+    avgStageTimeMs: metrics.avgStageExecutionTimeMs,
+    efficiency: metrics.efficiency,
+    successRate: metrics.successRate,
+    avgRetryRate: metrics.avgRetriesPerStage,
+    ...(totalTokens > 0 && { tokenEfficiency: successfulTokens / totalTokens }),
+    overallHealth: (metrics.successRate + metrics.efficiency) / 2,
+  };
+}
+
+function findBottlenecks(
+  finished: ReadonlyArray<StageProgress>,
+  avgStageTimeMs: number
+): BottleneckAnalysis[] {
+  if (finished.length < 2 || avgStageTimeMs <= 0) {
+    return [];
+  }
+
+  return finished
+    .filter(
+      stage => stageTime(stage) > avgStageTimeMs * PROGRESS_BOTTLENECK_RATIO
+    )
+    .map(stage => {
+      const ratio = stageTime(stage) / avgStageTimeMs;
+      return {
+        stageId: stage.stageId,
+        type:
+          (stage.metrics?.retryCount ?? 0) > 0
+            ? ('retry_count' as const)
+            : ('execution_time' as const),
+        severity: Math.min(1, (ratio - 1) / PROGRESS_BOTTLENECK_RATIO),
+        impactDescription: `Stage ${stage.stageId} took ${ratio.toFixed(1)}x the average stage time`,
+        suggestions:
+          (stage.metrics?.retryCount ?? 0) > 0
+            ? ['Reduce retries with clearer schema descriptions or examples']
+            : ['Split the stage or shorten its input'],
+      };
+    });
+}
+
+function toStageMetrics(stage: StageProgress): StageProgressMetrics {
+  return {
+    executionTimeMs: stageTime(stage),
+    retryCount: stage.metrics?.retryCount ?? 0,
+    validationAttempts: stage.metrics?.validationAttempts ?? 0,
+    providerCalls: stage.metrics?.providerCalls ?? 0,
+    ...(stage.metrics?.tokenUsage && { tokenUsage: stage.metrics.tokenUsage }),
+    ...(stage.metrics?.confidence !== undefined && {
+      confidence: stage.metrics.confidence,
+    }),
+  };
+}
+
+function toPipelinePhase(
+  phase: PipelineExecutionContext['state']['phase'] | undefined,
+  hasFailures: boolean
+): PipelineProgress['phase'] {
+  switch (phase) {
+    case undefined:
+    case 'initializing':
+      return 'initializing';
+    case 'reviewing':
+      return 'reviewing';
+    case 'completing':
+      return 'completing';
+    case 'failed':
+    case 'cancelled':
+      return 'error_handling';
+    default:
+      return hasFailures ? 'error_handling' : 'executing';
+  }
+}
+
+function sumTokenUsage(
+  stages: ReadonlyArray<StageProgress>
+): TokenUsage | undefined {
+  const usages = stages
+    .map(stage => stage.metrics?.tokenUsage)
+    .filter((usage): usage is TokenUsage => usage !== undefined);
+  if (usages.length === 0) {
+    return undefined;
+  }
+
+  return {
+    inputTokens: sumOf(usages, usage => usage.inputTokens),
+    outputTokens: sumOf(usages, usage => usage.outputTokens),
+    totalTokens: sumOf(usages, usage => usage.totalTokens),
+  };
+}
+
+function stageTime(stage: StageProgress): number {
+  return stage.metrics?.executionTimeMs ?? 0;
+}
+
+function stageTokens(stage: StageProgress): number {
+  return stage.metrics?.tokenUsage?.totalTokens ?? 0;
+}
+
+function sumOf<T>(items: ReadonlyArray<T>, value: (item: T) => number): number {
+  return items.reduce((sum, item) => sum + value(item), 0);
+}
+
+function describeStatus(stageId: string, status: StageStatus): string {
+  return `Stage ${stageId} ${status === 'executing' ? 'started' : status}`;
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (
+    typeof error === 'object' &&
+    error !== null &&
+    'message' in error &&
+    typeof error.message === 'string'
+  ) {
+    return error.message;
+  }
+  return 'Unknown error';
+}
@@ -0,0 +1,39 @@
+/**
+ * Review Module
+ *
+ * Exports the file-backed review manager and review modification utilities.
+ */
+
+export type {
+  PendingReview,
+  ReviewConfiguration,
+  ReviewManager as ReviewManagerInterface,
+  ReviewResult,
+  ReviewSubmission,
+  StoredReview,
+} from '../types/review.js';
+export {
+  createFileReviewManager,
+  FileReviewManager,
+  type FileReviewManagerOptions,
+  OPEN_REVIEW_STATUSES,
+  type ReviewListFilter,
+} from './manager.js';
+export {
+  applyReviewModifications,
+  formatReviewIssues,
+  type ReviewedValueResult,
+  validateAgainstStoredSchema,
+  validateReviewedValue,
+} from './modifications.js';
+export {
+  type ReviewServer,
+  type ReviewServerOptions,
+  startReviewServer,
+} from './server.js';
+export {
+  createWebhookPayload,
+  notifyReviewWebhooks,
+  type ReviewWebhookEvent,
+  type ReviewWebhookPayload,
+} from './webhooks.js';
@@ -0,0 +1,762 @@
+/**
+ * Review Manager Implementation
+ *
+ * File-backed review queue for multi-stage pipelines. Stages that need human
+ * review park their validated StageResult in the store and wait until a
+ * reviewer approves, rejects or modifies it, possibly from another process
+ * such as the CLI. Modified values are re-validated against the stage schema
+ * before the pipeline resumes.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { z } from 'zod';
+import {
+  DEFAULT_REVIEW_CONFIDENCE_THRESHOLD,
+  DEFAULT_REVIEW_DIR,
+  DEFAULT_REVIEW_POLL_INTERVAL_MS,
+  DEFAULT_REVIEW_TIMEOUT_MS,
+  REVIEW_FILE_EXT,
+} from '../shared/constants/index.js';
+import type {
+  PipelineExecutionContext,
+  PipelineStage,
+  StageResult,
+} from '../types/multi-stage.js';
+import type {
+  PendingReview,
+  ReviewConfiguration,
+  ReviewDecision,
+  ReviewManager,
+  ReviewMetrics,
+  ReviewPriority,
+  ReviewResult,
+  ReviewStatus,
+  ReviewSubmission,
+  StoredReview,
+  StoredReviewSubmission,
+} from '../types/review.js';
+import { debug, info, warn } from '../utils/logger.js';
+import { formatReviewIssues, validateReviewedValue } from './modifications.js';
+import { notifyReviewWebhooks, type ReviewWebhookEvent } from './webhooks.js';
+
+/**
+ * Options for the file-backed review manager
+ */
+export interface FileReviewManagerOptions {
+  /** Directory holding one JSON file per review (default ~/.persuader/reviews) */
+  readonly storageDir?: string;
+
+  /** How often a waiting stage checks the store for a decision */
+  readonly pollIntervalMs?: number;
+
+  /** Initial review configuration (see configureReview) */
+  readonly config?: ReviewConfiguration;
+}
+
+/**
+ * Filter for listing stored reviews
+ */
+export interface ReviewListFilter {
+  /** Only include reviews with one of these statuses */
+  readonly status?: ReadonlyArray<ReviewStatus>;
+
+  /** Only include reviews for this pipeline */
+  readonly pipelineId?: string;
+}
+
+/** Statuses in which a review still waits for a decision */
+export const OPEN_REVIEW_STATUSES: ReadonlyArray<ReviewStatus> = [
+  'pending',
+  'assigned',
+  'in_progress',
+  'deferred',
+  'escalated',
+];
+
+const CRITICALITY_PRIORITY: Record<
+  'low' | 'medium' | 'high' | 'critical',
+  ReviewPriority
+> = {
+  low: 'low',
+  medium: 'normal',
+  high: 'high',
+  critical: 'critical',
+};
+
+/**
+ * File-based review manager implementation
+ *
+ * A stage result needs review when the stage sets `requiresReview`, its
+ * `reviewConfig.shouldReview` returns true, the pipeline's review
+ * `defaultMode` is 'manual', or its confidence falls below the configured
+ * threshold. In 'confidence_based' mode (pipeline `defaultMode` or the run's
+ * `reviewMode`) a threshold always applies, falling back to
+ * DEFAULT_REVIEW_CONFIDENCE_THRESHOLD, and results without a confidence score
+ * are reviewed; results at or above it are auto-approved unless another
+ * reason applies. requestReview() writes the review to the store and polls it until
+ * a decision arrives, the review is cancelled, or it expires.
+ *
+ * Webhooks configured in `interface.api.webhooks` are notified by the manager
+ * that makes a change: the requesting manager reports requested and expired
+ * reviews, the submitting manager reports completed and escalated ones.
+ */
+export class FileReviewManager implements ReviewManager {
+  private readonly storageDir: string;
+  private readonly pollIntervalMs: number;
+  private config: ReviewConfiguration;
+  private readonly waiting: Map<string, PendingReview> = new Map();
+
+  constructor(options: FileReviewManagerOptions = {}) {
+    this.storageDir = resolveStorageDir(
+      options.storageDir ?? DEFAULT_REVIEW_DIR
+    );
+    this.pollIntervalMs =
+      options.pollIntervalMs ?? DEFAULT_REVIEW_POLL_INTERVAL_MS;
+    this.config = options.config ?? {};
+  }
+
+  /**
+   * Check if review is required for a stage result
+   */
+  async isReviewRequired(
+    stage: PipelineStage,
+    result: StageResult,
+    context: PipelineExecutionContext
+  ): Promise<boolean> {
+    return (await this.getReviewReasons(stage, result, context)).length > 0;
+  }
+
+  /**
+   * Park a stage result for review and wait for the decision
+   *
+   * Modifications are applied to the stage output and validated against the
+   * stage schema; an invalid modification re-opens the review with the schema
+   * errors recorded so the reviewer can correct it.
+   *
+   * @returns Review result; `timeout` when the review expired without decision
+   */
+  async requestReview(
+    stage: PipelineStage,
+    result: StageResult,
+    context: PipelineExecutionContext
+  ): Promise<ReviewResult> {
+    const createdAt = new Date();
+    const timeoutMs = this.getTimeoutMs(stage);
+    const expiresAt = new Date(createdAt.getTime() + timeoutMs);
+    const criticality = stage.reviewConfig?.criticality;
+    const review: StoredReview = {
+      id: randomUUID(),
+      pipelineId: context.pipeline.id,
+      pipelineName: context.pipeline.name,
+      stageId: stage.id,
+      stageName: stage.name,
+      status: 'pending',
+      priority: this.getPriority(stage),
+      ...(criticality && { criticality }),
+      reasons: await this.getReviewReasons(stage, result, context),
+      ...(stage.reviewConfig?.reviewPrompt && {
+        reviewPrompt: stage.reviewConfig.reviewPrompt,
+      }),
+      createdAt: createdAt.toISOString(),
+      updatedAt: createdAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      ...(result.input !== undefined && { input: result.input }),
+      value: result.value,
+      ...(result.rawOutput !== undefined && { rawOutput: result.rawOutput }),
+      ...(result.metadata.confidence !== undefined && {
+        confidence: result.metadata.confidence,
+      }),
+      ...describeSchema(stage.schema),
+      stageMetadata: {
+        provider: result.metadata.provider,
+        ...(result.metadata.model && { model: result.metadata.model }),
+        executionTimeMs: result.metadata.executionTimeMs,
+        attempts: result.metadata.stageMetrics.validationAttempts,
+        ...(result.metadata.tokenUsage && {
+          totalTokens: result.metadata.tokenUsage.totalTokens,
+        }),
+      },
+    };
+
+    await this.writeReview(review);
+    this.waiting.set(review.id, {
+      id: review.id,
+      stage,
+      result,
+      context,
+      createdAt,
+      expiresAt,
+      status: 'pending',
+      priority: review.priority,
+    });
+
+    info('Stage result parked for review', {
+      pipelineId: review.pipelineId,
+      stageId: stage.id,
+      reviewId: review.id,
+      reasons: review.reasons,
+      storageDir: this.storageDir,
+    });
+    await this.notify('review_requested', review);
+
+    try {
+      return await this.waitForDecision(review.id, stage, expiresAt);
+    } finally {
+      this.waiting.delete(review.id);
+    }
+  }
+
+  /**
+   * Get reviews this process is currently waiting on
+   *
+   * Use listReviews() to see every review in the store, including those
+   * requested by other processes.
+   */
+  async getPendingReviews(): Promise<ReadonlyArray<PendingReview>> {
+    const pending: PendingReview[] = [];
+    for (const review of this.waiting.values()) {
+      const stored = await this.readReview(review.id);
+      if (stored && OPEN_REVIEW_STATUSES.includes(stored.status)) {
+        pending.push({ ...review, status: stored.status });
+      }
+    }
+    return pending;
+  }
+
+  /**
+   * Get a review this process is waiting on by ID
+   */
+  async getReview(reviewId: string): Promise<PendingReview | null> {
+    const review = this.waiting.get(reviewId);
+    if (!review) {
+      return null;
+    }
+    const stored = await this.readReview(reviewId);
+    return stored ? { ...review, status: stored.status } : null;
+  }
+
+  /**
+   * Cancel an open review; the waiting stage treats it as rejected
+   */
+  async cancelReview(reviewId: string): Promise<void> {
+    const stored = await this.requireOpenReview(reviewId);
+    await this.writeReview({
+      ...stored,
+      status: 'cancelled',
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Submit a decision for an open review
+   *
+   * `deferred` and `escalated` decisions keep the review open. When the
+   * review was requested by this process, modifications are validated against
+   * the stage schema immediately and rejected with an error if invalid.
+   */
+  async submitReview(
+    reviewId: string,
+    decision: ReviewSubmission
+  ): Promise<ReviewResult> {
+    const stored = await this.requireOpenReview(reviewId);
+
+    const waiting = this.waiting.get(reviewId);
+    if (waiting && decision.modifications?.length) {
+      const checked = validateReviewedValue(
+        waiting.stage.schema,
+        stored.value,
+        decision.modifications
+      );
+      if (!checked.success) {
+        throw new Error(
+          `Modified output for review "${reviewId}" does not match the schema of stage "${stored.stageId}": ${formatReviewIssues(checked.issues).join('; ')}`
+        );
+      }
+    }
+
+    const now = new Date();
+    const reviewedBy = decision.metadata?.reviewedBy;
+    const submission: StoredReviewSubmission = {
+      ...decision,
+      submittedAt: now.toISOString(),
+      ...(typeof reviewedBy === 'string' && { reviewedBy }),
+    };
+    const { validationErrors: _previousErrors, ...rest } = stored;
+    const decided: StoredReview = {
+      ...rest,
+      status: statusForDecision(decision.decision),
+      updatedAt: now.toISOString(),
+      submission,
+    };
+    await this.writeReview(decided);
+
+    debug('Review decision submitted', {
+      reviewId,
+      stageId: stored.stageId,
+      decision: decision.decision,
+    });
+    if (decided.status === 'completed') {
+      await this.notify('review_completed', decided);
+    } else if (decided.status === 'escalated') {
+      await this.notify('review_escalated', decided);
+    }
+
+    return toReviewResult(stored, submission);
+  }
+
+  /**
+   * Get review statistics from every review in the store
+   *
+   * Quality metrics are derived from decisions alone: thoroughness is the
+   * share of decisions with comments, efficiency the share decided before
+   * expiring.
+   */
+  async getReviewMetrics(): Promise<ReviewMetrics> {
+    const reviews = await this.listReviews();
+    const decided = reviews.filter(review => review.submission);
+    const expired = reviews.filter(review => review.status === 'expired');
+    const decisionDistribution: Record<ReviewDecision, number> = {
+      approved: 0,
+      rejected: 0,
+      requires_modification: 0,
+      conditional_approval: 0,
+      timeout: expired.length,
+      deferred: 0,
+      escalated: 0,
+    };
+
+    let totalReviewTimeMs = 0;
+    for (const review of decided) {
+      const submission = review.submission as StoredReviewSubmission;
+      decisionDistribution[submission.decision]++;
+      totalReviewTimeMs += reviewTimeMs(review, submission);
+    }
+
+    const times = reviews.map(review => Date.parse(review.createdAt));
+    const from = new Date(times.length > 0 ? Math.min(...times) : Date.now());
+    const to = new Date();
+    const hours = Math.max((to.getTime() - from.getTime()) / 3_600_000, 1 / 60);
+    const closed = decided.length + expired.length;
+    const commented = decided.filter(review => review.submission?.comments);
+
+    return {
+      totalReviews: reviews.length,
+      pendingReviews: reviews.filter(review =>
+        OPEN_REVIEW_STATUSES.includes(review.status)
+      ).length,
+      averageReviewTimeMs:
+        decided.length > 0 ? totalReviewTimeMs / decided.length : 0,
+      decisionDistribution,
+      throughputPerHour: decided.length / hours,
+      autoReviewRatio: 0,
+      qualityMetrics: {
+        averageThoroughness:
+          decided.length > 0 ? commented.length / decided.length : 0,
+        averageEfficiency: closed > 0 ? decided.length / closed : 0,
+        systemHealthScore: closed > 0 ? decided.length / closed : 1,
+      },
+      timeWindow: { from, to },
+    };
+  }
+
+  /**
+   * Configure review settings
+   */
+  async configureReview(config: ReviewConfiguration): Promise<void> {
+    this.config = {
+      ...this.config,
+      ...config,
+      ...((this.config.global || config.global) && {
+        global: { ...this.config.global, ...config.global },
+      }),
+      ...((this.config.interface || config.interface) && {
+        interface: { ...this.config.interface, ...config.interface },
+      }),
+      ...((this.config.stageOverrides || config.stageOverrides) && {
+        stageOverrides: {
+          ...this.config.stageOverrides,
+          ...config.stageOverrides,
+        },
+      }),
+    };
+  }
+
+  /**
+   * List reviews in the store, oldest first
+   */
+  async listReviews(filter: ReviewListFilter = {}): Promise<StoredReview[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.storageDir);
+    } catch {
+      return [];
+    }
+
+    const reviews: StoredReview[] = [];
+    for (const file of files.filter(name => name.endsWith(REVIEW_FILE_EXT))) {
+      const review = await this.readReview(
+        file.slice(0, -REVIEW_FILE_EXT.length)
+      );
+      if (
+        review &&
+        (!filter.status || filter.status.includes(review.status)) &&
+        (!filter.pipelineId || review.pipelineId === filter.pipelineId)
+      ) {
+        reviews.push(review);
+      }
+    }
+
+    return reviews.sort(
+      (a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt)
+    );
+  }
+
+  /**
+   * Read a review from the store by ID
+   */
+  async getStoredReview(reviewId: string): Promise<StoredReview | null> {
+    return this.readReview(reviewId);
+  }
+
+  // Private methods
+
+  /**
+   * Polls the store until the review is decided, cancelled or expired
+   */
+  private async waitForDecision(
+    reviewId: string,
+    stage: PipelineStage,
+    expiresAt: Date
+  ): Promise<ReviewResult> {
+    for (;;) {
+      const stored = await this.readReview(reviewId);
+
+      if (!stored || stored.status === 'cancelled') {
+        warn('Review cancelled', { reviewId, stageId: stage.id });
+        return {
+          decision: 'rejected',
+          reviewedAt: new Date(),
+          reviewTimeMs: stored ? reviewTimeMs(stored) : 0,
+          reviewId,
+          comments: stored
+            ? 'Review was cancelled'
+            : 'Review was removed from the store',
+        };
+      }
+
+      if (stored.status === 'completed' && stored.submission) {
+        const invalid = this.checkModifications(stage, stored);
+        if (!invalid) {
+          info('Review decided', {
+            reviewId,
+            stageId: stage.id,
+            decision: stored.submission.decision,
+          });
+          return toReviewResult(stored, stored.submission);
+        }
+
+        warn('Reviewed output does not match the stage schema', {
+          reviewId,
+          stageId: stage.id,
+          issues: invalid,
+        });
+        const { submission: _rejected, ...reopened } = stored;
+        await this.writeReview({
+          ...reopened,
+          status: 'pending',
+          updatedAt: new Date().toISOString(),
+          validationErrors: invalid,
+        });
+      }
+
+      const remainingMs = expiresAt.getTime() - Date.now();
+      if (remainingMs <= 0) {
+        const expired: StoredReview = {
+          ...stored,
+          status: 'expired',
+          updatedAt: new Date().toISOString(),
+        };
+        await this.writeReview(expired);
+        warn('Review expired without a decision', {
+          reviewId,
+          stageId: stage.id,
+        });
+        await this.notify('review_expired', expired);
+        return {
+          decision: 'timeout',
+          reviewedAt: new Date(),
+          reviewTimeMs: reviewTimeMs(stored),
+          reviewId,
+        };
+      }
+
+      await new Promise(resolve =>
+        setTimeout(resolve, Math.min(this.pollIntervalMs, remainingMs))
+      );
+    }
+  }
+
+  /**
+   * Returns schema errors for the submitted modifications, if any
+   */
+  private checkModifications(
+    stage: PipelineStage,
+    stored: StoredReview
+  ): string[] | undefined {
+    const modifications = stored.submission?.modifications;
+    if (!modifications?.length) {
+      return undefined;
+    }
+    try {
+      const checked = validateReviewedValue(
+        stage.schema,
+        stored.value,
+        modifications
+      );
+      return checked.success ? undefined : formatReviewIssues(checked.issues);
+    } catch (applyError) {
+      return [
+        applyError instanceof Error ? applyError.message : String(applyError),
+      ];
+    }
+  }
+
+  /**
+   * Collects the reasons a stage result needs review (empty when it does not)
+   */
+  private async getReviewReasons(
+    stage: PipelineStage,
+    result: StageResult,
+    context: PipelineExecutionContext
+  ): Promise<string[]> {
+    const pipelineReview = context.pipeline.config.reviewConfig;
+    if (
+      pipelineReview?.enabled === false ||
+      pipelineReview?.defaultMode === 'disabled' ||
+      context.options.reviewMode === 'disabled'
+    ) {
+      return [];
+    }
+
+    const reasons: string[] = [];
+    if (stage.requiresReview) {
+      reasons.push('Stage requires review');
+    }
+    if (pipelineReview?.defaultMode === 'manual') {
+      reasons.push('Pipeline review mode is manual');
+    }
+
+    const confidenceBased =
+      pipelineReview?.defaultMode === 'confidence_based' ||
+      context.options.reviewMode === 'confidence_based';
+    const threshold =
+      this.config.stageOverrides?.[stage.id]?.confidenceThreshold ??
+      stage.reviewConfig?.confidenceThreshold ??
+      pipelineReview?.globalConfidenceThreshold ??
+      this.config.global?.defaultConfidenceThreshold ??
+      (confidenceBased ? DEFAULT_REVIEW_CONFIDENCE_THRESHOLD : undefined);
+    const confidence = result.metadata.confidence;
+    if (
+      threshold !== undefined &&
+      confidence !== undefined &&
+      confidence < threshold
+    ) {
+      reasons.push(
+        `Confidence ${confidence.toFixed(2)} is below the threshold of ${threshold}`
+      );
+    } else if (confidenceBased && confidence === undefined) {
+      reasons.push('No confidence score is available');
+    }
+
+    if (
+      stage.reviewConfig?.shouldReview &&
+      (await stage.reviewConfig.shouldReview(
+        result.value,
+        result.metadata,
+        context
+      ))
+    ) {
+      reasons.push('Stage shouldReview() requested review');
+    }
+
+    for (const criterion of this.config.stageOverrides?.[stage.id]
+      ?.customCriteria ?? []) {
+      if (await criterion.evaluate(stage, result, context)) {
+        reasons.push(`Criterion "${criterion.name}" requested review`);
+      }
+    }
+
+    if (confidenceBased && reasons.length === 0) {
+      info('Stage result auto-approved on confidence', {
+        pipelineId: context.pipeline.id,
+        stageId: stage.id,
+        confidence,
+        threshold,
+      });
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Sends a lifecycle event to the webhooks in `interface.api.webhooks`
+   */
+  private async notify(
+    event: ReviewWebhookEvent,
+    review: StoredReview
+  ): Promise<void> {
+    await notifyReviewWebhooks(
+      this.config.interface?.api?.webhooks,
+      event,
+      review
+    );
+  }
+
+  private getTimeoutMs(stage: PipelineStage): number {
+    return (
+      this.config.stageOverrides?.[stage.id]?.timeoutMs ??
+      stage.reviewConfig?.timeoutMs ??
+      this.config.global?.defaultTimeoutMs ??
+      DEFAULT_REVIEW_TIMEOUT_MS
+    );
+  }
+
+  private getPriority(stage: PipelineStage): ReviewPriority {
+    const criticality = stage.reviewConfig?.criticality;
+    return (
+      this.config.stageOverrides?.[stage.id]?.priority ??
+      (criticality && CRITICALITY_PRIORITY[criticality]) ??
+      this.config.global?.defaultPriority ??
+      'normal'
+    );
+  }
+
+  private async requireOpenReview(reviewId: string): Promise<StoredReview> {
+    const stored = await this.readReview(reviewId);
+    if (!stored) {
+      throw new Error(`Review "${reviewId}" not found in ${this.storageDir}`);
+    }
+    if (!OPEN_REVIEW_STATUSES.includes(stored.status)) {
+      throw new Error(
+        `Review "${reviewId}" is already ${stored.status} and cannot be changed`
+      );
+    }
+    return stored;
+  }
+
+  private async readReview(reviewId: string): Promise<StoredReview | null> {
+    try {
+      const content = await fs.readFile(
+        this.getReviewFilePath(reviewId),
+        'utf-8'
+      );
+      return JSON.parse(content) as StoredReview;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Writes a review atomically so readers in other processes never see a
+   * partially written file
+   */
+  private async writeReview(review: StoredReview): Promise<void> {
+    try {
+      await fs.mkdir(this.storageDir, { recursive: true });
+    } catch (error) {
+      throw new Error(`Failed to create review storage directory: ${error}`);
+    }
+    const filePath = this.getReviewFilePath(review.id);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(review, null, 2), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  private getReviewFilePath(reviewId: string): string {
+    if (!/^[\w-]+$/.test(reviewId)) {
+      throw new Error(`Invalid review ID "${reviewId}"`);
+    }
+    return path.join(this.storageDir, `${reviewId}${REVIEW_FILE_EXT}`);
+  }
+}
+
+/**
+ * Create a file-backed review manager
+ *
+ * @param options Storage directory, polling interval and review configuration
+ * @returns Review manager to pass to runPipeline() as `services.reviewManager`
+ */
+export function createFileReviewManager(
+  options: FileReviewManagerOptions = {}
+): FileReviewManager {
+  return new FileReviewManager(options);
+}
+
+function resolveStorageDir(dir: string): string {
+  if (dir.startsWith('~')) {
+    return path.join(os.homedir(), dir.slice(1));
+  }
+  return path.resolve(dir);
+}
+
+function statusForDecision(decision: ReviewDecision): ReviewStatus {
+  if (decision === 'deferred' || decision === 'escalated') {
+    return decision;
+  }
+  return 'completed';
+}
+
+function reviewTimeMs(
+  review: StoredReview,
+  submission?: StoredReviewSubmission
+): number {
+  if (submission?.reviewTimeMs !== undefined) {
+    return submission.reviewTimeMs;
+  }
+  const end = submission ? Date.parse(submission.submittedAt) : Date.now();
+  return Math.max(0, end - Date.parse(review.createdAt));
+}
+
+function toReviewResult(
+  review: StoredReview,
+  submission: StoredReviewSubmission
+): ReviewResult {
+  return {
+    decision: submission.decision,
+    reviewedAt: new Date(submission.submittedAt),
+    reviewTimeMs: reviewTimeMs(review, submission),
+    reviewId: review.id,
+    ...(submission.comments !== undefined && {
+      comments: submission.comments,
+    }),
+    ...(submission.confidence !== undefined && {
+      confidence: submission.confidence,
+    }),
+    ...(submission.modifications && {
+      modifications: submission.modifications,
+    }),
+    ...(submission.reviewedBy && { reviewedBy: submission.reviewedBy }),
+  };
+}
+
+/**
+ * Converts the stage schema to JSON Schema for reviewers outside the process
+ */
+function describeSchema(
+  schema: z.ZodSchema<unknown>
+): { schema: unknown } | Record<string, never> {
+  try {
+    return {
+      schema: z.toJSONSchema(schema, {
+        target: 'draft-2020-12',
+        unrepresentable: 'any',
+        cycles: 'ref',
+      }),
+    };
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Review Modifications
+ *
+ * Applies reviewer modifications to a stage output and re-validates the result
+ * against the stage schema, so edited values never bypass validation.
+ */
+
+import Ajv2020 from 'ajv/dist/2020.js';
+import type { z } from 'zod';
+import type { ReviewModification, StoredReview } from '../types/review.js';
+
+/**
+ * Result of applying reviewer modifications to a stage output
+ */
+export type ReviewedValueResult =
+  | { readonly success: true; readonly value: unknown }
+  | {
+      readonly success: false;
+      readonly issues: z.ZodIssue[];
+      readonly value: unknown;
+    };
+
+/**
+ * Applies modifications to a value without mutating it
+ *
+ * Paths use dot notation with optional bracket indices (`items[0].name`,
+ * `items.0.name`); a leading `$` is ignored. An empty path or `$` replaces
+ * the whole value.
+ *
+ * @param value Original stage output
+ * @param modifications Reviewer modifications, applied in order
+ * @returns Modified copy of the value
+ */
+export function applyReviewModifications(
+  value: unknown,
+  modifications: ReadonlyArray<ReviewModification>
+): unknown {
+  let modified = structuredClone(value);
+
+  for (const modification of modifications) {
+    const segments = parseReviewPath(modification.path);
+    if (segments.length === 0) {
+      modified = structuredClone(modification.suggestedValue);
+      continue;
+    }
+
+    if (typeof modified !== 'object' || modified === null) {
+      throw new Error(
+        `Cannot apply modification at "${modification.path}": the stage output is not an object.`
+      );
+    }
+
+    let target = modified as Record<string, unknown>;
+    for (const segment of segments.slice(0, -1)) {
+      const next = target[segment];
+      if (typeof next !== 'object' || next === null) {
+        throw new Error(
+          `Cannot apply modification at "${modification.path}": "${segment}" is not an object or array.`
+        );
+      }
+      target = next as Record<string, unknown>;
+    }
+    target[segments[segments.length - 1] as string] = structuredClone(
+      modification.suggestedValue
+    );
+  }
+
+  return modified;
+}
+
+/**
+ * Applies modifications and validates the result against the stage schema
+ *
+ * @param schema Stage output schema
+ * @param value Original stage output
+ * @param modifications Reviewer modifications
+ * @returns Validated value, or the schema issues of the modified value
+ */
+export function validateReviewedValue(
+  schema: z.ZodSchema<unknown>,
+  value: unknown,
+  modifications: ReadonlyArray<ReviewModification>
+): ReviewedValueResult {
+  const modified = applyReviewModifications(value, modifications);
+  const parsed = schema.safeParse(modified);
+
+  return parsed.success
+    ? { success: true, value: parsed.data }
+    : { success: false, issues: parsed.error.issues, value: modified };
+}
+
+/**
+ * Formats schema issues as "path: message" strings
+ *
+ * @param issues Zod issues
+ * @returns One readable line per issue
+ */
+export function formatReviewIssues(
+  issues: ReadonlyArray<z.ZodIssue>
+): string[] {
+  return issues.map(
+    issue =>
+      `${issue.path.map(String).join('.') || '(root)'}: ${issue.message}`
+  );
+}
+
+/**
+ * Validates a value against the JSON Schema stored with a review
+ *
+ * Used by reviewers outside the pipeline process, where the stage's Zod schema
+ * is not available.
+ *
+ * @param review Stored review
+ * @param value Value to validate
+ * @returns One "path: message" line per schema error (empty when valid)
+ */
+export function validateAgainstStoredSchema(
+  review: StoredReview,
+  value: unknown
+): string[] {
+  if (review.schema === undefined) {
+    return [];
+  }
+
+  const ajv = new Ajv2020({ allErrors: true, strict: false });
+  const validate = ajv.compile(review.schema as object);
+  if (validate(value)) {
+    return [];
+  }
+
+  return (validate.errors ?? []).map(
+    issue =>
+      `${issue.instancePath || '(root)'}: ${issue.message ?? 'invalid'}`
+  );
+}
+
+/**
+ * Splits a modification path into property segments
+ */
+function parseReviewPath(path: string): string[] {
+  const trimmed = path.trim().replace(/^\$\.?/, '');
+  return [...trimmed.matchAll(/\[(\d+)\]|([^.[\]]+)/g)].map(
+    match => (match[1] ?? match[2]) as string
+  );
+}
@@ -0,0 +1,380 @@
+/**
+ * Review Server
+ *
+ * Local HTTP server exposing the review store as a JSON API plus a minimal
+ * browser UI, configured by `WebReviewSettings` and `APIReviewSettings`.
+ * Decisions go through FileReviewManager, so edits are checked against the
+ * stored stage schema and configured webhooks fire as they would from the CLI.
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  DEFAULT_REVIEW_SERVER_HOST,
+  DEFAULT_REVIEW_SERVER_PORT,
+  HTTP_BAD_REQUEST,
+  HTTP_CONFLICT,
+  HTTP_INTERNAL_SERVER_ERROR,
+  HTTP_NOT_FOUND,
+  HTTP_OK,
+  HTTP_TOO_MANY_REQUESTS,
+  HTTP_UNAUTHORIZED,
+} from '../shared/constants/index.js';
+import type {
+  APIReviewSettings,
+  ReviewDecision,
+  ReviewStatus,
+  WebReviewSettings,
+} from '../types/review.js';
+import { info, warn } from '../utils/logger.js';
+import { type FileReviewManager, OPEN_REVIEW_STATUSES } from './manager.js';
+import { validateAgainstStoredSchema } from './modifications.js';
+import { renderReviewPage } from './web-ui.js';
+
+/**
+ * Options for the review server
+ */
+export interface ReviewServerOptions {
+  /** Review manager whose store is served */
+  readonly manager: FileReviewManager;
+
+  /** Bind address (default 127.0.0.1) */
+  readonly host?: string;
+
+  /** Port; overrides `web.port` (0 picks a free port) */
+  readonly port?: number;
+
+  /** Browser UI settings */
+  readonly web?: WebReviewSettings;
+
+  /** API settings: authentication and rate limiting */
+  readonly api?: APIReviewSettings;
+
+  /** Bearer token required when `api.requireAuth` is set */
+  readonly authToken?: string;
+}
+
+/**
+ * A running review server
+ */
+export interface ReviewServer {
+  /** Base URL the server listens on */
+  readonly url: string;
+
+  /** Stops accepting connections and resolves once the server is closed */
+  close(): Promise<void>;
+}
+
+/** Largest accepted request body */
+const MAX_BODY_BYTES = 1_048_576;
+
+const DECISIONS: ReadonlyArray<ReviewDecision> = [
+  'approved',
+  'rejected',
+  'requires_modification',
+  'conditional_approval',
+  'deferred',
+  'escalated',
+];
+
+/**
+ * Error carrying the HTTP status to respond with
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Starts the review server
+ *
+ * Routes:
+ * - `GET /` browser UI
+ * - `GET /api/reviews?status=pending,deferred&pipeline=<id>&all=true`
+ * - `GET /api/reviews/:id`
+ * - `POST /api/reviews/:id/decision` with `{ decision, comments?, reviewer?, value? }`;
+ *   `value` replaces the stage output and must match the stored schema
+ * - `POST /api/reviews/:id/cancel`
+ * - `GET /api/metrics`
+ *
+ * @param options Manager, bind address and interface settings
+ * @returns Running server
+ * @throws When `api.requireAuth` is set without an auth token
+ */
+export async function startReviewServer(
+  options: ReviewServerOptions
+): Promise<ReviewServer> {
+  const { manager, web = {}, api = {} } = options;
+  if (api.requireAuth && !options.authToken) {
+    throw new Error('The review API requires auth but no token was provided');
+  }
+
+  const allowRequest = createRateLimiter(api.rateLimit);
+  const page = renderReviewPage({
+    theme: web.theme ?? 'auto',
+    realTimeUpdates: web.realTimeUpdates ?? true,
+    collaborative: web.collaborative ?? false,
+    requireAuth: api.requireAuth ?? false,
+  });
+
+  const server = createServer((request, response) => {
+    handleRequest(request, response).catch(requestError => {
+      if (requestError instanceof HttpError) {
+        sendJson(response, requestError.status, {
+          error: requestError.message,
+          ...requestError.details,
+        });
+        return;
+      }
+      warn('Review server request failed', {
+        method: request.method,
+        url: request.url,
+        error:
+          requestError instanceof Error
+            ? requestError.message
+            : String(requestError),
+      });
+      sendJson(response, HTTP_INTERNAL_SERVER_ERROR, {
+        error: 'Internal server error',
+      });
+    });
+  });
+
+  async function handleRequest(
+    request: IncomingMessage,
+    response: ServerResponse
+  ): Promise<void> {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    if (request.method === 'GET' && url.pathname === '/') {
+      response.writeHead(HTTP_OK, {
+        'content-type': 'text/html; charset=utf-8',
+      });
+      response.end(page);
+      return;
+    }
+
+    if (!url.pathname.startsWith('/api/')) {
+      throw new HttpError(HTTP_NOT_FOUND, `No route for ${url.pathname}`);
+    }
+    if (!allowRequest(request.socket.remoteAddress ?? 'unknown')) {
+      throw new HttpError(HTTP_TOO_MANY_REQUESTS, 'Rate limit exceeded');
+    }
+    if (
+      api.requireAuth &&
+      !matchesToken(request.headers.authorization, options.authToken ?? '')
+    ) {
+      throw new HttpError(HTTP_UNAUTHORIZED, 'Missing or invalid bearer token');
+    }
+
+    const [, , resource, reviewId, action] = url.pathname.split('/');
+
+    if (request.method === 'GET' && resource === 'metrics' && !reviewId) {
+      sendJson(response, HTTP_OK, await manager.getReviewMetrics());
+      return;
+    }
+
+    if (resource === 'reviews' && !reviewId && request.method === 'GET') {
+      const status = url.searchParams.get('status');
+      const pipelineId = url.searchParams.get('pipeline');
+      const reviews = await manager.listReviews({
+        ...(url.searchParams.get('all') !== 'true' && {
+          status: status
+            ? (status.split(',') as ReviewStatus[])
+            : OPEN_REVIEW_STATUSES,
+        }),
+        ...(pipelineId && { pipelineId }),
+      });
+      sendJson(response, HTTP_OK, { reviews });
+      return;
+    }
+
+    if (resource !== 'reviews' || !reviewId) {
+      throw new HttpError(HTTP_NOT_FOUND, `No route for ${url.pathname}`);
+    }
+
+    const review = await manager.getStoredReview(reviewId).catch(() => null);
+    if (!review) {
+      throw new HttpError(HTTP_NOT_FOUND, `Review "${reviewId}" not found`);
+    }
+
+    if (request.method === 'GET' && !action) {
+      sendJson(response, HTTP_OK, { review });
+      return;
+    }
+
+    if (
+      request.method !== 'POST' ||
+      (action !== 'decision' && action !== 'cancel')
+    ) {
+      throw new HttpError(HTTP_NOT_FOUND, `No route for ${url.pathname}`);
+    }
+    if (!OPEN_REVIEW_STATUSES.includes(review.status)) {
+      throw new HttpError(
+        HTTP_CONFLICT,
+        `Review "${reviewId}" is already ${review.status}`
+      );
+    }
+
+    if (action === 'cancel') {
+      await manager.cancelReview(reviewId);
+    } else {
+      const body = await readJsonBody(request);
+      const decision = body.decision as ReviewDecision;
+      if (!DECISIONS.includes(decision)) {
+        throw new HttpError(
+          HTTP_BAD_REQUEST,
+          `"decision" must be one of ${DECISIONS.join(', ')}`
+        );
+      }
+
+      const hasValue = Object.prototype.hasOwnProperty.call(body, 'value');
+      if (hasValue) {
+        const issues = validateAgainstStoredSchema(review, body.value);
+        if (issues.length > 0) {
+          throw new HttpError(
+            HTTP_BAD_REQUEST,
+            'Edited output does not match the stage schema',
+            { issues }
+          );
+        }
+      }
+
+      const comments =
+        typeof body.comments === 'string' && body.comments
+          ? body.comments
+          : undefined;
+      await manager.submitReview(reviewId, {
+        decision,
+        ...(comments && { comments }),
+        ...(hasValue && {
+          modifications: [
+            {
+              path: '$',
+              currentValue: review.value,
+              suggestedValue: body.value,
+              reason: comments ?? 'Edited in review UI',
+              confidence: 1,
+              priority: 'high' as const,
+              required: true,
+            },
+          ],
+        }),
+        ...(typeof body.reviewer === 'string' &&
+          body.reviewer && { metadata: { reviewedBy: body.reviewer } }),
+      });
+    }
+
+    sendJson(response, HTTP_OK, {
+      review: await manager.getStoredReview(reviewId),
+    });
+  }
+
+  const port = options.port ?? web.port ?? DEFAULT_REVIEW_SERVER_PORT;
+  const host = options.host ?? DEFAULT_REVIEW_SERVER_HOST;
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  const url = `http://${host.includes(':') ? `[${host}]` : host}:${address.port}`;
+  info('Review server listening', { url });
+
+  return {
+    url,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close(closeError =>
+          closeError ? reject(closeError) : resolve()
+        );
+        server.closeAllConnections();
+      }),
+  };
+}
+
+/**
+ * Creates a per-client token bucket; allows everything when unconfigured
+ */
+function createRateLimiter(
+  rateLimit: APIReviewSettings['rateLimit']
+): (client: string) => boolean {
+  const perMinute = rateLimit?.requestsPerMinute;
+  if (!perMinute) {
+    return () => true;
+  }
+
+  const capacity = rateLimit?.burstLimit ?? perMinute;
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  return client => {
+    const now = Date.now();
+    const bucket = buckets.get(client) ?? { tokens: capacity, updatedAt: now };
+    bucket.tokens = Math.min(
+      capacity,
+      bucket.tokens + ((now - bucket.updatedAt) / 60_000) * perMinute
+    );
+    bucket.updatedAt = now;
+    buckets.set(client, bucket);
+
+    if (bucket.tokens < 1) {
+      return false;
+    }
+    bucket.tokens -= 1;
+    return true;
+  };
+}
+
+function matchesToken(header: string | undefined, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+async function readJsonBody(
+  request: IncomingMessage
+): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(HTTP_BAD_REQUEST, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}');
+  } catch {
+    throw new HttpError(HTTP_BAD_REQUEST, 'Request body is not valid JSON');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(HTTP_BAD_REQUEST, 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+function sendJson(
+  response: ServerResponse,
+  status: number,
+  body: unknown
+): void {
+  response.writeHead(status, { 'content-type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
@@ -0,0 +1,196 @@
+/**
+ * Review Web UI
+ *
+ * Single self-contained page served by the review server. It talks to the
+ * JSON API only, renders every value with textContent, and keeps the reviewer
+ * name and API token in browser storage.
+ */
+
+/**
+ * Settings baked into the review page
+ */
+export interface ReviewPageSettings {
+  readonly theme: 'light' | 'dark' | 'auto';
+  readonly realTimeUpdates: boolean;
+  readonly collaborative: boolean;
+  readonly requireAuth: boolean;
+}
+
+/** Refresh interval of the review list when real-time updates are enabled */
+const REFRESH_INTERVAL_MS = 5000;
+
+/**
+ * Renders the review page
+ *
+ * @param settings Theme, refresh and authentication settings
+ * @returns Complete HTML document
+ */
+export function renderReviewPage(settings: ReviewPageSettings): string {
+  const colorScheme = settings.theme === 'auto' ? 'light dark' : settings.theme;
+  const config = JSON.stringify({
+    ...settings,
+    refreshIntervalMs: REFRESH_INTERVAL_MS,
+  }).replace(/</g, '\\u003c');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Persuader reviews</title>
+<style>
+  :root { color-scheme: ${colorScheme}; font-family: system-ui, sans-serif; }
+  body { margin: 0; display: grid; grid-template-columns: 22rem 1fr; height: 100vh; }
+  aside { border-right: 1px solid #8884; overflow: auto; padding: 1rem; }
+  main { overflow: auto; padding: 1rem 1.5rem; }
+  li { list-style: none; padding: .5rem; border-radius: .25rem; cursor: pointer; }
+  li:hover, li.selected { background: #8882; }
+  ul { padding: 0; }
+  pre, textarea { font-family: ui-monospace, monospace; font-size: .85rem; }
+  pre { background: #8881; padding: .75rem; overflow: auto; max-height: 20rem; }
+  textarea { width: 100%; min-height: 14rem; box-sizing: border-box; }
+  .muted { opacity: .7; font-size: .85rem; }
+  .error { color: #d33; white-space: pre-wrap; }
+  .actions { display: flex; gap: .5rem; margin: .75rem 0; flex-wrap: wrap; }
+  header { display: flex; gap: .5rem; align-items: center; margin-bottom: .5rem; }
+</style>
+</head>
+<body>
+<aside>
+  <header><strong>Reviews</strong><button id="refresh">Refresh</button></header>
+  <label class="muted">Reviewer <input id="reviewer" autocomplete="name"></label>
+  <ul id="reviews"></ul>
+</aside>
+<main id="detail"><p class="muted">Select a review.</p></main>
+<script>
+const config = ${config};
+const $ = id => document.getElementById(id);
+let selectedId = null;
+
+$('reviewer').value = localStorage.getItem('persuader.reviewer') || '';
+$('reviewer').addEventListener('change', () =>
+  localStorage.setItem('persuader.reviewer', $('reviewer').value.trim()));
+
+function token() {
+  if (!config.requireAuth) return null;
+  let value = sessionStorage.getItem('persuader.token');
+  if (!value) {
+    value = prompt('API token') || '';
+    sessionStorage.setItem('persuader.token', value);
+  }
+  return value;
+}
+
+async function api(path, body) {
+  const headers = { 'content-type': 'application/json' };
+  const bearer = token();
+  if (bearer) headers.authorization = 'Bearer ' + bearer;
+  const response = await fetch('/api/' + path, body === undefined
+    ? { headers }
+    : { method: 'POST', headers, body: JSON.stringify(body) });
+  const data = await response.json();
+  if (response.status === 401) sessionStorage.removeItem('persuader.token');
+  if (!response.ok) {
+    throw new Error([data.error, ...(data.issues || [])].join('\\n'));
+  }
+  return data;
+}
+
+function el(tag, text, className) {
+  const node = document.createElement(tag);
+  if (text !== undefined) node.textContent = text;
+  if (className) node.className = className;
+  return node;
+}
+
+function section(title, content) {
+  const fragment = document.createDocumentFragment();
+  fragment.append(el('h3', title), el('pre', content));
+  return fragment;
+}
+
+async function loadReviews() {
+  const { reviews } = await api('reviews');
+  const list = $('reviews');
+  list.replaceChildren(...reviews.map(review => {
+    const item = el('li');
+    item.append(
+      el('div', review.pipelineId + ' / ' + review.stageId),
+      el('div', review.status + ' · ' + review.priority + ' · ' +
+        new Date(review.createdAt).toLocaleString(), 'muted'));
+    item.classList.toggle('selected', review.id === selectedId);
+    item.addEventListener('click', () => showReview(review.id));
+    return item;
+  }));
+  if (reviews.length === 0) list.append(el('p', 'No open reviews.', 'muted'));
+}
+
+async function showReview(id) {
+  selectedId = id;
+  const { review } = await api('reviews/' + encodeURIComponent(id));
+  const detail = $('detail');
+  detail.replaceChildren(
+    el('h2', review.stageName + ' (' + review.pipelineName + ')'),
+    el('p', review.status + ' · ' + review.priority + ' · ' + review.id, 'muted'),
+    el('p', review.reasons.join('; ')));
+  if (review.reviewPrompt) detail.append(el('p', review.reviewPrompt));
+  if (review.validationErrors) {
+    detail.append(el('p', 'Previous edit rejected:\\n' +
+      review.validationErrors.join('\\n'), 'error'));
+  }
+  detail.append(section('Raw LLM output', review.rawOutput ?? '(not recorded)'));
+  detail.append(el('h3', 'Validated value (editable)'));
+  const editor = el('textarea');
+  const original = JSON.stringify(review.value, null, 2);
+  editor.value = original;
+  detail.append(editor);
+  const comments = el('input');
+  comments.placeholder = 'Comment';
+  comments.style.width = '100%';
+  const message = el('p', '', 'error');
+  const actions = el('div', undefined, 'actions');
+  for (const [label, decision] of [['Approve', 'approved'],
+    ['Reject', 'rejected'], ['Defer', 'deferred'], ['Escalate', 'escalated']]) {
+    const button = el('button', label);
+    button.addEventListener('click', () => decide(decision));
+    actions.append(button);
+  }
+  detail.append(comments, actions, message,
+    section('Stage schema', JSON.stringify(review.schema ?? null, null, 2)));
+
+  async function decide(decision) {
+    const reviewer = $('reviewer').value.trim();
+    if (config.collaborative && !reviewer) {
+      message.textContent = 'Enter your name before deciding.';
+      return;
+    }
+    const body = { decision, comments: comments.value, reviewer };
+    if (decision !== 'rejected' && editor.value !== original) {
+      try {
+        body.value = JSON.parse(editor.value);
+      } catch (error) {
+        message.textContent = 'Invalid JSON: ' + error.message;
+        return;
+      }
+      if (decision === 'approved') body.decision = 'requires_modification';
+    }
+    try {
+      await api('reviews/' + encodeURIComponent(review.id) + '/decision', body);
+      await loadReviews();
+      await showReview(review.id);
+    } catch (error) {
+      message.textContent = error.message;
+    }
+  }
+}
+
+$('refresh').addEventListener('click', () => loadReviews().catch(alert));
+loadReviews().catch(error => $('reviews').replaceChildren(el('p', error.message, 'error')));
+if (config.realTimeUpdates) {
+  setInterval(() => loadReviews().catch(() => {}), config.refreshIntervalMs);
+}
+</script>
+</body>
+</html>
+`;
+}
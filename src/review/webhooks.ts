@@ -0,0 +1,151 @@
+/**
+ * Review Webhooks
+ *
+ * Delivers review lifecycle events to the webhooks configured in
+ * `APIReviewSettings.webhooks`. Delivery is best-effort: failures are retried
+ * and logged but never fail the review that triggered them.
+ */
+
+import {
+  DEFAULT_WEBHOOK_RETRIES,
+  WEBHOOK_RETRY_DELAY_MS,
+} from '../shared/constants/index.js';
+import type { StoredReview, WebhookConfiguration } from '../types/review.js';
+import { debug, warn } from '../utils/logger.js';
+
+/**
+ * Review lifecycle event a webhook can subscribe to
+ */
+export type ReviewWebhookEvent = WebhookConfiguration['events'][number];
+
+/**
+ * JSON body posted to webhooks
+ *
+ * Carries a summary of the review rather than its content; stage input and
+ * output stay in the review store.
+ */
+export interface ReviewWebhookPayload {
+  readonly event: ReviewWebhookEvent;
+  readonly timestamp: string;
+  readonly review: {
+    readonly id: string;
+    readonly pipelineId: string;
+    readonly pipelineName: string;
+    readonly stageId: string;
+    readonly stageName: string;
+    readonly status: StoredReview['status'];
+    readonly priority: StoredReview['priority'];
+    readonly criticality?: StoredReview['criticality'];
+    readonly reasons: ReadonlyArray<string>;
+    readonly createdAt: string;
+    readonly expiresAt?: string;
+    readonly decision?: string;
+    readonly reviewedBy?: string;
+    readonly comments?: string;
+  };
+}
+
+/**
+ * Sends a review event to every webhook subscribed to it
+ *
+ * @param webhooks Configured webhooks (may be undefined)
+ * @param event Lifecycle event
+ * @param review Review the event is about
+ * @returns Resolves once every delivery has succeeded or exhausted its retries
+ */
+export async function notifyReviewWebhooks(
+  webhooks: ReadonlyArray<WebhookConfiguration> | undefined,
+  event: ReviewWebhookEvent,
+  review: StoredReview
+): Promise<void> {
+  const targets = (webhooks ?? []).filter(webhook =>
+    webhook.events.includes(event)
+  );
+  if (targets.length === 0) {
+    return;
+  }
+
+  const payload = createWebhookPayload(event, review);
+  await Promise.all(targets.map(webhook => deliver(webhook, payload)));
+}
+
+/**
+ * Builds the webhook body for a review event
+ */
+export function createWebhookPayload(
+  event: ReviewWebhookEvent,
+  review: StoredReview
+): ReviewWebhookPayload {
+  const { submission } = review;
+
+  return {
+    event,
+    timestamp: new Date().toISOString(),
+    review: {
+      id: review.id,
+      pipelineId: review.pipelineId,
+      pipelineName: review.pipelineName,
+      stageId: review.stageId,
+      stageName: review.stageName,
+      status: review.status,
+      priority: review.priority,
+      ...(review.criticality && { criticality: review.criticality }),
+      reasons: review.reasons,
+      createdAt: review.createdAt,
+      ...(review.expiresAt && { expiresAt: review.expiresAt }),
+      ...(submission && { decision: submission.decision }),
+      ...(submission?.reviewedBy && { reviewedBy: submission.reviewedBy }),
+      ...(submission?.comments && { comments: submission.comments }),
+    },
+  };
+}
+
+/**
+ * Posts a payload, retrying failed deliveries after a fixed delay
+ */
+async function deliver(
+  webhook: WebhookConfiguration,
+  payload: ReviewWebhookPayload
+): Promise<void> {
+  const retries = webhook.retries ?? DEFAULT_WEBHOOK_RETRIES;
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      await new Promise(resolve =>
+        setTimeout(resolve, WEBHOOK_RETRY_DELAY_MS)
+      );
+    }
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...webhook.headers },
+        body: JSON.stringify(payload),
+      });
+      if (response.ok) {
+        debug('Review webhook delivered', {
+          url: webhook.url,
+          event: payload.event,
+          reviewId: payload.review.id,
+        });
+        return;
+      }
+      warn('Review webhook rejected', {
+        url: webhook.url,
+        event: payload.event,
+        status: response.status,
+        attempt: attempt + 1,
+      });
+    } catch (deliveryError) {
+      warn('Review webhook delivery failed', {
+        url: webhook.url,
+        event: payload.event,
+        attempt: attempt + 1,
+        error:
+          deliveryError instanceof Error
+            ? deliveryError.message
+            : String(deliveryError),
+      });
+    }
+  }
+}
@@ -8,10 +8,33 @@
  * @since 2.0.0
  */
 
+// ============================================================================
+// HTTP STATUS CODES - SUCCESS (2xx)
+// ============================================================================
+
+/**
+ * OK (200) - Request succeeded
+ *
+ * @see RFC 7231 Section 6.3.1
+ * @since v2.0.0
+ */
+export const HTTP_OK = 200 as const;
+
 // ============================================================================
 // HTTP STATUS CODES - CLIENT ERRORS (4xx)
 // ============================================================================
 
+/**
+ * Bad Request (400) - Malformed or invalid request
+ *
+ * Returned for request bodies that cannot be parsed or fail validation.
+ * Not retryable without changing the request.
+ *
+ * @see RFC 7231 Section 6.5.1
+ * @since v2.0.0
+ */
+export const HTTP_BAD_REQUEST = 400 as const;
+
 /**
  * Unauthorized (401) - Authentication required or invalid
  *
@@ -24,6 +47,14 @@
  */
 export const HTTP_UNAUTHORIZED = 401 as const;
 
+/**
+ * Not Found (404) - Resource does not exist
+ *
+ * @see RFC 7231 Section 6.5.4
+ * @since v2.0.0
+ */
+export const HTTP_NOT_FOUND = 404 as const;
+
 /**
  * Request Timeout (408) - Client took too long to send request
  *
@@ -35,6 +66,17 @@ export const HTTP_UNAUTHORIZED = 401 as const;
  */
 export const HTTP_REQUEST_TIMEOUT = 408 as const;
 
+/**
+ * Conflict (409) - Request conflicts with the resource's current state
+ *
+ * Used when acting on a resource that has already been finalised, such as
+ * deciding a review that is no longer open.
+ *
+ * @see RFC 7231 Section 6.5.8
+ * @since v2.0.0
+ */
+export const HTTP_CONFLICT = 409 as const;
+
 /**
  * Too Many Requests (429) - Rate limit exceeded
  *
@@ -100,6 +100,23 @@ export const DEFAULT_RETRIES: RetryCount = retryCount(3);
  */
 export const MAX_REASONABLE_RETRIES: RetryCount = retryCount(10);
 
+/**
+ * Default number of redeliveries for a failed review webhook.
+ *
+ * @since v2.0.0
+ */
+export const DEFAULT_WEBHOOK_RETRIES: RetryCount = retryCount(2);
+
+/**
+ * Default number of retries a strategy gets before the retry loop escalates.
+ *
+ * Two retries give targeted feedback a fair chance before switching to
+ * examples, step-by-step refinement, a simplified request or a new session.
+ *
+ * @since v2.0.0
+ */
+export const DEFAULT_MIN_ATTEMPTS_BEFORE_ESCALATION: RetryCount = retryCount(2);
+
 // ============================================================================
 // DELAY CONSTANTS
 // ============================================================================
@@ -122,6 +139,26 @@ export const BASE_RETRY_DELAY_MS: DelayMs = delayMs(1000);
  */
 export const MAX_RETRY_DELAY_MS: DelayMs = delayMs(10000);
 
+/**
+ * Maximum random jitter added to a rate-limit wait in milliseconds.
+ *
+ * Spreads out retries of concurrent runs that were told to wait the same
+ * `retryAfter`, so they do not hit the provider again at the same instant.
+ *
+ * @since v2.0.0
+ */
+export const RATE_LIMIT_JITTER_MS: DelayMs = delayMs(500);
+
+/**
+ * Longest rate-limit wait the retry loop will sit out in milliseconds.
+ *
+ * A provider asking for a longer wait (e.g. an exhausted daily quota) fails
+ * the run instead of blocking it for minutes or hours.
+ *
+ * @since v2.0.0
+ */
+export const MAX_RATE_LIMIT_DELAY_MS: DelayMs = delayMs(300000);
+
 /**
  * Default session cleanup interval.
  *
@@ -131,6 +168,34 @@ export const MAX_RETRY_DELAY_MS: DelayMs = delayMs(10000);
  */
 export const DEFAULT_CLEANUP_INTERVAL_MS: DelayMs = delayMs(86400000);
 
+/**
+ * Default interval between checks of the review store for a decision.
+ *
+ * @since v2.0.0
+ */
+export const DEFAULT_REVIEW_POLL_INTERVAL_MS: DelayMs = delayMs(1000);
+
+/**
+ * Default time a stage waits for a human review decision (24 hours).
+ *
+ * @since v2.0.0
+ */
+export const DEFAULT_REVIEW_TIMEOUT_MS: DelayMs = delayMs(86400000);
+
+/**
+ * Delay before redelivering a failed review webhook.
+ *
+ * @since v2.0.0
+ */
+export const WEBHOOK_RETRY_DELAY_MS: DelayMs = delayMs(1000);
+
+/**
+ * Default interval between redraws of the live progress display.
+ *
+ * @since v2.0.0
+ */
+export const DEFAULT_PROGRESS_UPDATE_INTERVAL_MS: DelayMs = delayMs(250);
+
 // ============================================================================
 // BUFFER SIZE CONSTANTS
 // ============================================================================
@@ -193,6 +258,16 @@ export const DEFAULT_MAX_TOKENS: MaxTokens = maxTokens(4096);
  */
 export const DEFAULT_MAX_CONTEXT_LENGTH: MaxTokens = maxTokens(200000);
 
+/**
+ * Default token budget for session priming.
+ *
+ * Enough for a schema introduction, an example and the constraint summary
+ * of a large nested schema plus short acknowledgements.
+ *
+ * @since v2.0.0
+ */
+export const DEFAULT_MAX_PRIMING_TOKENS: MaxTokens = maxTokens(4000);
+
 /**
  * Default temperature for generation.
  *
@@ -226,6 +301,59 @@ export const RETRY_DELAY_MULTIPLIER = 1.5 as const;
  */
 export const JSON_INDENT = 2 as const;
 
+/**
+ * Default number of array items requested per batch in chunked generation.
+ *
+ * Small enough for models to finish a batch of moderately sized objects
+ * without truncating, large enough to keep the number of requests low.
+ *
+ * @since v2.0.0
+ */
+export const DEFAULT_CHUNK_SIZE = 25 as const;
+
+/**
+ * Default maximum number of batches in chunked array generation.
+ *
+ * @since v2.0.0
+ */
+export const DEFAULT_MAX_CHUNKS = 10 as const;
+
+/**
+ * Default largest share of invalid top-level fields for partial salvage.
+ *
+ * Up to half of a record's fields are re-asked individually; beyond that a
+ * full regeneration is cheaper than describing every broken field.
+ *
+ * @since v2.0.0
+ */
+export const DEFAULT_SALVAGE_MAX_INVALID_FIELD_RATIO = 0.5 as const;
+
+/**
+ * Default weight of the model's self-assessment in the confidence heuristic.
+ *
+ * The remaining weight goes to the score derived from attempts, failure modes
+ * and enhancement stability.
+ *
+ * @since v2.0.0
+ */
+export const DEFAULT_SELF_ASSESSMENT_WEIGHT = 0.5 as const;
+
+/**
+ * Confidence below which a stage result is routed to review when the review
+ * mode is 'confidence_based' and no threshold is configured.
+ *
+ * @since v2.0.0
+ */
+export const DEFAULT_REVIEW_CONFIDENCE_THRESHOLD = 0.8 as const;
+
+/**
+ * Stage time, relative to the average, above which the progress tracker
+ * reports a stage as a bottleneck.
+ *
+ * @since v2.0.0
+ */
+export const PROGRESS_BOTTLENECK_RATIO = 1.5 as const;
+
 // ============================================================================
 // MAXIMUM AGE CONSTANTS
 // ============================================================================
@@ -239,6 +367,13 @@ export const JSON_INDENT = 2 as const;
  */
 export const DEFAULT_MAX_SESSION_AGE_MS: DelayMs = delayMs(2592000000);
 
+/**
+ * Default time a cached provider response is served for (7 days).
+ *
+ * @since v2.0.0
+ */
+export const DEFAULT_CACHE_TTL_MS: DelayMs = delayMs(604800000);
+
 // ============================================================================
 // STRING CONSTANTS (Non-branded)
 // ============================================================================
@@ -265,6 +400,15 @@ export const CLAUDE_CLI_BINARY = 'claude' as const;
  */
 export const JSON_STOP_SEQUENCES = ['```', '---', '\n\n\n'] as const;
 
+/**
+ * Default JSON extraction mode for provider responses.
+ * Recovers fenced or prose-wrapped JSON and repairs common syntax slips,
+ * without the JSON5 leniency of 'lenient'.
+ *
+ * @since v2.0.0
+ */
+export const DEFAULT_JSON_EXTRACTION_MODE = 'tolerant' as const;
+
 /**
  * Default session storage directory (relative to user home).
  *
@@ -279,6 +423,48 @@ export const DEFAULT_SESSION_DIR = '~/.persuader/sessions' as const;
  */
 export const SESSION_FILE_EXT = '.json' as const;
 
+/**
+ * Default pending review storage directory (relative to user home).
+ *
+ * @since v2.0.0
+ */
+export const DEFAULT_REVIEW_DIR = '~/.persuader/reviews' as const;
+
+/**
+ * Review file extension.
+ *
+ * @since v2.0.0
+ */
+export const REVIEW_FILE_EXT = '.json' as const;
+
+/**
+ * Default response cache directory (relative to user home).
+ *
+ * @since v2.0.0
+ */
+export const DEFAULT_CACHE_DIR = '~/.persuader/cache' as const;
+
+/**
+ * Cached response file extension.
+ *
+ * @since v2.0.0
+ */
+export const CACHE_FILE_EXT = '.json' as const;
+
+/**
+ * Default port of the local review server (`persuader review serve`).
+ *
+ * @since v2.0.0
+ */
+export const DEFAULT_REVIEW_SERVER_PORT = 4800 as const;
+
+/**
+ * Default bind address of the local review server; loopback only.
+ *
+ * @since v2.0.0
+ */
+export const DEFAULT_REVIEW_SERVER_HOST = '127.0.0.1' as const;
+
 /**
  * Framework version.
  *
@@ -0,0 +1,76 @@
+/**
+ * Budget Types
+ *
+ * Type definitions for the token and cost budgets that stop or degrade runs
+ * before they spend more than allowed.
+ */
+
+/**
+ * Spend that a budget accounts for
+ *
+ * - `call`: a single `persuade()` call, across attempts, enhancement rounds
+ *   and batches
+ * - `session`: everything recorded on the session, earlier calls included
+ * - `process`: every provider call made by this process
+ */
+export type BudgetScope = 'call' | 'session' | 'process';
+
+/**
+ * Tokens and cost spent within a budget scope
+ */
+export interface BudgetSpend {
+  /** Tokens (input plus output) */
+  readonly tokens: number;
+
+  /** Estimated cost in USD */
+  readonly costUsd: number;
+}
+
+/**
+ * Limits of one budget scope
+ */
+export interface BudgetLimits {
+  /** Maximum tokens (input plus output) */
+  readonly maxTokens?: number;
+
+  /** Maximum estimated cost in USD; calls to models without a known price count as free */
+  readonly maxCostUsd?: number;
+}
+
+/**
+ * Token and cost budgets of a run
+ *
+ * Before each attempt and enhancement round the engine projects the call's
+ * usage from the previous call (or the prompt size for the first one). When
+ * it would exceed a budget, the run switches to `fallbackModel` if that fits,
+ * skips the remaining enhancement rounds, or stops retrying and fails with a
+ * `BudgetError`. Judges and the self-assessment that would exceed a budget
+ * are skipped and listed in `metadata.budgetSkipped`.
+ */
+export interface BudgetOptions {
+  /** Limits of this call */
+  readonly perCall?: BudgetLimits;
+
+  /** Limits of the session the call runs in */
+  readonly perSession?: BudgetLimits;
+
+  /** Limits of the whole process */
+  readonly perProcess?: BudgetLimits;
+
+  /** Cheaper model to continue with when the configured one would exceed a budget */
+  readonly fallbackModel?: string;
+}
+
+/**
+ * Checks of a result that were skipped to stay within budget
+ *
+ * Judge validators and the self-assessment are skipped rather than sent when
+ * their request would exceed a budget, so the value was not checked by them.
+ */
+export interface BudgetSkippedChecks {
+  /** Names of the judge validators that did not check the value */
+  readonly judges?: readonly string[];
+
+  /** Whether the self-assessment was skipped */
+  readonly selfAssessment?: boolean;
+}
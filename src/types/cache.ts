@@ -0,0 +1,79 @@
+/**
+ * Response Cache Types
+ *
+ * Type definitions for caching provider responses by the content of the
+ * request that produced them, and for the stores that hold them.
+ */
+
+import type { StructuredOutputMode } from './provider.js';
+import type { TokenUsage } from './pipeline.js';
+
+/**
+ * Provider response kept in a response cache
+ */
+export interface CachedResponse {
+  /** Cache key of the request that produced the response */
+  readonly key: string;
+
+  /** The generated text response */
+  readonly content: string;
+
+  /** Output mode the response was generated with, when a schema was passed */
+  readonly structuredOutput?: StructuredOutputMode;
+
+  /** Adapter that generated the response, when set by a composite adapter */
+  readonly provider?: string;
+
+  /** Model that generated the response */
+  readonly model?: string;
+
+  /** Token usage of the call that produced the response */
+  readonly tokenUsage?: TokenUsage;
+
+  /** When the response was cached, as an ISO timestamp */
+  readonly createdAt: string;
+
+  /** When the response stops being served, as an ISO timestamp */
+  readonly expiresAt?: string;
+}
+
+/**
+ * Storage backend of a response cache
+ *
+ * Stores only hold entries; expiry and refreshing are handled by the cache.
+ */
+export interface ResponseCacheStore {
+  /** Read the entry stored under a key, if any */
+  get(key: string): Promise<CachedResponse | undefined>;
+
+  /** Store an entry under its key, replacing any previous one */
+  set(entry: CachedResponse): Promise<void>;
+
+  /** Remove the entry stored under a key, if any */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Options of the response cache
+ */
+export interface ResponseCacheOptions {
+  /** Where responses are stored (default: one file per response in ~/.persuader/cache) */
+  readonly store?: ResponseCacheStore;
+
+  /** Milliseconds a cached response is served for (default: 7 days) */
+  readonly ttlMs?: number;
+
+  /** Call the provider even when a response is cached, replacing it */
+  readonly refresh?: boolean;
+}
+
+/**
+ * Cache lookups of a run
+ */
+export interface ResponseCacheStats {
+  /** Provider calls answered from the cache */
+  readonly hits: number;
+
+  /** Provider calls that had to be made */
+  readonly misses: number;
+}
@@ -6,6 +6,7 @@
  */
 
 import type { z } from 'zod';
+import type { BudgetScope } from './budget.js';
 
 /**
  * Base error interface for Persuader errors
@@ -45,7 +46,8 @@ export type ErrorFailureMode =
   | 'constraint_violation' // Values violate schema constraints (min, max, enum, etc.)
   | 'nested_validation' // Errors in nested objects/arrays
   | 'provider_refusal' // LLM refused to generate the requested format
-  | 'context_confusion'; // LLM misunderstood the task context;
+  | 'context_confusion' // LLM misunderstood the task context
+  | 'semantic_inconsistency'; // Schema-valid output rejected by a semantic validator
 
 /**
  * Retry strategy classification based on error analysis
@@ -181,21 +183,52 @@ export interface FileIOError extends PersuaderError {
   readonly exists?: boolean;
 }
 
+/**
+ * Budget errors
+ *
+ * Raised instead of making a provider call that would exceed a token or
+ * cost budget. Never retryable.
+ */
+export interface BudgetError extends PersuaderError {
+  readonly type: 'budget';
+
+  /** Budget that would have been exceeded */
+  readonly scope: BudgetScope;
+
+  /** Whether the token or the cost limit would have been exceeded */
+  readonly limit: 'tokens' | 'cost';
+
+  /** The limit (tokens or USD) */
+  readonly maximum: number;
+
+  /** Spent within the scope so far */
+  readonly spent: number;
+
+  /** Projected spend of the call that was not made */
+  readonly projected: number;
+}
+
 /**
  * Rate limit information
+ *
+ * Providers report different subsets of these values, so each one is only
+ * present when the provider's headers or error body contained it.
  */
 export interface RateLimitInfo {
   /** Requests remaining in current window */
-  readonly remaining: number;
+  readonly remaining?: number;
 
   /** Total requests allowed in window */
-  readonly limit: number;
+  readonly limit?: number;
 
   /** Time until rate limit resets (seconds) */
-  readonly resetIn: number;
+  readonly resetIn?: number;
 
   /** Rate limit window duration (seconds) */
-  readonly windowSize: number;
+  readonly windowSize?: number;
+
+  /** Time the provider asked to wait before retrying (seconds) */
+  readonly retryAfter?: number;
 }
 
 /**
@@ -206,7 +239,8 @@ export type AnyPersuaderError =
   | ProviderError
   | SessionError
   | ConfigurationError
-  | FileIOError;
+  | FileIOError
+  | BudgetError;
 
 /**
  * Type guard for validation errors
@@ -269,3 +303,15 @@ export function isFileIOError(error: unknown): error is FileIOError {
     error.type === 'file_io'
   );
 }
+
+/**
+ * Type guard for budget errors
+ */
+export function isBudgetError(error: unknown): error is BudgetError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    'type' in error &&
+    error.type === 'budget'
+  );
+}
@@ -36,11 +36,14 @@ export type {
 // Error and validation types
 export type {
   AnyPersuaderError,
+  BudgetError,
   ConfigurationError,
+  ErrorFailureMode,
   PersuaderError,
   ProviderError,
   ProviderError as AdapterError,
   RateLimitInfo,
+  RetryStrategy,
   SessionError,
   ValidationError,
   // Errors
@@ -48,6 +51,7 @@ export type {
 } from './errors.js';
 // Export error type guards
 export {
+  isBudgetError,
   isConfigurationError,
   isProviderError,
   isSessionError,
@@ -56,17 +60,31 @@ export {
 // Core pipeline types
 // Re-export commonly used types for convenience
 export type {
+  ArrayChunkingConfig,
+  AttemptProvider,
+  ChunkingResult,
+  ConfidenceConfiguration,
+  ConfidenceEstimator,
+  ConfidenceSignals,
   EnhancementConfiguration,
   ExecutionMetadata,
   InitSessionOptions,
   InitSessionResult,
+  JsonExtractionMode,
+  JsonRepair,
+  JudgeValidator,
   Options,
   // Core pipeline
   Options as PipelineOptions,
+  PartialSalvageConfig,
   PreloadOptions,
   PreloadResult,
   Result,
   Result as PipelineResult,
+  SemanticCheckResult,
+  SemanticIssue,
+  SemanticValidator,
+  SemanticValidatorFunction,
   TokenUsage,
 } from './pipeline.js';
 // Provider adapter types
@@ -81,12 +99,51 @@ export type {
   ProviderResponse,
   ProviderResponse as Response,
   ProviderSessionOptions,
+  StructuredOutputMode,
 } from './provider.js';
+// Model pricing types
+export type { ModelPricing, PricingTable } from './pricing.js';
+// Budget types
+export type {
+  BudgetLimits,
+  BudgetOptions,
+  BudgetScope,
+  BudgetSkippedChecks,
+  BudgetSpend,
+} from './budget.js';
+// Response cache types
+export type {
+  CachedResponse,
+  ResponseCacheOptions,
+  ResponseCacheStats,
+  ResponseCacheStore,
+} from './cache.js';
+// Tokenizer types
+export type {
+  ContextWindowTable,
+  PromptTokenEstimate,
+  Tokenizer,
+  TokenizerTable,
+} from './tokenizer.js';
+// Prompt template types
+export type {
+  BuiltInPromptTemplateName,
+  PromptTemplate,
+  PromptTemplateOption,
+  PromptTemplateOverrides,
+  PromptTemplates,
+  PromptTemplateVariables,
+} from './prompt.js';
 // Retry system types
 export type {
+  EnhancedRetryAttempt,
+  PrimingResult,
   RetryAttempt,
   RetryConfig,
   RetryContext,
+  RetryStrategyConfig,
+  SessionPrimingConfig,
+  SessionPrimingStage,
 } from './retry.js';
 // Session management types
 export type {
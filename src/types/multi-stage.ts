@@ -8,9 +8,17 @@
 
 import type { z } from 'zod';
 import type { LogLevel } from '../utils/logger.js';
-import type { ProviderError, ValidationError } from './errors.js';
-import type { ExecutionMetadata, TokenUsage } from './pipeline.js';
+import type { BudgetError, ProviderError, ValidationError } from './errors.js';
+import type { BranchEvaluation, CriticalPathAnalysis } from './flow.js';
+import type {
+  ConfidenceConfiguration,
+  ExecutionMetadata,
+  TokenUsage,
+} from './pipeline.js';
 import type { ProviderAdapter } from './provider.js';
+import type { StageProgress } from './progress.js';
+import type { PromptTemplateOption } from './prompt.js';
+import type { ReviewResult } from './review.js';
 
 /**
  * A single stage in a multi-stage pipeline
@@ -38,6 +46,9 @@ export interface PipelineStage<TInput = unknown, TOutput = unknown> {
   /** Stage-specific lens override (inherits pipeline lens if not specified) */
   readonly lens?: string;
 
+  /** Stage-specific prompt templates (inherits pipeline templates if not specified) */
+  readonly promptTemplates?: PromptTemplateOption;
+
   /** Transform function to convert previous stage output to this stage input */
   readonly transformInput?: (
     input: TInput,
@@ -70,6 +81,9 @@ export interface PipelineStage<TInput = unknown, TOutput = unknown> {
 
   /** Optional example output to improve LLM performance */
   readonly exampleOutput?: TOutput;
+
+  /** Confidence estimation settings for this stage's result */
+  readonly confidence?: ConfidenceConfiguration;
 }
 
 /**
@@ -118,7 +132,7 @@ export interface StageErrorRecovery<TInput, TOutput> {
 
   /** Custom recovery function for complex recovery scenarios */
   readonly customRecovery?: (
-    error: ValidationError | ProviderError,
+    error: ValidationError | ProviderError | BudgetError,
     input: TInput,
     context: PipelineExecutionContext
   ) => Promise<TOutput | null>;
@@ -197,6 +211,9 @@ export interface Pipeline<TInput = unknown> {
 
   /** Global lens shared across stages */
   readonly globalLens?: string;
+
+  /** Global prompt templates shared across stages */
+  readonly globalPromptTemplates?: PromptTemplateOption;
 }
 
 /**
@@ -345,7 +362,12 @@ export interface PipelineReviewConfig {
   /** Whether review system is globally enabled */
   readonly enabled?: boolean;
 
-  /** Default review mode for stages without specific configuration */
+  /**
+   * Default review mode for stages without specific configuration
+   *
+   * 'confidence_based' routes results below the confidence threshold (or
+   * without a confidence score) to review and auto-approves the rest.
+   */
   readonly defaultMode?: 'manual' | 'confidence_based' | 'disabled' | 'auto';
 
   /** Global confidence threshold for automatic review triggering */
@@ -563,11 +585,14 @@ export interface StageResult<T = unknown> {
   readonly value?: T;
 
   /** Stage execution error (only present on failure) */
-  readonly error?: ValidationError | ProviderError;
+  readonly error?: ValidationError | ProviderError | BudgetError;
 
   /** Comprehensive stage execution metadata */
   readonly metadata: StageExecutionMetadata;
 
+  /** Raw LLM response the validated value was parsed from */
+  readonly rawOutput?: string;
+
   /** Review result if stage was reviewed */
   readonly reviewResult?: ReviewResult;
 
@@ -579,6 +604,39 @@ export interface StageResult<T = unknown> {
 
   /** Input data provided to this stage */
   readonly input?: unknown;
+
+  /** Error recovery applied after the stage failed (if any) */
+  readonly recovery?: StageRecoveryInfo;
+}
+
+/**
+ * Outcome of applying a stage's errorRecovery configuration
+ *
+ * A recovered stage either succeeds with a retried, fallback or custom value,
+ * or (with the `skip` strategy) stays unsuccessful but is skipped instead of
+ * failing the pipeline.
+ */
+export interface StageRecoveryInfo {
+  /** Strategy that was applied */
+  readonly strategy: StageErrorRecovery<unknown, unknown>['strategy'];
+
+  /** Whether recovery produced a usable outcome */
+  readonly recovered: boolean;
+
+  /** Where the recovered outcome came from */
+  readonly source?: 'skip' | 'retry' | 'fallback' | 'custom';
+
+  /** Stage re-executions or customRecovery calls made */
+  readonly attempts: number;
+
+  /** Error that triggered recovery */
+  readonly originalError: ValidationError | ProviderError | BudgetError;
+
+  /** Why recovery did not succeed */
+  readonly failureReason?: string;
+
+  /** Whether later stages run after this recovery (continueOnRecovery) */
+  readonly continuePipeline: boolean;
 }
 
 /**
@@ -592,7 +650,7 @@ export interface StageError {
   readonly stageId: string;
 
   /** Primary error that caused the failure */
-  readonly error: ValidationError | ProviderError;
+  readonly error: ValidationError | ProviderError | BudgetError;
 
   /** Number of retry attempts made */
   readonly retryAttempts: number;
@@ -743,9 +801,19 @@ export interface PipelineSessionManager {
   cleanup(): Promise<void>;
 }
 
+/**
+ * Progress tracker notified by the pipeline runner
+ *
+ * The stage-level hooks are optional so simple trackers only need to follow
+ * updateProgress(); trackers implementing the full ProgressTracker from
+ * progress.ts receive status, completion and failure events as well.
+ */
 export interface ProgressTracker {
-  initialize(): Promise<void>;
+  initialize(context?: PipelineExecutionContext): Promise<void>;
   updateProgress(stageId: string, progress: number): Promise<void>;
+  updateStageProgress?(stageId: string, progress: StageProgress): Promise<void>;
+  recordStageCompletion?(stageId: string, result: StageResult): Promise<void>;
+  recordStageFailure?(stageId: string, error: unknown): Promise<void>;
   finalize(): Promise<void>;
 }
 
@@ -769,20 +837,13 @@ export interface Logger {
   error(message: string, meta?: Record<string, unknown>): void;
 }
 
-export interface ReviewResult {
-  decision: 'approved' | 'rejected' | 'requires_modification' | 'timeout';
-  reviewedAt: Date;
-  reviewTimeMs: number;
-  comments?: string;
-}
-
 export interface PipelineExecutionOptions {
   pipeline: Pipeline;
   input: unknown;
   provider?: ProviderAdapter;
   sessionId?: string;
   reviewMode?: 'enabled' | 'disabled' | 'confidence_based';
-  progressMode?: 'silent' | 'basic' | 'detailed';
+  progressMode?: 'silent' | 'basic' | 'detailed' | 'dashboard';
   logLevel?: LogLevel;
   dryRun?: boolean;
 }
@@ -794,6 +855,8 @@ export interface PipelineExecutionMetadata extends ExecutionMetadata {
   totalTokenUsage?: TokenUsage;
   averageStageTime?: number;
   pipelineEfficiency?: number;
+  /** Critical path, bottlenecks and parallelization opportunities for the run */
+  criticalPath?: CriticalPathAnalysis;
 }
 
 export interface PipelineError {
@@ -818,4 +881,21 @@ export interface PipelineResult<T = unknown> {
   error?: PipelineError;
   metadata: PipelineExecutionMetadata;
   stageResults: Record<string, StageResult>;
+  /** Stages that did not run (condition not met or halted by an earlier failure) */
+  skippedStages?: ReadonlyArray<string>;
+  /** Branch decisions made during a conditional flow, in evaluation order */
+  branchEvaluations?: ReadonlyArray<BranchEvaluation>;
+  /** Pipeline-level recovery strategies applied after a failure, in order */
+  recoveryAttempts?: ReadonlyArray<PipelineRecoveryAttempt>;
+}
+
+export interface PipelineRecoveryAttempt {
+  /** Name of the PipelineRecoveryStrategy that was applied */
+  strategy: string;
+  success: boolean;
+  /** Failed stages the strategy reported as recovered */
+  recoveredStages: ReadonlyArray<string>;
+  /** Whether the strategy's modifiedPipeline was executed */
+  reran: boolean;
+  error?: PipelineError;
 }
@@ -7,7 +7,23 @@
 
 import type { z } from 'zod';
 import type { LogLevel } from '../utils/logger.js';
-import type { ProviderError, ValidationError } from './errors.js';
+import type { BudgetOptions, BudgetSkippedChecks } from './budget.js';
+import type { ResponseCacheOptions, ResponseCacheStats } from './cache.js';
+import type {
+  BudgetError,
+  ErrorFailureMode,
+  ProviderError,
+  ValidationError,
+} from './errors.js';
+import type {
+  EnhancedRetryAttempt,
+  PrimingResult,
+  RetryStrategyConfig,
+  SessionPrimingConfig,
+} from './retry.js';
+import type { PricingTable } from './pricing.js';
+import type { PromptTemplateOption } from './prompt.js';
+import type { StructuredOutputMode } from './provider.js';
 
 /**
  * Main options interface for running the Persuader pipeline
@@ -154,6 +170,479 @@ export interface Options<T = unknown> {
    * ```
    */
   readonly enhancement?: number | EnhancementConfiguration;
+
+  /**
+   * Optional confidence estimation settings
+   *
+   * Every successful result carries a confidence score (0-1) in
+   * `metadata.confidence`, derived from how hard the result was to obtain:
+   * attempts needed, failure modes seen on failed attempts and the stability
+   * of enhancement rounds. Enable `selfAssessment` to also ask the model to
+   * rate its own output, or supply an `estimator` to replace the heuristic.
+   *
+   * @example
+   * ```typescript
+   * const result = await persuade({
+   *   schema: InvoiceSchema,
+   *   input: invoiceText,
+   *   confidence: { selfAssessment: true }
+   * });
+   *
+   * if ((result.metadata.confidence ?? 0) < 0.8) {
+   *   queueForReview(result);
+   * }
+   * ```
+   */
+  readonly confidence?: ConfidenceConfiguration;
+
+  /**
+   * Optional session priming before the first real request
+   *
+   * Walks a session-capable provider through the schema, domain context,
+   * an example of the expected format, the schema's constraints and edge
+   * cases before the actual input is sent, so deeply nested schemas are
+   * more likely to validate on the first attempt. `true` enables every
+   * stage that applies with default settings. Priming never fails the run;
+   * its outcome is reported in `metadata.priming`.
+   *
+   * @example
+   * ```typescript
+   * const result = await persuade({
+   *   schema: DeeplyNestedSchema,
+   *   input: document,
+   *   sessionPriming: { maxPrimingTokens: 1500, includeExamples: true }
+   * });
+   *
+   * console.log(result.metadata.priming?.sessionState); // 'primed'
+   * ```
+   */
+  readonly sessionPriming?: boolean | Partial<SessionPrimingConfig>;
+
+  /**
+   * Optional retry strategy selection settings
+   *
+   * Each retry uses the strategy recommended for the failure mode of the
+   * previous attempt (e.g. `demand_json_format` for non-JSON output). When
+   * the same failure persists for `minAttemptsBeforeEscalation` retries,
+   * the loop escalates to examples, step-by-step refinement
+   * (`enableProgressiveRefinement`), a simplified request and finally a
+   * fresh provider session. Disabled by default, so retries carry plain
+   * validation feedback only; `true` enables it with default settings. The
+   * strategies used are recorded in `metadata.retryStrategyHistory`.
+   *
+   * @example
+   * ```typescript
+   * const result = await persuade({
+   *   schema,
+   *   input,
+   *   retryStrategies: { minAttemptsBeforeEscalation: 1 }
+   * });
+   *
+   * result.metadata.retryStrategyHistory?.map(attempt => attempt.strategy);
+   * // ['provide_field_guidance', 'add_examples']
+   * ```
+   */
+  readonly retryStrategies?: boolean | Partial<RetryStrategyConfig>;
+
+  /**
+   * Optional tolerance of JSON extraction from the provider response
+   *
+   * `tolerant` (the default) recovers JSON wrapped in markdown code fences
+   * or surrounded by prose and repairs trailing commas and single-quoted
+   * strings before validation, instead of spending a retry on them.
+   * `lenient` also accepts JSON5-style comments and unquoted keys, and
+   * `strict` requires the whole response to be valid JSON. Repairs that
+   * were needed for the accepted response are listed in
+   * `metadata.jsonRepairs`.
+   *
+   * @example
+   * ```typescript
+   * const result = await persuade({
+   *   schema,
+   *   input,
+   *   jsonExtraction: 'lenient'
+   * });
+   *
+   * result.metadata.jsonRepairs; // ['code_fence', 'trailing_commas']
+   * ```
+   */
+  readonly jsonExtraction?: JsonExtractionMode;
+
+  /**
+   * Optional partial-result salvage for object schemas
+   *
+   * When a response fails schema validation on only some of its top-level
+   * fields, the retry keeps the fields that pass their sub-schemas and asks
+   * the model for the invalid fields alone, then merges the answer back
+   * before validating the whole object again. This saves most of the
+   * output tokens on large records. Responses with too many invalid fields
+   * (see `maxInvalidFieldRatio`), unparseable JSON or a wrong root type are
+   * regenerated as usual. Disabled by default; `true` enables it with
+   * default settings.
+   *
+   * @example
+   * ```typescript
+   * const result = await persuade({
+   *   schema: ProductRecordSchema,
+   *   input: productPage,
+   *   partialSalvage: { maxInvalidFieldRatio: 0.3 }
+   * });
+   *
+   * console.log(result.metadata.salvagedAttempts); // 1
+   * ```
+   */
+  readonly partialSalvage?: boolean | Partial<PartialSalvageConfig>;
+
+  /**
+   * Optional semantic validators run after schema validation
+   *
+   * Zod only checks structure; validators check content, e.g. that the
+   * output is consistent with the input. Each one is a (sync or async)
+   * function or an LLM judge, whose criterion is sent to the provider in a
+   * separate request. Failures are reported as `semantic_validation` errors
+   * and retried like schema errors.
+   *
+   * @example
+   * ```typescript
+   * const result = await persuade({
+   *   schema: InvoiceSchema,
+   *   input: invoiceText,
+   *   validators: [
+   *     invoice =>
+   *       invoice.lines.reduce((sum, line) => sum + line.amount, 0) === invoice.total ||
+   *       'The line amounts must add up to the total',
+   *     { name: 'grounded', judge: 'Every amount and date in the output appears in the input' },
+   *   ],
+   * });
+   * ```
+   */
+  readonly validators?: readonly SemanticValidator<T>[];
+
+  /**
+   * Optional chunked generation for top-level array schemas
+   *
+   * Long lists (e.g. `z.array(Item).min(100)`) are requested in batches
+   * within the run's session instead of in one response, which models tend
+   * to truncate. Items repeated across batches are dropped by `dedupeKey`,
+   * and the assembled array is validated against the original schema.
+   * Non-array schemas are generated as usual. Disabled by default; `true`
+   * enables it with default settings.
+   *
+   * @example
+   * ```typescript
+   * const result = await persuade({
+   *   schema: z.array(CompanySchema).min(100),
+   *   input: 'List European software companies',
+   *   chunking: { chunkSize: 20, dedupeKey: 'name' }
+   * });
+   *
+   * console.log(result.metadata.chunking); // { chunks: 6, items: 100, duplicatesRemoved: 4 }
+   * ```
+   */
+  readonly chunking?:
+    | boolean
+    | Partial<
+        ArrayChunkingConfig<T extends readonly (infer TItem)[] ? TItem : unknown>
+      >;
+
+  /**
+   * Optional output mode for the generation requests
+   *
+   * `'native'` passes the schema to the provider's constrained output
+   * (OpenAI's `json_schema` response format, Anthropic's forced tool use,
+   * Gemini's `responseSchema`, Ollama's `format`). Schemas a provider can't
+   * express natively, and providers without native support, fall back to
+   * the schema in the prompt. Responses are validated the same way in both
+   * modes. Defaults to `'prompt'`.
+   *
+   * @example
+   * ```typescript
+   * const result = await persuade({
+   *   schema: ProductSchema,
+   *   input: productPage,
+   *   structuredOutput: 'native'
+   * }, createOpenAIAdapter());
+   *
+   * console.log(result.metadata.structuredOutput); // 'native'
+   * ```
+   */
+  readonly structuredOutput?: StructuredOutputMode;
+
+  /**
+   * Optional templates the prompts are rendered from
+   *
+   * Selects a built-in set (`'default'`, `'terse'`, `'verbose'`,
+   * `'spanish'`) or one registered with `registerPromptTemplates()` by name,
+   * or overrides part of a set. Templates use `{{schema}}`, `{{context}}`,
+   * `{{lens}}`, `{{input}}`, `{{example}}`, `{{attempt}}`, `{{urgency}}` and
+   * `{{feedback}}` placeholders. Defaults to the process-wide default set.
+   *
+   * @example
+   * ```typescript
+   * const result = await persuade({
+   *   schema: ProductSchema,
+   *   input: productPage,
+   *   promptTemplates: {
+   *     extends: 'terse',
+   *     user: 'Extract the product from this page:\n{{input}}'
+   *   }
+   * }, provider);
+   * ```
+   */
+  readonly promptTemplates?: PromptTemplateOption;
+
+  /**
+   * Optional model prices overriding the built-in pricing table
+   *
+   * Keyed by model id or `provider/model`, in USD per million tokens. Used
+   * to fill `estimatedCost` in the token usage of every provider call whose
+   * provider doesn't report a cost itself.
+   *
+   * @example
+   * ```typescript
+   * const result = await persuade({
+   *   schema: ProductSchema,
+   *   input: productPage,
+   *   model: 'gpt-4o',
+   *   pricing: {
+   *     'openai/gpt-4o': { inputPerMillionTokens: 2, outputPerMillionTokens: 8 }
+   *   }
+   * }, createOpenAIAdapter());
+   *
+   * console.log(result.metadata.tokenUsage?.estimatedCost);
+   * ```
+   */
+  readonly pricing?: PricingTable;
+
+  /**
+   * Token and cost budgets
+   *
+   * Stops retrying, skips enhancement rounds or switches to `fallbackModel`
+   * before a provider call would exceed a budget. A run that had to stop
+   * fails with a `BudgetError`.
+   *
+   * @example
+   * ```typescript
+   * const result = await persuade({
+   *   schema: ReportSchema,
+   *   input: largeDocument,
+   *   budget: {
+   *     perCall: { maxCostUsd: 0.5 },
+   *     perProcess: { maxTokens: 2_000_000 },
+   *     fallbackModel: 'claude-3-5-haiku-20241022'
+   *   }
+   * });
+   *
+   * if (!result.ok && result.error?.type === 'budget') {
+   *   console.log(`Stopped by the ${result.error.scope} budget`);
+   * }
+   * ```
+   */
+  readonly budget?: BudgetOptions;
+
+  /**
+   * Response cache (opt-in)
+   *
+   * Serves provider calls whose prompt, schema, provider, model and
+   * generation options match a cached response from the cache instead of
+   * the provider. Calls made in a provider session always reach the
+   * provider, since a replayed exchange would be missing from the session's
+   * history. `true` caches responses on disk in ~/.persuader/cache for 7
+   * days; `refresh` calls the provider anyway and replaces what is cached.
+   *
+   * @example
+   * ```typescript
+   * const result = await persuade({
+   *   schema: ProductSchema,
+   *   input: description,
+   *   cache: { ttlMs: 24 * 60 * 60 * 1000 }
+   * });
+   *
+   * console.log(result.metadata.cache); // { hits: 1, misses: 0 } on a re-run
+   * ```
+   */
+  readonly cache?: boolean | ResponseCacheOptions;
+}
+
+/**
+ * Semantic check of a schema-valid output: a function or an LLM judge
+ *
+ * @template T Type of the validated output
+ */
+export type SemanticValidator<T = unknown> =
+  | SemanticValidatorFunction<T>
+  | JudgeValidator;
+
+/**
+ * Function validator, given the validated output and the pipeline input
+ *
+ * @template T Type of the validated output
+ */
+export type SemanticValidatorFunction<T = unknown> = (
+  value: T,
+  input: unknown
+) => SemanticCheckResult | Promise<SemanticCheckResult>;
+
+/**
+ * Outcome of a function validator: `true` (or no issues) when the check
+ * passed; `false`, a message or the issues found when it failed
+ */
+export type SemanticCheckResult = boolean | string | readonly SemanticIssue[];
+
+/**
+ * Problem found by a semantic validator
+ */
+export interface SemanticIssue {
+  /** Message describing the problem */
+  readonly message: string;
+
+  /** Path of the offending field; the whole output when omitted */
+  readonly path?: readonly (string | number)[];
+}
+
+/**
+ * LLM judge validator
+ */
+export interface JudgeValidator {
+  /** Criterion the output must meet, phrased as a statement */
+  readonly judge: string;
+
+  /** Name reported with the judge's issues. Default: `judge <position>` */
+  readonly name?: string;
+}
+
+/**
+ * Configuration for chunked array generation
+ *
+ * @template TItem Type of the array items
+ */
+export interface ArrayChunkingConfig<TItem = unknown> {
+  /** Items requested per batch. Default: 25 */
+  readonly chunkSize: number;
+
+  /** Most batches to request before giving up. Default: 10 */
+  readonly maxChunks: number;
+
+  /**
+   * Number of items to collect. Default: the schema's minimum length, or a
+   * single batch when it has none
+   */
+  readonly targetItems?: number;
+
+  /**
+   * Item field, or function of the item, identifying duplicates across
+   * batches. Without it, items are compared by their JSON representation
+   */
+  readonly dedupeKey?: string | ((item: TItem) => unknown);
+}
+
+/**
+ * Outcome of a chunked array generation
+ */
+export interface ChunkingResult {
+  /** Batches requested */
+  readonly chunks: number;
+
+  /** Items in the assembled array */
+  readonly items: number;
+
+  /** Items dropped because an earlier batch already returned them */
+  readonly duplicatesRemoved: number;
+}
+
+/**
+ * Configuration for partial-result salvage
+ */
+export interface PartialSalvageConfig {
+  /**
+   * Largest share (0-1) of the schema's top-level fields that may be invalid
+   * for a retry to ask only for them; above it the whole output is
+   * regenerated. Default: 0.5
+   */
+  readonly maxInvalidFieldRatio: number;
+}
+
+/**
+ * How much repair JSON extraction attempts on a provider response
+ */
+export type JsonExtractionMode = 'strict' | 'tolerant' | 'lenient';
+
+/**
+ * Repair that JSON extraction applied to a provider response
+ * - 'code_fence': JSON taken from a markdown code fence
+ * - 'balanced_scan': JSON taken from the first balanced object or array in the text
+ * - 'single_quotes': single-quoted strings rewritten with double quotes
+ * - 'json5_syntax': comments removed and bare keys quoted (lenient mode)
+ * - 'trailing_commas': commas before a closing bracket removed
+ */
+export type JsonRepair =
+  | 'code_fence'
+  | 'balanced_scan'
+  | 'single_quotes'
+  | 'json5_syntax'
+  | 'trailing_commas';
+
+/**
+ * Signals the confidence estimator combines into a score
+ */
+export interface ConfidenceSignals {
+  /** Attempts needed to obtain the first valid result */
+  readonly attempts: number;
+
+  /** Attempts that were allowed */
+  readonly maxAttempts: number;
+
+  /** Failure mode of each failed validation attempt, in order */
+  readonly failureModes: readonly ErrorFailureMode[];
+
+  /** Enhancement round outcomes, when enhancement was configured */
+  readonly enhancement?: {
+    /** Rounds attempted */
+    readonly rounds: number;
+    /** Rounds whose response passed validation */
+    readonly validRounds: number;
+    /** Rounds whose result replaced the previous best */
+    readonly acceptedRounds: number;
+    /** Highest improvement score of a valid round */
+    readonly bestImprovement?: number;
+  };
+
+  /** Model's rating of its own output (0-1), when self-assessment ran */
+  readonly selfAssessment?: number;
+}
+
+/**
+ * Custom confidence estimator
+ *
+ * Receives the collected signals and the validated value and returns a score
+ * between 0 and 1; out-of-range scores are clamped.
+ */
+export type ConfidenceEstimator = (
+  signals: ConfidenceSignals,
+  value: unknown
+) => number;
+
+/**
+ * Configuration for confidence estimation
+ */
+export interface ConfidenceConfiguration {
+  /** Replaces the built-in heuristic */
+  readonly estimator?: ConfidenceEstimator;
+
+  /**
+   * Ask the model to rate its own output after validation succeeds
+   * (one extra provider call). Default: false
+   */
+  readonly selfAssessment?: boolean;
+
+  /** Custom instruction for the self-assessment request */
+  readonly selfAssessmentPrompt?: string;
+
+  /**
+   * Weight (0-1) of the self-assessment in the built-in heuristic
+   * Default: 0.5
+   */
+  readonly selfAssessmentWeight?: number;
 }
 
 /**
@@ -209,7 +698,7 @@ export interface Result<T = unknown> {
   readonly value?: T;
 
   /** Error information if operation failed */
-  readonly error?: ValidationError | ProviderError;
+  readonly error?: ValidationError | ProviderError | BudgetError;
 
   /** Number of attempts made during execution */
   readonly attempts: number;
@@ -242,6 +731,50 @@ export interface ExecutionMetadata {
 
   /** Model used for execution */
   readonly model?: string;
+
+  /** Confidence in the validated value (0-1), present on success */
+  readonly confidence?: number;
+
+  /** Signals the confidence score was derived from */
+  readonly confidenceSignals?: ConfidenceSignals;
+
+  /** Outcome of session priming, when it was enabled */
+  readonly priming?: PrimingResult;
+
+  /** Retries made and the strategy each one used, when strategies were enabled */
+  readonly retryStrategyHistory?: readonly EnhancedRetryAttempt[];
+
+  /** Repairs JSON extraction applied to the accepted response, when any were needed */
+  readonly jsonRepairs?: readonly JsonRepair[];
+
+  /** Retries that asked only for the invalid fields, when partial salvage was enabled */
+  readonly salvagedAttempts?: number;
+
+  /** Batches and items of a chunked array generation, when chunking was used */
+  readonly chunking?: ChunkingResult;
+
+  /** Provider calls served from and missing the response cache, when caching was enabled */
+  readonly cache?: ResponseCacheStats;
+
+  /** Output mode of the accepted response, when native structured output was requested */
+  readonly structuredOutput?: StructuredOutputMode;
+
+  /** Provider that served each attempt, when the adapter reports it (e.g. a fallback chain) */
+  readonly attemptProviders?: readonly AttemptProvider[];
+
+  /** Judge validators and self-assessment skipped to stay within budget, when any were */
+  readonly budgetSkipped?: BudgetSkippedChecks;
+}
+
+/**
+ * Provider that served an attempt
+ */
+export interface AttemptProvider {
+  /** Attempt number, starting at 1 */
+  readonly attempt: number;
+
+  /** Name of the adapter that produced the attempt's response */
+  readonly provider: string;
 }
 
 /**
@@ -257,7 +790,7 @@ export interface TokenUsage {
   /** Total tokens used */
   readonly totalTokens: number;
 
-  /** Estimated cost in USD if available */
+  /** Cost in USD as reported by the provider or estimated from the pricing table, if known */
   readonly estimatedCost?: number;
 }
 
@@ -285,6 +818,9 @@ export interface InitSessionOptions {
 
   /** Additional provider-specific options */
   readonly providerOptions?: Record<string, unknown>;
+
+  /** Model prices overriding the built-in pricing table */
+  readonly pricing?: PricingTable;
 }
 
 /**
@@ -301,7 +837,7 @@ export interface InitSessionResult {
   readonly response?: string;
 
   /** Execution metadata for performance tracking */
-  readonly metadata: Pick<ExecutionMetadata, 'executionTimeMs' | 'startedAt' | 'completedAt' | 'provider' | 'model'>;
+  readonly metadata: Pick<ExecutionMetadata, 'executionTimeMs' | 'startedAt' | 'completedAt' | 'provider' | 'model' | 'tokenUsage'>;
 }
 
 /**
@@ -335,6 +871,9 @@ export interface PreloadOptions {
 
   /** Additional provider-specific options */
   readonly providerOptions?: Record<string, unknown>;
+
+  /** Model prices overriding the built-in pricing table */
+  readonly pricing?: PricingTable;
 }
 
 /**
@@ -0,0 +1,28 @@
+/**
+ * Model Pricing Types
+ *
+ * Type definitions for the per-token prices used to estimate what provider
+ * calls cost, and for the tables that map providers and models to them.
+ */
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPricing {
+  /** USD per million input tokens */
+  readonly inputPerMillionTokens: number;
+
+  /** USD per million output tokens */
+  readonly outputPerMillionTokens: number;
+}
+
+/**
+ * Model prices by key
+ *
+ * Keys are model ids (`gpt-4o`), optionally qualified by the provider adapter
+ * name (`openai/gpt-4o`). A key also matches longer model ids starting with
+ * it, so `gpt-4o` prices dated snapshots like `gpt-4o-2024-08-06`, and a
+ * trailing `*` (`ollama/*`) makes that explicit. The longest matching key
+ * wins, and provider-qualified keys win over plain ones.
+ */
+export type PricingTable = Readonly<Record<string, ModelPricing>>;
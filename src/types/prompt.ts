@@ -0,0 +1,103 @@
+/**
+ * Prompt Template Types
+ *
+ * Type definitions for the templates prompts are rendered from, the
+ * variables available to them and the ways a call, a pipeline stage or the
+ * process-wide default can select or override them.
+ */
+
+/**
+ * Values a prompt template is rendered with
+ *
+ * Text values are empty strings when absent, so templates can test them in
+ * `{{#name}}...{{/name}}` sections.
+ */
+export interface PromptTemplateVariables {
+  /** Schema description with its JSON Schema */
+  readonly schema: string;
+
+  /** Global context of the run */
+  readonly context: string;
+
+  /** Lens/perspective of the run */
+  readonly lens: string;
+
+  /** Input data, serialized as JSON unless it is a string */
+  readonly input: string;
+
+  /** Example output, serialized as JSON */
+  readonly example: string;
+
+  /** Current attempt number, starting at 1 */
+  readonly attempt: number;
+
+  /** Urgency prefix of the attempt (see `PromptTemplates.urgency`) */
+  readonly urgency: string;
+
+  /** Validation feedback on the previous attempt */
+  readonly feedback: string;
+}
+
+/**
+ * A prompt template
+ *
+ * Strings are rendered by replacing `{{name}}` with the variable's value.
+ * `{{#name}}...{{/name}}` keeps its content only when the variable is set
+ * (non-empty, or an attempt above 1), and `{{^name}}...{{/name}}` only when
+ * it isn't. Functions receive the variables and return the text.
+ */
+export type PromptTemplate =
+  | string
+  | ((variables: PromptTemplateVariables) => string);
+
+/**
+ * Complete set of templates a prompt is built from
+ */
+export interface PromptTemplates {
+  /** System prompt with the instructions and schema requirements */
+  readonly system: PromptTemplate;
+
+  /** User prompt presenting the input */
+  readonly user: PromptTemplate;
+
+  /** Example entry shown for a user-provided `exampleOutput` */
+  readonly example: PromptTemplate;
+
+  /** Retry section appended to the user prompt after a failed attempt */
+  readonly retry: PromptTemplate;
+
+  /** Examples shown when no `exampleOutput` was provided */
+  readonly defaultExamples: readonly string[];
+
+  /**
+   * Urgency prefixes by attempt: the first entry for attempt 1, the second
+   * for attempt 2 and so on, with the last one used for all later attempts
+   */
+  readonly urgency: readonly string[];
+}
+
+/**
+ * Names of the built-in template sets
+ */
+export type BuiltInPromptTemplateName =
+  | 'default'
+  | 'terse'
+  | 'verbose'
+  | 'spanish';
+
+/**
+ * Templates overriding part of a named set
+ */
+export interface PromptTemplateOverrides extends Partial<PromptTemplates> {
+  /** Built-in or registered set the overrides apply to (default: the process-wide default set) */
+  readonly extends?: string;
+}
+
+/**
+ * Prompt template selection: the name of a built-in or registered set, or
+ * overrides of one
+ */
+export type PromptTemplateOption =
+  | BuiltInPromptTemplateName
+  | (string & {})
+  | PromptTemplateOverrides;
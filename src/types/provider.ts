@@ -5,6 +5,7 @@
  * provider options, responses, and health monitoring.
  */
 
+import type { z } from 'zod';
 import type { TokenUsage } from './pipeline.js';
 
 /**
@@ -156,8 +157,21 @@ export interface ProviderPromptOptions extends ProviderSessionOptions {
 
   /** Whether to use JSON mode */
   readonly json?: boolean;
+
+  /**
+   * Schema to constrain generation to with the provider's native structured
+   * output. Adapters without native support, or whose API rejects the
+   * schema, send the prompt alone.
+   */
+  readonly schema?: z.ZodType;
 }
 
+/**
+ * How a response's structure was enforced: by the provider's native
+ * constrained output, or by the schema in the prompt alone
+ */
+export type StructuredOutputMode = 'native' | 'prompt';
+
 /**
  * Response from a provider adapter
  */
@@ -176,6 +190,15 @@ export interface ProviderResponse {
 
   /** Stop reason if available */
   readonly stopReason?: 'max_tokens' | 'stop_sequence' | 'end_turn' | 'other';
+
+  /** Output mode the response was generated with, when a schema was passed */
+  readonly structuredOutput?: StructuredOutputMode;
+
+  /** Adapter that generated the response, when set by a composite adapter */
+  readonly provider?: string;
+
+  /** Model that generated the response */
+  readonly model?: string;
 }
 
 /**
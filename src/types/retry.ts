@@ -91,6 +91,9 @@ export interface SessionPrimingConfig {
 
   /** Maximum tokens to spend on priming */
   readonly maxPrimingTokens: number;
+
+  /** Stages to run, in order (default: every stage that applies) */
+  readonly stages?: readonly SessionPrimingStage[];
 }
 
 /**
@@ -116,6 +119,14 @@ export interface IntelligentRetryConfig extends RetryConfig {
   readonly includeValidationExamples: boolean;
 }
 
+/**
+ * Strategy selection settings for the retry loop
+ */
+export type RetryStrategyConfig = Pick<
+  IntelligentRetryConfig,
+  'enableProgressiveRefinement' | 'minAttemptsBeforeEscalation'
+>;
+
 /**
  * ENHANCED: Session priming stages for multi-step preparation
  */
@@ -141,6 +152,8 @@ export interface PrimingResult {
     readonly input: number;
     readonly output: number;
     readonly total: number;
+    /** Cost in USD, when the model's price is known */
+    readonly estimatedCost?: number;
   };
 
   /** Time spent on priming */
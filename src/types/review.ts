@@ -681,3 +681,87 @@ export interface ReviewMonitoringSettings {
     readonly errorRate?: number;
   };
 }
+
+/**
+ * Review as persisted in the review store
+ *
+ * JSON-serialisable snapshot of a parked stage result, so reviewers in other
+ * processes (CLI, web UI) can inspect and decide on it. Dates are ISO strings.
+ */
+export interface StoredReview {
+  /** Unique review identifier */
+  readonly id: string;
+
+  /** Pipeline that requested the review */
+  readonly pipelineId: string;
+  readonly pipelineName: string;
+
+  /** Stage whose result is under review */
+  readonly stageId: string;
+  readonly stageName: string;
+
+  /** Current review status */
+  readonly status: ReviewStatus;
+
+  /** Review priority level */
+  readonly priority: ReviewPriority;
+
+  /** Stage criticality from its review configuration */
+  readonly criticality?: 'low' | 'medium' | 'high' | 'critical';
+
+  /** Why the stage result was parked for review */
+  readonly reasons: ReadonlyArray<string>;
+
+  /** Custom review prompt from the stage review configuration */
+  readonly reviewPrompt?: string;
+
+  /** Review creation time */
+  readonly createdAt: string;
+
+  /** Last update time */
+  readonly updatedAt: string;
+
+  /** Time after which the review expires */
+  readonly expiresAt?: string;
+
+  /** Input the stage received */
+  readonly input?: unknown;
+
+  /** Validated stage output awaiting review */
+  readonly value: unknown;
+
+  /** Raw LLM response the value was parsed from */
+  readonly rawOutput?: string;
+
+  /** Confidence score of the stage output (0-1) */
+  readonly confidence?: number;
+
+  /** JSON Schema of the stage output, for validating edits outside the pipeline */
+  readonly schema?: unknown;
+
+  /** Execution details of the stage */
+  readonly stageMetadata: {
+    readonly provider: string;
+    readonly model?: string;
+    readonly executionTimeMs: number;
+    readonly attempts: number;
+    readonly totalTokens?: number;
+  };
+
+  /** Reviewer decision, once submitted */
+  readonly submission?: StoredReviewSubmission;
+
+  /** Why the last submitted modification was rejected by the stage schema */
+  readonly validationErrors?: ReadonlyArray<string>;
+}
+
+/**
+ * Review submission as persisted in the review store
+ */
+export interface StoredReviewSubmission extends ReviewSubmission {
+  /** Submission time */
+  readonly submittedAt: string;
+
+  /** Reviewer identifier */
+  readonly reviewedBy?: string;
+}
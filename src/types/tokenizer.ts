@@ -0,0 +1,49 @@
+/**
+ * Tokenizer Types
+ *
+ * Type definitions for the local token counters used to estimate the size
+ * of a prompt before it is sent, and for the tables that map providers and
+ * models to tokenizers and context windows.
+ */
+
+/**
+ * Local token counter of a model family
+ */
+export interface Tokenizer {
+  /** Name of the tokenizer, reported alongside its estimates */
+  readonly name: string;
+
+  /** Estimate the number of tokens the model's tokenizer splits text into */
+  countTokens(text: string): number;
+}
+
+/**
+ * Tokenizers by key
+ *
+ * Keys match models like the keys of a `PricingTable`: model id prefixes
+ * (`gpt-`), optionally qualified by the provider adapter name
+ * (`ollama/*`), where the longest matching key wins.
+ */
+export type TokenizerTable = Readonly<Record<string, Tokenizer>>;
+
+/**
+ * Context window sizes in tokens by key, matched like a `TokenizerTable`
+ */
+export type ContextWindowTable = Readonly<Record<string, number>>;
+
+/**
+ * Estimated size of a prompt for the model it is sent to
+ */
+export interface PromptTokenEstimate {
+  /** Estimated number of prompt tokens */
+  readonly tokens: number;
+
+  /** Name of the tokenizer that produced the estimate */
+  readonly tokenizer: string;
+
+  /** Context window of the model in tokens, when known */
+  readonly contextWindow?: number;
+
+  /** Whether the prompt is estimated not to fit the context window */
+  readonly exceedsContextWindow: boolean;
+}
@@ -40,6 +40,13 @@ export {
   type SchemaInfo,
 } from './schema-analyzer.js';
 
+// JSON Schema conversion
+export {
+  type JsonSchema,
+  type JsonSchemaObject,
+  jsonSchemaToZod,
+} from './json-schema-converter.js';
+
 // Schema loading utilities
 export {
   loadSchema,
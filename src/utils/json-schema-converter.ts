@@ -0,0 +1,406 @@
+/**
+ * JSON Schema to Zod Conversion
+ *
+ * Converts JSON Schema documents into Zod schemas so schemas loaded from
+ * `.json` files work with everything built on Zod: schema analysis, prompt
+ * descriptions, example validation and field-level retry feedback.
+ *
+ * Supported are the types, `enum` and `const`, object properties with
+ * `required` and `additionalProperties`, array `items`, `prefixItems` and
+ * length bounds, string lengths, patterns and common formats, numeric
+ * bounds, `$ref` into `$defs`/`definitions` (including recursive
+ * references), and the `oneOf`, `anyOf` and `allOf` combinators. Keywords
+ * without a Zod counterpart are ignored, so the converted schema may accept
+ * values the original would reject.
+ */
+
+import { z } from 'zod';
+
+/**
+ * A JSON Schema document or subschema
+ */
+export type JsonSchema = boolean | JsonSchemaObject;
+
+/**
+ * Object form of a JSON Schema
+ */
+export interface JsonSchemaObject {
+  readonly [keyword: string]: unknown;
+}
+
+/**
+ * Zod builders for the string formats with a Zod counterpart
+ */
+const STRING_FORMATS: Readonly<Record<string, () => z.ZodType>> = {
+  email: () => z.email(),
+  uri: () => z.url(),
+  url: () => z.url(),
+  uuid: () => z.uuid(),
+  'date-time': () => z.iso.datetime({ offset: true }),
+  date: () => z.iso.date(),
+  time: () => z.iso.time(),
+  duration: () => z.iso.duration(),
+  ipv4: () => z.ipv4(),
+  ipv6: () => z.ipv6(),
+};
+
+/**
+ * State shared while converting one document
+ */
+interface ConversionContext {
+  /** Root document that `#` references resolve against */
+  readonly root: JsonSchema;
+
+  /** Converted schemas by reference */
+  readonly resolved: Map<string, z.ZodType>;
+
+  /** References being converted, to detect recursion */
+  readonly resolving: Set<string>;
+}
+
+/**
+ * Convert a JSON Schema document into a Zod schema
+ *
+ * @param jsonSchema - JSON Schema document
+ * @returns Zod schema validating the same values
+ * @throws Error for references that can't be resolved
+ */
+export function jsonSchemaToZod(jsonSchema: JsonSchema): z.ZodType {
+  return convertSchema(jsonSchema, {
+    root: jsonSchema,
+    resolved: new Map(),
+    resolving: new Set(),
+  });
+}
+
+function convertSchema(
+  schema: JsonSchema,
+  context: ConversionContext
+): z.ZodType {
+  if (schema === true) {
+    return z.unknown();
+  }
+  if (schema === false) {
+    return z.never();
+  }
+
+  const converted = describe(convertKeywords(schema, context), schema);
+  return schema.nullable === true ? converted.nullable() : converted;
+}
+
+function convertKeywords(
+  schema: JsonSchemaObject,
+  context: ConversionContext
+): z.ZodType {
+  if (typeof schema.$ref === 'string') {
+    const { $ref, ...rest } = schema;
+    return withSiblings(convertReference($ref, context), rest, context);
+  }
+  if (schema.const !== undefined) {
+    return convertLiterals([schema.const]);
+  }
+  if (Array.isArray(schema.enum)) {
+    return convertLiterals(schema.enum);
+  }
+  if (Array.isArray(schema.allOf) && schema.allOf.length > 0) {
+    const { allOf, ...rest } = schema;
+    return (allOf as JsonSchema[]).reduce<z.ZodType>(
+      (intersection, member) =>
+        z.intersection(intersection, convertSchema(member, context)),
+      hasTypeKeywords(rest) ? convertKeywords(rest, context) : z.unknown()
+    );
+  }
+
+  const combinator = Array.isArray(schema.oneOf)
+    ? 'oneOf'
+    : Array.isArray(schema.anyOf)
+      ? 'anyOf'
+      : undefined;
+  const options = combinator && (schema[combinator] as JsonSchema[]);
+  if (combinator && options && options.length > 0) {
+    const { [combinator]: _options, ...rest } = schema;
+    const members = options.map(option => convertSchema(option, context));
+    const union =
+      members.length === 1
+        ? (members[0] as z.ZodType)
+        : z.union(members as [z.ZodType, z.ZodType, ...z.ZodType[]]);
+    return withSiblings(union, rest, context);
+  }
+
+  const types = getTypes(schema);
+  const nonNullTypes = types.filter(type => type !== 'null');
+  if (nonNullTypes.length === 0) {
+    return types.length > 0 ? z.null() : z.unknown();
+  }
+
+  const members = nonNullTypes.map(type =>
+    convertType(type, schema, context)
+  );
+  const converted =
+    members.length === 1
+      ? (members[0] as z.ZodType)
+      : z.union(members as [z.ZodType, z.ZodType, ...z.ZodType[]]);
+  return nonNullTypes.length < types.length ? converted.nullable() : converted;
+}
+
+function convertType(
+  type: string,
+  schema: JsonSchemaObject,
+  context: ConversionContext
+): z.ZodType {
+  switch (type) {
+    case 'object':
+      return convertObject(schema, context);
+    case 'array':
+      return convertArray(schema, context);
+    case 'string':
+      return convertString(schema);
+    case 'number':
+    case 'integer':
+      return convertNumber(schema, type === 'integer');
+    case 'boolean':
+      return z.boolean();
+    default:
+      return z.unknown();
+  }
+}
+
+function convertObject(
+  schema: JsonSchemaObject,
+  context: ConversionContext
+): z.ZodType {
+  const properties = isSchemaObject(schema.properties) ? schema.properties : {};
+  const required = Array.isArray(schema.required) ? schema.required : [];
+
+  const shape: Record<string, z.ZodType> = {};
+  for (const [name, property] of Object.entries(properties)) {
+    const converted = convertSchema(property as JsonSchema, context);
+    shape[name] = required.includes(name) ? converted : converted.optional();
+  }
+  // Required names without a property schema, as in `anyOf: [{ required: [...] }]`
+  for (const name of required) {
+    if (typeof name === 'string' && !(name in shape)) {
+      shape[name] = z.custom(value => value !== undefined, {
+        message: 'Required',
+      });
+    }
+  }
+
+  const { additionalProperties } = schema;
+  if (additionalProperties === false) {
+    return z.strictObject(shape);
+  }
+  if (additionalProperties === true) {
+    return z.looseObject(shape);
+  }
+  if (isSchemaObject(additionalProperties)) {
+    return z
+      .object(shape)
+      .catchall(convertSchema(additionalProperties, context));
+  }
+  return z.object(shape);
+}
+
+function convertArray(
+  schema: JsonSchemaObject,
+  context: ConversionContext
+): z.ZodType {
+  let array: z.ZodType;
+  if (Array.isArray(schema.prefixItems)) {
+    const items = (schema.prefixItems as JsonSchema[]).map(item =>
+      convertSchema(item, context)
+    );
+    const tuple = z.tuple(items as [z.ZodType, ...z.ZodType[]]);
+    array =
+      schema.items === undefined || schema.items === false
+        ? tuple
+        : tuple.rest(convertSchema(schema.items as JsonSchema, context));
+  } else {
+    const items =
+      schema.items === undefined
+        ? z.unknown()
+        : convertSchema(schema.items as JsonSchema, context);
+    let list = z.array(items);
+    if (typeof schema.minItems === 'number') {
+      list = list.min(schema.minItems);
+    }
+    if (typeof schema.maxItems === 'number') {
+      list = list.max(schema.maxItems);
+    }
+    array = list;
+  }
+
+  return schema.uniqueItems === true
+    ? array.refine(
+        value =>
+          !Array.isArray(value) ||
+          new Set(value.map(item => JSON.stringify(item))).size ===
+            value.length,
+        { message: 'Array items must be unique' }
+      )
+    : array;
+}
+
+function convertString(schema: JsonSchemaObject): z.ZodType {
+  const format =
+    typeof schema.format === 'string'
+      ? STRING_FORMATS[schema.format]
+      : undefined;
+  // Format schemas share the length and pattern checks of plain strings
+  let string = (format ? format() : z.string()) as z.ZodString;
+
+  if (typeof schema.minLength === 'number') {
+    string = string.min(schema.minLength);
+  }
+  if (typeof schema.maxLength === 'number') {
+    string = string.max(schema.maxLength);
+  }
+  if (typeof schema.pattern === 'string') {
+    string = string.regex(new RegExp(schema.pattern, 'u'));
+  }
+  return string;
+}
+
+function convertNumber(schema: JsonSchemaObject, integer: boolean): z.ZodType {
+  let number = integer ? z.number().int() : z.number();
+  const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } =
+    schema;
+
+  if (typeof minimum === 'number') {
+    // Draft 4 marks the bound itself as exclusive
+    number =
+      exclusiveMinimum === true ? number.gt(minimum) : number.min(minimum);
+  }
+  if (typeof maximum === 'number') {
+    number =
+      exclusiveMaximum === true ? number.lt(maximum) : number.max(maximum);
+  }
+  if (typeof exclusiveMinimum === 'number') {
+    number = number.gt(exclusiveMinimum);
+  }
+  if (typeof exclusiveMaximum === 'number') {
+    number = number.lt(exclusiveMaximum);
+  }
+  if (typeof multipleOf === 'number') {
+    number = number.multipleOf(multipleOf);
+  }
+  return number;
+}
+
+function convertLiterals(values: readonly unknown[]): z.ZodType {
+  if (values.length > 0 && values.every(value => typeof value === 'string')) {
+    return z.enum(values as [string, ...string[]]);
+  }
+
+  const members: z.ZodType[] = values.map(value =>
+    value === null || typeof value !== 'object'
+      ? z.literal(value as string | number | boolean | null)
+      : z.custom(
+          candidate => JSON.stringify(candidate) === JSON.stringify(value),
+          { message: `Expected ${JSON.stringify(value)}` }
+        )
+  );
+  if (members.length === 0) {
+    return z.never();
+  }
+  return members.length === 1
+    ? (members[0] as z.ZodType)
+    : z.union(members as [z.ZodType, z.ZodType, ...z.ZodType[]]);
+}
+
+/**
+ * Convert the target of a `$ref`, reusing earlier conversions
+ *
+ * References met again while their target is being converted are
+ * recursive and resolve lazily.
+ */
+function convertReference(ref: string, context: ConversionContext): z.ZodType {
+  const resolved = context.resolved.get(ref);
+  if (resolved) {
+    return resolved;
+  }
+  if (context.resolving.has(ref)) {
+    return z.lazy(() => context.resolved.get(ref) as z.ZodType);
+  }
+
+  context.resolving.add(ref);
+  const converted = convertSchema(resolvePointer(ref, context.root), context);
+  context.resolving.delete(ref);
+  context.resolved.set(ref, converted);
+  return converted;
+}
+
+/**
+ * Resolve a local JSON Pointer reference such as `#/$defs/Address`
+ */
+function resolvePointer(ref: string, root: JsonSchema): JsonSchema {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Only local $ref values are supported: ${ref}`);
+  }
+
+  let target: unknown = root;
+  for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(segment)
+      .replace(/~1/g, '/')
+      .replace(/~0/g, '~');
+    target = isSchemaObject(target) ? target[key] : undefined;
+  }
+
+  if (typeof target !== 'boolean' && !isSchemaObject(target)) {
+    throw new Error(`Unresolvable $ref: ${ref}`);
+  }
+  return target;
+}
+
+/**
+ * Types a schema accepts, inferring them from type-specific keywords when
+ * `type` is omitted
+ */
+function getTypes(schema: JsonSchemaObject): string[] {
+  if (typeof schema.type === 'string') {
+    return [schema.type];
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.filter(type => typeof type === 'string');
+  }
+  if (schema.properties !== undefined || schema.required !== undefined) {
+    return ['object'];
+  }
+  if (schema.items !== undefined || schema.prefixItems !== undefined) {
+    return ['array'];
+  }
+  return [];
+}
+
+function hasTypeKeywords(schema: JsonSchemaObject): boolean {
+  return (
+    getTypes(schema).length > 0 ||
+    schema.$ref !== undefined ||
+    Array.isArray(schema.oneOf) ||
+    Array.isArray(schema.anyOf)
+  );
+}
+
+/**
+ * Intersect the conversion of a `$ref` or union with the keywords beside
+ * it, such as the `properties` and `required` next to an `anyOf`
+ */
+function withSiblings(
+  converted: z.ZodType,
+  siblings: JsonSchemaObject,
+  context: ConversionContext
+): z.ZodType {
+  return hasTypeKeywords(siblings)
+    ? z.intersection(convertKeywords(siblings, context), converted)
+    : converted;
+}
+
+function describe(converted: z.ZodType, schema: JsonSchemaObject): z.ZodType {
+  return typeof schema.description === 'string'
+    ? converted.describe(schema.description)
+    : converted;
+}
+
+function isSchemaObject(value: unknown): value is JsonSchemaObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -7,7 +7,7 @@
  *
  * Features:
  * - JavaScript (.js, .mjs) - Direct Zod schema imports
- * - JSON Schema (.json) - AJV validation with JSON Schema
+ * - JSON Schema (.json) - Checked with AJV and converted to Zod
  * - TypeScript (.ts) - Optional development support
  * - Performance optimized - No heavy TypeScript compilation
  * - Multiple export pattern support
@@ -18,7 +18,9 @@ import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import { pathToFileURL } from 'node:url';
 import Ajv from 'ajv';
+import Ajv2020 from 'ajv/dist/2020.js';
 import type { z } from 'zod';
+import { type JsonSchema, jsonSchemaToZod } from './json-schema-converter.js';
 
 /**
  * Supported file extensions for schema loading
@@ -39,7 +41,7 @@ export interface SchemaLoaderOptions {
   /** Whether to allow loading schemas from node_modules */
   readonly allowNodeModules?: boolean;
 
-  /** Custom AJV instance for JSON Schema validation */
+  /** Custom AJV instance for checking JSON Schema documents */
   readonly ajv?: Ajv;
 }
 
@@ -223,7 +225,10 @@ export async function loadSchema<T = unknown>(
 }
 
 /**
- * Load a schema from a JSON Schema file with AJV validation
+ * Load a schema from a JSON Schema file
+ *
+ * The document is compiled with AJV to reject invalid schemas, then
+ * converted to an equivalent Zod schema.
  */
 async function loadJSONSchema<T>(
   filePath: string,
@@ -252,18 +257,21 @@ async function loadJSONSchema<T>(
     );
   }
 
-  // Create AJV instance for validation
+  // Create AJV instance for validation, using the 2020-12 dialect when declared
+  const ajvOptions = {
+    allErrors: true,
+    verbose: options.verbose ?? false,
+    strict: false, // Allow additional properties for flexibility
+  };
+  const declaresDraft2020 = String(
+    (jsonSchema as { $schema?: unknown }).$schema ?? ''
+  ).includes('2020-12');
   const ajv =
     options.ajv ||
-    new Ajv({
-      allErrors: true,
-      verbose: options.verbose ?? false,
-      strict: false, // Allow additional properties for flexibility
-    });
+    (declaresDraft2020 ? new Ajv2020(ajvOptions) : new Ajv(ajvOptions));
 
-  let validateFn: (data: unknown) => boolean;
   try {
-    validateFn = ajv.compile(jsonSchema);
+    ajv.compile(jsonSchema);
   } catch (error) {
     throw new SchemaLoaderError(
       'JSON_SCHEMA_COMPILATION_FAILED',
@@ -274,18 +282,21 @@ async function loadJSONSchema<T>(
     );
   }
 
-  // Create a validation function that returns the data or throws
-  const validationSchema = (data: unknown): T => {
-    const isValid = validateFn(data);
-    if (!isValid) {
-      const errorMessage = ajv.errorsText(ajv.errors);
-      throw new Error(`JSON Schema validation failed: ${errorMessage}`);
-    }
-    return data as T;
-  };
+  let schema: z.ZodSchema<T>;
+  try {
+    schema = jsonSchemaToZod(jsonSchema as JsonSchema) as z.ZodSchema<T>;
+  } catch (error) {
+    throw new SchemaLoaderError(
+      'JSON_SCHEMA_CONVERSION_FAILED',
+      `Failed to convert JSON Schema to Zod: ${error instanceof Error ? error.message : 'Conversion error'}`,
+      filePath,
+      error instanceof Error ? error : undefined,
+      { jsonSchema }
+    );
+  }
 
   return {
-    schema: validationSchema as unknown as z.ZodSchema<T>,
+    schema,
     exportName: 'default',
     filePath,
     format: 'json-schema',
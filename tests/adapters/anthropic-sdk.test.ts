@@ -9,9 +9,11 @@ import {
 const { mockAnthropicInstance, MockAPIError } = vi.hoisted(() => {
   class MockAPIError extends Error {
     status: number;
-    constructor(message: string, status: number) {
+    headers: Headers | undefined;
+    constructor(message: string, status: number, headers?: Headers) {
       super(message);
       this.status = status;
+      this.headers = headers;
       this.name = 'APIError';
     }
   }
@@ -584,3 +586,27 @@ describe.skip('AnthropicSDKAdapter', () => {
     });
   });
 });
+
+describe('AnthropicSDKAdapter rate limits', () => {
+  it('attaches the reported rate limit to rate limit errors', async () => {
+    const adapter = createAnthropicSDKAdapter({ apiKey: 'test-api-key' });
+    mockAnthropicInstance.messages.create.mockRejectedValueOnce(
+      new MockAPIError(
+        'Rate limit exceeded',
+        429,
+        new Headers({
+          'retry-after': '12',
+          'anthropic-ratelimit-requests-limit': '50',
+          'anthropic-ratelimit-requests-remaining': '0',
+        })
+      )
+    );
+
+    await expect(
+      adapter.sendPrompt(null, 'Hello', { maxTokens: 100 })
+    ).rejects.toMatchObject({
+      statusCode: 429,
+      rateLimitInfo: { retryAfter: 12, limit: 50, remaining: 0 },
+    });
+  });
+});
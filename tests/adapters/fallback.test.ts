@@ -0,0 +1,284 @@
+/**
+ * Tests for the fallback adapter
+ *
+ * Covers failing over on retryable errors, passing non-retryable errors
+ * through, opening circuits after consecutive failures, half-open probing
+ * through getHealth() and single trial requests, session ownership, and the
+ * providers persuade() records per attempt.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  createFallbackAdapter,
+  isFailoverError,
+} from '../../src/adapters/fallback.js';
+import { createOllamaAdapter } from '../../src/adapters/ollama.js';
+import { createRateLimitError } from '../../src/adapters/rate-limit.js';
+import { persuade } from '../../src/core/index.js';
+import type { ProviderAdapter, ProviderError } from '../../src/types/index.js';
+
+const createAdapter = (name: string, supportsSession = false) =>
+  ({
+    name,
+    supportsSession,
+    sendPrompt: vi.fn().mockResolvedValue({ content: `{"from": "${name}"}` }),
+  }) satisfies ProviderAdapter;
+
+const serverError = () =>
+  Object.assign(new Error('Service unavailable'), { statusCode: 503 });
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('isFailoverError', () => {
+  it('fails over on retryable errors only', () => {
+    const providerError = (retryable: boolean): ProviderError => ({
+      type: 'provider',
+      code: 'provider_call_failed',
+      message: 'failed',
+      provider: 'mock',
+      timestamp: new Date(),
+      retryable,
+    });
+
+    expect(isFailoverError(providerError(true))).toBe(true);
+    expect(isFailoverError(providerError(false))).toBe(false);
+    expect(isFailoverError(createRateLimitError('Slow down', undefined))).toBe(
+      true
+    );
+    expect(isFailoverError(serverError())).toBe(true);
+    expect(isFailoverError(new Error('socket hang up'))).toBe(true);
+    expect(
+      isFailoverError(
+        Object.assign(new Error('Invalid API key'), { statusCode: 401 })
+      )
+    ).toBe(false);
+  });
+});
+
+describe('createFallbackAdapter', () => {
+  it('fails over to the next adapter on retryable errors', async () => {
+    const primary = createAdapter('primary');
+    const backup = createAdapter('backup');
+    primary.sendPrompt.mockRejectedValueOnce(serverError());
+    const adapter = createFallbackAdapter({ adapters: [primary, backup] });
+
+    const response = await adapter.sendPrompt(null, 'prompt', {});
+
+    expect(response).toEqual({
+      content: '{"from": "backup"}',
+      provider: 'backup',
+    });
+    expect(backup.sendPrompt).toHaveBeenCalledWith(null, 'prompt', {});
+    expect(adapter.getCircuits()[0]).toMatchObject({
+      state: 'closed',
+      consecutiveFailures: 1,
+    });
+  });
+
+  it('passes non-retryable errors through without failing over', async () => {
+    const primary = createAdapter('primary');
+    const backup = createAdapter('backup');
+    const unauthorized = Object.assign(new Error('Invalid API key'), {
+      statusCode: 401,
+    });
+    primary.sendPrompt.mockRejectedValueOnce(unauthorized);
+    const adapter = createFallbackAdapter({ adapters: [primary, backup] });
+
+    await expect(adapter.sendPrompt(null, 'prompt', {})).rejects.toBe(
+      unauthorized
+    );
+    expect(backup.sendPrompt).not.toHaveBeenCalled();
+    expect(adapter.getCircuits()[0]?.consecutiveFailures).toBe(0);
+  });
+
+  it('does not fail over when an adapter reports a 401', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+      })
+    );
+    const backup = createAdapter('backup');
+    const adapter = createFallbackAdapter({
+      adapters: [createOllamaAdapter(), backup],
+    });
+
+    await expect(adapter.sendPrompt(null, 'prompt', {})).rejects.toMatchObject({
+      statusCode: 401,
+    });
+    expect(backup.sendPrompt).not.toHaveBeenCalled();
+    expect(adapter.getCircuits()[0]?.consecutiveFailures).toBe(0);
+  });
+
+  it('throws the last error when every adapter fails', async () => {
+    const primary = createAdapter('primary');
+    const backup = createAdapter('backup');
+    const rateLimited = createRateLimitError('Slow down', { retryAfter: 5 });
+    primary.sendPrompt.mockRejectedValueOnce(serverError());
+    backup.sendPrompt.mockRejectedValueOnce(rateLimited);
+    const adapter = createFallbackAdapter({ adapters: [primary, backup] });
+
+    await expect(adapter.sendPrompt(null, 'prompt', {})).rejects.toBe(
+      rateLimited
+    );
+  });
+
+  it('skips an adapter while its circuit is open', async () => {
+    vi.useFakeTimers();
+    const primary = createAdapter('primary');
+    const backup = createAdapter('backup');
+    primary.sendPrompt.mockRejectedValue(serverError());
+    const adapter = createFallbackAdapter({
+      adapters: [primary, backup],
+      failureThreshold: 2,
+      resetTimeoutMs: 10_000,
+    });
+
+    await adapter.sendPrompt(null, 'first', {});
+    await adapter.sendPrompt(null, 'second', {});
+    expect(adapter.getCircuits()[0]).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 2,
+    });
+
+    await adapter.sendPrompt(null, 'third', {});
+    expect(primary.sendPrompt).toHaveBeenCalledTimes(2);
+    expect(backup.sendPrompt).toHaveBeenCalledTimes(3);
+    expect(await adapter.getHealth()).toMatchObject({ healthy: true });
+
+    // After the reset timeout a trial request probes the adapter again
+    vi.advanceTimersByTime(10_000);
+    primary.sendPrompt.mockResolvedValueOnce({ content: '{}' });
+    const response = await adapter.sendPrompt(null, 'fourth', {});
+
+    expect(response.provider).toBe('primary');
+    expect(adapter.getCircuits()[0]).toMatchObject({
+      state: 'closed',
+      consecutiveFailures: 0,
+    });
+  });
+
+  it('probes half-open circuits through getHealth', async () => {
+    const getHealth = vi
+      .fn()
+      .mockResolvedValueOnce({ healthy: false, checkedAt: new Date() })
+      .mockResolvedValueOnce({ healthy: true, checkedAt: new Date() });
+    const primary = { ...createAdapter('primary'), getHealth };
+    const backup = createAdapter('backup');
+    primary.sendPrompt.mockRejectedValueOnce(serverError());
+    const adapter = createFallbackAdapter({
+      adapters: [primary, backup],
+      failureThreshold: 1,
+      resetTimeoutMs: 0,
+    });
+
+    await adapter.sendPrompt(null, 'opens', {});
+    expect(adapter.getCircuits()[0]?.state).toBe('open');
+
+    // The unhealthy probe keeps the circuit open without sending the prompt
+    await adapter.sendPrompt(null, 'unhealthy', {});
+    expect(primary.sendPrompt).toHaveBeenCalledTimes(1);
+    expect(adapter.getCircuits()[0]?.state).toBe('open');
+
+    const response = await adapter.sendPrompt(null, 'healthy', {});
+    expect(response.provider).toBe('primary');
+    expect(getHealth).toHaveBeenCalledTimes(2);
+    expect(adapter.getCircuits()[0]?.state).toBe('closed');
+  });
+
+  it('reopens a half-open circuit when the trial request fails', async () => {
+    const primary = createAdapter('primary');
+    const backup = createAdapter('backup');
+    primary.sendPrompt.mockRejectedValue(serverError());
+    const adapter = createFallbackAdapter({
+      adapters: [primary, backup],
+      failureThreshold: 3,
+      resetTimeoutMs: 0,
+    });
+
+    for (let call = 0; call < 4; call++) {
+      await adapter.sendPrompt(null, 'prompt', {});
+    }
+
+    expect(adapter.getCircuits()[0]).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 4,
+    });
+  });
+
+  it('sends a single probe to a half-open circuit', async () => {
+    const primary = createAdapter('primary');
+    const backup = createAdapter('backup');
+    const adapter = createFallbackAdapter({
+      adapters: [primary, backup],
+      failureThreshold: 1,
+      resetTimeoutMs: 0,
+    });
+    primary.sendPrompt.mockRejectedValueOnce(serverError());
+    await adapter.sendPrompt(null, 'opens', {});
+
+    let settleProbe: (response: { content: string }) => void = () => {};
+    primary.sendPrompt.mockReturnValueOnce(
+      new Promise(resolve => (settleProbe = resolve))
+    );
+    const probe = adapter.sendPrompt(null, 'probe', {});
+    const concurrent = await adapter.sendPrompt(null, 'concurrent', {});
+
+    expect(concurrent.provider).toBe('backup');
+    expect(adapter.getCircuits()[0]?.state).toBe('half_open');
+    settleProbe({ content: '{}' });
+    expect((await probe).provider).toBe('primary');
+    expect(primary.sendPrompt).toHaveBeenCalledTimes(2);
+    expect(adapter.getCircuits()[0]?.state).toBe('closed');
+  });
+
+  it('keeps sessions with the adapter that created them', async () => {
+    const primary = createAdapter('primary');
+    const backup = {
+      ...createAdapter('backup', true),
+      createSession: vi.fn().mockResolvedValue('session-1'),
+      destroySession: vi.fn().mockResolvedValue(undefined),
+    };
+    const adapter = createFallbackAdapter({ adapters: [primary, backup] });
+
+    expect(adapter.supportsSession).toBe(true);
+    const sessionId = await adapter.createSession('context');
+    await adapter.sendPrompt(sessionId, 'prompt', {});
+    await adapter.destroySession(sessionId);
+
+    expect(sessionId).toBe('session-1');
+    expect(primary.sendPrompt).toHaveBeenCalledWith(null, 'prompt', {});
+    expect(backup.sendPrompt).not.toHaveBeenCalled();
+    expect(backup.destroySession).toHaveBeenCalledWith('session-1');
+  });
+});
+
+describe('persuade with a fallback adapter', () => {
+  it('records the provider that served each attempt', async () => {
+    const schema = z.object({ name: z.string() });
+    const primary = createAdapter('primary');
+    const backup = createAdapter('backup');
+    primary.sendPrompt
+      .mockResolvedValueOnce({ content: '{"title": "Mug"}' })
+      .mockRejectedValueOnce(serverError());
+    backup.sendPrompt.mockResolvedValueOnce({ content: '{"name": "Mug"}' });
+
+    const result = await persuade(
+      { schema, input: 'Blue mug', retries: 2 },
+      createFallbackAdapter({ adapters: [primary, backup] })
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.metadata.provider).toBe('fallback');
+    expect(result.metadata.attemptProviders).toEqual([
+      { attempt: 1, provider: 'primary' },
+      { attempt: 2, provider: 'backup' },
+    ]);
+  });
+});
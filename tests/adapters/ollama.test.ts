@@ -1,4 +1,5 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
 import {
   createOllamaAdapter,
   type OllamaAdapter,
@@ -222,6 +223,23 @@ describe('OllamaAdapter', () => {
       ).rejects.toThrow(/Ollama server error/);
     });
 
+    it('should attach the reported rate limit to 429 responses', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: new Headers({ 'retry-after': '3' }),
+      } as Response);
+
+      await expect(
+        adapter.sendPrompt(null, 'Hello', { maxTokens: 100 })
+      ).rejects.toMatchObject({
+        message: expect.stringMatching(/Ollama rate limit exceeded/),
+        statusCode: 429,
+        rateLimitInfo: { retryAfter: 3 },
+      });
+    });
+
     it('should handle network errors', async () => {
       mockFetch.mockRejectedValueOnce(new Error('ECONNREFUSED'));
 
@@ -229,6 +247,55 @@ describe('OllamaAdapter', () => {
         adapter.sendPrompt(null, 'Hello', { maxTokens: 100 })
       ).rejects.toThrow(/Cannot connect to Ollama/);
     });
+
+    it('should send the schema as format for native structured output', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          model: 'llama3.2',
+          message: { role: 'assistant', content: '{"name":"Ada"}' },
+          done: true,
+        }),
+      } as Response);
+
+      const response = await adapter.sendPrompt(null, 'Extract the name', {
+        schema: z.object({ name: z.string() }),
+      });
+
+      const body = JSON.parse(mockFetch.mock.calls[0]?.[1]?.body as string);
+      expect(body.format).toMatchObject({
+        type: 'object',
+        properties: { name: { type: 'string' } },
+        required: ['name'],
+      });
+      expect(response.structuredOutput).toBe('native');
+    });
+
+    it('should fall back to the prompt when the format is rejected', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 400,
+          statusText: 'Bad Request',
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            model: 'llama3.2',
+            message: { role: 'assistant', content: '{"name":"Ada"}' },
+            done: true,
+          }),
+        } as Response);
+
+      const response = await adapter.sendPrompt(null, 'Extract the name', {
+        schema: z.object({ name: z.string() }),
+      });
+
+      const body = JSON.parse(mockFetch.mock.calls[1]?.[1]?.body as string);
+      expect(body.format).toBeUndefined();
+      expect(response.content).toBe('{"name":"Ada"}');
+      expect(response.structuredOutput).toBe('prompt');
+    });
   });
 
   describe('destroySession', () => {
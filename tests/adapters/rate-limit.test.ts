@@ -0,0 +1,169 @@
+/**
+ * Tests for rate limit parsing
+ *
+ * Covers the header formats of OpenAI, Anthropic and generic proxies,
+ * Google's RetryInfo error detail, and the errors adapters throw for 429s
+ * and other failed requests.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  createRateLimitError,
+  getRateLimitDetails,
+  parseGoogleRetryInfo,
+  parseRateLimitHeaders,
+  withStatusCode,
+} from '../../src/adapters/rate-limit.js';
+
+const now = Date.parse('2026-03-01T12:00:00Z');
+
+describe('parseRateLimitHeaders', () => {
+  it('reads retry-after in seconds or as an HTTP date', () => {
+    expect(parseRateLimitHeaders({ 'retry-after': '20' }, now)).toEqual({
+      retryAfter: 20,
+    });
+    expect(
+      parseRateLimitHeaders(
+        { 'Retry-After': 'Sun, 01 Mar 2026 12:00:45 GMT' },
+        now
+      )
+    ).toEqual({ retryAfter: 45 });
+  });
+
+  it('prefers retry-after-ms', () => {
+    expect(
+      parseRateLimitHeaders(
+        new Headers({ 'retry-after': '2', 'retry-after-ms': '1500' }),
+        now
+      )
+    ).toEqual({ retryAfter: 1.5 });
+  });
+
+  it('reads the exhausted OpenAI bucket', () => {
+    const info = parseRateLimitHeaders(
+      {
+        'x-ratelimit-limit-requests': '500',
+        'x-ratelimit-remaining-requests': '499',
+        'x-ratelimit-reset-requests': '120ms',
+        'x-ratelimit-limit-tokens': '30000',
+        'x-ratelimit-remaining-tokens': '0',
+        'x-ratelimit-reset-tokens': '1m30s',
+      },
+      now
+    );
+
+    expect(info).toEqual({ limit: 30000, remaining: 0, resetIn: 90 });
+  });
+
+  it('reads Anthropic limits with RFC 3339 resets', () => {
+    const info = parseRateLimitHeaders(
+      new Headers({
+        'retry-after': '8',
+        'anthropic-ratelimit-requests-limit': '50',
+        'anthropic-ratelimit-requests-remaining': '0',
+        'anthropic-ratelimit-requests-reset': '2026-03-01T12:00:08Z',
+      }),
+      now
+    );
+
+    expect(info).toEqual({
+      limit: 50,
+      remaining: 0,
+      resetIn: 8,
+      retryAfter: 8,
+    });
+  });
+
+  it('reads generic limits with Unix timestamp resets', () => {
+    expect(
+      parseRateLimitHeaders(
+        {
+          'x-ratelimit-limit': '60',
+          'x-ratelimit-remaining': '0',
+          'x-ratelimit-reset': String(now / 1000 + 30),
+        },
+        now
+      )
+    ).toEqual({ limit: 60, remaining: 0, resetIn: 30 });
+  });
+
+  it('returns undefined without rate limit headers', () => {
+    expect(
+      parseRateLimitHeaders({ 'content-type': 'application/json' }, now)
+    ).toBeUndefined();
+    expect(parseRateLimitHeaders(undefined, now)).toBeUndefined();
+  });
+});
+
+describe('parseGoogleRetryInfo', () => {
+  const body = {
+    error: {
+      code: 429,
+      status: 'RESOURCE_EXHAUSTED',
+      details: [
+        { '@type': 'type.googleapis.com/google.rpc.QuotaFailure' },
+        {
+          '@type': 'type.googleapis.com/google.rpc.RetryInfo',
+          retryDelay: '33s',
+        },
+      ],
+    },
+  };
+
+  it('reads the retry delay from the error body', () => {
+    expect(parseGoogleRetryInfo(body)).toEqual({ retryAfter: 33 });
+  });
+
+  it('reads the body embedded in an SDK error message', () => {
+    expect(
+      parseGoogleRetryInfo(
+        `got status: 429 Too Many Requests. ${JSON.stringify(body)}`
+      )
+    ).toEqual({ retryAfter: 33 });
+  });
+
+  it('returns undefined without RetryInfo', () => {
+    expect(parseGoogleRetryInfo('got status: 429 Too Many Requests')).toBe(
+      undefined
+    );
+    expect(parseGoogleRetryInfo({ error: { details: [] } })).toBeUndefined();
+  });
+});
+
+describe('rate limit errors', () => {
+  it('carries the status code and rate limit information', () => {
+    const error = createRateLimitError('Rate limit exceeded', {
+      retryAfter: 5,
+    });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe('Rate limit exceeded');
+    expect(getRateLimitDetails(error)).toEqual({
+      statusCode: 429,
+      rateLimitInfo: { retryAfter: 5 },
+    });
+  });
+
+  it('keeps the status of the error an adapter replaced', () => {
+    const sdkError = Object.assign(new Error('Unauthorized'), { status: 401 });
+    const retryError = { lastError: { statusCode: 503 } };
+    const rateLimited = createRateLimitError('Rate limit exceeded', undefined);
+
+    expect(withStatusCode(new Error('Bad key'), sdkError)).toMatchObject({
+      message: 'Bad key',
+      statusCode: 401,
+    });
+    expect(
+      getRateLimitDetails(withStatusCode(new Error(), retryError))
+    ).toEqual({ statusCode: 503 });
+    expect(withStatusCode(rateLimited, sdkError).statusCode).toBe(429);
+    expect(
+      getRateLimitDetails(withStatusCode(new Error(), new Error('ECONNRESET')))
+    ).toEqual({});
+  });
+
+  it('reads nothing from plain errors', () => {
+    expect(getRateLimitDetails(new Error('boom'))).toEqual({});
+    expect(getRateLimitDetails('boom')).toEqual({});
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Tests for native structured output
+ *
+ * Covers the JSON Schema derived for native requests, its conversion to
+ * Gemini's responseSchema, the fallback to the prompt-only request, and
+ * persuade() runs that ask for native output.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  isStructuredOutputRejection,
+  requestWithStructuredOutput,
+  toGeminiResponseSchema,
+  toNativeJsonSchema,
+} from '../../src/adapters/structured-output.js';
+import { persuade } from '../../src/core/index.js';
+import type { ProviderAdapter } from '../../src/types/index.js';
+
+const Person = z.object({
+  name: z.string(),
+  age: z.number().int().nullable(),
+  tags: z.array(z.enum(['admin', 'user'])),
+});
+
+describe('toNativeJsonSchema', () => {
+  it('derives the JSON Schema without the dialect', () => {
+    const jsonSchema = toNativeJsonSchema(Person);
+
+    expect(jsonSchema).toMatchObject({
+      type: 'object',
+      required: ['name', 'age', 'tags'],
+      additionalProperties: false,
+    });
+    expect(jsonSchema).not.toHaveProperty('$schema');
+  });
+
+  it('skips schemas without a native representation', () => {
+    expect(toNativeJsonSchema(undefined)).toBeUndefined();
+    expect(toNativeJsonSchema(z.date())).toBeUndefined();
+    expect(toNativeJsonSchema(z.array(Person), true)).toBeUndefined();
+    expect(toNativeJsonSchema(z.array(Person))).toMatchObject({
+      type: 'array',
+    });
+  });
+});
+
+describe('toGeminiResponseSchema', () => {
+  it('converts to the OpenAPI subset', () => {
+    expect(toGeminiResponseSchema(toNativeJsonSchema(Person))).toEqual({
+      type: 'OBJECT',
+      required: ['name', 'age', 'tags'],
+      properties: {
+        name: { type: 'STRING' },
+        age: {
+          anyOf: [
+            {
+              type: 'INTEGER',
+              maximum: Number.MAX_SAFE_INTEGER,
+              minimum: Number.MIN_SAFE_INTEGER,
+            },
+            { nullable: true },
+          ],
+        },
+        tags: {
+          type: 'ARRAY',
+          items: { type: 'STRING', enum: ['admin', 'user'] },
+        },
+      },
+      propertyOrdering: ['name', 'age', 'tags'],
+    });
+  });
+
+  it('rejects references', () => {
+    const Node: z.ZodType = z.object({
+      name: z.string(),
+      get children() {
+        return z.array(Node);
+      },
+    });
+
+    expect(toGeminiResponseSchema(toNativeJsonSchema(Node))).toBeUndefined();
+  });
+});
+
+describe('requestWithStructuredOutput', () => {
+  it('uses the native request', async () => {
+    const prompt = vi.fn();
+
+    await expect(
+      requestWithStructuredOutput('test', async () => 'native', prompt)
+    ).resolves.toEqual({ response: 'native', mode: 'native' });
+    expect(prompt).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the prompt when the provider rejects the schema', async () => {
+    const rejected = Object.assign(new Error('Invalid schema'), {
+      status: 400,
+    });
+
+    await expect(
+      requestWithStructuredOutput(
+        'test',
+        () => Promise.reject(rejected),
+        async () => 'prompt'
+      )
+    ).resolves.toEqual({ response: 'prompt', mode: 'prompt' });
+    await expect(
+      requestWithStructuredOutput('test', undefined, async () => 'prompt')
+    ).resolves.toEqual({ response: 'prompt', mode: 'prompt' });
+  });
+
+  it('throws other errors', async () => {
+    const overloaded = Object.assign(new Error('Overloaded'), {
+      statusCode: 529,
+    });
+
+    await expect(
+      requestWithStructuredOutput(
+        'test',
+        () => Promise.reject(overloaded),
+        async () => 'prompt'
+      )
+    ).rejects.toBe(overloaded);
+  });
+
+  it('recognizes rejections by status code', () => {
+    expect(isStructuredOutputRejection({ statusCode: 422 })).toBe(true);
+    expect(isStructuredOutputRejection({ status: 429 })).toBe(false);
+    expect(isStructuredOutputRejection(new Error('400'))).toBe(false);
+  });
+});
+
+describe('persuade with native structured output', () => {
+  const createProvider = (structuredOutput?: 'native' | 'prompt') =>
+    ({
+      name: 'mock',
+      supportsSession: false,
+      sendPrompt: vi.fn().mockResolvedValue({
+        content: JSON.stringify({ name: 'Ada', age: 36, tags: ['admin'] }),
+        ...(structuredOutput && { structuredOutput }),
+      }),
+    }) satisfies ProviderAdapter;
+
+  it('passes the schema and reports the output mode', async () => {
+    const provider = createProvider('native');
+
+    const result = await persuade(
+      { schema: Person, input: 'Ada, 36, admin', structuredOutput: 'native' },
+      provider
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.metadata.structuredOutput).toBe('native');
+    expect(provider.sendPrompt.mock.calls[0]?.[2]).toMatchObject({
+      schema: Person,
+    });
+  });
+
+  it('reports prompt output for providers without native support', async () => {
+    const provider = createProvider();
+
+    const result = await persuade(
+      { schema: Person, input: 'Ada, 36, admin', structuredOutput: 'native' },
+      provider
+    );
+
+    expect(result.metadata.structuredOutput).toBe('prompt');
+  });
+
+  it('keeps the schema out of prompt-mode requests', async () => {
+    const provider = createProvider();
+
+    const result = await persuade(
+      { schema: Person, input: 'Ada, 36, admin' },
+      provider
+    );
+
+    expect(result.metadata.structuredOutput).toBeUndefined();
+    expect(provider.sendPrompt.mock.calls[0]?.[2]).not.toHaveProperty('schema');
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Tests for the response cache
+ *
+ * Covers cache keys, the file store in a temporary directory, expiry, and
+ * persuade() runs that replay cached responses, refresh them, or report
+ * their hits and misses in the result metadata.
+ */
+
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  createFileResponseCacheStore,
+  createMemoryResponseCacheStore,
+  createResponseCacheKey,
+  ResponseCache,
+} from '../../src/cache/index.js';
+import { persuade } from '../../src/core/index.js';
+import type { ProviderAdapter } from '../../src/types/index.js';
+
+const schema = z.object({ name: z.string() });
+const usage = { inputTokens: 80, outputTokens: 20, totalTokens: 100 };
+const request = {
+  prompt: 'Extract the product name',
+  schema,
+  provider: 'openai',
+  model: 'gpt-4o',
+  options: { maxTokens: 4096, temperature: 0.4 },
+};
+
+const createProvider = (...contents: string[]) => {
+  const sendPrompt = vi.fn();
+  for (const content of contents) {
+    sendPrompt.mockResolvedValueOnce({ content, tokenUsage: usage });
+  }
+  return {
+    name: 'mock',
+    supportsSession: false,
+    sendPrompt,
+  } satisfies ProviderAdapter;
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createResponseCacheKey', () => {
+  it('depends on the prompt, schema, provider, model and options only', () => {
+    const key = createResponseCacheKey(request);
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(
+      createResponseCacheKey({
+        ...request,
+        options: { temperature: 0.4, maxTokens: 4096 },
+      })
+    ).toBe(key);
+    for (const change of [
+      { prompt: 'Extract the product title' },
+      { schema: z.object({ title: z.string() }) },
+      { provider: 'vercel-ai-sdk' },
+      { model: 'gpt-4o-mini' },
+      { options: { maxTokens: 4096, temperature: 0.9 } },
+    ]) {
+      expect(createResponseCacheKey({ ...request, ...change })).not.toBe(key);
+    }
+  });
+});
+
+describe('FileResponseCacheStore', () => {
+  it('stores one file per response', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'persuader-cache-'));
+    try {
+      const store = createFileResponseCacheStore({ directory });
+      const entry = {
+        key: 'abc123',
+        content: '{"name": "Mug"}',
+        createdAt: new Date().toISOString(),
+      };
+
+      await store.set(entry);
+      expect(await store.get('abc123')).toEqual(entry);
+      expect(await readdir(directory)).toEqual(['abc123.json']);
+
+      await Promise.all(
+        ['Cup', 'Jug', 'Bowl'].map(name =>
+          store.set({ ...entry, content: `{"name": "${name}"}` })
+        )
+      );
+      expect(await readdir(directory)).toEqual(['abc123.json']);
+
+      await store.delete('abc123');
+      await store.delete('abc123');
+      expect(await store.get('abc123')).toBeUndefined();
+      await expect(store.get('../escape')).rejects.toThrow(
+        'Invalid cache key "../escape"'
+      );
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('ResponseCache', () => {
+  it('stops serving responses once they expire', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = createMemoryResponseCacheStore();
+    const cache = new ResponseCache({ store, ttlMs: 60_000 });
+
+    await cache.save('key', { content: '{}', tokenUsage: usage });
+    expect(await cache.lookup('key')).toMatchObject({
+      content: '{}',
+      tokenUsage: usage,
+    });
+
+    vi.advanceTimersByTime(60_000);
+    expect(await cache.lookup('key')).toBeUndefined();
+    expect(store.size).toBe(0);
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 1 });
+  });
+});
+
+describe('persuade with a response cache', () => {
+  it('replays cached responses, failed attempts included', async () => {
+    const store = createMemoryResponseCacheStore();
+    const options = { schema, input: 'Blue mug', retries: 1, cache: { store } };
+    const first = createProvider('{"title": "Mug"}', '{"name": "Mug"}');
+    const second = createProvider();
+
+    const fresh = await persuade(options, first);
+    const replayed = await persuade(options, second);
+
+    expect(fresh.metadata.cache).toEqual({ hits: 0, misses: 2 });
+    expect(fresh.metadata.tokenUsage?.totalTokens).toBe(200);
+    expect(replayed).toMatchObject({ ok: true, value: { name: 'Mug' } });
+    expect(replayed.attempts).toBe(2);
+    expect(replayed.metadata.cache).toEqual({ hits: 2, misses: 0 });
+    expect(replayed.metadata.tokenUsage).toBeUndefined();
+    expect(second.sendPrompt).not.toHaveBeenCalled();
+  });
+
+  it('calls the provider again when refreshing', async () => {
+    const store = createMemoryResponseCacheStore();
+    await persuade(
+      { schema, input: 'Blue mug', cache: { store } },
+      createProvider('{"name": "Mug"}')
+    );
+    const provider = createProvider('{"name": "Blue mug"}');
+
+    const refreshed = await persuade(
+      { schema, input: 'Blue mug', cache: { store, refresh: true } },
+      provider
+    );
+    const replayed = await persuade(
+      { schema, input: 'Blue mug', cache: { store } },
+      createProvider()
+    );
+
+    expect(provider.sendPrompt).toHaveBeenCalledTimes(1);
+    expect(refreshed.metadata.cache).toEqual({ hits: 0, misses: 1 });
+    expect(replayed.value).toEqual({ name: 'Blue mug' });
+  });
+
+  it('always calls the provider in a session', async () => {
+    const store = createMemoryResponseCacheStore();
+    const provider = {
+      ...createProvider('{"name": "Mug"}', '{"name": "Mug"}'),
+      supportsSession: true,
+      createSession: vi.fn().mockResolvedValue('session-1'),
+    } satisfies ProviderAdapter;
+
+    await persuade({ schema, input: 'Blue mug', cache: { store } }, provider);
+    const rerun = await persuade(
+      { schema, input: 'Blue mug', cache: { store } },
+      provider
+    );
+
+    expect(provider.sendPrompt).toHaveBeenCalledTimes(2);
+    expect(store.size).toBe(0);
+    expect(rerun.metadata.cache).toEqual({ hits: 0, misses: 0 });
+  });
+
+  it('leaves the cache alone unless enabled', async () => {
+    const provider = createProvider('{"name": "Mug"}');
+
+    const result = await persuade({ schema, input: 'Blue mug' }, provider);
+
+    expect(result.ok).toBe(true);
+    expect(result.metadata.cache).toBeUndefined();
+  });
+});
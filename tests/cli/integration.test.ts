@@ -1,6 +1,9 @@
 import * as fs from 'node:fs/promises';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
 import { runCommand } from '../../src/cli/commands/run.js';
+import { createProgram } from '../../src/cli/index.js';
+import { validatePipelineConfig } from '../../src/cli/utilities/config-validator.js';
 import * as workflowOrchestrator from '../../src/cli/utilities/workflow-orchestrator.js';
 
 vi.mock('node:fs/promises');
@@ -169,4 +172,42 @@ describe('CLI Integration', () => {
       retries: '3',
     });
   });
+
+  describe('response cache flags', () => {
+    const runArgs = (...flags: string[]) => [
+      'run',
+      '-s',
+      'schema.ts',
+      '-i',
+      'test.json',
+      ...flags,
+    ];
+
+    async function parseCacheOption(...flags: string[]) {
+      await createProgram().parseAsync(runArgs(...flags), { from: 'user' });
+      const [options] =
+        mockWorkflowOrchestrator.executeRunWorkflow.mock.calls[0] ?? [];
+      const validation = await validatePipelineConfig(
+        { ...options },
+        z.object({ result: z.string() })
+      );
+      return validation.config?.cache;
+    }
+
+    it('leaves the cache off by default', async () => {
+      expect(await parseCacheOption()).toBeUndefined();
+    });
+
+    it('enables the cache with --cache', async () => {
+      expect(await parseCacheOption('--cache')).toBe(true);
+    });
+
+    it('turns the cache off with --no-cache, even when refreshing', async () => {
+      expect(await parseCacheOption('--no-cache')).toBe(false);
+      vi.clearAllMocks();
+      expect(await parseCacheOption('--no-cache', '--refresh-cache')).toBe(
+        false
+      );
+    });
+  });
 });
@@ -0,0 +1,181 @@
+/**
+ * Tests for the review CLI commands
+ *
+ * Writes stored reviews into a temporary review store and drives the command
+ * implementations directly; `edit` uses a node one-liner as $EDITOR.
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  approveReview,
+  editReview,
+  listReviews,
+  rejectReview,
+  showReview,
+} from '../../src/cli/commands/review-commands.js';
+import type { StoredReview } from '../../src/types/review.js';
+
+const REVIEW_ID = '3f2a9c1e-0000-4000-8000-000000000001';
+
+const TitleSchema = z.object({ title: z.string(), tags: z.array(z.string()) });
+
+function createReview(overrides: Partial<StoredReview> = {}): StoredReview {
+  const now = new Date().toISOString();
+  return {
+    id: REVIEW_ID,
+    pipelineId: 'articles',
+    pipelineName: 'Articles',
+    stageId: 'title',
+    stageName: 'Title',
+    status: 'pending',
+    priority: 'critical',
+    criticality: 'critical',
+    reasons: ['Stage requires review'],
+    createdAt: now,
+    updatedAt: now,
+    value: { title: 'Draft', tags: ['a'] },
+    rawOutput: 'Sure! {"title": "Draft", "tags": ["a"]}',
+    schema: z.toJSONSchema(TitleSchema, { target: 'draft-2020-12' }),
+    stageMetadata: { provider: 'mock', executionTimeMs: 12, attempts: 1 },
+    ...overrides,
+  };
+}
+
+function editorWriting(value: unknown): string {
+  const script = `require('fs').writeFileSync(process.argv[1], ${JSON.stringify(JSON.stringify(value))})`;
+  return `node -e ${JSON.stringify(script)}`;
+}
+
+describe('review CLI commands', () => {
+  let dir: string;
+  let output: string[];
+  const originalEditor = process.env.EDITOR;
+  const originalVisual = process.env.VISUAL;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'persuader-review-cli-'));
+    output = [];
+    vi.spyOn(console, 'log').mockImplementation((...args) => {
+      output.push(args.join(' '));
+    });
+    vi.spyOn(console, 'error').mockImplementation((...args) => {
+      output.push(args.map(String).join(' '));
+    });
+    vi.spyOn(process, 'exit').mockImplementation(code => {
+      throw new Error(`process.exit(${code})`);
+    });
+    delete process.env.VISUAL;
+    await writeReview(createReview());
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    for (const [name, value] of [
+      ['EDITOR', originalEditor],
+      ['VISUAL', originalVisual],
+    ] as const) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function writeReview(review: StoredReview): Promise<void> {
+    await writeFile(
+      path.join(dir, `${review.id}.json`),
+      JSON.stringify(review, null, 2)
+    );
+  }
+
+  async function readReview(): Promise<StoredReview> {
+    return JSON.parse(
+      await readFile(path.join(dir, `${REVIEW_ID}.json`), 'utf-8')
+    ) as StoredReview;
+  }
+
+  it('lists open reviews with a short ID', async () => {
+    await writeReview(
+      createReview({
+        id: '9b000000-0000-4000-8000-000000000002',
+        status: 'completed',
+      })
+    );
+
+    await listReviews({ dir });
+
+    const text = output.join('\n');
+    expect(text).toContain('Reviews (1)');
+    expect(text).toContain('3f2a9c1e');
+    expect(text).toContain('articles/title');
+    expect(text).not.toContain('9b000000');
+  });
+
+  it('shows raw output, validated value and schema', async () => {
+    await showReview('3f2a', { dir, maxLines: '40', color: false });
+
+    const text = output.join('\n');
+    expect(text).toContain('Raw LLM output:');
+    expect(text).toContain('Sure! {"title": "Draft"');
+    expect(text).toContain('Validated value:');
+    expect(text).toContain('Stage schema:');
+    expect(text).toContain('"type": "object"');
+  });
+
+  it('records approvals and rejects decided reviews', async () => {
+    await approveReview('3f2a', {
+      dir,
+      comment: 'Looks right',
+      reviewer: 'kim',
+    });
+
+    const stored = await readReview();
+    expect(stored.status).toBe('completed');
+    expect(stored.submission).toEqual(
+      expect.objectContaining({
+        decision: 'approved',
+        comments: 'Looks right',
+        reviewedBy: 'kim',
+      })
+    );
+
+    await expect(rejectReview('3f2a', { dir })).rejects.toThrow(
+      'process.exit(1)'
+    );
+    expect(output.join('\n')).toContain('already completed');
+  });
+
+  it('submits edits that match the stored schema', async () => {
+    process.env.EDITOR = editorWriting({ title: 'Final', tags: [] });
+
+    await editReview(REVIEW_ID, { dir, reviewer: 'kim' });
+
+    const stored = await readReview();
+    expect(stored.submission?.decision).toBe('requires_modification');
+    expect(stored.submission?.modifications?.[0]).toEqual(
+      expect.objectContaining({
+        path: '$',
+        suggestedValue: { title: 'Final', tags: [] },
+      })
+    );
+  });
+
+  it('refuses edits that break the stored schema', async () => {
+    process.env.EDITOR = editorWriting({ title: 42 });
+
+    await expect(editReview(REVIEW_ID, { dir })).rejects.toThrow(
+      'process.exit(1)'
+    );
+
+    const text = output.join('\n');
+    expect(text).toContain('/title: must be string');
+    expect(text).toContain("(root): must have required property 'tags'");
+    expect((await readReview()).status).toBe('pending');
+  });
+});
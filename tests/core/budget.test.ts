@@ -0,0 +1,261 @@
+/**
+ * Tests for token and cost budgets
+ *
+ * Covers budget checks across call, session and process scopes, and
+ * persuade() runs that stop retrying, switch to the fallback model or skip
+ * session priming, enhancement rounds, judges and self-assessments to stay
+ * within budget.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  checkBudget,
+  createBudgetTracker,
+  getProcessSpend,
+  recordProcessSpend,
+  resetProcessSpend,
+} from '../../src/core/budget.js';
+import { persuade } from '../../src/core/index.js';
+import type { ProviderAdapter } from '../../src/types/index.js';
+
+const schema = z.object({ name: z.string() });
+const usage = { inputTokens: 800, outputTokens: 200, totalTokens: 1000 };
+const noSpend = { tokens: 0, costUsd: 0 };
+
+const createProvider = (...contents: string[]) => {
+  const sendPrompt = vi.fn();
+  for (const content of contents) {
+    sendPrompt.mockResolvedValueOnce({ content, tokenUsage: usage });
+  }
+  return {
+    name: 'mock',
+    supportsSession: false,
+    sendPrompt,
+  } satisfies ProviderAdapter;
+};
+
+afterEach(() => {
+  resetProcessSpend();
+});
+
+describe('checkBudget', () => {
+  it('reports the first scope the projected usage would exceed', () => {
+    const spent = {
+      call: { tokens: 500, costUsd: 0.01 },
+      session: { tokens: 5000, costUsd: 0.1 },
+      process: noSpend,
+    };
+    const projected = { ...usage, estimatedCost: 0.02 };
+
+    expect(
+      checkBudget({ perCall: { maxTokens: 2000 } }, spent, projected)
+    ).toBeUndefined();
+    expect(
+      checkBudget(
+        { perCall: { maxTokens: 2000 }, perSession: { maxCostUsd: 0.1 } },
+        spent,
+        projected
+      )
+    ).toMatchObject({
+      type: 'budget',
+      code: 'budget_exceeded',
+      retryable: false,
+      scope: 'session',
+      limit: 'cost',
+      maximum: 0.1,
+      spent: 0.1,
+      projected: 0.02,
+    });
+  });
+
+  it('tracks call, session and process spend', () => {
+    const tracker = createBudgetTracker(
+      { perCall: { maxTokens: 2500 }, perSession: { maxTokens: 4000 } },
+      { tokens: 2000, costUsd: 0 }
+    );
+
+    tracker.record(usage);
+    expect(tracker.check(usage)).toBeUndefined();
+    tracker.record(usage);
+    expect(tracker.check(usage)).toMatchObject({
+      scope: 'call',
+      spent: 2000,
+    });
+
+    recordProcessSpend({ ...usage, estimatedCost: 0.25 });
+    expect(getProcessSpend()).toEqual({ tokens: 1000, costUsd: 0.25 });
+    expect(
+      createBudgetTracker({ perProcess: { maxCostUsd: 0.25 } }).check({
+        ...usage,
+        estimatedCost: 0.01,
+      })
+    ).toMatchObject({ scope: 'process', limit: 'cost' });
+  });
+});
+
+describe('persuade with a budget', () => {
+  it('stops retrying before an attempt would exceed the call budget', async () => {
+    const provider = createProvider('{"title": "Mug"}', '{"name": "Mug"}');
+
+    const result = await persuade(
+      {
+        schema,
+        input: 'Blue mug',
+        retries: 3,
+        budget: { perCall: { maxTokens: 1500 } },
+      },
+      provider
+    );
+
+    expect(result.ok).toBe(false);
+    expect(result.attempts).toBe(1);
+    expect(provider.sendPrompt).toHaveBeenCalledTimes(1);
+    expect(result.error).toMatchObject({
+      type: 'budget',
+      scope: 'call',
+      limit: 'tokens',
+      maximum: 1500,
+      spent: 1000,
+      projected: 1000,
+      details: { previousError: { type: 'validation' } },
+    });
+    expect(result.metadata.tokenUsage?.totalTokens).toBe(1000);
+  });
+
+  it('switches to the fallback model when it fits the budget', async () => {
+    const provider = createProvider('{"title": "Mug"}', '{"name": "Mug"}');
+
+    const result = await persuade(
+      {
+        schema,
+        input: 'Blue mug',
+        model: 'premium-model',
+        pricing: {
+          'premium-model': {
+            inputPerMillionTokens: 10,
+            outputPerMillionTokens: 50,
+          },
+          'budget-model': {
+            inputPerMillionTokens: 1,
+            outputPerMillionTokens: 5,
+          },
+        },
+        budget: {
+          perCall: { maxCostUsd: 0.025 },
+          fallbackModel: 'budget-model',
+        },
+      },
+      provider
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.metadata.model).toBe('budget-model');
+    expect(provider.sendPrompt.mock.calls[1]?.[2]).toMatchObject({
+      model: 'budget-model',
+    });
+    expect(result.metadata.tokenUsage?.estimatedCost).toBeCloseTo(0.0198);
+  });
+
+  it('skips enhancement rounds that would exceed the budget', async () => {
+    const provider = createProvider('{"name": "Mug"}', '{"name": "Blue mug"}');
+
+    const result = await persuade(
+      {
+        schema,
+        input: 'Blue mug',
+        enhancement: { rounds: 2 },
+        budget: { perCall: { maxTokens: 2500 } },
+      },
+      provider
+    );
+
+    expect(result.ok).toBe(true);
+    expect(provider.sendPrompt).toHaveBeenCalledTimes(2);
+    expect(result.metadata.tokenUsage?.totalTokens).toBe(2000);
+    expect(result.metadata.budgetSkipped).toBeUndefined();
+  });
+
+  it('stops session priming before it would exceed the budget', async () => {
+    const provider = {
+      ...createProvider('Understood.', '{"name": "Mug"}'),
+      supportsSession: true,
+      createSession: vi.fn().mockResolvedValue('session-1'),
+    } satisfies ProviderAdapter;
+
+    const result = await persuade(
+      {
+        schema,
+        input: 'Blue mug',
+        sessionPriming: true,
+        budget: { perCall: { maxTokens: 1200 } },
+      },
+      provider
+    );
+
+    expect(provider.sendPrompt).toHaveBeenCalledTimes(1);
+    expect(result.metadata.priming).toMatchObject({
+      sessionState: 'partially_primed',
+      completedStages: ['schema_introduction'],
+      error: { type: 'budget', scope: 'call', maximum: 1200, spent: 1000 },
+    });
+    // The attempts are checked against the spend of the priming too
+    expect(result.ok).toBe(false);
+    expect(result.attempts).toBe(0);
+    expect(result.error).toMatchObject({
+      type: 'budget',
+      scope: 'call',
+      spent: 1000,
+    });
+  });
+
+  it('keeps the judged value over an enhancement its judges could not check', async () => {
+    const provider = createProvider(
+      '{"name": "Mug"}',
+      '{"pass": true}',
+      '{"name": "Blue ceramic mug"}'
+    );
+
+    const result = await persuade(
+      {
+        schema,
+        input: 'Blue mug',
+        validators: [{ judge: 'The name matches the input' }],
+        enhancement: { rounds: 1 },
+        budget: { perCall: { maxTokens: 3050 } },
+      },
+      provider
+    );
+
+    expect(result).toMatchObject({ ok: true, value: { name: 'Mug' } });
+    expect(provider.sendPrompt).toHaveBeenCalledTimes(3);
+    expect(result.metadata.confidenceSignals?.enhancement).toMatchObject({
+      validRounds: 0,
+      acceptedRounds: 0,
+    });
+    expect(result.metadata.budgetSkipped).toBeUndefined();
+  });
+
+  it('skips and reports judge and self-assessment calls that would exceed the budget', async () => {
+    const provider = createProvider('{"name": "Mug"}');
+
+    const result = await persuade(
+      {
+        schema,
+        input: 'Blue mug',
+        validators: [{ judge: 'The name matches the input' }],
+        confidence: { selfAssessment: true },
+        budget: { perCall: { maxTokens: 1050 } },
+      },
+      provider
+    );
+
+    expect(result).toMatchObject({ ok: true, value: { name: 'Mug' } });
+    expect(provider.sendPrompt).toHaveBeenCalledTimes(1);
+    expect(result.metadata.tokenUsage?.totalTokens).toBe(1000);
+    expect(result.metadata.budgetSkipped).toEqual({
+      judges: ['judge 1'],
+      selfAssessment: true,
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for conditional pipeline execution
+ *
+ * Routes a classified document to one of two extraction stages and checks the
+ * branch evaluation trail recorded on the result.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  runPipeline,
+  validatePipelineDefinition,
+} from '../../../src/core/multi-stage/index.js';
+import type { Pipeline } from '../../../src/types/multi-stage.js';
+
+const ClassificationSchema = z.object({
+  kind: z.enum(['invoice', 'receipt']),
+});
+const InvoiceSchema = z.object({ invoiceNumber: z.string() });
+const ReceiptSchema = z.object({ store: z.string() });
+
+function createRoutingPipeline(
+  overrides: Partial<Pipeline['flow']> = {}
+): Pipeline {
+  return {
+    id: 'document-router',
+    name: 'Document router',
+    flow: {
+      mode: 'conditional',
+      branches: [
+        {
+          name: 'is-invoice',
+          condition: (_input, context) =>
+            (context.state.completedStages.classify?.value as { kind: string })
+              ?.kind === 'invoice',
+          ifTrue: ['invoice'],
+          ifFalse: ['receipt'],
+        },
+      ],
+      ...overrides,
+    },
+    config: { defaultRetryConfig: { maxAttempts: 1 } },
+    stages: [
+      { id: 'classify', name: 'Classify', schema: ClassificationSchema },
+      {
+        id: 'invoice',
+        name: 'Invoice extraction',
+        schema: InvoiceSchema,
+        transformInput: (_previous, context) => context.input,
+      },
+      {
+        id: 'receipt',
+        name: 'Receipt extraction',
+        schema: ReceiptSchema,
+        transformInput: (_previous, context) => context.input,
+      },
+    ],
+  };
+}
+
+describe('runPipeline with conditional flow', () => {
+  const mockProvider = {
+    name: 'mock',
+    supportsSession: false,
+    sendPrompt: vi.fn(),
+  };
+
+  beforeEach(() => {
+    mockProvider.sendPrompt.mockReset();
+  });
+
+  it('runs only the stages selected by the branch', async () => {
+    mockProvider.sendPrompt
+      .mockResolvedValueOnce({ content: JSON.stringify({ kind: 'receipt' }) })
+      .mockResolvedValueOnce({
+        content: JSON.stringify({ store: 'Corner shop' }),
+      });
+
+    const result = await runPipeline(
+      createRoutingPipeline(),
+      'Corner shop, total $4.20',
+      mockProvider
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.value).toEqual({ store: 'Corner shop' });
+    expect(result.stageResults.invoice).toBeUndefined();
+    expect(result.stageResults.receipt?.input).toBe('Corner shop, total $4.20');
+    expect(result.skippedStages).toEqual(['invoice']);
+    expect(mockProvider.sendPrompt).toHaveBeenCalledTimes(2);
+  });
+
+  it('records a branch evaluation trail', async () => {
+    mockProvider.sendPrompt
+      .mockResolvedValueOnce({ content: JSON.stringify({ kind: 'invoice' }) })
+      .mockResolvedValueOnce({
+        content: JSON.stringify({ invoiceNumber: 'INV-1' }),
+      });
+
+    const result = await runPipeline(
+      createRoutingPipeline(),
+      'Invoice INV-1',
+      mockProvider
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.value).toEqual({ invoiceNumber: 'INV-1' });
+    expect(result.skippedStages).toEqual(['receipt']);
+    expect(result.branchEvaluations).toEqual([
+      expect.objectContaining({
+        branchName: 'is-invoice',
+        result: true,
+        context: expect.objectContaining({
+          evaluatedBeforeStage: 'invoice',
+          completedStages: ['classify'],
+          selectedStages: ['invoice'],
+        }),
+      }),
+    ]);
+  });
+
+  it('fails the pipeline when a branch condition throws', async () => {
+    mockProvider.sendPrompt.mockResolvedValueOnce({
+      content: JSON.stringify({ kind: 'invoice' }),
+    });
+
+    const result = await runPipeline(
+      createRoutingPipeline({
+        branches: [
+          {
+            condition: () => {
+              throw new Error('no classification');
+            },
+            ifTrue: ['invoice'],
+          },
+        ],
+      }),
+      'Invoice INV-1',
+      mockProvider
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('branch_condition_failed');
+    expect(result.skippedStages).toEqual(['invoice', 'receipt']);
+  });
+
+  it('rejects branches that reference unknown stages', () => {
+    const validation = validatePipelineDefinition(
+      createRoutingPipeline({
+        branches: [{ condition: () => true, ifTrue: ['missing'] }],
+      })
+    );
+
+    expect(validation.valid).toBe(false);
+    expect(validation.errors[0]).toContain('"missing"');
+  });
+});
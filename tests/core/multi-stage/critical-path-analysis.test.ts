@@ -0,0 +1,142 @@
+/**
+ * Tests for critical path analysis of pipeline runs
+ */
+
+import { describe, expect, it } from 'vitest';
+import { analyzeCriticalPath } from '../../../src/core/multi-stage/critical-path-analysis.js';
+import type { StageResult } from '../../../src/types/multi-stage.js';
+
+const RUN_START = new Date('2025-01-01T00:00:00.000Z').getTime();
+
+function createStageResult(
+  stageId: string,
+  startOffsetMs: number,
+  executionTimeMs: number,
+  overrides: {
+    readonly input?: unknown;
+    readonly retryAttempts?: number;
+    readonly inputTokens?: number;
+    readonly success?: boolean;
+  } = {}
+): StageResult {
+  const startTime = new Date(RUN_START + startOffsetMs);
+  const endTime = new Date(RUN_START + startOffsetMs + executionTimeMs);
+  const retryAttempts = overrides.retryAttempts ?? 0;
+
+  return {
+    stageId,
+    success: overrides.success ?? true,
+    value: { stageId },
+    startTime,
+    endTime,
+    input: overrides.input ?? `input for ${stageId}`,
+    metadata: {
+      executionTimeMs,
+      startedAt: startTime,
+      completedAt: endTime,
+      provider: 'mock',
+      ...(overrides.inputTokens !== undefined && {
+        tokenUsage: {
+          inputTokens: overrides.inputTokens,
+          outputTokens: 10,
+          totalTokens: overrides.inputTokens + 10,
+        },
+      }),
+      stageMetrics: {
+        executionTimeMs,
+        retryAttempts,
+        validationAttempts: retryAttempts + 1,
+      },
+    },
+  };
+}
+
+describe('analyzeCriticalPath', () => {
+  it('treats a sequential run as one chain and flags slow stages', () => {
+    const analysis = analyzeCriticalPath({
+      extract: createStageResult('extract', 0, 100),
+      enrich: createStageResult('enrich', 100, 900),
+      summarise: createStageResult('summarise', 1000, 100),
+    });
+
+    expect(analysis.criticalPathStages).toEqual([
+      'extract',
+      'enrich',
+      'summarise',
+    ]);
+    expect(analysis.criticalPathTimeMs).toBe(1100);
+    expect(analysis.bottleneckStages).toEqual([
+      expect.objectContaining({
+        stageId: 'enrich',
+        bottleneckReason: 'long_execution',
+        criticalPathImpactMs: 900,
+      }),
+    ]);
+  });
+
+  it('reports retries and token-heavy prompts', () => {
+    const analysis = analyzeCriticalPath({
+      a: createStageResult('a', 0, 100, { inputTokens: 100 }),
+      b: createStageResult('b', 100, 100, {
+        retryAttempts: 2,
+        inputTokens: 1000,
+      }),
+      c: createStageResult('c', 200, 100, { inputTokens: 100 }),
+    });
+
+    const [bottleneck] = analysis.bottleneckStages;
+    expect(bottleneck?.stageId).toBe('b');
+    expect(bottleneck?.bottleneckReason).toBe('high_failure_rate');
+    expect(bottleneck?.optimizationSuggestions).toHaveLength(2);
+    expect(bottleneck?.optimizationSuggestions[1]).toContain(
+      '1000 input tokens'
+    );
+  });
+
+  it('suggests parallelizing sequential stages that received the same input', () => {
+    const analysis = analyzeCriticalPath({
+      fetch: createStageResult('fetch', 0, 100),
+      people: createStageResult('people', 100, 300, { input: 'doc' }),
+      places: createStageResult('places', 400, 200, { input: 'doc' }),
+    });
+
+    expect(analysis.parallelizationOpportunities).toEqual([
+      expect.objectContaining({
+        stageIds: ['people', 'places'],
+        potentialTimeSavingsMs: 200,
+        currentMode: 'sequential',
+        suggestedMode: 'parallel',
+      }),
+    ]);
+    expect(analysis.potentialTimeSavingsMs).toBe(200);
+  });
+
+  it('follows the slowest branch of a DAG run', () => {
+    const analysis = analyzeCriticalPath(
+      {
+        source: createStageResult('source', 0, 100),
+        fast: createStageResult('fast', 100, 50),
+        slow: createStageResult('slow', 150, 400),
+        merge: createStageResult('merge', 550, 100),
+      },
+      {
+        stageOrder: ['source', 'fast', 'slow', 'merge'],
+        dependencies: {
+          fast: ['source'],
+          slow: ['source'],
+          merge: ['fast', 'slow'],
+        },
+      }
+    );
+
+    expect(analysis.criticalPathStages).toEqual(['source', 'slow', 'merge']);
+    expect(analysis.criticalPathTimeMs).toBe(600);
+    expect(analysis.parallelizationOpportunities).toEqual([
+      expect.objectContaining({
+        stageIds: ['fast', 'slow'],
+        currentMode: 'partially_parallel',
+        potentialTimeSavingsMs: 50,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for DAG pipeline execution
+ *
+ * Runs DAG pipelines through runPipeline with a mock provider that answers
+ * based on the stage context, recording how many prompts are in flight.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { runPipeline } from '../../../src/core/multi-stage/index.js';
+import type { Pipeline } from '../../../src/types/multi-stage.js';
+
+const schema = z.object({ stage: z.string() });
+
+function createDAGPipeline(
+  stageIds: string[],
+  dependencies: Record<string, string[]>,
+  flow: Partial<Pipeline['flow']> = {},
+  config: Pipeline['config'] = {}
+): Pipeline {
+  return {
+    id: 'dag-pipeline',
+    name: 'DAG pipeline',
+    flow: { mode: 'dag', dependencies, ...flow },
+    config: { defaultRetryConfig: { maxAttempts: 1 }, ...config },
+    stages: stageIds.map(id => ({
+      id,
+      name: id,
+      schema,
+      context: `STAGE:${id}`,
+    })),
+  };
+}
+
+describe('runPipeline with DAG flow', () => {
+  let inFlight = 0;
+  let peakInFlight = 0;
+  const failingStages = new Set<string>();
+
+  const mockProvider = {
+    name: 'mock',
+    supportsSession: false,
+    sendPrompt: vi.fn(async (_sessionId: string | null, prompt: string) => {
+      const stage = /STAGE:(\w+)/.exec(prompt)?.[1] ?? 'unknown';
+      inFlight++;
+      peakInFlight = Math.max(peakInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      inFlight--;
+      if (failingStages.has(stage)) {
+        throw new Error(`Stage ${stage} unavailable`);
+      }
+      return { content: JSON.stringify({ stage }) };
+    }),
+  };
+
+  beforeEach(() => {
+    inFlight = 0;
+    peakInFlight = 0;
+    failingStages.clear();
+    mockProvider.sendPrompt.mockClear();
+  });
+
+  it('fans out and merges outputs keyed by dependency', async () => {
+    const result = await runPipeline(
+      createDAGPipeline(['source', 'left', 'right', 'merge'], {
+        left: ['source'],
+        right: ['source'],
+        merge: ['left', 'right'],
+      }),
+      'input',
+      mockProvider
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.value).toEqual({ stage: 'merge' });
+    expect(result.stageResults.left?.input).toEqual({ stage: 'source' });
+    expect(result.stageResults.merge?.input).toEqual({
+      left: { stage: 'left' },
+      right: { stage: 'right' },
+    });
+    expect(peakInFlight).toBe(2);
+  });
+
+  it('limits concurrency to maxConcurrency', async () => {
+    const result = await runPipeline(
+      createDAGPipeline(['a', 'b', 'c', 'd'], {}, { maxConcurrency: 2 }),
+      'input',
+      mockProvider
+    );
+
+    expect(result.success).toBe(true);
+    expect(peakInFlight).toBe(2);
+    expect(result.value).toEqual({
+      a: { stage: 'a' },
+      b: { stage: 'b' },
+      c: { stage: 'c' },
+      d: { stage: 'd' },
+    });
+  });
+
+  it('rejects cycles before calling the provider', async () => {
+    const result = await runPipeline(
+      createDAGPipeline(['a', 'b'], { a: ['b'], b: ['a'] }),
+      'input',
+      mockProvider
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('invalid_dag');
+    expect(result.error?.context?.validationErrors).toEqual([
+      expect.objectContaining({ type: 'circular_dependency' }),
+    ]);
+    expect(mockProvider.sendPrompt).not.toHaveBeenCalled();
+  });
+
+  it('skips dependents of a failed stage and keeps independent branches when configured', async () => {
+    failingStages.add('left');
+
+    const result = await runPipeline(
+      createDAGPipeline(
+        ['left', 'right', 'after-left', 'after-right'],
+        { 'after-left': ['left'], 'after-right': ['right'] },
+        {},
+        { stopOnFirstError: false }
+      ),
+      'input',
+      mockProvider
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.failedStages).toEqual(['left']);
+    expect(result.stageResults['after-right']?.success).toBe(true);
+    expect(result.skippedStages).toEqual(['after-left']);
+  });
+
+  it('starts no new stages after a failure by default', async () => {
+    failingStages.add('first');
+
+    const result = await runPipeline(
+      createDAGPipeline(['first', 'second'], { second: ['first'] }),
+      'input',
+      mockProvider
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.skippedStages).toEqual(['second']);
+    expect(mockProvider.sendPrompt).toHaveBeenCalledTimes(1);
+  });
+});
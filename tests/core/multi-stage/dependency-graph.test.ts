@@ -0,0 +1,148 @@
+/**
+ * Tests for DAG dependency graph utilities
+ */
+
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import {
+  buildDependencyGraph,
+  findCircularDependencies,
+  findLongestPath,
+  getTopologicalOrder,
+  validateDAG,
+} from '../../../src/core/multi-stage/dependency-graph.js';
+import type { Pipeline } from '../../../src/types/multi-stage.js';
+
+const schema = z.object({ value: z.string() });
+
+function createDAGPipeline(
+  stageIds: string[],
+  dependencies: Record<string, string[]>
+): Pipeline {
+  return {
+    id: 'dag',
+    name: 'DAG pipeline',
+    flow: { mode: 'dag', dependencies },
+    config: {},
+    stages: stageIds.map(id => ({ id, name: id, schema })),
+  };
+}
+
+describe('buildDependencyGraph', () => {
+  it('links dependencies and dependents', () => {
+    const graph = buildDependencyGraph(
+      createDAGPipeline(['a', 'b', 'c', 'd'], {
+        b: ['a'],
+        c: ['a'],
+        d: ['b', 'c'],
+      })
+    );
+
+    expect(graph.nodes.a?.dependents).toEqual(['b', 'c']);
+    expect(graph.nodes.d?.dependencies).toEqual(['b', 'c']);
+    expect(graph.nodes.a?.status).toBe('ready');
+    expect(graph.nodes.d?.status).toBe('pending');
+    expect(graph.metadata.edgeCount).toBe(4);
+    expect(graph.metadata.maxDepth).toBe(3);
+  });
+});
+
+describe('getTopologicalOrder', () => {
+  it('orders stages after their dependencies', () => {
+    const graph = buildDependencyGraph(
+      createDAGPipeline(['report', 'fetch', 'parse'], {
+        report: ['parse'],
+        parse: ['fetch'],
+      })
+    );
+
+    expect(getTopologicalOrder(graph)).toEqual(['fetch', 'parse', 'report']);
+  });
+});
+
+describe('findLongestPath', () => {
+  it('follows the heaviest chain', () => {
+    const graph = buildDependencyGraph(
+      createDAGPipeline(['a', 'fast', 'slow', 'join'], {
+        fast: ['a'],
+        slow: ['a'],
+        join: ['fast', 'slow'],
+      })
+    );
+    const weights: Record<string, number> = {
+      a: 1,
+      fast: 1,
+      slow: 10,
+      join: 1,
+    };
+
+    expect(findLongestPath(graph, id => weights[id] ?? 0)).toEqual({
+      path: ['a', 'slow', 'join'],
+      totalWeight: 12,
+    });
+  });
+});
+
+describe('validateDAG', () => {
+  it('accepts an acyclic graph', () => {
+    const result = validateDAG(createDAGPipeline(['a', 'b'], { b: ['a'] }));
+
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('reports cycles as circular_dependency errors', () => {
+    const pipeline = createDAGPipeline(['a', 'b', 'c'], {
+      a: ['c'],
+      b: ['a'],
+      c: ['b'],
+    });
+    const result = validateDAG(pipeline);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]?.type).toBe('circular_dependency');
+    expect([...(result.errors[0]?.affectedStages ?? [])].sort()).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+    expect(result.suggestedFixes.length).toBeGreaterThan(0);
+    expect(
+      findCircularDependencies(buildDependencyGraph(pipeline))
+    ).toHaveLength(1);
+  });
+
+  it('reports self dependencies', () => {
+    const result = validateDAG(createDAGPipeline(['a'], { a: ['a'] }));
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]?.message).toContain('a -> a');
+  });
+
+  it('reports dependencies on unknown stages', () => {
+    const result = validateDAG(
+      createDAGPipeline(['a'], { a: ['missing'], ghost: ['a'] })
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(error => error.type)).toEqual([
+      'missing_stage',
+      'missing_stage',
+    ]);
+  });
+
+  it('warns about redundant dependencies', () => {
+    const result = validateDAG(
+      createDAGPipeline(['a', 'b', 'c'], { b: ['a'], c: ['a', 'b'] })
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({
+        type: 'redundant_dependency',
+        affectedStages: ['a', 'c'],
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Tests for stage-level and pipeline-level error recovery
+ *
+ * Uses a two-stage extraction pipeline whose first stage fails validation, and
+ * checks each errorRecovery strategy plus prioritised pipeline strategies.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  runPipeline,
+  validatePipelineDefinition,
+} from '../../../src/core/multi-stage/index.js';
+import type {
+  Pipeline,
+  PipelineRecoveryStrategy,
+  PipelineStage,
+  StageErrorRecovery,
+} from '../../../src/types/multi-stage.js';
+
+const TitleSchema = z.object({ title: z.string() });
+const SummarySchema = z.object({ summary: z.string() });
+
+const INVALID = { content: JSON.stringify({ wrong: true }) };
+
+function createPipeline(
+  errorRecovery?: StageErrorRecovery<unknown, unknown>,
+  overrides: Partial<Pipeline> = {}
+): Pipeline {
+  const titleStage: PipelineStage = {
+    id: 'title',
+    name: 'Title',
+    schema: TitleSchema,
+    ...(errorRecovery && { errorRecovery }),
+  };
+
+  return {
+    id: 'recovery-pipeline',
+    name: 'Recovery pipeline',
+    flow: { mode: 'sequential' },
+    config: { defaultRetryConfig: { maxAttempts: 1 } },
+    stages: [
+      titleStage,
+      {
+        id: 'summary',
+        name: 'Summary',
+        schema: SummarySchema,
+        transformInput: previous => JSON.stringify(previous),
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('stage error recovery', () => {
+  const mockProvider = {
+    name: 'mock',
+    supportsSession: false,
+    sendPrompt: vi.fn(),
+  };
+
+  beforeEach(() => {
+    mockProvider.sendPrompt.mockReset();
+  });
+
+  it('skips a failed stage and passes its input on', async () => {
+    mockProvider.sendPrompt
+      .mockResolvedValueOnce(INVALID)
+      .mockResolvedValueOnce({ content: JSON.stringify({ summary: 'ok' }) });
+
+    const result = await runPipeline(
+      createPipeline({ strategy: 'skip' }),
+      'raw document',
+      mockProvider
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.skippedStages).toEqual(['title']);
+    expect(result.stageResults.title?.recovery).toEqual(
+      expect.objectContaining({ recovered: true, source: 'skip' })
+    );
+    expect(result.stageResults.summary?.input).toBe('"raw document"');
+    expect(result.metadata.failedStages).toBe(0);
+  });
+
+  it('uses a fallback value that matches the stage schema', async () => {
+    mockProvider.sendPrompt
+      .mockResolvedValueOnce(INVALID)
+      .mockResolvedValueOnce({ content: JSON.stringify({ summary: 'ok' }) });
+
+    const result = await runPipeline(
+      createPipeline({
+        strategy: 'fallback',
+        fallbackValue: { title: 'Untitled' },
+      }),
+      'raw document',
+      mockProvider
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.stageResults.title?.value).toEqual({ title: 'Untitled' });
+    expect(result.stageResults.title?.recovery?.source).toBe('fallback');
+    expect(result.stageResults.summary?.input).toBe('{"title":"Untitled"}');
+  });
+
+  it('rejects fallback values that do not match the stage schema', () => {
+    const validation = validatePipelineDefinition(
+      createPipeline({ strategy: 'fallback', fallbackValue: { title: 42 } })
+    );
+
+    expect(validation.valid).toBe(false);
+    expect(validation.errors[0]).toContain('fallbackValue does not match');
+  });
+
+  it('re-runs the stage before falling back', async () => {
+    mockProvider.sendPrompt
+      .mockResolvedValueOnce(INVALID)
+      .mockResolvedValueOnce({ content: JSON.stringify({ title: 'Retried' }) })
+      .mockResolvedValueOnce({ content: JSON.stringify({ summary: 'ok' }) });
+
+    const result = await runPipeline(
+      createPipeline({
+        strategy: 'retry_with_fallback',
+        fallbackValue: { title: 'Untitled' },
+        maxRecoveryAttempts: 2,
+      }),
+      'raw document',
+      mockProvider
+    );
+
+    const title = result.stageResults.title;
+    expect(result.success).toBe(true);
+    expect(title?.value).toEqual({ title: 'Retried' });
+    expect(title?.recovery).toEqual(
+      expect.objectContaining({ source: 'retry', attempts: 1 })
+    );
+    expect(title?.metadata.stageMetrics.validationAttempts).toBe(2);
+  });
+
+  it('falls back once recovery attempts are exhausted', async () => {
+    mockProvider.sendPrompt
+      .mockResolvedValueOnce(INVALID)
+      .mockResolvedValueOnce(INVALID)
+      .mockResolvedValueOnce({ content: JSON.stringify({ summary: 'ok' }) });
+
+    const result = await runPipeline(
+      createPipeline({
+        strategy: 'retry_with_fallback',
+        fallbackValue: { title: 'Untitled' },
+      }),
+      'raw document',
+      mockProvider
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.stageResults.title?.value).toEqual({ title: 'Untitled' });
+    expect(result.stageResults.title?.recovery).toEqual(
+      expect.objectContaining({ source: 'fallback', attempts: 1 })
+    );
+  });
+
+  it('validates values returned by customRecovery', async () => {
+    mockProvider.sendPrompt
+      .mockResolvedValueOnce(INVALID)
+      .mockResolvedValueOnce({ content: JSON.stringify({ summary: 'ok' }) });
+    const customRecovery = vi
+      .fn()
+      .mockResolvedValueOnce({ title: 7 })
+      .mockResolvedValueOnce({ title: 'From input' });
+
+    const result = await runPipeline(
+      createPipeline({
+        strategy: 'custom',
+        customRecovery,
+        maxRecoveryAttempts: 2,
+      }),
+      'raw document',
+      mockProvider
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.stageResults.title?.value).toEqual({ title: 'From input' });
+    expect(customRecovery).toHaveBeenCalledTimes(2);
+    expect(customRecovery.mock.calls[0]?.[1]).toBe('raw document');
+  });
+
+  it('fails the stage when customRecovery returns null', async () => {
+    mockProvider.sendPrompt.mockResolvedValueOnce(INVALID);
+
+    const result = await runPipeline(
+      createPipeline({ strategy: 'custom', customRecovery: async () => null }),
+      'raw document',
+      mockProvider
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('stage_failed');
+    expect(result.stageResults.title?.recovery).toEqual(
+      expect.objectContaining({
+        recovered: false,
+        failureReason: 'customRecovery returned null',
+      })
+    );
+  });
+
+  it('stops after recovery when continueOnRecovery is false', async () => {
+    mockProvider.sendPrompt.mockResolvedValueOnce(INVALID);
+
+    const result = await runPipeline(
+      createPipeline({
+        strategy: 'fallback',
+        fallbackValue: { title: 'Untitled' },
+        continueOnRecovery: false,
+      }),
+      'raw document',
+      mockProvider
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('stopped_after_recovery');
+    expect(result.skippedStages).toEqual(['summary']);
+    expect(mockProvider.sendPrompt).toHaveBeenCalledTimes(1);
+  });
+
+  it('only recovers errors listed in recoverableErrors', async () => {
+    mockProvider.sendPrompt.mockResolvedValueOnce(INVALID);
+
+    const result = await runPipeline(
+      createPipeline(
+        { strategy: 'skip' },
+        {
+          errorHandling: {
+            strategy: 'continue_on_error',
+            recoverableErrors: ['provider'],
+          },
+        }
+      ),
+      'raw document',
+      mockProvider
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.stageResults.title?.recovery).toBeUndefined();
+  });
+});
+
+describe('pipeline error recovery', () => {
+  const mockProvider = {
+    name: 'mock',
+    supportsSession: false,
+    sendPrompt: vi.fn(),
+  };
+
+  beforeEach(() => {
+    mockProvider.sendPrompt.mockReset();
+  });
+
+  it('applies the highest-priority matching strategy first', async () => {
+    mockProvider.sendPrompt.mockResolvedValue(INVALID);
+    const applied: string[] = [];
+    const strategy = (
+      name: string,
+      priority: number,
+      success: boolean
+    ): PipelineRecoveryStrategy => ({
+      name,
+      priority,
+      condition: error => error.code === 'stage_failed',
+      recover: async () => {
+        applied.push(name);
+        return { success };
+      },
+    });
+
+    const result = await runPipeline(
+      createPipeline(undefined, {
+        errorHandling: {
+          strategy: 'adaptive',
+          recoveryStrategies: [
+            strategy('low', 1, true),
+            strategy('high', 10, false),
+          ],
+        },
+      }),
+      'raw document',
+      mockProvider
+    );
+
+    expect(applied).toEqual(['high', 'low']);
+    expect(result.success).toBe(true);
+    expect(result.error).toBeUndefined();
+    expect(result.recoveryAttempts).toEqual([
+      expect.objectContaining({ strategy: 'high', success: false }),
+      expect.objectContaining({
+        strategy: 'low',
+        success: true,
+        recoveredStages: ['title'],
+      }),
+    ]);
+  });
+
+  it('re-runs a modified pipeline returned by a strategy', async () => {
+    mockProvider.sendPrompt
+      .mockResolvedValueOnce(INVALID)
+      .mockResolvedValueOnce({ content: JSON.stringify({ summary: 'ok' }) });
+    const pipeline = createPipeline(undefined, {
+      errorHandling: {
+        strategy: 'adaptive',
+        recoveryStrategies: [
+          {
+            name: 'drop-title',
+            condition: () => true,
+            recover: async () => ({
+              success: true,
+              modifiedPipeline: {
+                ...pipeline,
+                stages: pipeline.stages.slice(1),
+              },
+            }),
+          },
+        ],
+      },
+    });
+
+    const result = await runPipeline(pipeline, 'raw document', mockProvider);
+
+    expect(result.success).toBe(true);
+    expect(result.value).toEqual({ summary: 'ok' });
+    expect(result.recoveryAttempts).toEqual([
+      expect.objectContaining({ strategy: 'drop-title', reran: true }),
+    ]);
+  });
+
+  it('does not run strategies when pipeline recovery is disabled', async () => {
+    mockProvider.sendPrompt.mockResolvedValue(INVALID);
+    const recover = vi.fn();
+
+    const result = await runPipeline(
+      createPipeline(undefined, {
+        errorHandling: {
+          strategy: 'fail_fast',
+          enablePipelineRecovery: false,
+          recoveryStrategies: [
+            { name: 'never', condition: () => true, recover },
+          ],
+        },
+      }),
+      'raw document',
+      mockProvider
+    );
+
+    expect(result.success).toBe(false);
+    expect(recover).not.toHaveBeenCalled();
+    expect(result.recoveryAttempts).toBeUndefined();
+  });
+});
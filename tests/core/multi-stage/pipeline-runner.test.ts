@@ -0,0 +1,211 @@
+/**
+ * Tests for the multi-stage pipeline runner
+ *
+ * Runs pipelines against the real retry engine with a mock provider to verify
+ * output threading, conditions, failure handling and definition validation.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  runPipeline,
+  validatePipelineDefinition,
+} from '../../../src/core/multi-stage/index.js';
+import type { Pipeline } from '../../../src/types/multi-stage.js';
+
+const ExtractSchema = z.object({ title: z.string() });
+const SummarySchema = z.object({ summary: z.string() });
+
+function createPipeline(overrides: Partial<Pipeline> = {}): Pipeline {
+  return {
+    id: 'doc-pipeline',
+    name: 'Document pipeline',
+    flow: { mode: 'sequential' },
+    config: { defaultRetryConfig: { maxAttempts: 1 } },
+    stages: [
+      { id: 'extract', name: 'Extract', schema: ExtractSchema },
+      {
+        id: 'summarise',
+        name: 'Summarise',
+        schema: SummarySchema,
+        transformInput: (previous: unknown) =>
+          `Summarise: ${(previous as { title: string }).title}`,
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('runPipeline', () => {
+  const mockProvider = {
+    name: 'mock',
+    supportsSession: false,
+    sendPrompt: vi.fn(),
+  };
+
+  beforeEach(() => {
+    mockProvider.sendPrompt.mockReset();
+  });
+
+  it('threads each stage output into the next stage', async () => {
+    mockProvider.sendPrompt
+      .mockResolvedValueOnce({
+        content: JSON.stringify({ title: 'Quarterly report' }),
+        tokenUsage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+      })
+      .mockResolvedValueOnce({
+        content: JSON.stringify({ summary: 'Revenue went up' }),
+        tokenUsage: { inputTokens: 20, outputTokens: 5, totalTokens: 25 },
+      });
+
+    const result = await runPipeline(
+      createPipeline(),
+      'raw document',
+      mockProvider
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.value).toEqual({ summary: 'Revenue went up' });
+    expect(result.stageResults.extract?.value).toEqual({
+      title: 'Quarterly report',
+    });
+    expect(result.stageResults.summarise?.input).toBe(
+      'Summarise: Quarterly report'
+    );
+    expect(mockProvider.sendPrompt.mock.calls[1]?.[1]).toContain(
+      'Summarise: Quarterly report'
+    );
+    expect(result.metadata.completedStages).toBe(2);
+    // Priced at the default model, which every stage was sent
+    expect(result.metadata.totalTokenUsage).toEqual({
+      inputTokens: 30,
+      outputTokens: 10,
+      totalTokens: 40,
+      estimatedCost: 0.000064,
+    });
+    expect(result.metadata.criticalPath?.criticalPathStages).toEqual([
+      'extract',
+      'summarise',
+    ]);
+  });
+
+  it('skips stages whose condition is not met', async () => {
+    mockProvider.sendPrompt.mockResolvedValueOnce({
+      content: JSON.stringify({ title: 'Draft' }),
+    });
+
+    const pipeline = createPipeline();
+    const result = await runPipeline(
+      {
+        ...pipeline,
+        stages: [
+          pipeline.stages[0]!,
+          { ...pipeline.stages[1]!, condition: () => false },
+        ],
+      },
+      'raw document',
+      mockProvider
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.value).toEqual({ title: 'Draft' });
+    expect(result.skippedStages).toEqual(['summarise']);
+    expect(mockProvider.sendPrompt).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops at the first failed stage by default', async () => {
+    mockProvider.sendPrompt.mockRejectedValue(new Error('Provider down'));
+
+    const result = await runPipeline(
+      createPipeline(),
+      'raw document',
+      mockProvider
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('stage_failed');
+    expect(result.error?.failedStages).toEqual(['extract']);
+    expect(result.stageResults.extract?.success).toBe(false);
+    expect(result.stageResults.summarise).toBeUndefined();
+    expect(result.skippedStages).toEqual(['summarise']);
+  });
+
+  it('reports an invalid stage transform as a stage failure', async () => {
+    mockProvider.sendPrompt.mockResolvedValueOnce({
+      content: JSON.stringify({ title: 'Report' }),
+    });
+
+    const pipeline = createPipeline();
+    const result = await runPipeline(
+      {
+        ...pipeline,
+        stages: [
+          pipeline.stages[0]!,
+          {
+            ...pipeline.stages[1]!,
+            transformInput: () => {
+              throw new Error('bad transform');
+            },
+          },
+        ],
+      },
+      'raw document',
+      mockProvider
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.stageResults.summarise?.error?.code).toBe(
+      'stage_input_transform_failed'
+    );
+  });
+
+  it('rejects input that does not match the input schema', async () => {
+    const result = await runPipeline(
+      createPipeline({ inputSchema: z.object({ text: z.string() }) }),
+      'not an object',
+      mockProvider
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('invalid_pipeline_input');
+    expect(mockProvider.sendPrompt).not.toHaveBeenCalled();
+  });
+
+  it('validates without executing stages in dry run mode', async () => {
+    const result = await runPipeline(
+      createPipeline(),
+      'raw document',
+      mockProvider,
+      {
+        dryRun: true,
+      }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.stageResults).toEqual({});
+    expect(mockProvider.sendPrompt).not.toHaveBeenCalled();
+  });
+});
+
+describe('validatePipelineDefinition', () => {
+  it('accepts a valid sequential pipeline', () => {
+    expect(validatePipelineDefinition(createPipeline())).toEqual({
+      valid: true,
+      errors: [],
+    });
+  });
+
+  it('rejects empty pipelines and duplicate stage ids', () => {
+    expect(
+      validatePipelineDefinition(createPipeline({ stages: [] })).valid
+    ).toBe(false);
+
+    const duplicate = createPipeline();
+    const validation = validatePipelineDefinition({
+      ...duplicate,
+      stages: [duplicate.stages[0]!, duplicate.stages[0]!],
+    });
+    expect(validation.valid).toBe(false);
+    expect(validation.errors[0]).toContain('"extract"');
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Tests for model pricing
+ *
+ * Covers key matching and precedence, process-wide and per-call overrides,
+ * cost estimation, keeping costs reported by providers, and the cost
+ * persuade() reports for a run.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { persuade } from '../../src/core/index.js';
+import {
+  estimateCost,
+  priceTokenUsage,
+  resolveModelPricing,
+  setModelPricing,
+} from '../../src/core/pricing.js';
+import type { ProviderAdapter } from '../../src/types/index.js';
+
+const usage = { inputTokens: 1000, outputTokens: 500, totalTokens: 1500 };
+
+afterEach(() => {
+  setModelPricing(undefined);
+});
+
+describe('resolveModelPricing', () => {
+  it('prefers the longest matching key', () => {
+    expect(resolveModelPricing('openai', 'gpt-4o-mini-2024-07-18')).toEqual({
+      inputPerMillionTokens: 0.15,
+      outputPerMillionTokens: 0.6,
+    });
+    expect(resolveModelPricing('openai', 'gpt-4o-2024-08-06')).toEqual({
+      inputPerMillionTokens: 2.5,
+      outputPerMillionTokens: 10,
+    });
+  });
+
+  it('prefers provider-qualified keys and matches wildcards', () => {
+    expect(resolveModelPricing('claude-cli', 'sonnet')).toEqual({
+      inputPerMillionTokens: 3,
+      outputPerMillionTokens: 15,
+    });
+    expect(resolveModelPricing('ollama', 'llama3.2')).toEqual({
+      inputPerMillionTokens: 0,
+      outputPerMillionTokens: 0,
+    });
+    expect(resolveModelPricing('openai', 'sonnet')).toBeUndefined();
+    expect(resolveModelPricing('openai', undefined)).toBeUndefined();
+  });
+
+  it('applies call overrides over process-wide prices over built-ins', () => {
+    setModelPricing({
+      'gpt-4o': { inputPerMillionTokens: 2, outputPerMillionTokens: 8 },
+    });
+
+    expect(resolveModelPricing('openai', 'gpt-4o')).toEqual({
+      inputPerMillionTokens: 2,
+      outputPerMillionTokens: 8,
+    });
+    expect(
+      resolveModelPricing('openai', 'gpt-4o', {
+        'openai/gpt-4o': {
+          inputPerMillionTokens: 1,
+          outputPerMillionTokens: 4,
+        },
+      })
+    ).toEqual({ inputPerMillionTokens: 1, outputPerMillionTokens: 4 });
+  });
+});
+
+describe('priceTokenUsage', () => {
+  it('estimates the cost of the usage', () => {
+    expect(
+      estimateCost(usage, {
+        inputPerMillionTokens: 3,
+        outputPerMillionTokens: 15,
+      })
+    ).toBe(0.0105);
+    expect(
+      priceTokenUsage(usage, 'anthropic-sdk', 'claude-sonnet-4-5')
+    ).toEqual({ ...usage, estimatedCost: 0.0105 });
+  });
+
+  it('keeps costs reported by the provider and unpriced usage as is', () => {
+    const reported = { ...usage, estimatedCost: 0.5 };
+
+    expect(priceTokenUsage(reported, 'claude-cli', 'sonnet')).toBe(reported);
+    expect(priceTokenUsage(usage, 'custom', 'in-house-model')).toBe(usage);
+  });
+});
+
+describe('persuade cost reporting', () => {
+  it('adds up the estimated cost of every attempt', async () => {
+    const provider: ProviderAdapter = {
+      name: 'openai',
+      supportsSession: false,
+      sendPrompt: vi
+        .fn()
+        .mockResolvedValueOnce({
+          content: '{"title": "Mug"}',
+          tokenUsage: usage,
+        })
+        .mockResolvedValueOnce({
+          content: '{"name": "Mug"}',
+          tokenUsage: usage,
+        }),
+    };
+
+    const result = await persuade(
+      {
+        schema: z.object({ name: z.string() }),
+        input: 'Blue mug',
+        model: 'gpt-4o',
+        pricing: {
+          'gpt-4o': { inputPerMillionTokens: 2, outputPerMillionTokens: 8 },
+        },
+      },
+      provider
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.metadata.tokenUsage).toEqual({
+      inputTokens: 2000,
+      outputTokens: 1000,
+      totalTokens: 3000,
+      estimatedCost: 0.012,
+    });
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Tests for prompt templates
+ *
+ * Covers template rendering, resolution of named sets and overrides,
+ * registered and process-wide default sets, prompts built from the
+ * built-in sets, and persuade() runs with custom templates.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { persuade } from '../../src/core/index.js';
+import { augmentPromptWithErrors, buildPrompt } from '../../src/core/prompt.js';
+import {
+  BUILT_IN_PROMPT_TEMPLATES,
+  findUnknownPlaceholders,
+  getUrgencyPrefix,
+  registerPromptTemplates,
+  renderPromptTemplate,
+  resolvePromptTemplates,
+  setDefaultPromptTemplates,
+} from '../../src/core/prompt-templates.js';
+import { generateUrgencyPrefix } from '../../src/core/validation/feedback-formatter.js';
+import type {
+  PromptTemplateVariables,
+  ProviderAdapter,
+} from '../../src/types/index.js';
+
+const variables: PromptTemplateVariables = {
+  schema: '',
+  context: 'Retail catalog',
+  lens: '',
+  input: 'Blue mug, $12',
+  example: '',
+  attempt: 1,
+  urgency: '',
+  feedback: '',
+};
+
+const schema = z.object({ name: z.string(), price: z.number() });
+
+afterEach(() => {
+  setDefaultPromptTemplates(undefined);
+});
+
+describe('renderPromptTemplate', () => {
+  it('replaces placeholders and keeps unknown ones', () => {
+    expect(
+      renderPromptTemplate('{{input}} / {{context}} / {{other}}', variables)
+    ).toBe('Blue mug, $12 / Retail catalog / {{other}}');
+  });
+
+  it('renders sections by whether their variable is set', () => {
+    const template =
+      '{{#context}}Context: {{context}}{{/context}}{{^lens}} No lens.{{/lens}}{{#attempt}} Retry {{attempt}}{{/attempt}}';
+
+    expect(renderPromptTemplate(template, variables)).toBe(
+      'Context: Retail catalog No lens.'
+    );
+    expect(
+      renderPromptTemplate(template, {
+        ...variables,
+        lens: 'Price',
+        attempt: 2,
+      })
+    ).toBe('Context: Retail catalog Retry 2');
+  });
+
+  it('leaves template syntax in variable values alone', () => {
+    expect(
+      renderPromptTemplate('{{input}}', {
+        ...variables,
+        input: '{{context}} {{#lens}}x{{/lens}}',
+      })
+    ).toBe('{{context}} {{#lens}}x{{/lens}}');
+  });
+
+  it('calls function templates with the variables', () => {
+    expect(
+      renderPromptTemplate(vars => vars.input.toUpperCase(), variables)
+    ).toBe('BLUE MUG, $12');
+  });
+});
+
+describe('resolvePromptTemplates', () => {
+  it('resolves built-in sets and overrides', () => {
+    expect(resolvePromptTemplates()).toBe(BUILT_IN_PROMPT_TEMPLATES.default);
+    expect(resolvePromptTemplates('terse')).toBe(
+      BUILT_IN_PROMPT_TEMPLATES.terse
+    );
+
+    const templates = resolvePromptTemplates({
+      extends: 'spanish',
+      user: 'Entrada: {{input}}',
+    });
+    expect(templates.user).toBe('Entrada: {{input}}');
+    expect(templates.retry).toBe(BUILT_IN_PROMPT_TEMPLATES.spanish.retry);
+  });
+
+  it('throws for unknown sets', () => {
+    expect(() => resolvePromptTemplates('pirate')).toThrow(
+      'Unknown prompt template set: pirate'
+    );
+  });
+
+  it('resolves registered sets but keeps built-in names', () => {
+    registerPromptTemplates('gpt-short', {
+      extends: 'terse',
+      urgency: ['', 'NOTE: '],
+    });
+
+    expect(resolvePromptTemplates('gpt-short').urgency).toEqual(['', 'NOTE: ']);
+    expect(() => registerPromptTemplates('terse', 'verbose')).toThrow(
+      'Cannot replace built-in prompt template set: terse'
+    );
+  });
+
+  it('applies overrides without a base to the process-wide default', () => {
+    setDefaultPromptTemplates('verbose');
+
+    expect(resolvePromptTemplates().system).toBe(
+      BUILT_IN_PROMPT_TEMPLATES.verbose.system
+    );
+    expect(resolvePromptTemplates({ user: '{{input}}' }).system).toBe(
+      BUILT_IN_PROMPT_TEMPLATES.verbose.system
+    );
+  });
+});
+
+describe('urgency prefixes', () => {
+  it('uses the last prefix for later attempts', () => {
+    const { default: templates } = BUILT_IN_PROMPT_TEMPLATES;
+
+    expect(getUrgencyPrefix(templates, 1)).toBe('');
+    expect(getUrgencyPrefix(templates, 2)).toBe('⚠️ IMPORTANT: ');
+    expect(getUrgencyPrefix(templates, 5)).toBe('🚨 CRITICAL: ');
+  });
+
+  it('follows the process-wide default in feedback', () => {
+    setDefaultPromptTemplates('spanish');
+
+    expect(generateUrgencyPrefix(3)).toBe('🚨 CRÍTICO: ');
+  });
+});
+
+describe('findUnknownPlaceholders', () => {
+  it('reports placeholders and sections no variable provides', () => {
+    expect(
+      findUnknownPlaceholders('{{input}}{{#notes}}{{notes}}{{/notes}}{{lens}}')
+    ).toEqual(['notes']);
+    expect(findUnknownPlaceholders(() => '{{anything}}')).toEqual([]);
+  });
+});
+
+describe('prompts from built-in sets', () => {
+  it('keeps the original default prompts', () => {
+    const parts = buildPrompt({
+      schema,
+      input: 'Blue mug, $12',
+      exampleOutput: { name: 'Mug', price: 12 },
+    });
+
+    expect(parts.systemPrompt).toMatch(
+      /^Your task is to process all input data and return a valid JSON response\./
+    );
+    expect(parts.systemPrompt).toContain('STANDARD IMPORTANT REQUIREMENTS:');
+    expect(parts.userPrompt).toBe(
+      'Process the following input and return a JSON response matching the schema requirements:\n\nINPUT DATA:\nBlue mug, $12\n\nRemember: Return only valid JSON that matches the schema. No explanatory text.'
+    );
+    expect(parts.examples).toEqual([
+      'EXAMPLE OUTPUT FORMAT:\n{\n  "name": "Mug",\n  "price": 12\n}',
+    ]);
+    expect(augmentPromptWithErrors(parts, 'price: Expected number').userPrompt)
+      .toBe(`${parts.userPrompt}
+
+PREVIOUS ATTEMPT FAILED VALIDATION:
+price: Expected number
+
+Please correct these issues and provide valid JSON matching the schema.`);
+  });
+
+  it('renders the terse set', () => {
+    const parts = buildPrompt({
+      schema,
+      input: 'Blue mug, $12',
+      attemptNumber: 2,
+      templates: BUILT_IN_PROMPT_TEMPLATES.terse,
+    });
+
+    expect(parts.systemPrompt).toMatch(
+      /^IMPORTANT: Reply with valid JSON only\. It must match this schema:\n/
+    );
+    expect(parts.systemPrompt).not.toContain('Context:');
+    expect(parts.userPrompt).toBe('Input:\nBlue mug, $12');
+    expect(parts.examples).toEqual([]);
+  });
+
+  it('renders the retry section with the attempt of the parts', () => {
+    const parts = buildPrompt({
+      schema,
+      input: 'Blue mug, $12',
+      attemptNumber: 3,
+      templates: resolvePromptTemplates({
+        retry: '{{urgency}}Attempt {{attempt}} failed: {{feedback}}',
+      }),
+    });
+
+    expect(augmentPromptWithErrors(parts, 'price missing').userPrompt).toMatch(
+      /\n\n🚨 CRITICAL: Attempt 3 failed: price missing$/
+    );
+  });
+
+  it('renders the Spanish set', () => {
+    const parts = buildPrompt({
+      schema,
+      input: 'Taza azul, 12 €',
+      lens: 'precios',
+      templates: BUILT_IN_PROMPT_TEMPLATES.spanish,
+    });
+
+    expect(parts.systemPrompt).toContain('REQUISITOS DEL ESQUEMA:');
+    expect(parts.systemPrompt).toContain(
+      'Procesa y analiza la entrada desde esta perspectiva: precios'
+    );
+    expect(parts.userPrompt).toContain('DATOS DE ENTRADA:\nTaza azul, 12 €');
+  });
+});
+
+describe('persuade with prompt templates', () => {
+  const createProvider = (...contents: string[]) => {
+    const sendPrompt = vi.fn();
+    for (const content of contents) {
+      sendPrompt.mockResolvedValueOnce({ content });
+    }
+    return {
+      name: 'mock',
+      supportsSession: false,
+      sendPrompt,
+    } satisfies ProviderAdapter;
+  };
+
+  it('renders the prompts and retries from the selected templates', async () => {
+    const provider = createProvider(
+      '{"name": "Mug"}',
+      '{"name": "Mug", "price": 12}'
+    );
+
+    const result = await persuade(
+      {
+        schema,
+        input: 'Blue mug, $12',
+        promptTemplates: {
+          extends: 'terse',
+          user: 'Extract the product:\n{{input}}',
+        },
+      },
+      provider
+    );
+
+    expect(result.ok).toBe(true);
+    const [first, retry] = provider.sendPrompt.mock.calls.map(
+      call => call[1]
+    );
+    expect(first).toContain('Extract the product:\nBlue mug, $12');
+    expect(first).not.toContain('INPUT DATA:');
+    expect(retry).toContain('Previous reply was invalid:\n');
+    expect(retry).toContain('Fix it. JSON only.');
+  });
+
+  it('uses the process-wide default when a call selects none', async () => {
+    setDefaultPromptTemplates('spanish');
+    const provider = createProvider('{"name": "Mug", "price": 12}');
+
+    await persuade({ schema, input: 'Blue mug, $12' }, provider);
+
+    expect(provider.sendPrompt.mock.calls[0]?.[1]).toContain(
+      'DATOS DE ENTRADA:'
+    );
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { retryWithFeedback } from '../../src/core/retry.js';
 
 describe('retryWithFeedback', () => {
@@ -135,4 +135,153 @@ describe('retryWithFeedback', () => {
     expect(result.attempts).toBe(3);
     expect(result.allErrors).toHaveLength(3);
   });
+
+  it('passes the selected strategy to retries and records them', async () => {
+    const error = {
+      type: 'validation',
+      code: 'schema_validation',
+      message: 'Missing field',
+      timestamp: new Date(),
+      retryable: true,
+      failureMode: 'missing_required_fields',
+      structuredFeedback: {
+        problemSummary: 'Missing field',
+        specificIssues: [],
+        correctionInstructions: ['Add the name field'],
+      },
+    };
+    const operation = vi
+      .fn()
+      .mockResolvedValueOnce({ success: false, error })
+      .mockResolvedValueOnce({ success: false, error })
+      .mockResolvedValue({ success: true, value: 'fixed' });
+    const selectStrategy = vi
+      .fn()
+      .mockReturnValueOnce('provide_field_guidance')
+      .mockReturnValueOnce('add_examples');
+
+    const result = await retryWithFeedback({
+      operation,
+      selectStrategy,
+      maxAttempts: 3,
+      baseDelay: 10,
+    });
+
+    expect(result.success).toBe(true);
+    expect(operation).toHaveBeenNthCalledWith(1, 1, undefined);
+    expect(operation).toHaveBeenNthCalledWith(3, 3, error, 'add_examples');
+    expect(selectStrategy).toHaveBeenCalledTimes(2);
+    expect(result.retryHistory).toEqual([
+      expect.objectContaining({
+        attemptNumber: 2,
+        strategy: 'provide_field_guidance',
+        previousFailureMode: 'missing_required_fields',
+        finalAttempt: false,
+        feedbackProvided: {
+          summary: 'Missing field',
+          specificInstructions: ['Add the name field'],
+        },
+      }),
+      expect.objectContaining({
+        attemptNumber: 3,
+        strategy: 'add_examples',
+        finalAttempt: true,
+        attemptAnalysis: expect.objectContaining({ strategyChange: true }),
+      }),
+    ]);
+  });
+});
+
+describe('retryWithFeedback scheduling', () => {
+  const providerError = (rateLimitInfo?: { retryAfter: number }) => ({
+    type: 'provider',
+    code: 'provider_call_failed',
+    message: 'Provider call failed',
+    provider: 'test',
+    timestamp: new Date(),
+    retryable: true,
+    ...(rateLimitInfo && { statusCode: 429, rateLimitInfo }),
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries validation failures without waiting', async () => {
+    const operation = vi
+      .fn()
+      .mockResolvedValueOnce({
+        success: false,
+        error: {
+          type: 'validation',
+          code: 'schema_validation',
+          message: 'Missing field',
+          timestamp: new Date(),
+          retryable: true,
+        },
+      })
+      .mockResolvedValue({ success: true, value: 'fixed' });
+
+    const result = await retryWithFeedback({
+      operation,
+      maxAttempts: 2,
+      baseDelay: 1000,
+    });
+
+    expect(result.success).toBe(true);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('waits the reported retryAfter plus jitter on rate limits', async () => {
+    const operation = vi
+      .fn()
+      .mockResolvedValueOnce({
+        success: false,
+        error: providerError({ retryAfter: 2 }),
+      })
+      .mockResolvedValue({ success: true, value: 'done' });
+
+    const run = retryWithFeedback({ operation, maxAttempts: 2, baseDelay: 10 });
+
+    await vi.advanceTimersByTimeAsync(2249);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect((await run).success).toBe(true);
+  });
+
+  it('backs off from the base delay on other provider errors', async () => {
+    const operation = vi
+      .fn()
+      .mockResolvedValueOnce({ success: false, error: providerError() })
+      .mockResolvedValue({ success: true, value: 'done' });
+
+    const run = retryWithFeedback({
+      operation,
+      maxAttempts: 2,
+      baseDelay: 100,
+    });
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await run).attempts).toBe(2);
+  });
+
+  it('gives up when the rate limit asks for too long a wait', async () => {
+    const error = providerError({ retryAfter: 3600 });
+    const operation = vi.fn().mockResolvedValue({ success: false, error });
+
+    const result = await retryWithFeedback({ operation, maxAttempts: 3 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(error);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
 });
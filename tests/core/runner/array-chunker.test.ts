@@ -0,0 +1,191 @@
+/**
+ * Tests for chunked array generation
+ *
+ * Covers array schema detection, item de-duplication keys, the batch input,
+ * and persuade() runs that assemble a long list from several batches.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { persuade } from '../../../src/core/index.js';
+import {
+  buildChunkInput,
+  detectChunkableArray,
+  getItemKey,
+} from '../../../src/core/runner/array-chunker.js';
+import type { ProviderAdapter } from '../../../src/types/index.js';
+
+const Company = z.object({ name: z.string(), country: z.string() });
+
+const company = (name: string) => ({ name, country: 'DE' });
+
+describe('detectChunkableArray', () => {
+  it('reads the item schema and length bounds of array schemas', () => {
+    const detected = detectChunkableArray(z.array(Company).min(100).max(120));
+
+    expect(detected?.element).toBe(Company);
+    expect(detected?.minItems).toBe(100);
+    expect(detected?.maxItems).toBe(120);
+    expect(detectChunkableArray(z.array(z.string()))).toEqual({
+      element: expect.any(z.ZodString),
+    });
+  });
+
+  it('ignores other schemas', () => {
+    expect(detectChunkableArray(Company)).toBeUndefined();
+    expect(
+      detectChunkableArray(z.object({ items: z.array(Company) }))
+    ).toBeUndefined();
+  });
+});
+
+describe('getItemKey', () => {
+  it('uses the configured field or key function', () => {
+    expect(getItemKey(company('SAP'), 'name')).toBe('SAP');
+    expect(getItemKey({ id: 7 }, 'id')).toBe('7');
+    expect(
+      getItemKey(company('SAP'), item =>
+        (item as { name: string }).name.toLowerCase()
+      )
+    ).toBe('sap');
+  });
+
+  it('compares whole items without a key', () => {
+    expect(getItemKey(company('SAP'))).toBe(
+      JSON.stringify({ name: 'SAP', country: 'DE' })
+    );
+    expect(getItemKey('plain')).toBe('plain');
+  });
+});
+
+describe('buildChunkInput', () => {
+  it('asks for the next batch after the original input', () => {
+    expect(buildChunkInput('List companies', 1, 20, [])).toBe(
+      'List companies\n\nBATCH 1: Return the next 20 items of the list as a JSON array.'
+    );
+  });
+
+  it('lists the items collected so far', () => {
+    const input = buildChunkInput({ region: 'EU' }, 2, 20, ['SAP', 'Adyen']);
+
+    expect(input).toContain('"region": "EU"');
+    expect(input).toContain('BATCH 2: Return the next 20 items');
+    expect(input).toContain(
+      '2 items were returned in earlier batches; do not repeat any of them:\nSAP, Adyen'
+    );
+  });
+});
+
+describe('persuade with chunking', () => {
+  const createProvider = (...batches: unknown[][]) => {
+    const sendPrompt = vi.fn();
+    for (const batch of batches) {
+      sendPrompt.mockResolvedValueOnce({ content: JSON.stringify(batch) });
+    }
+    return {
+      name: 'mock',
+      supportsSession: true,
+      createSession: vi.fn().mockResolvedValue('session-1'),
+      sendPrompt,
+    } satisfies ProviderAdapter;
+  };
+
+  it('assembles the list from de-duplicated batches in one session', async () => {
+    const provider = createProvider(
+      [company('SAP'), company('Adyen'), company('Spotify')],
+      [company('Spotify'), company('Klarna'), company('Revolut')]
+    );
+
+    const result = await persuade(
+      {
+        schema: z.array(Company).min(5),
+        input: 'List European software companies',
+        chunking: { chunkSize: 3, dedupeKey: 'name' },
+      },
+      provider
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.value?.map(item => item.name)).toEqual([
+      'SAP',
+      'Adyen',
+      'Spotify',
+      'Klarna',
+      'Revolut',
+    ]);
+    expect(result.attempts).toBe(2);
+    expect(result.metadata.chunking).toEqual({
+      chunks: 2,
+      items: 5,
+      duplicatesRemoved: 1,
+    });
+
+    const [first, second] = provider.sendPrompt.mock.calls;
+    expect(first?.[0]).toBe('session-1');
+    expect(second?.[0]).toBe('session-1');
+    expect(first?.[1]).toContain('BATCH 1: Return the next 3 items');
+    expect(second?.[1]).toContain('BATCH 2: Return the next 2 items');
+    expect(second?.[1]).toContain('SAP, Adyen, Spotify');
+  });
+
+  it('keeps the list within the maximum length', async () => {
+    const provider = createProvider([
+      company('SAP'),
+      company('Adyen'),
+      company('Spotify'),
+    ]);
+
+    const result = await persuade(
+      {
+        schema: z.array(Company).max(2),
+        input: 'List European software companies',
+        chunking: { targetItems: 5 },
+      },
+      provider
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.value).toHaveLength(2);
+    expect(provider.sendPrompt).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails validation when batches stop adding items', async () => {
+    const provider = createProvider(
+      [company('SAP'), company('Adyen')],
+      [company('SAP')]
+    );
+
+    const result = await persuade(
+      {
+        schema: z.array(Company).min(4),
+        input: 'List European software companies',
+        chunking: { chunkSize: 2, dedupeKey: 'name' },
+      },
+      provider
+    );
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.type).toBe('validation');
+    expect(result.metadata.chunking).toEqual({
+      chunks: 2,
+      items: 2,
+      duplicatesRemoved: 1,
+    });
+  });
+
+  it('generates non-array schemas normally', async () => {
+    const provider = createProvider();
+    provider.sendPrompt.mockResolvedValueOnce({
+      content: JSON.stringify(company('SAP')),
+    });
+
+    const result = await persuade(
+      { schema: Company, input: 'SAP', chunking: true },
+      provider
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.metadata.chunking).toBeUndefined();
+    expect(provider.sendPrompt.mock.calls[0]?.[1]).not.toContain('BATCH 1');
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for the confidence estimator
+ *
+ * Covers the built-in heuristic, custom estimators and the self-assessment
+ * prompt and response parsing.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  buildSelfAssessmentPrompt,
+  estimateConfidence,
+  parseSelfAssessment,
+  scoreConfidence,
+} from '../../../src/core/runner/confidence-estimator.js';
+import type { ConfidenceSignals } from '../../../src/types/index.js';
+
+vi.mock('../../../src/utils/logger.js');
+
+const firstTry: ConfidenceSignals = {
+  attempts: 1,
+  maxAttempts: 3,
+  failureModes: [],
+};
+
+describe('estimateConfidence', () => {
+  it('is fully confident in a first-attempt result', () => {
+    expect(estimateConfidence(firstTry)).toBe(1);
+  });
+
+  it('penalises retries by the share of the retry budget used', () => {
+    expect(
+      estimateConfidence({ ...firstTry, attempts: 2, maxAttempts: 3 })
+    ).toBe(0.85);
+    expect(
+      estimateConfidence({ ...firstTry, attempts: 3, maxAttempts: 3 })
+    ).toBe(0.7);
+  });
+
+  it('penalises each distinct failure mode once', () => {
+    const signals: ConfidenceSignals = {
+      attempts: 3,
+      maxAttempts: 3,
+      failureModes: [
+        'context_confusion',
+        'context_confusion',
+        'json_parse_failure',
+      ],
+    };
+
+    expect(estimateConfidence(signals)).toBe(0.45);
+  });
+
+  it('penalises enhancement rounds that failed validation', () => {
+    expect(
+      estimateConfidence({
+        ...firstTry,
+        enhancement: { rounds: 2, validRounds: 1, acceptedRounds: 1 },
+      })
+    ).toBe(0.95);
+  });
+
+  it('blends in the self-assessment with its weight', () => {
+    const signals = { ...firstTry, attempts: 3, selfAssessment: 0.5 };
+
+    expect(estimateConfidence(signals)).toBe(0.6);
+    expect(estimateConfidence(signals, 0.2)).toBe(0.66);
+  });
+
+  it('never drops below zero', () => {
+    expect(
+      estimateConfidence({
+        attempts: 5,
+        maxAttempts: 5,
+        failureModes: [
+          'provider_refusal',
+          'context_confusion',
+          'hallucinated_structure',
+          'incomplete_response',
+        ],
+      })
+    ).toBe(0);
+  });
+});
+
+describe('scoreConfidence', () => {
+  it('uses a custom estimator with the signals and value', () => {
+    const estimator = vi.fn().mockReturnValue(1.4);
+
+    expect(scoreConfidence(firstTry, { ok: true }, { estimator })).toBe(1);
+    expect(estimator).toHaveBeenCalledWith(firstTry, { ok: true });
+  });
+
+  it('falls back to the heuristic when the estimator fails', () => {
+    const signals = { ...firstTry, attempts: 2 };
+
+    expect(
+      scoreConfidence(
+        signals,
+        {},
+        {
+          estimator: () => {
+            throw new Error('boom');
+          },
+        }
+      )
+    ).toBe(0.85);
+    expect(scoreConfidence(signals, {}, { estimator: () => NaN })).toBe(0.85);
+  });
+});
+
+describe('self-assessment', () => {
+  it('includes input, output and the instruction in the prompt', () => {
+    const prompt = buildSelfAssessmentPrompt(
+      { text: 'invoice' },
+      { total: 10 },
+      'Rate it.'
+    );
+
+    expect(prompt).toContain('[INPUT]\n{\n  "text": "invoice"\n}');
+    expect(prompt).toContain('[OUTPUT]\n{\n  "total": 10\n}');
+    expect(prompt).toContain('[TASK]\nRate it.');
+  });
+
+  it('reads ratings from JSON, bare numbers and percentages', () => {
+    expect(parseSelfAssessment('{"confidence": 0.72}')).toBe(0.72);
+    expect(parseSelfAssessment('I would say 0.9')).toBe(0.9);
+    expect(parseSelfAssessment('{"confidence": 85}')).toBe(0.85);
+  });
+
+  it('ignores responses without a usable rating', () => {
+    expect(parseSelfAssessment('Very confident!')).toBeUndefined();
+    expect(parseSelfAssessment('{"confidence": 250}')).toBeUndefined();
+  });
+});
@@ -16,6 +16,7 @@ import {
 } from '../../../src/core/runner/configuration-manager.js';
 import {
   DEFAULT_MAX_TOKENS,
+  DEFAULT_MIN_ATTEMPTS_BEFORE_ESCALATION,
   DEFAULT_MODEL,
   DEFAULT_RETRIES,
   DEFAULT_TEMPERATURE,
@@ -281,6 +282,47 @@ describe('processRunnerConfiguration', () => {
 });
 
 describe('processConfiguration', () => {
+  it('should apply session priming defaults', () => {
+    const enabled = processConfiguration(createMockOptions({ sessionPriming: { maxPrimingTokens: 1200 } }));
+    const disabled = processConfiguration(createMockOptions({ sessionPriming: false }));
+
+    expect(enabled.sessionPriming).toEqual({
+      enabled: true,
+      usePrimingConversation: true,
+      includeDomainContext: true,
+      includeExamples: true,
+      maxPrimingTokens: 1200,
+    });
+    expect(disabled.sessionPriming).toBeUndefined();
+  });
+
+  it('should enable retry strategies only when asked to', () => {
+    expect(processConfiguration(createMockOptions()).retryStrategies).toBeUndefined();
+    expect(processConfiguration(createMockOptions({ retryStrategies: false })).retryStrategies).toBeUndefined();
+    expect(processConfiguration(createMockOptions({ retryStrategies: true })).retryStrategies).toEqual({
+      enableProgressiveRefinement: true,
+      minAttemptsBeforeEscalation: DEFAULT_MIN_ATTEMPTS_BEFORE_ESCALATION,
+    });
+  });
+
+  it('should keep the JSON extraction mode only when given', () => {
+    expect(processConfiguration(createMockOptions({ jsonExtraction: 'lenient' })).jsonExtraction).toBe('lenient');
+    expect(processConfiguration(createMockOptions()).jsonExtraction).toBeUndefined();
+  });
+
+  it('should enable partial salvage only when requested', () => {
+    expect(processConfiguration(createMockOptions()).partialSalvage).toBeUndefined();
+    expect(processConfiguration(createMockOptions({ partialSalvage: false })).partialSalvage).toBeUndefined();
+    expect(processConfiguration(createMockOptions({ partialSalvage: true })).partialSalvage).toEqual({ maxInvalidFieldRatio: 0.5 });
+    expect(processConfiguration(createMockOptions({ partialSalvage: { maxInvalidFieldRatio: 0.2 } })).partialSalvage).toEqual({ maxInvalidFieldRatio: 0.2 });
+  });
+
+  it('should apply chunking defaults only when requested', () => {
+    expect(processConfiguration(createMockOptions()).chunking).toBeUndefined();
+    expect(processConfiguration(createMockOptions({ chunking: true })).chunking).toEqual({ chunkSize: 25, maxChunks: 10 });
+    expect(processConfiguration(createMockOptions({ chunking: { chunkSize: 10, dedupeKey: 'id' } })).chunking).toEqual({ chunkSize: 10, maxChunks: 10, dedupeKey: 'id' });
+  });
+
   it('should combine validation and processing steps', () => {
     const options = createMockOptions({
       retries: 3,
@@ -396,6 +438,149 @@ describe('validateRunnerOptions', () => {
       expect(result.errors).toContain('Options configuration error: successMessage must be a string. Example: successMessage: "✅ Perfect! Continue using this approach."');
     });
 
+    it('should detect invalid confidence configuration', () => {
+      const options = createMockOptions({
+        confidence: { estimator: 'high' as any, selfAssessmentWeight: 2 },
+      });
+
+      const result = validateRunnerOptions(options);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Options configuration error: confidence.estimator must be a function');
+      expect(result.errors).toContain('Options configuration error: confidence.selfAssessmentWeight must be between 0 and 1');
+    });
+
+    it('should detect invalid session priming configuration', () => {
+      const options = createMockOptions({
+        sessionPriming: { maxPrimingTokens: 0, includeExamples: 'yes' as any, stages: ['warm_up' as any] },
+      });
+
+      const result = validateRunnerOptions(options);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Options configuration error: sessionPriming.maxPrimingTokens must be positive');
+      expect(result.errors).toContain('Options configuration error: sessionPriming.includeExamples must be a boolean');
+      expect(result.errors.some(error => error.includes('sessionPriming.stages contains unknown stage(s) warm_up'))).toBe(true);
+    });
+
+    it('should detect invalid retry strategy configuration', () => {
+      const options = createMockOptions({
+        retryStrategies: { enableProgressiveRefinement: 'no' as any, minAttemptsBeforeEscalation: 0 },
+      });
+
+      const result = validateRunnerOptions(options);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Options configuration error: retryStrategies.enableProgressiveRefinement must be a boolean');
+      expect(result.errors).toContain('Options configuration error: retryStrategies.minAttemptsBeforeEscalation must be at least 1');
+    });
+
+    it('should detect an unknown JSON extraction mode', () => {
+      const options = createMockOptions({ jsonExtraction: 'loose' as any });
+
+      const result = validateRunnerOptions(options);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Options configuration error: jsonExtraction must be one of: strict, tolerant, lenient');
+    });
+
+    it('should detect an unknown structured output mode', () => {
+      const options = createMockOptions({ structuredOutput: 'json' as any });
+
+      const result = validateRunnerOptions(options);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Options configuration error: structuredOutput must be one of: native, prompt');
+    });
+
+    it('should detect unknown prompt template sets and placeholders', () => {
+      const named = validateRunnerOptions(createMockOptions({ promptTemplates: 'pirate' }));
+      const overrides = validateRunnerOptions(
+        createMockOptions({ promptTemplates: { user: 'Input: {{inputs}}', urgency: [] } })
+      );
+
+      expect(named.errors).toContain('Options configuration error: promptTemplates "pirate" is not a built-in or registered template set');
+      expect(overrides.errors).toEqual([
+        'Options configuration error: promptTemplates.user uses unknown placeholders: inputs',
+        'Options configuration error: promptTemplates.urgency must not be empty',
+      ]);
+    });
+
+    it('should detect invalid model prices', () => {
+      const options = createMockOptions({
+        pricing: { 'gpt-4o': { inputPerMillionTokens: -1, outputPerMillionTokens: Number.NaN } },
+      });
+
+      const result = validateRunnerOptions(options);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        'Options configuration error: pricing["gpt-4o"].inputPerMillionTokens must be a non-negative number',
+        'Options configuration error: pricing["gpt-4o"].outputPerMillionTokens must be a non-negative number',
+      ]);
+    });
+
+    it('should detect invalid budgets', () => {
+      const options = createMockOptions({
+        budget: { perCall: { maxTokens: -100 }, perProcess: { maxCostUsd: Number.POSITIVE_INFINITY }, fallbackModel: ' ' },
+      });
+
+      const result = validateRunnerOptions(options);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        'Options configuration error: budget.perCall.maxTokens must be a non-negative number',
+        'Options configuration error: budget.perProcess.maxCostUsd must be a non-negative number',
+        'Options configuration error: budget.fallbackModel must be a non-empty string',
+      ]);
+    });
+
+    it('should detect invalid cache options', () => {
+      const options = createMockOptions({
+        cache: { ttlMs: 0, refresh: 'yes' as any, store: { get: async () => undefined } as any },
+      });
+
+      const result = validateRunnerOptions(options);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        'Options configuration error: cache.ttlMs must be a positive number of milliseconds',
+        'Options configuration error: cache.refresh must be a boolean',
+        'Options configuration error: cache.store must implement get, set and delete',
+      ]);
+    });
+
+    it('should detect an out-of-range salvage ratio', () => {
+      const options = createMockOptions({ partialSalvage: { maxInvalidFieldRatio: 1.5 } });
+
+      const result = validateRunnerOptions(options);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Options configuration error: partialSalvage.maxInvalidFieldRatio must be greater than 0 and at most 1');
+    });
+
+    it('should detect invalid chunking settings', () => {
+      const options = createMockOptions({ chunking: { chunkSize: 0, dedupeKey: 3 as any } });
+
+      const result = validateRunnerOptions(options);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Options configuration error: chunking.chunkSize must be a positive integer');
+      expect(result.errors).toContain('Options configuration error: chunking.dedupeKey must be a field name or function');
+    });
+
+    it('should detect validators that are neither functions nor judges', () => {
+      const options = createMockOptions({ validators: [() => true, { judge: ' ' }, 'check' as any] });
+
+      const result = validateRunnerOptions(options);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        'Options configuration error: validators[1] must be a function or an object with a non-empty judge criterion',
+        'Options configuration error: validators[2] must be a function or an object with a non-empty judge criterion',
+      ]);
+    });
+
     it('should accumulate multiple errors', () => {
       const options = {
         retries: -1,
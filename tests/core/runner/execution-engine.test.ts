@@ -7,6 +7,7 @@
 
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { z } from 'zod';
+import { createRateLimitError } from '../../../src/adapters/rate-limit.js';
 import { executeWithRetry } from '../../../src/core/runner/execution-engine.js';
 import type { ProcessedConfiguration } from '../../../src/core/runner/configuration-manager.js';
 import type { ProviderAdapter, ProviderResponse, ValidationError } from '../../../src/types/index.js';
@@ -258,7 +259,7 @@ describe('executeWithRetry', () => {
 
       expect(result.success).toBe(true);
       expect(result.attempts).toBe(2);
-      expect(formatValidationErrorFeedback).toHaveBeenCalledWith(validationError, 2);
+      expect(formatValidationErrorFeedback).toHaveBeenCalledWith(validationError, 2, undefined, undefined);
       expect(augmentPromptWithErrors).toHaveBeenCalledWith(
         expect.any(Object),
         'Error feedback'
@@ -339,6 +340,34 @@ describe('executeWithRetry', () => {
       expect(result.error?.message).toContain('Network error');
     });
 
+    it('should keep the rate limit reported by the adapter', async () => {
+      const config = createMockConfig();
+      const provider = createMockProvider();
+
+      provider.sendPrompt = vi
+        .fn()
+        .mockRejectedValue(createRateLimitError('Rate limit exceeded', { retryAfter: 7 }));
+
+      retryWithFeedback.mockImplementation(async ({ operation }) => {
+        const result = await operation(1);
+        return {
+          success: false,
+          error: result.error,
+          attempts: 1,
+        };
+      });
+
+      const result = await executeWithRetry(config, provider);
+
+      expect(result.error).toEqual(
+        expect.objectContaining({
+          type: 'provider',
+          statusCode: 429,
+          rateLimitInfo: { retryAfter: 7 },
+        })
+      );
+    });
+
     it('should handle empty provider responses', async () => {
       const config = createMockConfig();
       const provider = createMockProvider();
@@ -537,4 +566,107 @@ describe('executeWithRetry', () => {
       expect(result.success).toBe(true);
     });
   });
+
+  describe('confidence scoring', () => {
+    const succeedOnAttempt = (attempts: number) => {
+      retryWithFeedback.mockImplementation(async ({ operation }) => {
+        let result = await operation(1);
+        for (let attempt = 2; attempt <= attempts; attempt++) {
+          result = await operation(attempt, result.error);
+        }
+        return { success: true, value: result.value, attempts };
+      });
+    };
+
+    it('attaches a confidence score and its signals on success', async () => {
+      const provider = createMockProvider({
+        sendPrompt: vi.fn().mockResolvedValue(createMockProviderResponse()),
+      });
+      succeedOnAttempt(1);
+
+      const result = await executeWithRetry(createMockConfig(), provider);
+
+      expect(result.confidence).toBe(1);
+      expect(result.confidenceSignals).toEqual({
+        attempts: 1,
+        maxAttempts: 3,
+        failureModes: [],
+      });
+    });
+
+    it('records failure modes of failed attempts', async () => {
+      const provider = createMockProvider({
+        sendPrompt: vi.fn().mockResolvedValue(createMockProviderResponse()),
+      });
+      validateJson.mockReturnValueOnce({
+        success: false,
+        error: {
+          type: 'validation',
+          code: 'json_parse_error',
+          message: 'Invalid JSON',
+          timestamp: new Date(),
+          retryable: true,
+          issues: [],
+          rawValue: 'oops',
+          suggestions: [],
+          failureMode: 'json_parse_failure',
+          retryStrategy: 'demand_json_format',
+          structuredFeedback: {
+            problemSummary: 'Invalid JSON',
+            specificIssues: [],
+            correctionInstructions: [],
+          },
+        },
+      });
+      succeedOnAttempt(2);
+
+      const result = await executeWithRetry(createMockConfig(), provider);
+
+      expect(result.confidenceSignals?.failureModes).toEqual([
+        'json_parse_failure',
+      ]);
+      expect(result.confidence).toBe(0.8);
+    });
+
+    it('asks the model to rate its output when self-assessment is enabled', async () => {
+      const sendPrompt = vi
+        .fn()
+        .mockResolvedValueOnce(createMockProviderResponse())
+        .mockResolvedValueOnce(
+          createMockProviderResponse({ content: '{"confidence": 0.6}' })
+        );
+      const provider = createMockProvider({ sendPrompt });
+      succeedOnAttempt(1);
+
+      const result = await executeWithRetry(
+        createMockConfig({ confidence: { selfAssessment: true } }),
+        provider
+      );
+
+      expect(sendPrompt).toHaveBeenCalledTimes(2);
+      expect(sendPrompt.mock.calls[1]?.[1]).toContain('[OUTPUT]');
+      expect(result.confidenceSignals?.selfAssessment).toBe(0.6);
+      expect(result.confidence).toBe(0.8);
+      expect(result.tokenUsage?.totalTokens).toBe(30);
+    });
+
+    it('keeps the result when self-assessment fails', async () => {
+      const provider = createMockProvider({
+        sendPrompt: vi
+          .fn()
+          .mockResolvedValueOnce(createMockProviderResponse())
+          .mockRejectedValueOnce(new Error('rate limited')),
+      });
+      succeedOnAttempt(1);
+
+      const result = await executeWithRetry(
+        createMockConfig({ confidence: { selfAssessment: true } }),
+        provider
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.confidence).toBe(1);
+      expect(result.confidenceSignals).not.toHaveProperty('selfAssessment');
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,243 @@
+/**
+ * Tests for partial-result salvage
+ *
+ * Covers when a failed object can be salvaged, the targeted follow-up
+ * prompt, merging the answer into the kept fields, and persuade() runs that
+ * re-ask only for the broken fields.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { persuade } from '../../../src/core/index.js';
+import { processConfiguration } from '../../../src/core/runner/configuration-manager.js';
+import {
+  buildSalvagePrompt,
+  mergeSalvagedResponse,
+  planSalvage,
+} from '../../../src/core/runner/partial-salvage.js';
+import { validateJson } from '../../../src/core/validation/json-parser.js';
+import type {
+  ProviderAdapter,
+  ValidationError,
+} from '../../../src/types/index.js';
+
+const schema = z.object({
+  sku: z.string(),
+  name: z.string(),
+  price: z.number().positive(),
+  currency: z.enum(['EUR', 'USD']),
+  tags: z.array(z.string()),
+  description: z.string().optional(),
+});
+
+const config = { maxInvalidFieldRatio: 0.5 };
+
+const product = {
+  sku: 'SKU-1',
+  name: 'Desk lamp',
+  price: 39.5,
+  currency: 'EUR',
+  tags: ['lighting'],
+};
+
+function failValidation(value: unknown): ValidationError {
+  const result = validateJson(schema, JSON.stringify(value));
+  if (result.success) {
+    throw new Error('Expected validation to fail');
+  }
+  return result.error;
+}
+
+describe('planSalvage', () => {
+  it('keeps the valid fields and re-asks for the invalid ones', () => {
+    const error = failValidation({ ...product, price: -1, currency: 'eur' });
+
+    const plan = planSalvage(schema, error, config);
+
+    expect(plan?.invalidFields).toEqual(['price', 'currency']);
+    expect(plan?.keptFields).toEqual({
+      sku: 'SKU-1',
+      name: 'Desk lamp',
+      tags: ['lighting'],
+    });
+    expect(Object.keys(plan?.partialSchema.shape ?? {})).toEqual([
+      'price',
+      'currency',
+    ]);
+    expect(plan?.fieldErrors.map(fieldError => fieldError.path)).toEqual([
+      'price',
+      'currency',
+    ]);
+  });
+
+  it('regenerates when too many fields are invalid', () => {
+    const error = failValidation({ sku: 'SKU-1', price: 'cheap' });
+
+    expect(planSalvage(schema, error, config)).toBeUndefined();
+    expect(
+      planSalvage(schema, error, { maxInvalidFieldRatio: 1 })?.invalidFields
+    ).toEqual(['name', 'price', 'currency', 'tags']);
+  });
+
+  it('regenerates after parse failures and wrong root types', () => {
+    const parseFailure = validateJson(schema, 'not json');
+    const arrayResponse = validateJson(schema, JSON.stringify([product]));
+
+    expect(parseFailure.success || arrayResponse.success).toBe(false);
+    if (!parseFailure.success && !arrayResponse.success) {
+      expect(planSalvage(schema, parseFailure.error, config)).toBeUndefined();
+      expect(planSalvage(schema, arrayResponse.error, config)).toBeUndefined();
+    }
+  });
+
+  it('regenerates when a refinement rejects the whole object', () => {
+    const refined = schema.refine(value => value.tags.length > 1);
+    const result = validateJson(refined, JSON.stringify(product));
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(planSalvage(refined, result.error, config)).toBeUndefined();
+    }
+  });
+
+  it('only applies to object schemas', () => {
+    const error = failValidation({ ...product, price: -1 });
+
+    expect(planSalvage(z.array(schema), error, config)).toBeUndefined();
+  });
+});
+
+describe('buildSalvagePrompt', () => {
+  const processed = processConfiguration({
+    schema,
+    input: 'Desk lamp, 39.50 EUR',
+    context: 'Product catalogue',
+  });
+
+  it('describes only the invalid fields and their errors', () => {
+    const plan = planSalvage(
+      schema,
+      failValidation({ ...product, price: -1 }),
+      config
+    );
+    expect(plan).toBeDefined();
+    if (!plan) return;
+
+    const parts = buildSalvagePrompt(processed, plan, 2);
+
+    expect(parts.systemPrompt).toContain('price');
+    expect(parts.systemPrompt).not.toContain('description');
+    expect(parts.systemPrompt).toContain('Product catalogue');
+    expect(parts.errorContext).toMatch(/^- price: /);
+    expect(parts.userPrompt).toContain('Desk lamp, 39.50 EUR');
+    expect(parts.userPrompt).toContain(
+      'Reply with a JSON object containing only the corrected fields price.'
+    );
+  });
+});
+
+describe('mergeSalvagedResponse', () => {
+  const plan = planSalvage(
+    schema,
+    failValidation({ ...product, price: -1, currency: 'eur' }),
+    config
+  );
+
+  it('merges the requested fields into the kept ones', () => {
+    expect(plan).toBeDefined();
+    if (!plan) return;
+
+    const merged = mergeSalvagedResponse(
+      plan,
+      '```json\n{"price": 39.5, "currency": "EUR", "name": "Overwritten"}\n```'
+    );
+
+    expect(JSON.parse(merged)).toEqual(product);
+  });
+
+  it('returns the raw answer when it holds no JSON object', () => {
+    expect(plan).toBeDefined();
+    if (!plan) return;
+
+    expect(mergeSalvagedResponse(plan, 'Sorry, no idea.')).toBe(
+      'Sorry, no idea.'
+    );
+    expect(mergeSalvagedResponse(plan, '[39.5]')).toBe('[39.5]');
+  });
+});
+
+describe('persuade with partial salvage', () => {
+  const createProvider = (...contents: string[]): ProviderAdapter => {
+    const sendPrompt = vi.fn();
+    for (const content of contents) {
+      sendPrompt.mockResolvedValueOnce({ content });
+    }
+    return { name: 'mock', supportsSession: false, sendPrompt };
+  };
+
+  it('re-asks only for the broken fields and merges the answer', async () => {
+    const provider = createProvider(
+      JSON.stringify({ ...product, price: '39.50', currency: 'eur' }),
+      JSON.stringify({ price: 39.5, currency: 'EUR' })
+    );
+
+    const result = await persuade(
+      { schema, input: 'Desk lamp, 39.50 EUR', partialSalvage: true },
+      provider
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.value).toEqual(product);
+    expect(result.attempts).toBe(2);
+    expect(result.metadata.salvagedAttempts).toBe(1);
+
+    const retryPrompt = vi.mocked(provider.sendPrompt).mock.calls[1]?.[1];
+    expect(retryPrompt).toContain(
+      'YOUR PREVIOUS RESPONSE WAS VALID EXCEPT FOR THESE FIELDS: price, currency'
+    );
+    expect(retryPrompt).not.toContain('"sku"');
+  });
+
+  it('regenerates the whole output after an unusable salvage answer', async () => {
+    const provider = createProvider(
+      JSON.stringify({ ...product, price: -1 }),
+      'I cannot help with that.',
+      JSON.stringify(product)
+    );
+
+    const result = await persuade(
+      {
+        schema,
+        input: 'Desk lamp, 39.50 EUR',
+        retries: 2,
+        partialSalvage: true,
+      },
+      provider
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.attempts).toBe(3);
+    expect(result.metadata.salvagedAttempts).toBe(1);
+    expect(vi.mocked(provider.sendPrompt).mock.calls[2]?.[1]).not.toContain(
+      'YOUR PREVIOUS RESPONSE WAS VALID EXCEPT FOR THESE FIELDS'
+    );
+  });
+
+  it('regenerates the whole output when salvage is disabled', async () => {
+    const provider = createProvider(
+      JSON.stringify({ ...product, price: -1 }),
+      JSON.stringify(product)
+    );
+
+    const result = await persuade(
+      { schema, input: 'Desk lamp, 39.50 EUR' },
+      provider
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.metadata.salvagedAttempts).toBeUndefined();
+    expect(vi.mocked(provider.sendPrompt).mock.calls[1]?.[1]).not.toContain(
+      'YOUR PREVIOUS RESPONSE WAS VALID EXCEPT FOR THESE FIELDS'
+    );
+  });
+});
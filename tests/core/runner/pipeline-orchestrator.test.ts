@@ -160,7 +160,8 @@ describe('orchestratePipeline', () => {
         createMockProcessedConfig(),
         mockProvider,
         'session-123',
-        expect.any(Object) // sessionManager parameter
+        expect.any(Object), // sessionManager parameter
+        undefined // budget tracker, without budgets
       );
       expect(processResult).toHaveBeenCalled();
     });
@@ -191,7 +192,8 @@ describe('orchestratePipeline', () => {
         createMockProcessedConfig(),
         mockProvider,
         undefined,
-        expect.any(Object) // sessionManager parameter
+        expect.any(Object), // sessionManager parameter
+        undefined // budget tracker, without budgets
       );
     });
   });
@@ -483,13 +485,15 @@ describe('orchestratePipeline', () => {
         mockConfig,
         mockProvider,
         'flow-session',
-        expect.any(Object) // sessionManager parameter
+        expect.any(Object), // sessionManager parameter
+        undefined // budget tracker, without budgets
       );
       expect(processResult).toHaveBeenCalledWith(
         executionResult,
         'flow-session',
         expect.any(Number), // startTime
-        mockProvider
+        mockProvider,
+        undefined // priming result (session priming not configured)
       );
     });
   });
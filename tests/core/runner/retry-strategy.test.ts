@@ -0,0 +1,330 @@
+/**
+ * Tests for retry strategy selection
+ *
+ * Covers strategy selection and escalation, the prompt instructions of each
+ * strategy, and persuade() runs that escalate to a real session reset.
+ */
+
+import { setImmediate } from 'node:timers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { persuade } from '../../../src/core/index.js';
+import { processConfiguration } from '../../../src/core/runner/configuration-manager.js';
+import {
+  buildStrategyInstructions,
+  selectRetryStrategy,
+  type StrategySelectionContext,
+} from '../../../src/core/runner/retry-strategy.js';
+import { createValidationError } from '../../../src/core/validation/error-factory.js';
+import type {
+  EnhancedRetryAttempt,
+  ProviderAdapter,
+  ProviderError,
+  RetryStrategy,
+  ValidationError,
+} from '../../../src/types/index.js';
+
+const schema = z.object({
+  name: z.string(),
+  age: z.number().min(0),
+});
+
+const context: StrategySelectionContext = {
+  config: { enableProgressiveRefinement: true, minAttemptsBeforeEscalation: 1 },
+  canResetSession: true,
+};
+
+function failValidation(value: unknown): ValidationError {
+  const result = schema.safeParse(value);
+  return createValidationError(
+    'schema_validation',
+    'Schema validation failed',
+    result.success ? [] : result.error.issues,
+    value
+  );
+}
+
+const missingAge = failValidation({ name: 'Ada' });
+const negativeAge = failValidation({ name: 'Ada', age: -1 });
+
+function retried(
+  strategy: RetryStrategy,
+  error: ValidationError = missingAge
+): EnhancedRetryAttempt {
+  return {
+    attemptNumber: 2,
+    error,
+    delayMs: 0,
+    attemptedAt: new Date(),
+    finalAttempt: false,
+    strategy,
+    previousFailureMode: error.failureMode,
+    feedbackProvided: { summary: error.message, specificInstructions: [] },
+  };
+}
+
+describe('selectRetryStrategy', () => {
+  it('starts with the strategy recommended for the failure', () => {
+    expect(selectRetryStrategy(missingAge, [], context)).toBe(
+      'provide_field_guidance'
+    );
+    expect(selectRetryStrategy(negativeAge, [], context)).toBe(
+      'clarify_constraints'
+    );
+  });
+
+  it('escalates a persistent failure up the ladder', () => {
+    const history = [retried('provide_field_guidance')];
+    expect(selectRetryStrategy(missingAge, history, context)).toBe(
+      'add_examples'
+    );
+
+    history.push(retried('add_examples'));
+    expect(selectRetryStrategy(missingAge, history, context)).toBe(
+      'progressive_refinement'
+    );
+  });
+
+  it('waits minAttemptsBeforeEscalation retries before escalating', () => {
+    const patient = {
+      ...context,
+      config: { ...context.config, minAttemptsBeforeEscalation: 2 },
+    };
+    const history = [retried('provide_field_guidance')];
+
+    expect(selectRetryStrategy(missingAge, history, patient)).toBe(
+      'provide_field_guidance'
+    );
+    history.push(retried('provide_field_guidance'));
+    expect(selectRetryStrategy(missingAge, history, patient)).toBe(
+      'add_examples'
+    );
+  });
+
+  it('follows a new failure mode instead of escalating', () => {
+    expect(
+      selectRetryStrategy(negativeAge, [retried('add_examples')], context)
+    ).toBe('clarify_constraints');
+  });
+
+  it('skips progressive refinement when disabled', () => {
+    const history = [retried('add_examples')];
+    const withoutRefinement = {
+      ...context,
+      config: { ...context.config, enableProgressiveRefinement: false },
+    };
+
+    expect(selectRetryStrategy(missingAge, history, withoutRefinement)).toBe(
+      'simplify_request'
+    );
+  });
+
+  it('resets the session once, and only when the provider can', () => {
+    const history = [retried('simplify_request')];
+    expect(selectRetryStrategy(missingAge, history, context)).toBe(
+      'session_reset'
+    );
+    expect(
+      selectRetryStrategy(missingAge, history, {
+        ...context,
+        canResetSession: false,
+      })
+    ).toBe('simplify_request');
+
+    history.push(retried('session_reset'));
+    expect(selectRetryStrategy(missingAge, history, context)).toBe(
+      'simplify_request'
+    );
+  });
+
+  it('resets the session on session-related provider errors', () => {
+    const providerError: ProviderError = {
+      type: 'provider',
+      code: 'provider_call_failed',
+      message: 'Session expired',
+      provider: 'mock',
+      timestamp: new Date(),
+      retryable: true,
+    };
+
+    expect(selectRetryStrategy(providerError, [], context)).toBe(
+      'session_reset'
+    );
+    expect(
+      selectRetryStrategy(
+        { ...providerError, message: 'Timed out' },
+        [retried('add_examples')],
+        context
+      )
+    ).toBe('add_examples');
+  });
+});
+
+describe('buildStrategyInstructions', () => {
+  const config = processConfiguration({
+    schema,
+    input: 'Ada, 36',
+    context: 'Staff records',
+  });
+
+  it('demands raw JSON', () => {
+    expect(
+      buildStrategyInstructions('demand_json_format', missingAge, config)
+    ).toContain('Reply with a single raw JSON value and nothing else.');
+  });
+
+  it('lists the violated constraints', () => {
+    const instructions = buildStrategyInstructions(
+      'clarify_constraints',
+      negativeAge,
+      config
+    );
+
+    expect(instructions).toMatch(/^CONSTRAINTS TO RESPECT:\n- age: /);
+    expect(
+      buildStrategyInstructions('clarify_constraints', missingAge, config)
+    ).toBe('');
+  });
+
+  it('shows an example built from the schema', () => {
+    expect(
+      buildStrategyInstructions('add_examples', missingAge, config)
+    ).toContain(JSON.stringify({ name: '<string>', age: 0 }, null, 2));
+  });
+
+  it('restates the context', () => {
+    expect(
+      buildStrategyInstructions('reinforce_context', missingAge, config)
+    ).toContain('Context: Staff records');
+  });
+});
+
+/**
+ * Resolves a run while skipping the backoff delays between its retries
+ */
+async function settle<T>(run: Promise<T>): Promise<T> {
+  let done = false;
+  run.then(
+    () => (done = true),
+    () => (done = true)
+  );
+  while (!done) {
+    await vi.advanceTimersByTimeAsync(1000);
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  return run;
+}
+
+describe('persuade with retry strategies', () => {
+  const createProvider = () => ({
+    name: 'mock',
+    supportsSession: true,
+    createSession: vi
+      .fn()
+      .mockResolvedValueOnce('session-1')
+      .mockResolvedValueOnce('session-2'),
+    destroySession: vi.fn().mockResolvedValue(undefined),
+    sendPrompt: vi.fn(),
+  });
+  let provider: ReturnType<typeof createProvider> & ProviderAdapter;
+
+  beforeEach(() => {
+    provider = createProvider();
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('escalates to a fresh session and records each retry', async () => {
+    provider.sendPrompt.mockImplementation(async sessionId =>
+      sessionId === 'session-2'
+        ? { content: JSON.stringify({ name: 'Ada', age: 36 }) }
+        : { content: JSON.stringify({ name: 'Ada' }) }
+    );
+
+    const run = persuade(
+      {
+        schema,
+        input: 'Ada, 36',
+        retries: 5,
+        retryStrategies: {
+          minAttemptsBeforeEscalation: 1,
+          enableProgressiveRefinement: false,
+        },
+      },
+      provider
+    );
+    const result = await settle(run);
+
+    expect(result.ok).toBe(true);
+    expect(result.sessionId).toBe('session-2');
+    expect(provider.createSession).toHaveBeenCalledTimes(2);
+    expect(provider.destroySession).toHaveBeenCalledTimes(1);
+    expect(provider.destroySession).toHaveBeenCalledWith('session-1');
+    expect(
+      result.metadata.retryStrategyHistory?.map(attempt => attempt.strategy)
+    ).toEqual([
+      'provide_field_guidance',
+      'add_examples',
+      'simplify_request',
+      'session_reset',
+    ]);
+    expect(result.metadata.retryStrategyHistory?.[1]).toEqual(
+      expect.objectContaining({
+        attemptNumber: 3,
+        previousFailureMode: 'missing_required_fields',
+        attemptAnalysis: expect.objectContaining({ strategyChange: true }),
+      })
+    );
+
+    const prompts = provider.sendPrompt.mock.calls.map(call => call[1]);
+    expect(prompts[1]).toContain('FIELD GUIDANCE:');
+    expect(prompts[2]).toContain('EXAMPLE OF A VALID RESPONSE:');
+    expect(prompts[4]).toContain('FRESH START:');
+  });
+
+  it('keeps retrying when the replaced session cannot be destroyed', async () => {
+    provider.destroySession.mockRejectedValue(new Error('Session busy'));
+    provider.sendPrompt.mockImplementation(async sessionId =>
+      sessionId === 'session-2'
+        ? { content: JSON.stringify({ name: 'Ada', age: 36 }) }
+        : { content: JSON.stringify({ name: 'Ada' }) }
+    );
+
+    const run = persuade(
+      {
+        schema,
+        input: 'Ada, 36',
+        retries: 5,
+        retryStrategies: {
+          minAttemptsBeforeEscalation: 1,
+          enableProgressiveRefinement: false,
+        },
+      },
+      provider
+    );
+    const result = await settle(run);
+
+    expect(result.ok).toBe(true);
+    expect(result.sessionId).toBe('session-2');
+  });
+
+  it('retries with plain feedback unless strategies are enabled', async () => {
+    provider.sendPrompt
+      .mockResolvedValueOnce({ content: JSON.stringify({ name: 'Ada' }) })
+      .mockResolvedValueOnce({
+        content: JSON.stringify({ name: 'Ada', age: 36 }),
+      });
+
+    const run = persuade({ schema, input: 'Ada, 36' }, provider);
+    const result = await settle(run);
+
+    expect(result.ok).toBe(true);
+    expect(result.metadata.retryStrategyHistory).toBeUndefined();
+    expect(provider.sendPrompt.mock.calls[1]?.[1]).not.toContain(
+      'FIELD GUIDANCE:'
+    );
+  });
+});
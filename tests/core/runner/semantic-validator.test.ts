@@ -0,0 +1,250 @@
+/**
+ * Tests for semantic validators
+ *
+ * Covers check results and judge verdicts, the semantic validation error
+ * and its feedback, and persuade() runs that retry outputs rejected by a
+ * function validator or an LLM judge.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { persuade } from '../../../src/core/index.js';
+import {
+  buildJudgePrompt,
+  createSemanticValidationError,
+  getValidatorName,
+  normalizeCheckResult,
+  parseJudgeVerdict,
+} from '../../../src/core/runner/semantic-validator.js';
+import { formatValidationErrorFeedback } from '../../../src/core/validation/feedback-formatter.js';
+import type { ProviderAdapter } from '../../../src/types/index.js';
+
+const schema = z.object({
+  name: z.string(),
+  total: z.number(),
+  lines: z.array(z.object({ item: z.string(), amount: z.number() })),
+});
+
+type Invoice = z.infer<typeof schema>;
+
+const invoice: Invoice = {
+  name: 'ACME',
+  total: 30,
+  lines: [
+    { item: 'Bolts', amount: 10 },
+    { item: 'Nuts', amount: 20 },
+  ],
+};
+
+const input = 'Invoice from ACME: bolts 10, nuts 20, total 30';
+
+describe('normalizeCheckResult', () => {
+  it('reads passing and failing results', () => {
+    expect(normalizeCheckResult(true, 'totals')).toEqual([]);
+    expect(normalizeCheckResult([], 'totals')).toEqual([]);
+    expect(normalizeCheckResult(false, 'totals')).toEqual([
+      { message: 'Output rejected by totals' },
+    ]);
+    expect(normalizeCheckResult('Total is off', 'totals')).toEqual([
+      { message: 'Total is off' },
+    ]);
+    expect(
+      normalizeCheckResult([{ path: ['total'], message: 'Off' }], 'totals')
+    ).toEqual([{ path: ['total'], message: 'Off' }]);
+  });
+});
+
+describe('getValidatorName', () => {
+  it('uses configured and function names before the position', () => {
+    function totals() {
+      return true;
+    }
+
+    expect(getValidatorName(totals, 0)).toBe('totals');
+    expect(getValidatorName(() => true, 1)).toBe('validator 2');
+    expect(getValidatorName({ judge: 'Grounded', name: 'grounded' }, 2)).toBe(
+      'grounded'
+    );
+    expect(getValidatorName({ judge: 'Grounded' }, 3)).toBe('judge 4');
+  });
+});
+
+describe('judge prompts and verdicts', () => {
+  it('shows the input, the output and the criterion', () => {
+    const prompt = buildJudgePrompt('Amounts appear in the input', input, {
+      total: 30,
+    });
+
+    expect(prompt).toContain(`[INPUT]\n${input}`);
+    expect(prompt).toContain('"total": 30');
+    expect(prompt).toContain('[CRITERION]\nAmounts appear in the input');
+  });
+
+  it('reads passing and failing verdicts', () => {
+    expect(parseJudgeVerdict('{"pass": true}', 'Grounded')).toEqual([]);
+    expect(
+      parseJudgeVerdict(
+        '```json\n{"pass": false, "issues": [{"path": "lines.1.amount", "message": "Not in the input"}]}\n```',
+        'Grounded'
+      )
+    ).toEqual([{ path: ['lines', 1, 'amount'], message: 'Not in the input' }]);
+    expect(parseJudgeVerdict('{"pass": false}', 'Grounded')).toEqual([
+      { message: 'Output does not meet the criterion: Grounded' },
+    ]);
+  });
+
+  it('returns undefined without a verdict', () => {
+    expect(parseJudgeVerdict('Looks fine to me.', 'Grounded')).toBeUndefined();
+    expect(parseJudgeVerdict('{"ok": true}', 'Grounded')).toBeUndefined();
+  });
+});
+
+describe('createSemanticValidationError', () => {
+  const error = createSemanticValidationError(invoice, [
+    {
+      validator: 'totals',
+      issues: [{ path: ['total'], message: 'Lines add up to 25' }],
+    },
+    { validator: 'grounded', issues: [{ message: 'Invented a discount' }] },
+  ]);
+
+  it('classifies the failure for the retry loop', () => {
+    expect(error).toMatchObject({
+      type: 'validation',
+      code: 'semantic_validation',
+      message: 'Semantic validation failed: totals, grounded',
+      rawValue: invoice,
+      retryable: true,
+      failureMode: 'semantic_inconsistency',
+      retryStrategy: 'reinforce_context',
+    });
+    expect(error.issues.map(issue => [issue.path, issue.message])).toEqual([
+      [['total'], 'Lines add up to 25 (totals)'],
+      [[], 'Invented a discount (grounded)'],
+    ]);
+  });
+
+  it('carries structured feedback', () => {
+    expect(error.structuredFeedback.problemSummary).toBe(
+      'The output matches the schema but failed 2 semantic checks'
+    );
+    expect(error.structuredFeedback.specificIssues).toEqual([
+      'total: Lines add up to 25 (totals)',
+      'output: Invented a discount (grounded)',
+    ]);
+  });
+
+  it('is formatted as retry feedback', () => {
+    const feedback = formatValidationErrorFeedback(error, 2);
+
+    expect(feedback).toContain('Semantic Validation Failed (Attempt 2):');
+    expect(feedback).toContain('• total: Lines add up to 25 (totals)');
+    expect(feedback).toContain(
+      'Correct each listed problem using only information from the input'
+    );
+  });
+});
+
+describe('persuade with semantic validators', () => {
+  const createProvider = (...contents: string[]) => {
+    const sendPrompt = vi.fn();
+    for (const content of contents) {
+      sendPrompt.mockResolvedValueOnce({
+        content,
+        tokenUsage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+      });
+    }
+    return {
+      name: 'mock',
+      supportsSession: false,
+      sendPrompt,
+    } satisfies ProviderAdapter;
+  };
+
+  const totals = (value: Invoice) =>
+    value.lines.reduce((sum, line) => sum + line.amount, 0) === value.total ||
+    'The line amounts must add up to the total';
+
+  it('retries an output rejected by a function validator', async () => {
+    const provider = createProvider(
+      JSON.stringify({ ...invoice, total: 25 }),
+      JSON.stringify(invoice)
+    );
+
+    const result = await persuade(
+      { schema, input, validators: [totals] },
+      provider
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.value).toEqual(invoice);
+    expect(result.attempts).toBe(2);
+    expect(result.metadata.confidenceSignals?.failureModes).toEqual([
+      'semantic_inconsistency',
+    ]);
+    expect(provider.sendPrompt.mock.calls[1]?.[1]).toContain(
+      'The line amounts must add up to the total'
+    );
+  });
+
+  it('asks the judge outside the session and retries on its issues', async () => {
+    const provider = createProvider(
+      JSON.stringify({ ...invoice, name: 'ACME Corp' }),
+      '{"pass": false, "issues": [{"path": "name", "message": "The input says ACME"}]}',
+      JSON.stringify(invoice),
+      '{"pass": true}'
+    );
+
+    const result = await persuade(
+      {
+        schema,
+        input,
+        validators: [{ name: 'grounded', judge: 'Names match the input' }],
+      },
+      provider
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.value?.name).toBe('ACME');
+    expect(result.attempts).toBe(2);
+    expect(result.metadata.tokenUsage?.totalTokens).toBe(60);
+
+    const calls = provider.sendPrompt.mock.calls;
+    expect(calls[1]?.[0]).toBeNull();
+    expect(calls[1]?.[1]).toContain('[CRITERION]\nNames match the input');
+    expect(calls[2]?.[1]).toContain('name: The input says ACME (grounded)');
+  });
+
+  it('skips a judge that gives no verdict', async () => {
+    const provider = createProvider(
+      JSON.stringify(invoice),
+      'I think it is fine.'
+    );
+
+    const result = await persuade(
+      { schema, input, validators: [{ judge: 'Names match the input' }] },
+      provider
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.attempts).toBe(1);
+  });
+
+  it('fails the run when the checks keep failing', async () => {
+    const provider = createProvider(
+      JSON.stringify({ ...invoice, total: 25 }),
+      JSON.stringify({ ...invoice, total: 25 })
+    );
+
+    const result = await persuade(
+      { schema, input, retries: 1, validators: [totals] },
+      provider
+    );
+
+    expect(result.ok).toBe(false);
+    expect(result.error).toMatchObject({
+      code: 'semantic_validation',
+      failureMode: 'semantic_inconsistency',
+    });
+  });
+});
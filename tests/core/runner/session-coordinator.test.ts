@@ -10,8 +10,10 @@ import { z } from 'zod';
 import {
   coordinateSession,
   logSessionInfo,
+  recordSessionUsage,
   validateSessionState,
 } from '../../../src/core/runner/session-coordinator.js';
+import { SessionManager } from '../../../src/session/manager.js';
 import type { ProcessedConfiguration } from '../../../src/core/runner/configuration-manager.js';
 import type { ProviderAdapter } from '../../../src/types/index.js';
 
@@ -428,4 +430,42 @@ describe('edge cases and error scenarios', () => {
       model: 'test-model',
     });
   });
-});
\ No newline at end of file
+});
+
+describe('recordSessionUsage', () => {
+  it('accumulates tokens and cost on the session record', async () => {
+    const sessionManager = new SessionManager(undefined, true);
+    const session = await sessionManager.createSession('context', {
+      provider: 'test-provider',
+    });
+
+    await recordSessionUsage(sessionManager, session.id, {
+      inputTokens: 100,
+      outputTokens: 50,
+      totalTokens: 150,
+      estimatedCost: 0.002,
+    });
+    await recordSessionUsage(sessionManager, session.id, {
+      inputTokens: 10,
+      outputTokens: 5,
+      totalTokens: 15,
+    });
+
+    const updated = await sessionManager.getSession(session.id);
+    expect(updated?.metadata.totalTokens).toBe(165);
+    expect(updated?.metadata.totalCost).toBe(0.002);
+  });
+
+  it('skips session IDs without a record', async () => {
+    const sessionManager = new SessionManager(undefined, true);
+    const updateSession = vi.spyOn(sessionManager, 'updateSession');
+
+    await recordSessionUsage(sessionManager, 'provider-session', {
+      inputTokens: 1,
+      outputTokens: 1,
+      totalTokens: 2,
+    });
+
+    expect(updateSession).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * Tests for the session primer
+ *
+ * Covers which priming messages are built for a configuration, the priming
+ * conversation itself (budget, missing sessions, provider failures) and the
+ * priming result and usage reported by persuade().
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  getProcessSpend,
+  resetProcessSpend,
+} from '../../../src/core/budget.js';
+import { persuade } from '../../../src/core/index.js';
+import {
+  processConfiguration,
+  type ProcessedConfiguration,
+} from '../../../src/core/runner/configuration-manager.js';
+import {
+  buildPrimingMessages,
+  primeSession,
+} from '../../../src/core/runner/session-primer.js';
+import type {
+  Options,
+  ProviderAdapter,
+  SessionPrimingConfig,
+} from '../../../src/types/index.js';
+
+const schema = z.object({
+  title: z.string().min(3),
+  rating: z.number().int().min(1).max(5),
+  tags: z.array(z.enum(['news', 'opinion'])),
+});
+
+type Review = z.infer<typeof schema>;
+
+const primingDefaults: SessionPrimingConfig = {
+  enabled: true,
+  usePrimingConversation: true,
+  includeDomainContext: true,
+  includeExamples: true,
+  maxPrimingTokens: 4000,
+};
+
+function createConfig(
+  overrides: Partial<Options<Review>> = {}
+): ProcessedConfiguration<Review> {
+  return processConfiguration<Review>({
+    schema,
+    input: 'An article about the local elections',
+    sessionPriming: true,
+    ...overrides,
+  });
+}
+
+function createProvider(): ProviderAdapter & {
+  sendPrompt: ReturnType<typeof vi.fn>;
+  createSession: ReturnType<typeof vi.fn>;
+} {
+  return {
+    name: 'mock',
+    supportsSession: true,
+    createSession: vi.fn().mockResolvedValue('session-1'),
+    sendPrompt: vi.fn().mockResolvedValue({
+      content: 'Understood.',
+      tokenUsage: { inputTokens: 100, outputTokens: 5, totalTokens: 105 },
+    }),
+  };
+}
+
+describe('buildPrimingMessages', () => {
+  it('builds one message per applicable stage', () => {
+    const messages = buildPrimingMessages(
+      createConfig({ context: 'Editorial reviews', lens: 'a copy editor' }),
+      primingDefaults
+    );
+
+    expect(messages.map(message => message.stages)).toEqual([
+      ['schema_introduction'],
+      ['domain_context'],
+      ['format_demonstration'],
+      ['constraint_explanation'],
+      ['edge_case_handling'],
+    ]);
+    expect(messages[1]?.prompt).toContain('Editorial reviews');
+    expect(messages[1]?.prompt).toContain('a copy editor');
+    for (const message of messages) {
+      expect(message.prompt).toMatch(/acknowledgement only\.$/);
+    }
+  });
+
+  it('skips domain context without context or lens', () => {
+    const messages = buildPrimingMessages(createConfig(), primingDefaults);
+
+    expect(messages.flatMap(message => message.stages)).not.toContain(
+      'domain_context'
+    );
+  });
+
+  it('demonstrates the format from the schema or the example output', () => {
+    const [, skeleton] = buildPrimingMessages(createConfig(), primingDefaults);
+    expect(skeleton?.prompt).toContain(
+      JSON.stringify({ title: '<string>', rating: 0, tags: ['news'] }, null, 2)
+    );
+
+    const exampleOutput = { title: 'Solid', rating: 4, tags: ['opinion'] };
+    const [, example] = buildPrimingMessages(
+      createConfig({ exampleOutput }),
+      primingDefaults
+    );
+    expect(example?.prompt).toContain(JSON.stringify(exampleOutput, null, 2));
+
+    const withoutExamples = buildPrimingMessages(createConfig(), {
+      ...primingDefaults,
+      includeExamples: false,
+    });
+    expect(withoutExamples.flatMap(message => message.stages)).not.toContain(
+      'format_demonstration'
+    );
+  });
+
+  it('lists the schema constraints', () => {
+    const constraints = buildPrimingMessages(createConfig(), {
+      ...primingDefaults,
+      stages: ['constraint_explanation'],
+    });
+
+    expect(constraints).toHaveLength(1);
+    expect(constraints[0]?.prompt).toContain(
+      '- $.title must be at least 3 characters long'
+    );
+    expect(constraints[0]?.prompt).toContain('- $.rating must be <= 5');
+    expect(constraints[0]?.prompt).toContain(
+      '- $.tags[] must be one of: "news", "opinion"'
+    );
+  });
+
+  it('combines the stages into one message without a priming conversation', () => {
+    const messages = buildPrimingMessages(createConfig(), {
+      ...primingDefaults,
+      usePrimingConversation: false,
+    });
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]?.stages).toEqual([
+      'schema_introduction',
+      'format_demonstration',
+      'constraint_explanation',
+      'edge_case_handling',
+    ]);
+    expect(messages[0]?.prompt).toContain('[SCHEMA INTRODUCTION]');
+    expect(messages[0]?.prompt).toContain('[EDGE CASES]');
+  });
+});
+
+describe('primeSession', () => {
+  it('runs every stage in the session', async () => {
+    const provider = createProvider();
+
+    const result = await primeSession(createConfig(), provider, 'session-1');
+
+    expect(result).toEqual(
+      expect.objectContaining({
+        success: true,
+        sessionState: 'primed',
+        completedStages: [
+          'schema_introduction',
+          'format_demonstration',
+          'constraint_explanation',
+          'edge_case_handling',
+        ],
+        tokenUsage: {
+          input: 400,
+          output: 20,
+          total: 420,
+          estimatedCost: expect.any(Number),
+        },
+      })
+    );
+    expect(provider.sendPrompt).toHaveBeenCalledTimes(4);
+    expect(provider.sendPrompt).toHaveBeenCalledWith(
+      'session-1',
+      expect.stringContaining('[SCHEMA INTRODUCTION]'),
+      expect.objectContaining({ maxTokens: 256 })
+    );
+  });
+
+  it('stops before a stage that would exceed the token budget', async () => {
+    const provider = createProvider();
+
+    const result = await primeSession(
+      createConfig({ sessionPriming: { maxPrimingTokens: 500 } }),
+      provider,
+      'session-1'
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.sessionState).toBe('partially_primed');
+    expect(result.completedStages.length).toBeGreaterThan(0);
+    expect(result.tokenUsage.total).toBeLessThanOrEqual(500);
+    expect(result.error).toEqual(
+      expect.objectContaining({
+        type: 'configuration',
+        code: 'priming_budget_exceeded',
+        field: 'sessionPriming.maxPrimingTokens',
+      })
+    );
+  });
+
+  it('needs a session to prime', async () => {
+    const provider = createProvider();
+
+    const result = await primeSession(createConfig(), provider, undefined);
+
+    expect(result.sessionState).toBe('failed');
+    expect(result.error?.code).toBe('priming_requires_session');
+    expect(provider.sendPrompt).not.toHaveBeenCalled();
+  });
+
+  it('reports provider failures without throwing', async () => {
+    const provider = createProvider();
+    provider.sendPrompt
+      .mockResolvedValueOnce({ content: 'Understood.' })
+      .mockRejectedValueOnce(new Error('connection reset'));
+
+    const result = await primeSession(createConfig(), provider, 'session-1');
+
+    expect(result.sessionState).toBe('partially_primed');
+    expect(result.completedStages).toEqual(['schema_introduction']);
+    expect(result.error).toEqual(
+      expect.objectContaining({
+        type: 'provider',
+        code: 'priming_failed',
+        retryable: true,
+      })
+    );
+    expect(result.error?.message).toContain('connection reset');
+  });
+});
+
+describe('persuade with session priming', () => {
+  let provider: ReturnType<typeof createProvider>;
+
+  beforeEach(() => {
+    provider = createProvider();
+  });
+
+  afterEach(() => {
+    resetProcessSpend();
+  });
+
+  it('primes the session before the first request', async () => {
+    const review = { title: 'Great read', rating: 5, tags: ['news'] };
+    provider.sendPrompt.mockImplementation(async (_sessionId, prompt) =>
+      prompt.includes('acknowledgement only')
+        ? { content: 'Understood.' }
+        : { content: JSON.stringify(review) }
+    );
+
+    const result = await persuade(
+      {
+        schema,
+        input: 'An article about the local elections',
+        sessionPriming: { usePrimingConversation: false },
+      },
+      provider
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.value).toEqual(review);
+    expect(result.metadata.priming?.sessionState).toBe('primed');
+    expect(provider.sendPrompt).toHaveBeenCalledTimes(2);
+    expect(provider.sendPrompt.mock.calls.map(call => call[0])).toEqual([
+      'session-1',
+      'session-1',
+    ]);
+    expect(provider.sendPrompt.mock.calls[0]?.[1]).toContain(
+      '[SCHEMA INTRODUCTION]'
+    );
+  });
+
+  it('counts priming towards the usage and cost of the run', async () => {
+    const review = { title: 'Great read', rating: 5, tags: ['news'] };
+    const usage = { inputTokens: 800, outputTokens: 200, totalTokens: 1000 };
+    provider.sendPrompt.mockImplementation(async (_sessionId, prompt) => ({
+      content: prompt.includes('acknowledgement only')
+        ? 'Understood.'
+        : JSON.stringify(review),
+      tokenUsage: usage,
+    }));
+
+    const result = await persuade(
+      {
+        schema,
+        input: 'An article about the local elections',
+        model: 'review-model',
+        pricing: {
+          'review-model': {
+            inputPerMillionTokens: 10,
+            outputPerMillionTokens: 50,
+          },
+        },
+        sessionPriming: { usePrimingConversation: false },
+      },
+      provider
+    );
+
+    expect(result.metadata.priming?.tokenUsage).toEqual({
+      input: 800,
+      output: 200,
+      total: 1000,
+      estimatedCost: expect.closeTo(0.018),
+    });
+    expect(result.metadata.tokenUsage).toEqual({
+      inputTokens: 1600,
+      outputTokens: 400,
+      totalTokens: 2000,
+      estimatedCost: expect.closeTo(0.036),
+    });
+    expect(getProcessSpend()).toEqual({
+      tokens: 2000,
+      costUsd: expect.closeTo(0.036),
+    });
+  });
+
+  it('does not prime unless asked to', async () => {
+    provider.sendPrompt.mockResolvedValue({
+      content: JSON.stringify({ title: 'Fine', rating: 3, tags: [] }),
+    });
+
+    const result = await persuade(
+      { schema, input: 'An article about the local elections' },
+      provider
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.metadata.priming).toBeUndefined();
+    expect(provider.sendPrompt).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Tests for token estimation
+ *
+ * Covers counting with OpenAI's BPE encodings, resolving tokenizers and
+ * context windows per provider and model, process-wide overrides, and the
+ * warning persuade() logs for prompts exceeding the context window.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { persuade } from '../../src/core/index.js';
+import {
+  createCharacterTokenizer,
+  estimatePromptTokens,
+  CL100K_TOKENIZER,
+  O200K_TOKENIZER,
+  resolveContextWindow,
+  resolveTokenizer,
+  setContextWindows,
+  setTokenizers,
+} from '../../src/core/tokenizer.js';
+import type { ProviderAdapter } from '../../src/types/index.js';
+import { warn } from '../../src/utils/logger.js';
+
+vi.mock('../../src/utils/logger.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../src/utils/logger.js')>()),
+  warn: vi.fn(),
+}));
+
+afterEach(() => {
+  setTokenizers(undefined);
+  setContextWindows(undefined);
+  vi.mocked(warn).mockClear();
+});
+
+describe('OpenAI tokenizers', () => {
+  it('counts tokens with the cl100k encoding', () => {
+    expect(CL100K_TOKENIZER.countTokens('Hello, world!')).toBe(4);
+    expect(CL100K_TOKENIZER.countTokens('{"name": "Ada"}')).toBe(6);
+    expect(CL100K_TOKENIZER.countTokens("It's done.\n\nNext")).toBe(5);
+    expect(CL100K_TOKENIZER.countTokens('1234567')).toBe(3);
+    expect(CL100K_TOKENIZER.countTokens('你好世界')).toBe(5);
+    expect(CL100K_TOKENIZER.countTokens('')).toBe(0);
+  });
+
+  it('counts tokens with the o200k encoding', () => {
+    expect(O200K_TOKENIZER.countTokens('Hello, world!')).toBe(4);
+    expect(O200K_TOKENIZER.countTokens('internationalization')).toBe(2);
+    expect(O200K_TOKENIZER.countTokens('你好世界')).toBe(2);
+  });
+
+  it('counts special tokens in prompts as plain text', () => {
+    expect(CL100K_TOKENIZER.countTokens('<|endoftext|>')).toBe(7);
+  });
+});
+
+describe('resolveTokenizer', () => {
+  it('picks the tokenizer of the provider or model family', () => {
+    expect(resolveTokenizer('openai', 'gpt-4o-mini').name).toBe('o200k_base');
+    expect(resolveTokenizer('openai', 'gpt-4-turbo').name).toBe('cl100k_base');
+    expect(resolveTokenizer('vercel-ai-sdk', 'o3-mini').name).toBe(
+      'o200k_base'
+    );
+    expect(resolveTokenizer('vercel-ai-sdk', 'gpt-3.5-turbo').name).toBe(
+      'cl100k_base'
+    );
+    expect(resolveTokenizer('openai', undefined).name).toBe('o200k_base');
+    expect(resolveTokenizer('claude-cli', 'sonnet').name).toBe('claude-approx');
+    expect(resolveTokenizer('gemini', 'gemini-2.5-pro').name).toBe(
+      'gemini-approx'
+    );
+    expect(resolveTokenizer('ollama', 'llama3.1').name).toBe('characters');
+  });
+
+  it('prefers process-wide tokenizers over the built-in ones', () => {
+    setTokenizers({ 'ollama/*': createCharacterTokenizer('llama', 2) });
+
+    expect(estimatePromptTokens('abcdef', 'ollama', 'llama3.1')).toEqual({
+      tokens: 3,
+      tokenizer: 'llama',
+      exceedsContextWindow: false,
+    });
+  });
+});
+
+describe('resolveContextWindow', () => {
+  it('matches the longest model prefix', () => {
+    expect(resolveContextWindow('openai', 'gpt-4o-2024-08-06')).toBe(128_000);
+    expect(resolveContextWindow('openai', 'gpt-4-0613')).toBe(8_192);
+    expect(resolveContextWindow('gemini', 'gemini-1.5-pro-002')).toBe(
+      2_097_152
+    );
+    expect(resolveContextWindow('ollama', 'llama3.1')).toBeUndefined();
+  });
+
+  it('reports prompts exceeding the context window', () => {
+    setContextWindows({ 'gpt-4o': 3 });
+
+    expect(estimatePromptTokens('Hello, world!', 'openai', 'gpt-4o')).toEqual({
+      tokens: 4,
+      tokenizer: 'o200k_base',
+      contextWindow: 3,
+      exceedsContextWindow: true,
+    });
+  });
+});
+
+describe('persuade with an oversized prompt', () => {
+  it('warns before sending a prompt exceeding the context window', async () => {
+    // Without a configured model the provider decides the tokenizer
+    setContextWindows({ 'mock/*': 10 });
+    const provider = {
+      name: 'mock',
+      supportsSession: false,
+      sendPrompt: vi.fn().mockResolvedValue({ content: '{"name": "Mug"}' }),
+    } satisfies ProviderAdapter;
+
+    const result = await persuade(
+      { schema: z.object({ name: z.string() }), input: 'Blue mug' },
+      provider
+    );
+
+    expect(result.ok).toBe(true);
+    expect(warn).toHaveBeenCalledWith(
+      'Prompt is estimated to exceed the context window of mock',
+      expect.objectContaining({ contextWindow: 10, tokenizer: 'characters' })
+    );
+  });
+});
@@ -477,8 +477,8 @@ describe('createValidationError', () => {
     expect(error.schemaDescription).toBe(schemaDescription);
     expect(error.suggestions).toEqual(suggestions);
     expect(error.retryable).toBe(true);
-    expect(error.failureMode).toBe('schema_validation');
-    expect(error.retryStrategy).toBe('provide_field_guidance');
+    expect(error.failureMode).toBe('constraint_violation');
+    expect(error.retryStrategy).toBe('clarify_constraints');
     expect(error.structuredFeedback).toEqual({
       problemSummary: 'Email validation failed',
       specificIssues: suggestions,
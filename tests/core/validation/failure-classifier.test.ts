@@ -0,0 +1,144 @@
+/**
+ * Tests for Failure Classification
+ *
+ * Classifies real Zod failures and raw responses into failure modes and
+ * checks the retry strategy recommended for each.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import {
+  classifyFailureMode,
+  recommendRetryStrategy,
+} from '../../../src/core/validation/failure-classifier.js';
+
+const schema = z.object({
+  name: z.string(),
+  age: z.number().min(0),
+  address: z.object({ city: z.string(), zip: z.string().length(5) }),
+});
+
+function issuesFor(value: unknown): z.ZodIssue[] {
+  const result = schema.safeParse(value);
+  return result.success ? [] : result.error.issues;
+}
+
+describe('classifyFailureMode', () => {
+  describe('JSON parse failures', () => {
+    it('detects plain text responses', () => {
+      expect(
+        classifyFailureMode('json_parse', [], 'The person is called Ada.')
+      ).toBe('wrong_format');
+    });
+
+    it('detects refusals', () => {
+      expect(
+        classifyFailureMode(
+          'json_parse',
+          [],
+          "I'm unable to extract personal data from this document."
+        )
+      ).toBe('provider_refusal');
+    });
+
+    it('detects truncated JSON', () => {
+      expect(
+        classifyFailureMode('json_parse', [], '{"name": "Ada", "address": {')
+      ).toBe('incomplete_response');
+    });
+
+    it('detects malformed JSON', () => {
+      expect(classifyFailureMode('json_parse', [], "{'name': 'Ada'}")).toBe(
+        'json_parse_failure'
+      );
+    });
+  });
+
+  describe('schema failures', () => {
+    const valid = {
+      name: 'Ada',
+      age: 36,
+      address: { city: 'London', zip: '12345' },
+    };
+
+    it('detects a made-up root structure', () => {
+      const value = ['Ada', 36];
+      expect(
+        classifyFailureMode('schema_validation', issuesFor(value), value)
+      ).toBe('hallucinated_structure');
+    });
+
+    it('detects missing required fields', () => {
+      const value = { address: valid.address };
+      expect(
+        classifyFailureMode('schema_validation', issuesFor(value), value)
+      ).toBe('missing_required_fields');
+    });
+
+    it('detects type mismatches', () => {
+      const value = { ...valid, age: '36' };
+      expect(
+        classifyFailureMode('schema_validation', issuesFor(value), value)
+      ).toBe('field_type_mismatch');
+    });
+
+    it('detects constraint violations', () => {
+      const value = { ...valid, age: -1 };
+      expect(
+        classifyFailureMode('schema_validation', issuesFor(value), value)
+      ).toBe('constraint_violation');
+    });
+
+    it('detects unknown fields', () => {
+      const value = { ...valid, nickname: 'A' };
+      const issues = schema.strict().safeParse(value).error?.issues ?? [];
+      expect(classifyFailureMode('schema_validation', issues, value)).toBe(
+        'extra_unknown_fields'
+      );
+    });
+
+    it('reports mixed nested issues as nested validation', () => {
+      const value = { ...valid, address: { zip: '1' } };
+      expect(
+        classifyFailureMode('schema_validation', issuesFor(value), value)
+      ).toBe('nested_validation');
+    });
+
+    it('reports semantic validator rejections as semantic inconsistencies', () => {
+      const value = { ...valid, age: 3 };
+      const issues: z.ZodIssue[] = [
+        {
+          code: 'custom',
+          path: ['age'],
+          message: 'Age differs from the input',
+          input: 3,
+        },
+      ];
+      expect(classifyFailureMode('semantic_validation', issues, value)).toBe(
+        'semantic_inconsistency'
+      );
+    });
+
+    it('falls back to schema validation without issues', () => {
+      expect(classifyFailureMode('unexpected_error', [], undefined)).toBe(
+        'schema_validation'
+      );
+    });
+  });
+});
+
+describe('recommendRetryStrategy', () => {
+  it('targets the failure mode', () => {
+    expect(recommendRetryStrategy('wrong_format')).toBe('demand_json_format');
+    expect(recommendRetryStrategy('hallucinated_structure')).toBe(
+      'fix_structure'
+    );
+    expect(recommendRetryStrategy('constraint_violation')).toBe(
+      'clarify_constraints'
+    );
+    expect(recommendRetryStrategy('context_confusion')).toBe('session_reset');
+    expect(recommendRetryStrategy('semantic_inconsistency')).toBe(
+      'reinforce_context'
+    );
+  });
+});
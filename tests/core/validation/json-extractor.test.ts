@@ -0,0 +1,147 @@
+/**
+ * Tests for JSON Extraction
+ *
+ * Covers recovering JSON from fenced and prose-wrapped responses, the
+ * syntax repairs of each extraction mode, and the repairs persuade()
+ * reports for the accepted response.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { persuade } from '../../../src/core/index.js';
+import { extractJson } from '../../../src/core/validation/json-extractor.js';
+import type { ProviderAdapter } from '../../../src/types/index.js';
+
+describe('extractJson', () => {
+  it('parses clean JSON without repairs', () => {
+    expect(extractJson('  {"name": "Ada"}\n')).toEqual({
+      value: { name: 'Ada' },
+      repairs: [],
+    });
+  });
+
+  it('takes the JSON from a markdown code fence', () => {
+    const response = [
+      'Here is the extracted record:',
+      '```json',
+      '{"name": "Ada", "tags": ["math"]}',
+      '```',
+      'Let me know if you need anything else.',
+    ].join('\n');
+
+    expect(extractJson(response)).toEqual({
+      value: { name: 'Ada', tags: ['math'] },
+      repairs: ['code_fence'],
+    });
+  });
+
+  it('scans prose for the first balanced object or array', () => {
+    expect(
+      extractJson('Sure! [{"name": "Ada"}, {"name": "Alan"}] Hope that helps.')
+    ).toEqual({
+      value: [{ name: 'Ada' }, { name: 'Alan' }],
+      repairs: ['balanced_scan'],
+    });
+    expect(
+      extractJson('Result [draft]: {"note": "use {braces} and [brackets]"}')
+    ).toEqual({
+      value: { note: 'use {braces} and [brackets]' },
+      repairs: ['balanced_scan'],
+    });
+  });
+
+  it('repairs trailing commas and single quotes', () => {
+    expect(extractJson('{"tags": ["a", "b",],}')).toEqual({
+      value: { tags: ['a', 'b'] },
+      repairs: ['trailing_commas'],
+    });
+    expect(
+      extractJson(`{'name': 'Ada "the Countess"', "note": "it's fine"}`)
+    ).toEqual({
+      value: { name: 'Ada "the Countess"', note: "it's fine" },
+      repairs: ['single_quotes'],
+    });
+  });
+
+  it('combines extraction and syntax repairs', () => {
+    expect(extractJson("```\n{'name': 'Ada',}\n```").repairs).toEqual([
+      'code_fence',
+      'single_quotes',
+      'trailing_commas',
+    ]);
+  });
+
+  it('accepts comments and unquoted keys only in lenient mode', () => {
+    const json5 =
+      '{\n  // the person\n  name: "Ada", /* born */ year: 1815,\n}';
+
+    expect(() => extractJson(json5)).toThrow();
+    expect(extractJson(json5, 'lenient')).toEqual({
+      value: { name: 'Ada', year: 1815 },
+      repairs: ['json5_syntax', 'trailing_commas'],
+    });
+  });
+
+  it('requires clean JSON in strict mode', () => {
+    expect(() =>
+      extractJson('```json\n{"name": "Ada"}\n```', 'strict')
+    ).toThrow(SyntaxError);
+  });
+
+  it('throws the original parse error when nothing can be recovered', () => {
+    expect(() => extractJson('I could not find a name.')).toThrow(SyntaxError);
+    expect(() => extractJson('{"name": "Ada", "tags": [')).toThrow(SyntaxError);
+  });
+
+  it('does not take a nested value out of a truncated response', () => {
+    expect(() =>
+      extractJson('{"products":[{"name":"Mug","price":3},{"name":"Cup","pri')
+    ).toThrow(SyntaxError);
+  });
+});
+
+describe('persuade with JSON extraction', () => {
+  const schema = z.object({ name: z.string() });
+
+  const createProvider = (content: string): ProviderAdapter => ({
+    name: 'mock',
+    supportsSession: false,
+    sendPrompt: vi.fn().mockResolvedValue({ content }),
+  });
+
+  it('accepts a fenced response and records the repair', async () => {
+    const provider = createProvider('```json\n{"name": "Ada",}\n```');
+
+    const result = await persuade({ schema, input: 'Ada' }, provider);
+
+    expect(result.ok).toBe(true);
+    expect(result.attempts).toBe(1);
+    expect(result.metadata.jsonRepairs).toEqual([
+      'code_fence',
+      'trailing_commas',
+    ]);
+  });
+
+  it('rejects truncated responses under a passthrough schema', async () => {
+    const provider = createProvider(
+      '{"products":[{"name":"Mug","price":3},{"name":"Cup","pri'
+    );
+
+    const result = await persuade(
+      { schema: z.looseObject({}), input: 'Mugs', retries: 0 },
+      provider
+    );
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.type).toBe('validation');
+  });
+
+  it('leaves jsonRepairs out for clean responses', async () => {
+    const provider = createProvider('{"name": "Ada"}');
+
+    const result = await persuade({ schema, input: 'Ada' }, provider);
+
+    expect(result.ok).toBe(true);
+    expect(result.metadata.jsonRepairs).toBeUndefined();
+  });
+});
@@ -206,10 +206,10 @@ describe('validateJson', () => {
       );
     });
 
-    it('should handle trailing commas', () => {
+    it('should reject trailing commas in strict mode', () => {
       const invalidJson = '{"name": "John", "age": 30,}';
 
-      validateJson(personSchema, invalidJson);
+      validateJson(personSchema, invalidJson, 'strict');
 
       expect(createValidationError).toHaveBeenCalledWith(
         'json_parse',
@@ -221,6 +221,14 @@ describe('validateJson', () => {
       );
     });
 
+    it('should repair trailing commas and report the repair', () => {
+      const result = validateJson(personSchema, '{"name": "John", "age": 30,}');
+
+      expect(result.success).toBe(true);
+      expect(result.value).toEqual({ name: 'John', age: 30 });
+      expect(result.repairs).toEqual(['trailing_commas']);
+    });
+
     it('should handle empty input', () => {
       const emptyInput = '';
 
@@ -0,0 +1,227 @@
+/**
+ * Tests for the terminal progress display
+ *
+ * Renders fixed snapshots in each display mode and follows a tracker with a
+ * fake output stream.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  attachTerminalDisplay,
+  createProgressTracker,
+  renderProgress,
+  renderProgressDashboard,
+  renderProgressLine,
+} from '../../src/progress/index.js';
+import type { PipelineExecutionContext } from '../../src/types/multi-stage.js';
+import type { ProgressSnapshot } from '../../src/types/progress.js';
+
+const startTime = new Date('2026-01-01T10:00:00.000Z');
+
+function createSnapshot(): ProgressSnapshot {
+  return {
+    timestamp: new Date('2026-01-01T10:01:00.000Z'),
+    pipelineProgress: {
+      pipelineId: 'batch',
+      status: 'running',
+      progress: 0.5,
+      startTime,
+      currentTime: new Date('2026-01-01T10:01:00.000Z'),
+      estimatedTimeRemainingMs: 30000,
+      completedStages: 1,
+      failedStages: 0,
+      totalStages: 2,
+      executingStages: ['summarise'],
+      waitingStages: [],
+      phase: 'executing',
+      metrics: {
+        totalExecutionTimeMs: 60000,
+        avgStageExecutionTimeMs: 30000,
+        totalTokenUsage: {
+          inputTokens: 1000,
+          outputTokens: 200,
+          totalTokens: 1200,
+        },
+        totalRetryAttempts: 1,
+        avgRetriesPerStage: 1,
+        successRate: 1,
+        efficiency: 0.5,
+      },
+    },
+    stageProgress: {
+      extract: {
+        stageId: 'extract',
+        status: 'completed',
+        progress: 1,
+        phase: 'finalizing',
+        currentAttempt: 2,
+        maxAttempts: 3,
+        metrics: {
+          executionTimeMs: 30000,
+          tokenUsage: {
+            inputTokens: 1000,
+            outputTokens: 200,
+            totalTokens: 1200,
+          },
+        },
+      },
+      summarise: {
+        stageId: 'summarise',
+        status: 'executing',
+        progress: 0,
+        phase: 'calling_provider',
+        startTime: new Date('2026-01-01T10:00:30.000Z'),
+        maxAttempts: 3,
+      },
+    },
+    recentActivity: [
+      {
+        timestamp: new Date('2026-01-01T10:00:30.000Z'),
+        type: 'stage_completed',
+        stageId: 'extract',
+        description: 'Stage extract completed in 30000ms',
+        severity: 'info',
+      },
+    ],
+    warnings: [
+      {
+        id: 'low_confidence-1',
+        timestamp: new Date('2026-01-01T10:00:30.000Z'),
+        type: 'low_confidence',
+        severity: 'medium',
+        stageId: 'extract',
+        message: 'Stage extract completed with confidence 0.40',
+      },
+    ],
+    performance: {
+      avgStageTimeMs: 30000,
+      efficiency: 0.5,
+      successRate: 1,
+      avgRetryRate: 1,
+      overallHealth: 0.75,
+    },
+  };
+}
+
+describe('progress rendering', () => {
+  it('summarises counts, ETA and token burn on one line', () => {
+    expect(renderProgressLine(createSnapshot(), { width: 120 })).toBe(
+      '[████████████░░░░░░░░░░░░] 1/2 stages · 1 running · ETA 30.0s · 1,200 tokens (1,200/min)'
+    );
+  });
+
+  it('renders a dashboard with stages, warnings and activity', () => {
+    const lines = renderProgressDashboard(createSnapshot());
+
+    expect(lines[0]).toBe(
+      'Pipeline batch · running · 1m 0s elapsed · ETA 30.0s'
+    );
+    expect(lines[2]).toBe(
+      'Tokens 1,200 (in 1,000 / out 200) · 1,200 tokens/min · retries 1'
+    );
+    expect(lines).toContain(
+      '✔ extract                completed   30.0s     1,200     2/3'
+    );
+    expect(lines).toContain(
+      '▶ summarise              executing   30.0s               -/3'
+    );
+    expect(lines).toContain('! Stage extract completed with confidence 0.40');
+    expect(lines.at(-1)).toBe('10:00:30 Stage extract completed in 30000ms');
+  });
+
+  it('only colours output when asked to', () => {
+    const plain = renderProgress(createSnapshot(), 'dashboard').join('\n');
+    const coloured = renderProgress(createSnapshot(), 'dashboard', {
+      color: true,
+    }).join('\n');
+
+    expect(plain).not.toContain('\x1b[');
+    expect(coloured).toContain('\x1b[');
+  });
+
+  it('truncates lines to the width', () => {
+    const [line] = renderProgress(createSnapshot(), 'basic', { width: 30 });
+
+    expect(line).toHaveLength(30);
+    expect(line?.endsWith('…')).toBe(true);
+  });
+
+  it('shows running stages and warnings in detailed mode', () => {
+    const lines = renderProgress(createSnapshot(), 'detailed');
+
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toContain('summarise');
+    expect(lines[2]).toBe('  ! Stage extract completed with confidence 0.40');
+  });
+});
+
+describe('attachTerminalDisplay', () => {
+  const context = {
+    pipeline: {
+      id: 'batch',
+      name: 'Batch',
+      stages: [{ id: 'extract' }],
+    },
+    state: { startTime, status: 'running', phase: 'executing' },
+  } as unknown as PipelineExecutionContext;
+
+  function createStream(isTTY: boolean) {
+    const chunks: string[] = [];
+    return {
+      chunks,
+      stream: {
+        isTTY,
+        columns: 100,
+        write: (chunk: string) => chunks.push(chunk),
+      },
+    };
+  }
+
+  it('prints a summary line when stage counts change off a TTY', async () => {
+    const { chunks, stream } = createStream(false);
+    const tracker = createProgressTracker();
+    const display = attachTerminalDisplay(tracker, { stream });
+
+    await tracker.initialize(context);
+    await tracker.updateProgress('extract', 0);
+    await tracker.recordStageFailure('extract', new Error('boom'));
+    display.stop();
+    await tracker.finalize();
+
+    expect(chunks).toHaveLength(3);
+    expect(chunks[0]).toContain('0/1 stages\n');
+    expect(chunks[1]).toContain('0/1 stages · 1 running');
+    expect(chunks[2]).toContain('0/1 stages · 1 failed');
+  });
+
+  it('prints each activity in dashboard mode off a TTY', async () => {
+    const { chunks, stream } = createStream(false);
+    const tracker = createProgressTracker();
+    attachTerminalDisplay(tracker, { stream, mode: 'dashboard' });
+
+    await tracker.initialize(context);
+    await tracker.updateProgress('extract', 0);
+
+    expect(chunks.map(chunk => chunk.slice(9))).toEqual([
+      'Pipeline Batch started\n',
+      'Stage extract started\n',
+    ]);
+  });
+
+  it('redraws in place on a TTY', async () => {
+    const { chunks, stream } = createStream(true);
+    const tracker = createProgressTracker();
+    const display = attachTerminalDisplay(tracker, {
+      stream,
+      mode: 'minimal',
+      color: false,
+    });
+
+    await tracker.initialize(context);
+    await tracker.updateProgress('extract', 0);
+    display.stop();
+
+    expect(chunks[0]).toBe(`[${'░'.repeat(24)}] 0/1\n`);
+    expect(chunks[1]).toBe(`\x1b[1F\x1b[0J[${'░'.repeat(24)}] 0/1\n`);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Tests for the pipeline progress tracker
+ *
+ * Feeds the tracker from real pipeline runs with a mock provider and checks
+ * the stage statuses, token totals, ETA and warnings in its snapshots.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { runPipeline } from '../../src/core/multi-stage/index.js';
+import { createProgressTracker } from '../../src/progress/index.js';
+import type { Pipeline } from '../../src/types/multi-stage.js';
+import type { ProgressSnapshot } from '../../src/types/progress.js';
+
+const TitleSchema = z.object({ title: z.string() });
+
+function createPipeline(overrides: Partial<Pipeline> = {}): Pipeline {
+  return {
+    id: 'progress-pipeline',
+    name: 'Progress pipeline',
+    flow: { mode: 'sequential' },
+    config: { defaultRetryConfig: { maxAttempts: 2 } },
+    stages: [
+      { id: 'extract', name: 'Extract', schema: TitleSchema },
+      { id: 'refine', name: 'Refine', schema: TitleSchema },
+      {
+        id: 'publish',
+        name: 'Publish',
+        schema: TitleSchema,
+        condition: () => false,
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('PipelineProgressTracker', () => {
+  const mockProvider = {
+    name: 'mock',
+    supportsSession: false,
+    sendPrompt: vi.fn(),
+  };
+
+  beforeEach(() => {
+    mockProvider.sendPrompt.mockReset();
+    mockProvider.sendPrompt.mockResolvedValue({
+      content: JSON.stringify({ title: 'Report' }),
+      tokenUsage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+    });
+  });
+
+  it('tracks stage status and token totals through a run', async () => {
+    const tracker = createProgressTracker();
+    const snapshots: ProgressSnapshot[] = [];
+    tracker.onProgressUpdate(snapshot => {
+      snapshots.push(snapshot);
+    });
+
+    const result = await runPipeline(createPipeline(), 'doc', mockProvider, {
+      services: { progressTracker: tracker },
+    });
+    expect(result.success).toBe(true);
+
+    const running = snapshots.find(
+      snapshot => snapshot.stageProgress.refine?.status === 'executing'
+    );
+    expect(running?.pipelineProgress.executingStages).toEqual(['refine']);
+    expect(running?.pipelineProgress.completedStages).toBe(1);
+    expect(running?.pipelineProgress.estimatedTimeRemainingMs).toBeDefined();
+
+    const final = await tracker.getCurrentProgress();
+    expect(final.pipelineProgress.status).toBe('completed');
+    expect(final.pipelineProgress.progress).toBe(1);
+    expect(final.stageProgress.extract?.status).toBe('completed');
+    expect(final.stageProgress.extract?.maxAttempts).toBe(2);
+    expect(final.stageProgress.publish?.status).toBe('skipped');
+    expect(final.pipelineProgress.metrics.totalTokenUsage).toEqual({
+      inputTokens: 20,
+      outputTokens: 10,
+      totalTokens: 30,
+    });
+    expect(final.recentActivity.map(activity => activity.type)).toEqual([
+      'pipeline_started',
+      'stage_started',
+      'stage_completed',
+      'stage_started',
+      'stage_completed',
+      'stage_skipped',
+      'pipeline_completed',
+    ]);
+
+    const metrics = await tracker.getMetrics();
+    expect(metrics.basic).toEqual(
+      expect.objectContaining({
+        totalStages: 3,
+        completedStages: 2,
+        skippedStages: 1,
+        progressPercentage: 100,
+        estimatedTimeRemainingMs: 0,
+      })
+    );
+    expect(metrics.pipeline.successRate).toBe(1);
+    expect(metrics.pipeline.efficiency).toBe(1);
+  });
+
+  it('records failures and retries', async () => {
+    mockProvider.sendPrompt
+      .mockResolvedValueOnce({ content: '{"title": 1}' })
+      .mockResolvedValueOnce({ content: '{"title": "ok"}' })
+      .mockResolvedValue({ content: 'not json' });
+    const tracker = createProgressTracker();
+
+    const result = await runPipeline(createPipeline(), 'doc', mockProvider, {
+      services: { progressTracker: tracker },
+    });
+    expect(result.success).toBe(false);
+
+    const snapshot = await tracker.getCurrentProgress();
+    expect(snapshot.pipelineProgress.status).toBe('failed');
+    expect(snapshot.pipelineProgress.failedStages).toBe(1);
+    expect(snapshot.stageProgress.extract?.metrics?.retryCount).toBe(1);
+    expect(snapshot.stageProgress.refine?.status).toBe('failed');
+    expect(snapshot.stageProgress.refine?.currentActivity).toBeDefined();
+    expect(snapshot.recentActivity.at(-1)?.type).toBe('pipeline_failed');
+
+    const metrics = await tracker.getMetrics();
+    expect(metrics.pipeline.successRate).toBe(0.5);
+    expect(metrics.performance.optimizationOpportunities[0]?.type).toBe(
+      'retry_reduction'
+    );
+  });
+
+  it('warns about low-confidence stages', async () => {
+    const tracker = createProgressTracker({ lowConfidenceThreshold: 0.9 });
+
+    await runPipeline(
+      createPipeline({
+        stages: [
+          {
+            id: 'extract',
+            name: 'Extract',
+            schema: TitleSchema,
+            confidence: { estimator: () => 0.5 },
+          },
+        ],
+      }),
+      'doc',
+      mockProvider,
+      { services: { progressTracker: tracker } }
+    );
+
+    const { warnings, stageProgress } = await tracker.getCurrentProgress();
+    expect(stageProgress.extract?.metrics?.confidence).toBe(0.5);
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        type: 'low_confidence',
+        stageId: 'extract',
+        message: 'Stage extract completed with confidence 0.50',
+      }),
+    ]);
+  });
+
+  it('keeps working when a listener throws', async () => {
+    const tracker = createProgressTracker();
+    const listener = vi.fn(() => {
+      throw new Error('display broke');
+    });
+    tracker.onProgressUpdate(listener);
+
+    const result = await runPipeline(createPipeline(), 'doc', mockProvider, {
+      services: { progressTracker: tracker },
+    });
+
+    expect(result.success).toBe(true);
+    expect(listener).toHaveBeenCalled();
+
+    tracker.offProgressUpdate(listener);
+    listener.mockClear();
+    await tracker.finalize();
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * Tests for the file-backed review manager
+ *
+ * Runs a one-stage pipeline whose result is parked for review in a temporary
+ * directory, and decides reviews through a second manager on the same store,
+ * as the CLI would from another process.
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { runPipeline } from '../../src/core/multi-stage/index.js';
+import {
+  applyReviewModifications,
+  createFileReviewManager,
+  type FileReviewManager,
+  validateAgainstStoredSchema,
+} from '../../src/review/index.js';
+import type { Pipeline, PipelineStage } from '../../src/types/multi-stage.js';
+import type {
+  ReviewModification,
+  StoredReview,
+} from '../../src/types/review.js';
+
+const TitleSchema = z.object({ title: z.string(), tags: z.array(z.string()) });
+
+function createPipeline(stage: Partial<PipelineStage> = {}): Pipeline {
+  return {
+    id: 'review-pipeline',
+    name: 'Review pipeline',
+    flow: { mode: 'sequential' },
+    config: { defaultRetryConfig: { maxAttempts: 1 } },
+    stages: [
+      {
+        id: 'title',
+        name: 'Title',
+        schema: TitleSchema,
+        requiresReview: true,
+        ...stage,
+      },
+    ],
+  };
+}
+
+function modification(
+  path: string,
+  currentValue: unknown,
+  suggestedValue: unknown
+): ReviewModification {
+  return {
+    path,
+    currentValue,
+    suggestedValue,
+    reason: 'Reviewer correction',
+    confidence: 1,
+    priority: 'medium',
+    required: true,
+  };
+}
+
+async function waitForOpenReview(
+  store: FileReviewManager
+): Promise<StoredReview> {
+  for (let i = 0; i < 200; i++) {
+    const [review] = await store.listReviews({ status: ['pending'] });
+    if (review) {
+      return review;
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  throw new Error('No pending review appeared');
+}
+
+describe('FileReviewManager', () => {
+  const mockProvider = {
+    name: 'mock',
+    supportsSession: false,
+    sendPrompt: vi.fn(),
+  };
+  let storageDir: string;
+  let manager: FileReviewManager;
+  let store: FileReviewManager;
+
+  beforeEach(async () => {
+    mockProvider.sendPrompt.mockReset();
+    mockProvider.sendPrompt.mockResolvedValue({
+      content: JSON.stringify({ title: 'Draft', tags: ['a'] }),
+    });
+    storageDir = await mkdtemp(path.join(tmpdir(), 'persuader-reviews-'));
+    manager = createFileReviewManager({ storageDir, pollIntervalMs: 5 });
+    store = createFileReviewManager({ storageDir });
+  });
+
+  afterEach(async () => {
+    await rm(storageDir, { recursive: true, force: true });
+  });
+
+  function run(pipeline: Pipeline = createPipeline()) {
+    return runPipeline(pipeline, 'document', mockProvider, {
+      services: { reviewManager: manager },
+    });
+  }
+
+  it('parks the stage result with its schema until approved', async () => {
+    const running = run();
+    const review = await waitForOpenReview(store);
+
+    expect(review.stageId).toBe('title');
+    expect(review.value).toEqual({ title: 'Draft', tags: ['a'] });
+    expect(review.rawOutput).toBe('{"title":"Draft","tags":["a"]}');
+    expect(review.reasons).toEqual(['Stage requires review']);
+    expect(review.schema).toEqual(expect.objectContaining({ type: 'object' }));
+
+    await store.submitReview(review.id, {
+      decision: 'approved',
+      metadata: { reviewedBy: 'alex' },
+    });
+    const result = await running;
+
+    expect(result.success).toBe(true);
+    expect(result.value).toEqual({ title: 'Draft', tags: ['a'] });
+    expect(result.stageResults.title?.reviewResult).toEqual(
+      expect.objectContaining({
+        decision: 'approved',
+        reviewId: review.id,
+        reviewedBy: 'alex',
+      })
+    );
+    expect((await store.getStoredReview(review.id))?.status).toBe('completed');
+  });
+
+  it('applies modifications that match the stage schema', async () => {
+    const running = run();
+    const review = await waitForOpenReview(store);
+
+    await store.submitReview(review.id, {
+      decision: 'requires_modification',
+      modifications: [modification('title', 'Draft', 'Final')],
+    });
+    const result = await running;
+
+    expect(result.success).toBe(true);
+    expect(result.value).toEqual({ title: 'Final', tags: ['a'] });
+  });
+
+  it('re-opens reviews whose modifications break the schema', async () => {
+    const running = run();
+    const review = await waitForOpenReview(store);
+
+    await store.submitReview(review.id, {
+      decision: 'approved',
+      modifications: [modification('tags[0]', 'a', 42)],
+    });
+    const reopened = await waitForOpenReview(store);
+
+    expect(reopened.id).toBe(review.id);
+    expect(reopened.submission).toBeUndefined();
+    expect(reopened.validationErrors?.[0]).toContain('tags.0');
+
+    await store.submitReview(review.id, { decision: 'approved' });
+    expect((await running).success).toBe(true);
+  });
+
+  it('rejects invalid modifications immediately for live reviews', async () => {
+    const running = run();
+    const review = await waitForOpenReview(store);
+
+    await expect(
+      manager.submitReview(review.id, {
+        decision: 'approved',
+        modifications: [modification('title', 'Draft', null)],
+      })
+    ).rejects.toThrow('does not match the schema');
+    expect(await manager.getPendingReviews()).toHaveLength(1);
+
+    await manager.submitReview(review.id, { decision: 'rejected' });
+    const result = await running;
+
+    expect(result.success).toBe(false);
+    expect(result.stageResults.title?.error?.code).toBe('review_rejected');
+    expect(result.stageResults.title?.value).toBeUndefined();
+    await expect(
+      store.submitReview(review.id, { decision: 'approved' })
+    ).rejects.toThrow('already completed');
+  });
+
+  it('treats cancelled reviews as rejected', async () => {
+    const running = run();
+    const review = await waitForOpenReview(store);
+
+    await store.cancelReview(review.id);
+    const result = await running;
+
+    expect(result.success).toBe(false);
+    expect(result.stageResults.title?.reviewResult?.decision).toBe('rejected');
+  });
+
+  it('expires reviews and honours autoApproveOnTimeout', async () => {
+    const timedOut = await run(
+      createPipeline({ reviewConfig: { timeoutMs: 20 } })
+    );
+    expect(timedOut.success).toBe(false);
+    expect(timedOut.stageResults.title?.error?.code).toBe('review_timeout');
+
+    const autoApproved = await run(
+      createPipeline({
+        reviewConfig: { timeoutMs: 20, autoApproveOnTimeout: true },
+      })
+    );
+    expect(autoApproved.success).toBe(true);
+
+    const metrics = await store.getReviewMetrics();
+    expect(metrics.totalReviews).toBe(2);
+    expect(metrics.decisionDistribution.timeout).toBe(2);
+  });
+
+  it('only requires review below the confidence threshold', async () => {
+    const pipeline = createPipeline({
+      requiresReview: false,
+      reviewConfig: { confidenceThreshold: 0.8 },
+    });
+
+    const result = await run(pipeline);
+
+    expect(result.success).toBe(true);
+    expect(result.stageResults.title?.reviewResult).toBeUndefined();
+    expect(await store.listReviews()).toEqual([]);
+  });
+
+  it('routes low-confidence results to review in confidence_based mode', async () => {
+    const confident = await runPipeline(
+      createPipeline({ requiresReview: false }),
+      'document',
+      mockProvider,
+      {
+        reviewMode: 'confidence_based',
+        services: { reviewManager: manager },
+      }
+    );
+
+    expect(confident.success).toBe(true);
+    expect(confident.stageResults.title?.metadata.confidence).toBe(1);
+    expect(await store.listReviews()).toEqual([]);
+
+    const running = runPipeline(
+      createPipeline({
+        requiresReview: false,
+        confidence: { estimator: () => 0.4 },
+      }),
+      'document',
+      mockProvider,
+      {
+        reviewMode: 'confidence_based',
+        services: { reviewManager: manager },
+      }
+    );
+    const review = await waitForOpenReview(store);
+
+    expect(review.confidence).toBe(0.4);
+    expect(review.reasons).toEqual([
+      'Confidence 0.40 is below the threshold of 0.8',
+    ]);
+
+    await store.submitReview(review.id, { decision: 'approved' });
+    expect((await running).success).toBe(true);
+  });
+
+  it('skips review when the run disables it', async () => {
+    const result = await runPipeline(
+      createPipeline(),
+      'document',
+      mockProvider,
+      {
+        reviewMode: 'disabled',
+        services: { reviewManager: manager },
+      }
+    );
+
+    expect(result.success).toBe(true);
+    expect(await store.listReviews()).toEqual([]);
+  });
+
+  it('parks reviews in the default store when no manager is given', async () => {
+    vi.stubEnv('HOME', storageDir);
+    const defaultStore = createFileReviewManager({
+      storageDir: path.join(storageDir, '.persuader', 'reviews'),
+    });
+
+    try {
+      const running = runPipeline(createPipeline(), 'document', mockProvider);
+      const review = await waitForOpenReview(defaultStore);
+      await defaultStore.submitReview(review.id, { decision: 'rejected' });
+
+      expect((await running).success).toBe(false);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
+
+describe('applyReviewModifications', () => {
+  it('sets nested paths without mutating the original', () => {
+    const original = { items: [{ name: 'a' }], total: 1 };
+
+    const modified = applyReviewModifications(original, [
+      modification('$.items[0].name', 'a', 'b'),
+    ]);
+
+    expect(modified).toEqual({ items: [{ name: 'b' }], total: 1 });
+    expect(original.items[0]?.name).toBe('a');
+  });
+
+  it('replaces the whole value for an empty path', () => {
+    expect(
+      applyReviewModifications('old', [
+        modification('', 'old', { fresh: true }),
+      ])
+    ).toEqual({ fresh: true });
+  });
+});
+
+describe('validateAgainstStoredSchema', () => {
+  const review = {
+    schema: z.toJSONSchema(TitleSchema, { target: 'draft-2020-12' }),
+  } as StoredReview;
+
+  it('reports JSON Schema errors by instance path', () => {
+    expect(
+      validateAgainstStoredSchema(review, { title: 'x', tags: [] })
+    ).toEqual([]);
+    expect(
+      validateAgainstStoredSchema(review, { title: 'x', tags: [1] })
+    ).toEqual(['/tags/0: must be string']);
+  });
+
+  it('accepts any value when no schema was stored', () => {
+    expect(validateAgainstStoredSchema({} as StoredReview, 1)).toEqual([]);
+  });
+});
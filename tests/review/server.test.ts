@@ -0,0 +1,335 @@
+/**
+ * Tests for the review server and review webhooks
+ *
+ * Starts the server on a free port against a temporary review store, and
+ * records webhook deliveries with a local stub endpoint.
+ */
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { runPipeline } from '../../src/core/multi-stage/index.js';
+import {
+  createFileReviewManager,
+  notifyReviewWebhooks,
+  type ReviewServer,
+  type ReviewWebhookPayload,
+  startReviewServer,
+} from '../../src/review/index.js';
+import type { Pipeline } from '../../src/types/multi-stage.js';
+import type {
+  APIReviewSettings,
+  StoredReview,
+  WebhookConfiguration,
+} from '../../src/types/review.js';
+
+const TitleSchema = z.object({ title: z.string() });
+
+const REVIEW_ID = '5c000000-0000-4000-8000-000000000001';
+
+interface WebhookStub {
+  readonly url: string;
+  readonly payloads: ReviewWebhookPayload[];
+  close(): Promise<void>;
+}
+
+async function startWebhookStub(failures = 0): Promise<WebhookStub> {
+  const payloads: ReviewWebhookPayload[] = [];
+  let remainingFailures = failures;
+  const server: Server = createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => {
+      if (remainingFailures > 0) {
+        remainingFailures--;
+        response.writeHead(500).end();
+        return;
+      }
+      payloads.push(JSON.parse(body) as ReviewWebhookPayload);
+      response.writeHead(204).end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`,
+    payloads,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+function createStoredReview(
+  overrides: Partial<StoredReview> = {}
+): StoredReview {
+  const now = new Date().toISOString();
+  return {
+    id: REVIEW_ID,
+    pipelineId: 'articles',
+    pipelineName: 'Articles',
+    stageId: 'title',
+    stageName: 'Title',
+    status: 'pending',
+    priority: 'normal',
+    reasons: ['Stage requires review'],
+    createdAt: now,
+    updatedAt: now,
+    value: { title: 'Draft' },
+    schema: z.toJSONSchema(TitleSchema, { target: 'draft-2020-12' }),
+    stageMetadata: { provider: 'mock', executionTimeMs: 5, attempts: 1 },
+    ...overrides,
+  };
+}
+
+describe('review server', () => {
+  let storageDir: string;
+  let server: ReviewServer | undefined;
+  let webhook: WebhookStub | undefined;
+
+  beforeEach(async () => {
+    storageDir = await mkdtemp(path.join(tmpdir(), 'persuader-review-server-'));
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    await webhook?.close();
+    server = undefined;
+    webhook = undefined;
+    await rm(storageDir, { recursive: true, force: true });
+  });
+
+  async function start(api: APIReviewSettings = {}, authToken?: string) {
+    server = await startReviewServer({
+      manager: createFileReviewManager({
+        storageDir,
+        config: { interface: { api } },
+      }),
+      port: 0,
+      api,
+      ...(authToken && { authToken }),
+    });
+    return server.url;
+  }
+
+  async function storeReview(review: StoredReview): Promise<void> {
+    await writeFile(
+      path.join(storageDir, `${review.id}.json`),
+      JSON.stringify(review)
+    );
+  }
+
+  function post(url: string, body: unknown, headers = {}) {
+    return fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('serves the browser UI and lists open reviews', async () => {
+    await storeReview(createStoredReview());
+    await storeReview(
+      createStoredReview({
+        id: '5c000000-0000-4000-8000-000000000002',
+        status: 'completed',
+      })
+    );
+    const url = await start();
+
+    const page = await fetch(url);
+    expect(page.headers.get('content-type')).toContain('text/html');
+    expect(await page.text()).toContain('Persuader reviews');
+
+    const list = await fetch(`${url}/api/reviews`);
+    const { reviews } = (await list.json()) as { reviews: StoredReview[] };
+    expect(reviews.map(review => review.id)).toEqual([REVIEW_ID]);
+
+    const all = await fetch(`${url}/api/reviews?all=true`);
+    expect(((await all.json()) as { reviews: unknown[] }).reviews).toHaveLength(
+      2
+    );
+  });
+
+  it('resumes a waiting pipeline with an edit made over the API', async () => {
+    webhook = await startWebhookStub();
+    const webhooks: WebhookConfiguration[] = [
+      {
+        url: webhook.url,
+        events: ['review_requested', 'review_completed'],
+        retries: 0,
+      },
+    ];
+    const url = await start({ webhooks });
+    const pipeline: Pipeline = {
+      id: 'articles',
+      name: 'Articles',
+      flow: { mode: 'sequential' },
+      config: { defaultRetryConfig: { maxAttempts: 1 } },
+      stages: [
+        {
+          id: 'title',
+          name: 'Title',
+          schema: TitleSchema,
+          requiresReview: true,
+        },
+      ],
+    };
+    const provider = {
+      name: 'mock',
+      supportsSession: false,
+      sendPrompt: vi
+        .fn()
+        .mockResolvedValue({ content: JSON.stringify({ title: 'Draft' }) }),
+    };
+
+    const running = runPipeline(pipeline, 'document', provider, {
+      services: {
+        reviewManager: createFileReviewManager({
+          storageDir,
+          pollIntervalMs: 5,
+          config: { interface: { api: { webhooks } } },
+        }),
+      },
+    });
+
+    let reviews: StoredReview[] = [];
+    while (reviews.length === 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      reviews = (
+        (await (await fetch(`${url}/api/reviews`)).json()) as {
+          reviews: StoredReview[];
+        }
+      ).reviews;
+    }
+    const decisionUrl = `${url}/api/reviews/${reviews[0]?.id}/decision`;
+
+    const invalid = await post(decisionUrl, {
+      decision: 'requires_modification',
+      value: { title: 7 },
+    });
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual(
+      expect.objectContaining({ issues: ['/title: must be string'] })
+    );
+
+    const valid = await post(decisionUrl, {
+      decision: 'requires_modification',
+      value: { title: 'Final' },
+      comments: 'Fixed title',
+      reviewer: 'sam',
+    });
+    expect(valid.status).toBe(200);
+
+    const result = await running;
+    expect(result.success).toBe(true);
+    expect(result.value).toEqual({ title: 'Final' });
+    expect(webhook.payloads.map(payload => payload.event)).toEqual([
+      'review_requested',
+      'review_completed',
+    ]);
+    expect(webhook.payloads[1]?.review).toEqual(
+      expect.objectContaining({
+        decision: 'requires_modification',
+        reviewedBy: 'sam',
+        comments: 'Fixed title',
+      })
+    );
+  });
+
+  it('rejects unknown reviews, invalid decisions and decided reviews', async () => {
+    await storeReview(createStoredReview());
+    const url = await start();
+
+    expect((await fetch(`${url}/api/reviews/missing`)).status).toBe(404);
+    expect(
+      (
+        await post(`${url}/api/reviews/${REVIEW_ID}/decision`, {
+          decision: 'ok',
+        })
+      ).status
+    ).toBe(400);
+    expect(
+      (await post(`${url}/api/reviews/${REVIEW_ID}/cancel`, {})).status
+    ).toBe(200);
+    expect(
+      (
+        await post(`${url}/api/reviews/${REVIEW_ID}/decision`, {
+          decision: 'approved',
+        })
+      ).status
+    ).toBe(409);
+  });
+
+  it('requires the bearer token when auth is enabled', async () => {
+    await expect(
+      startReviewServer({
+        manager: createFileReviewManager({ storageDir }),
+        port: 0,
+        api: { requireAuth: true },
+      })
+    ).rejects.toThrow('no token');
+
+    const url = await start({ requireAuth: true }, 'secret');
+
+    expect((await fetch(`${url}/api/reviews`)).status).toBe(401);
+    expect(
+      (
+        await fetch(`${url}/api/reviews`, {
+          headers: { authorization: 'Bearer secret' },
+        })
+      ).status
+    ).toBe(200);
+  });
+
+  it('rate limits API requests per client', async () => {
+    const url = await start({
+      rateLimit: { requestsPerMinute: 60, burstLimit: 2 },
+    });
+
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await fetch(`${url}/api/metrics`)).status);
+    }
+
+    expect(statuses).toEqual([200, 200, 429]);
+  });
+});
+
+describe('notifyReviewWebhooks', () => {
+  let webhook: WebhookStub | undefined;
+
+  afterEach(async () => {
+    await webhook?.close();
+    webhook = undefined;
+  });
+
+  it('retries failed deliveries and skips unsubscribed events', async () => {
+    webhook = await startWebhookStub(1);
+    const webhooks: WebhookConfiguration[] = [
+      { url: webhook.url, events: ['review_expired'], retries: 1 },
+    ];
+
+    await notifyReviewWebhooks(
+      webhooks,
+      'review_requested',
+      createStoredReview()
+    );
+    await notifyReviewWebhooks(
+      webhooks,
+      'review_expired',
+      createStoredReview()
+    );
+
+    expect(webhook.payloads).toHaveLength(1);
+    expect(webhook.payloads[0]).toEqual(
+      expect.objectContaining({
+        event: 'review_expired',
+        review: expect.objectContaining({ id: REVIEW_ID, stageId: 'title' }),
+      })
+    );
+    expect(webhook.payloads[0]?.review).not.toHaveProperty('value');
+  });
+});
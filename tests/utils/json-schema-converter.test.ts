@@ -0,0 +1,283 @@
+/**
+ * Tests for JSON Schema to Zod conversion
+ *
+ * Covers objects and additional properties, arrays and tuples, string
+ * formats, numeric bounds, enums and constants, references including
+ * recursive ones, and combinators.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { jsonSchemaToZod } from '../../src/utils/json-schema-converter.js';
+import { extractSchemaInfo } from '../../src/utils/schema-analyzer.js';
+
+describe('jsonSchemaToZod', () => {
+  const person = jsonSchemaToZod({
+    type: 'object',
+    description: 'A person',
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      age: { type: ['integer', 'null'], minimum: 0 },
+      email: { type: 'string', format: 'email' },
+      role: { enum: ['admin', 'user'] },
+    },
+    required: ['name', 'age', 'role'],
+    additionalProperties: false,
+  });
+
+  it('converts objects into Zod objects', () => {
+    expect(person).toBeInstanceOf(z.ZodObject);
+    expect(person.description).toBe('A person');
+    expect(extractSchemaInfo(person)).toMatchObject({
+      type: 'object',
+      requiredFields: ['name', 'age', 'role'],
+      optionalFields: ['email'],
+      enumFields: ['role'],
+    });
+  });
+
+  it('validates like the JSON Schema', () => {
+    expect(
+      person.safeParse({ name: 'Ada', age: null, role: 'admin' }).success
+    ).toBe(true);
+
+    const result = person.safeParse({
+      name: '',
+      age: 1.5,
+      email: 'not-an-email',
+      role: 'owner',
+      extra: true,
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map(issue => issue.path.join('.'))).toEqual(
+      expect.arrayContaining(['name', 'age', 'email', 'role', ''])
+    );
+  });
+
+  it('keeps or validates additional properties', () => {
+    const loose = jsonSchemaToZod({
+      type: 'object',
+      properties: { id: { type: 'string' } },
+      additionalProperties: true,
+    });
+    const counts = jsonSchemaToZod({
+      type: 'object',
+      additionalProperties: { type: 'number' },
+    });
+
+    expect(loose.parse({ id: 'a', note: 'kept' })).toEqual({
+      id: 'a',
+      note: 'kept',
+    });
+    expect(counts.safeParse({ a: 1, b: 'two' }).success).toBe(false);
+  });
+
+  it('converts arrays and tuples', () => {
+    const tags = jsonSchemaToZod({
+      type: 'array',
+      items: { type: 'string' },
+      minItems: 1,
+      maxItems: 3,
+      uniqueItems: true,
+    });
+    const point = jsonSchemaToZod({
+      type: 'array',
+      prefixItems: [{ type: 'number' }, { type: 'number' }],
+      items: false,
+    });
+
+    expect(tags.safeParse(['a', 'b']).success).toBe(true);
+    expect(tags.safeParse([]).success).toBe(false);
+    expect(tags.safeParse(['a', 'a']).success).toBe(false);
+    expect(point.safeParse([1, 2]).success).toBe(true);
+    expect(point.safeParse([1, 2, 3]).success).toBe(false);
+  });
+
+  it('converts numeric bounds of both drafts', () => {
+    const modern = jsonSchemaToZod({
+      type: 'number',
+      exclusiveMinimum: 0,
+      maximum: 10,
+      multipleOf: 0.5,
+    });
+    const draft4 = jsonSchemaToZod({
+      type: 'number',
+      minimum: 0,
+      exclusiveMinimum: true,
+    });
+
+    expect(modern.safeParse(10).success).toBe(true);
+    expect(modern.safeParse(0).success).toBe(false);
+    expect(modern.safeParse(1.25).success).toBe(false);
+    expect(draft4.safeParse(0).success).toBe(false);
+  });
+
+  it('converts string formats and patterns', () => {
+    const schema = jsonSchemaToZod({
+      type: 'object',
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        at: { type: 'string', format: 'date-time' },
+        code: { type: 'string', pattern: '^[A-Z]{3}$' },
+        note: { type: 'string', format: 'custom-format' },
+      },
+      required: ['id', 'at', 'code', 'note'],
+    });
+
+    expect(
+      schema.safeParse({
+        id: '123e4567-e89b-42d3-a456-426614174000',
+        at: '2024-05-01T10:00:00+02:00',
+        code: 'ABC',
+        note: 'anything',
+      }).success
+    ).toBe(true);
+    expect(
+      schema.safeParse({ id: 'x', at: 'yesterday', code: 'abc', note: '' })
+        .error?.issues
+    ).toHaveLength(3);
+  });
+
+  it('converts mixed enums and constants', () => {
+    const level = jsonSchemaToZod({ enum: [1, 2, 'max', null] });
+    const origin = jsonSchemaToZod({ const: { x: 0, y: 0 } });
+
+    expect(level.safeParse('max').success).toBe(true);
+    expect(level.safeParse(null).success).toBe(true);
+    expect(level.safeParse(3).success).toBe(false);
+    expect(origin.safeParse({ x: 0, y: 0 }).success).toBe(true);
+    expect(origin.safeParse({ x: 1, y: 0 }).success).toBe(false);
+  });
+
+  it('resolves references to definitions', () => {
+    const schema = jsonSchemaToZod({
+      type: 'object',
+      properties: {
+        home: { $ref: '#/$defs/Address' },
+        work: { $ref: '#/definitions/Address' },
+      },
+      required: ['home'],
+      $defs: {
+        Address: {
+          type: 'object',
+          properties: { city: { type: 'string' } },
+          required: ['city'],
+        },
+      },
+      definitions: {
+        Address: { $ref: '#/$defs/Address' },
+      },
+    });
+
+    expect(schema.safeParse({ home: { city: 'Oslo' } }).success).toBe(true);
+    expect(
+      schema.safeParse({ home: { city: 'Oslo' }, work: {} }).error?.issues[0]
+        ?.path
+    ).toEqual(['work', 'city']);
+  });
+
+  it('resolves recursive references', () => {
+    const tree = jsonSchemaToZod({
+      $ref: '#/$defs/Node',
+      $defs: {
+        Node: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            children: { type: 'array', items: { $ref: '#/$defs/Node' } },
+          },
+          required: ['name'],
+        },
+      },
+    });
+
+    expect(
+      tree.safeParse({ name: 'root', children: [{ name: 'leaf' }] }).success
+    ).toBe(true);
+    expect(
+      tree.safeParse({ name: 'root', children: [{ children: [] }] }).success
+    ).toBe(false);
+  });
+
+  it('throws for unresolvable references', () => {
+    expect(() => jsonSchemaToZod({ $ref: '#/$defs/Missing' })).toThrow(
+      'Unresolvable $ref: #/$defs/Missing'
+    );
+    expect(() =>
+      jsonSchemaToZod({ $ref: 'https://example.com/schema.json' })
+    ).toThrow('Only local $ref values are supported');
+  });
+
+  it('converts combinators', () => {
+    const contact = jsonSchemaToZod({
+      oneOf: [
+        { type: 'string', format: 'email' },
+        {
+          type: 'object',
+          properties: { phone: { type: 'string' } },
+          required: ['phone'],
+        },
+      ],
+    });
+    const named = jsonSchemaToZod({
+      allOf: [
+        {
+          type: 'object',
+          properties: { name: { type: 'string' } },
+          required: ['name'],
+        },
+        {
+          type: 'object',
+          properties: { id: { type: 'integer' } },
+          required: ['id'],
+        },
+      ],
+    });
+
+    expect(contact.safeParse('ada@example.com').success).toBe(true);
+    expect(contact.safeParse({ phone: '555' }).success).toBe(true);
+    expect(contact.safeParse(42).success).toBe(false);
+    expect(named.safeParse({ name: 'Ada', id: 1 }).success).toBe(true);
+    expect(named.safeParse({ name: 'Ada' }).success).toBe(false);
+  });
+
+  it('keeps the keywords beside unions and references', () => {
+    const contact = jsonSchemaToZod({
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        email: { type: 'string' },
+        phone: { type: 'string' },
+      },
+      required: ['name'],
+      anyOf: [{ required: ['email'] }, { required: ['phone'] }],
+    });
+    const named = jsonSchemaToZod({
+      $ref: '#/$defs/Named',
+      required: ['id'],
+      $defs: {
+        Named: { type: 'object', properties: { name: { type: 'string' } } },
+      },
+    });
+
+    expect(contact.parse({ name: 'Ada', email: 'a@b.c' })).toEqual({
+      name: 'Ada',
+      email: 'a@b.c',
+    });
+    expect(contact.safeParse({ email: 42 }).success).toBe(false);
+    expect(contact.safeParse({ name: 'Ada' }).success).toBe(false);
+    expect(named.parse({ name: 'Ada', id: 1 })).toEqual({ name: 'Ada', id: 1 });
+    expect(named.safeParse({}).success).toBe(false);
+  });
+
+  it('converts boolean schemas and OpenAPI nullable', () => {
+    expect(jsonSchemaToZod(true).safeParse({ any: 'thing' }).success).toBe(
+      true
+    );
+    expect(jsonSchemaToZod(false).safeParse(null).success).toBe(false);
+    expect(
+      jsonSchemaToZod({ type: 'string', nullable: true }).safeParse(null)
+        .success
+    ).toBe(true);
+  });
+});
@@ -1,6 +1,7 @@
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
 import { loadSchema } from '../../src/utils/schema-loader.js';
 
 vi.mock('node:fs/promises');
@@ -38,6 +39,35 @@ describe('loadSchema', () => {
     );
   });
 
+  it('converts JSON Schema files into Zod schemas', async () => {
+    mockFs.access.mockResolvedValue(undefined);
+    mockFs.stat.mockResolvedValue({ isFile: () => true, size: 100 } as Awaited<
+      ReturnType<typeof fs.stat>
+    >);
+    mockFs.readFile.mockResolvedValue(
+      JSON.stringify({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'object',
+        properties: {
+          tags: { type: 'array', items: { $ref: '#/$defs/Tag' } },
+        },
+        required: ['tags'],
+        $defs: { Tag: { type: 'string', enum: ['new', 'sale'] } },
+      })
+    );
+
+    const result = await loadSchema('/schemas/product.json');
+
+    expect(result.format).toBe('json-schema');
+    expect(result.schema).toBeInstanceOf(z.ZodObject);
+    const schema = result.schema as z.ZodType;
+    expect(schema.safeParse({ tags: ['sale'] }).success).toBe(true);
+    expect(schema.safeParse({ tags: ['old'] }).error?.issues[0]?.path).toEqual([
+      'tags',
+      0,
+    ]);
+  });
+
   it('throws error for unsupported file extensions', async () => {
     mockFs.access.mockResolvedValue(undefined);
     mockFs.stat.mockResolvedValue({ isFile: () => true, size: 100 } as Awaited<